@@ -0,0 +1,356 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EntryAttachment, AttachmentIssue, AttachmentMaintenanceReport, AttachmentRepairSummary } from './types';
+import {
+  getCurrentProfile,
+  getAttachmentReferences,
+  countAttachmentReferences,
+  setEntryAttachments,
+  flushDatabase,
+  AttachmentReference,
+} from './database';
+import { getProfileEncryptionKey, readProfileFileDecrypted } from './profile-manager';
+import { encryptBuffer, writeFileAtomic } from './utils/encryptionUtils';
+import { validatePath, safePathJoin } from './utils/pathValidation';
+import { hashAttachmentData, getStoredAttachmentName, findOrphanedFiles } from './utils/attachmentIntegrity';
+import { removeAttachmentThumbnails } from './attachment-thumbnails';
+
+interface StoredFileState {
+  exists: boolean;
+  hash: string | null; // Null when the file cannot be read or decrypted
+  size: number; // Bytes on disk
+}
+
+const MISSING_FILE: StoredFileState = { exists: false, hash: null, size: 0 };
+
+/**
+ * Folder holding the attachments of every profile
+ */
+export function getAttachmentsDir(): string {
+  return path.join(app.getPath('userData'), 'attachments');
+}
+
+function getCurrentProfileId(): string {
+  return getCurrentProfile()?.id || 'default';
+}
+
+/**
+ * Folder holding a profile's content-addressed attachment files
+ */
+function getProfileAttachmentsDir(profileId: string = getCurrentProfileId()): string | null {
+  return safePathJoin(getAttachmentsDir(), profileId);
+}
+
+function readStoredFile(filePath: string, profileId: string = getCurrentProfileId()): Buffer {
+  return readProfileFileDecrypted(profileId, filePath);
+}
+
+/**
+ * Write attachment contents, encrypted when the profile has an encryption key
+ */
+function writeStoredFile(filePath: string, data: Buffer, profileId: string): void {
+  const dataKey = getProfileEncryptionKey(profileId);
+  writeFileAtomic(filePath, dataKey ? encryptBuffer(data, dataKey) : data);
+}
+
+/**
+ * Hash a stored file's contents, or return null if it cannot be read or decrypted
+ */
+function hashStoredFile(filePath: string, profileId?: string): string | null {
+  try {
+    return hashAttachmentData(readStoredFile(filePath, profileId));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get MIME type from file extension.
+ */
+function getMimeType(ext: string): string {
+  const mimeTypes: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.bmp': 'image/bmp',
+    '.mp4': 'video/mp4',
+    '.mov': 'video/quicktime',
+    '.webm': 'video/webm',
+    '.mp3': 'audio/mpeg',
+    '.m4a': 'audio/mp4',
+    '.wav': 'audio/wav',
+    '.pdf': 'application/pdf',
+    '.txt': 'text/plain',
+    '.md': 'text/markdown',
+    '.doc': 'application/msword',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  };
+  return mimeTypes[ext.toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Store a file as an attachment of a profile.
+ * Files are named by the hash of their contents, so attaching the same contents again
+ * reuses the stored copy. Encrypted profiles keep attachments encrypted at rest too.
+ *
+ * @param fileName - Original file name (kept in the metadata, only its extension is used on disk)
+ * @param source - Path of the file to copy, or its contents
+ * @param profileId - Profile to store the file for (defaults to the current profile)
+ * @returns Attachment metadata, or null if the destination path is invalid
+ */
+export function storeAttachmentFile(fileName: string, source: string | Buffer, profileId: string = getCurrentProfileId()): EntryAttachment | null {
+  const profileDir = getProfileAttachmentsDir(profileId);
+  const data = typeof source === 'string' ? fs.readFileSync(source) : source;
+  const hash = hashAttachmentData(data);
+  const destPath = profileDir && safePathJoin(profileDir, getStoredAttachmentName(hash, fileName));
+  if (!profileDir || !destPath || !validatePath(destPath, getAttachmentsDir())) {
+    return null;
+  }
+
+  const attachment: EntryAttachment = {
+    id: `${Date.now()}-${Math.random().toString(36).substring(7)}`,
+    fileName,
+    filePath: destPath,
+    fileSize: data.length,
+    mimeType: getMimeType(path.extname(fileName)),
+    createdAt: new Date().toISOString(),
+    hash,
+  };
+
+  // Rewrite a stored copy that no longer matches its name, along with thumbnails made from it
+  if (!fs.existsSync(destPath) || hashStoredFile(destPath, profileId) !== hash) {
+    fs.mkdirSync(profileDir, { recursive: true });
+    removeAttachmentThumbnails(attachment);
+    writeStoredFile(destPath, data, profileId);
+  }
+  return attachment;
+}
+
+/**
+ * Delete the files of removed attachment records that no entry uses any more.
+ * Call this after the records are gone from the database.
+ *
+ * @returns How many files were deleted and the bytes they took up
+ */
+export function releaseAttachmentFiles(attachments: EntryAttachment[]): { deletedFiles: number; freedBytes: number } {
+  const attachmentsDir = getAttachmentsDir();
+  const released = new Set<string>();
+  let deletedFiles = 0;
+  let freedBytes = 0;
+
+  for (const attachment of attachments) {
+    const filePath = attachment.filePath;
+    if (typeof filePath !== 'string' || released.has(filePath) || !validatePath(filePath, attachmentsDir)) {
+      continue;
+    }
+    if (countAttachmentReferences(filePath) > 0) {
+      continue;
+    }
+    released.add(filePath);
+    try {
+      if (fs.existsSync(filePath)) {
+        const size = fs.statSync(filePath).size;
+        fs.unlinkSync(filePath);
+        deletedFiles++;
+        freedBytes += size;
+      }
+      removeAttachmentThumbnails(attachment);
+    } catch (error) {
+      console.warn('[Attachments] Could not delete attachment file:', error);
+    }
+  }
+  return { deletedFiles, freedBytes };
+}
+
+/**
+ * Check the current profile's attachments, optionally repairing what is found:
+ * - Missing files: records are pointed at an intact copy of the same contents,
+ *   or removed from their entries when there is none.
+ * - Corrupted files (unreadable, or not matching their hash): records are pointed at an
+ *   intact copy when there is one; otherwise the file is kept so it can be recovered by hand.
+ * - Per-entry copies from before deduplication are moved to shared, content-addressed files.
+ * - Orphaned files in the profile's folder are deleted. Old per-entry copies that no entry
+ *   uses are left alone, since the shared attachments folder does not say which profile owns them.
+ *
+ * @param repair - Whether to repair, or only report
+ * @returns What was found before any repair, plus a summary of the repairs made
+ */
+export function checkAttachments(repair: boolean): AttachmentMaintenanceReport {
+  const attachmentsDir = getAttachmentsDir();
+  const profileDir = getProfileAttachmentsDir();
+  const files = new Map<string, StoredFileState>();
+
+  const inspect = (filePath: string): StoredFileState => {
+    if (!validatePath(filePath, attachmentsDir)) {
+      return MISSING_FILE;
+    }
+    let state = files.get(filePath);
+    if (!state) {
+      state = fs.existsSync(filePath)
+        ? { exists: true, hash: hashStoredFile(filePath), size: fs.statSync(filePath).size }
+        : MISSING_FILE;
+      files.set(filePath, state);
+    }
+    return state;
+  };
+  const isShared = (filePath: string) => profileDir !== null && path.dirname(filePath) === profileDir;
+  const isDamaged = (attachment: EntryAttachment, state: StoredFileState) =>
+    state.hash === null || (attachment.hash !== undefined && attachment.hash !== state.hash);
+  const toIssue = ({ entryId, attachment }: AttachmentReference): AttachmentIssue => ({
+    entryId,
+    attachmentId: attachment.id,
+    fileName: attachment.fileName,
+  });
+  const listSharedFiles = (): string[] => {
+    if (!profileDir || !fs.existsSync(profileDir)) {
+      return [];
+    }
+    return fs.readdirSync(profileDir).filter(name => fs.statSync(path.join(profileDir, name)).isFile());
+  };
+  const findOrphans = (references: AttachmentReference[]): string[] => {
+    const usedNames = new Set(references
+      .map(reference => reference.attachment.filePath)
+      .filter(isShared)
+      .map(filePath => path.basename(filePath)));
+    return findOrphanedFiles(listSharedFiles(), usedNames);
+  };
+
+  const references = getAttachmentReferences();
+  const report: AttachmentMaintenanceReport = {
+    checkedAttachments: references.length,
+    storedFiles: 0,
+    missing: [],
+    corrupted: [],
+    orphanedFiles: [],
+    unmigrated: 0,
+    reclaimableBytes: 0,
+  };
+
+  for (const reference of references) {
+    const state = inspect(reference.attachment.filePath);
+    if (!state.exists) {
+      report.missing.push(toIssue(reference));
+    } else if (isDamaged(reference.attachment, state)) {
+      report.corrupted.push(toIssue(reference));
+    } else if (!isShared(reference.attachment.filePath)) {
+      report.unmigrated++;
+    }
+  }
+
+  // Every intact copy of some contents beyond the first could be freed
+  const seenHashes = new Set<string>();
+  for (const state of files.values()) {
+    if (state.exists) {
+      report.storedFiles++;
+    }
+    if (state.hash) {
+      if (seenHashes.has(state.hash)) {
+        report.reclaimableBytes += state.size;
+      }
+      seenHashes.add(state.hash);
+    }
+  }
+  report.orphanedFiles = findOrphans(references);
+  for (const name of report.orphanedFiles) {
+    report.reclaimableBytes += fs.statSync(path.join(profileDir as string, name)).size;
+  }
+
+  if (!repair) {
+    return report;
+  }
+
+  const summary: AttachmentRepairSummary = { relinked: 0, removedRecords: 0, migrated: 0, deletedFiles: 0, freedBytes: 0 };
+  const replaced: EntryAttachment[] = [];
+  const sharedPathFor = (hash: string, fileName: string) => {
+    const filePath = profileDir && safePathJoin(profileDir, getStoredAttachmentName(hash, fileName));
+    return filePath && validatePath(filePath, attachmentsDir) ? filePath : null;
+  };
+  const findIntactCopy = (hash: string, fileName: string) => {
+    const filePath = sharedPathFor(hash, fileName);
+    return filePath && inspect(filePath).hash === hash ? filePath : null;
+  };
+
+  const byEntry = new Map<number, EntryAttachment[]>();
+  for (const { entryId, attachment } of references) {
+    byEntry.set(entryId, [...(byEntry.get(entryId) || []), attachment]);
+  }
+
+  for (const [entryId, attachments] of byEntry) {
+    const updated: EntryAttachment[] = [];
+    let changed = false;
+
+    for (const attachment of attachments) {
+      const state = inspect(attachment.filePath);
+
+      if (!state.exists || isDamaged(attachment, state)) {
+        const copy = attachment.hash ? findIntactCopy(attachment.hash, attachment.fileName) : null;
+        if (copy && copy !== attachment.filePath) {
+          updated.push({ ...attachment, filePath: copy });
+          replaced.push(attachment);
+          summary.relinked++;
+          changed = true;
+        } else if (!state.exists) {
+          summary.removedRecords++;
+          changed = true;
+        } else {
+          updated.push(attachment);
+        }
+        continue;
+      }
+
+      const hash = state.hash as string;
+      if (isShared(attachment.filePath) && attachment.hash === hash) {
+        updated.push(attachment);
+        continue;
+      }
+
+      // Move per-entry copies to shared storage and record the hash of older shared files
+      let target = findIntactCopy(hash, attachment.fileName);
+      if (!target) {
+        target = sharedPathFor(hash, attachment.fileName);
+        if (!profileDir || !target) {
+          updated.push(attachment);
+          continue;
+        }
+        fs.mkdirSync(profileDir, { recursive: true });
+        removeAttachmentThumbnails({ ...attachment, filePath: target });
+        writeStoredFile(target, readStoredFile(attachment.filePath), getCurrentProfileId());
+        files.set(target, { exists: true, hash, size: fs.statSync(target).size });
+      }
+      updated.push({ ...attachment, filePath: target, hash });
+      if (target !== attachment.filePath) {
+        replaced.push(attachment);
+        summary.migrated++;
+      }
+      changed = true;
+    }
+
+    if (changed) {
+      setEntryAttachments(entryId, updated);
+    }
+  }
+
+  const released = releaseAttachmentFiles(replaced);
+  summary.deletedFiles += released.deletedFiles;
+  summary.freedBytes += released.freedBytes;
+
+  for (const name of findOrphans(getAttachmentReferences())) {
+    const filePath = path.join(profileDir as string, name);
+    try {
+      const size = fs.statSync(filePath).size;
+      fs.unlinkSync(filePath);
+      summary.deletedFiles++;
+      summary.freedBytes += size;
+    } catch (error) {
+      console.warn('[Attachments] Could not delete orphaned file:', error);
+    }
+  }
+
+  flushDatabase();
+  report.repair = summary;
+  return report;
+}
@@ -0,0 +1,131 @@
+import { nativeImage } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EntryAttachment, ThumbnailSize } from './types';
+import { getCurrentProfile } from './database';
+import { getProfileEncryptionKey, readProfileFileDecrypted } from './profile-manager';
+import { encryptBuffer, writeFileAtomic } from './utils/encryptionUtils';
+
+// Longest side in pixels: 'small' for gallery tiles, 'large' for images shown inside entry text
+const THUMBNAIL_PIXELS: Record<ThumbnailSize, number> = {
+  small: 320,
+  large: 1280,
+};
+
+const JPEG_QUALITY = 82;
+const MAX_SVG_BYTES = 1024 * 1024;
+
+// Formats Chromium's image decoder (and so nativeImage) can read
+const RASTER_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/bmp'];
+
+/**
+ * Whether an attachment can be shown as an image
+ */
+export function isImageAttachment(attachment: EntryAttachment): boolean {
+  return RASTER_IMAGE_TYPES.includes(attachment.mimeType) || attachment.mimeType === 'image/svg+xml';
+}
+
+/**
+ * Path of a cached thumbnail, next to the attachment file.
+ * JPEG photos stay JPEG; other formats use PNG to keep transparency.
+ */
+function getThumbnailPath(attachment: EntryAttachment, size: ThumbnailSize): string {
+  const ext = attachment.mimeType === 'image/jpeg' ? '.jpg' : '.png';
+  const base = attachment.filePath.slice(0, attachment.filePath.length - path.extname(attachment.filePath).length);
+  return `${base}.thumb-${THUMBNAIL_PIXELS[size]}${ext}`;
+}
+
+function readAttachmentFile(filePath: string): Buffer {
+  const currentProfile = getCurrentProfile();
+  return currentProfile ? readProfileFileDecrypted(currentProfile.id, filePath) : fs.readFileSync(filePath);
+}
+
+function toDataUrl(data: Buffer, mimeType: string): string {
+  return `data:${mimeType};base64,${data.toString('base64')}`;
+}
+
+/**
+ * Scale an image down so its longest side fits the thumbnail size.
+ * Returns null if the data is not an image nativeImage can decode.
+ */
+function createThumbnail(data: Buffer, size: ThumbnailSize, asJpeg: boolean): Buffer | null {
+  let image = nativeImage.createFromBuffer(data);
+  if (image.isEmpty()) {
+    return null;
+  }
+  const { width, height } = image.getSize();
+  const maxPixels = THUMBNAIL_PIXELS[size];
+  if (width > maxPixels || height > maxPixels) {
+    image = width >= height
+      ? image.resize({ width: maxPixels, quality: 'good' })
+      : image.resize({ height: maxPixels, quality: 'good' });
+  }
+  return asJpeg ? image.toJPEG(JPEG_QUALITY) : image.toPNG();
+}
+
+/**
+ * Get a thumbnail of an image attachment as a data URL, generating and caching it on first use.
+ * Thumbnails of encrypted profiles are encrypted like the attachment itself.
+ *
+ * @param attachment - Attachment whose path has already been validated
+ * @param size - Thumbnail size
+ * @returns The data URL, or null if the attachment is not an image that can be decoded
+ */
+export function getAttachmentThumbnail(attachment: EntryAttachment, size: ThumbnailSize): string | null {
+  // SVG is shown as it is; an <img> never runs its scripts
+  if (attachment.mimeType === 'image/svg+xml') {
+    const data = readAttachmentFile(attachment.filePath);
+    return data.length <= MAX_SVG_BYTES ? toDataUrl(data, attachment.mimeType) : null;
+  }
+  if (!RASTER_IMAGE_TYPES.includes(attachment.mimeType)) {
+    return null;
+  }
+
+  const thumbnailPath = getThumbnailPath(attachment, size);
+  const thumbnailType = path.extname(thumbnailPath) === '.jpg' ? 'image/jpeg' : 'image/png';
+  if (fs.existsSync(thumbnailPath)) {
+    try {
+      return toDataUrl(readAttachmentFile(thumbnailPath), thumbnailType);
+    } catch (error) {
+      console.warn('[Thumbnails] Could not read cached thumbnail, regenerating:', error);
+    }
+  }
+
+  const thumbnail = createThumbnail(readAttachmentFile(attachment.filePath), size, thumbnailType === 'image/jpeg');
+  if (!thumbnail) {
+    return null;
+  }
+
+  try {
+    // Encrypted before it is written, so no plaintext copy ever reaches the disk
+    const currentProfile = getCurrentProfile();
+    const dataKey = currentProfile ? getProfileEncryptionKey(currentProfile.id) : null;
+    writeFileAtomic(thumbnailPath, dataKey ? encryptBuffer(thumbnail, dataKey) : thumbnail);
+  } catch (error) {
+    // The thumbnail still works, it just is not cached
+    console.warn('[Thumbnails] Could not cache thumbnail:', error);
+  }
+  return toDataUrl(thumbnail, thumbnailType);
+}
+
+/**
+ * Paths of the cached thumbnails of an attachment that exist on disk
+ */
+export function getAttachmentThumbnailPaths(attachment: EntryAttachment): string[] {
+  return (Object.keys(THUMBNAIL_PIXELS) as ThumbnailSize[])
+    .map(size => getThumbnailPath(attachment, size))
+    .filter(thumbnailPath => fs.existsSync(thumbnailPath));
+}
+
+/**
+ * Delete the cached thumbnails of an attachment
+ */
+export function removeAttachmentThumbnails(attachment: EntryAttachment): void {
+  for (const thumbnailPath of getAttachmentThumbnailPaths(attachment)) {
+    try {
+      fs.unlinkSync(thumbnailPath);
+    } catch (error) {
+      console.warn('[Thumbnails] Could not remove thumbnail:', error);
+    }
+  }
+}
@@ -1,16 +1,9 @@
 import { app, BrowserWindow, dialog } from 'electron';
 import { autoUpdater, ProgressInfo, UpdateDownloadedEvent, UpdateInfo } from 'electron-updater';
+import { sendToAllWindows } from './windows';
 
 const UPDATE_INTERVAL_MS = 1000 * 60 * 60 * 6; // 6 hours
 
-function sendToAllWindows(channel: string, ...args: any[]) {
-  BrowserWindow.getAllWindows().forEach(win => {
-    if (!win.isDestroyed() && win.webContents) {
-      win.webContents.send(channel, ...args);
-    }
-  });
-}
-
 function normalizeUrl(url: string): string {
   return url.endsWith('/') ? url : `${url}/`;
 }
@@ -0,0 +1,206 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import archiver from 'archiver';
+import { backupDatabaseTo, getAttachmentReferences, getAllPreferences, getCurrentProfile, setPreference } from './database';
+import { BackupStatus } from './types';
+import { validatePath } from './utils/pathValidation';
+import { sendToAllWindows } from './windows';
+import { AUTO_BACKUP_ATTACHMENTS_SUFFIX, getAutoBackupBaseName, getBackupsToPrune, isBackupDue } from './utils/backupRotation';
+
+const CHECK_INTERVAL_MS = 1000 * 60 * 15; // 15 minutes
+const STARTUP_DELAY_MS = 1000 * 60; // Let the app finish loading before the first backup
+
+let checkTimer: NodeJS.Timeout | null = null;
+let startupTimer: NodeJS.Timeout | null = null;
+let runningBackup: Promise<BackupStatus> | null = null;
+
+/**
+ * Folder automatic backups of a profile are written to
+ */
+export function getAutoBackupDirectory(profileId: string): string {
+  const configured = getAllPreferences().autoBackupDirectory;
+  if (configured && configured.trim()) {
+    return configured;
+  }
+  return path.join(app.getPath('userData'), 'backups', profileId);
+}
+
+/**
+ * Store the outcome of a backup with the profile it belongs to and tell open windows.
+ * Skipped if another profile was opened while the backup ran.
+ */
+export function recordBackupStatus(profileId: string, status: BackupStatus): void {
+  if (getCurrentProfile()?.id !== profileId) {
+    return;
+  }
+  try {
+    setPreference('backupStatus', status);
+  } catch (error) {
+    console.error('[Backup] Failed to store backup status:', error);
+  }
+  sendToAllWindows('backup-status-changed', status);
+}
+
+/**
+ * Archive the attachment files of the open profile as they are stored on disk
+ * (still encrypted for encrypted profiles, so they restore with the database).
+ */
+async function backupAttachmentsTo(destinationPath: string): Promise<number> {
+  const attachmentsDir = path.join(app.getPath('userData'), 'attachments');
+  const files = new Set<string>();
+  // Entries in the trash are in the database backup, so their files are kept too
+  for (const { attachment } of getAttachmentReferences()) {
+    if (validatePath(attachment.filePath, attachmentsDir) && fs.existsSync(attachment.filePath)) {
+      files.add(attachment.filePath);
+    }
+  }
+
+  const partialPath = `${destinationPath}.partial`;
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const output = fs.createWriteStream(partialPath);
+      const archive = archiver('zip', {
+        zlib: { level: 9 } // Maximum compression
+      });
+
+      output.on('close', () => resolve());
+      output.on('error', reject);
+      archive.on('error', reject);
+      archive.pipe(output);
+
+      for (const filePath of files) {
+        archive.file(filePath, { name: `attachments/${path.basename(filePath)}` });
+      }
+
+      archive.finalize();
+    });
+    fs.renameSync(partialPath, destinationPath);
+  } finally {
+    if (fs.existsSync(partialPath)) {
+      fs.unlinkSync(partialPath);
+    }
+  }
+  return files.size;
+}
+
+/**
+ * Delete the oldest automatic backups of a profile beyond the number to keep
+ */
+function pruneBackups(directory: string, profileId: string, keepCount: number): void {
+  for (const baseName of getBackupsToPrune(fs.readdirSync(directory), profileId, keepCount)) {
+    for (const fileName of [`${baseName}.db`, `${baseName}${AUTO_BACKUP_ATTACHMENTS_SUFFIX}`]) {
+      const filePath = path.join(directory, fileName);
+      try {
+        if (fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath);
+          console.log(`[Backup] Removed old backup: ${filePath}`);
+        }
+      } catch (error) {
+        console.warn(`[Backup] Could not remove old backup ${filePath}:`, error);
+      }
+    }
+  }
+}
+
+async function performBackup(automatic: boolean): Promise<BackupStatus> {
+  const profile = getCurrentProfile();
+  if (!profile) {
+    throw new Error('No profile is open');
+  }
+
+  const preferences = getAllPreferences();
+  const attemptedAt = new Date();
+  const status: BackupStatus = { ...preferences.backupStatus, lastAttemptAt: attemptedAt.toISOString(), automatic };
+
+  try {
+    const directory = getAutoBackupDirectory(profile.id);
+    fs.mkdirSync(directory, { recursive: true });
+
+    const baseName = getAutoBackupBaseName(profile.id, attemptedAt);
+    const databasePath = path.join(directory, `${baseName}.db`);
+    await backupDatabaseTo(databasePath);
+    if (preferences.autoBackupIncludeAttachments) {
+      const count = await backupAttachmentsTo(path.join(directory, `${baseName}${AUTO_BACKUP_ATTACHMENTS_SUFFIX}`));
+      console.log(`[Backup] Archived ${count} attachment(s)`);
+    }
+    console.log(`[Backup] ✅ Backup written to ${databasePath}`);
+
+    pruneBackups(directory, profile.id, preferences.autoBackupKeepCount ?? 7);
+
+    status.lastSuccessAt = attemptedAt.toISOString();
+    status.lastBackupPath = databasePath;
+    delete status.lastError;
+  } catch (error) {
+    console.error('[Backup] ❌ Backup failed:', error);
+    status.lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  recordBackupStatus(profile.id, status);
+  return status;
+}
+
+/**
+ * Back up the open profile to its backup folder now, applying rotation.
+ * Concurrent calls share the backup already in progress.
+ */
+export function runBackupNow(automatic: boolean = false): Promise<BackupStatus> {
+  if (!runningBackup) {
+    runningBackup = performBackup(automatic).finally(() => {
+      runningBackup = null;
+    });
+  }
+  return runningBackup;
+}
+
+/**
+ * Take an automatic backup if the open profile has them enabled and one is due
+ */
+export async function checkBackupSchedule(): Promise<void> {
+  if (!getCurrentProfile() || runningBackup) {
+    return;
+  }
+
+  let preferences;
+  try {
+    preferences = getAllPreferences();
+  } catch {
+    return; // Database closed (e.g. mid profile switch)
+  }
+  if (!preferences.autoBackupEnabled || !isBackupDue(preferences.backupStatus, preferences.autoBackupIntervalHours ?? 24)) {
+    return;
+  }
+
+  console.log('[Backup] Automatic backup due');
+  await runBackupNow(true);
+}
+
+function runScheduledCheck(): void {
+  checkBackupSchedule().catch(error => {
+    console.error('[Backup] Scheduled backup check failed:', error);
+  });
+}
+
+/**
+ * Start checking for due backups. The open profile's preferences are read on every
+ * check, so profile switches and preference changes need no rescheduling.
+ */
+export function startBackupScheduler(): void {
+  stopBackupScheduler();
+  startupTimer = setTimeout(runScheduledCheck, STARTUP_DELAY_MS);
+  checkTimer = setInterval(runScheduledCheck, CHECK_INTERVAL_MS);
+  // Don't keep the process alive just for backups
+  startupTimer.unref();
+  checkTimer.unref();
+}
+
+export function stopBackupScheduler(): void {
+  if (startupTimer) {
+    clearTimeout(startupTimer);
+    startupTimer = null;
+  }
+  if (checkTimer) {
+    clearInterval(checkTimer);
+    checkTimer = null;
+  }
+}
@@ -21,10 +21,23 @@ export interface JournalEntryRow {
   archived: number; // 0 or 1 (SQLite boolean)
   pinned: number; // 0 or 1 (SQLite boolean)
   attachments: string | null; // JSON string
+  calendar: string | null; // Calendar system of a calendar-native period (NULL = Gregorian)
+  period_end: string | null; // Last day of a calendar-native period (YYYY-MM-DD)
+  period_end_jdn: number | null; // period_end as a Julian Day Number
+  deleted_at: string | null; // When the entry was moved to the trash (NULL = not in the trash)
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Raw database row for a full-text search hit (journal_entries joined with journal_entries_fts)
+ */
+export interface EntrySearchRow extends JournalEntryRow {
+  rank: number; // bm25 score (lower is better)
+  title_snippet: string | null;
+  content_snippet: string | null;
+}
+
 /**
  * Raw database row for entry_versions table
  */
@@ -41,6 +54,28 @@ export interface EntryVersionRow {
   version_created_at: string;
 }
 
+/**
+ * Raw database row for entry_links table
+ */
+export interface EntryLinkRow {
+  id: number;
+  source_id: number;
+  target_id: number;
+  relation: string;
+  created_at: string;
+}
+
+/**
+ * An entry_links row joined with the journal_entries row at the other end of the link
+ */
+export interface LinkedEntryRow extends JournalEntryRow {
+  link_id: number;
+  link_source_id: number;
+  link_target_id: number;
+  link_relation: string;
+  link_created_at: string;
+}
+
 /**
  * Raw database row for preferences table
  */
@@ -63,6 +98,20 @@ export interface EntryTemplateRow {
   updated_at: string;
 }
 
+/**
+ * Raw database row for saved_searches table
+ */
+export interface SavedSearchRow {
+  id: number;
+  name: string;
+  query: string;
+  filters: string | null; // JSON string
+  sort_by: string | null;
+  sort_order: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 /**
  * SQLite PRAGMA table_info result
  */
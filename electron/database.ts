@@ -2,8 +2,13 @@ import Database from 'better-sqlite3';
 import * as path from 'path';
 import * as fs from 'fs';
 import { app } from 'electron';
-import { JournalEntry, TimeRange, ExportFormat, ExportMetadata } from './types';
+import { JournalEntry, EntryAttachment, BulkEntryOperation, TimeRange, CalendarPeriod, ExportFormat, ExportMetadata, BackupStatus, EntryLink, EntryLinks, EntryLinkTarget, EntryRelation, ENTRY_RELATIONS, EntrySearchResult, SearchQueryResponse, SearchFilters, SavedSearch, SearchSortField, SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END } from './types';
+import { buildFtsQuery, buildPlainFtsQuery, buildAnyPhraseFtsQuery } from './utils/ftsQuery';
+import { parseSearchQuery, applySearchFilters, isEmptySearchQuery, ParsedSearchQuery } from './utils/searchQuery';
 import { parseJSONArray } from './utils/jsonCache';
+import { isoDateStringToJDN, jdnToISODateString, gregorianToJDN, jdnToGregorian } from './utils/isoDate';
+import { parseContentReferences, mergeContentTags } from './utils/contentReferences';
+import { addTags, removeTags } from './utils/bulkEdit';
 import {
   getAllProfiles,
   getProfile,
@@ -15,13 +20,22 @@ import {
   hasOriginalDatabase,
   getOriginalDatabasePath,
   recoverFromOrphanedWAL,
+  isProfileEncrypted,
+  isProfileLocked,
+  getProfileEncryptionKey,
+  clearDecryptedAttachments,
   type Profile,
 } from './profile-manager';
+import { encryptBuffer, decryptBuffer, isEncryptedBuffer, writeFileAtomic } from './utils/encryptionUtils';
 import {
   JournalEntryRow,
+  EntrySearchRow,
   EntryVersionRow,
+  EntryLinkRow,
+  LinkedEntryRow,
   PreferenceRow,
   EntryTemplateRow,
+  SavedSearchRow,
   TableInfoRow,
   SynchronousPragma,
   JournalModePragma,
@@ -30,73 +44,14 @@ import {
 } from './database-types';
 
 /**
- * Safely formats a date to ISO date string (YYYY-MM-DD) that works with negative years.
- * This replaces toISOString() which doesn't work for dates before year 0.
- * Supports proleptic Gregorian calendar dates from -9999 to 9999.
- */
-function formatDate(date: Date): string {
-  const year = date.getFullYear();
-  const month = date.getMonth() + 1; // getMonth() returns 0-11
-  const day = date.getDate();
-  
-  // Format year with sign for negative years (ISO 8601 format: -YYYY-MM-DD)
-  const yearStr = year < 0 
-    ? `-${String(Math.abs(year)).padStart(4, '0')}` 
-    : String(year).padStart(4, '0');
-  
-  const monthStr = String(month).padStart(2, '0');
-  const dayStr = String(day).padStart(2, '0');
-  
-  return `${yearStr}-${monthStr}-${dayStr}`;
-}
-
-/**
- * Parses an ISO date string (YYYY-MM-DD or -YYYY-MM-DD) to a Date object.
- * Handles negative years correctly by parsing as local date.
- */
-export function parseISODate(dateStr: string): Date {
-  // Handle negative years: -YYYY-MM-DD format
-  const isNegative = dateStr.startsWith('-');
-  const cleanDateStr = isNegative ? dateStr.substring(1) : dateStr;
-  const [yearStr, monthStr, dayStr] = cleanDateStr.split('-');
-  
-  const year = isNegative ? -parseInt(yearStr, 10) : parseInt(yearStr, 10);
-  const month = parseInt(monthStr, 10) - 1; // Convert to 0-indexed month
-  const day = parseInt(dayStr, 10);
-  
-  return new Date(year, month, day);
-}
-
-/**
- * Convert a Gregorian date to Julian Day Number
- * Simple implementation for database use
- */
-function gregorianToJDN(year: number, month: number, day: number): number {
-  // Handle negative years (BC dates)
-  if (year < 0) {
-    year = year + 1;
-  }
-  
-  const a = Math.floor((14 - month) / 12);
-  const y = year + 4800 - a;
-  const m = month + 12 * a - 3;
-  
-  // Gregorian calendar formula
-  return day + Math.floor((153 * m + 2) / 5) + 365 * y + 
-         Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
-}
-
-/**
- * Calculate JDN from an ISO date string
+ * Calculate JDN from an ISO date string (any year, without going through Date)
  */
 function calculateJDNFromDateString(dateStr: string): number | null {
-  try {
-    const date = parseISODate(dateStr);
-    return gregorianToJDN(date.getFullYear(), date.getMonth() + 1, date.getDate());
-  } catch (e) {
-    console.error('Error calculating JDN from date string:', e);
-    return null;
+  const jdn = isoDateStringToJDN(dateStr);
+  if (jdn === null) {
+    console.error('Error calculating JDN from date string:', dateStr);
   }
+  return jdn;
 }
 
 /**
@@ -117,6 +72,67 @@ function extractTimeFields(row: JournalEntryRow): TimeFields {
 let db: Database.Database | null = null;
 let currentProfile: Profile | null = null;
 
+// Encrypted profiles are opened in memory and written back to disk encrypted
+let encryptionKey: Buffer | null = null;
+let encryptedPersistTimer: NodeJS.Timeout | null = null;
+let lastPersistedChanges = 0;
+const ENCRYPTED_PERSIST_INTERVAL = 5000; // 5 seconds
+// PRAGMA user_version once the stored JDNs have been recomputed from the ISO dates
+// (version 2 also fills in period_end_jdn)
+const JDN_RECOMPUTED_VERSION = 2;
+
+/**
+ * Open a decrypted database image in memory.
+ * Images taken from a WAL-mode file are marked as rollback-journal so SQLite can deserialize them.
+ */
+function openDatabaseImage(image: Buffer): Database.Database {
+  if (image.length >= 20 && image[18] === 2 && image[19] === 2) {
+    image[18] = 1;
+    image[19] = 1;
+  }
+  return new Database(image);
+}
+
+function getTotalChanges(database: Database.Database): number {
+  return (database.prepare('SELECT total_changes() as changes').get() as { changes: number }).changes;
+}
+
+/**
+ * Write the in-memory database of an encrypted profile back to disk (encrypted, atomically).
+ * No-op for unencrypted profiles, which SQLite persists itself.
+ */
+function persistEncryptedDatabase(): void {
+  if (!db || !encryptionKey || !currentProfile) {
+    return;
+  }
+
+  const dbPath = path.join(app.getPath('userData'), currentProfile.databasePath);
+  writeFileAtomic(dbPath, encryptBuffer(db.serialize(), encryptionKey));
+  lastPersistedChanges = getTotalChanges(db);
+}
+
+function startEncryptedPersistTimer(): void {
+  stopEncryptedPersistTimer();
+  encryptedPersistTimer = setInterval(() => {
+    try {
+      if (db && encryptionKey && getTotalChanges(db) !== lastPersistedChanges) {
+        persistEncryptedDatabase();
+      }
+    } catch (error) {
+      console.error('[Database] ❌ Error persisting encrypted database:', error);
+    }
+  }, ENCRYPTED_PERSIST_INTERVAL);
+  // Don't keep the process alive just for persistence
+  encryptedPersistTimer.unref();
+}
+
+function stopEncryptedPersistTimer(): void {
+  if (encryptedPersistTimer) {
+    clearInterval(encryptedPersistTimer);
+    encryptedPersistTimer = null;
+  }
+}
+
 function checkColumnExists(database: Database.Database, tableName: string, columnName: string): boolean {
   try {
     const result = database.prepare(`PRAGMA table_info(${tableName})`).all() as TableInfoRow[];
@@ -318,6 +334,109 @@ function migrateDatabase(database: Database.Database) {
       // Don't throw - time fields are optional
     }
   }
+
+  // Check if calendar-native period columns exist and add them if missing
+  const hasCalendar = checkColumnExists(database, 'journal_entries', 'calendar');
+  if (!hasCalendar) {
+    try {
+      // calendar: calendar system of a calendar-native period (NULL = Gregorian)
+      // period_end: last day of that period, so queries don't need calendar conversions
+      database.exec(`
+        ALTER TABLE journal_entries ADD COLUMN calendar TEXT;
+        ALTER TABLE journal_entries ADD COLUMN period_end TEXT;
+      `);
+      
+      console.log('Database migrated successfully: Added calendar and period_end columns');
+    } catch (error) {
+      console.error('Calendar period migration error:', error);
+      // Don't throw - existing entries are Gregorian
+    }
+  }
+
+  // Check if period_end_jdn column exists and add it if missing
+  const hasPeriodEndJDN = checkColumnExists(database, 'journal_entries', 'period_end_jdn');
+  if (!hasPeriodEndJDN) {
+    try {
+      // period_end_jdn: period_end as a JDN, so range queries find periods that began before the range
+      database.exec(`
+        ALTER TABLE journal_entries ADD COLUMN period_end_jdn INTEGER;
+        CREATE INDEX IF NOT EXISTS idx_period_end_jdn ON journal_entries(period_end_jdn);
+      `);
+      
+      console.log('Database migrated successfully: Added period_end_jdn column');
+    } catch (error) {
+      console.error('Period end JDN migration error:', error);
+      // Don't throw - calendar-native periods are still found from their first day
+    }
+  }
+
+  // Entries are ordered and queried by JDN. Fill in missing ones and fix those stored by the
+  // old Date-based conversion (a year off before 1 CE, wrong for years 0-99 and deep time),
+  // and store the end of calendar-native periods as a JDN too.
+  // Every write stores the right JDN since, so this only has to run once per database.
+  if ((database.pragma('user_version', { simple: true }) as number) < JDN_RECOMPUTED_VERSION) {
+    try {
+      const rows = database.prepare('SELECT id, date, jdn, period_end, period_end_jdn FROM journal_entries').all() as Array<Pick<JournalEntryRow, 'id' | 'date' | 'jdn' | 'period_end' | 'period_end_jdn'>>;
+      const updateJDN = database.prepare('UPDATE journal_entries SET jdn = ?, period_end_jdn = ? WHERE id = ?');
+      let recomputed = 0;
+      database.transaction(() => {
+        for (const row of rows) {
+          const jdn = isoDateStringToJDN(row.date) ?? row.jdn;
+          const periodEndJDN = row.period_end ? isoDateStringToJDN(row.period_end) : null;
+          if (jdn !== row.jdn || periodEndJDN !== row.period_end_jdn) {
+            updateJDN.run(jdn, periodEndJDN, row.id);
+            recomputed++;
+          }
+        }
+        database.pragma(`user_version = ${JDN_RECOMPUTED_VERSION}`);
+      })();
+      if (recomputed > 0) {
+        console.log(`Database migrated successfully: Recomputed JDN for ${recomputed} entries`);
+      }
+    } catch (error) {
+      console.error('JDN backfill error:', error);
+    }
+  }
+
+  // Check if deleted_at column exists and add it if missing
+  const hasDeletedAt = checkColumnExists(database, 'journal_entries', 'deleted_at');
+  if (!hasDeletedAt) {
+    try {
+      // deleted_at: when the entry was moved to the trash (NULL = not in the trash)
+      database.exec(`
+        ALTER TABLE journal_entries ADD COLUMN deleted_at TEXT;
+        CREATE INDEX IF NOT EXISTS idx_deleted_at ON journal_entries(deleted_at);
+      `);
+      
+      console.log('Database migrated successfully: Added deleted_at column');
+    } catch (error) {
+      console.error('Trash migration error:', error);
+      // Don't throw - without the column nothing is in the trash
+    }
+  }
+
+  // Check if saved_searches table exists and create it if missing
+  if (!checkTableExists(database, 'saved_searches')) {
+    try {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS saved_searches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          query TEXT NOT NULL,
+          filters TEXT,
+          sort_by TEXT,
+          sort_order TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+      
+      console.log('Database migrated successfully: Added saved_searches table');
+    } catch (error) {
+      console.error('Saved searches migration error:', error);
+      // Don't throw - saved searches are optional
+    }
+  }
 }
 
 /**
@@ -487,7 +606,23 @@ export function initDatabase(profileId?: string) {
       throw new Error('better-sqlite3 module failed to load. Native module may not be properly built for this platform.');
     }
     
-    db = new Database(dbPath);
+    if (isProfileEncrypted(profile.id)) {
+      const dataKey = getProfileEncryptionKey(profile.id);
+      if (!dataKey) {
+        throw new Error(`Profile "${profile.name}" is locked. Unlock it with its password first.`);
+      }
+      
+      // Decrypt into memory - plaintext never touches the disk
+      const fileData = fs.existsSync(dbPath) ? fs.readFileSync(dbPath) : null;
+      db = fileData
+        ? openDatabaseImage(isEncryptedBuffer(fileData) ? decryptBuffer(fileData, dataKey) : fileData)
+        : new Database(':memory:');
+      encryptionKey = dataKey;
+      lastPersistedChanges = 0;
+      console.log('[Database Init] 🔒 Encrypted database decrypted into memory');
+    } else {
+      db = new Database(dbPath);
+    }
     console.log('[Database Init] ✅ Database opened successfully');
     currentProfile = profile;
   } catch (dbError) {
@@ -529,8 +664,8 @@ export function initDatabase(profileId?: string) {
       console.error(`[Database Init] ❌ Database exists but journal_entries table is missing!`);
       console.error(`[Database Init] This database appears to be empty or corrupted.`);
       
-      // Check if original database still exists
-      if (hasOriginalDatabase()) {
+      // Check if original database still exists (never applies to encrypted profiles)
+      if (!encryptionKey && hasOriginalDatabase()) {
         const originalDbPath = getOriginalDatabasePath();
         console.error(`[Database Init] ⚠️ Original database still exists - attempting recovery...`);
         db.close();
@@ -560,7 +695,7 @@ export function initDatabase(profileId?: string) {
     const userDataPath = app.getPath('userData');
     const orphanedWalPath = path.join(userDataPath, 'calenrecall.db-wal');
     
-    if (fs.existsSync(orphanedWalPath)) {
+    if (!encryptionKey && fs.existsSync(orphanedWalPath)) {
       console.warn(`[Database Init] ⚠️ Found orphaned WAL file in root directory!`);
       console.warn(`[Database Init] This likely contains recent entries that weren't migrated.`);
       console.warn(`[Database Init] Attempting to recover data from orphaned WAL...`);
@@ -846,6 +981,21 @@ export function initDatabase(profileId?: string) {
     migrateDatabase(db);
   }
   
+  ensureSearchIndex(db);
+  ensureEntryLinks(db);
+  
+  try {
+    pruneEntryVersions();
+  } catch (error) {
+    console.error('[Database] ⚠️ Could not prune entry versions:', error);
+  }
+  
+  // Encrypted profiles: persist any schema migrations and keep the encrypted file up to date
+  if (encryptionKey) {
+    persistEncryptedDatabase();
+    startEncryptedPersistTimer();
+  }
+  
   return db;
 }
 
@@ -866,6 +1016,10 @@ function createTables(database: Database.Database) {
       archived INTEGER DEFAULT 0,
       pinned INTEGER DEFAULT 0,
       attachments TEXT,
+      calendar TEXT,
+      period_end TEXT,
+      period_end_jdn INTEGER,
+      deleted_at TEXT,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
     );
@@ -879,6 +1033,10 @@ function createTables(database: Database.Database) {
     CREATE INDEX IF NOT EXISTS idx_date_time_range_created ON journal_entries(date, time_range, created_at);
     -- Index for archived filtering
     CREATE INDEX IF NOT EXISTS idx_archived ON journal_entries(archived);
+    -- Index for trash filtering
+    CREATE INDEX IF NOT EXISTS idx_deleted_at ON journal_entries(deleted_at);
+    -- Index for calendar-native periods overlapping a range
+    CREATE INDEX IF NOT EXISTS idx_period_end_jdn ON journal_entries(period_end_jdn);
     
     CREATE TABLE IF NOT EXISTS preferences (
       key TEXT PRIMARY KEY,
@@ -896,6 +1054,17 @@ function createTables(database: Database.Database) {
       updated_at TEXT NOT NULL
     );
     
+    CREATE TABLE IF NOT EXISTS saved_searches (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      query TEXT NOT NULL,
+      filters TEXT,
+      sort_by TEXT,
+      sort_order TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    
     CREATE TABLE IF NOT EXISTS entry_versions (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       entry_id INTEGER NOT NULL,
@@ -932,6 +1101,234 @@ function createTables(database: Database.Database) {
   }
 }
 
+/**
+ * Ensure the FTS5 full-text index over journal entries exists and is kept in sync.
+ * The index is an external-content table over journal_entries; triggers keep it up to date
+ * for every write path (saveEntry, deleteEntry, imports, migrations).
+ * Rebuilt from scratch whenever the index or its triggers had to be (re)created.
+ */
+function ensureSearchIndex(database: Database.Database): void {
+  try {
+    const indexExists = checkTableExists(database, 'journal_entries_fts');
+    const triggers = database.prepare(`
+      SELECT name FROM sqlite_master WHERE type='trigger' AND tbl_name='journal_entries' AND name LIKE 'journal_entries_fts_%'
+    `).all() as Array<{ name: string }>;
+    
+    if (indexExists && triggers.length === 3) {
+      return;
+    }
+    
+    database.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS journal_entries_fts USING fts5(
+        title,
+        content,
+        tags,
+        content='journal_entries',
+        content_rowid='id',
+        tokenize='unicode61 remove_diacritics 2'
+      );
+      
+      CREATE TRIGGER IF NOT EXISTS journal_entries_fts_insert AFTER INSERT ON journal_entries BEGIN
+        INSERT INTO journal_entries_fts(rowid, title, content, tags)
+        VALUES (new.id, new.title, new.content, new.tags);
+      END;
+      
+      CREATE TRIGGER IF NOT EXISTS journal_entries_fts_delete AFTER DELETE ON journal_entries BEGIN
+        INSERT INTO journal_entries_fts(journal_entries_fts, rowid, title, content, tags)
+        VALUES ('delete', old.id, old.title, old.content, old.tags);
+      END;
+      
+      CREATE TRIGGER IF NOT EXISTS journal_entries_fts_update AFTER UPDATE OF title, content, tags ON journal_entries BEGIN
+        INSERT INTO journal_entries_fts(journal_entries_fts, rowid, title, content, tags)
+        VALUES ('delete', old.id, old.title, old.content, old.tags);
+        INSERT INTO journal_entries_fts(rowid, title, content, tags)
+        VALUES (new.id, new.title, new.content, new.tags);
+      END;
+    `);
+    
+    database.exec(`INSERT INTO journal_entries_fts(journal_entries_fts) VALUES ('rebuild')`);
+    console.log('[Database] ✅ Full-text search index built');
+  } catch (error) {
+    // FTS5 is compiled into better-sqlite3, but never block startup on the search index
+    console.error('[Database] ❌ Could not create full-text search index:', error);
+  }
+}
+
+// JSON array of the distinct entries a source entry links to, in the order the links were made
+function linkedEntriesSql(sourceId: string): string {
+  return `(SELECT json_group_array(target_id) FROM (
+    SELECT target_id FROM entry_links WHERE source_id = ${sourceId} GROUP BY target_id ORDER BY MIN(id)
+  ))`;
+}
+
+/**
+ * Ensure the entry_links table exists. It is the source of truth for links between entries;
+ * journal_entries.linked_entries is kept as a mirror of each entry's link targets.
+ * Triggers remove the links of a deleted entry (both directions) on every delete path and
+ * refresh the mirror of entries whose links were removed.
+ * Links stored only in linked_entries are migrated as 'related' links when the table is created.
+ */
+function ensureEntryLinks(database: Database.Database): void {
+  try {
+    const tableExists = checkTableExists(database, 'entry_links');
+    const triggers = database.prepare(`
+      SELECT name FROM sqlite_master WHERE type='trigger' AND name LIKE 'entry_links_%'
+    `).all() as Array<{ name: string }>;
+    
+    if (tableExists && triggers.length === 2) {
+      return;
+    }
+    
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS entry_links (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source_id INTEGER NOT NULL,
+        target_id INTEGER NOT NULL,
+        relation TEXT NOT NULL DEFAULT 'related',
+        created_at TEXT NOT NULL,
+        UNIQUE (source_id, target_id, relation)
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_entry_links_target_id ON entry_links(target_id);
+      
+      CREATE TRIGGER IF NOT EXISTS entry_links_entry_delete AFTER DELETE ON journal_entries BEGIN
+        DELETE FROM entry_links WHERE source_id = old.id OR target_id = old.id;
+      END;
+      
+      CREATE TRIGGER IF NOT EXISTS entry_links_mirror_delete AFTER DELETE ON entry_links BEGIN
+        UPDATE journal_entries SET linked_entries = ${linkedEntriesSql('old.source_id')} WHERE id = old.source_id;
+      END;
+    `);
+    
+    if (!tableExists) {
+      const migrated = database.prepare(`
+        INSERT OR IGNORE INTO entry_links (source_id, target_id, relation, created_at)
+        SELECT e.id, link.value, 'related', e.updated_at
+        FROM journal_entries e,
+          json_each(CASE WHEN json_valid(e.linked_entries) THEN e.linked_entries ELSE '[]' END) link
+        WHERE link.type = 'integer'
+          AND link.value != e.id
+          AND link.value IN (SELECT id FROM journal_entries)
+      `).run();
+      database.exec(`
+        UPDATE journal_entries SET linked_entries = ${linkedEntriesSql('journal_entries.id')}
+        WHERE linked_entries IS NOT NULL AND linked_entries != '[]'
+      `);
+      console.log(`[Database] ✅ Entry links table created (${migrated.changes} links migrated)`);
+    }
+  } catch (error) {
+    console.error('[Database] ❌ Could not create entry links table:', error);
+  }
+}
+
+/**
+ * Find the entries matching a filter on their content. The full-text index narrows the
+ * search down to entries containing one of the phrases, so a save does not scan every entry;
+ * without the index (or for phrases it cannot search) every entry is checked.
+ */
+function findMentioningRows(database: Database.Database, filter: string, params: unknown[], phrases: string[]): Array<{ id: number }> {
+  const ftsQuery = buildAnyPhraseFtsQuery(phrases);
+  if (ftsQuery) {
+    try {
+      return database.prepare(`
+        SELECT e.id FROM journal_entries_fts
+        JOIN journal_entries e ON e.id = journal_entries_fts.rowid
+        WHERE journal_entries_fts MATCH ? AND ${filter}
+      `).all(ftsQuery, ...params) as Array<{ id: number }>;
+    } catch (error) {
+      console.warn('[Database] Full-text index unavailable for link lookup, scanning entries:', error);
+    }
+  }
+  return database.prepare(`SELECT e.id FROM journal_entries e WHERE ${filter}`).all(...params) as Array<{ id: number }>;
+}
+
+/**
+ * Store the outgoing links of an entry; runs inside the saveEntry transaction.
+ * entry.links, when given, is the complete set of typed links. Otherwise the ids in
+ * entry.linkedEntries keep the relation they already have and new ids become 'related' links.
+ * 'mentions' links are rebuilt from the [[...]] references in the content, and other entries
+ * whose content refers to this entry's title or date get a 'mentions' link to it.
+ * Links to the entry itself or to entries that don't exist are dropped.
+ *
+ * @returns The ids of the entries the entry now links to
+ */
+function syncEntryLinks(database: Database.Database, sourceId: number, entry: JournalEntry): number[] {
+  const existing = database.prepare('SELECT * FROM entry_links WHERE source_id = ?').all(sourceId) as EntryLinkRow[];
+  const wanted: EntryLinkTarget[] = entry.links || (entry.linkedEntries || []).flatMap(targetId => {
+    const current = existing.filter(link => link.target_id === targetId);
+    // Ids that are only mentioned in the content are handled with the content below
+    return current.length > 0
+      ? current.filter(link => link.relation !== 'mentions').map(link => ({ targetId, relation: link.relation as EntryRelation }))
+      : [{ targetId, relation: 'related' as EntryRelation }];
+  });
+  
+  const linkKey = (targetId: number, relation: string) => `${targetId}:${relation}`;
+  const entryExists = database.prepare('SELECT 1 FROM journal_entries WHERE id = ?');
+  const keep = new Map<string, EntryLinkTarget>();
+  for (const link of wanted) {
+    if (!Number.isInteger(link.targetId) || link.targetId === sourceId || !ENTRY_RELATIONS.includes(link.relation)) {
+      continue;
+    }
+    if (entryExists.get(link.targetId) !== undefined) {
+      keep.set(linkKey(link.targetId, link.relation), link);
+    }
+  }
+  
+  const references = parseContentReferences(entry.content || '');
+  const mentionStmts = [
+    database.prepare('SELECT id FROM journal_entries WHERE date = ? AND id != ?'),
+    database.prepare('SELECT id FROM journal_entries WHERE title = ? COLLATE NOCASE AND id != ?'),
+  ];
+  [references.dates, references.titles].forEach((values, i) => {
+    for (const value of values) {
+      for (const row of mentionStmts[i].all(value, sourceId) as Array<{ id: number }>) {
+        keep.set(linkKey(row.id, 'mentions'), { targetId: row.id, relation: 'mentions' });
+      }
+    }
+  });
+  
+  const deleteStmt = database.prepare('DELETE FROM entry_links WHERE id = ?');
+  for (const link of existing) {
+    if (!keep.has(linkKey(link.target_id, link.relation))) {
+      deleteStmt.run(link.id);
+    }
+  }
+  const insertStmt = database.prepare(`
+    INSERT OR IGNORE INTO entry_links (source_id, target_id, relation, created_at) VALUES (?, ?, ?, ?)
+  `);
+  const mirrorStmt = database.prepare(`UPDATE journal_entries SET linked_entries = ${linkedEntriesSql('?')} WHERE id = ?`);
+  const now = new Date().toISOString();
+  for (const link of keep.values()) {
+    insertStmt.run(sourceId, link.targetId, link.relation, now);
+  }
+  
+  // Entries that mention this one by title or date. Untitled entries can only be mentioned by date
+  const title = (entry.title || '').trim();
+  const mentionConditions = ['instr(e.content, ?) > 0'];
+  const mentionParams = [`[[${entry.date}]]`];
+  if (title) {
+    mentionConditions.push('instr(lower(e.content), lower(?)) > 0');
+    mentionParams.push(`[[${title}]]`);
+  }
+  const mentionFilter = `e.id != ? AND (${mentionConditions.join(' OR ')})`;
+  const mentionPhrases = title ? [entry.date, title] : [entry.date];
+  const mentioningIds = findMentioningRows(database, mentionFilter, [sourceId, ...mentionParams], mentionPhrases)
+    .map(row => row.id);
+  database.prepare(`
+    DELETE FROM entry_links WHERE target_id = ? AND relation = 'mentions'
+    AND source_id NOT IN (SELECT value FROM json_each(?))
+  `).run(sourceId, JSON.stringify(mentioningIds));
+  for (const mentioningId of mentioningIds) {
+    if (insertStmt.run(mentioningId, sourceId, 'mentions', now).changes > 0) {
+      mirrorStmt.run(mentioningId, mentioningId);
+    }
+  }
+  
+  mirrorStmt.run(sourceId, sourceId);
+  const row = database.prepare('SELECT linked_entries FROM journal_entries WHERE id = ?').get(sourceId) as Pick<JournalEntryRow, 'linked_entries'> | undefined;
+  return row?.linked_entries ? JSON.parse(row.linked_entries) : [];
+}
+
 export function getDatabase(): Database.Database {
   if (!db) {
     throw new Error('Database not initialized');
@@ -948,7 +1345,11 @@ export function flushDatabase(): void {
   const database = getDatabase();
   try {
     console.log('[Database] 🔄 Explicitly flushing database to disk...');
-    database.exec('PRAGMA wal_checkpoint(FULL)');
+    if (encryptionKey) {
+      persistEncryptedDatabase();
+    } else {
+      database.exec('PRAGMA wal_checkpoint(FULL)');
+    }
     console.log('[Database] ✅ Database flush completed - all data persisted to disk');
   } catch (error) {
     console.error('[Database] ❌ Error flushing database:', error);
@@ -956,6 +1357,32 @@ export function flushDatabase(): void {
   }
 }
 
+/**
+ * Write a consistent copy of the open database to a file.
+ * Unencrypted profiles use SQLite's online backup API, which is safe while the database
+ * is in use and includes changes still held in the WAL. Encrypted profiles are written
+ * as an encrypted image, exactly as they are stored on disk.
+ *
+ * @param destinationPath - File to write; it is only replaced once the copy is complete
+ */
+export async function backupDatabaseTo(destinationPath: string): Promise<void> {
+  const database = getDatabase();
+  if (encryptionKey) {
+    writeFileAtomic(destinationPath, encryptBuffer(database.serialize(), encryptionKey));
+    return;
+  }
+
+  const partialPath = `${destinationPath}.partial`;
+  try {
+    await database.backup(partialPath);
+    fs.renameSync(partialPath, destinationPath);
+  } finally {
+    if (fs.existsSync(partialPath)) {
+      fs.unlinkSync(partialPath);
+    }
+  }
+}
+
 /**
  * Get the path to the database file for the current profile.
  */
@@ -998,6 +1425,10 @@ export function switchProfile(profileId: string): void {
     throw new Error(`Profile "${profileId}" not found`);
   }
   
+  if (isProfileLocked(profileId)) {
+    throw new Error(`Profile "${profile.name}" is locked. Unlock it with its password first.`);
+  }
+  
   // Verify profile database is valid
   if (!verifyProfileDatabase(profileId)) {
     throw new Error(`Profile "${profileId}" database is invalid or corrupted`);
@@ -1013,6 +1444,9 @@ export function switchProfile(profileId: string): void {
       throw new Error(`Failed to close current database: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
+
+  // Plaintext attachment copies belong to the profile being left
+  clearDecryptedAttachments();
   
   // Update current profile ID in metadata
   setCurrentProfileId(profileId);
@@ -1023,6 +1457,26 @@ export function switchProfile(profileId: string): void {
   console.log(`[Database] ✅ Successfully switched to profile: ${profileId}`);
 }
 
+/**
+ * Run an operation that rewrites a profile's files on disk (e.g. encrypting or re-keying).
+ * If the profile is currently open it is flushed and closed first, then reopened afterwards.
+ */
+export function runWithProfileDatabaseClosed<T>(profileId: string, operation: () => T): T {
+  const wasOpen = !!db && currentProfile?.id === profileId;
+  if (wasOpen) {
+    flushDatabase();
+    closeDatabase();
+  }
+  
+  try {
+    return operation();
+  } finally {
+    if (wasOpen) {
+      initDatabase(profileId);
+    }
+  }
+}
+
 
 /**
  * Get all journal entries in the database, ordered chronologically.
@@ -1030,7 +1484,7 @@ export function switchProfile(profileId: string): void {
  */
 export function getEntryCount(includeArchived: boolean = false): number {
   const database = getDatabase();
-  const whereClause = includeArchived ? '' : 'WHERE archived = 0';
+  const whereClause = includeArchived ? 'WHERE deleted_at IS NULL' : 'WHERE deleted_at IS NULL AND archived = 0';
   const stmt = database.prepare(`SELECT COUNT(*) as count FROM journal_entries ${whereClause}`);
   const result = stmt.get() as { count: number } | undefined;
   return result?.count || 0;
@@ -1038,11 +1492,11 @@ export function getEntryCount(includeArchived: boolean = false): number {
 
 export function getAllEntries(includeArchived: boolean = false): JournalEntry[] {
   const database = getDatabase();
-  const whereClause = includeArchived ? '' : 'WHERE archived = 0';
+  const whereClause = includeArchived ? 'WHERE deleted_at IS NULL' : 'WHERE deleted_at IS NULL AND archived = 0';
   const stmt = database.prepare(`
     SELECT * FROM journal_entries
     ${whereClause}
-    ORDER BY date ASC, time_range ASC, created_at ASC
+    ORDER BY jdn ASC, date ASC, time_range ASC, created_at ASC
   `);
 
   const rows = stmt.all() as JournalEntryRow[];
@@ -1062,6 +1516,8 @@ export function getAllEntries(includeArchived: boolean = false): JournalEntry[]
       archived: row.archived === 1,
       pinned: row.pinned === 1,
       attachments: parseJSONArray(row.attachments),
+      calendar: row.calendar || undefined,
+      periodEnd: row.period_end || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -1070,14 +1526,25 @@ export function getAllEntries(includeArchived: boolean = false): JournalEntry[]
 
 export function getEntries(startDate: string, endDate: string, includeArchived: boolean = false): JournalEntry[] {
   const database = getDatabase();
+  const startJDN = calculateJDNFromDateString(startDate);
+  const endJDN = calculateJDNFromDateString(endDate);
+  if (startJDN === null || endJDN === null) {
+    return [];
+  }
   const archivedClause = includeArchived ? '' : 'AND archived = 0';
+  // Calendar-native periods are stored at their first day and may start before the range.
+  // Each branch of the union is an index range scan, which a single OR would not be.
   const stmt = database.prepare(`
-    SELECT * FROM journal_entries 
-    WHERE date >= ? AND date <= ? ${archivedClause}
-    ORDER BY date DESC
+    SELECT * FROM (
+      SELECT * FROM journal_entries WHERE jdn >= ? AND jdn <= ?
+      UNION ALL
+      SELECT * FROM journal_entries WHERE period_end_jdn >= ? AND jdn < ?
+    )
+    WHERE deleted_at IS NULL ${archivedClause}
+    ORDER BY jdn DESC
   `);
   
-  const rows = stmt.all(startDate, endDate) as JournalEntryRow[];
+  const rows = stmt.all(startJDN, endJDN, startJDN, startJDN) as JournalEntryRow[];
   return rows.map(row => {
     const timeFields = extractTimeFields(row);
     return {
@@ -1090,13 +1557,15 @@ export function getEntries(startDate: string, endDate: string, includeArchived:
       title: row.title,
       content: row.content,
       tags: parseJSONArray(row.tags),
+      calendar: row.calendar || undefined,
+      periodEnd: row.period_end || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   });
 }
 
-export function getEntry(date: string, timeRange: 'decade' | 'year' | 'month' | 'week' | 'day'): JournalEntry | null {
+export function getEntry(date: string, timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day'): JournalEntry | null {
   // For backward compatibility, return the first entry found
   const entries = getEntriesByDateAndRange(date, timeRange);
   return entries.length > 0 ? entries[0] : null;
@@ -1133,6 +1602,9 @@ export function getEntryById(id: number): JournalEntry | null {
     archived: row.archived === 1,
     pinned: row.pinned === 1,
     attachments: row.attachments ? JSON.parse(row.attachments) : [],
+    calendar: row.calendar || undefined,
+    periodEnd: row.period_end || undefined,
+    deletedAt: row.deleted_at || undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -1151,16 +1623,8 @@ export interface EntryVersion {
   versionCreatedAt: string;
 }
 
-export function getEntryVersions(entryId: number): EntryVersion[] {
-  const database = getDatabase();
-  const stmt = database.prepare(`
-    SELECT * FROM entry_versions 
-    WHERE entry_id = ? 
-    ORDER BY version_created_at DESC
-  `);
-  const rows = stmt.all(entryId) as EntryVersionRow[];
-  
-  return rows.map(row => ({
+function mapEntryVersionRow(row: EntryVersionRow): EntryVersion {
+  return {
     id: row.id,
     entryId: row.entry_id,
     date: row.date,
@@ -1171,45 +1635,191 @@ export function getEntryVersions(entryId: number): EntryVersion[] {
     linkedEntries: row.linked_entries ? JSON.parse(row.linked_entries) : [],
     createdAt: row.created_at,
     versionCreatedAt: row.version_created_at,
-  }));
+  };
 }
 
-export function getEntriesByDateAndRange(date: string, timeRange: 'decade' | 'year' | 'month' | 'week' | 'day', includeArchived: boolean = false): JournalEntry[] {
+export function getEntryVersions(entryId: number): EntryVersion[] {
   const database = getDatabase();
-  const archivedClause = includeArchived ? '' : 'AND archived = 0';
-  const stmt = database.prepare(`SELECT * FROM journal_entries WHERE date = ? AND time_range = ? ${archivedClause} ORDER BY created_at DESC`);
-  const rows = stmt.all(date, timeRange) as JournalEntryRow[];
+  const stmt = database.prepare(`
+    SELECT * FROM entry_versions 
+    WHERE entry_id = ? 
+    ORDER BY version_created_at DESC, id DESC
+  `);
+  const rows = stmt.all(entryId) as EntryVersionRow[];
   
-  return rows.map(row => {
-    const timeFields = extractTimeFields(row);
-    return {
-      id: row.id,
-      date: row.date,
-      timeRange: (row.time_range || 'day') as TimeRange,
-      hour: timeFields.hour,
-      minute: timeFields.minute,
-      second: timeFields.second,
-      title: row.title,
-      content: row.content,
-      tags: parseJSONArray(row.tags),
-      linkedEntries: parseJSONArray(row.linked_entries),
-      archived: row.archived === 1,
-      pinned: row.pinned === 1,
-      attachments: parseJSONArray(row.attachments),
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    };
-  });
+  return rows.map(mapEntryVersionRow);
 }
 
-export function saveEntry(entry: JournalEntry): JournalEntry {
-  console.log('═══════════════════════════════════════════════════════════');
-  console.log('[Database] 🗄️ saveEntry FUNCTION CALLED');
-  console.log('[Database] Entry received:', {
-    id: entry.id,
-    date: entry.date,
-    timeRange: entry.timeRange,
-    title: entry.title,
+export function getEntryVersion(versionId: number): EntryVersion | null {
+  const database = getDatabase();
+  const row = database.prepare('SELECT * FROM entry_versions WHERE id = ?').get(versionId) as EntryVersionRow | undefined;
+  return row ? mapEntryVersionRow(row) : null;
+}
+
+/**
+ * Make a stored version the current state of its entry.
+ * Title, content, tags and links are restored; the entry stays on its current date.
+ * The state being replaced is itself kept as a version, so a restore can be undone.
+ * Links to entries that no longer exist are dropped.
+ *
+ * @param versionId - ID of the version to restore
+ * @returns The updated entry
+ * @throws Error if the version or its entry no longer exists
+ */
+export function restoreEntryVersion(versionId: number): JournalEntry {
+  const version = getEntryVersion(versionId);
+  if (!version) {
+    throw new Error(`Version ${versionId} not found`);
+  }
+  const current = getEntryById(version.entryId);
+  if (!current) {
+    throw new Error(`Entry ${version.entryId} not found`);
+  }
+
+  const database = getDatabase();
+  const existsStmt = database.prepare('SELECT 1 FROM journal_entries WHERE id = ?');
+  const linkedEntries = version.linkedEntries.filter(id => id !== current.id && existsStmt.get(id) !== undefined);
+
+  return saveEntry({
+    ...current,
+    title: version.title,
+    content: version.content,
+    tags: version.tags,
+    linkedEntries,
+  });
+}
+
+/**
+ * Delete versions that fall outside the retention preferences:
+ * more than versionHistoryLimit versions of one entry, or older than versionHistoryMaxAgeDays.
+ * A limit or age of 0 keeps everything.
+ *
+ * @param entryId - Only prune this entry's versions (all entries if omitted)
+ * @returns Number of versions deleted
+ */
+export function pruneEntryVersions(entryId?: number): number {
+  const database = getDatabase();
+  const limit = Math.floor(Number(getPreference('versionHistoryLimit')) || 0);
+  const maxAgeDays = Number(getPreference('versionHistoryMaxAgeDays')) || 0;
+  const entryFilter = entryId !== undefined ? 'WHERE entry_id = ?' : '';
+  const entryParams = entryId !== undefined ? [entryId] : [];
+  let deleted = 0;
+
+  if (limit > 0) {
+    deleted += database.prepare(`
+      DELETE FROM entry_versions WHERE id IN (
+        SELECT id FROM (
+          SELECT id, ROW_NUMBER() OVER (PARTITION BY entry_id ORDER BY version_created_at DESC, id DESC) AS position
+          FROM entry_versions ${entryFilter}
+        ) WHERE position > ?
+      )
+    `).run(...entryParams, limit).changes;
+  }
+
+  if (maxAgeDays > 0) {
+    const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+    deleted += database.prepare(`
+      DELETE FROM entry_versions WHERE version_created_at < ? ${entryId !== undefined ? 'AND entry_id = ?' : ''}
+    `).run(cutoff, ...entryParams).changes;
+  }
+
+  if (deleted > 0) {
+    console.log(`[Database] Pruned ${deleted} old entry version(s)`);
+  }
+  return deleted;
+}
+
+function mapLinkedEntryRow(row: LinkedEntryRow): EntryLink {
+  const timeFields = extractTimeFields(row);
+  return {
+    id: row.link_id,
+    sourceId: row.link_source_id,
+    targetId: row.link_target_id,
+    relation: row.link_relation as EntryRelation,
+    createdAt: row.link_created_at,
+    entry: {
+      id: row.id,
+      date: row.date,
+      timeRange: (row.time_range || 'day') as TimeRange,
+      hour: timeFields.hour,
+      minute: timeFields.minute,
+      second: timeFields.second,
+      title: row.title,
+      content: row.content,
+      tags: parseJSONArray(row.tags),
+      linkedEntries: parseJSONArray(row.linked_entries),
+      archived: row.archived === 1,
+      pinned: row.pinned === 1,
+      attachments: parseJSONArray(row.attachments),
+      calendar: row.calendar || undefined,
+      periodEnd: row.period_end || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    },
+  };
+}
+
+/**
+ * Get the links of an entry with the linked entries resolved in one query per direction
+ *
+ * @param entryId - Entry to get the links of
+ * @returns Links from the entry (outgoing) and links to it from other entries (incoming)
+ */
+export function getEntryLinks(entryId: number): EntryLinks {
+  const database = getDatabase();
+  const query = (otherEnd: 'source_id' | 'target_id', thisEnd: 'source_id' | 'target_id') => database.prepare(`
+    SELECT e.*, l.id AS link_id, l.source_id AS link_source_id, l.target_id AS link_target_id,
+      l.relation AS link_relation, l.created_at AS link_created_at
+    FROM entry_links l
+    JOIN journal_entries e ON e.id = l.${otherEnd}
+    WHERE l.${thisEnd} = ? AND e.deleted_at IS NULL
+    ORDER BY l.id ASC
+  `).all(entryId) as LinkedEntryRow[];
+  
+  return {
+    outgoing: query('target_id', 'source_id').map(mapLinkedEntryRow),
+    incoming: query('source_id', 'target_id').map(mapLinkedEntryRow),
+  };
+}
+
+export function getEntriesByDateAndRange(date: string, timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day', includeArchived: boolean = false): JournalEntry[] {
+  const database = getDatabase();
+  const archivedClause = includeArchived ? '' : 'AND archived = 0';
+  const stmt = database.prepare(`SELECT * FROM journal_entries WHERE date = ? AND time_range = ? AND deleted_at IS NULL ${archivedClause} ORDER BY created_at DESC`);
+  const rows = stmt.all(date, timeRange) as JournalEntryRow[];
+  
+  return rows.map(row => {
+    const timeFields = extractTimeFields(row);
+    return {
+      id: row.id,
+      date: row.date,
+      timeRange: (row.time_range || 'day') as TimeRange,
+      hour: timeFields.hour,
+      minute: timeFields.minute,
+      second: timeFields.second,
+      title: row.title,
+      content: row.content,
+      tags: parseJSONArray(row.tags),
+      linkedEntries: parseJSONArray(row.linked_entries),
+      archived: row.archived === 1,
+      pinned: row.pinned === 1,
+      attachments: parseJSONArray(row.attachments),
+      calendar: row.calendar || undefined,
+      periodEnd: row.period_end || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  });
+}
+
+export function saveEntry(entry: JournalEntry): JournalEntry {
+  console.log('═══════════════════════════════════════════════════════════');
+  console.log('[Database] 🗄️ saveEntry FUNCTION CALLED');
+  console.log('[Database] Entry received:', {
+    id: entry.id,
+    date: entry.date,
+    timeRange: entry.timeRange,
+    title: entry.title,
     contentLength: entry.content?.length || 0,
     timeFields: {
       hour: entry.hour,
@@ -1247,6 +1857,8 @@ export function saveEntry(entry: JournalEntry): JournalEntry {
     
     // Calculate JDN from date string
     const jdn = calculateJDNFromDateString(entry.date);
+    let linkedEntries: number[] = [];
+    let tags: string[];
     
     // If entry has an ID, update that specific entry
     if (entry.id) {
@@ -1270,7 +1882,9 @@ export function saveEntry(entry: JournalEntry): JournalEntry {
           currentEntry.createdAt,
           now
         );
+        pruneEntryVersions(currentEntry.id);
       }
+      tags = mergeContentTags(entry.tags || [], currentEntry?.content || '', entry.content || '');
       
       // PROFESSIONAL TIME SAVE: Explicitly process each time field
       // Handle hour: can be null if not set
@@ -1332,7 +1946,7 @@ export function saveEntry(entry: JournalEntry): JournalEntry {
         stmt.run(
           entry.title || '',
           entry.content || '',
-          JSON.stringify(entry.tags || []),
+          JSON.stringify(tags),
           JSON.stringify(entry.linkedEntries || []),
           entry.archived ? 1 : 0,
           entry.pinned ? 1 : 0,
@@ -1344,6 +1958,7 @@ export function saveEntry(entry: JournalEntry): JournalEntry {
           dbSecond,
           entry.id
         );
+        linkedEntries = syncEntryLinks(database, entry.id!, entry);
       });
       
       // Execute transaction - this commits immediately
@@ -1376,6 +1991,7 @@ export function saveEntry(entry: JournalEntry): JournalEntry {
     } else {
       // If no ID, always insert a new entry (allows multiple entries per date/timeRange)
       console.log('[Database] INSERT - Inserting new entry');
+      tags = mergeContentTags(entry.tags || [], '', entry.content || '');
       
       // PROFESSIONAL TIME SAVE: Explicitly process each time field
       // Handle hour: can be null if not set
@@ -1415,11 +2031,15 @@ export function saveEntry(entry: JournalEntry): JournalEntry {
         }
       });
       
+      // Only calendar-native periods have an end of their own
+      const periodEnd = entry.calendar && entry.calendar !== 'gregorian' ? entry.periodEnd || null : null;
+      
       // CRITICAL: Use explicit transaction to ensure atomicity and immediate persistence
+      let insertedId: number | undefined;
       const transaction = database.transaction(() => {
         const stmt = database.prepare(`
-          INSERT INTO journal_entries (date, jdn, time_range, hour, minute, second, title, content, tags, linked_entries, archived, pinned, attachments, created_at, updated_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          INSERT INTO journal_entries (date, jdn, time_range, hour, minute, second, title, content, tags, linked_entries, archived, pinned, attachments, calendar, period_end, period_end_jdn, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
         
         // Log exactly what we're inserting
@@ -1435,7 +2055,7 @@ export function saveEntry(entry: JournalEntry): JournalEntry {
           secondType: typeof dbSecond,
         });
         
-        stmt.run(
+        const result = stmt.run(
           entry.date || '',
           jdn,
           entry.timeRange || 'day',
@@ -1444,14 +2064,19 @@ export function saveEntry(entry: JournalEntry): JournalEntry {
           dbSecond,
           entry.title || '',
           entry.content || '',
-          JSON.stringify(entry.tags || []),
+          JSON.stringify(tags),
           JSON.stringify(entry.linkedEntries || []),
           entry.archived ? 1 : 0,
           entry.pinned ? 1 : 0,
           JSON.stringify(entry.attachments || []),
+          entry.calendar && entry.calendar !== 'gregorian' ? entry.calendar : null,
+          periodEnd,
+          periodEnd ? isoDateStringToJDN(periodEnd) : null,
           entry.createdAt || now,
           now
         );
+        insertedId = Number(result.lastInsertRowid);
+        linkedEntries = syncEntryLinks(database, insertedId, entry);
       });
       
       // Execute transaction - this commits immediately
@@ -1470,7 +2095,8 @@ export function saveEntry(entry: JournalEntry): JournalEntry {
       
       // Get the inserted entry ID and verify the save
       console.log('[Database] ✅ INSERT statement executed. Verifying saved values...');
-      const lastInsertId = database.prepare('SELECT last_insert_rowid() as id').get() as { id: number };
+      // Saving the links changes last_insert_rowid(), so use the id returned by the insert
+      const lastInsertId = insertedId !== undefined ? { id: insertedId } : undefined;
       if (lastInsertId) {
         const verifyStmt = database.prepare('SELECT hour, minute, second FROM journal_entries WHERE id = ?');
         const verifyRow = verifyStmt.get(lastInsertId.id) as Pick<JournalEntryRow, 'hour' | 'minute' | 'second'> | undefined;
@@ -1486,14 +2112,14 @@ export function saveEntry(entry: JournalEntry): JournalEntry {
         console.log('[Database] Insert operation COMPLETE for new entry ID:', lastInsertId.id);
         
         // Return entry with the new ID
-        return { ...entry, id: lastInsertId.id };
+        return { ...entry, id: lastInsertId.id, tags, linkedEntries };
       }
       // Fallback: return entry as-is if ID retrieval fails
       return entry;
     }
     
     // For updates, return the entry with existing ID
-    return entry;
+    return { ...entry, tags, linkedEntries };
   } catch (error: unknown) {
     console.error('═══════════════════════════════════════════════════════════');
     console.error('[Database] ❌❌❌ ERROR in saveEntry:', error);
@@ -1548,12 +2174,135 @@ function fixDatabaseSchema(database: Database.Database): void {
   console.log('Database schema fixed successfully');
 }
 
+/**
+ * Permanently delete an entry along with its versions and links.
+ * Deleting from the UI moves entries to the trash instead (see trashEntry).
+ */
 export function deleteEntry(id: number): void {
   const database = getDatabase();
   const stmt = database.prepare('DELETE FROM journal_entries WHERE id = ?');
   stmt.run(id);
 }
 
+/**
+ * Move an entry to the trash. It keeps its ID, versions and links, so restoring it
+ * brings everything back; trashed entries are left out of every other query.
+ */
+export function trashEntry(id: number): void {
+  const database = getDatabase();
+  const stmt = database.prepare('UPDATE journal_entries SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL');
+  stmt.run(new Date().toISOString(), id);
+}
+
+/**
+ * Move an entry out of the trash
+ */
+export function restoreEntry(id: number): void {
+  const database = getDatabase();
+  const stmt = database.prepare('UPDATE journal_entries SET deleted_at = NULL WHERE id = ?');
+  stmt.run(id);
+}
+
+/**
+ * Get the entries in the trash, most recently deleted first
+ */
+export function getTrashedEntries(): JournalEntry[] {
+  const database = getDatabase();
+  const stmt = database.prepare(`
+    SELECT * FROM journal_entries
+    WHERE deleted_at IS NOT NULL
+    ORDER BY deleted_at DESC, id DESC
+  `);
+
+  const rows = stmt.all() as JournalEntryRow[];
+  return rows.map(row => {
+    const timeFields = extractTimeFields(row);
+    return {
+      id: row.id,
+      date: row.date,
+      timeRange: (row.time_range || 'day') as TimeRange,
+      hour: timeFields.hour,
+      minute: timeFields.minute,
+      second: timeFields.second,
+      title: row.title,
+      content: row.content,
+      tags: parseJSONArray(row.tags),
+      linkedEntries: parseJSONArray(row.linked_entries),
+      archived: row.archived === 1,
+      pinned: row.pinned === 1,
+      attachments: parseJSONArray(row.attachments),
+      calendar: row.calendar || undefined,
+      periodEnd: row.period_end || undefined,
+      deletedAt: row.deleted_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  });
+}
+
+/**
+ * Get the IDs of the entries that were moved to the trash before a point in time
+ *
+ * @param before - ISO datetime
+ */
+export function getTrashedEntryIdsBefore(before: string): number[] {
+  const database = getDatabase();
+  const rows = database.prepare(`
+    SELECT id FROM journal_entries WHERE deleted_at IS NOT NULL AND deleted_at < ?
+  `).all(before) as Array<{ id: number }>;
+  return rows.map(row => row.id);
+}
+
+export interface AttachmentReference {
+  entryId: number;
+  attachment: EntryAttachment;
+}
+
+/**
+ * Get every attachment record of every entry, archived entries included.
+ */
+export function getAttachmentReferences(): AttachmentReference[] {
+  const database = getDatabase();
+  const rows = database.prepare(`
+    SELECT id, attachments FROM journal_entries WHERE attachments IS NOT NULL ORDER BY id
+  `).all() as Array<{ id: number; attachments: string }>;
+
+  const references: AttachmentReference[] = [];
+  for (const row of rows) {
+    for (const attachment of parseJSONArray<EntryAttachment>(row.attachments)) {
+      if (attachment && typeof attachment.filePath === 'string') {
+        references.push({ entryId: row.id, attachment });
+      }
+    }
+  }
+  return references;
+}
+
+/**
+ * Count the attachment records, across all entries, that point at a stored file.
+ * Entries share a file when the same content is attached more than once.
+ */
+export function countAttachmentReferences(filePath: string): number {
+  const database = getDatabase();
+  const row = database.prepare(`
+    SELECT COUNT(*) AS count
+    FROM journal_entries e,
+      json_each(CASE WHEN json_valid(e.attachments) THEN e.attachments ELSE '[]' END) a
+    WHERE json_extract(a.value, '$.filePath') = ?
+  `).get(filePath) as { count: number };
+  return row.count;
+}
+
+/**
+ * Replace an entry's attachment records without changing its other fields,
+ * its modification time or its version history.
+ */
+export function setEntryAttachments(entryId: number, attachments: EntryAttachment[]): void {
+  const database = getDatabase();
+  const stmt = database.prepare('UPDATE journal_entries SET attachments = ? WHERE id = ?');
+  stmt.run(JSON.stringify(attachments), entryId);
+}
+
 export function archiveEntry(id: number): void {
   const database = getDatabase();
   const stmt = database.prepare('UPDATE journal_entries SET archived = 1, updated_at = ? WHERE id = ?');
@@ -1570,8 +2319,8 @@ export function getArchivedEntries(): JournalEntry[] {
   const database = getDatabase();
   const stmt = database.prepare(`
     SELECT * FROM journal_entries 
-    WHERE archived = 1
-    ORDER BY date DESC, created_at DESC
+    WHERE archived = 1 AND deleted_at IS NULL
+    ORDER BY jdn DESC, created_at DESC
   `);
   
   const rows = stmt.all() as JournalEntryRow[];
@@ -1612,8 +2361,8 @@ export function getPinnedEntries(): JournalEntry[] {
   const database = getDatabase();
   const stmt = database.prepare(`
     SELECT * FROM journal_entries 
-    WHERE pinned = 1 AND archived = 0
-    ORDER BY date DESC, created_at DESC
+    WHERE pinned = 1 AND archived = 0 AND deleted_at IS NULL
+    ORDER BY jdn DESC, created_at DESC
   `);
   
   const rows = stmt.all() as JournalEntryRow[];
@@ -1638,6 +2387,107 @@ export function getPinnedEntries(): JournalEntry[] {
   });
 }
 
+/**
+ * Get entries by ID, in date order. Trashed and unknown IDs are skipped.
+ */
+export function getEntriesByIds(ids: number[]): JournalEntry[] {
+  return ids
+    .map(id => getEntryById(id))
+    .filter((entry): entry is JournalEntry => entry !== null && !entry.deletedAt)
+    .sort((a, b) => (isoDateStringToJDN(a.date) ?? 0) - (isoDateStringToJDN(b.date) ?? 0) || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Apply one change to many entries in a single transaction: either every entry changes
+ * or none does. Tag changes and moves keep the previous text in the version history,
+ * like saveEntry. Trashed entries are only touched by 'trash' operations.
+ *
+ * @returns Number of entries that changed
+ */
+export function applyBulkEntryOperation(ids: number[], operation: BulkEntryOperation): number {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+  const selectStmt = database.prepare('SELECT * FROM journal_entries WHERE id = ?');
+  const versionStmt = database.prepare(`
+    INSERT INTO entry_versions (entry_id, date, time_range, title, content, tags, linked_entries, created_at, version_created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const saveVersion = (row: JournalEntryRow) => {
+    versionStmt.run(row.id, row.date, row.time_range, row.title, row.content, row.tags || '[]', row.linked_entries || '[]', row.created_at, now);
+  };
+  const tagsStmt = database.prepare('UPDATE journal_entries SET tags = ?, updated_at = ? WHERE id = ?');
+  const archivedStmt = database.prepare('UPDATE journal_entries SET archived = ?, updated_at = ? WHERE id = ?');
+  const pinnedStmt = database.prepare('UPDATE journal_entries SET pinned = ?, updated_at = ? WHERE id = ?');
+  // The new period is a Gregorian one, so a calendar-native period end no longer applies
+  const moveStmt = database.prepare(`
+    UPDATE journal_entries
+    SET date = ?, jdn = ?, time_range = ?, calendar = NULL, period_end = NULL, period_end_jdn = NULL, updated_at = ?
+    WHERE id = ?
+  `);
+  const trashStmt = database.prepare('UPDATE journal_entries SET deleted_at = ? WHERE id = ?');
+
+  const run = database.transaction((): number => {
+    let changed = 0;
+    const versioned: number[] = [];
+
+    for (const id of new Set(ids)) {
+      const row = selectStmt.get(id) as JournalEntryRow | undefined;
+      if (!row || (row.deleted_at && operation.type !== 'trash')) {
+        continue;
+      }
+
+      switch (operation.type) {
+        case 'add-tags':
+        case 'remove-tags': {
+          const tags = parseJSONArray<string>(row.tags);
+          const updated = operation.type === 'add-tags' ? addTags(tags, operation.tags) : removeTags(tags, operation.tags);
+          if (updated === tags) {
+            continue;
+          }
+          saveVersion(row);
+          versioned.push(id);
+          tagsStmt.run(JSON.stringify(updated), now, id);
+          break;
+        }
+        case 'archive':
+          if ((row.archived === 1) === operation.archived) {
+            continue;
+          }
+          archivedStmt.run(operation.archived ? 1 : 0, now, id);
+          break;
+        case 'pin':
+          if ((row.pinned === 1) === operation.pinned) {
+            continue;
+          }
+          pinnedStmt.run(operation.pinned ? 1 : 0, now, id);
+          break;
+        case 'move':
+          if (row.date === operation.date && row.time_range === operation.timeRange && !row.period_end) {
+            continue;
+          }
+          saveVersion(row);
+          versioned.push(id);
+          moveStmt.run(operation.date, calculateJDNFromDateString(operation.date), operation.timeRange, now, id);
+          break;
+        case 'trash':
+          if (!!row.deleted_at === operation.trashed) {
+            continue;
+          }
+          trashStmt.run(operation.trashed ? now : null, id);
+          break;
+      }
+      changed++;
+    }
+
+    for (const id of versioned) {
+      pruneEntryVersions(id);
+    }
+    return changed;
+  });
+
+  return run();
+}
+
 export interface EntryTemplate {
   id?: number;
   name: string;
@@ -1732,10 +2582,92 @@ export function deleteTemplate(id: number): void {
   stmt.run(id);
 }
 
-export function deleteEntryByDateAndRange(date: string, timeRange: 'decade' | 'year' | 'month' | 'week' | 'day'): void {
+function mapSavedSearchRow(row: SavedSearchRow): SavedSearch {
+  let filters: SearchFilters = {};
+  try {
+    filters = row.filters ? JSON.parse(row.filters) : {};
+  } catch {
+    // Corrupt filters - fall back to the query alone
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    filters,
+    sortBy: (row.sort_by || 'relevance') as SearchSortField,
+    sortOrder: row.sort_order === 'asc' ? 'asc' : 'desc',
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function getAllSavedSearches(): SavedSearch[] {
+  const database = getDatabase();
+  const stmt = database.prepare(`
+    SELECT * FROM saved_searches
+    ORDER BY name ASC
+  `);
+  
+  const rows = stmt.all() as SavedSearchRow[];
+  return rows.map(mapSavedSearchRow);
+}
+
+export function getSavedSearch(id: number): SavedSearch | null {
+  const database = getDatabase();
+  const stmt = database.prepare('SELECT * FROM saved_searches WHERE id = ?');
+  const row = stmt.get(id) as SavedSearchRow | undefined;
+  
+  return row ? mapSavedSearchRow(row) : null;
+}
+
+export function saveSavedSearch(search: SavedSearch): SavedSearch {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+  
+  if (search.id) {
+    const stmt = database.prepare(`
+      UPDATE saved_searches 
+      SET name = ?, query = ?, filters = ?, sort_by = ?, sort_order = ?, updated_at = ?
+      WHERE id = ?
+    `);
+    stmt.run(
+      search.name,
+      search.query,
+      JSON.stringify(search.filters || {}),
+      search.sortBy,
+      search.sortOrder,
+      now,
+      search.id
+    );
+    return getSavedSearch(search.id)!;
+  }
+  
+  const stmt = database.prepare(`
+    INSERT INTO saved_searches (name, query, filters, sort_by, sort_order, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const result = stmt.run(
+    search.name,
+    search.query,
+    JSON.stringify(search.filters || {}),
+    search.sortBy,
+    search.sortOrder,
+    search.createdAt || now,
+    now
+  );
+  return getSavedSearch(Number(result.lastInsertRowid))!;
+}
+
+export function deleteSavedSearch(id: number): void {
+  const database = getDatabase();
+  const stmt = database.prepare('DELETE FROM saved_searches WHERE id = ?');
+  stmt.run(id);
+}
+
+export function trashEntriesByDateAndRange(date: string, timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day'): void {
   const database = getDatabase();
-  const stmt = database.prepare('DELETE FROM journal_entries WHERE date = ? AND time_range = ?');
-  stmt.run(date, timeRange);
+  const stmt = database.prepare('UPDATE journal_entries SET deleted_at = ? WHERE date = ? AND time_range = ? AND deleted_at IS NULL');
+  stmt.run(new Date().toISOString(), date, timeRange);
 }
 
 export function searchEntries(query: string, includeArchived: boolean = false): JournalEntry[] {
@@ -1744,8 +2676,8 @@ export function searchEntries(query: string, includeArchived: boolean = false):
   const archivedClause = includeArchived ? '' : 'AND archived = 0';
   const stmt = database.prepare(`
     SELECT * FROM journal_entries 
-    WHERE (title LIKE ? OR content LIKE ?) ${archivedClause}
-    ORDER BY date DESC
+    WHERE (title LIKE ? OR content LIKE ?) AND deleted_at IS NULL ${archivedClause}
+    ORDER BY jdn DESC
   `);
   
   const rows = stmt.all(searchTerm, searchTerm) as JournalEntryRow[];
@@ -1765,150 +2697,435 @@ export function searchEntries(query: string, includeArchived: boolean = false):
       archived: row.archived === 1,
       pinned: row.pinned === 1,
       attachments: parseJSONArray(row.attachments),
+      calendar: row.calendar || undefined,
+      periodEnd: row.period_end || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   });
 }
 
-export function getEntriesByRange(range: 'decade' | 'year' | 'month' | 'week' | 'day', value: number): JournalEntry[] {
+/**
+ * SQL condition that is true when a JSON array column holds at least one element.
+ */
+function jsonArrayNotEmpty(column: string): string {
+  return `COALESCE(json_array_length(CASE WHEN json_valid(${column}) THEN ${column} END), 0) > 0`;
+}
+
+/**
+ * SQL condition comparing an entry's date to a bound, using the JDN when available
+ * (string comparison breaks for negative years) and the date string otherwise.
+ */
+function dateBoundCondition(operator: '>=' | '<', bound: string, params: unknown[]): string {
+  const jdn = calculateJDNFromDateString(bound);
+  if (jdn === null) {
+    params.push(bound);
+    return `e.date ${operator} ?`;
+  }
+  params.push(jdn, bound);
+  return `((e.jdn IS NOT NULL AND e.jdn ${operator} ?) OR (e.jdn IS NULL AND e.date ${operator} ?))`;
+}
+
+/**
+ * Compile a parsed search query into a WHERE clause against journal_entries (aliased "e").
+ * Free text is handled separately through the FTS index.
+ */
+function compileSearchFilters(parsed: ParsedSearchQuery, includeArchived: boolean): { conditions: string[]; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  
+  if (parsed.archived === true) {
+    conditions.push('e.archived = 1');
+  } else if (parsed.archived === false || (parsed.archived === undefined && !includeArchived)) {
+    conditions.push('e.archived = 0');
+  }
+  
+  for (const tag of parsed.tags) {
+    conditions.push(`EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(e.tags) THEN e.tags ELSE '[]' END) WHERE lower(json_each.value) = lower(?))`);
+    params.push(tag);
+  }
+  for (const tag of parsed.excludedTags) {
+    conditions.push(`NOT EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(e.tags) THEN e.tags ELSE '[]' END) WHERE lower(json_each.value) = lower(?))`);
+    params.push(tag);
+  }
+  
+  if (parsed.timeRanges.length > 0) {
+    conditions.push(`e.time_range IN (${parsed.timeRanges.map(() => '?').join(', ')})`);
+    params.push(...parsed.timeRanges);
+  }
+  
+  if (parsed.after) {
+    conditions.push(dateBoundCondition('>=', parsed.after, params));
+  }
+  if (parsed.before) {
+    conditions.push(dateBoundCondition('<', parsed.before, params));
+  }
+  
+  if (parsed.pinned !== undefined) {
+    conditions.push(parsed.pinned ? 'e.pinned = 1' : 'COALESCE(e.pinned, 0) = 0');
+  }
+  if (parsed.hasAttachment !== undefined) {
+    conditions.push(parsed.hasAttachment ? jsonArrayNotEmpty('e.attachments') : `NOT ${jsonArrayNotEmpty('e.attachments')}`);
+  }
+  if (parsed.hasTags !== undefined) {
+    conditions.push(parsed.hasTags ? jsonArrayNotEmpty('e.tags') : `NOT ${jsonArrayNotEmpty('e.tags')}`);
+  }
+  if (parsed.hasLinks !== undefined) {
+    conditions.push(parsed.hasLinks ? jsonArrayNotEmpty('e.linked_entries') : `NOT ${jsonArrayNotEmpty('e.linked_entries')}`);
+  }
+  
+  for (const excluded of parsed.excludedText) {
+    const ftsQuery = buildFtsQuery(excluded);
+    if (ftsQuery) {
+      conditions.push('e.id NOT IN (SELECT rowid FROM journal_entries_fts WHERE journal_entries_fts MATCH ?)');
+      params.push(ftsQuery);
+    }
+  }
+  
+  return { conditions, params };
+}
+
+/**
+ * Run a parsed search query. Text is matched through the FTS5 index (ranked by bm25,
+ * with highlighted snippets); filter-only queries are ordered by date.
+ */
+function runEntrySearch(parsed: ParsedSearchQuery, includeArchived: boolean, limit: number): EntrySearchResult[] {
+  const database = getDatabase();
+  const { conditions, params } = compileSearchFilters(parsed, includeArchived);
+  const filterClause = conditions.map(condition => `AND ${condition}`).join('\n      ');
+  
+  const mapRow = (row: EntrySearchRow): EntrySearchResult => {
+    const timeFields = extractTimeFields(row);
+    return {
+      entry: {
+        id: row.id,
+        date: row.date,
+        timeRange: (row.time_range || 'day') as TimeRange,
+        hour: timeFields.hour,
+        minute: timeFields.minute,
+        second: timeFields.second,
+        title: row.title,
+        content: row.content,
+        tags: parseJSONArray(row.tags),
+        linkedEntries: parseJSONArray(row.linked_entries),
+        archived: row.archived === 1,
+        pinned: row.pinned === 1,
+        attachments: parseJSONArray(row.attachments),
+        calendar: row.calendar || undefined,
+        periodEnd: row.period_end || undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      },
+      rank: row.rank,
+      titleSnippet: row.title_snippet || row.title,
+      contentSnippet: row.content_snippet || '',
+    };
+  };
+  
+  const ftsQuery = parsed.text ? buildFtsQuery(parsed.text) : null;
+  if (!ftsQuery) {
+    if (parsed.text && conditions.length === 0) {
+      return []; // Text with nothing searchable in it
+    }
+    const rows = database.prepare(`
+      SELECT e.*, 0 AS rank, NULL AS title_snippet, NULL AS content_snippet
+      FROM journal_entries e
+      WHERE e.deleted_at IS NULL
+      ${filterClause}
+      ORDER BY e.jdn DESC
+      LIMIT ?
+    `).all(...params, limit) as EntrySearchRow[];
+    return rows.map(mapRow);
+  }
+  
+  const stmt = database.prepare(`
+    SELECT e.*,
+      bm25(journal_entries_fts, 10.0, 1.0, 5.0) AS rank,
+      highlight(journal_entries_fts, 0, ?, ?) AS title_snippet,
+      snippet(journal_entries_fts, 1, ?, ?, '…', 32) AS content_snippet
+    FROM journal_entries_fts
+    JOIN journal_entries e ON e.id = journal_entries_fts.rowid
+    WHERE journal_entries_fts MATCH ? AND e.deleted_at IS NULL
+      ${filterClause}
+    ORDER BY rank
+    LIMIT ?
+  `);
+  
+  const runQuery = (matchQuery: string) => stmt.all(
+    SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END,
+    SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END,
+    matchQuery,
+    ...params,
+    limit
+  ) as EntrySearchRow[];
+  
+  let rows: EntrySearchRow[];
+  try {
+    rows = runQuery(ftsQuery);
+  } catch (error) {
+    // Fall back to matching the plain words if SQLite rejects the expression
+    console.warn('[Database] FTS query rejected, retrying as plain words:', error);
+    const plainQuery = buildPlainFtsQuery(parsed.text);
+    if (!plainQuery) {
+      return [];
+    }
+    rows = runQuery(plainQuery);
+  }
+  
+  return rows.map(mapRow);
+}
+
+/**
+ * Full-text search over entry titles, content and tags using the FTS5 index.
+ * Supports phrase ("..."), prefix (word*), boolean (AND/OR/NOT) and NEAR() queries.
+ * Results are ranked by bm25 with title matches weighted highest.
+ * 
+ * @param query - Search text typed by the user
+ * @param includeArchived - Whether archived entries are included
+ * @param limit - Maximum number of results
+ */
+export function searchEntriesFullText(query: string, includeArchived: boolean = false, limit: number = 200): EntrySearchResult[] {
+  if (!buildFtsQuery(query)) {
+    return [];
+  }
+  return runEntrySearch({ ...parseSearchQuery(''), text: query }, includeArchived, limit);
+}
+
+/**
+ * Count the entries matching a parsed search query (same matching rules as runEntrySearch).
+ */
+function countEntrySearch(parsed: ParsedSearchQuery, includeArchived: boolean): number {
   const database = getDatabase();
-  const now = new Date();
-  let startDate: Date;
-  let endDate: Date;
-  let canonicalDate: Date;
+  const { conditions, params } = compileSearchFilters(parsed, includeArchived);
+  const filterClause = conditions.map(condition => `AND ${condition}`).join('\n      ');
+  
+  const ftsQuery = parsed.text ? buildFtsQuery(parsed.text) : null;
+  if (!ftsQuery) {
+    if (parsed.text && conditions.length === 0) {
+      return 0;
+    }
+    const row = database.prepare(`
+      SELECT COUNT(*) AS count
+      FROM journal_entries e
+      WHERE e.deleted_at IS NULL
+      ${filterClause}
+    `).get(...params) as { count: number };
+    return row.count;
+  }
+  
+  const stmt = database.prepare(`
+    SELECT COUNT(*) AS count
+    FROM journal_entries_fts
+    JOIN journal_entries e ON e.id = journal_entries_fts.rowid
+    WHERE journal_entries_fts MATCH ? AND e.deleted_at IS NULL
+      ${filterClause}
+  `);
   
+  try {
+    return (stmt.get(ftsQuery, ...params) as { count: number }).count;
+  } catch (error) {
+    const plainQuery = buildPlainFtsQuery(parsed.text);
+    return plainQuery ? (stmt.get(plainQuery, ...params) as { count: number }).count : 0;
+  }
+}
+
+/**
+ * Search with the structured query language (tag:, range:, after:, before:, pinned:,
+ * archived:, has:, "phrases" and -exclusions). See utils/searchQuery.ts for the syntax.
+ * 
+ * @param query - Query string typed by the user
+ * @param filters - Filter panel selections merged into the query
+ * @param limit - Maximum number of results
+ * @returns Matching entries and any filters that could not be understood
+ */
+export function searchEntriesByQuery(query: string, filters?: SearchFilters, limit: number = 500): SearchQueryResponse {
+  const parsed = applySearchFilters(parseSearchQuery(query), filters);
+  if (isEmptySearchQuery(parsed)) {
+    return { results: [], errors: parsed.errors };
+  }
+  return { results: runEntrySearch(parsed, false, limit), errors: parsed.errors };
+}
+
+/**
+ * Count the current matches of every saved search (live counts for smart collections).
+ * 
+ * @returns Match count keyed by saved search ID
+ */
+export function getSavedSearchCounts(): Record<number, number> {
+  const counts: Record<number, number> = {};
+  for (const search of getAllSavedSearches()) {
+    const parsed = applySearchFilters(parseSearchQuery(search.query), search.filters);
+    try {
+      counts[search.id!] = isEmptySearchQuery(parsed) ? 0 : countEntrySearch(parsed, false);
+    } catch (error) {
+      console.error(`[Database] Error counting saved search ${search.id}:`, error);
+      counts[search.id!] = 0;
+    }
+  }
+  return counts;
+}
+
+const TIME_RANGE_DEPTH: Record<TimeRange, number> = { millennium: 0, century: 1, decade: 2, year: 3, month: 4, week: 5, day: 6 };
+
+// January 1, 0001 (a Monday), the reference day of week and day period numbers
+const PERIOD_NUMBER_EPOCH_JDN = gregorianToJDN(1, 1, 1);
+
+/**
+ * First and last day (JDNs) of the Gregorian millennium/century/decade/year/month/week/day
+ * starting at or containing a day. Weeks are stored at their first day.
+ */
+function getGregorianPeriodJDNs(range: TimeRange, jdn: number): { startJDN: number; endJDN: number } {
+  const { year, month } = jdnToGregorian(jdn);
   switch (range) {
-    case 'decade':
-      const decadeStart = Math.floor(value / 10) * 10;
-      startDate = new Date(decadeStart, 0, 1);
-      endDate = new Date(decadeStart + 9, 11, 31);
-      canonicalDate = startDate;
-      break;
+    case 'millennium': {
+      const millenniumStart = Math.floor(year / 1000) * 1000;
+      return { startJDN: gregorianToJDN(millenniumStart, 1, 1), endJDN: gregorianToJDN(millenniumStart + 1000, 1, 1) - 1 };
+    }
+    case 'century': {
+      const centuryStart = Math.floor(year / 100) * 100;
+      return { startJDN: gregorianToJDN(centuryStart, 1, 1), endJDN: gregorianToJDN(centuryStart + 100, 1, 1) - 1 };
+    }
+    case 'decade': {
+      const decadeStart = Math.floor(year / 10) * 10;
+      return { startJDN: gregorianToJDN(decadeStart, 1, 1), endJDN: gregorianToJDN(decadeStart + 10, 1, 1) - 1 };
+    }
     case 'year':
-      startDate = new Date(value, 0, 1);
-      endDate = new Date(value, 11, 31);
-      canonicalDate = startDate;
-      break;
+      return { startJDN: gregorianToJDN(year, 1, 1), endJDN: gregorianToJDN(year + 1, 1, 1) - 1 };
     case 'month':
-      const year = Math.floor(value / 12);
-      const month = value % 12;
-      startDate = new Date(year, month, 1);
-      endDate = new Date(year, month + 1, 0);
-      canonicalDate = startDate;
-      break;
+      return {
+        startJDN: gregorianToJDN(year, month, 1),
+        endJDN: month === 12 ? gregorianToJDN(year + 1, 1, 1) - 1 : gregorianToJDN(year, month + 1, 1) - 1,
+      };
     case 'week':
-      // For week, value is week number since a reference Monday (Monday-based weeks)
-      // Use a reference Monday that works for all dates: January 1, 0001 was a Monday
-      // (in proleptic Gregorian calendar)
-      const referenceMonday = new Date(1, 0, 1); // January 1, 0001 (Monday)
-      const weekStart = new Date(referenceMonday);
-      weekStart.setDate(weekStart.getDate() + (value * 7));
-      startDate = new Date(weekStart);
-      endDate = new Date(weekStart);
-      endDate.setDate(endDate.getDate() + 6);
-      canonicalDate = startDate;
-      break;
-    case 'day':
-      // For day, value is day number since a reference date
-      // Use January 1, 0001 as reference (works for all dates in proleptic Gregorian calendar)
-      const referenceDay = new Date(1, 0, 1);
-      const dayDate = new Date(referenceDay);
-      dayDate.setDate(dayDate.getDate() + value);
-      startDate = dayDate;
-      endDate = new Date(dayDate);
-      canonicalDate = startDate;
-      break;
+      return { startJDN: jdn, endJDN: jdn + 6 };
     default:
-      startDate = new Date(0);
-      endDate = new Date();
-      canonicalDate = startDate;
+      return { startJDN: jdn, endJDN: jdn };
+  }
+}
+
+/**
+ * First and last day (JDNs) of an entry's period: up to the stored period_end for
+ * calendar-native periods, otherwise the Gregorian millennium/century/decade/year/month/week.
+ */
+function getEntryPeriodJDNs(entry: JournalEntry): { startJDN: number; endJDN: number } | null {
+  const startJDN = isoDateStringToJDN(entry.date);
+  if (startJDN === null) {
+    return null;
+  }
+  if (entry.periodEnd) {
+    const endJDN = isoDateStringToJDN(entry.periodEnd);
+    return endJDN === null ? null : { startJDN, endJDN };
+  }
+  return { startJDN, endJDN: getGregorianPeriodJDNs(entry.timeRange, startJDN).endJDN };
+}
+
+/**
+ * Match an entry against a viewed period when either side is calendar-native.
+ * Same-level entries match when their periods overlap, more specific entries when they
+ * start inside the period, and in day view every entry whose period contains the day.
+ */
+function matchesPeriod(entry: JournalEntry, range: TimeRange, startJDN: number, endJDN: number): boolean {
+  const entryPeriod = getEntryPeriodJDNs(entry);
+  if (!entryPeriod) {
+    return false;
   }
   
+  if (range === 'day') {
+    return entryPeriod.startJDN <= startJDN && entryPeriod.endJDN >= startJDN;
+  }
+  if (entry.timeRange === range) {
+    return entryPeriod.startJDN <= endJDN && entryPeriod.endJDN >= startJDN;
+  }
+  if (TIME_RANGE_DEPTH[entry.timeRange] > TIME_RANGE_DEPTH[range]) {
+    return entryPeriod.startJDN >= startJDN && entryPeriod.startJDN <= endJDN;
+  }
+  return false;
+}
+
+/**
+ * Get the entries for a time range period.
+ * Periods are resolved to JDNs, so this works for any year, including deep time.
+ * 
+ * @param range - Time range of the viewed period
+ * @param value - Gregorian period number (see getEntriesForRange in the renderer): the
+ *   millennium, century or decade index (year / 1000, / 100, / 10), the year,
+ *   year * 12 + month (0-11), or weeks/days since January 1, 0001
+ * @param period - Bounds of a calendar-native decade/year/month; replaces value when given
+ */
+export function getEntriesByRange(range: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day', value: number, period?: CalendarPeriod): JournalEntry[] {
+  let bounds: { startJDN: number; endJDN: number };
+  
+  if (period) {
+    const startJDN = isoDateStringToJDN(period.startDate);
+    const endJDN = isoDateStringToJDN(period.endDate);
+    if (startJDN === null || endJDN === null) {
+      return [];
+    }
+    bounds = { startJDN, endJDN };
+  } else {
+    switch (range) {
+      case 'millennium':
+        bounds = getGregorianPeriodJDNs('millennium', gregorianToJDN(value * 1000, 1, 1));
+        break;
+      case 'century':
+        bounds = getGregorianPeriodJDNs('century', gregorianToJDN(value * 100, 1, 1));
+        break;
+      case 'decade':
+        bounds = getGregorianPeriodJDNs('decade', gregorianToJDN(value * 10, 1, 1));
+        break;
+      case 'year':
+        bounds = getGregorianPeriodJDNs('year', gregorianToJDN(value, 1, 1));
+        break;
+      case 'month': {
+        const year = Math.floor(value / 12);
+        bounds = getGregorianPeriodJDNs('month', gregorianToJDN(year, value - year * 12 + 1, 1));
+        break;
+      }
+      case 'week':
+        bounds = getGregorianPeriodJDNs('week', PERIOD_NUMBER_EPOCH_JDN + value * 7);
+        break;
+      default:
+        bounds = getGregorianPeriodJDNs('day', PERIOD_NUMBER_EPOCH_JDN + value);
+    }
+  }
+  const { startJDN, endJDN } = bounds;
+  
   // Get all entries in the date range
-  const allEntries = getEntries(
-    formatDate(startDate),
-    formatDate(endDate)
-  );
+  const allEntries = getEntries(jdnToISODateString(startJDN), jdnToISODateString(endJDN));
   
   // Filter entries to show all relevant entries for this time range
   // Show entries at the current level AND entries at more specific levels within this range
   return allEntries.filter(entry => {
-    const entryDate = parseISODate(entry.date);
+    // Calendar-native periods don't line up with Gregorian ones - compare bounds instead
+    if (period || entry.periodEnd) {
+      return matchesPeriod(entry, range, startJDN, endJDN);
+    }
     
     // Always show entries at the current time range level
     if (entry.timeRange === range) {
       return true;
     }
     
-    // For day view: show all entries that contain this day
-    if (range === 'day') {
-      // Check if entry's time range contains this day
-      const dayDate = startDate;
-      if (entry.timeRange === 'day') {
-        return entry.date === formatDate(dayDate);
-      } else if (entry.timeRange === 'week') {
-        // Check if day is in the entry's week
-        const entryWeekStart = new Date(entryDate);
-        const dayOfWeek = entryWeekStart.getDay();
-        const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-        entryWeekStart.setDate(entryWeekStart.getDate() - daysToMonday);
-        const entryWeekEnd = new Date(entryWeekStart);
-        entryWeekEnd.setDate(entryWeekEnd.getDate() + 6);
-        return dayDate >= entryWeekStart && dayDate <= entryWeekEnd;
-      } else if (entry.timeRange === 'month') {
-        // Check if day is in the entry's month
-        return dayDate.getFullYear() === entryDate.getFullYear() && 
-               dayDate.getMonth() === entryDate.getMonth();
-      } else if (entry.timeRange === 'year') {
-        return dayDate.getFullYear() === entryDate.getFullYear();
-      } else if (entry.timeRange === 'decade') {
-        const decadeStart = Math.floor(entryDate.getFullYear() / 10) * 10;
-        const dayDecade = Math.floor(dayDate.getFullYear() / 10) * 10;
-        return decadeStart === dayDecade;
-      }
-    }
-    
-    // For week view: show week entries for this week, plus day entries within this week
-    if (range === 'week') {
-      if (entry.timeRange === 'day') {
-        return entryDate >= startDate && entryDate <= endDate;
-      } else if (entry.timeRange === 'week') {
-        return entry.date === formatDate(startDate);
-      }
-    }
-    
-    // For month view: show month entries for this month, plus week/day entries within this month
-    if (range === 'month') {
-      if (entry.timeRange === 'day' || entry.timeRange === 'week') {
-        return entryDate >= startDate && entryDate <= endDate;
-      } else if (entry.timeRange === 'month') {
-        return entry.date === formatDate(startDate);
-      }
+    const entryPeriod = getEntryPeriodJDNs(entry);
+    if (!entryPeriod) {
+      return false;
     }
     
-    // For year view: show year entries for this year, plus month/week/day entries within this year
-    if (range === 'year') {
-      if (entry.timeRange === 'day' || entry.timeRange === 'week' || entry.timeRange === 'month') {
-        return entryDate >= startDate && entryDate <= endDate;
-      } else if (entry.timeRange === 'year') {
-        return entry.date === formatDate(startDate);
-      }
-    }
-    
-    // For decade view: show all entries within the decade
-    if (range === 'decade') {
-      return entryDate >= startDate && entryDate <= endDate;
+    // For day view: show all entries whose period contains this day
+    if (range === 'day') {
+      return entryPeriod.startJDN <= startJDN && entryPeriod.endJDN >= startJDN;
     }
     
-    return false;
+    // For other views: show more specific entries within the period
+    return TIME_RANGE_DEPTH[entry.timeRange] > TIME_RANGE_DEPTH[range] &&
+           entryPeriod.startJDN >= startJDN && entryPeriod.startJDN <= endJDN;
   });
 }
 
 // Preferences functions
 // Preferences interface - exported for use in other modules
 export interface Preferences {
-  defaultViewMode?: 'decade' | 'year' | 'month' | 'week' | 'day';
+  defaultViewMode?: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day';
   windowWidth?: number;
   windowHeight?: number;
   windowX?: number;
@@ -1924,7 +3141,7 @@ export interface Preferences {
   minimapSize?: 'xxxSmall' | 'xxSmall' | 'xSmall' | 'small' | 'medium' | 'large' | 'xLarge' | 'xxLarge' | 'xxxLarge';
   restoreLastView?: boolean;
   lastViewedDate?: string;
-  lastViewedMode?: 'decade' | 'year' | 'month' | 'week' | 'day';
+  lastViewedMode?: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day';
   defaultCalendar?: string; // Calendar system (e.g., 'gregorian', 'islamic', 'hebrew') - deprecated, use 'calendar' instead
   calendar?: string; // Calendar system (e.g., 'gregorian', 'islamic', 'hebrew') - syncs with active profile
   showMultipleCalendars?: boolean; // Show date in multiple calendars simultaneously
@@ -1940,11 +3157,24 @@ export interface Preferences {
   hardwareAcceleration?: boolean; // Whether hardware acceleration is enabled (requires app restart to take effect)
   showSolsticesEquinoxes?: boolean; // Whether to display solstices and equinoxes in the calendar
   showMoonPhases?: boolean; // Whether to display moon phases in the calendar
+  showHolidays?: boolean; // Whether to display religious and cultural holidays in the calendar
+  islamicCalendarVariant?: 'tabular' | 'umm-al-qura' | 'crescent'; // Islamic calendar reckoning: arithmetic, Saudi official, or crescent sighting
+  islamicObserverRegion?: 'mecca' | 'cairo' | 'rabat' | 'istanbul' | 'tehran' | 'karachi' | 'jakarta' | 'london' | 'new-york'; // Where the crescent is sighted for the crescent visibility reckoning
   showChineseSexagenaryCycle?: boolean; // Whether to display Chinese 60-year sexagenary cycle indicators
   showMayanLongCountCycles?: boolean; // Whether to display Mayan Long Count cycle indicators (Baktun/Katun)
   showMetonicCycle?: boolean; // Whether to display Metonic cycle indicators (Hebrew 19-year cycle)
   showMayanCalendarRound?: boolean; // Whether to display Mayan Calendar Round indicators (52-year cycle)
   showHinduYugaCycles?: boolean; // Whether to display Hindu Yuga cycle indicators
+  autoBackupEnabled?: boolean; // Whether the database is backed up on a schedule
+  autoBackupIntervalHours?: number; // Hours between automatic backups
+  autoBackupDirectory?: string; // Folder automatic backups are written to (empty for the default folder)
+  autoBackupKeepCount?: number; // Number of automatic backups kept before the oldest are deleted
+  autoBackupIncludeAttachments?: boolean; // Whether automatic backups also archive attachment files
+  backupStatus?: BackupStatus; // Outcome of the most recent backup (written by the main process)
+  versionHistoryLimit?: number; // Versions kept per entry (0 keeps all)
+  versionHistoryMaxAgeDays?: number; // Versions older than this are deleted (0 keeps all)
+  editorMarkdownMode?: 'write' | 'split' | 'preview'; // Markdown preview shown next to the entry editor
+  trashRetentionDays?: number; // Days deleted entries stay in the trash (0 keeps them until it is emptied)
 }
 
 const DEFAULT_PREFERENCES: Preferences = {
@@ -1965,6 +3195,17 @@ const DEFAULT_PREFERENCES: Preferences = {
   enableProceduralArt: true,
   soundEffectsEnabled: true,
   hardwareAcceleration: true, // Default to enabled for better performance
+  autoBackupEnabled: false,
+  autoBackupIntervalHours: 24,
+  autoBackupKeepCount: 7,
+  autoBackupIncludeAttachments: false,
+  versionHistoryLimit: 50,
+  versionHistoryMaxAgeDays: 0,
+  editorMarkdownMode: 'write',
+  trashRetentionDays: 30,
+  showHolidays: false,
+  islamicCalendarVariant: 'tabular',
+  islamicObserverRegion: 'mecca',
 };
 
 export function getPreference<K extends keyof Preferences>(key: K): Preferences[K] {
@@ -2059,6 +3300,10 @@ export function setPreference<K extends keyof Preferences>(key: K, value: Prefer
 }
 
 export function getAllPreferences(): Preferences {
+  // No profile open yet (e.g. the current profile is encrypted and still locked)
+  if (!db) {
+    return { ...DEFAULT_PREFERENCES };
+  }
   const database = getDatabase();
   const stmt = database.prepare('SELECT key, value FROM preferences');
   const rows = stmt.all() as PreferenceRow[];
@@ -2168,11 +3413,17 @@ export function closeDatabase(): void {
     try {
       // CRITICAL: Flush all pending writes to disk before closing
       console.log('[Database] Flushing database to disk before close...');
-      try {
-        db.exec('PRAGMA wal_checkpoint(FULL)');
-        console.log('[Database] ✅ Final WAL checkpoint completed - all data flushed to disk');
-      } catch (checkpointError) {
-        console.warn('[Database] ⚠️ Final checkpoint warning (non-critical):', checkpointError);
+      stopEncryptedPersistTimer();
+      if (encryptionKey) {
+        persistEncryptedDatabase();
+        console.log('[Database] ✅ Encrypted database written to disk');
+      } else {
+        try {
+          db.exec('PRAGMA wal_checkpoint(FULL)');
+          console.log('[Database] ✅ Final WAL checkpoint completed - all data flushed to disk');
+        } catch (checkpointError) {
+          console.warn('[Database] ⚠️ Final checkpoint warning (non-critical):', checkpointError);
+        }
       }
       
       db.close();
@@ -2181,6 +3432,7 @@ export function closeDatabase(): void {
       console.error('[Database] ❌ Error closing database:', error);
     } finally {
       db = null;
+      encryptionKey = null;
     }
   }
 }
@@ -14,6 +14,11 @@ import {
   isValidEntryId,
   validateJournalEntry,
   validateExportMetadata,
+  validateSearchFilters,
+  validateCalendarPeriod,
+  validateSavedSearch,
+  validateTemplate,
+  validateBulkEntryOperation,
 } from './utils/inputValidation';
 
 interface ThemeColors {
@@ -56,9 +61,13 @@ import {
   getEntryById,
   getEntriesByDateAndRange,
   saveEntry,
-  deleteEntry,
-  deleteEntryByDateAndRange,
+  trashEntry,
+  trashEntriesByDateAndRange,
+  restoreEntry,
+  getTrashedEntries,
   searchEntries,
+  searchEntriesFullText,
+  searchEntriesByQuery,
   getEntriesByRange,
   getAllEntries,
   getEntryCount,
@@ -67,20 +76,27 @@ import {
   getAllPreferences,
   resetPreferences,
   Preferences,
-  parseISODate,
   getDatabasePath,
   getEntryVersions,
+  restoreEntryVersion,
+  pruneEntryVersions,
+  getEntryLinks,
   archiveEntry,
   unarchiveEntry,
   getArchivedEntries,
+  getAttachmentReferences,
   pinEntry,
   unpinEntry,
   getPinnedEntries,
+  getEntriesByIds,
+  applyBulkEntryOperation,
   flushDatabase,
   getCurrentProfile,
   switchProfile,
   getDatabase,
   closeDatabase,
+  runWithProfileDatabaseClosed,
+  backupDatabaseTo,
 } from './database';
 import {
   getAllProfiles,
@@ -100,14 +116,54 @@ import {
   profileHasPassword,
   profileHasRecoveryKey,
   getCachedPassword,
+  ensureProfileEncrypted,
+  isProfileEncrypted,
+  readProfileFileDecrypted,
+  writeDecryptedAttachmentCopy,
+  createProfileFromDatabase,
+  getAvailableProfileName,
   type Profile,
 } from './profile-manager';
-import { EntryVersion } from './types';
-import { JournalEntry, TimeRange, ExportFormat, EntryAttachment, ExportMetadata } from './types';
+import { isEncryptedFile } from './utils/encryptionUtils';
+import { getAttachmentThumbnail } from './attachment-thumbnails';
+import { storeAttachmentFile, releaseAttachmentFiles, checkAttachments } from './attachment-store';
+import { purgeTrashedEntries, emptyTrash } from './trash';
+import { EntryVersion, ThumbnailSize } from './types';
+import { JournalEntry, TimeRange, ExportFormat, ImportFormat, EntryAttachment, ExportMetadata, BulkEntryOperation } from './types';
+import { formatAsICalendar, parseICalendarComponents } from './utils/icalendar';
+import { BUNDLE_MANIFEST_NAME, createBundleManifest, parseBundleManifest, remapLinkedEntries, remapAttachmentEmbeds } from './utils/bundle';
+import { readZipFile, ZipEntry } from './utils/zipReader';
+import { parseISODateParts } from './utils/isoDate';
+import { shiftMarkdownHeadings } from './utils/markdown';
+import { markdownToRtf, escapeRtf } from './utils/markdownRtf';
+import { writeMarkdownToPdf } from './utils/markdownPdf';
+import {
+  ImportedEntry,
+  ImportFileReader,
+  parseDayOneExport,
+  parseJourneyEntry,
+  parseObsidianDailyNote,
+  isDailyNoteFileName,
+} from './utils/journalImporters';
 import { EntryTemplate, getAllTemplates, getTemplate, saveTemplate, deleteTemplate } from './database';
+import { getAllSavedSearches, getSavedSearch, saveSavedSearch, deleteSavedSearch, getSavedSearchCounts } from './database';
+import { SavedSearch, SearchFilters, CalendarPeriod } from './types';
+import { ImportDecision, ImportPreviewItem, ImportConflictResolution } from './types';
+import { buildImportPreview, getDefaultResolution } from './utils/importDedup';
+import {
+  PROFILE_ARCHIVE_METADATA_NAME,
+  ProfileArchiveMetadata,
+  parseProfileArchiveMetadata,
+  locateProfileArchiveFiles,
+  isUnsafeArchivePath,
+  parseSevenZipListing,
+} from './utils/profileArchive';
+import { checkBackupSchedule, getAutoBackupDirectory, recordBackupStatus, runBackupNow } from './backup-scheduler';
 
 let mainWindowRef: Electron.BrowserWindow | null = null;
 let profileSelectorWindowRef: Electron.BrowserWindow | null = null;
+// Archive chosen with select-profile-archive, waiting for import-profile-archive
+let pendingProfileArchivePath: string | null = null;
 let preferencesWindowRef: Electron.BrowserWindow | null = null;
 let menuUpdateCallback: (() => void) | null = null;
 
@@ -394,9 +450,16 @@ export function setMenuUpdateCallback(callback: (() => void) | null) {
 
 let importProgressWindowRef: Electron.BrowserWindow | null = null;
 let createImportProgressWindowCallback: (() => Electron.BrowserWindow) | null = null;
+// Preview waiting for the user's decision in the import progress window
+let pendingImportPreview: { items: ImportPreviewItem[]; resolve: (decision: ImportDecision | null) => void } | null = null;
 
 export function setImportProgressWindow(window: Electron.BrowserWindow | null) {
   importProgressWindowRef = window;
+  // Closing the window while a preview is open cancels the import
+  if (!window && pendingImportPreview) {
+    pendingImportPreview.resolve(null);
+    pendingImportPreview = null;
+  }
 }
 
 export function setCreateImportProgressWindowCallback(callback: (() => Electron.BrowserWindow) | null) {
@@ -446,6 +509,29 @@ export function setupIpcHandlers() {
     return getEntryVersions(entryId);
   });
 
+  ipcMain.handle('get-entry-links', async (_event, entryId: number) => {
+    // Validate input
+    if (!isValidEntryId(entryId)) {
+      return { outgoing: [], incoming: [] };
+    }
+    return getEntryLinks(entryId);
+  });
+
+  ipcMain.handle('restore-entry-version', async (_event, versionId: number) => {
+    // Validate input
+    if (!isValidEntryId(versionId)) {
+      return { success: false, error: 'Invalid version ID' };
+    }
+    try {
+      const entry = restoreEntryVersion(versionId);
+      flushDatabase();
+      return { success: true, entry };
+    } catch (error) {
+      console.error('[IPC] Error restoring entry version:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to restore version' };
+    }
+  });
+
   ipcMain.handle('archive-entry', async (_event, id: number) => {
     // Validate input
     if (!isValidEntryId(id)) {
@@ -468,6 +554,35 @@ export function setupIpcHandlers() {
     return getArchivedEntries();
   });
 
+  ipcMain.handle('get-trashed-entries', async () => {
+    return getTrashedEntries();
+  });
+
+  ipcMain.handle('restore-entry', async (_event, id: number) => {
+    // Validate input
+    if (!isValidEntryId(id)) {
+      return { success: false, error: 'Invalid entry ID' };
+    }
+    restoreEntry(id);
+    flushDatabase();
+    return { success: true };
+  });
+
+  /**
+   * Permanently delete entries from the trash (entries not in the trash are left alone).
+   */
+  ipcMain.handle('purge-trashed-entries', async (_event, ids: number[]) => {
+    // Validate input
+    if (!Array.isArray(ids) || !ids.every(isValidEntryId)) {
+      return { success: false, error: 'Invalid entry ID' };
+    }
+    return { success: true, deleted: purgeTrashedEntries(ids) };
+  });
+
+  ipcMain.handle('empty-trash', async () => {
+    return { success: true, deleted: emptyTrash() };
+  });
+
   ipcMain.handle('pin-entry', async (_event, id: number) => {
     // Validate input
     if (!isValidEntryId(id)) {
@@ -490,6 +605,28 @@ export function setupIpcHandlers() {
     return getPinnedEntries();
   });
 
+  /**
+   * Apply one change (tags, archive, pin, move, trash) to many entries in a single transaction.
+   */
+  ipcMain.handle('bulk-update-entries', async (_event, ids: number[], operation: BulkEntryOperation) => {
+    // Validate input
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(isValidEntryId)) {
+      return { success: false, error: 'Invalid entry ID' };
+    }
+    const validation = validateBulkEntryOperation(operation);
+    if (!validation.valid) {
+      return { success: false, error: validation.error };
+    }
+    try {
+      const updated = applyBulkEntryOperation(ids, operation);
+      flushDatabase();
+      return { success: true, updated };
+    } catch (error) {
+      console.error('[IPC] Error applying bulk operation:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update entries' };
+    }
+  });
+
   ipcMain.handle('get-all-templates', async () => {
     return getAllTemplates();
   });
@@ -499,15 +636,54 @@ export function setupIpcHandlers() {
   });
 
   ipcMain.handle('save-template', async (_event, template: EntryTemplate) => {
-    saveTemplate(template);
+    const validation = validateTemplate(template);
+    if (!validation.valid) {
+      return { success: false, error: validation.error };
+    }
+    saveTemplate({ ...template, name: template.name.trim() });
     return { success: true };
   });
 
   ipcMain.handle('delete-template', async (_event, id: number) => {
+    if (!isValidEntryId(id)) {
+      return { success: false, error: 'Invalid template ID' };
+    }
     deleteTemplate(id);
     return { success: true };
   });
 
+  ipcMain.handle('get-all-saved-searches', async () => {
+    return getAllSavedSearches();
+  });
+
+  ipcMain.handle('get-saved-search', async (_event, id: number) => {
+    if (!isValidEntryId(id)) {
+      return null;
+    }
+    return getSavedSearch(id);
+  });
+
+  ipcMain.handle('save-saved-search', async (_event, search: SavedSearch) => {
+    const validation = validateSavedSearch(search);
+    if (!validation.valid) {
+      return { success: false, error: validation.error };
+    }
+    const saved = saveSavedSearch({ ...search, name: search.name.trim() });
+    return { success: true, search: saved };
+  });
+
+  ipcMain.handle('delete-saved-search', async (_event, id: number) => {
+    if (!isValidEntryId(id)) {
+      return { success: false, error: 'Invalid saved search ID' };
+    }
+    deleteSavedSearch(id);
+    return { success: true };
+  });
+
+  ipcMain.handle('get-saved-search-counts', async () => {
+    return getSavedSearchCounts();
+  });
+
   /**
    * Add an attachment to an entry.
    * Copies the file to the attachments directory and updates the entry.
@@ -526,7 +702,8 @@ export function setupIpcHandlers() {
       properties: ['openFile'],
       filters: [
         { name: 'All Files', extensions: ['*'] },
-        { name: 'Images', extensions: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg'] },
+        { name: 'Images', extensions: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp'] },
+        { name: 'Audio and Video', extensions: ['mp4', 'mov', 'webm', 'mp3', 'm4a', 'wav'] },
         { name: 'Documents', extensions: ['pdf', 'doc', 'docx', 'txt', 'md'] },
       ],
     });
@@ -544,53 +721,30 @@ export function setupIpcHandlers() {
     }
 
     try {
-      // Create attachments directory in user data
-      const userDataPath = app.getPath('userData');
-      const attachmentsDir = path.join(userDataPath, 'attachments');
-      if (!fs.existsSync(attachmentsDir)) {
-        fs.mkdirSync(attachmentsDir, { recursive: true });
-      }
-
-      // Generate unique filename with sanitization
-      const fileExt = path.extname(sourcePath);
       const fileName = path.basename(sourcePath);
-      const sanitizedFileName = sanitizeFileName(fileName);
-      if (!sanitizedFileName) {
+      if (!sanitizeFileName(fileName)) {
         return {
           success: false,
           error: 'invalid_filename',
           message: 'Invalid filename provided',
         };
       }
-      
-      const uniqueId = `${Date.now()}-${Math.random().toString(36).substring(7)}`;
-      const destFileName = `${entryId}-${uniqueId}${fileExt}`;
-      const destPath = safePathJoin(attachmentsDir, destFileName);
-      
-      if (!destPath || !validatePath(destPath, attachmentsDir)) {
+
+      const attachment = storeAttachmentFile(fileName, sourcePath);
+      if (!attachment) {
         return {
           success: false,
           error: 'invalid_path',
           message: 'Invalid file path detected',
         };
       }
-
-      // Copy file
-      fs.copyFileSync(sourcePath, destPath);
-      const stats = fs.statSync(destPath);
-
-      // Get MIME type
-      const mimeType = getMimeType(fileExt);
-
-      // Create attachment metadata
-      const attachment: EntryAttachment = {
-        id: uniqueId,
-        fileName: fileName,
-        filePath: destPath,
-        fileSize: stats.size,
-        mimeType: mimeType,
-        createdAt: new Date().toISOString(),
-      };
+      if ((entry.attachments || []).some((a: EntryAttachment) => a.filePath === attachment.filePath)) {
+        return {
+          success: false,
+          error: 'already_attached',
+          message: 'This file is already attached to the entry',
+        };
+      }
 
       // Add to entry
       const attachments = entry.attachments || [];
@@ -644,7 +798,7 @@ export function setupIpcHandlers() {
         return { success: false, error: 'attachment_not_found', message: 'Attachment not found' };
       }
 
-      // Validate and delete file
+      // Validate path
       const userDataPath = app.getPath('userData');
       const attachmentsDir = path.join(userDataPath, 'attachments');
       
@@ -656,13 +810,10 @@ export function setupIpcHandlers() {
         };
       }
       
-      if (fs.existsSync(attachment.filePath)) {
-        fs.unlinkSync(attachment.filePath);
-      }
-
-      // Remove from entry
+      // Remove from entry, then delete the file unless another entry shares it
       entry.attachments = attachments.filter((a: EntryAttachment) => a.id !== attachmentId);
       saveEntry(entry);
+      releaseAttachmentFiles([attachment]);
 
       return { success: true };
     } catch (error: unknown) {
@@ -681,42 +832,54 @@ export function setupIpcHandlers() {
    * Validates the path to prevent path traversal attacks.
    */
   ipcMain.handle('get-attachment-path', async (_event, entryId: number, attachmentId: string) => {
-    // Validate input
-    if (!isValidEntryId(entryId)) {
-      return { success: false, error: 'invalid_entry_id' };
-    }
-    if (typeof attachmentId !== 'string' || attachmentId.trim() === '') {
-      return { success: false, error: 'invalid_attachment_id' };
-    }
-    const { getEntryById } = require('./database');
-    const entry = getEntryById(entryId);
+    return getAttachmentOpenPath(entryId, attachmentId);
+  });
 
-    if (!entry || !entry.attachments) {
-      return { success: false, error: 'not_found' };
+  /**
+   * Open an attachment with the system's default app.
+   */
+  ipcMain.handle('open-entry-attachment', async (_event, entryId: number, attachmentId: string) => {
+    const result = getAttachmentOpenPath(entryId, attachmentId);
+    if (!result.success || !result.path) {
+      return result;
     }
+    const error = await shell.openPath(result.path);
+    return error ? { success: false, error: 'open_failed', message: error } : { success: true };
+  });
 
-    const attachment = entry.attachments.find((a: EntryAttachment) => a.id === attachmentId);
+  /**
+   * Get a thumbnail of an image attachment as a data URL.
+   * Non-image attachments return success with no data URL.
+   */
+  ipcMain.handle('get-attachment-thumbnail', async (_event, entryId: number, attachmentId: string, size: ThumbnailSize) => {
+    const { attachment, error } = findEntryAttachment(entryId, attachmentId);
     if (!attachment) {
-      return { success: false, error: 'not_found' };
+      return { success: false, error };
     }
+    try {
+      const dataUrl = getAttachmentThumbnail(attachment, size === 'large' ? 'large' : 'small');
+      return { success: true, dataUrl: dataUrl || undefined };
+    } catch (err) {
+      console.error('[IPC] Error creating attachment thumbnail:', err);
+      return { success: false, error: 'thumbnail_failed' };
+    }
+  });
 
-    // Validate attachment path to prevent path traversal
-    const userDataPath = app.getPath('userData');
-    const attachmentsDir = path.join(userDataPath, 'attachments');
-    
-    if (!validatePath(attachment.filePath, attachmentsDir)) {
+  /**
+   * Check the current profile's attachment files for missing, corrupted and orphaned files,
+   * repairing what can be repaired when asked to.
+   */
+  ipcMain.handle('check-attachments', async (_event, repair: boolean) => {
+    try {
+      return { success: true, report: checkAttachments(repair === true) };
+    } catch (error: unknown) {
+      console.error('[IPC] Error checking attachments:', error);
       return {
         success: false,
-        error: 'invalid_path',
-        message: 'Invalid attachment path detected',
+        error: 'check_failed',
+        message: error instanceof Error ? error.message : 'Failed to check attachments',
       };
     }
-
-    if (!fs.existsSync(attachment.filePath)) {
-      return { success: false, error: 'not_found' };
-    }
-
-    return { success: true, path: attachment.filePath };
   });
 
   ipcMain.handle('get-entries-by-date-range', async (_event, date: string, timeRange: TimeRange) => {
@@ -822,7 +985,7 @@ export function setupIpcHandlers() {
     if (!isValidEntryId(id)) {
       throw new Error('Invalid entry ID');
     }
-    deleteEntry(id);
+    trashEntry(id);
   });
 
   ipcMain.handle('delete-entry-by-date-range', async (_event, date: string, timeRange: TimeRange) => {
@@ -833,14 +996,41 @@ export function setupIpcHandlers() {
     if (!isValidTimeRange(timeRange)) {
       throw new Error('Invalid time range');
     }
-    deleteEntryByDateAndRange(date, timeRange);
+    trashEntriesByDateAndRange(date, timeRange);
   });
 
   ipcMain.handle('search-entries', async (_event, query: string) => {
     return searchEntries(query);
   });
 
-  ipcMain.handle('get-entries-by-range', async (_event, range: TimeRange, value: number) => {
+  /**
+   * Ranked full-text search (FTS5) with highlighted snippets.
+   */
+  ipcMain.handle('search-entries-full-text', async (_event, query: string, includeArchived: boolean = false) => {
+    // Validate input
+    if (typeof query !== 'string' || query.trim() === '') {
+      return [];
+    }
+    return searchEntriesFullText(query, includeArchived === true);
+  });
+
+  /**
+   * Structured query search (tag:, range:, after:, before:, pinned:, has:, "phrase", -excluded).
+   * Parsed and compiled to SQL in the main process.
+   */
+  ipcMain.handle('search-entries-by-query', async (_event, query: string, filters?: SearchFilters) => {
+    // Validate input
+    if (typeof query !== 'string') {
+      return { results: [], errors: [] };
+    }
+    const filtersValidation = validateSearchFilters(filters);
+    if (!filtersValidation.valid) {
+      return { results: [], errors: [filtersValidation.error!] };
+    }
+    return searchEntriesByQuery(query, filters);
+  });
+
+  ipcMain.handle('get-entries-by-range', async (_event, range: TimeRange, value: number, period?: CalendarPeriod) => {
     // Validate input
     if (!isValidTimeRange(range)) {
       return [];
@@ -848,15 +1038,19 @@ export function setupIpcHandlers() {
     if (typeof value !== 'number' || !Number.isFinite(value)) {
       return [];
     }
-    return getEntriesByRange(range, value);
+    if (!validateCalendarPeriod(period).valid) {
+      return [];
+    }
+    return getEntriesByRange(range, value, period || undefined);
   });
 
   /**
-   * Export all journal entries to a user-selected document file.
-   * The renderer passes an export format and optional metadata; this handler opens a save dialog,
+   * Export journal entries to a user-selected document file.
+   * The renderer passes an export format, optional metadata and optionally the IDs of the
+   * entries to export (all entries otherwise); this handler opens a save dialog,
    * formats the content with metadata, and writes it to disk.
    */
-  ipcMain.handle('export-entries', async (_event, format: ExportFormat, metadata?: ExportMetadata) => {
+  ipcMain.handle('export-entries', async (_event, format: ExportFormat, metadata?: ExportMetadata, entryIds?: number[]) => {
     // Validate input
     if (!isValidExportFormat(format)) {
       return {
@@ -880,7 +1074,11 @@ export function setupIpcHandlers() {
       }
     }
     
-    const entries = getAllEntries();
+    if (entryIds !== undefined && (!Array.isArray(entryIds) || !entryIds.every(isValidEntryId))) {
+      return { success: false, canceled: false, error: 'invalid_entries', message: 'Invalid entry ID' };
+    }
+
+    const entries = entryIds ? getEntriesByIds(entryIds) : getAllEntries();
     console.log('[Export] Retrieved entries for export:', entries.length);
     if (entries.length > 0) {
       console.log('[Export] First entry time values:', {
@@ -921,6 +1119,10 @@ export function setupIpcHandlers() {
         ? [{ name: 'PDF', extensions: ['pdf'] }]
         : format === 'csv'
         ? [{ name: 'CSV', extensions: ['csv'] }]
+        : format === 'ics'
+        ? [{ name: 'iCalendar', extensions: ['ics'] }]
+        : format === 'bundle'
+        ? [{ name: 'CalenRecall Bundle', extensions: ['zip'] }]
         : [{ name: 'Decades Export', extensions: ['dec'] }];
 
     const { canceled, filePath } = await dialog.showSaveDialog({
@@ -948,6 +1150,8 @@ export function setupIpcHandlers() {
 
       if (format === 'pdf') {
         await exportEntriesAsPdf(entries, filePath, finalMetadata);
+      } else if (format === 'bundle') {
+        await exportEntriesAsBundle(entryIds ? entries : getAllEntries(true), filePath, finalMetadata);
       } else {
         const content = formatExportContent(entries, format, finalMetadata);
         fs.writeFileSync(filePath, content, { encoding: 'utf-8' });
@@ -1115,6 +1319,10 @@ export function setupIpcHandlers() {
           ? [{ name: 'PDF', extensions: ['pdf'] }]
           : format === 'csv'
           ? [{ name: 'CSV', extensions: ['csv'] }]
+          : format === 'ics'
+          ? [{ name: 'iCalendar', extensions: ['ics'] }]
+          : format === 'bundle'
+          ? [{ name: 'CalenRecall Bundle', extensions: ['zip'] }]
           : [{ name: 'Decades Export', extensions: ['dec'] }];
 
       const { canceled, filePath } = await dialog.showSaveDialog({
@@ -1141,6 +1349,8 @@ export function setupIpcHandlers() {
 
       if (format === 'pdf') {
         await exportEntriesAsPdf(entries, filePath, finalMetadata);
+      } else if (format === 'bundle') {
+        await exportEntriesAsBundle(getAllEntries(true), filePath, finalMetadata);
       } else {
         const content = formatExportContent(entries, format, finalMetadata);
         fs.writeFileSync(filePath, content, { encoding: 'utf-8' });
@@ -1217,6 +1427,15 @@ export function setupIpcHandlers() {
     try {
       setPreference(key, value);
       console.log('[IPC] ✅ Preference saved successfully:', key);
+
+      if (key === 'versionHistoryLimit' || key === 'versionHistoryMaxAgeDays') {
+        pruneEntryVersions();
+      }
+
+      // Turning automatic backups on (or shortening the interval) may make one due now
+      if (key === 'autoBackupEnabled' || key === 'autoBackupIntervalHours') {
+        checkBackupSchedule().catch(error => console.error('[IPC] Backup check failed:', error));
+      }
       
       // For calendar preference, verify it was saved correctly
       if (key === 'calendar') {
@@ -1243,8 +1462,8 @@ export function setupIpcHandlers() {
     // This allows the main window to update immediately without waiting for window events
     // Use type assertion to check string keys since TypeScript can't narrow keyof types
     const keyStr = key as string;
-    // Send notification for theme, fontSize, minimapCrystalUseDefaultColors, backgroundImage, minimapSize, showMinimap, weekStartsOn, soundEffectsEnabled, and calendar
-    if (keyStr === 'theme' || keyStr === 'fontSize' || keyStr === 'minimapCrystalUseDefaultColors' || keyStr === 'backgroundImage' || keyStr === 'minimapSize' || keyStr === 'showMinimap' || keyStr === 'weekStartsOn' || keyStr === 'soundEffectsEnabled' || keyStr === 'calendar') {
+    // Send notification for theme, fontSize, minimapCrystalUseDefaultColors, backgroundImage, minimapSize, showMinimap, weekStartsOn, soundEffectsEnabled, calendar, islamicCalendarVariant, and islamicObserverRegion
+    if (keyStr === 'theme' || keyStr === 'fontSize' || keyStr === 'minimapCrystalUseDefaultColors' || keyStr === 'backgroundImage' || keyStr === 'minimapSize' || keyStr === 'showMinimap' || keyStr === 'weekStartsOn' || keyStr === 'soundEffectsEnabled' || keyStr === 'calendar' || keyStr === 'islamicCalendarVariant' || keyStr === 'islamicObserverRegion') {
       console.log('[IPC] Preference', keyStr, 'is in notification list, will send to main window');
       const senderWindow = BrowserWindow.fromWebContents(event.sender);
       
@@ -1589,6 +1808,8 @@ export function setupIpcHandlers() {
     total?: number;
     imported?: number;
     skipped?: number;
+    overwritten?: number;
+    preview?: ImportPreviewItem[];
   }) {
     // Send to progress window if it exists
     if (importProgressWindowRef && !importProgressWindowRef.isDestroyed()) {
@@ -1600,24 +1821,79 @@ export function setupIpcHandlers() {
     }
   }
 
+  /**
+   * Ask the user to confirm an import in the progress window.
+   * Resolves with the per-entry resolutions, or null when the import is canceled.
+   * Without a progress window there is nobody to ask, so duplicates are skipped.
+   */
+  function requestImportDecision(items: ImportPreviewItem[]): Promise<ImportDecision | null> {
+    if (!importProgressWindowRef || importProgressWindowRef.isDestroyed()) {
+      return Promise.resolve({ resolutions: {} });
+    }
+    if (pendingImportPreview) {
+      pendingImportPreview.resolve(null);
+    }
+    return new Promise(resolve => {
+      pendingImportPreview = { items, resolve };
+    });
+  }
+
+  /**
+   * Get the preview of the import waiting for confirmation (if any).
+   * The progress window asks for it on load in case it missed the 'preview' progress update.
+   */
+  ipcMain.handle('get-import-preview', async () => {
+    return pendingImportPreview ? pendingImportPreview.items : null;
+  });
+
+  /**
+   * Confirm (or cancel, with null) the import waiting for confirmation
+   */
+  ipcMain.handle('resolve-import-preview', async (event, decision: ImportDecision | null) => {
+    if (!pendingImportPreview) {
+      return { success: false, error: 'no_pending_import' };
+    }
+    const { resolve } = pendingImportPreview;
+    pendingImportPreview = null;
+    resolve(decision && typeof decision.resolutions === 'object' && decision.resolutions !== null ? decision : null);
+    return { success: true };
+  });
+
   /**
    * Import journal entries from a file.
-   * Supports JSON and Markdown formats.
+   * Supports JSON, Markdown and iCalendar (.ics) files, CalenRecall bundles, Day One and
+   * Journey exports (attachments and photos are restored) and folders of Obsidian daily notes.
+   * Links between imported entries are pointed at the newly created entries.
    * Runs asynchronously and sends progress updates to a separate progress window.
+   * Before anything is saved, the parsed entries are shown as a preview with likely
+   * duplicates (same date, time range and text) flagged; each duplicate can be skipped,
+   * overwrite the stored entry, or be kept as a second entry.
    */
-  ipcMain.handle('import-entries', async (event, format: 'json' | 'markdown') => {
+  ipcMain.handle('import-entries', async (event, format: ImportFormat) => {
     // Get current profile information for user feedback
     const currentProfile = getCurrentProfile();
     const profileName = currentProfile?.name || 'current profile';
     
-    const { canceled, filePaths } = await dialog.showOpenDialog({
-      title: 'Import Entries',
-      filters:
-        format === 'json'
-          ? [{ name: 'JSON', extensions: ['json'] }]
-          : [{ name: 'Markdown', extensions: ['md', 'markdown'] }],
-      properties: ['openFile'],
-    });
+    const { canceled, filePaths } = await dialog.showOpenDialog(
+      format === 'obsidian'
+        ? { title: 'Select Obsidian Daily Notes Folder', properties: ['openDirectory'] }
+        : {
+            title: 'Import Entries',
+            filters:
+              format === 'json'
+                ? [{ name: 'JSON', extensions: ['json'] }]
+                : format === 'ics'
+                ? [{ name: 'iCalendar', extensions: ['ics', 'ical', 'ifb', 'icalendar'] }]
+                : format === 'dayone'
+                ? [{ name: 'Day One Export', extensions: ['zip', 'json'] }]
+                : format === 'journey'
+                ? [{ name: 'Journey Export', extensions: ['zip'] }]
+                : format === 'bundle'
+                ? [{ name: 'CalenRecall Bundle', extensions: ['zip'] }]
+                : [{ name: 'Markdown', extensions: ['md', 'markdown'] }],
+            properties: ['openFile'],
+          }
+    );
 
     if (canceled || !filePaths || filePaths.length === 0) {
       return { success: false, canceled: true };
@@ -1646,11 +1922,9 @@ export function setupIpcHandlers() {
           sendImportProgress({ 
             stage: 'reading', 
             progress: 0, 
-            message: `Reading file for profile: ${profileName}...` 
+            message: `Reading ${format === 'obsidian' ? 'folder' : 'file'} for profile: ${profileName}...` 
           });
           
-          const content = fs.readFileSync(filePath, { encoding: 'utf-8' });
-          
           // Send progress: Parsing content
           sendImportProgress({ 
             stage: 'parsing', 
@@ -1658,7 +1932,7 @@ export function setupIpcHandlers() {
             message: `Parsing entries for profile: ${profileName}...` 
           });
           
-          const entries = parseImportContent(content, format);
+          const entries = loadImportSource(filePath, format);
 
           if (entries.length === 0) {
             sendImportProgress({
@@ -1670,6 +1944,32 @@ export function setupIpcHandlers() {
             return;
           }
 
+          // Dry run: flag likely duplicates and wait for the user's choices
+          const preview = buildImportPreview(
+            entries.map(item => item.entry),
+            (date, timeRange) => getEntriesByDateAndRange(date, timeRange, true),
+            index => entries[index].attachments.length
+          );
+          const duplicates = preview.filter(item => item.duplicateOf || item.duplicateOfImportIndex !== undefined).length;
+          sendImportProgress({
+            stage: 'preview',
+            progress: 30,
+            message: `Found ${entries.length} entries for profile: ${profileName}${duplicates > 0 ? ` (${duplicates} likely duplicates)` : ''}. Review and confirm the import.`,
+            total: entries.length,
+            preview,
+          });
+
+          const decision = await requestImportDecision(preview);
+          if (!decision) {
+            sendImportProgress({
+              stage: 'canceled',
+              progress: 0,
+              message: 'Import canceled. No entries were changed.',
+            });
+            resolve({ success: false, canceled: true });
+            return;
+          }
+
           // Send progress: Starting import
           sendImportProgress({ 
             stage: 'importing', 
@@ -1683,8 +1983,12 @@ export function setupIpcHandlers() {
           // Save all entries with progress updates
           let imported = 0;
           let skipped = 0;
+          let overwritten = 0;
+          let attachmentsImported = 0;
           const total = entries.length;
-          const progressInterval = Math.max(1, Math.floor(total / 100)); // Update every 1% or at least every entry
+          // Exported entry ID -> entry ID in this profile, for restoring links afterwards
+          const idMap = new Map<number, number>();
+          const savedEntries: Array<JournalEntry | null> = entries.map(() => null);
           
           // Process entries in batches to avoid blocking
           const batchSize = 100;
@@ -1693,14 +1997,53 @@ export function setupIpcHandlers() {
             
             // Process batch synchronously
             for (let i = batchStart; i < batchEnd; i++) {
-              const entry = entries[i];
+              const { entry, attachments } = entries[i];
+              const item = preview[i];
+              const chosen = decision.resolutions[i];
+              const resolution: ImportConflictResolution | 'import' =
+                chosen === 'skip' || chosen === 'overwrite' || chosen === 'keep-both' ? chosen : getDefaultResolution(item);
               try {
                 // Don't import entries with IDs (they're duplicates)
-                if (!entry.id) {
-                  saveEntry(entry);
-                  imported++;
-                } else {
+                if (entry.id || resolution === 'skip') {
+                  // Links to a skipped duplicate go to the stored entry it duplicates
+                  if (entries[i].sourceId !== undefined && item.duplicateOf) {
+                    idMap.set(entries[i].sourceId!, item.duplicateOf.id);
+                  }
                   skipped++;
+                  continue;
+                }
+
+                let savedEntry: JournalEntry;
+                let existingAttachments: EntryAttachment[] = [];
+                const existing = resolution === 'overwrite' && item.duplicateOf ? getEntryById(item.duplicateOf.id) : null;
+                if (existing) {
+                  // Replace the stored entry's text and metadata but keep its identity and files
+                  existingAttachments = existing.attachments || [];
+                  savedEntry = saveEntry({ ...entry, id: existing.id, createdAt: existing.createdAt, attachments: existingAttachments, linkedEntries: existing.linkedEntries });
+                  overwritten++;
+                } else {
+                  // Links are restored once every entry has its new ID
+                  savedEntry = saveEntry({ ...entry, linkedEntries: [] });
+                  imported++;
+                }
+
+                // Attachments are stored once the entry exists
+                if (attachments.length > 0 && savedEntry.id) {
+                  const attachmentIds = new Map<string, string>();
+                  const stored = storeImportedAttachments(attachments, existingAttachments, attachmentIds);
+                  if (stored.length > 0) {
+                    savedEntry = saveEntry({
+                      ...savedEntry,
+                      content: remapAttachmentEmbeds(savedEntry.content, attachmentIds),
+                      attachments: [...existingAttachments, ...stored],
+                    });
+                    attachmentsImported += stored.length;
+                  }
+                }
+
+                savedEntries[i] = savedEntry;
+                if (entries[i].sourceId !== undefined && savedEntry.id !== undefined) {
+                  idMap.set(entries[i].sourceId!, savedEntry.id);
                 }
               } catch (error) {
                 console.error('Error importing entry:', error);
@@ -1713,24 +2056,45 @@ export function setupIpcHandlers() {
             sendImportProgress({
               stage: 'importing',
               progress,
-              message: `Profile: ${profileName} - Imported ${imported} entries${skipped > 0 ? `, skipped ${skipped}` : ''}...`,
+              message: `Profile: ${profileName} - Imported ${imported} entries${attachmentsImported > 0 ? ` with ${attachmentsImported} attachments` : ''}${overwritten > 0 ? `, overwrote ${overwritten}` : ''}${skipped > 0 ? `, skipped ${skipped}` : ''}...`,
               total,
               imported,
               skipped,
+              overwritten,
             });
 
             // Yield to event loop between batches to keep UI responsive
             await new Promise(resolve => setImmediate(resolve));
           }
 
+          // Restore links between imported entries using their new IDs
+          for (let i = 0; i < total; i++) {
+            const savedEntry = savedEntries[i];
+            const linkedEntries = entries[i].entry.linkedEntries;
+            if (!savedEntry || !linkedEntries || linkedEntries.length === 0) {
+              continue;
+            }
+            const remapped = remapLinkedEntries(linkedEntries, idMap);
+            if (remapped.length === 0) {
+              continue;
+            }
+            try {
+              const existingLinks = savedEntry.linkedEntries || [];
+              saveEntry({ ...savedEntry, linkedEntries: [...existingLinks, ...remapped.filter(id => !existingLinks.includes(id))] });
+            } catch (error) {
+              console.error('Error restoring links for imported entry:', error);
+            }
+          }
+
           // Send completion
           sendImportProgress({
             stage: 'complete',
             progress: 100,
-            message: `Import complete for profile: ${profileName}! Imported ${imported} entries${skipped > 0 ? `, skipped ${skipped} duplicates` : ''}.`,
+            message: `Import complete for profile: ${profileName}! Imported ${imported} entries${attachmentsImported > 0 ? ` with ${attachmentsImported} attachments` : ''}${overwritten > 0 ? `, overwrote ${overwritten}` : ''}${skipped > 0 ? `, skipped ${skipped}` : ''}.`,
             total,
             imported,
             skipped,
+            overwritten,
           });
 
           resolve({
@@ -1738,6 +2102,7 @@ export function setupIpcHandlers() {
             canceled: false,
             imported,
             skipped,
+            overwritten,
             total: entries.length,
           });
         } catch (error: unknown) {
@@ -1798,12 +2163,15 @@ export function setupIpcHandlers() {
       return { success: false, canceled: true };
     }
 
+    const attemptedAt = new Date().toISOString();
     try {
-      fs.copyFileSync(dbPath, filePath);
+      await backupDatabaseTo(filePath);
+      recordBackupStatus(profileId, { lastAttemptAt: attemptedAt, lastSuccessAt: attemptedAt, lastBackupPath: filePath, automatic: false });
       return { success: true, canceled: false, path: filePath };
     } catch (error: unknown) {
       console.error('Error backing up database:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      recordBackupStatus(profileId, { ...getPreference('backupStatus'), lastAttemptAt: attemptedAt, lastError: errorMessage, automatic: false });
       return {
         success: false,
         canceled: false,
@@ -1813,6 +2181,56 @@ export function setupIpcHandlers() {
     }
   });
 
+  /**
+   * Outcome of the current profile's most recent backup.
+   */
+  ipcMain.handle('get-backup-status', async () => {
+    const currentProfile = getCurrentProfile();
+    return {
+      status: getPreference('backupStatus') || null,
+      directory: currentProfile ? getAutoBackupDirectory(currentProfile.id) : null,
+    };
+  });
+
+  /**
+   * Back up the current profile to its automatic backup folder right away (with rotation).
+   */
+  ipcMain.handle('run-backup-now', async () => {
+    try {
+      const status = await runBackupNow();
+      return status.lastError
+        ? { success: false, error: 'backup_failed', message: status.lastError, status }
+        : { success: true, path: status.lastBackupPath, status };
+    } catch (error: unknown) {
+      console.error('Error running backup:', error);
+      return { success: false, error: 'backup_failed', message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  });
+
+  /**
+   * Choose the folder automatic backups are written to.
+   */
+  ipcMain.handle('select-backup-directory', async () => {
+    const currentProfile = getCurrentProfile();
+    const { canceled, filePaths } = await dialog.showOpenDialog({
+      title: 'Select Backup Folder',
+      defaultPath: currentProfile ? getAutoBackupDirectory(currentProfile.id) : undefined,
+      properties: ['openDirectory', 'createDirectory'],
+    });
+
+    if (canceled || !filePaths || filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    try {
+      setPreference('autoBackupDirectory', filePaths[0]);
+      return { success: true, path: filePaths[0] };
+    } catch (error: unknown) {
+      console.error('Error setting backup folder:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  });
+
   /**
    * Restore the database from a backup file.
    * Restores the current profile's database from a backup.
@@ -2223,7 +2641,11 @@ export function setupIpcHandlers() {
       }
 
       try {
-        fs.copyFileSync(dbPath, filePath);
+        // Write pending changes first, then export plaintext so the file opens in any SQLite tool
+        if (getCurrentProfile()?.id === profileId) {
+          flushDatabase();
+        }
+        fs.writeFileSync(filePath, readProfileFileDecrypted(profileId, dbPath));
         return { success: true, canceled: false, path: filePath };
       } catch (error: unknown) {
         console.error('Error exporting profile database:', error);
@@ -2385,23 +2807,14 @@ export function setupIpcHandlers() {
           }
         }
 
-        // Get all entries to collect attachments
-        const entries = getAllEntries(true); // Include archived entries
         const attachmentsDir = path.join(userDataPath, 'attachments');
         
-        // Collect all unique attachment file paths
+        // Collect all unique attachment file paths, including those of archived and trashed entries
         const attachmentFiles = new Set<string>();
-        for (const entry of entries) {
-          if (entry.attachments && Array.isArray(entry.attachments)) {
-            for (const attachment of entry.attachments) {
-              if (attachment.filePath && typeof attachment.filePath === 'string') {
-                const attachmentPath = attachment.filePath;
-                // Validate path and ensure it's within attachments directory
-                if (validatePath(attachmentPath, attachmentsDir) && fs.existsSync(attachmentPath)) {
-                  attachmentFiles.add(attachmentPath);
-                }
-              }
-            }
+        for (const { attachment } of getAttachmentReferences()) {
+          // Validate path and ensure it's within attachments directory
+          if (validatePath(attachment.filePath, attachmentsDir) && fs.existsSync(attachment.filePath)) {
+            attachmentFiles.add(attachment.filePath);
           }
         }
 
@@ -2519,9 +2932,12 @@ export function setupIpcHandlers() {
           fs.mkdirSync(tempAttachmentsDir, { recursive: true });
 
           try {
-            // Copy database files
+            // Copy database files (encrypted profiles are written decrypted - the archive itself is password-protected)
             const dbDestPath = path.join(tempDbDir, dbFileName);
-            fs.copyFileSync(dbPath, dbDestPath);
+            if (isProfileEncrypted(profileId)) {
+              flushDatabase();
+            }
+            fs.writeFileSync(dbDestPath, readProfileFileDecrypted(profileId, dbPath));
             console.log(`[Archive Export] Copied database: ${dbPath} -> ${dbDestPath} (${fs.statSync(dbDestPath).size} bytes)`);
             
             if (fs.existsSync(dbWalPath)) {
@@ -2540,7 +2956,7 @@ export function setupIpcHandlers() {
             for (const attachmentPath of attachmentFiles) {
               const attachmentFileName = path.basename(attachmentPath);
               const attachmentDestPath = path.join(tempAttachmentsDir, attachmentFileName);
-              fs.copyFileSync(attachmentPath, attachmentDestPath);
+              fs.writeFileSync(attachmentDestPath, readProfileFileDecrypted(profileId, attachmentPath));
               attachmentCount++;
               console.log(`[Archive Export] Copied attachment: ${attachmentPath} -> ${attachmentDestPath}`);
             }
@@ -2762,6 +3178,239 @@ export function setupIpcHandlers() {
     }
   });
 
+  /**
+   * Run 7-Zip with the given arguments.
+   * The password (if any) is answered on stdin when 7-Zip asks for it, so it never
+   * appears on the command line; without one an empty answer is given.
+   */
+  function run7z(sevenZipPath: string, args: string[], password?: string): Promise<{ code: number | null; output: string }> {
+    return new Promise((resolve, reject) => {
+      const child = child_process.spawn(sevenZipPath, args, { windowsHide: true });
+      let output = '';
+      child.stdout.on('data', (chunk: Buffer) => { output += chunk.toString(); });
+      child.stderr.on('data', (chunk: Buffer) => { output += chunk.toString(); });
+      child.stdin.on('error', () => {
+        // 7-Zip exits without reading stdin when no password is needed
+      });
+      child.on('error', reject);
+      child.on('close', code => resolve({ code, output }));
+      child.stdin.end(`${password || ''}\n`);
+    });
+  }
+
+  function isPasswordError(output: string): boolean {
+    return /wrong password|encrypted archive|can not open encrypted|data error in encrypted/i.test(output);
+  }
+
+  /**
+   * List the files under a directory, relative to it with forward slashes
+   */
+  function listFilesRecursive(baseDir: string, relativeDir: string = ''): string[] {
+    const files: string[] = [];
+    for (const item of fs.readdirSync(path.join(baseDir, relativeDir), { withFileTypes: true })) {
+      const relativePath = relativeDir ? `${relativeDir}/${item.name}` : item.name;
+      if (item.isDirectory()) {
+        files.push(...listFilesRecursive(baseDir, relativePath));
+      } else if (item.isFile()) {
+        files.push(relativePath);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Extract a profile archive into a directory.
+   * Unencrypted ZIP archives are read directly; 7z and password-protected archives need 7-Zip.
+   */
+  async function extractProfileArchive(archivePath: string, destDir: string, password?: string): Promise<void> {
+    if (path.extname(archivePath).toLowerCase() === '.zip') {
+      const entries = readZipFile(archivePath);
+      if (!entries.some(entry => entry.encrypted)) {
+        for (const entry of entries) {
+          if (entry.isDirectory) {
+            continue;
+          }
+          const destPath = isUnsafeArchivePath(entry.name) ? null : safePathJoin(destDir, entry.name);
+          if (!destPath || !validatePath(destPath, destDir)) {
+            throw new Error(`Archive contains an unsafe path: ${entry.name}`);
+          }
+          fs.mkdirSync(path.dirname(destPath), { recursive: true });
+          fs.writeFileSync(destPath, entry.read());
+        }
+        return;
+      }
+    }
+
+    const sevenZipPath = find7zPath();
+    if (!sevenZipPath) {
+      throw Object.assign(new Error('7-Zip is required to open this archive. Please install 7-Zip.'), { code: '7z_not_found' });
+    }
+    const checkResult = (code: number | null, output: string, action: string) => {
+      if (isPasswordError(output)) {
+        throw Object.assign(new Error(password ? 'Incorrect archive password' : 'This archive is password-protected'), {
+          code: password ? 'invalid_password' : 'password_required',
+        });
+      }
+      if (code !== 0) {
+        throw new Error(`7-Zip could not ${action} the archive: ${output.trim().split('\n').pop() || `exit code ${code}`}`);
+      }
+    };
+
+    // Check every stored path before anything is written, so nothing can land outside destDir
+    const listing = await run7z(sevenZipPath, ['l', '-slt', archivePath], password);
+    checkResult(listing.code, listing.output, 'read');
+    const unsafePath = parseSevenZipListing(listing.output).find(isUnsafeArchivePath);
+    if (unsafePath !== undefined) {
+      throw new Error(`Archive contains an unsafe path: ${unsafePath}`);
+    }
+
+    const { code, output } = await run7z(sevenZipPath, ['x', '-y', `-o${destDir}`, archivePath], password);
+    checkResult(code, output, 'extract');
+    // 7-Zip checks paths itself, but make sure nothing landed outside the destination
+    for (const file of listFilesRecursive(destDir)) {
+      if (!validatePath(path.join(destDir, file), destDir)) {
+        throw new Error(`Archive contains an unsafe path: ${file}`);
+      }
+    }
+  }
+
+  /**
+   * Choose a profile archive (ZIP or 7z from export-profile-archive) to restore.
+   * Reports whether a password is needed and the profile name stored in the archive.
+   */
+  ipcMain.handle('select-profile-archive', async () => {
+    const { canceled, filePaths } = await dialog.showOpenDialog({
+      title: 'Import Profile from Archive',
+      filters: [
+        { name: 'Profile Archives', extensions: ['zip', '7z'] },
+        { name: 'All Files', extensions: ['*'] },
+      ],
+      properties: ['openFile'],
+    });
+
+    if (canceled || !filePaths || filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    const archivePath = filePaths[0];
+    try {
+      let encrypted = false;
+      let metadata: ProfileArchiveMetadata | null = null;
+
+      if (path.extname(archivePath).toLowerCase() === '.zip') {
+        const entries = readZipFile(archivePath);
+        encrypted = entries.some(entry => entry.encrypted);
+        const metadataEntry = entries.find(entry => path.posix.basename(entry.name) === PROFILE_ARCHIVE_METADATA_NAME);
+        if (metadataEntry && !metadataEntry.encrypted) {
+          metadata = parseProfileArchiveMetadata(metadataEntry.read().toString('utf-8'));
+        }
+        if (!encrypted && !entries.some(entry => entry.name.toLowerCase().endsWith('.db'))) {
+          return { success: false, error: 'invalid_archive', message: 'This archive does not contain a CalenRecall profile' };
+        }
+      } else {
+        const sevenZipPath = find7zPath();
+        if (!sevenZipPath) {
+          return { success: false, error: '7z_not_found', message: '7-Zip is required to open 7z archives. Please install 7-Zip.' };
+        }
+        // Listing fails outright when file names are encrypted, and marks encrypted files otherwise
+        const { output } = await run7z(sevenZipPath, ['l', '-slt', archivePath]);
+        encrypted = isPasswordError(output) || /^Encrypted = \+/m.test(output);
+      }
+
+      pendingProfileArchivePath = archivePath;
+      return {
+        success: true,
+        fileName: path.basename(archivePath),
+        encrypted,
+        profileName: metadata?.profileName,
+        exportDate: metadata?.exportDate,
+      };
+    } catch (error) {
+      console.error('[IPC] Error reading profile archive:', error);
+      return {
+        success: false,
+        error: 'invalid_archive',
+        message: error instanceof Error ? error.message : 'The archive could not be read',
+      };
+    }
+  });
+
+  /**
+   * Restore the archive chosen with select-profile-archive as a new profile.
+   * The database is copied into a new profile (named after the archived one unless a
+   * name is given) and attachments are added to the new profile's attachment store, with
+   * the entries' attachment paths pointed at the stored files.
+   */
+  ipcMain.handle('import-profile-archive', async (_event, password?: string, profileName?: string) => {
+    const archivePath = pendingProfileArchivePath;
+    if (!archivePath || !fs.existsSync(archivePath)) {
+      return { success: false, error: 'no_archive', message: 'Choose an archive to import first' };
+    }
+    if (password !== undefined && typeof password !== 'string') {
+      return { success: false, error: 'invalid_password', message: 'Invalid password' };
+    }
+
+    const tempDir = path.join(app.getPath('temp'), `calenrecall-restore-${Date.now()}`);
+    try {
+      fs.mkdirSync(tempDir, { recursive: true });
+      await extractProfileArchive(archivePath, tempDir, password || undefined);
+
+      const files = listFilesRecursive(tempDir);
+      const metadataFile = files.find(file => path.posix.basename(file) === PROFILE_ARCHIVE_METADATA_NAME);
+      const metadata = metadataFile
+        ? parseProfileArchiveMetadata(fs.readFileSync(path.join(tempDir, metadataFile), 'utf-8'))
+        : null;
+      const layout = locateProfileArchiveFiles(files, metadata);
+
+      // Attachments go into the new profile's content-addressed store, so identical files
+      // are kept once and deleting the profile removes them
+      let attachmentCount = 0;
+      const storeAttachments = (profileId: string) => {
+        const attachmentLocations = new Map<string, string>();
+        for (const file of layout.attachments) {
+          const originalName = path.posix.basename(file);
+          const stored = storeAttachmentFile(originalName, path.join(tempDir, file), profileId);
+          if (stored) {
+            attachmentLocations.set(originalName, stored.filePath);
+          }
+        }
+        attachmentCount = attachmentLocations.size;
+        return attachmentLocations;
+      };
+
+      const requestedName = typeof profileName === 'string' && profileName.trim() ? profileName.trim() : metadata?.profileName || path.basename(archivePath, path.extname(archivePath));
+      const profile = createProfileFromDatabase(
+        getAvailableProfileName(requestedName),
+        {
+          database: path.join(tempDir, layout.database),
+          wal: layout.wal ? path.join(tempDir, layout.wal) : undefined,
+          shm: layout.shm ? path.join(tempDir, layout.shm) : undefined,
+        },
+        storeAttachments
+      );
+
+      pendingProfileArchivePath = null;
+      if (mainWindowRef && !mainWindowRef.isDestroyed()) {
+        mainWindowRef.webContents.send('profile-created', profile);
+      }
+      return { success: true, profile, attachmentCount };
+    } catch (error) {
+      console.error('[IPC] Error importing profile archive:', error);
+      const code = error instanceof Error && 'code' in error ? String((error as { code: unknown }).code) : '';
+      return {
+        success: false,
+        error: ['password_required', 'invalid_password', '7z_not_found'].includes(code) ? code : 'import_failed',
+        message: error instanceof Error ? error.message : 'Failed to import profile archive',
+      };
+    } finally {
+      try {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  });
+
   ipcMain.handle('delete-profile', async (_event, profileId: string) => {
     try {
       if (!profileId || typeof profileId !== 'string') {
@@ -2883,7 +3532,10 @@ export function setupIpcHandlers() {
         throw new Error('Password cannot be empty');
       }
 
-      const recoveryKey = setProfilePassword(profileId, password, generateRecovery);
+      // Setting a password encrypts the profile's files, so its database must be closed meanwhile
+      const recoveryKey = runWithProfileDatabaseClosed(profileId, () =>
+        setProfilePassword(profileId, password, generateRecovery)
+      );
       
       // Notify renderer process
       if (mainWindowRef && !mainWindowRef.isDestroyed()) {
@@ -2910,6 +3562,10 @@ export function setupIpcHandlers() {
       }
 
       const isValid = verifyProfilePassword(profileId, password);
+      if (isValid && profileHasPassword(profileId) && !isProfileEncrypted(profileId)) {
+        // Profiles protected before encryption at rest existed are encrypted on first unlock
+        runWithProfileDatabaseClosed(profileId, () => ensureProfileEncrypted(profileId, password));
+      }
       return { success: isValid };
     } catch (error) {
       console.error('[IPC] Error verifying profile password:', error);
@@ -2929,7 +3585,9 @@ export function setupIpcHandlers() {
         throw new Error('New password cannot be empty');
       }
 
-      const recoveryKey = changeProfilePassword(profileId, oldPassword, newPassword, generateNewRecovery);
+      const recoveryKey = runWithProfileDatabaseClosed(profileId, () =>
+        changeProfilePassword(profileId, oldPassword, newPassword, generateNewRecovery)
+      );
       
       // Notify renderer process
       if (mainWindowRef && !mainWindowRef.isDestroyed()) {
@@ -2955,7 +3613,8 @@ export function setupIpcHandlers() {
         throw new Error('Password cannot be empty');
       }
 
-      removeProfilePassword(profileId, password);
+      // Removing the password decrypts the profile's files back to plaintext
+      runWithProfileDatabaseClosed(profileId, () => removeProfilePassword(profileId, password));
       
       // Notify renderer process
       if (mainWindowRef && !mainWindowRef.isDestroyed()) {
@@ -2997,7 +3656,9 @@ export function setupIpcHandlers() {
         throw new Error('New password cannot be empty');
       }
 
-      const newRecoveryKey = recoverProfilePassword(profileId, recoveryKey, newPassword);
+      const newRecoveryKey = runWithProfileDatabaseClosed(profileId, () =>
+        recoverProfilePassword(profileId, recoveryKey, newPassword)
+      );
       
       // Notify renderer process
       if (mainWindowRef && !mainWindowRef.isDestroyed()) {
@@ -3117,32 +3778,291 @@ export function setupIpcHandlers() {
 }
 
 /**
- * Get MIME type from file extension.
+ * Find an attachment of an entry and check that its file exists inside the attachments directory.
+ *
+ * @returns The attachment, or an error code for the IPC response
+ */
+function findEntryAttachment(entryId: number, attachmentId: string): { attachment?: EntryAttachment; error?: string } {
+  if (!isValidEntryId(entryId)) {
+    return { error: 'invalid_entry_id' };
+  }
+  if (typeof attachmentId !== 'string' || attachmentId.trim() === '') {
+    return { error: 'invalid_attachment_id' };
+  }
+  const { getEntryById } = require('./database');
+  const entry = getEntryById(entryId);
+  const attachment = entry?.attachments?.find((a: EntryAttachment) => a.id === attachmentId);
+  if (!attachment) {
+    return { error: 'not_found' };
+  }
+
+  // Validate attachment path to prevent path traversal
+  const attachmentsDir = path.join(app.getPath('userData'), 'attachments');
+  if (!validatePath(attachment.filePath, attachmentsDir)) {
+    return { error: 'invalid_path' };
+  }
+  if (!fs.existsSync(attachment.filePath)) {
+    return { error: 'not_found' };
+  }
+  return { attachment };
+}
+
+/**
+ * Path another app can open an attachment from.
+ * Encrypted attachments are decrypted to a temporary copy.
+ */
+function getAttachmentOpenPath(entryId: number, attachmentId: string): { success: boolean; error?: string; message?: string; path?: string } {
+  const { attachment, error } = findEntryAttachment(entryId, attachmentId);
+  if (!attachment) {
+    return error === 'invalid_path'
+      ? { success: false, error, message: 'Invalid attachment path detected' }
+      : { success: false, error };
+  }
+
+  if (isEncryptedFile(attachment.filePath)) {
+    const currentProfile = getCurrentProfile();
+    if (!currentProfile) {
+      return { success: false, error: 'not_found' };
+    }
+    try {
+      const decryptedPath = writeDecryptedAttachmentCopy(
+        attachment.id,
+        path.extname(attachment.filePath),
+        readProfileFileDecrypted(currentProfile.id, attachment.filePath)
+      );
+      return { success: true, path: decryptedPath };
+    } catch (err) {
+      console.error('[IPC] Error decrypting attachment:', err);
+      return { success: false, error: 'decrypt_failed' };
+    }
+  }
+
+  return { success: true, path: attachment.filePath };
+}
+
+/**
+ * Load entries (and the files to attach to them) from the file or folder chosen for import.
+ */
+function loadImportSource(sourcePath: string, format: ImportFormat): ImportedEntry[] {
+  switch (format) {
+    case 'dayone':
+      return loadDayOneImport(sourcePath);
+    case 'journey':
+      return loadJourneyImport(sourcePath);
+    case 'obsidian':
+      return loadObsidianImport(sourcePath);
+    case 'bundle':
+      return loadBundleImport(sourcePath);
+    case 'json':
+      return parseJsonImport(fs.readFileSync(sourcePath, { encoding: 'utf-8' }));
+    case 'ics':
+      return parseICalendarComponents(fs.readFileSync(sourcePath, { encoding: 'utf-8' })).map(({ entry, sourceId }) => ({
+        entry,
+        attachments: [],
+        sourceId: sourceId ?? undefined,
+      }));
+    default: {
+      const content = fs.readFileSync(sourcePath, { encoding: 'utf-8' });
+      return parseImportContent(content, format).map(entry => ({ entry, attachments: [] }));
+    }
+  }
+}
+
+/**
+ * Reader for files inside a ZIP archive, relative to a directory in the archive
  */
-function getMimeType(ext: string): string {
-  const mimeTypes: Record<string, string> = {
-    '.jpg': 'image/jpeg',
-    '.jpeg': 'image/jpeg',
-    '.png': 'image/png',
-    '.gif': 'image/gif',
-    '.webp': 'image/webp',
-    '.svg': 'image/svg+xml',
-    '.pdf': 'application/pdf',
-    '.txt': 'text/plain',
-    '.md': 'text/markdown',
-    '.doc': 'application/msword',
-    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+function zipFileReader(files: Map<string, ZipEntry>, baseDir: string): ImportFileReader {
+  return (relativePath: string) => {
+    const file = files.get(path.posix.normalize(`${baseDir}${relativePath}`));
+    return file && !file.isDirectory ? file.read() : null;
   };
-  return mimeTypes[ext.toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Reader for files inside a directory (paths escaping it are rejected)
+ */
+function directoryFileReader(baseDir: string): ImportFileReader {
+  return (relativePath: string) => {
+    const filePath = safePathJoin(baseDir, relativePath);
+    if (!filePath || !validatePath(filePath, baseDir) || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      return null;
+    }
+    return fs.readFileSync(filePath);
+  };
+}
+
+function readZipArchive(archivePath: string): Map<string, ZipEntry> {
+  const files = new Map<string, ZipEntry>();
+  for (const file of readZipFile(archivePath)) {
+    files.set(path.posix.normalize(file.name), file);
+  }
+  return files;
+}
+
+/**
+ * Day One exports a ZIP with one JSON file per journal and a photos/ folder,
+ * or just the JSON file (photos are then looked up next to it).
+ */
+function loadDayOneImport(sourcePath: string): ImportedEntry[] {
+  if (path.extname(sourcePath).toLowerCase() !== '.zip') {
+    const content = fs.readFileSync(sourcePath, { encoding: 'utf-8' });
+    return parseDayOneExport(content, directoryFileReader(path.dirname(sourcePath)));
+  }
+
+  const files = readZipArchive(sourcePath);
+  const results: ImportedEntry[] = [];
+  for (const [name, file] of files) {
+    if (!/\.json$/i.test(name) || name.split('/').includes('photos') || name.startsWith('__MACOSX/')) {
+      continue;
+    }
+    const baseDir = name.includes('/') ? name.slice(0, name.lastIndexOf('/') + 1) : '';
+    results.push(...parseDayOneExport(file.read().toString('utf-8'), zipFileReader(files, baseDir)));
+  }
+  return results;
+}
+
+/**
+ * CalenRecall bundles hold manifest.json and the attachment files it points at
+ */
+function loadBundleImport(sourcePath: string): ImportedEntry[] {
+  const files = readZipArchive(sourcePath);
+  const manifestFile = files.get(BUNDLE_MANIFEST_NAME);
+  if (!manifestFile) {
+    throw new Error('Not a CalenRecall bundle: manifest.json is missing');
+  }
+  const manifest = parseBundleManifest(manifestFile.read().toString('utf-8'));
+  const readFile = zipFileReader(files, '');
+
+  return manifest.entries.map(bundleEntry => ({
+    entry: normalizeJsonEntry(bundleEntry),
+    attachments: (Array.isArray(bundleEntry.attachments) ? bundleEntry.attachments : [])
+      .filter(attachment => attachment && typeof attachment.path === 'string' && typeof attachment.fileName === 'string')
+      .map(attachment => ({
+        fileName: attachment.fileName,
+        read: () => readFile(attachment.path),
+        sourceId: typeof attachment.id === 'string' ? attachment.id : undefined,
+      })),
+    sourceId: typeof bundleEntry.id === 'number' ? bundleEntry.id : undefined,
+  }));
+}
+
+/**
+ * Journey exports a ZIP with one JSON file per entry and the photos next to them
+ */
+function loadJourneyImport(sourcePath: string): ImportedEntry[] {
+  const files = readZipArchive(sourcePath);
+  const results: ImportedEntry[] = [];
+  for (const [name, file] of files) {
+    if (!/\.json$/i.test(name) || name.startsWith('__MACOSX/')) {
+      continue;
+    }
+    const baseDir = name.includes('/') ? name.slice(0, name.lastIndexOf('/') + 1) : '';
+    try {
+      const imported = parseJourneyEntry(file.read().toString('utf-8'), zipFileReader(files, baseDir));
+      if (imported) {
+        results.push(imported);
+      }
+    } catch (error) {
+      console.warn(`[Import] Skipping unreadable Journey entry ${name}:`, error);
+    }
+  }
+  return results;
+}
+
+/**
+ * Import YYYY-MM-DD.md daily notes from a folder (searched recursively, like a vault).
+ * Embedded files are found by path relative to the note or the folder, or by file name
+ * anywhere in the folder, the way Obsidian resolves ![[embeds]].
+ */
+function loadObsidianImport(folderPath: string): ImportedEntry[] {
+  const notes: string[] = [];
+  const filesByName = new Map<string, string>();
+
+  const walk = (dir: string) => {
+    for (const item of fs.readdirSync(dir, { withFileTypes: true })) {
+      // Skip .obsidian, .trash and other hidden folders
+      if (item.name.startsWith('.')) {
+        continue;
+      }
+      const itemPath = path.join(dir, item.name);
+      if (item.isDirectory()) {
+        walk(itemPath);
+      } else if (isDailyNoteFileName(item.name)) {
+        notes.push(itemPath);
+      } else if (!filesByName.has(item.name.toLowerCase())) {
+        filesByName.set(item.name.toLowerCase(), itemPath);
+      }
+    }
+  };
+  walk(folderPath);
+
+  const readFromVault = directoryFileReader(folderPath);
+  const results: ImportedEntry[] = [];
+  for (const notePath of notes) {
+    const readFromNote = directoryFileReader(path.dirname(notePath));
+    const findFile: ImportFileReader = (target: string) => {
+      const byName = filesByName.get(path.basename(target).toLowerCase());
+      return readFromNote(target) || readFromVault(target) || (byName ? fs.readFileSync(byName) : null);
+    };
+    const imported = parseObsidianDailyNote(
+      path.basename(notePath),
+      fs.readFileSync(notePath, { encoding: 'utf-8' }),
+      findFile,
+      fs.statSync(notePath).mtime.toISOString()
+    );
+    if (imported) {
+      results.push(imported);
+    }
+  }
+
+  // Oldest first, like the other importers
+  return results.sort((a, b) => a.entry.date.localeCompare(b.entry.date));
+}
+
+/**
+ * Store the files referenced by an imported entry as its attachments.
+ * Files missing from the export, or already attached to the entry, are skipped.
+ *
+ * @param currentAttachments - Attachments the entry already has
+ * @param attachmentIds - Filled with the new ID of each attachment that had an ID in the export
+ * @returns The attachments to add to the entry
+ */
+function storeImportedAttachments(
+  attachments: ImportedEntry['attachments'],
+  currentAttachments: EntryAttachment[],
+  attachmentIds?: Map<string, string>
+): EntryAttachment[] {
+  const stored: EntryAttachment[] = [];
+  for (const attachment of attachments) {
+    try {
+      const data = attachment.read();
+      const fileName = sanitizeFileName(attachment.fileName);
+      if (!data || !fileName) {
+        continue;
+      }
+      const saved = storeAttachmentFile(fileName, data);
+      if (!saved) {
+        continue;
+      }
+      const existing = [...currentAttachments, ...stored].find(a => a.filePath === saved.filePath);
+      if (!existing) {
+        stored.push(saved);
+      }
+      if (attachment.sourceId) {
+        attachmentIds?.set(attachment.sourceId, (existing || saved).id);
+      }
+    } catch (error) {
+      console.warn(`[Import] Could not import attachment ${attachment.fileName}:`, error);
+    }
+  }
+  return stored;
 }
 
 /**
  * Parse imported content based on format.
  */
-function parseImportContent(content: string, format: 'json' | 'markdown'): JournalEntry[] {
+function parseImportContent(content: string, format: ImportFormat): JournalEntry[] {
   switch (format) {
-    case 'json':
-      return parseJsonImport(content);
     case 'markdown':
       return parseMarkdownImport(content);
     default:
@@ -3152,69 +4072,21 @@ function parseImportContent(content: string, format: 'json' | 'markdown'): Journ
 
 /**
  * Parse JSON import format.
- * Expects an array of JournalEntry objects.
+ * Expects an array of JournalEntry objects, or the object written by the JSON export
+ * (entries under "entries").
  * Supports all JournalEntry fields including time fields, linkedEntries, archived, pinned.
  */
-function parseJsonImport(content: string): JournalEntry[] {
+function parseJsonImport(content: string): ImportedEntry[] {
   try {
     const data = JSON.parse(content);
-    
-    // Handle array of entries
-    if (Array.isArray(data)) {
-      return data.map(entry => {
-        // Validate and normalize hour (0-23 or null)
-        let hour: number | null = null;
-        if (entry.hour !== null && entry.hour !== undefined) {
-          const h = Number(entry.hour);
-          if (!isNaN(h) && h >= 0 && h <= 23) {
-            hour = h;
-          }
-        }
-        
-        // Validate and normalize minute (0-59, default 0)
-        let minute: number | null = null;
-        if (entry.minute !== null && entry.minute !== undefined) {
-          const m = Number(entry.minute);
-          if (!isNaN(m) && m >= 0 && m <= 59) {
-            minute = m;
-          }
-        }
-        
-        // Validate and normalize second (0-59, default 0)
-        let second: number | null = null;
-        if (entry.second !== null && entry.second !== undefined) {
-          const s = Number(entry.second);
-          if (!isNaN(s) && s >= 0 && s <= 59) {
-            second = s;
-          }
-        }
-        
-        return {
-          // Core required fields
-          date: entry.date,
-          timeRange: entry.timeRange || 'day',
-          title: entry.title || '',
-          content: entry.content || '',
-          
-          // Time fields (optional)
-          hour: hour,
-          minute: minute,
-          second: second,
-          
-          // Metadata fields
-          tags: Array.isArray(entry.tags) ? entry.tags : [],
-          linkedEntries: Array.isArray(entry.linkedEntries) ? entry.linkedEntries : [],
-          archived: entry.archived === true,
-          pinned: entry.pinned === true,
-          
-          // Timestamps
-          createdAt: entry.createdAt || new Date().toISOString(),
-          updatedAt: entry.updatedAt || new Date().toISOString(),
-          
-          // Note: id field is intentionally omitted - entries with id are skipped during import
-          // Note: attachments cannot be imported (must be added manually after import)
-        };
-      });
+    const entries = Array.isArray(data) ? data : data && Array.isArray(data.entries) ? data.entries : null;
+
+    if (entries) {
+      return entries.map((entry: Record<string, unknown>) => ({
+        entry: normalizeJsonEntry(entry),
+        attachments: [],
+        sourceId: typeof entry.id === 'number' ? entry.id : undefined,
+      }));
     }
     
     return [];
@@ -3224,6 +4096,68 @@ function parseJsonImport(content: string): JournalEntry[] {
   }
 }
 
+/**
+ * Normalize one entry from a JSON export or bundle manifest
+ */
+function normalizeJsonEntry(entry: any): JournalEntry {
+  // Validate and normalize hour (0-23 or null)
+  let hour: number | null = null;
+  if (entry.hour !== null && entry.hour !== undefined) {
+    const h = Number(entry.hour);
+    if (!isNaN(h) && h >= 0 && h <= 23) {
+      hour = h;
+    }
+  }
+  
+  // Validate and normalize minute (0-59, default 0)
+  let minute: number | null = null;
+  if (entry.minute !== null && entry.minute !== undefined) {
+    const m = Number(entry.minute);
+    if (!isNaN(m) && m >= 0 && m <= 59) {
+      minute = m;
+    }
+  }
+  
+  // Validate and normalize second (0-59, default 0)
+  let second: number | null = null;
+  if (entry.second !== null && entry.second !== undefined) {
+    const s = Number(entry.second);
+    if (!isNaN(s) && s >= 0 && s <= 59) {
+      second = s;
+    }
+  }
+  
+  return {
+    // Core required fields
+    date: entry.date,
+    timeRange: entry.timeRange || 'day',
+    title: entry.title || '',
+    content: entry.content || '',
+    
+    // Time fields (optional)
+    hour: hour,
+    minute: minute,
+    second: second,
+    
+    // Metadata fields
+    tags: Array.isArray(entry.tags) ? entry.tags : [],
+    linkedEntries: Array.isArray(entry.linkedEntries) ? entry.linkedEntries.filter((id: unknown) => typeof id === 'number') : [],
+    archived: entry.archived === true,
+    pinned: entry.pinned === true,
+
+    // Native calendar period (optional)
+    calendar: typeof entry.calendar === 'string' && typeof entry.periodEnd === 'string' ? entry.calendar : undefined,
+    periodEnd: typeof entry.calendar === 'string' && typeof entry.periodEnd === 'string' ? entry.periodEnd : undefined,
+    
+    // Timestamps
+    createdAt: entry.createdAt || new Date().toISOString(),
+    updatedAt: entry.updatedAt || new Date().toISOString(),
+    
+    // Note: id field is intentionally omitted - the importer remaps links from the old IDs
+    // Note: attachments come from the files in a bundle, not from the stored metadata
+  };
+}
+
 /**
  * Parse Markdown import format.
  * Expects entries in the format:
@@ -3366,6 +4300,8 @@ function formatExportContent(entries: JournalEntry[], format: ExportFormat, meta
       return formatAsDecades(entries, metadata);
     case 'csv':
       return formatAsCsv(entries, metadata);
+    case 'ics':
+      return formatAsICalendar(entries, metadata);
     case 'markdown':
     default:
       return formatAsMarkdown(entries, metadata);
@@ -3556,7 +4492,8 @@ function formatAsMarkdown(entries: JournalEntry[], metadata?: ExportMetadata): s
       lines.push(`**Tags:** ${entry.tags.join(', ')}`);
     }
     lines.push('');
-    lines.push(entry.content);
+    // Content headings go below the entry's own ## heading
+    lines.push(shiftMarkdownHeadings(entry.content, 2));
     lines.push('');
     lines.push('---');
     lines.push('');
@@ -3847,10 +4784,7 @@ function formatAsRtf(entries: JournalEntry[], metadata?: ExportMetadata): string
 
     body.push('\\par');
 
-    const contentLines = entry.content.split(/\\r?\\n/);
-    for (const line of contentLines) {
-      body.push(`${escapeRtf(line)}\\par`);
-    }
+    body.push(markdownToRtf(entry.content, { linkColor: 2 })); // Accent color
 
     body.push('\\par');
     body.push('------------------------------------------------------------\\par');
@@ -3862,13 +4796,6 @@ function formatAsRtf(entries: JournalEntry[], metadata?: ExportMetadata): string
   return [...header, ...body].join('\n');
 }
 
-function escapeRtf(text: string): string {
-  return text
-    .replace(/\\/g, '\\\\')
-    .replace(/{/g, '\\{')
-    .replace(/}/g, '\\}');
-}
-
 /**
  * Compact .dec (\"decades\") export – groups entries by decade and year.
  */
@@ -3888,7 +4815,7 @@ function formatAsDecades(entries: JournalEntry[], metadata?: ExportMetadata): st
   const byDecade: Map<string, Map<string, JournalEntry[]>> = new Map();
 
   for (const entry of entries) {
-    const year = parseISODate(entry.date).getFullYear();
+    const year = parseISODateParts(entry.date)?.year ?? 0;
     const decadeStart = Math.floor(year / 10) * 10;
     const decadeKey = `${decadeStart}s`;
     const yearKey = `${year}`;
@@ -3986,6 +4913,46 @@ function formatAsCsv(entries: JournalEntry[], metadata?: ExportMetadata): string
   return lines.join('\n');
 }
 
+/**
+ * Write a bundle: manifest.json with every entry plus the attachment files.
+ * Encrypted attachments are decrypted so the bundle can be imported into any profile.
+ */
+async function exportEntriesAsBundle(entries: JournalEntry[], filePath: string, metadata?: ExportMetadata): Promise<void> {
+  const attachmentsDir = path.join(app.getPath('userData'), 'attachments');
+  const currentProfile = getCurrentProfile();
+
+  // Leave out attachments whose files are gone so the manifest only lists what the archive holds
+  const available = entries.map(entry => ({
+    ...entry,
+    attachments: (entry.attachments || []).filter(attachment =>
+      typeof attachment.filePath === 'string' && validatePath(attachment.filePath, attachmentsDir) && fs.existsSync(attachment.filePath)
+    ),
+  }));
+  const { manifest, files } = createBundleManifest(available, metadata);
+
+  await new Promise<void>((resolve, reject) => {
+    const output = fs.createWriteStream(filePath);
+    const archive = archiver('zip', {
+      zlib: { level: 9 } // Maximum compression
+    });
+
+    output.on('close', () => {
+      console.log(`[Export] Bundle created: ${archive.pointer()} total bytes, ${files.length} attachments`);
+      resolve();
+    });
+    archive.on('error', reject);
+    archive.pipe(output);
+
+    archive.append(JSON.stringify(manifest, null, 2), { name: BUNDLE_MANIFEST_NAME });
+    for (const file of files) {
+      const data = currentProfile ? readProfileFileDecrypted(currentProfile.id, file.sourcePath) : fs.readFileSync(file.sourcePath);
+      archive.append(data, { name: file.archivePath });
+    }
+
+    archive.finalize();
+  });
+}
+
 /**
  * Generate a PDF storybook using pdfkit.
  */
@@ -4027,6 +4994,11 @@ async function exportEntriesAsPdf(entries: JournalEntry[], filePath: string, met
         }
         return variant === 'bold' ? 'Helvetica-Bold' : 'Helvetica-Oblique';
       };
+      const getBoldItalicFont = (baseFont: string): string => {
+        if (baseFont === 'Times-Roman') return 'Times-BoldItalic';
+        if (baseFont === 'Courier') return 'Courier-BoldOblique';
+        return 'Helvetica-BoldOblique';
+      };
       
       // Helper function to convert hex to RGB
       const hexToRgb = (hex: string): [number, number, number] | null => {
@@ -4450,7 +5422,22 @@ async function exportEntriesAsPdf(entries: JournalEntry[], filePath: string, met
         // Use PDFKit's text method which automatically handles wrapping and returns height
         // Store current Y, draw text, then calculate how much Y moved
         const contentStartY = doc.y;
-        doc.text(entry.content, cardContent.x, doc.y, { width: cardContent.width, align: 'left' });
+        writeMarkdownToPdf(doc, entry.content, {
+          x: cardContent.x,
+          width: cardContent.width,
+          fontSize: 11,
+          fonts: {
+            regular: pdfFont,
+            bold: getFontVariant(pdfFont, 'bold'),
+            italic: getFontVariant(pdfFont, 'italic'),
+            boldItalic: getBoldItalicFont(pdfFont),
+            mono: 'Courier',
+          },
+          textColor: cardTextColor,
+          mutedColor: colors.secondary || cardTextColor,
+          linkColor: readableDateColor,
+          codeBackground: adjustColorBrightness(cardBgColor, -8),
+        });
         const contentEndY = doc.y;
         const contentHeight = contentEndY - contentStartY;
         // Ensure minimum spacing
@@ -4,8 +4,11 @@ import * as fs from 'fs';
 import Database from 'better-sqlite3';
 import { initDatabase, getAllPreferences, setPreference, closeDatabase, switchProfile, getCurrentProfile, Preferences } from './database';
 import { setupIpcHandlers, setMainWindow, setProfileSelectorWindow, setPreferencesWindow, setMenuUpdateCallback, setImportProgressWindow, setCreateImportProgressWindowCallback } from './ipc-handlers';
-import { getAutoLoadProfileId, setAutoLoadProfileId, getCurrentProfileId, getProfile } from './profile-manager';
+import { getAutoLoadProfileId, setAutoLoadProfileId, getCurrentProfileId, getProfile, isProfileLocked, lockAllProfiles } from './profile-manager';
 import { initAutoUpdater, manualCheckForUpdates } from './auto-updater';
+import { startBackupScheduler, stopBackupScheduler } from './backup-scheduler';
+import { startTrashCleanup, stopTrashCleanup } from './trash';
+import { ExportFormat } from './types';
 
 let mainWindow: BrowserWindow | null = null;
 let preferencesWindow: BrowserWindow | null = null;
@@ -1161,6 +1164,47 @@ function createMenu() {
                 }
               },
             },
+            {
+              label: 'Import from iCalendar (.ics)...',
+              click: () => {
+                if (mainWindow && !mainWindow.isDestroyed()) {
+                  mainWindow.webContents.send('menu-import', 'ics');
+                }
+              },
+            },
+            {
+              label: 'Import Bundle with Attachments...',
+              click: () => {
+                if (mainWindow && !mainWindow.isDestroyed()) {
+                  mainWindow.webContents.send('menu-import', 'bundle');
+                }
+              },
+            },
+            { type: 'separator' },
+            {
+              label: 'Import from Day One...',
+              click: () => {
+                if (mainWindow && !mainWindow.isDestroyed()) {
+                  mainWindow.webContents.send('menu-import', 'dayone');
+                }
+              },
+            },
+            {
+              label: 'Import from Journey...',
+              click: () => {
+                if (mainWindow && !mainWindow.isDestroyed()) {
+                  mainWindow.webContents.send('menu-import', 'journey');
+                }
+              },
+            },
+            {
+              label: 'Import Obsidian Daily Notes...',
+              click: () => {
+                if (mainWindow && !mainWindow.isDestroyed()) {
+                  mainWindow.webContents.send('menu-import', 'obsidian');
+                }
+              },
+            },
           ],
         },
         {
@@ -1202,12 +1246,24 @@ function createMenu() {
                 createExportProfileSelectorWindow('csv');
               },
             },
+            {
+              label: 'Export as iCalendar (.ics)...',
+              click: () => {
+                createExportProfileSelectorWindow('ics');
+              },
+            },
             {
               label: 'Export as Decades...',
               click: () => {
                 createExportProfileSelectorWindow('dec');
               },
             },
+            {
+              label: 'Export as Bundle with Attachments...',
+              click: () => {
+                createExportProfileSelectorWindow('bundle');
+              },
+            },
             { type: 'separator' },
             {
               label: 'Export as ZIP Archive...',
@@ -1417,6 +1473,26 @@ function createMenu() {
             updateMenu();
           },
         },
+        {
+          label: 'Show Holidays',
+          type: 'checkbox',
+          checked: getAllPreferences().showHolidays === true,
+          click: () => {
+            const currentPrefs = getAllPreferences();
+            const newValue = !(currentPrefs.showHolidays === true);
+            setPreference('showHolidays', newValue);
+            // Notify the renderer process about the change
+            if (mainWindow && !mainWindow.isDestroyed()) {
+              mainWindow.webContents.send('preference-updated', { key: 'showHolidays', value: newValue });
+            }
+            // Also notify preferences window if it exists
+            if (preferencesWindow && !preferencesWindow.isDestroyed()) {
+              preferencesWindow.webContents.send('preference-updated', { key: 'showHolidays', value: newValue });
+            }
+            // Update the menu to reflect the change
+            updateMenu();
+          },
+        },
         { type: 'separator' },
         {
           label: 'Show Chinese 60-Year Cycle',
@@ -1660,7 +1736,7 @@ function createImportProgressWindow() {
   const primaryDisplay = screen.getPrimaryDisplay();
   const { width: screenWidth, height: screenHeight } = primaryDisplay.workAreaSize;
   const windowWidth = 700;
-  const windowHeight = 400;
+  const windowHeight = 720; // Tall enough for the import preview list
   const x = Math.floor((screenWidth - windowWidth) / 2);
   const y = Math.floor((screenHeight - windowHeight) / 2);
 
@@ -1669,7 +1745,7 @@ function createImportProgressWindow() {
     height: windowHeight,
     x,
     y,
-    resizable: false,
+    resizable: true,
     minimizable: false,
     maximizable: false,
     modal: false,
@@ -1764,7 +1840,7 @@ function createArchiveExportWindow(archiveFormat: 'zip' | '7z') {
   });
 }
 
-function createExportProfileSelectorWindow(exportFormat: 'markdown' | 'text' | 'json' | 'rtf' | 'pdf' | 'csv' | 'dec') {
+function createExportProfileSelectorWindow(exportFormat: ExportFormat) {
   // Close existing window if open
   if (exportProfileSelectorWindow && !exportProfileSelectorWindow.isDestroyed()) {
     exportProfileSelectorWindow.focus();
@@ -2013,8 +2089,13 @@ app.whenReady().then(() => {
   // Note: We initialize with no profile ID first, which will use the current/default profile
   try {
     console.log('[Main] Initializing database...');
-    initDatabase();
-    console.log('[Main] ✅ Database initialized successfully');
+    if (isProfileLocked(getCurrentProfileId())) {
+      // Encrypted profile - it is opened after the password is entered in the profile selector
+      console.log('[Main] Current profile is encrypted and locked - deferring database initialization');
+    } else {
+      initDatabase();
+      console.log('[Main] ✅ Database initialized successfully');
+    }
   } catch (error) {
     console.error('[Main] ❌ Failed to initialize database:', error);
     console.error('[Main] Error details:', error instanceof Error ? error.stack : String(error));
@@ -2150,6 +2231,8 @@ app.whenReady().then(() => {
   }
 
   initAutoUpdater(getActiveWindow);
+  startBackupScheduler();
+  startTrashCleanup();
   
   // Update menu after a delay to ensure custom themes folder is fully initialized
   // This gives time for the folder to be created and any templates to be copied
@@ -2179,7 +2262,10 @@ function cleanup() {
   console.log('Cleaning up application resources...');
 
   // Close database connection first (before destroying windows)
+  stopBackupScheduler();
+  stopTrashCleanup();
   closeDatabase();
+  lockAllProfiles();
 
   // Close all windows
   const allWindows = BrowserWindow.getAllWindows();
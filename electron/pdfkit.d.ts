@@ -24,6 +24,7 @@ declare module 'pdfkit' {
     // Text methods
     fontSize(size: number): this;
     font(name: string): this;
+    text(text: string, options?: TextOptions): this;
     text(text: string, x?: number, y?: number, options?: TextOptions): this;
     moveDown(lines?: number): this;
     widthOfString(text: string, options?: TextOptions): number;
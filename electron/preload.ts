@@ -1,9 +1,9 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import { JournalEntry, TimeRange, ExportFormat, EntryVersion, EntryAttachment, ExportMetadata } from './types';
+import { JournalEntry, TimeRange, ExportFormat, ImportFormat, ImportDecision, ImportPreviewItem, BackupStatus, EntryVersion, EntryLinks, EntryAttachment, ThumbnailSize, AttachmentMaintenanceReport, ExportMetadata, BulkEntryOperation, EntrySearchResult, SearchQueryResponse, SearchFilters, SavedSearch, CalendarPeriod } from './types';
 import { EntryTemplate } from './database';
 
 export interface Preferences {
-  defaultViewMode?: 'decade' | 'year' | 'month' | 'week' | 'day';
+  defaultViewMode?: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day';
   windowWidth?: number;
   windowHeight?: number;
   windowX?: number;
@@ -19,7 +19,7 @@ export interface Preferences {
   minimapSize?: 'xxxSmall' | 'xxSmall' | 'xSmall' | 'small' | 'medium' | 'large' | 'xLarge' | 'xxLarge' | 'xxxLarge';
   restoreLastView?: boolean;
   lastViewedDate?: string;
-  lastViewedMode?: 'decade' | 'year' | 'month' | 'week' | 'day';
+  lastViewedMode?: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day';
   defaultCalendar?: string; // Calendar system (e.g., 'gregorian', 'islamic', 'hebrew')
   showMultipleCalendars?: boolean; // Show date in multiple calendars simultaneously
   backgroundImage?: string; // Path to custom background image, or empty for procedural art
@@ -33,11 +33,24 @@ export interface Preferences {
   hardwareAcceleration?: boolean; // Whether hardware acceleration is enabled (requires app restart to take effect)
   showSolsticesEquinoxes?: boolean; // Whether to display solstices and equinoxes in the calendar
   showMoonPhases?: boolean; // Whether to display moon phases in the calendar
+  showHolidays?: boolean; // Whether to display religious and cultural holidays in the calendar
+  islamicCalendarVariant?: 'tabular' | 'umm-al-qura' | 'crescent'; // Islamic calendar reckoning: arithmetic, Saudi official, or crescent sighting
+  islamicObserverRegion?: 'mecca' | 'cairo' | 'rabat' | 'istanbul' | 'tehran' | 'karachi' | 'jakarta' | 'london' | 'new-york'; // Where the crescent is sighted for the crescent visibility reckoning
   showChineseSexagenaryCycle?: boolean; // Whether to display Chinese 60-year sexagenary cycle indicators
   showMayanLongCountCycles?: boolean; // Whether to display Mayan Long Count cycle indicators (Baktun/Katun)
   showMetonicCycle?: boolean; // Whether to display Metonic cycle indicators (Hebrew 19-year cycle)
   showMayanCalendarRound?: boolean; // Whether to display Mayan Calendar Round indicators (52-year cycle)
   showHinduYugaCycles?: boolean; // Whether to display Hindu Yuga cycle indicators
+  autoBackupEnabled?: boolean;
+  autoBackupIntervalHours?: number;
+  autoBackupDirectory?: string;
+  autoBackupKeepCount?: number;
+  autoBackupIncludeAttachments?: boolean;
+  backupStatus?: BackupStatus;
+  versionHistoryLimit?: number;
+  versionHistoryMaxAgeDays?: number;
+  editorMarkdownMode?: 'write' | 'split' | 'preview';
+  trashRetentionDays?: number;
 }
 
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -80,6 +93,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
   
   getEntryVersions: (entryId: number): Promise<EntryVersion[]> =>
     ipcRenderer.invoke('get-entry-versions', entryId),
+
+  getEntryLinks: (entryId: number): Promise<EntryLinks> =>
+    ipcRenderer.invoke('get-entry-links', entryId),
+
+  restoreEntryVersion: (versionId: number): Promise<{ success: boolean; entry?: JournalEntry; error?: string }> =>
+    ipcRenderer.invoke('restore-entry-version', versionId),
   
   archiveEntry: (id: number): Promise<{ success: boolean }> =>
     ipcRenderer.invoke('archive-entry', id),
@@ -89,6 +108,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
   
   getArchivedEntries: (): Promise<JournalEntry[]> =>
     ipcRenderer.invoke('get-archived-entries'),
+
+  getTrashedEntries: (): Promise<JournalEntry[]> =>
+    ipcRenderer.invoke('get-trashed-entries'),
+
+  restoreEntry: (id: number): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('restore-entry', id),
+
+  purgeTrashedEntries: (ids: number[]): Promise<{ success: boolean; deleted?: number; error?: string }> =>
+    ipcRenderer.invoke('purge-trashed-entries', ids),
+
+  emptyTrash: (): Promise<{ success: boolean; deleted?: number; error?: string }> =>
+    ipcRenderer.invoke('empty-trash'),
   
   pinEntry: (id: number): Promise<{ success: boolean }> =>
     ipcRenderer.invoke('pin-entry', id),
@@ -98,6 +129,9 @@ contextBridge.exposeInMainWorld('electronAPI', {
   
   getPinnedEntries: (): Promise<JournalEntry[]> =>
     ipcRenderer.invoke('get-pinned-entries'),
+
+  bulkUpdateEntries: (ids: number[], operation: BulkEntryOperation): Promise<{ success: boolean; updated?: number; error?: string }> =>
+    ipcRenderer.invoke('bulk-update-entries', ids, operation),
   
   // Template operations
   getAllTemplates: (): Promise<EntryTemplate[]> =>
@@ -106,12 +140,28 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getTemplate: (id: number): Promise<EntryTemplate | null> =>
     ipcRenderer.invoke('get-template', id),
   
-  saveTemplate: (template: EntryTemplate): Promise<{ success: boolean }> =>
+  saveTemplate: (template: EntryTemplate): Promise<{ success: boolean; error?: string }> =>
     ipcRenderer.invoke('save-template', template),
   
-  deleteTemplate: (id: number): Promise<{ success: boolean }> =>
+  deleteTemplate: (id: number): Promise<{ success: boolean; error?: string }> =>
     ipcRenderer.invoke('delete-template', id),
   
+  // Saved search operations
+  getAllSavedSearches: (): Promise<SavedSearch[]> =>
+    ipcRenderer.invoke('get-all-saved-searches'),
+  
+  getSavedSearch: (id: number): Promise<SavedSearch | null> =>
+    ipcRenderer.invoke('get-saved-search', id),
+  
+  saveSavedSearch: (search: SavedSearch): Promise<{ success: boolean; error?: string; search?: SavedSearch }> =>
+    ipcRenderer.invoke('save-saved-search', search),
+  
+  deleteSavedSearch: (id: number): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('delete-saved-search', id),
+  
+  getSavedSearchCounts: (): Promise<Record<number, number>> =>
+    ipcRenderer.invoke('get-saved-search-counts'),
+  
   // Attachment operations
   addEntryAttachment: (entryId: number): Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; attachment?: EntryAttachment }> =>
     ipcRenderer.invoke('add-entry-attachment', entryId),
@@ -121,6 +171,15 @@ contextBridge.exposeInMainWorld('electronAPI', {
   
   getAttachmentPath: (entryId: number, attachmentId: string): Promise<{ success: boolean; error?: string; path?: string }> =>
     ipcRenderer.invoke('get-attachment-path', entryId, attachmentId),
+
+  openEntryAttachment: (entryId: number, attachmentId: string): Promise<{ success: boolean; error?: string; message?: string }> =>
+    ipcRenderer.invoke('open-entry-attachment', entryId, attachmentId),
+
+  getAttachmentThumbnail: (entryId: number, attachmentId: string, size: ThumbnailSize): Promise<{ success: boolean; error?: string; dataUrl?: string }> =>
+    ipcRenderer.invoke('get-attachment-thumbnail', entryId, attachmentId, size),
+
+  checkAttachments: (repair: boolean): Promise<{ success: boolean; report?: AttachmentMaintenanceReport; error?: string; message?: string }> =>
+    ipcRenderer.invoke('check-attachments', repair),
   
   saveEntry: (entry: JournalEntry): Promise<{ success: boolean; entry: JournalEntry }> =>
     ipcRenderer.invoke('save-entry', entry),
@@ -137,8 +196,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
   searchEntries: (query: string): Promise<JournalEntry[]> =>
     ipcRenderer.invoke('search-entries', query),
   
-  getEntriesByRange: (range: TimeRange, value: number): Promise<JournalEntry[]> =>
-    ipcRenderer.invoke('get-entries-by-range', range, value),
+  searchEntriesFullText: (query: string, includeArchived?: boolean): Promise<EntrySearchResult[]> =>
+    ipcRenderer.invoke('search-entries-full-text', query, includeArchived),
+  
+  searchEntriesByQuery: (query: string, filters?: SearchFilters): Promise<SearchQueryResponse> =>
+    ipcRenderer.invoke('search-entries-by-query', query, filters),
+  
+  getEntriesByRange: (range: TimeRange, value: number, period?: CalendarPeriod): Promise<JournalEntry[]> =>
+    ipcRenderer.invoke('get-entries-by-range', range, value, period),
   
   getAllEntries: (): Promise<JournalEntry[]> =>
     ipcRenderer.invoke('get-all-entries'),
@@ -147,15 +212,21 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('get-entry-count'),
 
   // Export operations
-  exportEntries: (format: ExportFormat, metadata?: ExportMetadata): Promise<{ success: boolean; canceled?: boolean; error?: string; path?: string }> =>
-    ipcRenderer.invoke('export-entries', format, metadata),
+  exportEntries: (format: ExportFormat, metadata?: ExportMetadata, entryIds?: number[]): Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; path?: string }> =>
+    ipcRenderer.invoke('export-entries', format, metadata, entryIds),
   
   exportEntriesFromProfile: (profileId: string, format: ExportFormat, metadata?: ExportMetadata, password?: string): Promise<{ success: boolean; canceled?: boolean; error?: string; path?: string }> =>
     ipcRenderer.invoke('export-entries-from-profile', profileId, format, metadata, password),
   
   // Import operations
-  importEntries: (format: 'json' | 'markdown'): Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; imported?: number; skipped?: number; total?: number }> =>
+  importEntries: (format: ImportFormat): Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; imported?: number; skipped?: number; overwritten?: number; total?: number }> =>
     ipcRenderer.invoke('import-entries', format),
+
+  getImportPreview: (): Promise<ImportPreviewItem[] | null> =>
+    ipcRenderer.invoke('get-import-preview'),
+
+  resolveImportPreview: (decision: ImportDecision | null): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('resolve-import-preview', decision),
   
   // Backup/Restore operations
   backupDatabase: (): Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; path?: string }> =>
@@ -163,6 +234,21 @@ contextBridge.exposeInMainWorld('electronAPI', {
   
   restoreDatabase: (): Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string }> =>
     ipcRenderer.invoke('restore-database'),
+
+  getBackupStatus: (): Promise<{ status: BackupStatus | null; directory: string | null }> =>
+    ipcRenderer.invoke('get-backup-status'),
+
+  runBackupNow: (): Promise<{ success: boolean; error?: string; message?: string; path?: string; status?: BackupStatus }> =>
+    ipcRenderer.invoke('run-backup-now'),
+
+  selectBackupDirectory: (): Promise<{ success: boolean; canceled?: boolean; error?: string; path?: string }> =>
+    ipcRenderer.invoke('select-backup-directory'),
+
+  onBackupStatusChanged: (callback: (status: BackupStatus) => void) => {
+    const listener = (_event: unknown, status: BackupStatus) => callback(status);
+    ipcRenderer.on('backup-status-changed', listener);
+    return () => ipcRenderer.removeListener('backup-status-changed', listener);
+  },
   
   // Preferences operations
   getPreference: <K extends keyof Preferences>(key: K): Promise<Preferences[K]> =>
@@ -185,7 +271,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('close-preferences-window'),
   
   // Import progress listener
-  onImportProgress: (callback: (progress: { stage: string; progress: number; message: string; total?: number; imported?: number; skipped?: number }) => void) => {
+  onImportProgress: (callback: (progress: { stage: string; progress: number; message: string; total?: number; imported?: number; skipped?: number; overwritten?: number; preview?: ImportPreviewItem[] }) => void) => {
     ipcRenderer.on('import-progress', (_event, progress) => callback(progress));
   },
   
@@ -236,7 +322,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('menu-new-entry', () => callback());
   },
 
-  onMenuImport: (callback: (format: 'json' | 'markdown') => void) => {
+  onMenuImport: (callback: (format: ImportFormat) => void) => {
     ipcRenderer.on('menu-import', (_event, format) => callback(format));
   },
 
@@ -280,6 +366,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
   exportProfileArchive: (profileId: string, archiveFormat?: 'zip' | '7z', password?: string): Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; path?: string }> =>
     ipcRenderer.invoke('export-profile-archive', profileId, archiveFormat || 'zip', password),
 
+  selectProfileArchive: (): Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; fileName?: string; encrypted?: boolean; profileName?: string; exportDate?: string }> =>
+    ipcRenderer.invoke('select-profile-archive'),
+
+  importProfileArchive: (password?: string, profileName?: string): Promise<{ success: boolean; error?: string; message?: string; profile?: Profile; attachmentCount?: number }> =>
+    ipcRenderer.invoke('import-profile-archive', password, profileName),
+
   deleteProfile: (profileId: string): Promise<{ success: boolean }> =>
     ipcRenderer.invoke('delete-profile', profileId),
 
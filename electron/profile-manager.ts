@@ -10,6 +10,19 @@ import {
   verifyRecoveryKey,
   formatRecoveryKey
 } from './utils/passwordUtils';
+import {
+  generateDataKey,
+  wrapDataKey,
+  unwrapDataKey,
+  encryptBuffer,
+  decryptBuffer,
+  isEncryptedBuffer,
+  isEncryptedFile,
+  writeFileAtomic,
+} from './utils/encryptionUtils';
+import { validatePath, sanitizeFileName } from './utils/pathValidation';
+import { relocateAttachmentPaths } from './utils/profileArchive';
+import { getAttachmentThumbnailPaths } from './attachment-thumbnails';
 
 /**
  * Profile interface representing a database profile
@@ -41,6 +54,8 @@ interface PasswordHashes {
   [profileId: string]: {
     passwordHash: string; // Password hash
     recoveryKeyHash?: string; // Recovery key hash (optional, for password recovery)
+    wrappedKey?: string; // Database encryption key wrapped with the password (present when encrypted at rest)
+    recoveryWrappedKey?: string; // Database encryption key wrapped with the recovery key
   };
 }
 
@@ -445,6 +460,104 @@ export function createProfile(name: string): Profile {
   return profile;
 }
 
+/**
+ * Pick a profile name that does not clash with an existing profile
+ * ("Journal", then "Journal (restored)", "Journal (restored 2)", ...)
+ */
+export function getAvailableProfileName(name: string): string {
+  const base = name.trim() || 'Restored profile';
+  const taken = new Set(getAllProfiles().map(p => p.id));
+  if (!taken.has(sanitizeProfileId(base))) {
+    return base;
+  }
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? `${base} (restored)` : `${base} (restored ${n})`;
+    if (!taken.has(sanitizeProfileId(candidate))) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Create a profile from a restored database file.
+ * The database is copied into the new profile, checked to be a CalenRecall journal,
+ * and its attachment paths are pointed at the restored attachment files.
+ * If anything fails the half-created profile is removed again, attachments included.
+ *
+ * @param name - Name of the new profile
+ * @param files - Plaintext database file and its WAL/SHM companions
+ * @param storeAttachments - Stores the restored attachments for the new profile and
+ *   returns each original attachment file name mapped to its stored path
+ * @returns The new profile
+ */
+export function createProfileFromDatabase(
+  name: string,
+  files: { database: string; wal?: string; shm?: string },
+  storeAttachments: (profileId: string) => Map<string, string>
+): Profile {
+  const profile = createProfile(name);
+  const fullDbPath = path.join(app.getPath('userData'), profile.databasePath);
+
+  let database: Database.Database | null = null;
+  try {
+    for (const suffix of ['', '-wal', '-shm']) {
+      if (fs.existsSync(fullDbPath + suffix)) {
+        fs.unlinkSync(fullDbPath + suffix);
+      }
+    }
+    fs.copyFileSync(files.database, fullDbPath);
+    if (files.wal) {
+      fs.copyFileSync(files.wal, `${fullDbPath}-wal`);
+    }
+    if (files.shm) {
+      fs.copyFileSync(files.shm, `${fullDbPath}-shm`);
+    }
+
+    database = new Database(fullDbPath);
+    const table = database.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'journal_entries'`).get();
+    if (!table) {
+      throw new Error('The archive does not contain a CalenRecall journal');
+    }
+
+    const attachmentLocations = storeAttachments(profile.id);
+    const rows = database.prepare(`
+      SELECT id, attachments FROM journal_entries WHERE attachments IS NOT NULL
+    `).all() as Array<{ id: number; attachments: string }>;
+    const update = database.prepare('UPDATE journal_entries SET attachments = ? WHERE id = ?');
+    database.transaction(() => {
+      for (const row of rows) {
+        const relocated = relocateAttachmentPaths(row.attachments, attachmentLocations);
+        if (relocated !== null) {
+          update.run(relocated, row.id);
+        }
+      }
+    })();
+
+    // Fold the WAL into the main file so the profile is self-contained
+    database.pragma('wal_checkpoint(TRUNCATE)');
+  } catch (error) {
+    if (database) {
+      database.close();
+      database = null;
+    }
+    try {
+      deleteProfile(profile.id);
+    } catch (cleanupError) {
+      console.error('[Profile Manager] Error removing incomplete restored profile:', cleanupError);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    // SQLite reports "file is not a database" for anything that is not plaintext SQLite
+    throw new Error(/not a database/i.test(message) ? 'The archive database could not be read' : message);
+  } finally {
+    if (database) {
+      database.close();
+    }
+  }
+
+  console.log(`[Profile Manager] Restored profile from archive: ${profile.id} (${profile.name})`);
+  return profile;
+}
+
 /**
  * Delete a profile
  */
@@ -476,7 +589,17 @@ export function deleteProfile(profileId: string): void {
       throw new Error(`Failed to delete profile directory: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
-  
+
+  // Delete the profile's attachment files (see utils/attachmentIntegrity.ts)
+  const attachmentsDir = path.join(userDataPath, 'attachments', profileId);
+  if (fs.existsSync(attachmentsDir)) {
+    try {
+      fs.rmSync(attachmentsDir, { recursive: true, force: true });
+    } catch (error) {
+      console.error('[Profile Manager] Error deleting profile attachments:', error);
+    }
+  }
+
   // Remove from profiles list
   const updatedProfiles = metadata.profiles.filter(p => p.id !== profileId);
   
@@ -498,6 +621,15 @@ export function deleteProfile(profileId: string): void {
   
   saveProfilesMetadata(updatedMetadata);
   
+  // Drop password and encryption key material for the deleted profile
+  const hashes = loadPasswordHashes();
+  if (hashes[profileId]) {
+    delete hashes[profileId];
+    savePasswordHashes(hashes);
+  }
+  lockProfile(profileId);
+  clearCachedPassword(profileId);
+  
   console.log(`[Profile Manager] Deleted profile: ${profileId}`);
 }
 
@@ -905,6 +1037,25 @@ export function migrateToProfiles(): void {
   }
 }
 
+/**
+ * Open a profile's database for reading.
+ * Encrypted profiles are decrypted into memory using the unlocked key.
+ * 
+ * @returns Database handle (caller must close it), or null if the profile is encrypted and locked
+ */
+function openProfileDatabaseReadable(profileId: string, dbPath: string): Database.Database | null {
+  if (!isEncryptedFile(dbPath)) {
+    return new Database(dbPath);
+  }
+
+  const dataKey = unlockedKeys.get(profileId);
+  if (!dataKey) {
+    return null;
+  }
+
+  return new Database(decryptBuffer(fs.readFileSync(dbPath), dataKey));
+}
+
 /**
  * Verify that a profile's database is valid
  */
@@ -923,7 +1074,11 @@ export function verifyProfileDatabase(profileId: string): boolean {
   
   // Try to open and verify database
   try {
-    const testDb = new Database(dbPath);
+    const testDb = openProfileDatabaseReadable(profileId, dbPath);
+    if (!testDb) {
+      // Encrypted and locked - contents can't be checked until the profile is unlocked
+      return isEncryptedFile(dbPath);
+    }
     const tables = testDb.prepare(`
       SELECT name FROM sqlite_master WHERE type='table'
     `).all() as Array<{ name: string }>;
@@ -1081,7 +1236,11 @@ export function getProfileDetails(profileId: string): ProfileDetails | null {
   if (fs.existsSync(dbPath)) {
     try {
       // Open database to get entry counts and preferences
-      const tempDb = new Database(dbPath);
+      // Encrypted profiles only expose these details once unlocked
+      const tempDb = openProfileDatabaseReadable(profileId, dbPath);
+      if (!tempDb) {
+        return details;
+      }
       
       try {
         // Get entry count
@@ -1148,6 +1307,225 @@ export function getProfileDetails(profileId: string): ProfileDetails | null {
   return details;
 }
 
+// In-memory store of unlocked database encryption keys (cleared on app exit, never written to disk)
+const unlockedKeys = new Map<string, Buffer>();
+
+/**
+ * Check if a profile's database and attachments are encrypted at rest
+ */
+export function isProfileEncrypted(profileId: string): boolean {
+  const hashes = loadPasswordHashes();
+  return !!hashes[profileId]?.wrappedKey;
+}
+
+/**
+ * Check if a profile is encrypted and has not been unlocked with its password yet
+ */
+export function isProfileLocked(profileId: string): boolean {
+  return isProfileEncrypted(profileId) && !unlockedKeys.has(profileId);
+}
+
+/**
+ * Get the unlocked encryption key for a profile
+ * 
+ * @returns Data key, or null if the profile is not encrypted or still locked
+ */
+export function getProfileEncryptionKey(profileId: string): Buffer | null {
+  return unlockedKeys.get(profileId) || null;
+}
+
+/**
+ * Forget all unlocked encryption keys and the plaintext attachment copies made with them
+ */
+export function lockAllProfiles(): void {
+  unlockedKeys.clear();
+  clearDecryptedAttachments();
+}
+
+/**
+ * Forget one profile's encryption key and the plaintext attachment copies
+ */
+function lockProfile(profileId: string): void {
+  unlockedKeys.delete(profileId);
+  clearDecryptedAttachments();
+}
+
+/**
+ * Directory for temporary decrypted copies of encrypted attachments.
+ */
+function getDecryptedAttachmentsDir(): string {
+  return path.join(app.getPath('temp'), 'calenrecall-attachments');
+}
+
+/**
+ * Write a decrypted attachment to the temporary directory so it can be opened by other apps.
+ * The copies are removed when profiles are locked or switched.
+ */
+export function writeDecryptedAttachmentCopy(attachmentId: string, ext: string, data: Buffer): string {
+  const dir = getDecryptedAttachmentsDir();
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+  const sanitizedId = sanitizeFileName(attachmentId) || `${Date.now()}`;
+  const filePath = path.join(dir, `${sanitizedId}${ext}`);
+  fs.writeFileSync(filePath, data, { mode: 0o600 });
+  return filePath;
+}
+
+/**
+ * Remove temporary decrypted attachment copies
+ */
+export function clearDecryptedAttachments(): void {
+  const dir = getDecryptedAttachmentsDir();
+  try {
+    if (fs.existsSync(dir)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  } catch (error) {
+    console.warn('[Profile Manager] Could not remove decrypted attachment copies:', error);
+  }
+}
+
+/**
+ * Read a profile file (database or attachment) as plaintext, decrypting it if needed
+ */
+export function readProfileFileDecrypted(profileId: string, filePath: string): Buffer {
+  const data = fs.readFileSync(filePath);
+  if (!isEncryptedBuffer(data)) {
+    return data;
+  }
+
+  const dataKey = unlockedKeys.get(profileId);
+  if (!dataKey) {
+    throw new Error(`Profile "${profileId}" is locked`);
+  }
+  return decryptBuffer(data, dataKey);
+}
+
+/**
+ * Collect the attachment files referenced by a profile's entries, with their cached thumbnails
+ */
+function collectAttachmentPaths(database: Database.Database): string[] {
+  const attachmentsDir = path.join(app.getPath('userData'), 'attachments');
+  const rows = database.prepare(`
+    SELECT attachments FROM journal_entries WHERE attachments IS NOT NULL
+  `).all() as Array<{ attachments: string }>;
+
+  const paths = new Set<string>();
+  for (const row of rows) {
+    try {
+      const attachments = JSON.parse(row.attachments);
+      if (!Array.isArray(attachments)) {
+        continue;
+      }
+      for (const attachment of attachments) {
+        const filePath = attachment?.filePath;
+        if (typeof filePath === 'string' && validatePath(filePath, attachmentsDir) && fs.existsSync(filePath)) {
+          paths.add(filePath);
+          if (typeof attachment.mimeType === 'string') {
+            getAttachmentThumbnailPaths(attachment).forEach(thumbnailPath => paths.add(thumbnailPath));
+          }
+        }
+      }
+    } catch {
+      // Ignore malformed attachment JSON
+    }
+  }
+  return Array.from(paths);
+}
+
+/**
+ * Rewrite a profile's database and attachments from one key to another.
+ * A null fromKey means the files are currently plaintext; a null toKey writes them back as plaintext.
+ * The profile's database must not be open while this runs.
+ */
+function rewriteProfileFiles(profile: Profile, fromKey: Buffer | null, toKey: Buffer | null): void {
+  const dbPath = path.join(app.getPath('userData'), profile.databasePath);
+  if (!fs.existsSync(dbPath)) {
+    return;
+  }
+
+  // Get a self-contained image of the database (no WAL) in plaintext
+  let image: Buffer;
+  if (fromKey) {
+    image = decryptBuffer(fs.readFileSync(dbPath), fromKey);
+  } else {
+    const fileDb = new Database(dbPath);
+    try {
+      fileDb.exec('PRAGMA wal_checkpoint(TRUNCATE)');
+      fileDb.exec('PRAGMA journal_mode = DELETE');
+      image = fileDb.serialize();
+    } finally {
+      fileDb.close();
+    }
+  }
+
+  const imageDb = new Database(image);
+  let attachmentPaths: string[];
+  try {
+    attachmentPaths = collectAttachmentPaths(imageDb);
+  } finally {
+    imageDb.close();
+  }
+
+  writeFileAtomic(dbPath, toKey ? encryptBuffer(image, toKey) : image);
+  for (const sidecar of [`${dbPath}-wal`, `${dbPath}-shm`]) {
+    if (fs.existsSync(sidecar)) {
+      fs.unlinkSync(sidecar);
+    }
+  }
+
+  for (const attachmentPath of attachmentPaths) {
+    const data = fs.readFileSync(attachmentPath);
+    let plain: Buffer = data;
+    if (isEncryptedBuffer(data)) {
+      if (!fromKey) {
+        console.warn(`[Profile Manager] Attachment already encrypted, leaving as-is: ${attachmentPath}`);
+        continue;
+      }
+      plain = decryptBuffer(data, fromKey);
+    }
+    writeFileAtomic(attachmentPath, toKey ? encryptBuffer(plain, toKey) : plain);
+  }
+
+  console.log(`[Profile Manager] Rewrote database and ${attachmentPaths.length} attachment(s) for profile ${profile.id} (${toKey ? 'encrypted' : 'decrypted'})`);
+}
+
+/**
+ * Encrypt a password-protected profile that was created before encryption at rest existed.
+ * Called after the password has been verified. The profile's database must not be open.
+ */
+export function ensureProfileEncrypted(profileId: string, password: string): void {
+  const profile = getProfile(profileId);
+  if (!profile) {
+    throw new Error(`Profile "${profileId}" not found`);
+  }
+
+  const hashes = loadPasswordHashes();
+  const profileData = hashes[profileId];
+  if (!profileData || profileData.wrappedKey) {
+    return; // No password, or already encrypted
+  }
+
+  if (!verifyPassword(password, profileData.passwordHash)) {
+    throw new Error('Incorrect password');
+  }
+
+  const dataKey = generateDataKey();
+  rewriteProfileFiles(profile, null, dataKey);
+
+  // The existing recovery key is only stored as a hash, so it can't wrap the data key.
+  // Changing the password generates a recovery key that can.
+  hashes[profileId] = {
+    ...profileData,
+    wrappedKey: wrapDataKey(dataKey, password),
+  };
+  savePasswordHashes(hashes);
+  unlockedKeys.set(profileId, dataKey);
+
+  console.log(`[Profile Manager] Encrypted existing password-protected profile: ${profileId}`);
+}
+
 /**
  * Set a password for a profile
  * 
@@ -1180,11 +1558,29 @@ export function setProfilePassword(profileId: string, password: string, generate
 
   // Load existing password hashes
   const hashes = loadPasswordHashes();
+
+  // Reuse the existing data key if the profile is already encrypted (re-wrap only),
+  // otherwise generate one and encrypt the database and attachments
+  let dataKey: Buffer;
+  if (hashes[profileId]?.wrappedKey) {
+    const existingKey = unlockedKeys.get(profileId);
+    if (!existingKey) {
+      throw new Error('Profile must be unlocked before its password can be changed');
+    }
+    dataKey = existingKey;
+  } else {
+    dataKey = generateDataKey();
+    rewriteProfileFiles(profile, null, dataKey);
+  }
+
   hashes[profileId] = {
     passwordHash,
     recoveryKeyHash,
+    wrappedKey: wrapDataKey(dataKey, password),
+    recoveryWrappedKey: recoveryKey ? wrapDataKey(dataKey, recoveryKey) : undefined,
   };
   savePasswordHashes(hashes);
+  unlockedKeys.set(profileId, dataKey);
 
   // Update profile metadata to indicate password protection
   const metadata = loadProfilesMetadata();
@@ -1248,16 +1644,37 @@ export function recoverProfilePassword(profileId: string, recoveryKey: string, n
     throw new Error('Invalid recovery key');
   }
 
+  // Unlock the data key with the recovery key (encrypted profiles only)
+  let dataKey: Buffer | null = null;
+  if (profileData.wrappedKey) {
+    if (!profileData.recoveryWrappedKey) {
+      throw new Error('This recovery key was created before encryption and cannot unlock the profile data');
+    }
+    dataKey = unwrapDataKey(profileData.recoveryWrappedKey, cleanRecoveryKey);
+    if (!dataKey) {
+      throw new Error('Invalid recovery key');
+    }
+  }
+
   // Set new password (generate new recovery key)
   const newRecoveryKey = generateRecoveryKey();
   const newRecoveryKeyHash = hashRecoveryKey(newRecoveryKey);
   const newPasswordHash = hashPassword(newPassword);
 
+  if (!dataKey) {
+    // Not encrypted yet - encrypt now so the profile is protected under the new password
+    dataKey = generateDataKey();
+    rewriteProfileFiles(profile, null, dataKey);
+  }
+
   hashes[profileId] = {
     passwordHash: newPasswordHash,
     recoveryKeyHash: newRecoveryKeyHash,
+    wrappedKey: wrapDataKey(dataKey, newPassword),
+    recoveryWrappedKey: wrapDataKey(dataKey, newRecoveryKey),
   };
   savePasswordHashes(hashes);
+  unlockedKeys.set(profileId, dataKey);
 
   console.log(`[Profile Manager] Password recovered/reset for profile: ${profileId}`);
   
@@ -1344,6 +1761,16 @@ export function verifyProfilePassword(profileId: string, password: string): bool
   // If password is valid, cache it for future use (e.g., exports)
   if (isValid) {
     cacheProfilePassword(profileId, password);
+
+    // Unlock the database encryption key
+    if (typeof profileData !== 'string' && profileData.wrappedKey && !unlockedKeys.has(profileId)) {
+      const dataKey = unwrapDataKey(profileData.wrappedKey, password);
+      if (!dataKey) {
+        console.error(`[Profile Manager] Password verified but encryption key could not be unwrapped for profile: ${profileId}`);
+        return false;
+      }
+      unlockedKeys.set(profileId, dataKey);
+    }
   }
   
   return isValid;
@@ -1394,10 +1821,21 @@ export function removeProfilePassword(profileId: string, password: string): void
     throw new Error('Incorrect password');
   }
 
-  // Remove password hash
+  // Decrypt the database and attachments back to plaintext
   const hashes = loadPasswordHashes();
+  if (hashes[profileId]?.wrappedKey) {
+    const dataKey = unlockedKeys.get(profileId);
+    if (!dataKey) {
+      throw new Error(`Profile "${profileId}" is locked`);
+    }
+    rewriteProfileFiles(profile, dataKey, null);
+    lockProfile(profileId);
+  }
+
+  // Remove password hash
   delete hashes[profileId];
   savePasswordHashes(hashes);
+  clearCachedPassword(profileId);
 
   // Update profile metadata
   const metadata = loadProfilesMetadata();
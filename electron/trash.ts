@@ -0,0 +1,103 @@
+import { deleteEntry, flushDatabase, getCurrentProfile, getEntryById, getPreference, getTrashedEntries, getTrashedEntryIdsBefore } from './database';
+import { releaseAttachmentFiles } from './attachment-store';
+
+const CHECK_INTERVAL_MS = 1000 * 60 * 60; // 1 hour
+const STARTUP_DELAY_MS = 1000 * 60; // Let the app finish loading first
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DEFAULT_RETENTION_DAYS = 30;
+
+let checkTimer: NodeJS.Timeout | null = null;
+let startupTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Permanently delete entries in the trash, along with the attachment files no other entry uses.
+ * IDs of entries that are not in the trash are ignored.
+ *
+ * @returns Number of entries deleted
+ */
+export function purgeTrashedEntries(ids: number[]): number {
+  let purged = 0;
+  for (const id of ids) {
+    const entry = getEntryById(id);
+    if (!entry?.deletedAt) {
+      continue;
+    }
+    deleteEntry(id);
+    releaseAttachmentFiles(entry.attachments || []);
+    purged++;
+  }
+  if (purged > 0) {
+    flushDatabase();
+  }
+  return purged;
+}
+
+/**
+ * Permanently delete every entry in the trash
+ *
+ * @returns Number of entries deleted
+ */
+export function emptyTrash(): number {
+  return purgeTrashedEntries(getTrashedEntries().map(entry => entry.id!));
+}
+
+/**
+ * Permanently delete the entries that have been in the trash longer than the
+ * trashRetentionDays preference. A retention of 0 keeps them until the trash is emptied.
+ *
+ * @returns Number of entries deleted
+ */
+export function purgeExpiredTrash(): number {
+  if (!getCurrentProfile()) {
+    return 0;
+  }
+
+  let retentionDays: number;
+  try {
+    retentionDays = getPreference('trashRetentionDays') ?? DEFAULT_RETENTION_DAYS;
+  } catch {
+    return 0; // Database closed (e.g. mid profile switch)
+  }
+  if (!(retentionDays > 0)) {
+    return 0;
+  }
+
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+  const purged = purgeTrashedEntries(getTrashedEntryIdsBefore(cutoff));
+  if (purged > 0) {
+    console.log(`[Trash] Permanently deleted ${purged} entries older than ${retentionDays} days`);
+  }
+  return purged;
+}
+
+function runScheduledCleanup(): void {
+  try {
+    purgeExpiredTrash();
+  } catch (error) {
+    console.error('[Trash] Scheduled cleanup failed:', error);
+  }
+}
+
+/**
+ * Start emptying expired entries from the trash. The open profile's retention is read
+ * on every check, so profile switches and preference changes need no rescheduling.
+ */
+export function startTrashCleanup(): void {
+  stopTrashCleanup();
+  startupTimer = setTimeout(runScheduledCleanup, STARTUP_DELAY_MS);
+  checkTimer = setInterval(runScheduledCleanup, CHECK_INTERVAL_MS);
+  // Don't keep the process alive just for the trash
+  startupTimer.unref();
+  checkTimer.unref();
+}
+
+export function stopTrashCleanup(): void {
+  if (startupTimer) {
+    clearTimeout(startupTimer);
+    startupTimer = null;
+  }
+  if (checkTimer) {
+    clearInterval(checkTimer);
+    checkTimer = null;
+  }
+}
@@ -1,7 +1,7 @@
 export interface JournalEntry {
   id?: number;
   date: string; // ISO date string (YYYY-MM-DD) - canonical date for the time range
-  timeRange: 'decade' | 'year' | 'month' | 'week' | 'day'; // Time scale for this entry
+  timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day'; // Time scale for this entry
   hour?: number | null; // Optional hour (0-23), null when cleared
   minute?: number | null; // Optional minute (0-59), null when cleared
   second?: number | null; // Optional second (0-59), null when cleared
@@ -11,9 +11,13 @@ export interface JournalEntry {
   updatedAt: string; // ISO datetime string
   tags?: string[];
   linkedEntries?: number[]; // Array of entry IDs this entry is linked to
+  links?: EntryLinkTarget[]; // Typed outgoing links; when saved, replaces the links implied by linkedEntries
   archived?: boolean; // Whether this entry is archived
   pinned?: boolean; // Whether this entry is pinned/favorited
   attachments?: EntryAttachment[]; // Array of file attachments
+  calendar?: string; // Calendar system the entry's period is defined in (e.g. 'hebrew'); Gregorian when absent
+  periodEnd?: string; // Last day (YYYY-MM-DD) of a calendar-native decade/year/month period
+  deletedAt?: string; // ISO datetime the entry was moved to the trash; absent for entries not in the trash
 }
 
 export interface EntryAttachment {
@@ -23,12 +27,82 @@ export interface EntryAttachment {
   fileSize: number; // File size in bytes
   mimeType: string; // MIME type of the file
   createdAt: string; // When attachment was added
+  hash?: string; // SHA-256 of the file contents; missing for files stored before deduplication
 }
 
-export type TimeRange = 'decade' | 'year' | 'month' | 'week' | 'day';
+export type ThumbnailSize = 'small' | 'large';
+
+export interface AttachmentIssue {
+  entryId: number;
+  attachmentId: string;
+  fileName: string;
+}
+
+export interface AttachmentRepairSummary {
+  relinked: number; // Records pointed at an intact copy of the same contents
+  removedRecords: number; // Records of missing files removed from their entries
+  migrated: number; // Records moved to shared, content-addressed files
+  deletedFiles: number;
+  freedBytes: number;
+}
+
+export interface AttachmentMaintenanceReport {
+  checkedAttachments: number; // Attachment records across all entries
+  storedFiles: number; // Distinct files those records point to
+  missing: AttachmentIssue[];
+  corrupted: AttachmentIssue[]; // Unreadable, or no longer matching their hash
+  orphanedFiles: string[]; // Files in the profile's attachment folder that no entry uses
+  unmigrated: number; // Records still pointing at per-entry copies from before deduplication
+  reclaimableBytes: number; // Held by orphaned files and duplicate copies
+  repair?: AttachmentRepairSummary; // Present when the check also repaired what it found
+}
+
+export type TimeRange = 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day';
+
+/**
+ * A decade/year/month period defined in a non-Gregorian calendar, as Gregorian bounds
+ */
+export interface CalendarPeriod {
+  calendar: string;
+  startDate: string; // First day (YYYY-MM-DD)
+  endDate: string; // Last day (YYYY-MM-DD)
+}
 
 // Supported export formats for storybook export
-export type ExportFormat = 'markdown' | 'text' | 'json' | 'rtf' | 'pdf' | 'dec' | 'csv';
+export type ExportFormat = 'markdown' | 'text' | 'json' | 'rtf' | 'pdf' | 'dec' | 'csv' | 'ics' | 'bundle';
+
+// Supported import formats
+export type ImportFormat = 'json' | 'markdown' | 'ics' | 'dayone' | 'journey' | 'obsidian' | 'bundle';
+
+// How a likely duplicate is handled on import
+export type ImportConflictResolution = 'skip' | 'overwrite' | 'keep-both';
+
+// One row of the dry-run preview shown before an import is committed
+export interface ImportPreviewItem {
+  index: number; // Position in the parsed file
+  date: string;
+  timeRange: TimeRange;
+  title: string;
+  snippet: string; // Start of the content, whitespace collapsed
+  tags: string[];
+  attachmentCount: number;
+  duplicateOf?: { id: number; title: string; updatedAt: string }; // Stored entry with the same date, range and text
+  duplicateOfImportIndex?: number; // Earlier entry in the same file with the same date, range and text
+}
+
+// The user's answer to an import preview; null cancels the import
+export interface ImportDecision {
+  resolutions: Record<number, ImportConflictResolution>; // Keyed by ImportPreviewItem.index
+}
+
+// Outcome of the most recent database backup of a profile
+export interface BackupStatus {
+  lastAttemptAt?: string;
+  lastSuccessAt?: string;
+  lastBackupPath?: string;
+  lastError?: string; // Set when the last attempt failed
+  automatic?: boolean; // Whether the last attempt was made by the scheduler
+}
 
 export interface ExportMetadata {
   // Project/Export Identity
@@ -96,6 +170,97 @@ export interface EntryVersion {
   versionCreatedAt: string;
 }
 
+// How an entry relates to the entry it links to; 'related' is a plain link.
+// 'mentions' links come from [[...]] references in the content and are managed on save.
+export type EntryRelation = 'related' | 'follows-up' | 'contradicts' | 'same-event' | 'caused-by' | 'mentions';
+
+// Relations that can be chosen by hand
+export const ENTRY_RELATIONS: EntryRelation[] = ['related', 'follows-up', 'contradicts', 'same-event', 'caused-by'];
+
+export interface EntryLinkTarget {
+  targetId: number;
+  relation: EntryRelation;
+}
+
+// A stored link between two entries, with the entry at the other end
+export interface EntryLink {
+  id: number;
+  sourceId: number;
+  targetId: number;
+  relation: EntryRelation;
+  createdAt: string;
+  entry: JournalEntry;
+}
+
+/**
+ * Links of one entry: the entries it links to and the entries linking to it (backlinks)
+ */
+export interface EntryLinks {
+  outgoing: EntryLink[];
+  incoming: EntryLink[];
+}
+
+/**
+ * A full-text search hit, ranked by bm25 (lower rank = better match).
+ * Snippets mark matched terms with SEARCH_HIGHLIGHT_START / SEARCH_HIGHLIGHT_END.
+ */
+export interface EntrySearchResult {
+  entry: JournalEntry;
+  rank: number;
+  titleSnippet: string; // Full title with matches highlighted
+  contentSnippet: string; // Excerpt of the content around the best match
+}
+
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_END = '\u0003';
+
+/**
+ * Response for a structured search query (tag:, range:, after:, ...)
+ */
+export interface SearchQueryResponse {
+  results: EntrySearchResult[];
+  errors: string[]; // Filters that could not be understood
+}
+
+/**
+ * Filter panel selections from SearchView, applied on top of the query string
+ */
+export interface SearchFilters {
+  tags?: string[];
+  timeRanges?: TimeRange[];
+  startDate?: string; // Inclusive (YYYY-MM-DD)
+  endDate?: string; // Inclusive (YYYY-MM-DD)
+}
+
+export type SearchSortField = 'relevance' | 'date' | 'title' | 'timeRange';
+
+/**
+ * A search saved from SearchView, shown as a smart collection in JournalList
+ */
+export interface SavedSearch {
+  id?: number;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  sortBy: SearchSortField;
+  sortOrder: 'asc' | 'desc';
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A change applied to many selected entries at once, in a single transaction.
+ * 'trash' with trashed: false restores entries from the trash; a 'move' sets the
+ * canonical date of the new period.
+ */
+export type BulkEntryOperation =
+  | { type: 'add-tags'; tags: string[] }
+  | { type: 'remove-tags'; tags: string[] }
+  | { type: 'archive'; archived: boolean }
+  | { type: 'pin'; pinned: boolean }
+  | { type: 'move'; date: string; timeRange: TimeRange }
+  | { type: 'trash'; trashed: boolean };
+
 // Preferences interface is defined in database.ts
 // Import it directly from there when needed
 
@@ -0,0 +1,37 @@
+/**
+ * Tests for content-addressed attachment storage helpers
+ */
+
+import { hashAttachmentData, getStoredAttachmentName, findOrphanedFiles } from '../attachmentIntegrity';
+
+const HELLO_HASH = '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824';
+
+describe('attachmentIntegrity', () => {
+  describe('hashAttachmentData', () => {
+    it('should return the SHA-256 hex digest', () => {
+      expect(hashAttachmentData(Buffer.from('hello'))).toBe(HELLO_HASH);
+    });
+  });
+
+  describe('getStoredAttachmentName', () => {
+    it('should keep a lowercased extension', () => {
+      expect(getStoredAttachmentName(HELLO_HASH, 'Beach Photo.JPG')).toBe(`${HELLO_HASH}.jpg`);
+    });
+
+    it('should drop missing or unusual extensions', () => {
+      expect(getStoredAttachmentName(HELLO_HASH, 'README')).toBe(HELLO_HASH);
+      expect(getStoredAttachmentName(HELLO_HASH, '.hidden')).toBe(HELLO_HASH);
+      expect(getStoredAttachmentName(HELLO_HASH, 'notes.tar gz')).toBe(HELLO_HASH);
+    });
+  });
+
+  describe('findOrphanedFiles', () => {
+    it('should keep used files and their thumbnails', () => {
+      const used = new Set(['aaa.jpg']);
+      expect(findOrphanedFiles(
+        ['aaa.jpg', 'aaa.thumb-320.jpg', 'bbb.png', 'bbb.thumb-1280.png', 'aaa.jpg.tmp-1-2'],
+        used
+      )).toEqual(['bbb.png', 'bbb.thumb-1280.png', 'aaa.jpg.tmp-1-2']);
+    });
+  });
+});
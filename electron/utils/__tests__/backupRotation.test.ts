@@ -0,0 +1,52 @@
+/**
+ * Tests for automatic backup naming, scheduling and rotation
+ */
+
+import { getAutoBackupBaseName, getBackupsToPrune, isBackupDue } from '../backupRotation';
+
+describe('backupRotation', () => {
+  describe('getAutoBackupBaseName', () => {
+    it('should name backups after the profile and a file-safe timestamp', () => {
+      expect(getAutoBackupBaseName('my journal', new Date('2026-10-19T08:05:03.250Z')))
+        .toBe('calenrecall-auto-my_journal-2026-10-19T08-05-03-250Z');
+    });
+  });
+
+  describe('getBackupsToPrune', () => {
+    it('should keep the newest backups of the profile only', () => {
+      const files = [
+        `${getAutoBackupBaseName('work', new Date('2026-10-03T00:00:00Z'))}.db`,
+        `${getAutoBackupBaseName('work', new Date('2026-10-01T00:00:00Z'))}.db`,
+        `${getAutoBackupBaseName('work', new Date('2026-10-01T00:00:00Z'))}-attachments.zip`,
+        `${getAutoBackupBaseName('work', new Date('2026-10-02T00:00:00Z'))}.db`,
+        `${getAutoBackupBaseName('work-old', new Date('2026-09-01T00:00:00Z'))}.db`,
+        'calenrecall-backup-work-2026-09-01T00-00-00-000Z.db',
+        'notes.txt',
+      ];
+
+      expect(getBackupsToPrune(files, 'work', 2)).toEqual([
+        getAutoBackupBaseName('work', new Date('2026-10-01T00:00:00Z')),
+      ]);
+    });
+
+    it('should always keep at least one backup', () => {
+      const files = [`${getAutoBackupBaseName('default', new Date('2026-10-01T00:00:00Z'))}.db`];
+
+      expect(getBackupsToPrune(files, 'default', 0)).toEqual([]);
+    });
+  });
+
+  describe('isBackupDue', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    it('should be due when no backup has succeeded yet', () => {
+      expect(isBackupDue(undefined, 24, now)).toBe(true);
+      expect(isBackupDue({ lastAttemptAt: '2026-10-19T11:00:00Z', lastError: 'disk full' }, 24, now)).toBe(true);
+    });
+
+    it('should wait for the interval after the last success', () => {
+      expect(isBackupDue({ lastSuccessAt: '2026-10-19T00:00:00Z' }, 24, now)).toBe(false);
+      expect(isBackupDue({ lastSuccessAt: '2026-10-18T12:00:00Z' }, 24, now)).toBe(true);
+    });
+  });
+});
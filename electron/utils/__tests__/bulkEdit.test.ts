@@ -0,0 +1,32 @@
+/**
+ * Tests for the tag changes made by bulk edits
+ */
+
+import { addTags, removeTags } from '../bulkEdit';
+
+describe('bulkEdit', () => {
+  describe('addTags', () => {
+    it('should append tags the entry does not have', () => {
+      expect(addTags(['travel'], ['family', ' 1999 '])).toEqual(['travel', 'family', '1999']);
+    });
+
+    it('should ignore tags already present in another case, blanks and repeats', () => {
+      const tags = ['Travel'];
+
+      expect(addTags(tags, ['travel', ' ', 'TRAVEL'])).toBe(tags);
+      expect(addTags([], ['work', 'Work'])).toEqual(['work']);
+    });
+  });
+
+  describe('removeTags', () => {
+    it('should remove tags whatever their case', () => {
+      expect(removeTags(['Travel', 'family', 'work'], ['travel', 'WORK'])).toEqual(['family']);
+    });
+
+    it('should return the same list when no tag matches', () => {
+      const tags = ['family'];
+
+      expect(removeTags(tags, ['travel'])).toBe(tags);
+    });
+  });
+});
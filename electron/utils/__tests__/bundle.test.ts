@@ -0,0 +1,81 @@
+/**
+ * Tests for entry bundles
+ */
+
+import { createBundleManifest, parseBundleManifest, remapLinkedEntries, remapAttachmentEmbeds, getBundleAttachmentPath } from '../bundle';
+import { JournalEntry } from '../../types';
+
+const attachment = {
+  id: '1700000000000-abc',
+  fileName: 'beach photo.jpg',
+  filePath: '/data/attachments/4-1700000000000-abc.jpg',
+  fileSize: 1024,
+  mimeType: 'image/jpeg',
+  createdAt: '2024-03-15T08:00:00.000Z',
+};
+
+const entry: JournalEntry = {
+  id: 4,
+  date: '2024-03-15',
+  timeRange: 'day',
+  title: 'Lake day',
+  content: 'Swam twice.',
+  linkedEntries: [9],
+  attachments: [attachment],
+  createdAt: '2024-03-15T08:00:00.000Z',
+  updatedAt: '2024-03-15T08:00:00.000Z',
+};
+
+describe('bundle', () => {
+  describe('createBundleManifest', () => {
+    it('should list entries with archive paths instead of local file paths', () => {
+      const { manifest, files } = createBundleManifest([entry], { exportDate: '2024-04-01T00:00:00.000Z' });
+
+      expect(manifest.entryCount).toBe(1);
+      expect(manifest.exportedAt).toBe('2024-04-01T00:00:00.000Z');
+      expect(manifest.entries[0]).toMatchObject({ id: 4, linkedEntries: [9] });
+      expect(manifest.entries[0].attachments[0]).toEqual({
+        id: attachment.id,
+        fileName: attachment.fileName,
+        fileSize: 1024,
+        mimeType: 'image/jpeg',
+        createdAt: attachment.createdAt,
+        path: 'attachments/4/1700000000000-abc-beach photo.jpg',
+      });
+      expect(JSON.stringify(manifest)).not.toContain('/data/attachments');
+      expect(files).toEqual([{ sourcePath: attachment.filePath, archivePath: 'attachments/4/1700000000000-abc-beach photo.jpg' }]);
+    });
+
+    it('should keep archive paths inside the attachments folder', () => {
+      expect(getBundleAttachmentPath(1, { ...attachment, id: '../x', fileName: '../../evil.sh' })).toBe('attachments/1/x-evil.sh');
+    });
+  });
+
+  describe('parseBundleManifest', () => {
+    it('should read manifests it wrote and reject other JSON', () => {
+      const { manifest } = createBundleManifest([entry]);
+
+      expect(parseBundleManifest(JSON.stringify(manifest)).entries).toHaveLength(1);
+      expect(() => parseBundleManifest('[]')).toThrow('Not a CalenRecall bundle');
+      expect(() => parseBundleManifest(JSON.stringify({ ...manifest, version: 99 }))).toThrow('Unsupported bundle version');
+    });
+  });
+
+  describe('remapLinkedEntries', () => {
+    it('should map old IDs to new ones and drop links outside the import', () => {
+      const idMap = new Map([[9, 120], [4, 119]]);
+
+      expect(remapLinkedEntries([9, 5, 4, 9], idMap)).toEqual([120, 119]);
+      expect(remapLinkedEntries(undefined, idMap)).toEqual([]);
+    });
+  });
+
+  describe('remapAttachmentEmbeds', () => {
+    it('should point embeds at the imported attachments', () => {
+      const idMap = new Map([['1700000000000-abc', '1800000000000-xyz']]);
+
+      expect(remapAttachmentEmbeds('![Beach](attachment:1700000000000-abc) ![](attachment:other) attachment:1700000000000-abc', idMap))
+        .toBe('![Beach](attachment:1800000000000-xyz) ![](attachment:other) attachment:1700000000000-abc');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for wiki-style references in entry content
+ */
+
+import { parseContentReferences, mergeContentTags, splitContentReferences } from '../contentReferences';
+
+describe('contentReferences', () => {
+  describe('parseContentReferences', () => {
+    it('should find date and title references', () => {
+      expect(parseContentReferences('Back at [[1999-06-12]] after [[Summer Trip]] and [[summer trip]].')).toEqual({
+        dates: ['1999-06-12'],
+        titles: ['Summer Trip'],
+        tags: [],
+      });
+    });
+
+    it('should treat invalid dates as titles', () => {
+      expect(parseContentReferences('[[1999-13-40]] [[-0044-03-15]]')).toEqual({
+        dates: ['-0044-03-15'],
+        titles: ['1999-13-40'],
+        tags: [],
+      });
+    });
+
+    it('should find tags but not headings, numbers or URL fragments', () => {
+      const content = '# Heading\nA #Travel day (#family) with #2024 and #work/. See https://example.com/page#section';
+      expect(parseContentReferences(content).tags).toEqual(['Travel', 'family', 'work']);
+    });
+
+    it('should ignore references in code and hex colors', () => {
+      const content = 'Set `color: #fff` and #1a2b3c on #design\n```\n#include [[Not a link]]\n```\nDone #done';
+      expect(parseContentReferences(content)).toEqual({ dates: [], titles: [], tags: ['design', 'done'] });
+    });
+
+    it('should return nothing for empty content', () => {
+      expect(parseContentReferences('')).toEqual({ dates: [], titles: [], tags: [] });
+    });
+  });
+
+  describe('splitContentReferences', () => {
+    it('should split out dates, entry references and tags', () => {
+      expect(splitContentReferences('See [[1999-06-12]] and [[ Summer Trip ]] #travel/.')).toEqual([
+        { type: 'text', text: 'See ' },
+        { type: 'date', text: '[[1999-06-12]]', date: '1999-06-12' },
+        { type: 'text', text: ' and ' },
+        { type: 'entry', text: '[[ Summer Trip ]]', title: 'Summer Trip' },
+        { type: 'text', text: ' ' },
+        { type: 'tag', text: '#travel', tag: 'travel' },
+        { type: 'text', text: '/.' },
+      ]);
+    });
+
+    it('should leave headings, numbers, URL fragments and code as text', () => {
+      const content = '# Heading\nItem #2 at https://example.com/page#section\n`[[2001-01-01]] #tag`';
+      expect(splitContentReferences(content)).toEqual([{ type: 'text', text: content }]);
+    });
+
+    it('should give back the content when the segments are joined', () => {
+      const content = '#start of [[2001-01-01]] (#nested) [[]] `#code` end';
+      expect(splitContentReferences(content).map(segment => segment.text).join('')).toBe(content);
+    });
+  });
+
+  describe('mergeContentTags', () => {
+    it('should add tags written in the content', () => {
+      expect(mergeContentTags(['manual'], '', 'Today #hiking and #Manual')).toEqual(['manual', 'hiking']);
+    });
+
+    it('should drop tags removed from the content but keep tags added by hand', () => {
+      expect(mergeContentTags(['manual', 'hiking', 'rain'], 'Went #hiking in the #rain', 'Went walking in the #rain'))
+        .toEqual(['manual', 'rain']);
+    });
+  });
+});
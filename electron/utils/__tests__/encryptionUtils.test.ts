@@ -0,0 +1,96 @@
+/**
+ * Tests for at-rest encryption utilities
+ */
+
+import {
+  generateDataKey,
+  wrapDataKey,
+  unwrapDataKey,
+  encryptBuffer,
+  decryptBuffer,
+  isEncryptedBuffer,
+  isEncryptedFile,
+  encryptFileInPlace,
+  decryptFileInPlace,
+} from '../encryptionUtils';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('encryptionUtils', () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'calenrecall-enc-test-'));
+
+  afterAll(() => {
+    // Cleanup
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('wrapDataKey / unwrapDataKey', () => {
+    it('should unwrap a data key with the same secret', () => {
+      const dataKey = generateDataKey();
+      const wrapped = wrapDataKey(dataKey, 'correct horse');
+
+      expect(unwrapDataKey(wrapped, 'correct horse')?.equals(dataKey)).toBe(true);
+    });
+
+    it('should return null for a wrong secret', () => {
+      const wrapped = wrapDataKey(generateDataKey(), 'correct horse');
+
+      expect(unwrapDataKey(wrapped, 'battery staple')).toBeNull();
+    });
+
+    it('should return null for a malformed wrapped key', () => {
+      expect(unwrapDataKey('not-a-wrapped-key', 'secret')).toBeNull();
+    });
+
+    it('should reject an empty secret when wrapping', () => {
+      expect(() => wrapDataKey(generateDataKey(), '')).toThrow();
+    });
+  });
+
+  describe('encryptBuffer / decryptBuffer', () => {
+    it('should round-trip data', () => {
+      const dataKey = generateDataKey();
+      const plaintext = Buffer.from('Dear diary, today was a good day.');
+      const encrypted = encryptBuffer(plaintext, dataKey);
+
+      expect(isEncryptedBuffer(encrypted)).toBe(true);
+      expect(encrypted.includes(plaintext)).toBe(false);
+      expect(decryptBuffer(encrypted, dataKey).equals(plaintext)).toBe(true);
+    });
+
+    it('should fail to decrypt with the wrong key', () => {
+      const encrypted = encryptBuffer(Buffer.from('secret'), generateDataKey());
+
+      expect(() => decryptBuffer(encrypted, generateDataKey())).toThrow();
+    });
+
+    it('should refuse to decrypt plaintext', () => {
+      expect(() => decryptBuffer(Buffer.from('plain'), generateDataKey())).toThrow('Data is not encrypted');
+    });
+  });
+
+  describe('file helpers', () => {
+    it('should encrypt and decrypt a file in place', () => {
+      const dataKey = generateDataKey();
+      const filePath = path.join(tempDir, 'attachment.txt');
+      fs.writeFileSync(filePath, 'attachment contents');
+
+      encryptFileInPlace(filePath, dataKey);
+      expect(isEncryptedFile(filePath)).toBe(true);
+
+      // Encrypting twice must not double-encrypt
+      encryptFileInPlace(filePath, dataKey);
+
+      decryptFileInPlace(filePath, dataKey);
+      expect(isEncryptedFile(filePath)).toBe(false);
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe('attachment contents');
+    });
+
+    it('should report missing files as not encrypted', () => {
+      expect(isEncryptedFile(path.join(tempDir, 'missing.db'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for full-text search query building
+ */
+
+import { buildFtsQuery, buildPlainFtsQuery, buildAnyPhraseFtsQuery } from '../ftsQuery';
+
+describe('ftsQuery', () => {
+  describe('buildFtsQuery', () => {
+    it('should quote plain words', () => {
+      expect(buildFtsQuery('summer holiday')).toBe('"summer" "holiday"');
+    });
+
+    it('should keep exact phrases', () => {
+      expect(buildFtsQuery('"first day of school"')).toBe('"first day of school"');
+    });
+
+    it('should keep prefix queries', () => {
+      expect(buildFtsQuery('travel*')).toBe('"travel"*');
+    });
+
+    it('should keep boolean operators and groups', () => {
+      expect(buildFtsQuery('(paris OR rome) AND food NOT work'))
+        .toBe('("paris" OR "rome") AND "food" NOT "work"');
+    });
+
+    it('should keep NEAR groups with a distance', () => {
+      expect(buildFtsQuery('NEAR(grandma recipe, 5)')).toBe('NEAR("grandma" "recipe", 5)');
+    });
+
+    it('should quote words containing punctuation', () => {
+      expect(buildFtsQuery("don't e-mail")).toBe('"don\'t" "e-mail"');
+    });
+
+    it('should drop dangling operators and empty groups', () => {
+      expect(buildFtsQuery('OR cats AND')).toBe('"cats"');
+      expect(buildFtsQuery('() dogs')).toBe('"dogs"');
+    });
+
+    it('should close unbalanced groups and phrases', () => {
+      expect(buildFtsQuery('(beach "sunny day')).toBe('("beach" "sunny day")');
+    });
+
+    it('should return null when nothing is searchable', () => {
+      expect(buildFtsQuery('')).toBeNull();
+      expect(buildFtsQuery('AND OR ()')).toBeNull();
+      expect(buildFtsQuery('!!! ---')).toBeNull();
+    });
+  });
+
+  describe('buildPlainFtsQuery', () => {
+    it('should match all words and strip syntax characters', () => {
+      expect(buildPlainFtsQuery('NEAR(a "b"*')).toBe('"NEARa" "b"');
+    });
+
+    it('should return null for empty input', () => {
+      expect(buildPlainFtsQuery('   ')).toBeNull();
+    });
+  });
+
+  describe('buildAnyPhraseFtsQuery', () => {
+    it('should match any of the texts as a quoted phrase', () => {
+      expect(buildAnyPhraseFtsQuery(['2024-03-01', 'Say "hi"'])).toBe('"2024-03-01" OR "Say ""hi"""');
+    });
+
+    it('should return null when a text has nothing searchable', () => {
+      expect(buildAnyPhraseFtsQuery(['2024-03-01', '?!'])).toBeNull();
+      expect(buildAnyPhraseFtsQuery([])).toBeNull();
+    });
+  });
+});
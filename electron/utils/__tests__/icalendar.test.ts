@@ -0,0 +1,149 @@
+/**
+ * Tests for iCalendar export and import
+ */
+
+import { formatAsICalendar, parseICalendarImport, parseICalendarComponents, escapeText, unescapeText, parseContentLine } from '../icalendar';
+import { JournalEntry } from '../../types';
+
+const baseEntry: JournalEntry = {
+  date: '2024-03-15',
+  timeRange: 'day',
+  title: 'Trip, day one',
+  content: 'Left early; drove north.\nStopped at the lake.',
+  createdAt: '2024-03-15T08:00:00.000Z',
+  updatedAt: '2024-03-16T09:30:00.000Z',
+};
+
+describe('icalendar', () => {
+  describe('escapeText', () => {
+    it('should escape and unescape special characters', () => {
+      const text = 'a,b;c\\d\ne';
+      expect(escapeText(text)).toBe('a\\,b\\;c\\\\d\\ne');
+      expect(unescapeText(escapeText(text))).toBe(text);
+    });
+  });
+
+  describe('parseContentLine', () => {
+    it('should keep colons inside quoted parameters', () => {
+      const property = parseContentLine('DTSTART;TZID="America/New_York:x":20240315T100000');
+
+      expect(property?.name).toBe('DTSTART');
+      expect(property?.params.TZID).toBe('America/New_York:x');
+      expect(property?.value).toBe('20240315T100000');
+    });
+  });
+
+  describe('formatAsICalendar', () => {
+    it('should export timed day entries as events and others as journals', () => {
+      const ics = formatAsICalendar([
+        { ...baseEntry, id: 1, hour: 14, minute: 5, second: 0, tags: ['travel', 'family'], linkedEntries: [2] },
+        { ...baseEntry, id: 2, timeRange: 'month', date: '2024-03-01' },
+      ]);
+
+      expect(ics).toContain('BEGIN:VEVENT');
+      expect(ics).toContain('DTSTART:20240315T140500');
+      expect(ics).toContain('CATEGORIES:travel,family');
+      expect(ics).toContain('RELATED-TO;RELTYPE=SIBLING:calenrecall-entry-2@calenrecall');
+      expect(ics).toContain('BEGIN:VJOURNAL');
+      expect(ics).toContain('DTSTART;VALUE=DATE:20240301');
+      expect(ics).toContain('X-CALENRECALL-TIME-RANGE:month');
+    });
+
+    it('should fold long lines to 75 octets', () => {
+      const ics = formatAsICalendar([{ ...baseEntry, content: 'é'.repeat(200) }]);
+
+      for (const line of ics.split('\r\n')) {
+        expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+      }
+    });
+
+    it('should keep dates iCalendar cannot represent in an extension property', () => {
+      const ics = formatAsICalendar([{ ...baseEntry, date: '-0044-03-15' }]);
+
+      expect(ics).not.toContain('DTSTART');
+      expect(ics).toContain('X-CALENRECALL-DATE:-0044-03-15');
+    });
+  });
+
+  describe('parseICalendarImport', () => {
+    it('should round-trip exported entries', () => {
+      const entries: JournalEntry[] = [
+        { ...baseEntry, id: 1, hour: 14, minute: 5, second: 30, tags: ['travel'], linkedEntries: [2], pinned: true },
+        { ...baseEntry, id: 2, timeRange: 'year', date: '-0044-01-01', title: 'Ides', content: '' },
+        { ...baseEntry, id: 3, timeRange: 'month', date: '2024-07-07', calendar: 'islamic', periodEnd: '2024-08-05' },
+      ];
+
+      const imported = parseICalendarImport(formatAsICalendar(entries));
+
+      expect(imported).toHaveLength(3);
+      expect(imported[0]).toMatchObject({
+        date: '2024-03-15',
+        timeRange: 'day',
+        hour: 14,
+        minute: 5,
+        second: 30,
+        title: baseEntry.title,
+        content: baseEntry.content,
+        tags: ['travel'],
+        linkedEntries: [2],
+        pinned: true,
+        archived: false,
+        createdAt: baseEntry.createdAt,
+        updatedAt: baseEntry.updatedAt,
+      });
+      expect(imported[1]).toMatchObject({ date: '-0044-01-01', timeRange: 'year', hour: null });
+      expect(imported[2]).toMatchObject({ calendar: 'islamic', periodEnd: '2024-08-05' });
+    });
+
+    it('should import events from other calendar tools', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Example//EN',
+        'BEGIN:VEVENT',
+        'UID:abc@example.com',
+        'DTSTAMP:20240101T000000Z',
+        'DTSTART;VALUE=DATE:20240704',
+        'SUMMARY:Fireworks',
+        'DESCRIPTION:Bring a long',
+        '  blanket',
+        'CATEGORIES:Holiday,Outdoors',
+        'RELATED-TO:other@example.com',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+        'END:VEVENT',
+        'BEGIN:VTODO',
+        'SUMMARY:Not an entry',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const imported = parseICalendarImport(ics);
+
+      expect(imported).toHaveLength(1);
+      expect(imported[0]).toMatchObject({
+        date: '2024-07-04',
+        timeRange: 'day',
+        title: 'Fireworks',
+        content: 'Bring a long blanket',
+        tags: ['Holiday', 'Outdoors'],
+        linkedEntries: [],
+        hour: null,
+      });
+    });
+
+    it('should return the exported IDs so links can be restored', () => {
+      const ics = formatAsICalendar([{ ...baseEntry, id: 12 }, { ...baseEntry, title: 'Unsaved' }]);
+
+      expect(parseICalendarComponents(ics).map(component => component.sourceId)).toEqual([12, null]);
+    });
+
+    it('should skip components without a date', () => {
+      const ics = 'BEGIN:VCALENDAR\nBEGIN:VJOURNAL\nSUMMARY:Undated\nEND:VJOURNAL\nEND:VCALENDAR';
+
+      expect(parseICalendarImport(ics)).toEqual([]);
+    });
+  });
+});
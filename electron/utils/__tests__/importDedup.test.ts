@@ -0,0 +1,56 @@
+/**
+ * Tests for import duplicate detection
+ */
+
+import { getDuplicateKey, buildImportPreview, getDefaultResolution } from '../importDedup';
+import { JournalEntry } from '../../types';
+
+const entry = (overrides: Partial<JournalEntry> = {}): JournalEntry => ({
+  date: '2024-03-15',
+  timeRange: 'day',
+  title: 'Lake day',
+  content: 'Swam twice.',
+  createdAt: '2024-03-15T08:00:00.000Z',
+  updatedAt: '2024-03-15T08:00:00.000Z',
+  ...overrides,
+});
+
+describe('importDedup', () => {
+  describe('getDuplicateKey', () => {
+    it('should ignore case, trailing whitespace and line endings', () => {
+      expect(getDuplicateKey(entry({ title: 'LAKE DAY ', content: 'Swam\r\ntwice.  ' })))
+        .toBe(getDuplicateKey(entry({ content: 'Swam\ntwice.' })));
+    });
+
+    it('should tell apart entries on other dates or ranges', () => {
+      expect(getDuplicateKey(entry())).not.toBe(getDuplicateKey(entry({ date: '2024-03-16' })));
+      expect(getDuplicateKey(entry())).not.toBe(getDuplicateKey(entry({ timeRange: 'week' })));
+    });
+  });
+
+  describe('buildImportPreview', () => {
+    it('should flag entries matching stored ones and repeats within the file', () => {
+      const stored = entry({ id: 7, updatedAt: '2024-04-01T00:00:00.000Z' });
+      const lookups: string[] = [];
+      const preview = buildImportPreview(
+        [entry(), entry({ title: 'Other' }), entry({ title: 'Other' }), entry({ date: '2024-03-16' })],
+        (date, timeRange) => {
+          lookups.push(`${date}|${timeRange}`);
+          return date === stored.date ? [stored] : [];
+        },
+        index => (index === 0 ? 2 : 0)
+      );
+
+      expect(preview[0]).toMatchObject({
+        index: 0,
+        attachmentCount: 2,
+        duplicateOf: { id: 7, title: 'Lake day', updatedAt: '2024-04-01T00:00:00.000Z' },
+      });
+      expect(preview[1].duplicateOf).toBeUndefined();
+      expect(preview[2].duplicateOfImportIndex).toBe(1);
+      expect(preview[3].duplicateOf).toBeUndefined();
+      expect(lookups).toEqual(['2024-03-15|day', '2024-03-16|day']);
+      expect(preview.map(getDefaultResolution)).toEqual(['skip', 'import', 'skip', 'import']);
+    });
+  });
+});
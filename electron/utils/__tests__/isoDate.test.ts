@@ -0,0 +1,44 @@
+/**
+ * Tests for ISO date strings and Julian Day Numbers
+ */
+
+import { parseISODateParts, isoDateStringToJDN, jdnToISODateString } from '../isoDate';
+
+describe('isoDate', () => {
+  describe('isoDateStringToJDN', () => {
+    it('should match known Julian Day Numbers', () => {
+      expect(isoDateStringToJDN('2000-01-01')).toBe(2451545);
+      expect(isoDateStringToJDN('-4713-11-24')).toBe(0);
+    });
+
+    it('should order negative years chronologically', () => {
+      const dates = ['-0001-12-31', '-65000000-01-01', '0000-01-01', '-0044-03-15', '2024-03-01'];
+      const sorted = [...dates].sort((a, b) => isoDateStringToJDN(a)! - isoDateStringToJDN(b)!);
+
+      expect(sorted).toEqual(['-65000000-01-01', '-0044-03-15', '-0001-12-31', '0000-01-01', '2024-03-01']);
+    });
+  });
+
+  describe('jdnToISODateString', () => {
+    it('should round-trip deep-time and year-zero dates', () => {
+      for (const date of ['-65000000-01-01', '-13800000000-06-30', '0000-02-29', '0001-01-01', '1999-12-31']) {
+        expect(jdnToISODateString(isoDateStringToJDN(date)!)).toBe(date);
+      }
+    });
+  });
+
+  describe('parseISODateParts', () => {
+    it('should parse signed years of any length', () => {
+      expect(parseISODateParts('-65000000-07-04')).toEqual({ year: -65000000, month: 7, day: 4 });
+      expect(parseISODateParts('0099-01-01')).toEqual({ year: 99, month: 1, day: 1 });
+    });
+
+    it('should reject malformed strings and days that do not exist', () => {
+      expect(parseISODateParts('2023-02-29')).toBeNull();
+      expect(parseISODateParts('2024-13-01')).toBeNull();
+      expect(parseISODateParts('24-01-01')).toBeNull();
+      expect(parseISODateParts('2024-01-01T00:00')).toBeNull();
+      expect(parseISODateParts('-99999999999-01-01')).toBeNull();
+    });
+  });
+});
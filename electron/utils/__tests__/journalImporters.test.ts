@@ -0,0 +1,149 @@
+/**
+ * Tests for Day One, Journey and Obsidian importers
+ */
+
+import {
+  parseDayOneExport,
+  parseJourneyEntry,
+  parseObsidianDailyNote,
+  parseFrontMatter,
+  splitTitle,
+  toZonedDateParts,
+} from '../journalImporters';
+
+const files: Record<string, string> = {
+  'photos/abc123.jpeg': 'photo-bytes',
+  'attachments/beach.png': 'png-bytes',
+  'IMG_1.jpg': 'journey-photo',
+};
+const readFile = (relativePath: string) => (files[relativePath] !== undefined ? Buffer.from(files[relativePath]) : null);
+
+describe('journalImporters', () => {
+  describe('toZonedDateParts', () => {
+    it('should use the time zone the entry was written in', () => {
+      const parts = toZonedDateParts(new Date('2024-03-15T23:30:00Z'), 'Asia/Tokyo');
+
+      expect(parts).toEqual({ date: '2024-03-16', hour: 8, minute: 30, second: 0 });
+    });
+  });
+
+  describe('splitTitle', () => {
+    it('should use a leading heading as the title', () => {
+      expect(splitTitle('# Lake day\n\nSwam twice.')).toEqual({ title: 'Lake day', content: 'Swam twice.' });
+    });
+
+    it('should keep the text whole when there is no heading', () => {
+      expect(splitTitle('Swam twice.\nAte ice cream.')).toEqual({
+        title: 'Swam twice.',
+        content: 'Swam twice.\nAte ice cream.',
+      });
+    });
+  });
+
+  describe('parseDayOneExport', () => {
+    it('should convert entries and photos', () => {
+      const json = JSON.stringify({
+        metadata: { version: '1.0' },
+        entries: [{
+          uuid: 'E1',
+          creationDate: '2024-03-15T23:30:00Z',
+          modifiedDate: '2024-03-16T10:00:00Z',
+          timeZone: 'Asia/Tokyo',
+          text: '# Arrived\n\n![](dayone-moment://P1)\nFinally in Tokyo\\!',
+          tags: ['travel', 'Travel', 'japan'],
+          starred: true,
+          photos: [{ identifier: 'P1', md5: 'abc123', type: 'jpeg' }, { identifier: 'P2', md5: 'missing', type: 'png' }],
+        }],
+      });
+
+      const [imported] = parseDayOneExport(json, readFile);
+
+      expect(imported.entry).toMatchObject({
+        date: '2024-03-16',
+        timeRange: 'day',
+        hour: 8,
+        minute: 30,
+        title: 'Arrived',
+        content: 'Finally in Tokyo!',
+        tags: ['travel', 'japan'],
+        pinned: true,
+        createdAt: '2024-03-15T23:30:00.000Z',
+        updatedAt: '2024-03-16T10:00:00.000Z',
+      });
+      expect(imported.attachments.map(a => a.fileName)).toEqual(['abc123.jpeg', 'missing.png']);
+      expect(imported.attachments[0].read()?.toString()).toBe('photo-bytes');
+      expect(imported.attachments[1].read()).toBeNull();
+    });
+  });
+
+  describe('parseJourneyEntry', () => {
+    it('should convert HTML text and photos', () => {
+      const json = JSON.stringify({
+        id: '1',
+        date_journal: Date.UTC(2023, 0, 2, 12, 0, 0),
+        date_modified: Date.UTC(2023, 0, 3),
+        timezone: 'UTC',
+        type: 'html',
+        text: '<p>New year walk</p><p>Cold &amp; bright</p>',
+        tags: ['walks'],
+        favourite: false,
+        photos: ['IMG_1.jpg'],
+      });
+
+      const imported = parseJourneyEntry(json, readFile);
+
+      expect(imported?.entry).toMatchObject({
+        date: '2023-01-02',
+        hour: 12,
+        title: 'New year walk',
+        content: 'New year walk\nCold & bright',
+        tags: ['walks'],
+      });
+      expect(imported?.attachments[0].read()?.toString()).toBe('journey-photo');
+    });
+
+    it('should ignore JSON files that are not entries', () => {
+      expect(parseJourneyEntry('{"version": 2}', readFile)).toBeNull();
+    });
+  });
+
+  describe('parseFrontMatter', () => {
+    it('should parse scalars and both list styles', () => {
+      const { data, body } = parseFrontMatter('---\ntitle: "Quiet day"\ntags: [home, rest]\naliases:\n  - Sunday\n---\nBody');
+
+      expect(data).toEqual({ title: 'Quiet day', tags: ['home', 'rest'], aliases: ['Sunday'] });
+      expect(body).toBe('Body');
+    });
+
+    it('should return the text unchanged without front matter', () => {
+      expect(parseFrontMatter('# Note').body).toBe('# Note');
+    });
+  });
+
+  describe('parseObsidianDailyNote', () => {
+    it('should convert a daily note with front matter and embeds', () => {
+      const note = '---\ntags:\n  - beach\ntime: 09:15\n---\n# Beach\n\n![[beach.png|300]]\n![[Other note]]\nSandy.';
+
+      const imported = parseObsidianDailyNote('2024-07-01.md', note, path => readFile(`attachments/${path}`), '2024-07-02T00:00:00.000Z');
+
+      expect(imported?.entry).toMatchObject({
+        date: '2024-07-01',
+        title: 'Beach',
+        hour: 9,
+        minute: 15,
+        tags: ['beach'],
+        updatedAt: '2024-07-02T00:00:00.000Z',
+      });
+      expect(imported?.attachments.map(a => a.fileName)).toEqual(['beach.png']);
+      expect(imported?.attachments[0].read()?.toString()).toBe('png-bytes');
+    });
+
+    it('should fall back to the date as the title', () => {
+      expect(parseObsidianDailyNote('-0044-03-15.md', 'Beware.', readFile)?.entry.title).toBe('-0044-03-15');
+    });
+
+    it('should ignore notes that are not daily notes', () => {
+      expect(parseObsidianDailyNote('Ideas.md', 'x', readFile)).toBeNull();
+    });
+  });
+});
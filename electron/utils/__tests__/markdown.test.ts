@@ -0,0 +1,98 @@
+/**
+ * Tests for the Markdown parser used by the viewer and exporters
+ */
+
+import { parseMarkdown, parseInline, shiftMarkdownHeadings, inlineToText } from '../markdown';
+
+describe('markdown', () => {
+  describe('parseMarkdown', () => {
+    it('should parse headings, paragraphs and rules', () => {
+      expect(parseMarkdown('# Title #\nfirst line\nsecond line\n\n---')).toEqual([
+        { type: 'heading', level: 1, children: [{ type: 'text', text: 'Title' }] },
+        {
+          type: 'paragraph',
+          children: [{ type: 'text', text: 'first line' }, { type: 'break' }, { type: 'text', text: 'second line' }],
+        },
+        { type: 'rule' },
+      ]);
+    });
+
+    it('should parse nested and task lists', () => {
+      const [list] = parseMarkdown('- [x] done\n- [ ] todo\n  1. sub\n  2. sub two');
+      expect(list).toMatchObject({ type: 'list', ordered: false });
+      if (list.type !== 'list') throw new Error('expected a list');
+      expect(list.items.map(item => item.checked)).toEqual([true, false]);
+      expect(list.items[1].children[1]).toMatchObject({ type: 'list', ordered: true, start: 1 });
+    });
+
+    it('should keep fenced code verbatim', () => {
+      expect(parseMarkdown('```ts\n# not a heading\n**x**\n```')).toEqual([
+        { type: 'code', language: 'ts', text: '# not a heading\n**x**' },
+      ]);
+    });
+
+    it('should parse blockquotes and tables', () => {
+      const blocks = parseMarkdown('> quoted *text*\n\n| a | b |\n|:--|--:|\n| 1 | 2 \\| 3 |');
+      expect(blocks[0]).toEqual({
+        type: 'blockquote',
+        children: [{
+          type: 'paragraph',
+          children: [{ type: 'text', text: 'quoted ' }, { type: 'emphasis', children: [{ type: 'text', text: 'text' }] }],
+        }],
+      });
+      expect(blocks[1]).toMatchObject({ type: 'table', align: ['left', 'right'] });
+      if (blocks[1].type !== 'table') throw new Error('expected a table');
+      expect(blocks[1].rows[0].map(inlineToText)).toEqual(['1', '2 | 3']);
+    });
+  });
+
+  describe('parseInline', () => {
+    it('should parse emphasis, code and strikethrough', () => {
+      expect(parseInline('**bold** _it_ ~~gone~~ `a*b` snake_case_name')).toEqual([
+        { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+        { type: 'text', text: ' ' },
+        { type: 'emphasis', children: [{ type: 'text', text: 'it' }] },
+        { type: 'text', text: ' ' },
+        { type: 'strikethrough', children: [{ type: 'text', text: 'gone' }] },
+        { type: 'text', text: ' ' },
+        { type: 'code', text: 'a*b' },
+        { type: 'text', text: ' snake_case_name' },
+      ]);
+    });
+
+    it('should only keep links with safe URLs', () => {
+      expect(parseInline('[site](https://example.com) [bad](javascript:alert(1)) <b>hi</b>')).toEqual([
+        { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'site' }] },
+        { type: 'text', text: ' bad <b>hi</b>' },
+      ]);
+    });
+
+    it('should parse attachment images and drop unsafe ones', () => {
+      expect(parseInline('![Beach](attachment:1700000000-abc12) ![x](file:///etc/passwd)')).toEqual([
+        { type: 'image', src: 'attachment:1700000000-abc12', alt: 'Beach' },
+        { type: 'text', text: ' !x' },
+      ]);
+    });
+
+    it('should leave wiki references and tags as text', () => {
+      expect(parseInline('See [[Summer Trip]] #travel')).toEqual([
+        { type: 'text', text: 'See [[Summer Trip]] #travel' },
+      ]);
+    });
+
+    it('should link bare URLs without trailing punctuation', () => {
+      expect(parseInline('Read https://example.com/a.')).toEqual([
+        { type: 'text', text: 'Read ' },
+        { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'https://example.com/a' }] },
+        { type: 'text', text: '.' },
+      ]);
+    });
+  });
+
+  describe('shiftMarkdownHeadings', () => {
+    it('should move headings down outside code blocks', () => {
+      expect(shiftMarkdownHeadings('# One\n```\n# code\n```\n##### Five\n#tag', 2))
+        .toBe('### One\n```\n# code\n```\n###### Five\n#tag');
+    });
+  });
+});
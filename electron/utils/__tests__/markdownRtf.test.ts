@@ -0,0 +1,26 @@
+/**
+ * Tests for the RTF rendering of Markdown entry content
+ */
+
+import { markdownToRtf, escapeRtf } from '../markdownRtf';
+
+describe('markdownRtf', () => {
+  it('should escape control characters and non-ASCII text', () => {
+    expect(escapeRtf('{a\\b} café 😀')).toBe('\\{a\\\\b\\} caf\\u233? \\u-10179?\\u-8704?');
+  });
+
+  it('should render inline formatting and links', () => {
+    expect(markdownToRtf('**bold** *it* [site](https://example.com)\nnext', { linkColor: 2 })).toBe([
+      '\\pard\\li0\\sa120 {\\b bold} {\\i it} {\\field{\\*\\fldinst{HYPERLINK "https://example.com"}}{\\fldrslt{\\ul\\cf2 site}}}\\line next\\par',
+      '\\pard',
+    ].join('\n'));
+  });
+
+  it('should render headings, task lists and tables', () => {
+    const rtf = markdownToRtf('## Plan\n- [x] pack\n- [ ] leave\n\n| a | b |\n|---|:-:|\n| 1 | 2 |');
+    expect(rtf).toContain('{\\b\\fs28 Plan}\\par');
+    expect(rtf).toContain('[x] pack\\par');
+    expect(rtf).toContain('[ ] leave\\par');
+    expect(rtf).toContain('\\pard\\intbl\\qc 2\\cell\\row');
+  });
+});
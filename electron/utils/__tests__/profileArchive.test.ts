@@ -0,0 +1,105 @@
+/**
+ * Tests for reading profile archives
+ */
+
+import {
+  locateProfileArchiveFiles,
+  parseProfileArchiveMetadata,
+  relocateAttachmentPaths,
+  isUnsafeArchivePath,
+  parseSevenZipListing,
+} from '../profileArchive';
+
+describe('profileArchive', () => {
+  describe('locateProfileArchiveFiles', () => {
+    it('should read the ZIP layout with database and attachments folders', () => {
+      const layout = locateProfileArchiveFiles(
+        ['database/calenrecall.db', 'database/calenrecall.db-wal', 'attachments/4-1-a.jpg', 'profile-metadata.json', 'attachments/'],
+        { databaseFiles: ['calenrecall.db', 'calenrecall.db-wal'] }
+      );
+
+      expect(layout).toEqual({
+        database: 'database/calenrecall.db',
+        wal: 'database/calenrecall.db-wal',
+        shm: undefined,
+        attachments: ['attachments/4-1-a.jpg'],
+      });
+    });
+
+    it('should read the flat layout written by 7-Zip', () => {
+      const layout = locateProfileArchiveFiles(['calenrecall.db', '4-1-a.jpg', '9-2-b.pdf', 'profile-metadata.json'], null);
+
+      expect(layout.database).toBe('calenrecall.db');
+      expect(layout.attachments).toEqual(['4-1-a.jpg', '9-2-b.pdf']);
+    });
+
+    it('should reject archives without a database', () => {
+      expect(() => locateProfileArchiveFiles(['notes.txt'], null)).toThrow('No journal database found');
+    });
+  });
+
+  describe('parseProfileArchiveMetadata', () => {
+    it('should keep known fields and ignore invalid JSON', () => {
+      expect(parseProfileArchiveMetadata('{"profileName":"Travel","databaseFiles":["x.db",3],"attachmentCount":2}')).toMatchObject({
+        profileName: 'Travel',
+        databaseFiles: ['x.db'],
+        attachmentCount: 2,
+      });
+      expect(parseProfileArchiveMetadata('not json')).toBeNull();
+    });
+  });
+
+  describe('isUnsafeArchivePath', () => {
+    it('should reject paths that escape the extraction directory', () => {
+      expect(isUnsafeArchivePath('database/calenrecall.db')).toBe(false);
+      expect(isUnsafeArchivePath('notes..txt')).toBe(false);
+      expect(isUnsafeArchivePath('../evil.db')).toBe(true);
+      expect(isUnsafeArchivePath('attachments\\..\\..\\evil.exe')).toBe(true);
+      expect(isUnsafeArchivePath('/etc/passwd')).toBe(true);
+      expect(isUnsafeArchivePath('C:\\Windows\\evil.dll')).toBe(true);
+      expect(isUnsafeArchivePath('c:evil.dll')).toBe(true);
+      expect(isUnsafeArchivePath('\\\\server\\share\\evil.db')).toBe(true);
+    });
+  });
+
+  describe('parseSevenZipListing', () => {
+    it('should list the entry paths but not the archive itself', () => {
+      const output = [
+        '7-Zip [64] 16.02',
+        '',
+        '--',
+        'Path = /home/me/backup.7z',
+        'Type = 7z',
+        '',
+        '----------',
+        'Path = calenrecall.db',
+        'Size = 4096',
+        '',
+        'Path = ../../evil.sh',
+        'Size = 10',
+        '',
+      ].join('\r\n');
+
+      expect(parseSevenZipListing(output)).toEqual(['calenrecall.db', '../../evil.sh']);
+      expect(parseSevenZipListing('Path = x')).toEqual([]);
+    });
+  });
+
+  describe('relocateAttachmentPaths', () => {
+    it('should point attachments at their restored files by file name', () => {
+      const json = JSON.stringify([
+        { id: '1', fileName: 'a.jpg', filePath: 'C:\\Users\\me\\AppData\\CalenRecall\\attachments\\4-1-a.jpg' },
+        { id: '2', fileName: 'gone.png', filePath: '/old/attachments/4-2-gone.png' },
+      ]);
+
+      const relocated = relocateAttachmentPaths(json, new Map([['4-1-a.jpg', '/data/attachments/4-1-a-restored.jpg']]));
+
+      expect(JSON.parse(relocated!)).toEqual([
+        { id: '1', fileName: 'a.jpg', filePath: '/data/attachments/4-1-a-restored.jpg' },
+        { id: '2', fileName: 'gone.png', filePath: '/old/attachments/4-2-gone.png' },
+      ]);
+      expect(relocateAttachmentPaths(json, new Map())).toBeNull();
+      expect(relocateAttachmentPaths('[broken', new Map())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for structured search query parsing
+ */
+
+import { parseSearchQuery, parseDateBound, isEmptySearchQuery, applySearchFilters } from '../searchQuery';
+
+describe('searchQuery', () => {
+  describe('parseDateBound', () => {
+    it('should expand partial dates to the start of the period', () => {
+      expect(parseDateBound('1999')).toBe('1999-01-01');
+      expect(parseDateBound('1999-7')).toBe('1999-07-01');
+      expect(parseDateBound('2005-03-09')).toBe('2005-03-09');
+    });
+
+    it('should support negative years', () => {
+      expect(parseDateBound('-500')).toBe('-0500-01-01');
+      expect(parseDateBound('-12000-06')).toBe('-12000-06-01');
+    });
+
+    it('should reject invalid dates', () => {
+      expect(parseDateBound('yesterday')).toBeNull();
+      expect(parseDateBound('1999-13')).toBeNull();
+      expect(parseDateBound('1999-01-32')).toBeNull();
+    });
+  });
+
+  describe('parseSearchQuery', () => {
+    it('should separate filters from free text', () => {
+      const parsed = parseSearchQuery('beach tag:travel range:week after:1999 before:2005 sunset');
+
+      expect(parsed.text).toBe('beach sunset');
+      expect(parsed.tags).toEqual(['travel']);
+      expect(parsed.timeRanges).toEqual(['week']);
+      expect(parsed.after).toBe('1999-01-01');
+      expect(parsed.before).toBe('2005-01-01');
+      expect(parsed.errors).toEqual([]);
+    });
+
+    it('should keep quoted phrases and quoted filter values together', () => {
+      const parsed = parseSearchQuery('"first day" tag:"road trip"');
+
+      expect(parsed.text).toBe('"first day"');
+      expect(parsed.tags).toEqual(['road trip']);
+    });
+
+    it('should parse exclusions', () => {
+      const parsed = parseSearchQuery('holiday -work -"bad weather" -tag:chores -has:attachment');
+
+      expect(parsed.text).toBe('holiday');
+      expect(parsed.excludedText).toEqual(['work', '"bad weather"']);
+      expect(parsed.excludedTags).toEqual(['chores']);
+      expect(parsed.hasAttachment).toBe(false);
+    });
+
+    it('should parse flag filters', () => {
+      const parsed = parseSearchQuery('pinned:yes archived:any has:tags has:links');
+
+      expect(parsed.pinned).toBe(true);
+      expect(parsed.archived).toBe('any');
+      expect(parsed.hasTags).toBe(true);
+      expect(parsed.hasLinks).toBe(true);
+      expect(parsed.text).toBe('');
+    });
+
+    it('should report filters it cannot understand', () => {
+      const parsed = parseSearchQuery('range:fortnight after:soon pinned:maybe has:pets');
+
+      expect(parsed.errors).toHaveLength(4);
+      expect(parsed.timeRanges).toEqual([]);
+      expect(parsed.after).toBeUndefined();
+    });
+
+    it('should treat unknown prefixes as text', () => {
+      expect(parseSearchQuery('note:important').text).toBe('note:important');
+    });
+
+    it('should report empty queries', () => {
+      expect(isEmptySearchQuery(parseSearchQuery('   '))).toBe(true);
+      expect(isEmptySearchQuery(parseSearchQuery('range:day'))).toBe(false);
+    });
+  });
+
+  describe('applySearchFilters', () => {
+    it('should add filter panel tags and time ranges', () => {
+      const parsed = applySearchFilters(parseSearchQuery('tag:Family range:year'), {
+        tags: ['family', 'travel'],
+        timeRanges: ['year', 'month'],
+      });
+
+      expect(parsed.tags).toEqual(['Family', 'travel']);
+      expect(parsed.timeRanges).toEqual(['year', 'month']);
+    });
+
+    it('should treat the end date as inclusive', () => {
+      expect(applySearchFilters(parseSearchQuery(''), { endDate: '1999-12-31' }).before).toBe('2000-01-01');
+      expect(applySearchFilters(parseSearchQuery(''), { endDate: '-0044-02-28' }).before).toBe('-0044-02-29');
+    });
+
+    it('should keep the narrower date bounds', () => {
+      const parsed = applySearchFilters(parseSearchQuery('after:2001 before:2010'), {
+        startDate: '2000-01-01',
+        endDate: '2005-06-30',
+      });
+
+      expect(parsed.after).toBe('2001-01-01');
+      expect(parsed.before).toBe('2005-07-01');
+    });
+
+    it('should compare negative years by value', () => {
+      const parsed = applySearchFilters(parseSearchQuery('after:-500'), { startDate: '-0100-01-01' });
+
+      expect(parsed.after).toBe('-0100-01-01');
+    });
+
+    it('should not modify the parsed query', () => {
+      const original = parseSearchQuery('tag:a');
+      applySearchFilters(original, { tags: ['b'] });
+
+      expect(original.tags).toEqual(['a']);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for the ZIP archive reader
+ */
+
+import * as zlib from 'zlib';
+import { readZipEntries, DEFAULT_ZIP_LIMITS } from '../zipReader';
+
+/**
+ * Build a minimal archive by hand (CRCs are left at zero; the reader does not check them)
+ */
+function createZip(files: Record<string, string>, store: boolean = false): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [fileName, content] of Object.entries(files)) {
+    const name = Buffer.from(fileName, 'utf8');
+    const raw = Buffer.from(content, 'utf8');
+    const data = store ? raw : zlib.deflateRawSync(raw);
+    const method = store ? 0 : 8;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, directory, end]);
+}
+
+describe('zipReader', () => {
+  it('should read deflated entries', () => {
+    const zip = createZip({ 'Journal.json': '{"entries":[]}', 'photos/a.jpeg': 'x'.repeat(1000) });
+
+    const entries = readZipEntries(zip);
+
+    expect(entries.map(entry => entry.name)).toEqual(['Journal.json', 'photos/a.jpeg']);
+    expect(entries[0].read().toString()).toBe('{"entries":[]}');
+    expect(entries[1].read().toString()).toBe('x'.repeat(1000));
+  });
+
+  it('should read stored entries with non-ASCII names', () => {
+    const zip = createZip({ 'café.txt': 'ok', 'photos/': '' }, true);
+
+    const [entry, folder] = readZipEntries(zip);
+
+    expect(entry.name).toBe('café.txt');
+    expect(entry.read().toString()).toBe('ok');
+    expect(folder.isDirectory).toBe(true);
+  });
+
+  it('should reject archives over the size limits', () => {
+    const zip = createZip({ 'a.txt': 'x'.repeat(1000), 'b.txt': 'y'.repeat(1000) });
+
+    expect(() => readZipEntries(zip, { ...DEFAULT_ZIP_LIMITS, maxArchiveBytes: 10 })).toThrow('too large');
+    expect(() => readZipEntries(zip, { ...DEFAULT_ZIP_LIMITS, maxEntryBytes: 999 })).toThrow('ZIP entry is too large: a.txt');
+    expect(() => readZipEntries(zip, { ...DEFAULT_ZIP_LIMITS, maxTotalBytes: 1500 })).toThrow('expands to too much data');
+  });
+
+  it('should not inflate more than an entry declares', () => {
+    const zip = createZip({ 'bomb.txt': '0'.repeat(100000) });
+    // Claim a tiny uncompressed size in the central directory
+    zip.writeUInt32LE(10, zip.readUInt32LE(zip.length - 6) + 24);
+
+    const [entry] = readZipEntries(zip);
+
+    expect(entry.size).toBe(10);
+    expect(() => entry.read()).toThrow('Corrupt ZIP entry: bomb.txt');
+  });
+
+  it('should reject files that are not archives', () => {
+    expect(() => readZipEntries(Buffer.from('not a zip file at all, just some text'))).toThrow('Not a ZIP archive');
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Content-addressed attachment storage.
+ * Each profile keeps its attachment files in its own folder, named by the SHA-256 hash of
+ * their (unencrypted) contents, so attaching the same file twice stores it once:
+ *
+ *   attachments/<profileId>/<sha256>.<ext>
+ *   attachments/<profileId>/<sha256>.thumb-<pixels>.<jpg|png>
+ *
+ * Files from before deduplication live directly in attachments/ as <entryId>-<id>.<ext>.
+ */
+
+import { createHash } from 'crypto';
+
+const EXTENSION_PATTERN = /^\.[a-z0-9]{1,10}$/;
+const THUMBNAIL_PATTERN = /^(.+)\.thumb-\d+\.(jpg|png)$/;
+
+/**
+ * Hash attachment contents
+ *
+ * @returns Lowercase hex SHA-256 digest
+ */
+export function hashAttachmentData(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * File name for stored content: its hash plus the original extension, lowercased.
+ * Extensions that are not plain letters and digits are dropped.
+ */
+export function getStoredAttachmentName(hash: string, fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  const ext = dot > 0 ? fileName.slice(dot).toLowerCase() : '';
+  return EXTENSION_PATTERN.test(ext) ? `${hash}${ext}` : hash;
+}
+
+function stripExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+}
+
+/**
+ * Find the files in a profile's attachment folder that no entry uses.
+ * Cached thumbnails count as used while the file they were made from is.
+ *
+ * @param fileNames - Names of the files in the folder
+ * @param usedNames - Names of the files entries point to
+ * @returns The unused file names, in the order given
+ */
+export function findOrphanedFiles(fileNames: string[], usedNames: Set<string>): string[] {
+  const usedBases = new Set(Array.from(usedNames, stripExtension));
+  return fileNames.filter(name => {
+    if (usedNames.has(name)) {
+      return false;
+    }
+    const thumbnail = THUMBNAIL_PATTERN.exec(name);
+    return !thumbnail || !usedBases.has(thumbnail[1]);
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Naming, scheduling and rotation rules for automatic backups.
+ * Each backup is a database file named after the profile and the time it was taken,
+ * optionally accompanied by an archive of the profile's attachments:
+ *
+ *   calenrecall-auto-<profileId>-<timestamp>.db
+ *   calenrecall-auto-<profileId>-<timestamp>-attachments.zip
+ *
+ * Timestamps sort lexicographically, so the newest backups are the last names in order.
+ */
+
+import { BackupStatus } from '../types';
+
+export const AUTO_BACKUP_PREFIX = 'calenrecall-auto';
+export const AUTO_BACKUP_ATTACHMENTS_SUFFIX = '-attachments.zip';
+const TIMESTAMP_PATTERN = '\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}-\\d{3}Z';
+
+function sanitizeProfileId(profileId: string): string {
+  return profileId.replace(/[^a-zA-Z0-9-_]/g, '_') || 'default';
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * File name (without extension) of an automatic backup taken at a given time
+ */
+export function getAutoBackupBaseName(profileId: string, date: Date): string {
+  const timestamp = date.toISOString().replace(/[:.]/g, '-');
+  return `${AUTO_BACKUP_PREFIX}-${sanitizeProfileId(profileId)}-${timestamp}`;
+}
+
+/**
+ * Pick the automatic backups of a profile that fall outside the number to keep
+ *
+ * @param fileNames - Names of the files in the backup folder
+ * @param profileId - Profile whose backups are rotated (other profiles' backups are left alone)
+ * @param keepCount - Number of most recent backups to keep
+ * @returns Base names of the backups to delete, oldest first
+ */
+export function getBackupsToPrune(fileNames: string[], profileId: string, keepCount: number): string[] {
+  const pattern = new RegExp(`^(${escapeRegExp(AUTO_BACKUP_PREFIX)}-${escapeRegExp(sanitizeProfileId(profileId))}-${TIMESTAMP_PATTERN})\\.db$`);
+  const backups = fileNames
+    .map(fileName => pattern.exec(fileName)?.[1])
+    .filter((baseName): baseName is string => !!baseName)
+    .sort();
+  const keep = Math.max(1, Math.floor(keepCount));
+  return backups.slice(0, Math.max(0, backups.length - keep));
+}
+
+/**
+ * Whether an automatic backup should be taken now
+ *
+ * @param status - Outcome of the previous backup, if any
+ * @param intervalHours - Hours between backups
+ * @param now - Current time
+ */
+export function isBackupDue(status: BackupStatus | undefined, intervalHours: number, now: Date = new Date()): boolean {
+  const lastSuccess = status?.lastSuccessAt ? Date.parse(status.lastSuccessAt) : NaN;
+  if (isNaN(lastSuccess)) {
+    return true;
+  }
+  const intervalMs = Math.max(1, intervalHours) * 60 * 60 * 1000;
+  return now.getTime() - lastSuccess >= intervalMs;
+}
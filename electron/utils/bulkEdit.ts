@@ -0,0 +1,37 @@
+/**
+ * Tag changes made by bulk edits. Tags compare case-insensitively, as they do
+ * everywhere else, so adding "Travel" to an entry tagged "travel" changes nothing.
+ */
+
+function cleanTags(tags: string[]): string[] {
+  return tags.map(tag => tag.trim()).filter(tag => tag !== '');
+}
+
+/**
+ * Add tags an entry does not have yet, after its existing tags
+ *
+ * @returns The new tag list, or the original array when nothing was added
+ */
+export function addTags(tags: string[], added: string[]): string[] {
+  const result = [...tags];
+  const present = new Set(tags.map(tag => tag.toLowerCase()));
+  for (const tag of cleanTags(added)) {
+    const lower = tag.toLowerCase();
+    if (!present.has(lower)) {
+      present.add(lower);
+      result.push(tag);
+    }
+  }
+  return result.length === tags.length ? tags : result;
+}
+
+/**
+ * Remove tags from an entry, whatever their case
+ *
+ * @returns The new tag list, or the original array when nothing was removed
+ */
+export function removeTags(tags: string[], removed: string[]): string[] {
+  const removedLower = new Set(cleanTags(removed).map(tag => tag.toLowerCase()));
+  const result = tags.filter(tag => !removedLower.has(tag.toLowerCase()));
+  return result.length === tags.length ? tags : result;
+}
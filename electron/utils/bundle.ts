@@ -0,0 +1,153 @@
+/**
+ * Self-contained entry bundles.
+ * A bundle is a ZIP archive holding a JSON manifest of every entry plus the files
+ * attached to them, so a journal can move to another profile or machine intact:
+ *
+ *   manifest.json
+ *   attachments/<entryId>/<attachmentId>-<fileName>
+ *
+ * Entries keep their original IDs in the manifest; the importer uses them to point
+ * linked entries at the entries it creates.
+ */
+
+import { JournalEntry, EntryAttachment, ExportMetadata } from '../types';
+import { sanitizeFileName } from './pathValidation';
+
+export const BUNDLE_MANIFEST_NAME = 'manifest.json';
+const BUNDLE_FORMAT = 'calenrecall-bundle';
+const BUNDLE_VERSION = 1;
+
+export interface BundleAttachment {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  createdAt: string;
+  path: string; // Location of the file inside the archive
+}
+
+export interface BundleEntry extends Omit<JournalEntry, 'attachments'> {
+  attachments: BundleAttachment[];
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  metadata: ExportMetadata;
+  entryCount: number;
+  entries: BundleEntry[];
+}
+
+export interface BundleFile {
+  sourcePath: string; // Stored attachment on disk
+  archivePath: string;
+}
+
+/**
+ * Path of an attachment inside the bundle
+ */
+export function getBundleAttachmentPath(entryId: number | undefined, attachment: EntryAttachment): string {
+  const fileName = sanitizeFileName(attachment.fileName) || 'attachment';
+  const attachmentId = sanitizeFileName(attachment.id) || 'file';
+  return `attachments/${entryId ?? 'unsaved'}/${attachmentId}-${fileName}`;
+}
+
+/**
+ * Build the manifest of a bundle and the list of files that go with it
+ *
+ * @param entries - Entries to export (including their attachment metadata)
+ * @param metadata - Export metadata stored alongside the entries
+ * @returns The manifest and the attachment files to add to the archive
+ */
+export function createBundleManifest(entries: JournalEntry[], metadata: ExportMetadata = {}): { manifest: BundleManifest; files: BundleFile[] } {
+  const files: BundleFile[] = [];
+  const usedPaths = new Set<string>();
+
+  const bundleEntries = entries.map((entry): BundleEntry => {
+    const attachments = (entry.attachments || []).map((attachment): BundleAttachment => {
+      let archivePath = getBundleAttachmentPath(entry.id, attachment);
+      // Attachment IDs are unique per entry, but guard against hand-edited data
+      for (let n = 2; usedPaths.has(archivePath); n++) {
+        archivePath = `${getBundleAttachmentPath(entry.id, attachment)}-${n}`;
+      }
+      usedPaths.add(archivePath);
+      files.push({ sourcePath: attachment.filePath, archivePath });
+      return {
+        id: attachment.id,
+        fileName: attachment.fileName,
+        fileSize: attachment.fileSize,
+        mimeType: attachment.mimeType,
+        createdAt: attachment.createdAt,
+        path: archivePath,
+      };
+    });
+    return { ...entry, attachments };
+  });
+
+  return {
+    manifest: {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: metadata.exportDate || new Date().toISOString(),
+      metadata,
+      entryCount: bundleEntries.length,
+      entries: bundleEntries,
+    },
+    files,
+  };
+}
+
+/**
+ * Read a bundle manifest
+ *
+ * @param content - Text of manifest.json
+ * @returns The manifest (entries are not normalized yet)
+ * @throws Error if the text is not a manifest this version can read
+ */
+export function parseBundleManifest(content: string): BundleManifest {
+  const data = JSON.parse(content);
+  if (!data || typeof data !== 'object' || data.format !== BUNDLE_FORMAT || !Array.isArray(data.entries)) {
+    throw new Error('Not a CalenRecall bundle');
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version: ${data.version}`);
+  }
+  return data as BundleManifest;
+}
+
+/**
+ * Point linked entry IDs from an exported database at the entries created on import.
+ * Links to entries that were not part of the import are dropped: their old IDs mean
+ * nothing (or something unrelated) in the destination profile.
+ *
+ * @param linkedEntries - IDs as stored in the export
+ * @param idMap - Exported entry ID to imported entry ID
+ */
+export function remapLinkedEntries(linkedEntries: number[] | undefined, idMap: Map<number, number>): number[] {
+  const remapped: number[] = [];
+  for (const linkedId of linkedEntries || []) {
+    const newId = idMap.get(linkedId);
+    if (newId !== undefined && !remapped.includes(newId)) {
+      remapped.push(newId);
+    }
+  }
+  return remapped;
+}
+
+/**
+ * Point ![](attachment:<id>) embeds in imported content at the attachments' new IDs.
+ * Embeds of attachments that were not imported are left as they are.
+ *
+ * @param content - Entry content as stored in the export
+ * @param idMap - Exported attachment ID to imported attachment ID
+ */
+export function remapAttachmentEmbeds(content: string, idMap: Map<string, string>): string {
+  if (idMap.size === 0) {
+    return content;
+  }
+  return content.replace(/(\]\(\s*attachment:)([\w-]+)/g, (match, prefix: string, id: string) => {
+    const newId = idMap.get(id);
+    return newId ? prefix + newId : match;
+  });
+}
@@ -0,0 +1,180 @@
+/**
+ * Wiki-style references inside entry content.
+ *
+ * Supported syntax:
+ * - [[1999-06-12]]   a date; links to the entries on that date
+ * - [[Entry title]]  another entry, matched by title (case-insensitive)
+ * - #tag             a tag; must contain a letter and a character that is not a hex digit,
+ *                    so "#1", "# Heading" and colors like "#fff" are not tags
+ *
+ * References inside fenced code blocks and `code` spans are ignored.
+ *
+ * saveEntry turns the references into 'mentions' links and tags. The renderer splits
+ * content with splitContentReferences to make them clickable. The module has no Node or
+ * DOM dependencies so the renderer can import it.
+ */
+
+import { findCodeRanges } from './markdown';
+
+export interface ContentReferences {
+  dates: string[]; // YYYY-MM-DD
+  titles: string[];
+  tags: string[];
+}
+
+export type ContentSegment =
+  | { type: 'text'; text: string }
+  | { type: 'date'; text: string; date: string }
+  | { type: 'entry'; text: string; title: string }
+  | { type: 'tag'; text: string; tag: string };
+
+const REFERENCE_PATTERN = /\[\[([^[\]\n]+)\]\]|(^|[\s([{])#([\p{L}\p{N}_][\p{L}\p{N}_/-]*)/gu;
+const DATE_REFERENCE_PATTERN = /^-?\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+/**
+ * Whether a #word is a tag: it needs a letter, and a character that is not a hex digit
+ * so CSS colors are left alone
+ */
+function isTag(tag: string): boolean {
+  return /\p{L}/u.test(tag) && /[^0-9a-f]/i.test(tag);
+}
+
+/**
+ * Add a value unless it is already present, ignoring case
+ */
+function addUnique(values: string[], value: string): void {
+  const lower = value.toLowerCase();
+  if (!values.some(existing => existing.toLowerCase() === lower)) {
+    values.push(value);
+  }
+}
+
+function pushText(segments: ContentSegment[], text: string): void {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === 'text') {
+    last.text += text;
+  } else {
+    segments.push({ type: 'text', text });
+  }
+}
+
+/**
+ * Split the references out of a piece of content that contains no code
+ */
+function splitProse(segments: ContentSegment[], content: string): void {
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(REFERENCE_PATTERN)) {
+    const index = match.index ?? 0;
+    const [whole, target, prefix, rawTag] = match;
+    pushText(segments, content.slice(lastIndex, index));
+    lastIndex = index + whole.length;
+
+    if (target !== undefined) {
+      const trimmed = target.trim();
+      if (!trimmed) {
+        pushText(segments, whole);
+      } else if (DATE_REFERENCE_PATTERN.test(trimmed)) {
+        segments.push({ type: 'date', text: whole, date: trimmed });
+      } else {
+        segments.push({ type: 'entry', text: whole, title: trimmed });
+      }
+      continue;
+    }
+
+    // Trailing separators belong to the sentence, not the tag ("#work/" or "#self-")
+    const tag = rawTag.replace(/[/-]+$/, '');
+    pushText(segments, prefix);
+    if (isTag(tag)) {
+      segments.push({ type: 'tag', text: `#${tag}`, tag });
+      pushText(segments, rawTag.slice(tag.length));
+    } else {
+      pushText(segments, `#${rawTag}`);
+    }
+  }
+
+  pushText(segments, content.slice(lastIndex));
+}
+
+/**
+ * Split content into text and reference segments
+ *
+ * @param content - Entry content
+ * @returns Segments in reading order; joining their text gives back the content
+ */
+export function splitContentReferences(content: string): ContentSegment[] {
+  const segments: ContentSegment[] = [];
+  let lastIndex = 0;
+
+  for (const [start, end] of findCodeRanges(content)) {
+    splitProse(segments, content.slice(lastIndex, start));
+    pushText(segments, content.slice(start, end));
+    lastIndex = end;
+  }
+  splitProse(segments, content.slice(lastIndex));
+
+  return segments;
+}
+
+/**
+ * Find the date, title and tag references in entry content
+ *
+ * @param content - Entry content
+ * @returns The distinct references in order of first appearance
+ */
+export function parseContentReferences(content: string): ContentReferences {
+  const references: ContentReferences = { dates: [], titles: [], tags: [] };
+  if (!content) {
+    return references;
+  }
+
+  for (const segment of splitContentReferences(content)) {
+    switch (segment.type) {
+      case 'date':
+        if (!references.dates.includes(segment.date)) {
+          references.dates.push(segment.date);
+        }
+        break;
+      case 'entry':
+        addUnique(references.titles, segment.title);
+        break;
+      case 'tag':
+        addUnique(references.tags, segment.tag);
+        break;
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Work out an entry's tags after its content changed.
+ * Tags written in the content are added; tags that only came from the previous content
+ * and were removed from it are dropped. Tags added by hand are kept.
+ *
+ * @param tags - Tags the entry is being saved with
+ * @param previousContent - Content before this save ('' for a new entry)
+ * @param content - Content being saved
+ * @returns The tags to store
+ */
+export function mergeContentTags(tags: string[], previousContent: string, content: string): string[] {
+  const current = parseContentReferences(content).tags;
+  const currentLower = new Set(current.map(tag => tag.toLowerCase()));
+  const removedLower = new Set(
+    parseContentReferences(previousContent).tags
+      .map(tag => tag.toLowerCase())
+      .filter(tag => !currentLower.has(tag))
+  );
+
+  const merged: string[] = [];
+  for (const tag of tags) {
+    if (!removedLower.has(tag.toLowerCase())) {
+      addUnique(merged, tag);
+    }
+  }
+  for (const tag of current) {
+    addUnique(merged, tag);
+  }
+  return merged;
+}
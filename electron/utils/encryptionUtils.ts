@@ -0,0 +1,208 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+/**
+ * Configuration for at-rest encryption
+ */
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const DATA_KEY_LENGTH = 32; // 32 bytes = 256 bits
+const IV_LENGTH = 12; // 96-bit IV recommended for GCM
+const AUTH_TAG_LENGTH = 16; // 128-bit authentication tag
+
+/**
+ * Configuration for key-encryption-key derivation (matches password hashing strength)
+ */
+const KEK_SALT_LENGTH = 32;
+const KEK_ITERATIONS = 100000;
+const KEK_HASH_ALGORITHM = 'sha512';
+
+/**
+ * Header written at the start of every encrypted file so encrypted and
+ * plaintext files can be told apart without attempting decryption
+ */
+const MAGIC_HEADER = Buffer.from('CALENRECALL-ENC1', 'utf-8');
+
+/**
+ * Generate a random data key used to encrypt a profile's files
+ *
+ * @returns Random 256-bit key
+ */
+export function generateDataKey(): Buffer {
+  return crypto.randomBytes(DATA_KEY_LENGTH);
+}
+
+/**
+ * Derive a key-encryption key from a password or recovery key using PBKDF2
+ *
+ * @param secret - Password or recovery key
+ * @param salt - Random salt
+ * @returns 256-bit key-encryption key
+ */
+export function deriveKeyEncryptionKey(secret: string, salt: Buffer): Buffer {
+  return crypto.pbkdf2Sync(secret, salt, KEK_ITERATIONS, DATA_KEY_LENGTH, KEK_HASH_ALGORITHM);
+}
+
+/**
+ * Wrap (encrypt) a data key with a password or recovery key
+ * Returns a string in format: salt:iv:tag:ciphertext (all base64 encoded)
+ *
+ * @param dataKey - Data key to wrap
+ * @param secret - Password or recovery key
+ * @returns Wrapped key string
+ */
+export function wrapDataKey(dataKey: Buffer, secret: string): string {
+  if (!secret || secret.length === 0) {
+    throw new Error('Secret cannot be empty');
+  }
+
+  const salt = crypto.randomBytes(KEK_SALT_LENGTH);
+  const kek = deriveKeyEncryptionKey(secret, salt);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER_ALGORITHM, kek, iv);
+  const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [salt, iv, tag, encrypted].map(part => part.toString('base64')).join(':');
+}
+
+/**
+ * Unwrap (decrypt) a data key with a password or recovery key
+ *
+ * @param wrappedKey - Wrapped key string (salt:iv:tag:ciphertext)
+ * @param secret - Password or recovery key
+ * @returns Data key, or null if the secret is wrong or the wrapped key is malformed
+ */
+export function unwrapDataKey(wrappedKey: string, secret: string): Buffer | null {
+  if (!wrappedKey || !secret) {
+    return null;
+  }
+
+  const parts = wrappedKey.split(':');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  try {
+    const [salt, iv, tag, encrypted] = parts.map(part => Buffer.from(part, 'base64'));
+    const kek = deriveKeyEncryptionKey(secret, salt);
+    const decipher = crypto.createDecipheriv(CIPHER_ALGORITHM, kek, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+  } catch {
+    // Authentication failure means the secret is wrong
+    return null;
+  }
+}
+
+/**
+ * Check if a buffer starts with the encrypted file header
+ */
+export function isEncryptedBuffer(data: Buffer): boolean {
+  return data.length >= MAGIC_HEADER.length &&
+    data.subarray(0, MAGIC_HEADER.length).equals(MAGIC_HEADER);
+}
+
+/**
+ * Encrypt a buffer with a data key
+ * Output layout: header | iv | tag | ciphertext
+ *
+ * @param data - Plaintext data
+ * @param dataKey - 256-bit data key
+ * @returns Encrypted data
+ */
+export function encryptBuffer(data: Buffer, dataKey: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER_ALGORITHM, dataKey, iv);
+  const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return Buffer.concat([MAGIC_HEADER, iv, tag, encrypted]);
+}
+
+/**
+ * Decrypt a buffer produced by encryptBuffer
+ *
+ * @param data - Encrypted data
+ * @param dataKey - 256-bit data key
+ * @returns Plaintext data
+ * @throws If the data is not encrypted, or the key is wrong / data was tampered with
+ */
+export function decryptBuffer(data: Buffer, dataKey: Buffer): Buffer {
+  if (!isEncryptedBuffer(data)) {
+    throw new Error('Data is not encrypted');
+  }
+
+  const ivStart = MAGIC_HEADER.length;
+  const tagStart = ivStart + IV_LENGTH;
+  const bodyStart = tagStart + AUTH_TAG_LENGTH;
+
+  const iv = data.subarray(ivStart, tagStart);
+  const tag = data.subarray(tagStart, bodyStart);
+  const decipher = crypto.createDecipheriv(CIPHER_ALGORITHM, dataKey, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data.subarray(bodyStart)), decipher.final()]);
+}
+
+/**
+ * Check if a file on disk is encrypted (only reads the header)
+ */
+export function isEncryptedFile(filePath: string): boolean {
+  if (!fs.existsSync(filePath)) {
+    return false;
+  }
+
+  let fd: number | null = null;
+  try {
+    fd = fs.openSync(filePath, 'r');
+    const header = Buffer.alloc(MAGIC_HEADER.length);
+    const bytesRead = fs.readSync(fd, header, 0, header.length, 0);
+    return bytesRead === header.length && header.equals(MAGIC_HEADER);
+  } catch {
+    return false;
+  } finally {
+    if (fd !== null) {
+      fs.closeSync(fd);
+    }
+  }
+}
+
+/**
+ * Write a file atomically (temp file + rename) so a crash never leaves a half-written file
+ */
+export function writeFileAtomic(filePath: string, data: Buffer): void {
+  const tempPath = `${filePath}.tmp-${process.pid}-${Date.now()}`;
+  try {
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    if (fs.existsSync(tempPath)) {
+      try {
+        fs.unlinkSync(tempPath);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Encrypt a file in place (no-op if it is already encrypted)
+ */
+export function encryptFileInPlace(filePath: string, dataKey: Buffer): void {
+  const data = fs.readFileSync(filePath);
+  if (isEncryptedBuffer(data)) {
+    return;
+  }
+  writeFileAtomic(filePath, encryptBuffer(data, dataKey));
+}
+
+/**
+ * Decrypt a file in place (no-op if it is not encrypted)
+ */
+export function decryptFileInPlace(filePath: string, dataKey: Buffer): void {
+  const data = fs.readFileSync(filePath);
+  if (!isEncryptedBuffer(data)) {
+    return;
+  }
+  writeFileAtomic(filePath, decryptBuffer(data, dataKey));
+}
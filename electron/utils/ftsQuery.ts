@@ -0,0 +1,250 @@
+/**
+ * Full-text search query utilities.
+ * Turns free-form user input into a valid SQLite FTS5 MATCH expression.
+ *
+ * Supported syntax (passed through to FTS5):
+ * - "exact phrase"
+ * - prefix*
+ * - AND / OR / NOT (uppercase) and parentheses
+ * - NEAR(term term, 10)
+ *
+ * Everything else is quoted so punctuation in ordinary words (e.g. "don't", "e-mail")
+ * never turns into an FTS5 syntax error.
+ */
+
+type FtsToken =
+  | { type: 'term'; text: string }
+  | { type: 'op'; text: 'AND' | 'OR' | 'NOT' }
+  | { type: 'open'; near: boolean }
+  | { type: 'close' }
+  | { type: 'distance'; text: string };
+
+const BOOLEAN_OPERATORS = new Set(['AND', 'OR', 'NOT']);
+
+/**
+ * Quote a term for FTS5 (double quotes inside the term are escaped by doubling)
+ */
+function quoteTerm(term: string, prefix: boolean): string {
+  return `"${term.replace(/"/g, '""')}"${prefix ? '*' : ''}`;
+}
+
+/**
+ * Split user input into FTS5 tokens
+ */
+function tokenize(input: string): FtsToken[] {
+  const tokens: FtsToken[] = [];
+  const groupStack: boolean[] = []; // true for NEAR groups
+  const insideNear = () => groupStack.includes(true);
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Quoted phrase
+    if (char === '"') {
+      const end = input.indexOf('"', i + 1);
+      const phrase = end === -1 ? input.slice(i + 1) : input.slice(i + 1, end);
+      i = end === -1 ? input.length : end + 1;
+      const prefix = input[i] === '*';
+      if (prefix) {
+        i++;
+      }
+      if (phrase.trim().length > 0) {
+        tokens.push({ type: 'term', text: quoteTerm(phrase.trim(), prefix) });
+      }
+      continue;
+    }
+
+    if (char === '(') {
+      i++;
+      // Nested groups are not allowed inside NEAR()
+      if (!insideNear()) {
+        groupStack.push(false);
+        tokens.push({ type: 'open', near: false });
+      }
+      continue;
+    }
+
+    if (char === ')') {
+      i++;
+      if (groupStack.length > 0) {
+        groupStack.pop();
+        tokens.push({ type: 'close' });
+      }
+      continue;
+    }
+
+    // NEAR distance: ", 10" right before the closing parenthesis of a NEAR group
+    if (char === ',') {
+      const match = /^,\s*(\d+)\s*(?=\))/.exec(input.slice(i));
+      if (match && groupStack[groupStack.length - 1] === true) {
+        tokens.push({ type: 'distance', text: `, ${match[1]}` });
+        i += match[0].length;
+      } else {
+        i++;
+      }
+      continue;
+    }
+
+    // Bare word
+    let end = i;
+    while (end < input.length && !/[\s"(),]/.test(input[end])) {
+      end++;
+    }
+    const word = input.slice(i, end);
+    i = end;
+
+    if (word === 'NEAR' && input[i] === '(' && !insideNear()) {
+      i++;
+      groupStack.push(true);
+      tokens.push({ type: 'open', near: true });
+      continue;
+    }
+
+    if (BOOLEAN_OPERATORS.has(word)) {
+      // Boolean operators are not allowed inside NEAR()
+      if (!insideNear()) {
+        tokens.push({ type: 'op', text: word as 'AND' | 'OR' | 'NOT' });
+      }
+      continue;
+    }
+
+    const prefix = word.endsWith('*');
+    const core = word.replace(/\*+$/, '');
+    // Drop words made only of punctuation - they would never match anything
+    if (/[\p{L}\p{N}]/u.test(core)) {
+      tokens.push({ type: 'term', text: quoteTerm(core, prefix) });
+    }
+  }
+
+  // Close any groups left open
+  while (groupStack.length > 0) {
+    groupStack.pop();
+    tokens.push({ type: 'close' });
+  }
+
+  return tokens;
+}
+
+/**
+ * Remove operators and groups that would make the expression invalid
+ * (leading/trailing operators, doubled operators, empty groups)
+ */
+function cleanTokens(tokens: FtsToken[]): FtsToken[] {
+  let current = tokens;
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    const next: FtsToken[] = [];
+
+    for (let i = 0; i < current.length; i++) {
+      const token = current[i];
+      const prev = next[next.length - 1];
+      const following = current[i + 1];
+
+      if (token.type === 'op') {
+        const hasLeft = prev && (prev.type === 'term' || prev.type === 'close');
+        const hasRight = following && (following.type === 'term' || following.type === 'open');
+        if (!hasLeft || !hasRight) {
+          changed = true;
+          continue;
+        }
+      }
+
+      if (token.type === 'open' && following?.type === 'close') {
+        // Empty group: skip both tokens
+        changed = true;
+        i++;
+        continue;
+      }
+
+      if (token.type === 'distance' && (!prev || prev.type !== 'term')) {
+        changed = true;
+        continue;
+      }
+
+      next.push(token);
+    }
+
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Build an FTS5 MATCH expression from user input
+ *
+ * @param input - Raw search text typed by the user
+ * @returns FTS5 query string, or null if the input contains nothing searchable
+ */
+export function buildFtsQuery(input: string): string | null {
+  if (!input || typeof input !== 'string') {
+    return null;
+  }
+
+  const tokens = cleanTokens(tokenize(input));
+  if (!tokens.some(token => token.type === 'term')) {
+    return null;
+  }
+
+  let query = '';
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'term':
+        query += (query && !query.endsWith('(') ? ' ' : '') + token.text;
+        break;
+      case 'op':
+        query += ` ${token.text}`;
+        break;
+      case 'open':
+        query += (query ? ' ' : '') + (token.near ? 'NEAR(' : '(');
+        break;
+      case 'close':
+        query += ')';
+        break;
+      case 'distance':
+        query += token.text;
+        break;
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Build a plain FTS5 query that matches all words in the input (used as a fallback
+ * when the structured query is rejected by SQLite)
+ */
+export function buildPlainFtsQuery(input: string): string | null {
+  const words = (input || '')
+    .split(/\s+/)
+    .map(word => word.replace(/["*()]/g, ''))
+    .filter(word => /[\p{L}\p{N}]/u.test(word));
+
+  if (words.length === 0) {
+    return null;
+  }
+  return words.map(word => quoteTerm(word, false)).join(' ');
+}
+
+/**
+ * Build an FTS5 query that matches entries containing any of the texts as a phrase.
+ * Used to narrow down which entries can contain a text before checking it exactly.
+ *
+ * @param texts - Texts to look for
+ * @returns FTS5 query string, or null if a text has no searchable words (every entry
+ *   could then contain it)
+ */
+export function buildAnyPhraseFtsQuery(texts: string[]): string | null {
+  if (texts.length === 0 || texts.some(text => !/[\p{L}\p{N}]/u.test(text))) {
+    return null;
+  }
+  return texts.map(text => quoteTerm(text, false)).join(' OR ');
+}
@@ -0,0 +1,456 @@
+/**
+ * iCalendar (RFC 5545) export and import.
+ *
+ * Export:
+ * - Day entries with a time become VEVENTs starting at that (floating, local) time
+ * - All other entries become all-day VJOURNALs
+ * - Tags are written as CATEGORIES, linked entries as RELATED-TO pointing at the linked entry's UID
+ * - Fields iCalendar has no place for (time range, calendar-native periods, dates outside
+ *   years 0-9999) are kept in X-CALENRECALL-* properties so a round trip is lossless
+ *
+ * Import reads VEVENT and VJOURNAL components from any calendar tool. Other components
+ * (VTODO, VALARM, VTIMEZONE, ...) are ignored.
+ */
+
+import { JournalEntry, TimeRange, ExportMetadata } from '../types';
+
+export interface ICalendarProperty {
+  name: string; // Upper case
+  params: Record<string, string>; // Parameter names upper case, values unquoted
+  value: string; // Raw (still escaped) value
+}
+
+const PRODUCT_ID = '-//CalenRecall//CalenRecall Journal//EN';
+const UID_DOMAIN = 'calenrecall';
+const TIME_RANGES: TimeRange[] = ['millennium', 'century', 'decade', 'year', 'month', 'week', 'day'];
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Unescape a TEXT value
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Split a multi-valued TEXT property (e.g. CATEGORIES) on unescaped commas
+ */
+function splitTextList(value: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[i + 1];
+      i++;
+    } else if (char === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => unescapeText(part).trim()).filter(part => part.length > 0);
+}
+
+/**
+ * Fold a content line to at most 75 octets per line (continuation lines start with a space).
+ * Never splits a multi-byte UTF-8 character.
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      lines.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+/**
+ * Parse an ISO date (YYYY-MM-DD or -YYYY-MM-DD) into its parts
+ */
+function parseEntryDate(date: string): { year: number; month: number; day: number } | null {
+  const match = /^(-?)(\d+)-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) {
+    return null;
+  }
+  return {
+    year: (match[1] ? -1 : 1) * parseInt(match[2], 10),
+    month: parseInt(match[3], 10),
+    day: parseInt(match[4], 10),
+  };
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Format an ISO datetime string as a UTC DATE-TIME (YYYYMMDDTHHMMSSZ)
+ */
+function formatUtcDateTime(isoString: string | undefined): string | null {
+  if (!isoString) {
+    return null;
+  }
+  const date = new Date(isoString);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  return `${pad(date.getUTCFullYear(), 4)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * UID of an exported entry, also used for RELATED-TO links between entries
+ */
+export function getEntryUid(entryId: number): string {
+  return `${UID_DOMAIN}-entry-${entryId}@${UID_DOMAIN}`;
+}
+
+/**
+ * Entry ID from a UID written by getEntryUid (null for UIDs from other tools)
+ */
+export function parseEntryUid(uid: string): number | null {
+  const match = new RegExp(`^${UID_DOMAIN}-entry-(\\d+)@${UID_DOMAIN}$`).exec(uid.trim());
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function formatEntryComponent(entry: JournalEntry, index: number, now: string): string[] {
+  const lines: string[] = [];
+  const dateParts = parseEntryDate(entry.date);
+  // iCalendar dates only have four-digit years
+  const representable = !!dateParts && dateParts.year >= 0 && dateParts.year <= 9999;
+  const timed = representable && entry.timeRange === 'day' && entry.hour !== null && entry.hour !== undefined;
+  // DTSTART is required in a VEVENT but optional in a VJOURNAL
+  const component = timed ? 'VEVENT' : 'VJOURNAL';
+
+  lines.push(`BEGIN:${component}`);
+  lines.push(`UID:${entry.id !== undefined ? getEntryUid(entry.id) : `${UID_DOMAIN}-export-${index}@${UID_DOMAIN}`}`);
+  lines.push(`DTSTAMP:${formatUtcDateTime(entry.updatedAt) || now}`);
+
+  if (dateParts && representable) {
+    const date = `${pad(dateParts.year, 4)}${pad(dateParts.month)}${pad(dateParts.day)}`;
+    if (timed) {
+      lines.push(`DTSTART:${date}T${pad(entry.hour!)}${pad(entry.minute ?? 0)}${pad(entry.second ?? 0)}`);
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${date}`);
+    }
+  }
+
+  const created = formatUtcDateTime(entry.createdAt);
+  if (created) {
+    lines.push(`CREATED:${created}`);
+  }
+  const modified = formatUtcDateTime(entry.updatedAt);
+  if (modified) {
+    lines.push(`LAST-MODIFIED:${modified}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(entry.title || '')}`);
+  if (entry.content) {
+    lines.push(`DESCRIPTION:${escapeText(entry.content)}`);
+  }
+  if (entry.tags && entry.tags.length > 0) {
+    lines.push(`CATEGORIES:${entry.tags.map(escapeText).join(',')}`);
+  }
+  for (const linkedId of entry.linkedEntries || []) {
+    lines.push(`RELATED-TO;RELTYPE=SIBLING:${getEntryUid(linkedId)}`);
+  }
+  if (entry.pinned) {
+    lines.push('PRIORITY:1');
+  }
+  if (entry.archived) {
+    // Closest equivalents: a cancelled event / journal
+    lines.push('STATUS:CANCELLED');
+  }
+
+  lines.push(`X-CALENRECALL-TIME-RANGE:${entry.timeRange}`);
+  if (!representable) {
+    lines.push(`X-CALENRECALL-DATE:${entry.date}`);
+  }
+  if (entry.calendar && entry.periodEnd) {
+    lines.push(`X-CALENRECALL-CALENDAR:${escapeText(entry.calendar)}`);
+    lines.push(`X-CALENRECALL-PERIOD-END:${entry.periodEnd}`);
+  }
+
+  lines.push(`END:${component}`);
+  return lines;
+}
+
+/**
+ * Format entries as an iCalendar document
+ *
+ * @param entries - Entries to export
+ * @param metadata - Export metadata (the title becomes the calendar name)
+ * @returns iCalendar text with CRLF line endings
+ */
+export function formatAsICalendar(entries: JournalEntry[], metadata?: ExportMetadata): string {
+  const now = formatUtcDateTime(metadata?.exportDate) || formatUtcDateTime(new Date().toISOString())!;
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+  ];
+
+  const calendarName = metadata?.projectTitle || metadata?.exportName;
+  if (calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(calendarName)}`);
+  }
+  if (metadata?.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(metadata.description)}`);
+  }
+
+  entries.forEach((entry, index) => {
+    lines.push(...formatEntryComponent(entry, index, now));
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Unfold and split iCalendar text into content lines
+ */
+function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+}
+
+/**
+ * Parse a content line (NAME;PARAM=value;PARAM="quoted:value":VALUE)
+ */
+export function parseContentLine(line: string): ICalendarProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) || [];
+  if (!name) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const rawParam of rawParams) {
+    const equals = rawParam.indexOf('=');
+    if (equals > 0) {
+      params[rawParam.slice(0, equals).toUpperCase()] = rawParam.slice(equals + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+interface ParsedDateValue {
+  date: string; // YYYY-MM-DD
+  hour?: number;
+  minute?: number;
+  second?: number;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value. UTC times are converted to local time; times with a
+ * TZID are kept as written since time zone definitions aren't resolved.
+ */
+function parseDateValue(property: ICalendarProperty): ParsedDateValue | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+
+  if (hour === undefined || property.params.VALUE === 'DATE') {
+    return { date: `${year}-${month}-${day}` };
+  }
+
+  if (utc) {
+    const local = new Date(0);
+    local.setUTCFullYear(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10));
+    local.setUTCHours(parseInt(hour, 10), parseInt(minute, 10), parseInt(second, 10), 0);
+    return {
+      date: `${pad(local.getFullYear(), 4)}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+      hour: local.getHours(),
+      minute: local.getMinutes(),
+      second: local.getSeconds(),
+    };
+  }
+
+  return {
+    date: `${year}-${month}-${day}`,
+    hour: parseInt(hour, 10),
+    minute: parseInt(minute, 10),
+    // Leap seconds (60) don't fit the entry model
+    second: Math.min(parseInt(second, 10), 59),
+  };
+}
+
+/**
+ * Convert a UTC DATE-TIME value to an ISO datetime string
+ */
+function parseTimestamp(value: string | undefined): string | undefined {
+  const match = value ? /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z?$/.exec(value.trim()) : null;
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function componentToEntry(properties: ICalendarProperty[]): JournalEntry | null {
+  const first = (name: string) => properties.find(property => property.name === name);
+  const all = (name: string) => properties.filter(property => property.name === name);
+
+  const dtstart = first('DTSTART');
+  const start = dtstart ? parseDateValue(dtstart) : null;
+  const date = first('X-CALENRECALL-DATE')?.value.trim() || start?.date;
+  if (!date || !parseEntryDate(date)) {
+    return null; // Nothing to place the entry on the timeline
+  }
+
+  const rawRange = first('X-CALENRECALL-TIME-RANGE')?.value.trim().toLowerCase() as TimeRange | undefined;
+  const timeRange: TimeRange = rawRange && TIME_RANGES.includes(rawRange) ? rawRange : 'day';
+
+  const tags: string[] = [];
+  for (const property of all('CATEGORIES')) {
+    for (const tag of splitTextList(property.value)) {
+      if (!tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+        tags.push(tag);
+      }
+    }
+  }
+
+  // Links can only be kept between entries exported from CalenRecall
+  const linkedEntries: number[] = [];
+  for (const property of all('RELATED-TO')) {
+    const linkedId = parseEntryUid(property.value);
+    if (linkedId !== null && !linkedEntries.includes(linkedId)) {
+      linkedEntries.push(linkedId);
+    }
+  }
+
+  const calendar = first('X-CALENRECALL-CALENDAR');
+  const periodEnd = first('X-CALENRECALL-PERIOD-END')?.value.trim();
+  const priority = first('PRIORITY') ? parseInt(first('PRIORITY')!.value, 10) : 0;
+  const stamp = parseTimestamp(first('DTSTAMP')?.value);
+  const createdAt = parseTimestamp(first('CREATED')?.value) || stamp || new Date().toISOString();
+  const updatedAt = parseTimestamp(first('LAST-MODIFIED')?.value) || stamp || createdAt;
+  const timed = timeRange === 'day' && start?.hour !== undefined;
+
+  return {
+    date,
+    timeRange,
+    title: unescapeText(first('SUMMARY')?.value || ''),
+    content: unescapeText(first('DESCRIPTION')?.value || ''),
+    hour: timed ? start!.hour : null,
+    minute: timed ? start!.minute : null,
+    second: timed ? start!.second : null,
+    tags,
+    linkedEntries,
+    archived: first('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+    pinned: priority === 1,
+    calendar: calendar && periodEnd && parseEntryDate(periodEnd) ? unescapeText(calendar.value.trim()) : undefined,
+    periodEnd: calendar && periodEnd && parseEntryDate(periodEnd) ? periodEnd : undefined,
+    createdAt,
+    updatedAt,
+  };
+}
+
+/**
+ * Parse VEVENT and VJOURNAL components from an iCalendar document into entries
+ *
+ * @param content - iCalendar text
+ * @returns Entries (without IDs) in document order
+ */
+export function parseICalendarImport(content: string): JournalEntry[] {
+  return parseICalendarComponents(content).map(component => component.entry);
+}
+
+/**
+ * Like parseICalendarImport, but also returns the ID each entry had when it was
+ * exported from CalenRecall (null for components from other tools), so links
+ * between imported entries can be restored
+ */
+export function parseICalendarComponents(content: string): Array<{ entry: JournalEntry; sourceId: number | null }> {
+  const entries: Array<{ entry: JournalEntry; sourceId: number | null }> = [];
+  const stack: string[] = [];
+  let properties: ICalendarProperty[] | null = null;
+
+  for (const line of unfoldLines(content)) {
+    const property = parseContentLine(line);
+    if (!property) {
+      continue;
+    }
+
+    if (property.name === 'BEGIN') {
+      const component = property.value.trim().toUpperCase();
+      stack.push(component);
+      if ((component === 'VEVENT' || component === 'VJOURNAL') && properties === null) {
+        properties = [];
+      }
+      continue;
+    }
+
+    if (property.name === 'END') {
+      const component = stack.pop();
+      if ((component === 'VEVENT' || component === 'VJOURNAL') && properties !== null && !stack.some(c => c === 'VEVENT' || c === 'VJOURNAL')) {
+        const entry = componentToEntry(properties);
+        if (entry) {
+          const uid = properties.find(p => p.name === 'UID');
+          entries.push({ entry, sourceId: uid ? parseEntryUid(uid.value) : null });
+        }
+        properties = null;
+      }
+      continue;
+    }
+
+    // Only collect properties of the entry component itself, not nested ones (e.g. VALARM)
+    const current = stack[stack.length - 1];
+    if (properties !== null && (current === 'VEVENT' || current === 'VJOURNAL')) {
+      properties.push(property);
+    }
+  }
+
+  return entries;
+}
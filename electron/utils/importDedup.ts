@@ -0,0 +1,98 @@
+/**
+ * Duplicate detection for imports.
+ * An imported entry is a likely duplicate of an existing one when both share the same
+ * date and time range and their title and content hash the same after normalization
+ * (case, surrounding whitespace and line endings are ignored).
+ */
+
+import * as crypto from 'crypto';
+import { JournalEntry, TimeRange, ImportConflictResolution, ImportPreviewItem } from '../types';
+
+const SNIPPET_LENGTH = 140;
+
+function normalizeText(text: string | undefined): string {
+  return (text || '').replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').trim().toLowerCase();
+}
+
+/**
+ * Hash an entry's title and content for duplicate detection
+ */
+export function getContentHash(entry: Pick<JournalEntry, 'title' | 'content'>): string {
+  return crypto
+    .createHash('sha256')
+    .update(normalizeText(entry.title))
+    .update('\0')
+    .update(normalizeText(entry.content))
+    .digest('hex');
+}
+
+/**
+ * Key under which two entries count as duplicates
+ */
+export function getDuplicateKey(entry: Pick<JournalEntry, 'date' | 'timeRange' | 'title' | 'content'>): string {
+  return `${entry.date}|${entry.timeRange}|${getContentHash(entry)}`;
+}
+
+/**
+ * Build the preview shown before an import is committed.
+ *
+ * @param entries - Parsed entries, in import order
+ * @param getExistingEntries - Returns the stored entries for a date and time range
+ * @param getAttachmentCount - Number of attachments that come with the entry at an index
+ * @returns One preview item per entry; duplicates carry the matching stored entry
+ */
+export function buildImportPreview(
+  entries: JournalEntry[],
+  getExistingEntries: (date: string, timeRange: TimeRange) => JournalEntry[],
+  getAttachmentCount: (index: number) => number = () => 0
+): ImportPreviewItem[] {
+  const existingByDay = new Map<string, Map<string, JournalEntry>>();
+  // Repeats inside the file itself are duplicates of the first occurrence
+  const seenInFile = new Map<string, number>();
+
+  return entries.map((entry, index) => {
+    const dayKey = `${entry.date}|${entry.timeRange}`;
+    let existing = existingByDay.get(dayKey);
+    if (!existing) {
+      existing = new Map();
+      for (const stored of getExistingEntries(entry.date, entry.timeRange)) {
+        const key = getDuplicateKey(stored);
+        if (!existing.has(key)) {
+          existing.set(key, stored);
+        }
+      }
+      existingByDay.set(dayKey, existing);
+    }
+
+    const key = getDuplicateKey(entry);
+    const match = existing.get(key);
+    const firstInFile = seenInFile.get(key);
+    if (firstInFile === undefined) {
+      seenInFile.set(key, index);
+    }
+
+    const item: ImportPreviewItem = {
+      index,
+      date: entry.date,
+      timeRange: entry.timeRange,
+      title: entry.title,
+      snippet: entry.content.replace(/\s+/g, ' ').trim().slice(0, SNIPPET_LENGTH),
+      tags: entry.tags || [],
+      attachmentCount: getAttachmentCount(index),
+    };
+    if (match && match.id !== undefined) {
+      item.duplicateOf = { id: match.id, title: match.title, updatedAt: match.updatedAt };
+    } else if (firstInFile !== undefined) {
+      item.duplicateOfImportIndex = firstInFile;
+    }
+    return item;
+  });
+}
+
+/**
+ * Resolution used for an item when the user made no explicit choice:
+ * duplicates are skipped, everything else is imported.
+ */
+export function getDefaultResolution(item: ImportPreviewItem): ImportConflictResolution | 'import' {
+  return item.duplicateOf || item.duplicateOfImportIndex !== undefined ? 'skip' : 'import';
+}
@@ -3,18 +3,24 @@
  * Validates user input before processing to prevent errors and security issues.
  */
 
-import { JournalEntry, TimeRange, ExportFormat, ExportMetadata } from '../types';
-import type { Preferences } from '../database';
+import { JournalEntry, TimeRange, ExportFormat, ExportMetadata, BulkEntryOperation, SavedSearch, SearchFilters, SearchSortField, CalendarPeriod, ENTRY_RELATIONS } from '../types';
+import type { Preferences, EntryTemplate } from '../database';
+import { parseISODateParts } from './isoDate';
 
 /**
  * Valid time range values
  */
-const VALID_TIME_RANGES: TimeRange[] = ['decade', 'year', 'month', 'week', 'day'];
+const VALID_TIME_RANGES: TimeRange[] = ['millennium', 'century', 'decade', 'year', 'month', 'week', 'day'];
 
 /**
  * Valid export formats
  */
-const VALID_EXPORT_FORMATS: ExportFormat[] = ['markdown', 'text', 'json', 'rtf', 'pdf', 'dec', 'csv'];
+const VALID_EXPORT_FORMATS: ExportFormat[] = ['markdown', 'text', 'json', 'rtf', 'pdf', 'dec', 'csv', 'ics', 'bundle'];
+
+/**
+ * Valid sort fields for saved searches
+ */
+const VALID_SEARCH_SORT_FIELDS: SearchSortField[] = ['relevance', 'date', 'title', 'timeRange'];
 
 /**
  * Valid preference keys
@@ -48,6 +54,18 @@ const VALID_PREFERENCE_KEYS: Array<keyof Preferences> = [
   'soundEffectsEnabled',
   'showAstromonixToolbarButton',
   'fullScreen',
+  'autoBackupEnabled',
+  'autoBackupIntervalHours',
+  'autoBackupDirectory',
+  'autoBackupKeepCount',
+  'autoBackupIncludeAttachments',
+  'versionHistoryLimit',
+  'versionHistoryMaxAgeDays',
+  'editorMarkdownMode',
+  'trashRetentionDays',
+  'showHolidays',
+  'islamicCalendarVariant',
+  'islamicObserverRegion',
 ];
 
 /**
@@ -81,7 +99,8 @@ export function isValidPreferenceKey(key: unknown): key is keyof Preferences {
 }
 
 /**
- * Validates a date string (ISO format: YYYY-MM-DD or -YYYY-MM-DD)
+ * Validates a date string (ISO format: YYYY-MM-DD or -YYYY-MM-DD, with more year digits
+ * for deep-time dates such as -65000000-01-01)
  * 
  * @param dateStr - The date string to validate
  * @returns True if valid, false otherwise
@@ -91,33 +110,8 @@ export function isValidDateString(dateStr: unknown): boolean {
     return false;
   }
   
-  // Match ISO date format: YYYY-MM-DD or -YYYY-MM-DD (for negative years)
-  const dateRegex = /^-?\d{4}-\d{2}-\d{2}$/;
-  if (!dateRegex.test(dateStr)) {
-    return false;
-  }
-  
-  // Try to parse the date
-  try {
-    const parts = dateStr.replace(/^-/, '').split('-');
-    const year = dateStr.startsWith('-') ? -parseInt(parts[0], 10) : parseInt(parts[0], 10);
-    const month = parseInt(parts[1], 10);
-    const day = parseInt(parts[2], 10);
-    
-    // Basic validation
-    if (month < 1 || month > 12 || day < 1 || day > 31) {
-      return false;
-    }
-    
-    // Check reasonable year range
-    if (year < -9999 || year > 9999) {
-      return false;
-    }
-    
-    return true;
-  } catch {
-    return false;
-  }
+  // Checks the format, that the day exists and that the year is in the supported range
+  return parseISODateParts(dateStr) !== null;
 }
 
 /**
@@ -201,6 +195,51 @@ export function validateJournalEntry(entry: unknown): { valid: boolean; error?:
     return { valid: false, error: 'All linked entry IDs must be numbers' };
   }
   
+  if (e.links !== undefined && !Array.isArray(e.links)) {
+    return { valid: false, error: 'Links must be an array' };
+  }
+  
+  if (e.links && e.links.some(link => !link || !isValidEntryId(link.targetId) || !ENTRY_RELATIONS.includes(link.relation))) {
+    return { valid: false, error: 'Each link must have a valid target entry ID and relation' };
+  }
+  
+  // Validate calendar-native period
+  if (e.calendar !== undefined && e.calendar !== null && typeof e.calendar !== 'string') {
+    return { valid: false, error: 'Calendar must be a string' };
+  }
+  
+  if (e.periodEnd !== undefined && e.periodEnd !== null && !isValidDateString(e.periodEnd)) {
+    return { valid: false, error: 'Period end must be in ISO format (YYYY-MM-DD)' };
+  }
+  
+  return { valid: true };
+}
+
+/**
+ * Validates the bounds of a calendar-native period
+ * 
+ * @param period - The period to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateCalendarPeriod(period: unknown): { valid: boolean; error?: string } {
+  if (period === undefined || period === null) {
+    return { valid: true }; // Period is optional
+  }
+  
+  if (typeof period !== 'object' || Array.isArray(period)) {
+    return { valid: false, error: 'Calendar period must be an object' };
+  }
+  
+  const p = period as Partial<CalendarPeriod>;
+  
+  if (!p.calendar || typeof p.calendar !== 'string') {
+    return { valid: false, error: 'Calendar period must have a calendar' };
+  }
+  
+  if (!isValidDateString(p.startDate) || !isValidDateString(p.endDate)) {
+    return { valid: false, error: 'Calendar period dates must be in ISO format (YYYY-MM-DD)' };
+  }
+  
   return { valid: true };
 }
 
@@ -249,3 +288,159 @@ export function validateExportMetadata(metadata: unknown): { valid: boolean; err
   return { valid: true };
 }
 
+
+/**
+ * Validates search filter panel selections
+ * 
+ * @param filters - The filters to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateSearchFilters(filters: unknown): { valid: boolean; error?: string } {
+  if (filters === undefined || filters === null) {
+    return { valid: true }; // Filters are optional
+  }
+  
+  if (typeof filters !== 'object' || Array.isArray(filters)) {
+    return { valid: false, error: 'Search filters must be an object' };
+  }
+  
+  const f = filters as Partial<SearchFilters>;
+  
+  if (f.tags !== undefined && (!Array.isArray(f.tags) || f.tags.some(tag => typeof tag !== 'string'))) {
+    return { valid: false, error: 'Filter tags must be an array of strings' };
+  }
+  
+  if (f.timeRanges !== undefined && (!Array.isArray(f.timeRanges) || !f.timeRanges.every(isValidTimeRange))) {
+    return { valid: false, error: 'Filter time ranges must be valid time ranges' };
+  }
+  
+  if (f.startDate !== undefined && f.startDate !== '' && !isValidDateString(f.startDate)) {
+    return { valid: false, error: 'Filter start date must be in ISO format (YYYY-MM-DD)' };
+  }
+  
+  if (f.endDate !== undefined && f.endDate !== '' && !isValidDateString(f.endDate)) {
+    return { valid: false, error: 'Filter end date must be in ISO format (YYYY-MM-DD)' };
+  }
+  
+  return { valid: true };
+}
+
+/**
+ * Validates a saved search object
+ * 
+ * @param search - The saved search to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateSavedSearch(search: unknown): { valid: boolean; error?: string } {
+  if (!search || typeof search !== 'object') {
+    return { valid: false, error: 'Saved search must be an object' };
+  }
+  
+  const s = search as Partial<SavedSearch>;
+  
+  if (s.id !== undefined && !isValidEntryId(s.id)) {
+    return { valid: false, error: 'Invalid saved search ID' };
+  }
+  
+  if (!s.name || typeof s.name !== 'string' || s.name.trim() === '') {
+    return { valid: false, error: 'Saved search must have a name' };
+  }
+  
+  if (typeof s.query !== 'string') {
+    return { valid: false, error: 'Saved search must have a query string' };
+  }
+  
+  const filtersValidation = validateSearchFilters(s.filters);
+  if (!filtersValidation.valid) {
+    return filtersValidation;
+  }
+  
+  if (!s.sortBy || !VALID_SEARCH_SORT_FIELDS.includes(s.sortBy)) {
+    return { valid: false, error: 'Invalid sort field' };
+  }
+  
+  if (s.sortOrder !== 'asc' && s.sortOrder !== 'desc') {
+    return { valid: false, error: 'Sort order must be asc or desc' };
+  }
+  
+  return { valid: true };
+}
+
+/**
+ * Validates an entry template
+ * 
+ * @param template - The template to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateTemplate(template: unknown): { valid: boolean; error?: string } {
+  if (!template || typeof template !== 'object') {
+    return { valid: false, error: 'Template must be an object' };
+  }
+  
+  const t = template as Partial<EntryTemplate>;
+  
+  if (t.id !== undefined && !isValidEntryId(t.id)) {
+    return { valid: false, error: 'Invalid template ID' };
+  }
+  
+  if (!t.name || typeof t.name !== 'string' || t.name.trim() === '') {
+    return { valid: false, error: 'Template must have a name' };
+  }
+  
+  if (t.title !== undefined && typeof t.title !== 'string') {
+    return { valid: false, error: 'Template title must be a string' };
+  }
+  
+  if (typeof t.content !== 'string') {
+    return { valid: false, error: 'Template must have content' };
+  }
+  
+  if (t.tags !== undefined && (!Array.isArray(t.tags) || !t.tags.every(tag => typeof tag === 'string'))) {
+    return { valid: false, error: 'Template tags must be strings' };
+  }
+  
+  if (t.timeRange !== undefined && t.timeRange !== null && !isValidTimeRange(t.timeRange)) {
+    return { valid: false, error: 'Invalid template time range' };
+  }
+  
+  return { valid: true };
+}
+
+/**
+ * Validates a change applied to many entries at once
+ * 
+ * @param operation - The bulk operation to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateBulkEntryOperation(operation: unknown): { valid: boolean; error?: string } {
+  if (!operation || typeof operation !== 'object') {
+    return { valid: false, error: 'Bulk operation must be an object' };
+  }
+  
+  const o = operation as Partial<BulkEntryOperation> & Record<string, unknown>;
+  
+  switch (o.type) {
+    case 'add-tags':
+    case 'remove-tags':
+      if (!Array.isArray(o.tags) || o.tags.length === 0 || !o.tags.every(tag => typeof tag === 'string' && tag.trim() !== '')) {
+        return { valid: false, error: 'Bulk tag changes need at least one tag' };
+      }
+      return { valid: true };
+    case 'archive':
+      return typeof o.archived === 'boolean' ? { valid: true } : { valid: false, error: 'archived must be a boolean' };
+    case 'pin':
+      return typeof o.pinned === 'boolean' ? { valid: true } : { valid: false, error: 'pinned must be a boolean' };
+    case 'trash':
+      return typeof o.trashed === 'boolean' ? { valid: true } : { valid: false, error: 'trashed must be a boolean' };
+    case 'move':
+      if (!isValidDateString(o.date)) {
+        return { valid: false, error: 'Move date must be in ISO format (YYYY-MM-DD)' };
+      }
+      if (!isValidTimeRange(o.timeRange)) {
+        return { valid: false, error: 'Invalid time range' };
+      }
+      return { valid: true };
+    default:
+      return { valid: false, error: 'Unknown bulk operation' };
+  }
+}
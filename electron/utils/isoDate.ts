@@ -0,0 +1,108 @@
+/**
+ * ISO date strings and Julian Day Numbers.
+ *
+ * Entry dates are stored as ISO strings with a signed year of any length
+ * ("2024-03-01", "-0044-03-15", "-65000000-01-01") in the proleptic Gregorian calendar with
+ * astronomical year numbering (year 0 = 1 BCE). JavaScript Date only reaches about
+ * ±271,821 years and maps years 0-99 to the 1900s, so everything that orders or compares
+ * entry dates goes through the Julian Day Number instead. JDNs stay exact integers far
+ * beyond the supported years.
+ *
+ * This is the one implementation of these conversions: the renderer uses it through
+ * src/utils/calendars/julianDayUtils.ts.
+ */
+
+/**
+ * Supported years: past the age of the universe either way, well inside the range where
+ * JDNs are exact integers
+ */
+export const MIN_DATE_YEAR = -20_000_000_000;
+export const MAX_DATE_YEAR = 20_000_000_000;
+
+export interface DateParts {
+  year: number;  // Astronomical year (0 = 1 BCE)
+  month: number; // 1-12
+  day: number;   // 1-31
+}
+
+const ISO_DATE_PATTERN = /^([+-]?)(\d{4,11})-(\d{2})-(\d{2})$/;
+
+/**
+ * Convert a proleptic Gregorian date to a Julian Day Number
+ */
+export function gregorianToJDN(year: number, month: number, day: number): number {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  return day + Math.floor((153 * m + 2) / 5) + 365 * y +
+         Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+}
+
+/**
+ * Convert a Julian Day Number to a proleptic Gregorian date
+ */
+export function jdnToGregorian(jdn: number): DateParts {
+  const a = jdn + 32044;
+  const b = Math.floor((4 * a + 3) / 146097);
+  const c = a - Math.floor((146097 * b) / 4);
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+  return {
+    year: 100 * b + d - 4800 + Math.floor(m / 10),
+    month: m + 3 - 12 * Math.floor(m / 10),
+    day: e - Math.floor((153 * m + 2) / 5) + 1,
+  };
+}
+
+/**
+ * Parse an ISO date string without going through Date
+ * @returns The date, or null if the string is malformed, the day does not exist or the
+ *   year is out of range
+ */
+export function parseISODateParts(dateStr: string): DateParts | null {
+  const match = ISO_DATE_PATTERN.exec(dateStr);
+  if (!match) {
+    return null;
+  }
+
+  const year = (match[1] === '-' ? -1 : 1) * parseInt(match[2], 10);
+  const month = parseInt(match[3], 10);
+  const day = parseInt(match[4], 10);
+  if (year < MIN_DATE_YEAR || year > MAX_DATE_YEAR || month < 1 || month > 12 || day < 1) {
+    return null;
+  }
+
+  // Round-trip through the JDN to reject days past the end of the month
+  const roundTrip = jdnToGregorian(gregorianToJDN(year, month, day));
+  if (roundTrip.month !== month || roundTrip.day !== day) {
+    return null;
+  }
+  return { year, month, day };
+}
+
+/**
+ * Format a date as an ISO string (-YYYY-MM-DD for negative years, more digits as needed)
+ */
+export function formatISODateParts(year: number, month: number, day: number): string {
+  const yearStr = year < 0
+    ? `-${String(Math.abs(year)).padStart(4, '0')}`
+    : String(year).padStart(4, '0');
+  return `${yearStr}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Julian Day Number of an ISO date string, or null if it is not a valid date
+ */
+export function isoDateStringToJDN(dateStr: string): number | null {
+  const parts = parseISODateParts(dateStr);
+  return parts ? gregorianToJDN(parts.year, parts.month, parts.day) : null;
+}
+
+/**
+ * ISO date string of a Julian Day Number
+ */
+export function jdnToISODateString(jdn: number): string {
+  const { year, month, day } = jdnToGregorian(jdn);
+  return formatISODateParts(year, month, day);
+}
@@ -0,0 +1,358 @@
+/**
+ * Importers for other journaling apps.
+ *
+ * - Day One: JSON export (Journal.json), optionally inside the export ZIP with photos/<md5>.<type>
+ * - Journey: ZIP of one JSON file per entry, photos stored next to them
+ * - Obsidian: folder of YYYY-MM-DD.md daily notes with optional YAML front matter
+ *
+ * Parsers here are pure: files are read through the callbacks passed in by the import
+ * handler, which also stores the returned attachments once the entry has an ID.
+ */
+
+import { JournalEntry } from '../types';
+
+export interface ImportedAttachment {
+  fileName: string;
+  read: () => Buffer | null; // Null when the file is missing from the export
+  sourceId?: string; // Attachment ID in the export, used to update ![](attachment:<id>) embeds
+}
+
+export interface ImportedEntry {
+  entry: JournalEntry;
+  attachments: ImportedAttachment[];
+  sourceId?: number; // ID in the exporting database, used to restore links between imported entries
+}
+
+export type ImportFileReader = (relativePath: string) => Buffer | null;
+
+const MAX_TITLE_LENGTH = 80;
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Local date and time of an instant in a time zone (falls back to the system time zone
+ * when the zone is missing or unknown)
+ */
+export function toZonedDateParts(instant: Date, timeZone?: string): { date: string; hour: number; minute: number; second: number } {
+  if (timeZone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(instant);
+      const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+      return {
+        date: `${pad(part('year'), 4)}-${pad(part('month'))}-${pad(part('day'))}`,
+        hour: part('hour'),
+        minute: part('minute'),
+        second: part('second'),
+      };
+    } catch {
+      // Unknown time zone - use local time
+    }
+  }
+  return {
+    date: `${pad(instant.getFullYear(), 4)}-${pad(instant.getMonth() + 1)}-${pad(instant.getDate())}`,
+    hour: instant.getHours(),
+    minute: instant.getMinutes(),
+    second: instant.getSeconds(),
+  };
+}
+
+/**
+ * Split journal text into a title and content. A leading Markdown heading becomes the
+ * title; otherwise the (shortened) first line is used and the text is kept whole.
+ */
+export function splitTitle(text: string): { title: string; content: string } {
+  const trimmed = text.replace(/^\s+/, '');
+  const newline = trimmed.indexOf('\n');
+  const firstLine = (newline === -1 ? trimmed : trimmed.slice(0, newline)).trim();
+
+  const heading = /^#{1,6}\s+(.*)$/.exec(firstLine);
+  if (heading) {
+    return {
+      title: heading[1].trim(),
+      content: newline === -1 ? '' : trimmed.slice(newline + 1).trim(),
+    };
+  }
+
+  const title = firstLine.length > MAX_TITLE_LENGTH
+    ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : firstLine;
+  return { title, content: trimmed.trim() };
+}
+
+function uniqueTags(tags: unknown): string[] {
+  const result: string[] = [];
+  if (!Array.isArray(tags)) {
+    return result;
+  }
+  for (const tag of tags) {
+    const value = typeof tag === 'string' ? tag.trim().replace(/^#/, '') : '';
+    if (value && !result.some(existing => existing.toLowerCase() === value.toLowerCase())) {
+      result.push(value);
+    }
+  }
+  return result;
+}
+
+function toIsoString(value: unknown, fallback: string): string {
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) {
+      return date.toISOString();
+    }
+  }
+  return fallback;
+}
+
+interface DayOnePhoto {
+  identifier?: string;
+  md5?: string;
+  type?: string;
+  filename?: string;
+}
+
+/**
+ * Parse a Day One JSON export
+ *
+ * @param json - Contents of the exported Journal.json
+ * @param readFile - Reads a file relative to the export root (e.g. photos/<md5>.jpeg)
+ * @returns Imported entries with their photos
+ */
+export function parseDayOneExport(json: string, readFile: ImportFileReader): ImportedEntry[] {
+  const data = JSON.parse(json);
+  const rawEntries: unknown[] = Array.isArray(data?.entries) ? data.entries : [];
+  const results: ImportedEntry[] = [];
+
+  for (const raw of rawEntries) {
+    const item = raw as Record<string, any>;
+    const created = new Date(item.creationDate);
+    if (isNaN(created.getTime())) {
+      continue;
+    }
+
+    const local = toZonedDateParts(created, item.timeZone);
+    // Photos are referenced inline as ![](dayone-moment://<identifier>) - they become attachments.
+    // Day One also backslash-escapes Markdown punctuation in plain text.
+    const text = typeof item.text === 'string'
+      ? item.text.replace(/!\[[^\]]*\]\(dayone-moment:\/\/[^)]*\)\s*/g, '').replace(/\\([.\-!#()[\]*_])/g, '$1')
+      : '';
+    const { title, content } = splitTitle(text);
+
+    const photos: DayOnePhoto[] = Array.isArray(item.photos) ? item.photos : [];
+    const attachments: ImportedAttachment[] = photos
+      .filter(photo => photo.md5)
+      .map(photo => {
+        const extension = photo.type || 'jpeg';
+        return {
+          fileName: photo.filename || `${photo.md5}.${extension}`,
+          read: () => readFile(`photos/${photo.md5}.${extension}`),
+        };
+      });
+
+    results.push({
+      entry: {
+        date: local.date,
+        timeRange: 'day',
+        hour: local.hour,
+        minute: local.minute,
+        second: local.second,
+        title,
+        content,
+        tags: uniqueTags(item.tags),
+        pinned: item.starred === true,
+        createdAt: created.toISOString(),
+        updatedAt: toIsoString(item.modifiedDate, created.toISOString()),
+      },
+      attachments,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Convert Journey's HTML entry text to plain text
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Parse one entry file of a Journey export
+ *
+ * @param json - Contents of the entry's JSON file
+ * @param readFile - Reads a file relative to the export root (photos sit next to the entries)
+ * @returns The imported entry, or null if the file isn't a Journey entry
+ */
+export function parseJourneyEntry(json: string, readFile: ImportFileReader): ImportedEntry | null {
+  const item = JSON.parse(json) as Record<string, any>;
+  if (typeof item?.date_journal !== 'number' || typeof item.text !== 'string') {
+    return null;
+  }
+
+  const created = new Date(item.date_journal);
+  if (isNaN(created.getTime())) {
+    return null;
+  }
+
+  const local = toZonedDateParts(created, item.timezone);
+  const text = item.type === 'html' || /<\/?(p|br|div)\b/i.test(item.text) ? htmlToText(item.text) : item.text;
+  const { title, content } = splitTitle(text);
+  const photos: unknown[] = Array.isArray(item.photos) ? item.photos : [];
+
+  return {
+    entry: {
+      date: local.date,
+      timeRange: 'day',
+      hour: local.hour,
+      minute: local.minute,
+      second: local.second,
+      title,
+      content,
+      tags: uniqueTags(item.tags),
+      pinned: item.favourite === true,
+      createdAt: created.toISOString(),
+      updatedAt: toIsoString(item.date_modified, created.toISOString()),
+    },
+    attachments: photos
+      .filter((photo): photo is string => typeof photo === 'string' && photo.length > 0)
+      .map(photo => ({ fileName: photo, read: () => readFile(photo) })),
+  };
+}
+
+/**
+ * Parse simple YAML front matter (scalars, inline [a, b] lists and "- item" lists).
+ * Nested mappings are ignored.
+ */
+export function parseFrontMatter(text: string): { data: Record<string, string | string[]>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) {
+    return { data: {}, body: text };
+  }
+
+  const data: Record<string, string | string[]> = {};
+  const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = /^\s+-\s+(.*)$/.exec(line) || /^-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const pair = /^([A-Za-z0-9_-]+):\s*(.*)$/.exec(line);
+    if (!pair) {
+      listKey = null;
+      continue;
+    }
+
+    const [, key, rawValue] = pair;
+    const value = rawValue.trim();
+    if (value === '') {
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      data[key] = value.slice(1, -1).split(',').map(unquote).filter(v => v.length > 0);
+      listKey = null;
+    } else {
+      data[key] = unquote(value);
+      listKey = null;
+    }
+  }
+
+  return { data, body: text.slice(match[0].length) };
+}
+
+const DAILY_NOTE_PATTERN = /^(-?\d{4}-\d{2}-\d{2})\.md$/i;
+
+/**
+ * Check whether a file name is an Obsidian-style daily note (YYYY-MM-DD.md)
+ */
+export function isDailyNoteFileName(fileName: string): boolean {
+  return DAILY_NOTE_PATTERN.test(fileName);
+}
+
+/**
+ * Parse an Obsidian daily note
+ *
+ * @param fileName - Note file name (YYYY-MM-DD.md)
+ * @param text - Note contents
+ * @param findFile - Resolves an embedded file (![[name]] or ![](path)) to its contents
+ * @param modifiedAt - File modification time, used for the timestamps
+ * @returns The imported entry, or null if the file name isn't a date
+ */
+export function parseObsidianDailyNote(
+  fileName: string,
+  text: string,
+  findFile: ImportFileReader,
+  modifiedAt: string = new Date().toISOString()
+): ImportedEntry | null {
+  const dateMatch = DAILY_NOTE_PATTERN.exec(fileName);
+  if (!dateMatch) {
+    return null;
+  }
+
+  const { data, body } = parseFrontMatter(text);
+  const asList = (value: string | string[] | undefined) =>
+    value === undefined ? [] : Array.isArray(value) ? value : value.split(/[,\s]+/);
+
+  const frontMatterTitle = typeof data.title === 'string' ? data.title : '';
+  const split = frontMatterTitle ? null : /^\s*#\s+/.test(body) ? splitTitle(body) : null;
+  const title = frontMatterTitle || split?.title || dateMatch[1];
+  const content = split ? split.content : body.trim();
+
+  // Optional time: 14:30 or 14:30:15
+  const time = typeof data.time === 'string' ? /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(data.time) : null;
+  const hour = time ? parseInt(time[1], 10) : null;
+
+  const attachments: ImportedAttachment[] = [];
+  const embedPattern = /!\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]|!\[[^\]]*\]\((?!https?:)([^)\s]+)\)/g;
+  let embed: RegExpExecArray | null;
+  while ((embed = embedPattern.exec(content)) !== null) {
+    const target = decodeURIComponent((embed[1] || embed[2]).trim());
+    // Notes embedded in notes aren't files to attach
+    if (/\.md$/i.test(target) || !/\.[a-z0-9]+$/i.test(target) || attachments.some(a => a.fileName === target.split('/').pop())) {
+      continue;
+    }
+    attachments.push({ fileName: target.split('/').pop()!, read: () => findFile(target) });
+  }
+
+  return {
+    entry: {
+      date: dateMatch[1],
+      timeRange: 'day',
+      hour: hour !== null && hour <= 23 ? hour : null,
+      minute: time && hour !== null && hour <= 23 ? parseInt(time[2], 10) : null,
+      second: time && time[3] && hour !== null && hour <= 23 ? parseInt(time[3], 10) : null,
+      title,
+      content,
+      tags: uniqueTags([...asList(data.tags), ...asList(data.tag)]),
+      pinned: data.pinned === 'true',
+      createdAt: toIsoString(data.created, modifiedAt),
+      updatedAt: modifiedAt,
+    },
+    attachments,
+  };
+}
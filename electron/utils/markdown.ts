@@ -0,0 +1,584 @@
+/**
+ * Markdown parser for entry content.
+ * Parses into a small syntax tree that every output renders from: the entry viewer and editor
+ * preview (src/components/MarkdownContent.tsx) and the Markdown, RTF and PDF exporters
+ * (markdownExport.ts). The module has no Node or DOM dependencies so the renderer can import it.
+ *
+ * Supported syntax:
+ * - # headings, paragraphs, > blockquotes, --- rules
+ * - bullet, numbered and task lists (- [ ] / - [x]), nested by indentation
+ * - ``` fenced code blocks and `code` spans
+ * - GFM pipe tables with :--: alignment
+ * - **bold**, *italic*, ~~strikethrough~~, [links](https://...), <autolinks> and bare URLs
+ * - ![images](attachment:<id>) of the entry's own attachments
+ *
+ * Raw HTML is never interpreted (it stays text), and links are kept only for http(s) and mailto
+ * URLs. Every line break inside a paragraph is kept, as journal text is written line by line.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownListItem {
+  checked?: boolean; // Set for task list items
+  children: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*))?$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}> ?/;
+const LIST_ITEM_PATTERN = /^( *)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+const TABLE_DELIMITER_PATTERN = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const TASK_PATTERN = /^\[([ xX])\][ \t]+/;
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:)/i;
+const ATTACHMENT_URL_PATTERN = /^attachment:([\w-]+)$/;
+const BARE_URL_PATTERN = /^https?:\/\/[^\s<]+/i;
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~<>"\'';
+
+interface ListMarker {
+  indent: number;
+  ordered: boolean;
+  bullet: string; // Marker character: - * + for bullets, . or ) for numbers
+  start: number;
+  contentIndent: number; // Column where the item's text starts
+  text: string;
+}
+
+/**
+ * Whether a URL may be used as a link target
+ */
+export function isSafeUrl(href: string): boolean {
+  return SAFE_URL_PATTERN.test(href.trim());
+}
+
+/**
+ * ID of the attachment an image source points to ("attachment:<id>"), or null
+ */
+export function getAttachmentId(src: string): string | null {
+  const match = src.trim().match(ATTACHMENT_URL_PATTERN);
+  return match ? match[1] : null;
+}
+
+function matchListItem(line: string): ListMarker | null {
+  const match = line.match(LIST_ITEM_PATTERN);
+  if (!match || RULE_PATTERN.test(line)) {
+    return null;
+  }
+  const [, spaces, marker, text = ''] = match;
+  const ordered = /\d/.test(marker);
+  const gap = text ? line.length - spaces.length - marker.length - text.length : 1;
+  return {
+    indent: spaces.length,
+    ordered,
+    bullet: ordered ? marker.slice(-1) : marker,
+    start: ordered ? parseInt(marker, 10) : 1,
+    contentIndent: spaces.length + marker.length + Math.min(Math.max(gap, 1), 4),
+    text,
+  };
+}
+
+function leadingSpaces(line: string): number {
+  return line.length - line.replace(/^ +/, '').length;
+}
+
+function isClosingFence(line: string, marker: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length >= marker.length && trimmed[0] === marker[0] && new RegExp(`^\\${marker[0]}+$`).test(trimmed);
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return i + 1 < lines.length && lines[i].includes('|') && TABLE_DELIMITER_PATTERN.test(lines[i + 1])
+    && splitTableRow(lines[i]).length === splitTableRow(lines[i + 1]).length;
+}
+
+// Whether a line ends a paragraph by starting another block
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return FENCE_PATTERN.test(line) || HEADING_PATTERN.test(line) || RULE_PATTERN.test(line)
+    || BLOCKQUOTE_PATTERN.test(line) || matchListItem(line) !== null || isTableStart(lines, i);
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += row[i];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function parseTableAlign(cell: string): TableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+}
+
+function parseList(lines: string[], start: number): { block: MarkdownBlock; next: number } {
+  const first = matchListItem(lines[start])!;
+  const items: MarkdownListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const marker = matchListItem(lines[i]);
+    if (!marker || marker.indent !== first.indent || marker.ordered !== first.ordered || marker.bullet !== first.bullet) {
+      break;
+    }
+
+    const itemLines = [marker.text];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        // A blank line stays in the item only if indented content follows it
+        let j = i;
+        while (j < lines.length && !lines[j].trim()) j++;
+        if (j < lines.length && leadingSpaces(lines[j]) >= marker.contentIndent) {
+          itemLines.push(...lines.slice(i, j).map(() => ''));
+          i = j;
+          continue;
+        }
+        break;
+      }
+      const indent = leadingSpaces(line);
+      const nested = matchListItem(line);
+      if (indent >= marker.contentIndent || (nested && nested.indent > marker.indent)) {
+        itemLines.push(line.slice(Math.min(indent, marker.contentIndent)));
+      } else if (!nested && !startsBlock(lines, i) && itemLines[itemLines.length - 1].trim()) {
+        // Lazy continuation of the item's paragraph
+        itemLines.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    let checked: boolean | undefined;
+    const task = itemLines[0].match(TASK_PATTERN);
+    if (task) {
+      checked = task[1] !== ' ';
+      itemLines[0] = itemLines[0].slice(task[0].length);
+    }
+    items.push({ checked, children: parseBlocks(itemLines) });
+
+    // Blank lines between items of the same list
+    let j = i;
+    while (j < lines.length && !lines[j].trim()) j++;
+    const following = j < lines.length ? matchListItem(lines[j]) : null;
+    if (j > i && following && following.indent === first.indent && following.ordered === first.ordered && following.bullet === first.bullet) {
+      i = j;
+    }
+  }
+
+  return { block: { type: 'list', ordered: first.ordered, start: first.start, items }, next: i };
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !isClosingFence(lines[i], fence[1])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', language: fence[2] || undefined, text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const text = (heading[2] || '').replace(/[ \t]+#+[ \t]*$/, '').replace(/^#+[ \t]*$/, '').trim();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(text) });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && BLOCKQUOTE_PATTERN.test(lines[i])) {
+        quoted.push(lines[i].replace(BLOCKQUOTE_PATTERN, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseTableAlign);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] || '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    if (matchListItem(line)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+function pushText(nodes: MarkdownInline[], text: string): void {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last && last.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+}
+
+// Index of the ] matching the [ at start, or -1
+function findClosingBracket(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// Parse "(url "title")" at start; returns the URL and the index after the closing parenthesis
+function parseLinkDestination(text: string, start: number): { href: string; end: number } | null {
+  if (text[start] !== '(') return null;
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')') {
+      depth--;
+      if (depth === 0) {
+        const inner = text.slice(start + 1, i).trim();
+        const href = inner.replace(/^<(.*)>$/, '$1').replace(/\s+("[^"]*"|'[^']*')$/, '').trim();
+        return { href, end: i + 1 };
+      }
+    } else if (text[i] === '\n') {
+      return null;
+    }
+  }
+  return null;
+}
+
+// Index of a closing delimiter run for emphasis starting after pos, or -1
+function findClosingDelimiter(text: string, delimiter: string, pos: number): number {
+  let i = text.indexOf(delimiter, pos);
+  while (i !== -1) {
+    const before = text[i - 1];
+    const after = text[i + delimiter.length];
+    const validClose = before !== undefined && !/\s/.test(before)
+      && (delimiter.length > 1 || after !== delimiter[0])
+      && (delimiter[0] !== '_' || after === undefined || !/[\p{L}\p{N}]/u.test(after));
+    if (validClose && i > pos) {
+      return i;
+    }
+    i = text.indexOf(delimiter, i + delimiter.length);
+  }
+  return -1;
+}
+
+/**
+ * Parse inline Markdown (emphasis, code, links) in a piece of text
+ *
+ * @param text - Text of a paragraph, heading or table cell
+ * @returns Inline nodes; adjacent text is merged into one node
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      pushText(nodes, text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) {
+        let code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+        if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) {
+          code = code.slice(1, -1);
+        }
+        nodes.push({ type: 'code', text: code });
+        i = close + run.length;
+      } else {
+        pushText(nodes, run);
+        i += run.length;
+      }
+      continue;
+    }
+
+    if (char === '<') {
+      const autolink = text.slice(i).match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+      if (autolink) {
+        nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1].replace(/^mailto:/i, '') }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if (char === '!' && text[i + 1] === '[') {
+      const close = findClosingBracket(text, i + 1);
+      const destination = close !== -1 ? parseLinkDestination(text, close + 1) : null;
+      if (destination && (getAttachmentId(destination.href) || isSafeUrl(destination.href))) {
+        nodes.push({ type: 'image', src: destination.href, alt: inlineToText(parseInline(text.slice(i + 2, close))) });
+        i = destination.end;
+        continue;
+      }
+    }
+
+    if (char === '[' && text[i + 1] !== '[') {
+      const close = findClosingBracket(text, i);
+      const destination = close !== -1 ? parseLinkDestination(text, close + 1) : null;
+      if (destination) {
+        const children = parseInline(text.slice(i + 1, close));
+        if (isSafeUrl(destination.href)) {
+          nodes.push({ type: 'link', href: destination.href, children });
+        } else {
+          children.forEach(child => child.type === 'text' ? pushText(nodes, child.text) : nodes.push(child));
+        }
+        i = destination.end;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && (i === 0 || /[\s(]/.test(text[i - 1]))) {
+      const url = text.slice(i).match(BARE_URL_PATTERN);
+      if (url) {
+        // Trailing punctuation ends the sentence, not the URL
+        const href = url[0].replace(/[.,;:!?'")\]]+$/, '');
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: href }] });
+        i += href.length;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const run = text.slice(i).match(char === '~' ? /^~+/ : char === '*' ? /^\*+/ : /^_+/)![0];
+      const delimiter = char === '~' ? (run.length >= 2 ? '~~' : '') : run.length >= 2 ? char + char : char;
+      const next = text[i + delimiter.length];
+      const intraword = char === '_' && i > 0 && /[\p{L}\p{N}]/u.test(text[i - 1]);
+      if (delimiter && next !== undefined && !/\s/.test(next) && !intraword) {
+        const close = findClosingDelimiter(text, delimiter, i + delimiter.length);
+        if (close !== -1) {
+          const type = char === '~' ? 'strikethrough' : delimiter.length === 2 ? 'strong' : 'emphasis';
+          nodes.push({ type, children: parseInline(text.slice(i + delimiter.length, close)) });
+          i = close + delimiter.length;
+          continue;
+        }
+      }
+      pushText(nodes, run);
+      i += run.length;
+      continue;
+    }
+
+    pushText(nodes, char);
+    i++;
+  }
+
+  return nodes;
+}
+
+/**
+ * Parse Markdown text into blocks
+ *
+ * @param text - Entry content
+ * @returns The block-level syntax tree
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseBlocks((text || '').replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+}
+
+/**
+ * Placeholder text for an image in outputs that cannot show it
+ */
+export function describeImage(alt: string): string {
+  return alt ? `[Image: ${alt}]` : '[Image]';
+}
+
+/**
+ * Plain text of inline nodes, without any formatting
+ */
+export function inlineToText(nodes: MarkdownInline[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'break':
+        return '\n';
+      case 'image':
+        return node.alt;
+      default:
+        return inlineToText(node.children);
+    }
+  }).join('');
+}
+
+/**
+ * Move the headings in Markdown text down by some levels (capped at level 6), leaving code blocks alone.
+ * Used when entries are nested under their own headings in an export.
+ *
+ * @param text - Entry content
+ * @param levels - Number of levels to add to each heading
+ */
+export function shiftMarkdownHeadings(text: string, levels: number): string {
+  let fence: string | null = null;
+  return (text || '').split('\n').map(line => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fence) {
+      if (isClosingFence(line, fence)) fence = null;
+      return line;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      return line;
+    }
+    return line.replace(/^( {0,3})(#{1,6})(?=[ \t]|$)/, (_, indent: string, hashes: string) =>
+      indent + '#'.repeat(Math.min(6, hashes.length + levels))
+    );
+  }).join('\n');
+}
+
+/**
+ * Find the fenced code blocks and `code` spans in Markdown text.
+ * Used to leave code alone when looking for references and tags in entry content.
+ *
+ * @param text - Entry content
+ * @returns [start, end) character ranges in text order
+ */
+export function findCodeRanges(text: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let fence: string | null = null;
+  let proseStart = 0;
+  let offset = 0;
+
+  const addCodeSpans = (start: number, end: number) => {
+    const prose = text.slice(start, end);
+    let i = prose.indexOf('`');
+    while (i !== -1) {
+      const run = prose.slice(i).match(/^`+/)![0];
+      const close = prose.indexOf(run, i + run.length);
+      // A code span cannot run past the end of its paragraph
+      const paragraphEnd = prose.indexOf('\n\n', i);
+      if (close !== -1 && (paragraphEnd === -1 || close < paragraphEnd)) {
+        ranges.push([start + i, start + close + run.length]);
+        i = prose.indexOf('`', close + run.length);
+      } else {
+        i = prose.indexOf('`', i + run.length);
+      }
+    }
+  };
+
+  for (const line of text.split('\n')) {
+    const lineEnd = offset + line.length;
+    if (fence) {
+      if (isClosingFence(line, fence)) {
+        ranges.push([proseStart, lineEnd]);
+        fence = null;
+        proseStart = lineEnd;
+      }
+    } else {
+      const fenceMatch = line.match(FENCE_PATTERN);
+      if (fenceMatch) {
+        addCodeSpans(proseStart, offset);
+        fence = fenceMatch[1];
+        proseStart = offset;
+      }
+    }
+    offset = lineEnd + 1;
+  }
+
+  if (fence) {
+    // An unclosed fence runs to the end of the text
+    ranges.push([proseStart, text.length]);
+  } else {
+    addCodeSpans(proseStart, text.length);
+  }
+  return ranges;
+}
@@ -0,0 +1,201 @@
+/**
+ * Draws Markdown entry content (see markdown.ts) into a PDFKit document for the PDF export.
+ * Text is laid out from the given position and the document's y position is left below
+ * the content, like a plain doc.text() call.
+ */
+
+import type PDFDocument from 'pdfkit';
+import { parseMarkdown, inlineToText, describeImage, MarkdownBlock, MarkdownInline } from './markdown';
+
+export interface PdfMarkdownStyle {
+  x: number;
+  width: number;
+  fontSize: number;
+  fonts: {
+    regular: string;
+    bold: string;
+    italic: string;
+    boldItalic: string;
+    mono: string;
+  };
+  textColor: string;
+  mutedColor: string; // Blockquotes, rules and table borders
+  linkColor: string;
+  codeBackground: string;
+}
+
+interface TextRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  code: boolean;
+  strike: boolean;
+  link?: string;
+}
+
+const HEADING_SCALES = [1, 1.6, 1.4, 1.2, 1.1, 1, 1];
+const INDENT = 16;
+
+function collectRuns(nodes: MarkdownInline[], format: Omit<TextRun, 'text'>, runs: TextRun[]): TextRun[] {
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        runs.push({ ...format, text: node.text });
+        break;
+      case 'code':
+        runs.push({ ...format, code: true, text: node.text });
+        break;
+      case 'break':
+        runs.push({ ...format, text: '\n' });
+        break;
+      case 'image':
+        runs.push({ ...format, italic: true, text: describeImage(node.alt) });
+        break;
+      case 'strong':
+        collectRuns(node.children, { ...format, bold: true }, runs);
+        break;
+      case 'emphasis':
+        collectRuns(node.children, { ...format, italic: true }, runs);
+        break;
+      case 'strikethrough':
+        collectRuns(node.children, { ...format, strike: true }, runs);
+        break;
+      case 'link':
+        collectRuns(node.children, { ...format, link: node.href }, runs);
+        break;
+    }
+  }
+  return runs;
+}
+
+function fontFor(run: Omit<TextRun, 'text'>, style: PdfMarkdownStyle): string {
+  if (run.code) return style.fonts.mono;
+  if (run.bold && run.italic) return style.fonts.boldItalic;
+  if (run.bold) return style.fonts.bold;
+  if (run.italic) return style.fonts.italic;
+  return style.fonts.regular;
+}
+
+// Write inline content as one wrapped paragraph made of continued text runs
+function writeInline(
+  doc: PDFDocument,
+  nodes: MarkdownInline[],
+  style: PdfMarkdownStyle,
+  fontSize: number,
+  base: Omit<TextRun, 'text'>,
+  color: string
+): void {
+  const runs = collectRuns(nodes, base, []).filter(run => run.text);
+  if (runs.length === 0) return;
+
+  doc.fontSize(fontSize);
+  runs.forEach((run, index) => {
+    doc.font(fontFor(run, style));
+    doc.fillColor(run.link ? style.linkColor : color);
+    const options = {
+      width: style.width,
+      continued: index < runs.length - 1,
+      link: run.link || null,
+      underline: Boolean(run.link),
+      strike: run.strike,
+    };
+    if (index === 0) {
+      doc.text(run.text, style.x, doc.y, options);
+    } else {
+      doc.text(run.text, options);
+    }
+  });
+}
+
+function writeBlocks(doc: PDFDocument, blocks: MarkdownBlock[], style: PdfMarkdownStyle, color: string): void {
+  const plain = { bold: false, italic: false, code: false, strike: false };
+  const gap = style.fontSize * 0.5;
+
+  blocks.forEach((block, blockIndex) => {
+    if (blockIndex > 0) {
+      doc.y += gap;
+    }
+
+    switch (block.type) {
+      case 'heading':
+        writeInline(doc, block.children, style, style.fontSize * HEADING_SCALES[block.level], { ...plain, bold: true }, color);
+        break;
+      case 'paragraph':
+        writeInline(doc, block.children, style, style.fontSize, plain, color);
+        break;
+      case 'code': {
+        const fontSize = style.fontSize * 0.9;
+        doc.fontSize(fontSize).font(style.fonts.mono);
+        const textOptions = { width: style.width - 12 };
+        const height = doc.heightOfString(block.text || ' ', textOptions);
+        const top = doc.y;
+        doc.rect(style.x, top, style.width, height + 8).fillColor(style.codeBackground).fill();
+        doc.fillColor(color).text(block.text || ' ', style.x + 6, top + 4, textOptions);
+        doc.y = top + height + 8;
+        break;
+      }
+      case 'blockquote': {
+        const top = doc.y;
+        writeBlocks(doc, block.children, { ...style, x: style.x + INDENT, width: style.width - INDENT }, style.mutedColor);
+        if (doc.y > top) {
+          doc.moveTo(style.x + 4, top).lineTo(style.x + 4, doc.y).lineWidth(2).strokeColor(style.mutedColor).stroke();
+        }
+        break;
+      }
+      case 'rule': {
+        const y = doc.y + gap / 2;
+        doc.moveTo(style.x, y).lineTo(style.x + style.width, y).lineWidth(0.5).strokeColor(style.mutedColor).stroke();
+        doc.y = y + gap / 2;
+        break;
+      }
+      case 'list': {
+        const markerWidth = block.ordered ? INDENT * 1.5 : INDENT;
+        block.items.forEach((item, index) => {
+          let marker = block.ordered ? `${block.start + index}.` : '•';
+          if (item.checked !== undefined) {
+            marker = item.checked ? '[x]' : '[ ]';
+          }
+          const itemWidth = item.checked !== undefined ? INDENT * 1.75 : markerWidth;
+          const top = doc.y;
+          doc.fontSize(style.fontSize).font(style.fonts.regular).fillColor(color);
+          doc.text(marker, style.x, top, { width: itemWidth, lineBreak: false });
+          doc.y = top;
+          writeBlocks(doc, item.children, { ...style, x: style.x + itemWidth, width: style.width - itemWidth }, color);
+        });
+        break;
+      }
+      case 'table': {
+        const columnWidth = style.width / block.header.length;
+        const writeRow = (cells: MarkdownInline[][], bold: boolean) => {
+          const top = doc.y;
+          doc.fontSize(style.fontSize).font(bold ? style.fonts.bold : style.fonts.regular).fillColor(color);
+          let bottom = top;
+          cells.forEach((cell, column) => {
+            doc.text(inlineToText(cell), style.x + column * columnWidth + 2, top, {
+              width: columnWidth - 4,
+              align: block.align[column] || 'left',
+            });
+            bottom = Math.max(bottom, doc.y);
+          });
+          doc.moveTo(style.x, bottom + 2).lineTo(style.x + style.width, bottom + 2)
+            .lineWidth(bold ? 1 : 0.5).strokeColor(style.mutedColor).stroke();
+          doc.y = bottom + 4;
+        };
+        writeRow(block.header, true);
+        block.rows.forEach(row => writeRow(row, false));
+        break;
+      }
+    }
+  });
+}
+
+/**
+ * Draw Markdown entry content at the given position
+ *
+ * @param doc - Document to draw into; doc.y is where the content starts
+ * @param content - Entry content
+ * @param style - Position, fonts and colors to use
+ */
+export function writeMarkdownToPdf(doc: PDFDocument, content: string, style: PdfMarkdownStyle): void {
+  writeBlocks(doc, parseMarkdown(content), style, style.textColor);
+}
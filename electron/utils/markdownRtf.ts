@@ -0,0 +1,140 @@
+/**
+ * Renders Markdown entry content (see markdown.ts) as RTF for the RTF export.
+ * The output is a run of paragraphs that is placed inside the export's own document,
+ * so it relies on the document's font (\f0) and color table.
+ */
+
+import { parseMarkdown, describeImage, MarkdownBlock, MarkdownInline, TableAlign } from './markdown';
+
+export interface RtfMarkdownOptions {
+  linkColor?: number; // Color table index for link text
+}
+
+const INDENT = 360; // Twips per nesting level (a quarter inch)
+const TABLE_WIDTH = 9000; // Twips shared by a table's columns
+const HEADING_SIZES = [0, 32, 28, 26, 24, 22, 22]; // Half-points by heading level
+
+const ALIGN_CONTROLS: Record<Exclude<TableAlign, null>, string> = {
+  left: '\\ql',
+  center: '\\qc',
+  right: '\\qr',
+};
+
+/**
+ * Escape text for RTF. Characters outside ASCII are written as \uN? escapes
+ * so the text survives regardless of the reader's code page.
+ */
+export function escapeRtf(text: string): string {
+  let escaped = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const code = text.charCodeAt(i);
+    if (char === '\\' || char === '{' || char === '}') {
+      escaped += '\\' + char;
+    } else if (char === '\t') {
+      escaped += '\\tab ';
+    } else if (code > 127) {
+      // RTF takes signed 16-bit values; surrogate pairs are written unit by unit
+      escaped += `\\u${code > 32767 ? code - 65536 : code}?`;
+    } else {
+      escaped += char;
+    }
+  }
+  return escaped;
+}
+
+function renderInline(nodes: MarkdownInline[], options: RtfMarkdownOptions): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return escapeRtf(node.text);
+      case 'break':
+        return '\\line ';
+      case 'image':
+        return `{\\i ${escapeRtf(describeImage(node.alt))}}`;
+      case 'strong':
+        return `{\\b ${renderInline(node.children, options)}}`;
+      case 'emphasis':
+        return `{\\i ${renderInline(node.children, options)}}`;
+      case 'strikethrough':
+        return `{\\strike ${renderInline(node.children, options)}}`;
+      case 'link': {
+        const color = options.linkColor ? `\\cf${options.linkColor}` : '';
+        const href = escapeRtf(node.href).replace(/"/g, '%22');
+        return `{\\field{\\*\\fldinst{HYPERLINK "${href}"}}{\\fldrslt{\\ul${color} ${renderInline(node.children, options)}}}}`;
+      }
+    }
+  }).join('');
+}
+
+function renderBlocks(blocks: MarkdownBlock[], indent: number, options: RtfMarkdownOptions, lines: string[]): void {
+  const pard = `\\pard\\li${indent}`;
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading':
+        lines.push(`${pard}\\sb120\\sa60{\\b\\fs${HEADING_SIZES[block.level]} ${renderInline(block.children, options)}}\\par`);
+        break;
+      case 'paragraph':
+        lines.push(`${pard}\\sa120 ${renderInline(block.children, options)}\\par`);
+        break;
+      case 'code':
+        lines.push(`${pard}\\sa120 ${block.text.split('\n').map(escapeRtf).join('\\line ')}\\par`);
+        break;
+      case 'rule':
+        lines.push(`${pard}\\brdrb\\brdrs\\brdrw10\\brsp20 \\par`);
+        break;
+      case 'blockquote':
+        lines.push('{\\i');
+        renderBlocks(block.children, indent + INDENT * 2, options, lines);
+        lines.push('}');
+        break;
+      case 'list':
+        block.items.forEach((item, index) => {
+          let marker = block.ordered ? `${block.start + index}.` : '\\u8226?';
+          if (item.checked !== undefined) {
+            marker = item.checked ? '[x]' : '[ ]';
+          }
+          const itemIndent = indent + INDENT * 2;
+          const [first, ...rest] = item.children;
+          if (first && first.type === 'paragraph') {
+            lines.push(`\\pard\\li${itemIndent}\\fi-${INDENT * 2} ${marker} ${renderInline(first.children, options)}\\par`);
+            renderBlocks(rest, itemIndent, options, lines);
+          } else {
+            lines.push(`\\pard\\li${itemIndent}\\fi-${INDENT * 2} ${marker}\\par`);
+            renderBlocks(item.children, itemIndent, options, lines);
+          }
+        });
+        break;
+      case 'table': {
+        const cellWidth = Math.floor((TABLE_WIDTH - indent) / block.header.length);
+        const rowStart = `\\trowd\\trgaph108\\trleft${indent}` +
+          block.header.map((_, column) => `\\clbrdrb\\brdrs\\cellx${indent + cellWidth * (column + 1)}`).join('');
+        const renderRow = (cells: MarkdownInline[][], bold: boolean) =>
+          rowStart + cells.map((cell, column) => {
+            const text = renderInline(cell, options);
+            return `\\pard\\intbl${ALIGN_CONTROLS[block.align[column] || 'left']} ${bold ? `{\\b ${text}}` : text}\\cell`;
+          }).join('') + '\\row';
+        lines.push(renderRow(block.header, true));
+        block.rows.forEach(row => lines.push(renderRow(row, false)));
+        lines.push('\\pard\\sa120\\par');
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Render Markdown entry content as RTF paragraphs
+ *
+ * @param content - Entry content
+ * @param options - Colors to use from the document's color table
+ * @returns RTF ending with a plain \pard so following text is not indented
+ */
+export function markdownToRtf(content: string, options: RtfMarkdownOptions = {}): string {
+  const lines: string[] = [];
+  renderBlocks(parseMarkdown(content), 0, options, lines);
+  lines.push('\\pard');
+  return lines.join('\n');
+}
@@ -0,0 +1,158 @@
+/**
+ * Reading profile archives written by export-profile-archive.
+ * ZIP archives written without a password keep the database under database/ and the
+ * attachments under attachments/; archives written by 7-Zip store every file at the
+ * top level. Both layouts carry profile-metadata.json.
+ */
+
+export const PROFILE_ARCHIVE_METADATA_NAME = 'profile-metadata.json';
+const DEFAULT_DATABASE_NAME = 'calenrecall.db';
+
+export interface ProfileArchiveMetadata {
+  profileId?: string;
+  profileName?: string;
+  createdAt?: string;
+  lastUsed?: string;
+  exportDate?: string;
+  archiveFormat?: string;
+  encrypted?: boolean;
+  databaseFiles?: string[];
+  attachmentCount?: number;
+}
+
+export interface ProfileArchiveLayout {
+  database: string; // Paths relative to the archive root, with forward slashes
+  wal?: string;
+  shm?: string;
+  attachments: string[];
+}
+
+function baseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || '';
+}
+
+/**
+ * Parse profile-metadata.json (null if it is not valid metadata)
+ */
+export function parseProfileArchiveMetadata(content: string): ProfileArchiveMetadata | null {
+  try {
+    const data = JSON.parse(content);
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return null;
+    }
+    return {
+      profileId: typeof data.profileId === 'string' ? data.profileId : undefined,
+      profileName: typeof data.profileName === 'string' ? data.profileName : undefined,
+      createdAt: typeof data.createdAt === 'string' ? data.createdAt : undefined,
+      lastUsed: typeof data.lastUsed === 'string' ? data.lastUsed : undefined,
+      exportDate: typeof data.exportDate === 'string' ? data.exportDate : undefined,
+      archiveFormat: typeof data.archiveFormat === 'string' ? data.archiveFormat : undefined,
+      encrypted: data.encrypted === true,
+      databaseFiles: Array.isArray(data.databaseFiles) ? data.databaseFiles.filter((f: unknown) => typeof f === 'string') : undefined,
+      attachmentCount: typeof data.attachmentCount === 'number' ? data.attachmentCount : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a path stored in an archive would escape the extraction directory:
+ * absolute paths, drive or UNC prefixes and ".." segments are all unsafe
+ */
+export function isUnsafeArchivePath(name: string): boolean {
+  const normalized = name.replace(/\\/g, '/');
+  return (
+    normalized.startsWith('/') ||
+    /^[a-zA-Z]:/.test(normalized) ||
+    normalized.split('/').includes('..')
+  );
+}
+
+/**
+ * Read the paths out of a `7z l -slt` listing.
+ * The listing starts with a block describing the archive itself; the entries follow
+ * the line of dashes, one "Path = ..." line per entry.
+ *
+ * @param output - Output of `7z l -slt <archive>`
+ * @returns Entry paths in listing order
+ */
+export function parseSevenZipListing(output: string): string[] {
+  const separator = output.search(/^-{10,}\s*$/m);
+  if (separator === -1) {
+    return [];
+  }
+  const paths: string[] = [];
+  for (const match of output.slice(separator).matchAll(/^Path = (.*?)\r?$/gm)) {
+    paths.push(match[1]);
+  }
+  return paths;
+}
+
+/**
+ * Work out which extracted files are the database and which are attachments
+ *
+ * @param files - Paths of the extracted files, relative to the archive root
+ * @param metadata - Parsed profile-metadata.json, if the archive had one
+ * @returns The archive layout
+ * @throws Error if the archive holds no database
+ */
+export function locateProfileArchiveFiles(files: string[], metadata: ProfileArchiveMetadata | null): ProfileArchiveLayout {
+  const candidates = files
+    .map(file => file.replace(/\\/g, '/'))
+    .filter(file => !file.endsWith('/') && !file.startsWith('__MACOSX/'));
+
+  const databaseName = metadata?.databaseFiles?.[0] || DEFAULT_DATABASE_NAME;
+  const byPreference = (a: string, b: string) => Number(b.startsWith('database/')) - Number(a.startsWith('database/'));
+  const database =
+    candidates.filter(file => baseName(file) === databaseName).sort(byPreference)[0] ||
+    candidates.filter(file => file.toLowerCase().endsWith('.db')).sort(byPreference)[0];
+  if (!database) {
+    throw new Error('No journal database found in the archive');
+  }
+
+  const wal = candidates.includes(`${database}-wal`) ? `${database}-wal` : undefined;
+  const shm = candidates.includes(`${database}-shm`) ? `${database}-shm` : undefined;
+  const reserved = new Set([database, wal, shm].filter(Boolean));
+
+  return {
+    database,
+    wal,
+    shm,
+    attachments: candidates.filter(file => !reserved.has(file) && baseName(file) !== PROFILE_ARCHIVE_METADATA_NAME),
+  };
+}
+
+/**
+ * Point the attachments of one entry at their restored files
+ *
+ * @param attachmentsJson - The entry's attachments column
+ * @param locations - Original attachment file name to its new path
+ * @returns The updated column value, or null if nothing changed
+ */
+export function relocateAttachmentPaths(attachmentsJson: string | null, locations: Map<string, string>): string | null {
+  if (!attachmentsJson) {
+    return null;
+  }
+  let attachments: unknown;
+  try {
+    attachments = JSON.parse(attachmentsJson);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(attachments)) {
+    return null;
+  }
+
+  let changed = false;
+  const relocated = attachments.map(attachment => {
+    const filePath = attachment && typeof attachment.filePath === 'string' ? attachment.filePath : null;
+    const newPath = filePath ? locations.get(baseName(filePath)) : undefined;
+    if (!newPath || newPath === filePath) {
+      return attachment;
+    }
+    changed = true;
+    return { ...attachment, filePath: newPath };
+  });
+  return changed ? JSON.stringify(relocated) : null;
+}
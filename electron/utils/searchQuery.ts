@@ -0,0 +1,311 @@
+/**
+ * Structured search query parsing.
+ * Parses a single query string typed in SearchView into text and typed filters.
+ * The result is compiled to SQL against journal_entries in database.ts.
+ *
+ * Syntax:
+ * - tag:travel, tag:"road trip"     entry has the tag (all listed tags must match)
+ * - range:week                       entry time range (several range: filters match any of them)
+ * - after:1999-01                    on or after the start of the period (YYYY, YYYY-MM or YYYY-MM-DD, negative years allowed)
+ * - before:2005                      before the start of the period (after:1999 before:2000 = the year 1999)
+ * - pinned:yes / pinned:no
+ * - archived:yes / archived:no / archived:any
+ * - has:attachment, has:tags, has:links
+ * - "exact phrase"
+ * - -word, -"phrase", -tag:work, -has:attachment   exclusions
+ *
+ * Any remaining text is passed to the full-text index, so FTS syntax (prefix*, OR, NEAR()) still works.
+ * Selections from the SearchView filter panel are merged in with applySearchFilters.
+ */
+
+import { TimeRange, SearchFilters } from '../types';
+
+export interface ParsedSearchQuery {
+  text: string; // Free text for the full-text index
+  excludedText: string[]; // Words/phrases that must not appear (phrases keep their quotes)
+  tags: string[];
+  excludedTags: string[];
+  timeRanges: TimeRange[];
+  after?: string; // Inclusive lower bound (YYYY-MM-DD)
+  before?: string; // Exclusive upper bound (YYYY-MM-DD)
+  pinned?: boolean;
+  archived?: boolean | 'any'; // Undefined means the caller's default (usually not archived)
+  hasAttachment?: boolean;
+  hasTags?: boolean;
+  hasLinks?: boolean;
+  errors: string[]; // Filters that could not be understood
+}
+
+const TIME_RANGES: TimeRange[] = ['millennium', 'century', 'decade', 'year', 'month', 'week', 'day'];
+const FILTER_KEYS = new Set(['tag', 'range', 'after', 'before', 'pinned', 'archived', 'has']);
+const YES_VALUES = new Set(['yes', 'true', '1', 'y']);
+const NO_VALUES = new Set(['no', 'false', '0', 'n']);
+
+interface RawToken {
+  negated: boolean;
+  key?: string;
+  value: string;
+  quoted: boolean;
+}
+
+/**
+ * Split the query into tokens, keeping quoted values together
+ */
+function tokenize(input: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  const pattern = /(-?)(?:([a-zA-Z]+):)?(?:"([^"]*)"?|(\S+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const [, minus, key, quotedValue, bareValue] = match;
+    const quoted = quotedValue !== undefined;
+    const value = quoted ? quotedValue : bareValue;
+    if (value === undefined) {
+      continue;
+    }
+    const lowerKey = key?.toLowerCase();
+    if (key && !FILTER_KEYS.has(lowerKey!)) {
+      // Unknown prefix - treat the whole thing as text
+      tokens.push({ negated: minus === '-', value: `${key}:${quoted ? `"${value}"` : value}`, quoted: false });
+      continue;
+    }
+    tokens.push({ negated: minus === '-', key: lowerKey, value, quoted });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a date bound (YYYY, YYYY-MM or YYYY-MM-DD, optional leading minus) into the
+ * first day of that period, formatted like database dates
+ */
+export function parseDateBound(value: string): string | null {
+  const match = /^(-?)(\d{1,6})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, yearStr, monthStr, dayStr] = match;
+  const month = monthStr ? parseInt(monthStr, 10) : 1;
+  const day = dayStr ? parseInt(dayStr, 10) : 1;
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+
+  const year = parseInt(yearStr, 10);
+  const yearPart = sign === '-' && year !== 0
+    ? `-${String(year).padStart(4, '0')}`
+    : String(year).padStart(4, '0');
+  return `${yearPart}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Sortable numeric key for a date bound produced by parseDateBound
+ * (plain string comparison breaks for negative years)
+ */
+function dateBoundKey(bound: string): number {
+  const [, sign, year, month, day] = /^(-?)(\d+)-(\d+)-(\d+)$/.exec(bound)!;
+  return (sign ? -1 : 1) * parseInt(year, 10) * 10000 + parseInt(month, 10) * 100 + parseInt(day, 10);
+}
+
+/**
+ * The day after a date bound, used to turn an inclusive end date into an exclusive before: bound
+ */
+function nextDateBound(bound: string): string {
+  const [, sign, year, month, day] = /^(-?)(\d+)-(\d+)-(\d+)$/.exec(bound)!;
+  const date = new Date(0);
+  // setUTCFullYear (unlike Date.UTC) does not map years 0-99 to 1900-1999
+  date.setUTCFullYear((sign ? -1 : 1) * parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10) + 1);
+  const nextYear = date.getUTCFullYear();
+  return parseDateBound(`${nextYear < 0 ? '-' : ''}${Math.abs(nextYear)}-${date.getUTCMonth() + 1}-${date.getUTCDate()}`)!;
+}
+
+function parseBoolean(value: string): boolean | null {
+  const lower = value.toLowerCase();
+  if (YES_VALUES.has(lower)) return true;
+  if (NO_VALUES.has(lower)) return false;
+  return null;
+}
+
+/**
+ * Parse a structured search query
+ *
+ * @param input - Query string typed by the user
+ * @returns Parsed text and filters
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    text: '',
+    excludedText: [],
+    tags: [],
+    excludedTags: [],
+    timeRanges: [],
+    errors: [],
+  };
+
+  if (!input || typeof input !== 'string') {
+    return parsed;
+  }
+
+  const textParts: string[] = [];
+
+  for (const token of tokenize(input)) {
+    if (!token.key) {
+      if (token.negated) {
+        if (token.value.trim()) {
+          parsed.excludedText.push(token.quoted ? `"${token.value.trim()}"` : token.value.trim());
+        }
+      } else {
+        textParts.push(token.quoted ? `"${token.value}"` : token.value);
+      }
+      continue;
+    }
+
+    const value = token.value.trim();
+    switch (token.key) {
+      case 'tag':
+        if (value) {
+          (token.negated ? parsed.excludedTags : parsed.tags).push(value);
+        }
+        break;
+
+      case 'range': {
+        const range = value.toLowerCase() as TimeRange;
+        if (TIME_RANGES.includes(range)) {
+          if (!parsed.timeRanges.includes(range)) {
+            parsed.timeRanges.push(range);
+          }
+        } else {
+          parsed.errors.push(`Unknown time range "${value}" (use ${TIME_RANGES.join(', ')})`);
+        }
+        break;
+      }
+
+      case 'after':
+      case 'before': {
+        const bound = parseDateBound(value);
+        if (bound) {
+          parsed[token.key] = bound;
+        } else {
+          parsed.errors.push(`Invalid date "${value}" for ${token.key}: (use YYYY, YYYY-MM or YYYY-MM-DD)`);
+        }
+        break;
+      }
+
+      case 'pinned': {
+        const flag = parseBoolean(value);
+        if (flag === null) {
+          parsed.errors.push(`Invalid value "${value}" for pinned: (use yes or no)`);
+        } else {
+          parsed.pinned = token.negated ? !flag : flag;
+        }
+        break;
+      }
+
+      case 'archived': {
+        if (value.toLowerCase() === 'any' || value.toLowerCase() === 'all') {
+          parsed.archived = 'any';
+          break;
+        }
+        const flag = parseBoolean(value);
+        if (flag === null) {
+          parsed.errors.push(`Invalid value "${value}" for archived: (use yes, no or any)`);
+        } else {
+          parsed.archived = token.negated ? !flag : flag;
+        }
+        break;
+      }
+
+      case 'has': {
+        const what = value.toLowerCase();
+        if (what === 'attachment' || what === 'attachments') {
+          parsed.hasAttachment = !token.negated;
+        } else if (what === 'tag' || what === 'tags') {
+          parsed.hasTags = !token.negated;
+        } else if (what === 'link' || what === 'links') {
+          parsed.hasLinks = !token.negated;
+        } else {
+          parsed.errors.push(`Unknown value "${value}" for has: (use attachment, tags or links)`);
+        }
+        break;
+      }
+    }
+  }
+
+  parsed.text = textParts.join(' ').trim();
+  return parsed;
+}
+
+/**
+ * Check whether a parsed query contains anything to search for
+ */
+export function isEmptySearchQuery(parsed: ParsedSearchQuery): boolean {
+  return !parsed.text &&
+    parsed.excludedText.length === 0 &&
+    parsed.tags.length === 0 &&
+    parsed.excludedTags.length === 0 &&
+    parsed.timeRanges.length === 0 &&
+    parsed.after === undefined &&
+    parsed.before === undefined &&
+    parsed.pinned === undefined &&
+    parsed.archived === undefined &&
+    parsed.hasAttachment === undefined &&
+    parsed.hasTags === undefined &&
+    parsed.hasLinks === undefined;
+}
+
+/**
+ * Merge filter panel selections into a parsed query. Tags and date bounds narrow the
+ * query further; time ranges are added to the ranges already accepted.
+ *
+ * @param parsed - Parsed query string
+ * @param filters - Filter panel selections
+ * @returns A new parsed query including the filters
+ */
+export function applySearchFilters(parsed: ParsedSearchQuery, filters?: SearchFilters): ParsedSearchQuery {
+  if (!filters) {
+    return parsed;
+  }
+
+  const merged: ParsedSearchQuery = {
+    ...parsed,
+    tags: [...parsed.tags],
+    timeRanges: [...parsed.timeRanges],
+    errors: [...parsed.errors],
+  };
+
+  for (const tag of filters.tags || []) {
+    if (tag.trim() && !merged.tags.some(existing => existing.toLowerCase() === tag.trim().toLowerCase())) {
+      merged.tags.push(tag.trim());
+    }
+  }
+
+  for (const range of filters.timeRanges || []) {
+    if (TIME_RANGES.includes(range) && !merged.timeRanges.includes(range)) {
+      merged.timeRanges.push(range);
+    }
+  }
+
+  if (filters.startDate) {
+    const after = parseDateBound(filters.startDate);
+    if (!after) {
+      merged.errors.push(`Invalid start date "${filters.startDate}"`);
+    } else if (!merged.after || dateBoundKey(after) > dateBoundKey(merged.after)) {
+      merged.after = after;
+    }
+  }
+
+  if (filters.endDate) {
+    const end = parseDateBound(filters.endDate);
+    if (!end) {
+      merged.errors.push(`Invalid end date "${filters.endDate}"`);
+    } else {
+      const before = nextDateBound(end);
+      if (!merged.before || dateBoundKey(before) < dateBoundKey(merged.before)) {
+        merged.before = before;
+      }
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,149 @@
+/**
+ * Minimal ZIP archive reader.
+ * Reads the central directory of an in-memory archive and inflates entries on demand.
+ * Supports stored and deflated entries (what every common exporter writes);
+ * ZIP64, encrypted and multi-disk archives are rejected.
+ * Sizes are capped so a crafted archive (a "zip bomb") cannot exhaust memory or disk.
+ */
+
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, always with forward slashes
+  isDirectory: boolean;
+  size: number; // Uncompressed size in bytes
+  encrypted: boolean; // Password-protected entries can be listed but not read
+  read: () => Buffer;
+}
+
+export interface ZipLimits {
+  maxArchiveBytes: number; // Size of the archive file itself
+  maxEntryBytes: number; // Uncompressed size of any one entry
+  maxTotalBytes: number; // Uncompressed size of all entries together
+}
+
+export const DEFAULT_ZIP_LIMITS: ZipLimits = {
+  maxArchiveBytes: 2 * 1024 * 1024 * 1024,
+  maxEntryBytes: 512 * 1024 * 1024,
+  maxTotalBytes: 4 * 1024 * 1024 * 1024,
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const lowest = Math.max(0, buffer.length - 22 - MAX_COMMENT_LENGTH);
+  for (let offset = buffer.length - 22; offset >= lowest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP archive');
+}
+
+/**
+ * List the entries of a ZIP archive
+ *
+ * @param buffer - The whole archive
+ * @param limits - Size caps; entries larger than declared are cut off while inflating
+ * @returns Entries in central directory order
+ * @throws Error if the archive is corrupt, unsupported or over a limit
+ */
+export function readZipEntries(buffer: Buffer, limits: ZipLimits = DEFAULT_ZIP_LIMITS): ZipEntry[] {
+  if (buffer.length > limits.maxArchiveBytes) {
+    throw new Error('ZIP archive is too large');
+  }
+  const end = findEndOfCentralDirectory(buffer);
+  const count = buffer.readUInt16LE(end + 10);
+  const directoryOffset = buffer.readUInt32LE(end + 16);
+  if (count === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  let declaredTotal = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength).replace(/\\/g, '/');
+
+    if (size > limits.maxEntryBytes) {
+      throw new Error(`ZIP entry is too large: ${name}`);
+    }
+    declaredTotal += size;
+    if (declaredTotal > limits.maxTotalBytes) {
+      throw new Error('ZIP archive expands to too much data');
+    }
+
+    entries.push({
+      name,
+      isDirectory: name.endsWith('/'),
+      size,
+      encrypted: (flags & 0x1) !== 0,
+      read: () => {
+        if (flags & 0x1) {
+          throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+        }
+        if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+          throw new Error(`Corrupt ZIP entry: ${name}`);
+        }
+        // The local header's name/extra lengths can differ from the central directory's
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const data = buffer.subarray(dataStart, dataStart + compressedSize);
+        let content: Buffer;
+        switch (method) {
+          case 0:
+            content = Buffer.from(data);
+            break;
+          case 8:
+            // The declared size can lie, so never inflate more than it says
+            try {
+              content = zlib.inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+            } catch (error) {
+              throw new Error(`Corrupt ZIP entry: ${name} (${error instanceof Error ? error.message : String(error)})`);
+            }
+            break;
+          default:
+            throw new Error(`Unsupported ZIP compression method ${method}: ${name}`);
+        }
+        // Entries are held to their declared sizes, so the declared total bounds what is inflated
+        if (content.length !== size) {
+          throw new Error(`Corrupt ZIP entry: ${name}`);
+        }
+        return content;
+      },
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * List the entries of a ZIP file, checking its size before reading it into memory
+ *
+ * @param filePath - Archive to read
+ * @param limits - Size caps
+ * @returns Entries in central directory order
+ */
+export function readZipFile(filePath: string, limits: ZipLimits = DEFAULT_ZIP_LIMITS): ZipEntry[] {
+  if (fs.statSync(filePath).size > limits.maxArchiveBytes) {
+    throw new Error('ZIP archive is too large');
+  }
+  return readZipEntries(fs.readFileSync(filePath), limits);
+}
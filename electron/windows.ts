@@ -0,0 +1,12 @@
+import { BrowserWindow } from 'electron';
+
+/**
+ * Send a message to the renderer of every open window
+ */
+export function sendToAllWindows(channel: string, ...args: unknown[]): void {
+  BrowserWindow.getAllWindows().forEach(win => {
+    if (!win.isDestroyed() && win.webContents) {
+      win.webContents.send(channel, ...args);
+    }
+  });
+}
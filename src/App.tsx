@@ -3,6 +3,7 @@ import TimelineView from './components/TimelineView';
 import JournalEditor from './components/JournalEditor';
 import EntryViewer from './components/EntryViewer';
 import NavigationBar from './components/NavigationBar';
+import DeepTimeView from './components/DeepTimeView';
 // Lazy load heavy components for better initial load performance
 const GlobalTimelineMinimap = lazy(() => import('./components/GlobalTimelineMinimap'));
 const SearchView = lazy(() => import('./components/SearchView'));
@@ -11,10 +12,12 @@ import ExportMetadataModal from './components/ExportMetadataModal';
 import LoadingScreen from './components/LoadingScreen';
 import UpdateBanner from './components/UpdateBanner';
 import BackgroundArt from './components/BackgroundArt';
-import { TimeRange, JournalEntry, Preferences, ExportFormat, ExportMetadata } from './types';
-import { getEntryForDate } from './services/journalService';
+import TrashView from './components/TrashView';
+import TrashToast from './components/TrashToast';
+import { TimeRange, JournalEntry, Preferences, ExportFormat, ExportMetadata, ImportFormat } from './types';
+import { getEntryForDate, getEntryForYear } from './services/journalService';
 import { playNewEntrySound, initializeSoundEffectsCache, updateSoundEffectsCache, playNavigationJourneySound, playModeSelectionSound } from './utils/audioUtils';
-import { formatDateToISO, parseISODate, createDate } from './utils/dateUtils';
+import { formatDateToISO, parseISODate, createDate, getISODateYear, isRepresentableYear, isYearTimeRange, YearTimeRange } from './utils/dateUtils';
 import { applyTheme, initializeTheme, applyFontSize } from './utils/themes';
 import { useEntries } from './contexts/EntriesContext';
 import { useCalendar } from './contexts/CalendarContext';
@@ -24,9 +27,11 @@ import './App.css';
 
 function App() {
   const { setEntries, isLoading, setIsLoading } = useEntries();
-  const { setCalendar } = useCalendar();
+  const { calendar, setCalendar, setIslamicCalendarVariant, setIslamicObserverRegion } = useCalendar();
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [viewMode, setViewMode] = useState<TimeRange>('month');
+  // Year shown when navigating beyond the range of Date; selectedDate is not used while it is set
+  const [deepTimeYear, setDeepTimeYear] = useState<number | null>(null);
   const [selectedEntry, setSelectedEntry] = useState<JournalEntry | null>(null);
   const [isNewEntry, setIsNewEntry] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
@@ -34,6 +39,8 @@ function App() {
   const [preferencesLoaded, setPreferencesLoaded] = useState(false);
   const [editingEntry, setEditingEntry] = useState<JournalEntry | null>(null);
   const [showSearch, setShowSearch] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [searchTags, setSearchTags] = useState<string[]>([]);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [loadingMessage, setLoadingMessage] = useState('Initializing...');
   const [totalEntryCount, setTotalEntryCount] = useState<number | undefined>(undefined);
@@ -315,11 +322,18 @@ function App() {
       setCalendar(value as any);
       // Also update preferences state
       setPreferences(prev => ({ ...prev, calendar: value }));
+    } else if (key === 'islamicCalendarVariant') {
+      // Islamic dates and holidays are converted with the new variant on the next render
+      setIslamicCalendarVariant(value);
+      setPreferences(prev => ({ ...prev, islamicCalendarVariant: value }));
+    } else if (key === 'islamicObserverRegion') {
+      setIslamicObserverRegion(value);
+      setPreferences(prev => ({ ...prev, islamicObserverRegion: value }));
     } else {
       // For all other preferences, update state (they may not need immediate UI updates)
       setPreferences(prev => ({ ...prev, [key]: value }));
     }
-  }, [setBackgroundImagePath, setCalendar]);
+  }, [setBackgroundImagePath, setCalendar, setIslamicCalendarVariant, setIslamicObserverRegion]);
 
   // Load current profile on startup
   useEffect(() => {
@@ -369,7 +383,7 @@ function App() {
           // This ONLY happens on initial load - never after user interaction
           if (prefs.restoreLastView && prefs.lastViewedDate && prefs.lastViewedMode) {
             const lastDate = new Date(prefs.lastViewedDate);
-            const validTimeRanges: TimeRange[] = ['decade', 'year', 'month', 'week', 'day'];
+            const validTimeRanges: TimeRange[] = ['millennium', 'century', 'decade', 'year', 'month', 'week', 'day'];
             const isValidDate = !isNaN(lastDate.getTime());
             const isValidMode = validTimeRanges.includes(prefs.lastViewedMode);
             
@@ -664,7 +678,7 @@ function App() {
       handleNewEntryRef.current();
     };
 
-    const handleMenuImport = async (format: 'json' | 'markdown') => {
+    const handleMenuImport = async (format: ImportFormat) => {
       try {
         if (window.electronAPI) {
           const result = await window.electronAPI.importEntries(format);
@@ -673,7 +687,7 @@ function App() {
             const allEntries = await window.electronAPI.getAllEntries();
             setEntries(allEntries);
             // Show success message (you could add a toast notification here)
-            console.log(`Import successful: ${result.imported} entries imported${result.skipped ? `, ${result.skipped} skipped` : ''}`);
+            console.log(`Import successful: ${result.imported} entries imported${result.overwritten ? `, ${result.overwritten} overwritten` : ''}${result.skipped ? `, ${result.skipped} skipped` : ''}`);
           } else if (!result.canceled) {
             console.error('Import failed:', result.error);
           }
@@ -739,7 +753,8 @@ function App() {
 
   useEffect(() => {
     // Only save if preferences are loaded, restore is enabled, and we're not in the restoration phase
-    if (preferencesLoaded && !isRestoringRef.current && preferences.restoreLastView && window.electronAPI) {
+    // Deep-time years can't be restored through Date, so the last view within range is kept
+    if (preferencesLoaded && !isRestoringRef.current && preferences.restoreLastView && deepTimeYear === null && window.electronAPI) {
       try {
         // Use formatDateToISO to handle negative years correctly
         const dateString = formatDateToISO(selectedDate);
@@ -752,7 +767,7 @@ function App() {
         console.error('Error saving last viewed position:', error);
       }
     }
-  }, [selectedDate, viewMode, preferencesLoaded, preferences.restoreLastView]);
+  }, [selectedDate, viewMode, deepTimeYear, preferencesLoaded, preferences.restoreLastView]);
 
   // Load entry for current date/viewMode when they change
   useEffect(() => {
@@ -763,7 +778,8 @@ function App() {
         if (!isSelectingEntryRef.current) {
           setSelectedEntry(null);
         }
-      } else {
+      } else if (deepTimeYear === null || !isSelectingEntryRef.current) {
+        // A deep-time entry selection sets the entry itself
         loadCurrentEntry();
       }
     }
@@ -771,11 +787,13 @@ function App() {
     if (isSelectingEntryRef.current) {
       isSelectingEntryRef.current = false;
     }
-  }, [selectedDate, viewMode, isNewEntry, isEditing]);
+  }, [selectedDate, viewMode, deepTimeYear, isNewEntry, isEditing]);
 
   const loadCurrentEntry = async () => {
     try {
-      const entry = await getEntryForDate(selectedDate, viewMode);
+      const entry = deepTimeYear !== null && isYearTimeRange(viewMode)
+        ? await getEntryForYear(deepTimeYear, viewMode)
+        : await getEntryForDate(selectedDate, viewMode, calendar);
       setSelectedEntry(entry);
     } catch (error) {
       console.error('Error loading entry:', error);
@@ -831,6 +849,7 @@ function App() {
     // EXTREME PERFORMANCE: Instant update (no debounce delay)
     rafIdRef.current = requestAnimationFrame(() => {
       if (pendingDateRef.current) {
+        setDeepTimeYear(null);
         setSelectedDate(pendingDateRef.current);
         pendingDateRef.current = null;
       }
@@ -880,6 +899,7 @@ function App() {
         if (pendingDateRef.current && pendingViewModeRef.current) {
           setViewMode(pendingViewModeRef.current);
           setSelectedDate(pendingDateRef.current);
+          setDeepTimeYear(null);
           setIsEditing(false);
           setIsNewEntry(false);
           pendingDateRef.current = null;
@@ -893,6 +913,7 @@ function App() {
         if (pendingDateRef.current && pendingViewModeRef.current) {
           setViewMode(pendingViewModeRef.current);
           setSelectedDate(pendingDateRef.current);
+          setDeepTimeYear(null);
           setIsEditing(false);
           setIsNewEntry(false);
           pendingDateRef.current = null;
@@ -904,12 +925,45 @@ function App() {
     }
   }, [hasUnsavedChanges, showUnsavedChangesMessageWithTimer]);
 
+  // Years beyond the range of Date are navigated by year number and shown in DeepTimeView
+  const handleDeepTimeYearChange = useCallback((year: number, newViewMode: YearTimeRange) => {
+    // Prevent navigation if there are unsaved changes
+    if (hasUnsavedChanges) {
+      showUnsavedChangesMessageWithTimer();
+      return;
+    }
+
+    // A child span of a deep-time view can lie back within range
+    if (isRepresentableYear(year)) {
+      handleTimePeriodSelect(createDate(year, 0, 1), newViewMode);
+      return;
+    }
+
+    hasUserInteractedRef.current = true;
+    // Drop any pending Date navigation so it doesn't land after this
+    if (rafIdRef.current !== null) {
+      cancelAnimationFrame(rafIdRef.current);
+      rafIdRef.current = null;
+    }
+    pendingDateRef.current = null;
+    pendingViewModeRef.current = null;
+
+    setDeepTimeYear(year);
+    setViewMode(newViewMode);
+    setIsEditing(false);
+    setIsNewEntry(false);
+  }, [hasUnsavedChanges, showUnsavedChangesMessageWithTimer, handleTimePeriodSelect]);
+
   const handleViewModeChange = (mode: TimeRange) => {
     // Prevent navigation if there are unsaved changes
     if (hasUnsavedChanges) {
       showUnsavedChangesMessageWithTimer();
       return;
     }
+    // Only the year-based tiers exist beyond the range of Date
+    if (deepTimeYear !== null && !isYearTimeRange(mode)) {
+      return;
+    }
     
     hasUserInteractedRef.current = true; // Mark that user has interacted
     // Clear selected entry when switching to day view
@@ -978,7 +1032,7 @@ function App() {
       
       if (totalDays > 365000) {
         checkpointInterval = 182500;
-        viewModeForCheckpoints = 'decade';
+        viewModeForCheckpoints = 'century';
       } else if (totalDays > 36500) {
         checkpointInterval = 18250;
         viewModeForCheckpoints = 'decade';
@@ -1192,6 +1246,8 @@ function App() {
         
         // Calculate dynamic delay
         const baseDelays: Record<TimeRange, number> = {
+          millennium: 16,
+          century: 14,
           decade: 12,
           year: 10,
           month: 6,
@@ -1247,10 +1303,40 @@ function App() {
       entryNavigationTimeoutRef.current = null;
     }
     
+    // Entries beyond the range of Date open directly in the deep-time view
+    const entryYear = getISODateYear(entry.date);
+    if (!isNaN(entryYear) && !isRepresentableYear(entryYear)) {
+      setDeepTimeYear(entryYear);
+      setViewMode(isYearTimeRange(entry.timeRange) ? entry.timeRange : 'year');
+      setSelectedEntry(entry);
+      setIsEditing(false);
+      setIsNewEntry(false);
+      return;
+    }
+
     // Navigate with animated steps
+    setDeepTimeYear(null);
     navigateToEntryWithSteps(entry);
   };
 
+  // [[date]] references in entry content open that day
+  const handleReferenceDateSelect = (date: Date) => {
+    setSelectedEntry(null);
+    handleTimePeriodSelect(date, 'day');
+  };
+
+  // #tag references in entry content open search filtered to the tag
+  const handleReferenceTagSelect = (tag: string) => {
+    setSearchTags([tag]);
+    setShowSearch(true);
+  };
+
+  useEffect(() => {
+    if (!showSearch) {
+      setSearchTags([]);
+    }
+  }, [showSearch]);
+
   const handleNewEntry = () => {
     // Prevent creating new entry if there are unsaved changes
     if (hasUnsavedChanges) {
@@ -1398,14 +1484,17 @@ function App() {
         onViewModeChange={handleViewModeChange}
         selectedDate={selectedDate}
         onDateChange={handleDateChange}
+        deepTimeYear={deepTimeYear}
+        onDeepTimeYearChange={handleDeepTimeYearChange}
         onOpenPreferences={() => {
           if (window.electronAPI) {
             window.electronAPI.openPreferences();
           }
         }}
         onOpenSearch={() => setShowSearch(true)}
+        onOpenTrash={() => setShowTrash(true)}
       />
-      {preferences.showMinimap !== false && (
+      {preferences.showMinimap !== false && deepTimeYear === null && (
         <Suspense fallback={null}>
           <GlobalTimelineMinimap
             key={`minimap-${preferences.minimapSize || 'medium'}`}
@@ -1420,20 +1509,30 @@ function App() {
       )}
       <div className="app-content">
         <div className="timeline-section">
-          <TimelineView
-            selectedDate={selectedDate}
-            viewMode={viewMode}
-            onTimePeriodSelect={handleTimePeriodSelect}
-            onEntrySelect={handleEntrySelect}
-            onEditEntry={handleEditEntry}
-            weekStartsOn={preferences.weekStartsOn ?? 0}
-          />
+          {deepTimeYear !== null && isYearTimeRange(viewMode) ? (
+            <DeepTimeView
+              year={deepTimeYear}
+              viewMode={viewMode}
+              onYearSelect={handleDeepTimeYearChange}
+              onEntrySelect={handleEntrySelect}
+            />
+          ) : (
+            <TimelineView
+              selectedDate={selectedDate}
+              viewMode={viewMode}
+              onTimePeriodSelect={handleTimePeriodSelect}
+              onEntrySelect={handleEntrySelect}
+              onEditEntry={handleEditEntry}
+              weekStartsOn={preferences.weekStartsOn ?? 0}
+            />
+          )}
         </div>
         <div className="editor-section">
           {isEditing || isNewEntry ? (
             <JournalEditor
               date={selectedDate}
               viewMode={viewMode}
+              deepTimeYear={deepTimeYear}
               selectedEntry={selectedEntry}
               isNewEntry={isNewEntry}
               onEntrySaved={handleEntrySaved}
@@ -1456,10 +1555,13 @@ function App() {
               entry={selectedEntry}
               date={selectedDate}
               viewMode={viewMode}
+              deepTimeYear={deepTimeYear}
               onEdit={handleEdit}
               onNewEntry={handleNewEntry}
               onEntrySelect={handleEntrySelect}
               onEditEntry={handleEditEntry}
+              onDateSelect={handleReferenceDateSelect}
+              onTagSelect={handleReferenceTagSelect}
               weekStartsOn={preferences.weekStartsOn ?? 0}
             />
           )}
@@ -1480,10 +1582,17 @@ function App() {
             <SearchView
               onEntrySelect={handleEntrySelect}
               onClose={() => setShowSearch(false)}
+              initialTags={searchTags}
             />
           </Suspense>
         </div>
       )}
+      {showTrash && (
+        <div className="search-overlay">
+          <TrashView onClose={() => setShowTrash(false)} />
+        </div>
+      )}
+      <TrashToast onRestored={loadCurrentEntry} />
       {showExportModal && pendingExportFormat && (
         <ExportMetadataModal
           isOpen={showExportModal}
@@ -0,0 +1,65 @@
+import { EntryAttachment } from '../types';
+import AttachmentImage from './AttachmentImage';
+import './AttachmentGallery.css';
+
+interface AttachmentGalleryProps {
+  entryId: number;
+  attachments: EntryAttachment[];
+  onInsert?: (attachment: EntryAttachment) => void; // Editor only: embed the attachment in the text
+  onRemove?: (attachment: EntryAttachment) => void;
+}
+
+const isImage = (attachment: EntryAttachment) => attachment.mimeType.startsWith('image/');
+
+const fileLabel = (attachment: EntryAttachment) => {
+  const dot = attachment.fileName.lastIndexOf('.');
+  return dot > 0 ? attachment.fileName.slice(dot + 1).toUpperCase().slice(0, 4) : 'FILE';
+};
+
+export default function AttachmentGallery({ entryId, attachments, onInsert, onRemove }: AttachmentGalleryProps) {
+  const openAttachment = async (attachment: EntryAttachment) => {
+    if (!window.electronAPI) return;
+    try {
+      const result = await window.electronAPI.openEntryAttachment(entryId, attachment.id);
+      if (!result.success) {
+        alert(result.message || `Could not open ${attachment.fileName}.`);
+      }
+    } catch (error) {
+      console.error('[AttachmentGallery] Error opening attachment:', error);
+    }
+  };
+
+  return (
+    <ul className="attachment-gallery">
+      {attachments.map(attachment => (
+        <li key={attachment.id} className="attachment-tile">
+          <button
+            type="button"
+            className="attachment-preview"
+            onClick={() => openAttachment(attachment)}
+            title={`Open ${attachment.fileName}`}
+          >
+            {isImage(attachment) ? (
+              <AttachmentImage entryId={entryId} attachment={attachment} size="small" className="attachment-thumbnail" />
+            ) : (
+              <span className="attachment-file-icon">{fileLabel(attachment)}</span>
+            )}
+          </button>
+          <span className="attachment-name" title={attachment.fileName}>{attachment.fileName}</span>
+          {(onInsert || onRemove) && (
+            <div className="attachment-actions">
+              {onInsert && (
+                <button type="button" onClick={() => onInsert(attachment)} title="Show this attachment inside the entry text">
+                  Insert
+                </button>
+              )}
+              {onRemove && (
+                <button type="button" onClick={() => onRemove(attachment)}>Remove</button>
+              )}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
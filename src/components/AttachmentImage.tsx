@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import { EntryAttachment, ThumbnailSize } from '../types';
+
+// Data URLs by entry, attachment and size (null when there is no image to show)
+const thumbnailCache = new Map<string, string | null>();
+
+interface AttachmentImageProps {
+  entryId: number;
+  attachment: EntryAttachment;
+  size: ThumbnailSize;
+  alt?: string;
+  className?: string;
+}
+
+export default function AttachmentImage({ entryId, attachment, size, alt, className = '' }: AttachmentImageProps) {
+  const cacheKey = `${entryId}:${attachment.id}:${size}`;
+  const [dataUrl, setDataUrl] = useState<string | null | undefined>(thumbnailCache.get(cacheKey));
+
+  useEffect(() => {
+    if (thumbnailCache.has(cacheKey)) {
+      setDataUrl(thumbnailCache.get(cacheKey));
+      return;
+    }
+    setDataUrl(undefined);
+    if (!window.electronAPI) return;
+
+    let cancelled = false;
+    window.electronAPI.getAttachmentThumbnail(entryId, attachment.id, size)
+      .then(result => {
+        const url = result.success ? result.dataUrl || null : null;
+        if (result.success) {
+          thumbnailCache.set(cacheKey, url);
+        }
+        if (!cancelled) setDataUrl(url);
+      })
+      .catch(error => {
+        console.error('[AttachmentImage] Error loading thumbnail:', error);
+        if (!cancelled) setDataUrl(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [cacheKey]);
+
+  if (dataUrl === undefined) {
+    return <span className={`attachment-image-loading ${className}`} aria-label="Loading image" />;
+  }
+  if (dataUrl === null) {
+    return <span className={`attachment-image-missing ${className}`}>{alt || attachment.fileName}</span>;
+  }
+  return <img className={className} src={dataUrl} alt={alt ?? attachment.fileName} loading="lazy" />;
+}
@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { BulkEntryOperation, ExportFormat, TimeRange } from '../types';
+import { bulkUpdateJournalEntries, moveJournalEntries, exportJournalEntries } from '../services/journalService';
+import { formatDate, parseISODate } from '../utils/dateUtils';
+import './BulkActionsBar.css';
+
+interface BulkActionsBarProps {
+  selectedIds: number[];
+  onApplied?: (operation: BulkEntryOperation) => void; // After the entries were changed
+}
+
+/**
+ * Actions for the entries selected in JournalList or SearchView. Every action is one
+ * IPC call that changes all selected entries in a single transaction.
+ */
+export default function BulkActionsBar({ selectedIds, onApplied }: BulkActionsBarProps) {
+  const [tagInput, setTagInput] = useState('');
+  const [moveDate, setMoveDate] = useState(() => formatDate(new Date()));
+  const [moveTimeRange, setMoveTimeRange] = useState<TimeRange>('day');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI?.getPreference('defaultExportFormat')
+      .then(format => {
+        if (format) {
+          setExportFormat(format);
+        }
+      })
+      .catch(error => console.error('[BulkActionsBar] Error loading export format:', error));
+  }, []);
+
+  const count = selectedIds.length;
+
+  // A result message only applies to the selection it was made for
+  useEffect(() => {
+    setMessage(null);
+  }, [count]);
+
+  const countLabel = `${count} ${count === 1 ? 'entry' : 'entries'}`;
+  const tags = tagInput.split(',').map(tag => tag.trim()).filter(tag => tag !== '');
+
+  const run = async (
+    operation: BulkEntryOperation,
+    describe: (updated: number) => string,
+    apply: () => Promise<number> = () => bulkUpdateJournalEntries(selectedIds, operation)
+  ) => {
+    setBusy(true);
+    try {
+      const updated = await apply();
+      setMessage(describe(updated));
+      onApplied?.(operation);
+    } catch (error) {
+      console.error('[BulkActionsBar] Error applying bulk operation:', error);
+      setMessage(`Failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changedLabel = (updated: number) => `${updated} ${updated === 1 ? 'entry' : 'entries'}`;
+
+  const handleTags = (type: 'add-tags' | 'remove-tags') => {
+    if (tags.length === 0) {
+      return;
+    }
+    run({ type, tags }, updated =>
+      `${type === 'add-tags' ? 'Tagged' : 'Untagged'} ${changedLabel(updated)}`
+    ).then(() => setTagInput(''));
+  };
+
+  const handleMove = () => {
+    if (!moveDate) {
+      return;
+    }
+    run(
+      { type: 'move', date: moveDate, timeRange: moveTimeRange },
+      updated => `Moved ${changedLabel(updated)}`,
+      () => moveJournalEntries(selectedIds, parseISODate(moveDate), moveTimeRange)
+    );
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Move ${countLabel} to the Trash? Deleted entries can be restored from the Trash.`)) {
+      return;
+    }
+    run({ type: 'trash', trashed: true }, updated => `Deleted ${changedLabel(updated)}`);
+  };
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      if (await exportJournalEntries(selectedIds, exportFormat)) {
+        setMessage(`Exported ${countLabel}`);
+      }
+    } catch (error) {
+      console.error('[BulkActionsBar] Error exporting entries:', error);
+      setMessage(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (count === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bulk-actions-bar">
+      <div className="bulk-actions-summary">
+        <span className="bulk-actions-count">{countLabel} selected</span>
+        {message && <span className="bulk-actions-message">{message}</span>}
+      </div>
+      <div className="bulk-actions-row">
+        <input
+          type="text"
+          className="bulk-actions-tags"
+          placeholder="Tags, comma separated"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              handleTags('add-tags');
+            }
+          }}
+          disabled={busy}
+        />
+        <button onClick={() => handleTags('add-tags')} disabled={busy || tags.length === 0}>
+          Add Tags
+        </button>
+        <button onClick={() => handleTags('remove-tags')} disabled={busy || tags.length === 0}>
+          Remove Tags
+        </button>
+      </div>
+      <div className="bulk-actions-row">
+        <button onClick={() => run({ type: 'pin', pinned: true }, updated => `Pinned ${changedLabel(updated)}`)} disabled={busy}>
+          Pin
+        </button>
+        <button onClick={() => run({ type: 'pin', pinned: false }, updated => `Unpinned ${changedLabel(updated)}`)} disabled={busy}>
+          Unpin
+        </button>
+        <button onClick={() => run({ type: 'archive', archived: true }, updated => `Archived ${changedLabel(updated)}`)} disabled={busy}>
+          Archive
+        </button>
+        <button className="bulk-actions-delete" onClick={handleDelete} disabled={busy}>
+          Delete
+        </button>
+      </div>
+      <div className="bulk-actions-row">
+        <label>Move to</label>
+        <input
+          type="date"
+          value={moveDate}
+          onChange={(e) => setMoveDate(e.target.value)}
+          disabled={busy}
+        />
+        <select value={moveTimeRange} onChange={(e) => setMoveTimeRange(e.target.value as TimeRange)} disabled={busy}>
+          <option value="day">Day</option>
+          <option value="week">Week</option>
+          <option value="month">Month</option>
+          <option value="year">Year</option>
+          <option value="decade">Decade</option>
+          <option value="century">Century</option>
+          <option value="millennium">Millennium</option>
+        </select>
+        <button onClick={handleMove} disabled={busy || !moveDate}>
+          Move
+        </button>
+      </div>
+      <div className="bulk-actions-row">
+        <label>Export as</label>
+        <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)} disabled={busy}>
+          <option value="markdown">Markdown (.md)</option>
+          <option value="text">Plain text (.txt)</option>
+          <option value="json">JSON (.json)</option>
+          <option value="csv">CSV (.csv)</option>
+          <option value="ics">iCalendar (.ics)</option>
+          <option value="bundle">Bundle with attachments (.zip)</option>
+          <option value="rtf">Rich Text (.rtf)</option>
+          <option value="pdf">PDF (.pdf)</option>
+          <option value="dec">Decades summary (.dec)</option>
+        </select>
+        <button onClick={handleExport} disabled={busy}>
+          Export
+        </button>
+      </div>
+    </div>
+  );
+}
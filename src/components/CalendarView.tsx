@@ -5,6 +5,8 @@ import {
   getDaysInWeek,
   getMonthsInYear,
   getYearsInDecade,
+  getDecadesInCentury,
+  getCenturiesInMillennium,
   formatDate,
   isToday,
   getWeekStart,
@@ -12,6 +14,7 @@ import {
   getZodiacColor,
   getZodiacGradientColor,
   getZodiacGradientColorForYear,
+  getZodiacColorForDecade,
   createDate,
   getMonthStart,
   getMonthEnd,
@@ -24,7 +27,7 @@ import { useCalendar } from '../contexts/CalendarContext';
 import { useEntries } from '../contexts/EntriesContext';
 import { dateToCalendarDate } from '../utils/calendars/calendarConverter';
 import { formatCalendarDate } from '../utils/calendars/calendarConverter';
-import { buildEntryLookup, hasEntryForDateOptimized, getEntriesWithTimeOptimized } from '../utils/entryLookupUtils';
+import { buildEntryLookup, hasEntryForDateOptimized, getEntriesWithTimeOptimized, filterEntriesByDateRangeOptimized } from '../utils/entryLookupUtils';
 import { getEntryColorForDateOptimized } from '../utils/entryColorUtils';
 import { getAstronomicalEventsForRange, getAstronomicalEventLabel, type DateAstronomicalEvent } from '../utils/astronomicalEvents';
 import './CalendarView.css';
@@ -42,7 +45,7 @@ function CalendarView({
   onTimePeriodSelect,
   weekStartsOn = 0,
 }: CalendarViewProps) {
-  const { calendar } = useCalendar();
+  const { calendar, islamicCalendarVariant, islamicObserverRegion } = useCalendar();
   const { entries: allEntries, entryLookup: contextEntryLookup, entryColors } = useEntries();
   const [preferences, setPreferences] = useState<Preferences>({});
 
@@ -61,7 +64,8 @@ function CalendarView({
           setPreferences({
             ...prefs,
             showSolsticesEquinoxes: prefs.showSolsticesEquinoxes ?? false,
-            showMoonPhases: prefs.showMoonPhases ?? false
+            showMoonPhases: prefs.showMoonPhases ?? false,
+            showHolidays: prefs.showHolidays ?? false
           });
         } catch (error) {
           console.error('[CalendarView] ❌ Error loading preferences:', error);
@@ -76,7 +80,7 @@ function CalendarView({
     if (window.electronAPI && window.electronAPI.onPreferenceUpdated) {
       const handlePreferenceUpdate = (data: { key: string; value: any }) => {
         console.log('[CalendarView] Preference update received:', data);
-        if (data.key === 'showSolsticesEquinoxes' || data.key === 'showMoonPhases') {
+        if (data.key === 'showSolsticesEquinoxes' || data.key === 'showMoonPhases' || data.key === 'showHolidays') {
           // Update preferences state immediately
           setPreferences(prev => {
             const updated = { ...prev, [data.key]: data.value };
@@ -113,9 +117,15 @@ function CalendarView({
     // Use truthy check instead of strict === true to handle undefined as false
     const showSolsticesEquinoxes = !!(preferences.showSolsticesEquinoxes);
     const showMoonPhases = !!(preferences.showMoonPhases);
+    const showHolidays = !!(preferences.showHolidays);
     
-    // Early return if both are disabled
-    if (!showSolsticesEquinoxes && !showMoonPhases) {
+    // Early return if all are disabled
+    if (!showSolsticesEquinoxes && !showMoonPhases && !showHolidays) {
+      return new Map<string, DateAstronomicalEvent[]>();
+    }
+    
+    // Century and millennium cells are too coarse for individual events
+    if (viewMode === 'century' || viewMode === 'millennium') {
       return new Map<string, DateAstronomicalEvent[]>();
     }
     
@@ -159,11 +169,12 @@ function CalendarView({
       startDate,
       endDate,
       showSolsticesEquinoxes,
-      showMoonPhases
+      showMoonPhases,
+      showHolidays
     );
     
     return events;
-  }, [selectedDate, viewMode, weekStartsOn, preferences.showSolsticesEquinoxes, preferences.showMoonPhases]);
+  }, [selectedDate, viewMode, weekStartsOn, preferences.showSolsticesEquinoxes, preferences.showMoonPhases, preferences.showHolidays, islamicCalendarVariant, islamicObserverRegion]);
 
   // Removed loadEntries - now using EntriesContext with memoized filtering
 
@@ -181,6 +192,12 @@ function CalendarView({
       case 'decade':
         // For decade view, compare at year level
         return isSameYear(date, selectedDate);
+      case 'century':
+        // For century view, compare at decade level
+        return Math.floor(date.getFullYear() / 10) === Math.floor(selectedDate.getFullYear() / 10);
+      case 'millennium':
+        // For millennium view, compare at century level
+        return Math.floor(date.getFullYear() / 100) === Math.floor(selectedDate.getFullYear() / 100);
       default:
         return false;
     }
@@ -191,6 +208,55 @@ function CalendarView({
     return hasEntryForDateOptimized(entryLookup, date, weekStartsOn);
   }, [entryLookup, weekStartsOn]);
 
+  // Century and millennium views: ten decade or century cells, each opening its own tier
+  const renderSpanView = (cellRange: 'decade' | 'century') => {
+    const cells = cellRange === 'decade' ? getDecadesInCentury(selectedDate) : getCenturiesInMillennium(selectedDate);
+    const cellYears = cellRange === 'decade' ? 10 : 100;
+    return (
+      <div className={`calendar-grid ${viewMode}-view`}>
+        {cells.map((cell, idx) => {
+          const cellStart = cell.getFullYear();
+          const gradientColor = getZodiacColorForDecade(cellStart);
+          const cellEnd = createDate(cellStart + cellYears - 1, 11, 31);
+          // Any entry inside the span marks the cell; day entries are too fine to count here
+          const hasEntryForCell = filterEntriesByDateRangeOptimized(entryLookup, cell, cellEnd, weekStartsOn, true).length > 0;
+          const entryColor = hasEntryForCell ? getEntryColorForDateOptimized(entryLookup, cell, cellRange, weekStartsOn, entryColors) : null;
+          
+          return (
+            <div
+              key={idx}
+              className={`calendar-cell year-cell ${cellRange}-cell ${isSelected(cell) ? 'selected' : ''} ${hasEntryForCell ? 'has-entry' : ''}`}
+              onClick={() => {
+                playCalendarSelectionSound();
+                onTimePeriodSelect(cell, cellRange);
+              }}
+              style={{ '--zodiac-gradient': gradientColor } as React.CSSProperties}
+            >
+              <div className="cell-content">
+                <div className="cell-label" style={{ color: gradientColor }}>
+                  {(() => {
+                    try {
+                      const calDate = dateToCalendarDate(cell, calendar);
+                      return `${calDate.year}s${calDate.era ? ' ' + calDate.era : ''}`;
+                    } catch (e) {
+                      return `${cellStart}s`;
+                    }
+                  })()}
+                </div>
+                {hasEntryForCell && entryColor && (
+                  <div 
+                    className="entry-indicator"
+                    style={{ backgroundColor: entryColor }}
+                  ></div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
   const renderDecadeView = () => {
     const years = getYearsInDecade(selectedDate);
     return (
@@ -575,6 +641,10 @@ function CalendarView({
   // Entries are preloaded, so no need for component-level loading state
 
   switch (viewMode) {
+    case 'millennium':
+      return renderSpanView('century');
+    case 'century':
+      return renderSpanView('decade');
     case 'decade':
       return renderDecadeView();
     case 'year':
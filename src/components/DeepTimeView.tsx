@@ -0,0 +1,125 @@
+import { useMemo, memo } from 'react';
+import { JournalEntry } from '../types';
+import { YearTimeRange, YEAR_TIME_RANGE_SPANS, getYearSpanStart, getISODateYear, getZodiacGradientColorForYear, getZodiacColorForDecade } from '../utils/dateUtils';
+import { playCalendarSelectionSound, playEntrySelectionSound } from '../utils/audioUtils';
+import { calculateEntryColor } from '../utils/entryColorUtils';
+import { useEntries } from '../contexts/EntriesContext';
+import { filterEntriesInYearSpan } from '../utils/entryFilterUtils';
+import { getYearTierLabel } from '../utils/calendars/timeRangeConverter';
+import { parseISODateParts } from '../utils/calendars/julianDayUtils';
+import './TimelineView.css';
+
+const CELL_RANGES: Record<Exclude<YearTimeRange, 'year'>, YearTimeRange> = {
+  millennium: 'century',
+  century: 'decade',
+  decade: 'year',
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface DeepTimeViewProps {
+  year: number;
+  viewMode: YearTimeRange;
+  onYearSelect: (year: number, viewMode: YearTimeRange) => void;
+  onEntrySelect: (entry: JournalEntry) => void;
+}
+
+/**
+ * Timeline for years beyond the range of JavaScript Date (e.g. 65 million years ago).
+ * TimelineView works from a Date, so here the millennium/century/decade/year tiers are drawn
+ * from the year number and the entries' ISO dates. Month, week and day tiers aren't available.
+ */
+function DeepTimeView({ year, viewMode, onYearSelect, onEntrySelect }: DeepTimeViewProps) {
+  const { entries } = useEntries();
+
+  // Day entries are too fine to list on a span card
+  const spanEntries = useMemo(
+    () => filterEntriesInYearSpan(entries, viewMode, year, true),
+    [entries, viewMode, year]
+  );
+
+  const renderEntryBadges = (cellEntries: JournalEntry[]) => (
+    <div className="cell-entries">
+      {cellEntries.slice(0, 2).map((entry, eIdx) => (
+        <div
+          key={eIdx}
+          className={`entry-badge entry-${entry.timeRange}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            playEntrySelectionSound();
+            onEntrySelect(entry);
+          }}
+          title={entry.title}
+          style={{ backgroundColor: calculateEntryColor(entry) }}
+        >
+          <span className="badge-title">{entry.title}</span>
+        </div>
+      ))}
+      {cellEntries.length > 2 && (
+        <div className="entry-badge more-entries">+{cellEntries.length - 2}</div>
+      )}
+    </div>
+  );
+
+  if (viewMode === 'year') {
+    // Months can't be opened this far out, so the month cells only list their entries
+    return (
+      <div className="timeline-year-view">
+        <div className="year-grid">
+          {MONTH_LABELS.map((label, idx) => {
+            const monthEntries = spanEntries.filter(entry => parseISODateParts(entry.date)?.month === idx + 1);
+            return (
+              <div
+                key={label}
+                className={`timeline-cell month-cell ${monthEntries.length > 0 ? 'has-entries' : ''}`}
+              >
+                <div className="cell-month-label">{label}</div>
+                {renderEntryBadges(monthEntries)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  // Millennium, century and decade views: ten cards, each opening the tier below
+  const cellRange = CELL_RANGES[viewMode];
+  const cellYears = YEAR_TIME_RANGE_SPANS[cellRange];
+  const spanStart = getYearSpanStart(year, viewMode);
+  const selectedCellStart = getYearSpanStart(year, cellRange);
+
+  return (
+    <div className="timeline-decade-view">
+      <div className="decade-grid">
+        {Array.from({ length: 10 }, (_, idx) => {
+          const cellStart = spanStart + idx * cellYears;
+          const cellEntries = spanEntries.filter(entry => getYearSpanStart(getISODateYear(entry.date), cellRange) === cellStart);
+          const cellColor = cellRange === 'year' ? getZodiacGradientColorForYear(cellStart) : getZodiacColorForDecade(cellStart);
+
+          return (
+            <div
+              key={cellStart}
+              className={`timeline-cell year-cell ${cellRange === 'year' ? '' : `${cellRange}-cell`} ${cellStart === selectedCellStart ? 'selected' : ''} ${cellEntries.length > 0 ? 'has-entries' : ''}`}
+              onClick={() => {
+                playCalendarSelectionSound();
+                onYearSelect(cellStart, cellRange);
+              }}
+              style={{ '--zodiac-gradient': cellColor } as React.CSSProperties}
+            >
+              <div
+                className="cell-year-label"
+                style={{ color: cellColor }}
+              >
+                {getYearTierLabel(cellStart, cellRange, 'gregorian')}
+              </div>
+              {renderEntryBadges(cellEntries)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default memo(DeepTimeView);
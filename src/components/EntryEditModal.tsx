@@ -2,6 +2,7 @@ import { useState, useEffect, useRef } from 'react';
 import { JournalEntry, TimeRange, Preferences } from '../types';
 import { formatDate, getCanonicalDate, formatTime } from '../utils/dateUtils';
 import { saveJournalEntry, deleteJournalEntry } from '../services/journalService';
+import EntryHistoryPanel from './EntryHistoryPanel';
 import { playSaveSound, playCancelSound, playDeleteSound, playAddSound, playRemoveSound, playTypingSound } from '../utils/audioUtils';
 import './EntryEditModal.css';
 
@@ -30,6 +31,7 @@ export default function EntryEditModal({
   const [amPm, setAmPm] = useState<'AM' | 'PM'>('AM');
   const [saving, setSaving] = useState(false);
   const [preferences, setPreferences] = useState<Preferences>({});
+  const [showHistory, setShowHistory] = useState(false);
   
   // Track mouse down position to prevent closing during text selection
   const mouseDownTargetRef = useRef<EventTarget | null>(null);
@@ -370,6 +372,8 @@ export default function EntryEditModal({
         hour: entry.hour,
         minute: entry.minute,
         second: entry.second,
+        calendar: entry.calendar,
+        periodEnd: entry.periodEnd,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
@@ -443,6 +447,14 @@ export default function EntryEditModal({
     
     let dateStr: string;
     switch (entry.timeRange) {
+      case 'millennium':
+        const millenniumStart = Math.floor(entryDate.getFullYear() / 1000) * 1000;
+        dateStr = `${millenniumStart}–${millenniumStart + 999}`;
+        break;
+      case 'century':
+        const centuryStart = Math.floor(entryDate.getFullYear() / 100) * 100;
+        dateStr = `${centuryStart}–${centuryStart + 99}`;
+        break;
       case 'decade':
         const decadeStart = Math.floor(entryDate.getFullYear() / 10) * 10;
         dateStr = `${decadeStart}s`;
@@ -689,6 +701,11 @@ export default function EntryEditModal({
             <button className="modal-duplicate-button" onClick={handleDuplicate} title="Duplicate this entry">
               Duplicate
             </button>
+            {entry.id !== undefined && (
+              <button className="modal-duplicate-button" onClick={() => setShowHistory(true)} title="Show earlier versions of this entry">
+                History
+              </button>
+            )}
             <button className="modal-delete-button" onClick={handleDelete}>
               Delete Entry
             </button>
@@ -725,6 +742,19 @@ export default function EntryEditModal({
           </div>
         </div>
       </div>
+      {showHistory && (
+        <EntryHistoryPanel
+          entry={entry}
+          timeFormat={preferences.timeFormat}
+          onClose={() => setShowHistory(false)}
+          onRestored={() => {
+            // The restored text is already saved, so there is nothing left to edit here
+            setShowHistory(false);
+            onEntrySaved?.();
+            onClose();
+          }}
+        />
+      )}
     </div>
   );
 }
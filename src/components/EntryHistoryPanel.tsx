@@ -0,0 +1,228 @@
+import { useState, useEffect, useMemo } from 'react';
+import { JournalEntry, EntryVersion } from '../types';
+import { formatDate } from '../utils/dateUtils';
+import { diffWords, DiffSegment } from '../utils/textDiff';
+import './EntryHistoryPanel.css';
+
+interface EntryHistoryPanelProps {
+  entry: JournalEntry;
+  timeFormat?: '12h' | '24h';
+  onClose: () => void;
+  onRestored: (entry: JournalEntry) => void;
+}
+
+// One state of the entry: the current one or a stored version
+interface Snapshot {
+  key: string;
+  versionId?: number;
+  label: string;
+  title: string;
+  content: string;
+  tags: string[];
+}
+
+const CURRENT_KEY = 'current';
+
+function DiffText({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, idx) => {
+        if (segment.type === 'added') return <ins key={idx} className="history-diff-added">{segment.text}</ins>;
+        if (segment.type === 'removed') return <del key={idx} className="history-diff-removed">{segment.text}</del>;
+        return <span key={idx}>{segment.text}</span>;
+      })}
+    </>
+  );
+}
+
+export default function EntryHistoryPanel({ entry, timeFormat = '12h', onClose, onRestored }: EntryHistoryPanelProps) {
+  const [versions, setVersions] = useState<EntryVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromKey, setFromKey] = useState<string>('');
+  const [toKey, setToKey] = useState<string>(CURRENT_KEY);
+  const [restoring, setRestoring] = useState(false);
+
+  const formatTimestamp = (timestamp: string) =>
+    formatDate(new Date(timestamp), timeFormat === '24h' ? 'MMM d, yyyy HH:mm' : 'MMM d, yyyy h:mm a');
+
+  useEffect(() => {
+    if (!entry.id || !window.electronAPI) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    window.electronAPI.getEntryVersions(entry.id)
+      .then(loaded => {
+        if (cancelled) return;
+        setVersions(loaded);
+        setFromKey(loaded.length > 0 ? String(loaded[0].id) : CURRENT_KEY);
+        setToKey(CURRENT_KEY);
+      })
+      .catch(error => {
+        console.error('[EntryHistoryPanel] Error loading versions:', error);
+        if (!cancelled) setVersions([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entry.id, entry.updatedAt]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        // Close the panel only, not a modal underneath it
+        e.stopImmediatePropagation();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleEscape, true);
+    return () => window.removeEventListener('keydown', handleEscape, true);
+  }, [onClose]);
+
+  const snapshots = useMemo<Snapshot[]>(() => [
+    {
+      key: CURRENT_KEY,
+      label: `Current (saved ${formatTimestamp(entry.updatedAt)})`,
+      title: entry.title,
+      content: entry.content,
+      tags: entry.tags || [],
+    },
+    // A version is the state the entry had until it was replaced at versionCreatedAt
+    ...versions.map(version => ({
+      key: String(version.id),
+      versionId: version.id,
+      label: `Replaced ${formatTimestamp(version.versionCreatedAt)}`,
+      title: version.title,
+      content: version.content,
+      tags: version.tags || [],
+    })),
+  ], [entry, versions, timeFormat]);
+
+  const from = snapshots.find(snapshot => snapshot.key === fromKey);
+  const to = snapshots.find(snapshot => snapshot.key === toKey);
+
+  const diff = useMemo(() => {
+    if (!from || !to) return null;
+    const fromTags = new Set(from.tags);
+    const toTags = new Set(to.tags);
+    return {
+      title: from.title !== to.title ? diffWords(from.title, to.title) : null,
+      content: diffWords(from.content, to.content),
+      addedTags: to.tags.filter(tag => !fromTags.has(tag)),
+      removedTags: from.tags.filter(tag => !toTags.has(tag)),
+    };
+  }, [from, to]);
+
+  const handleRestore = async (snapshot: Snapshot) => {
+    if (!snapshot.versionId || !window.electronAPI || restoring) return;
+    if (!confirm(`Restore the version ${snapshot.label.toLowerCase()}? The current text is kept in the history.`)) {
+      return;
+    }
+    try {
+      setRestoring(true);
+      const result = await window.electronAPI.restoreEntryVersion(snapshot.versionId);
+      if (!result.success || !result.entry) {
+        throw new Error(result.error || 'Unknown error');
+      }
+      window.dispatchEvent(new CustomEvent('journalEntrySaved'));
+      onRestored(result.entry);
+    } catch (error) {
+      console.error('[EntryHistoryPanel] Error restoring version:', error);
+      alert(`Failed to restore version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="entry-history-overlay" onClick={onClose}>
+      <div className="entry-history-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="entry-history-header">
+          <h3>Version History</h3>
+          <button className="entry-history-close-button" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="entry-history-empty">Loading history…</div>
+        ) : versions.length === 0 ? (
+          <div className="entry-history-empty">This entry has no earlier versions.</div>
+        ) : (
+          <div className="entry-history-body">
+            <ul className="entry-history-list">
+              {snapshots.map(snapshot => (
+                <li
+                  key={snapshot.key}
+                  className={`entry-history-item ${snapshot.key === fromKey ? 'selected' : ''}`}
+                  onClick={() => setFromKey(snapshot.key)}
+                >
+                  <div className="entry-history-item-label">{snapshot.label}</div>
+                  <div className="entry-history-item-title">{snapshot.title || 'Untitled'}</div>
+                  {snapshot.versionId !== undefined && (
+                    <button
+                      className="entry-history-restore-button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRestore(snapshot);
+                      }}
+                      disabled={restoring}
+                    >
+                      Restore
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="entry-history-compare">
+              <div className="entry-history-compare-controls">
+                <label>
+                  Compare
+                  <select value={fromKey} onChange={(e) => setFromKey(e.target.value)}>
+                    {snapshots.map(snapshot => (
+                      <option key={snapshot.key} value={snapshot.key}>{snapshot.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  with
+                  <select value={toKey} onChange={(e) => setToKey(e.target.value)}>
+                    {snapshots.map(snapshot => (
+                      <option key={snapshot.key} value={snapshot.key}>{snapshot.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              {diff && (
+                <div className="entry-history-diff">
+                  <div className="entry-history-diff-title">
+                    {diff.title ? <DiffText segments={diff.title} /> : to?.title || 'Untitled'}
+                  </div>
+                  <div className="entry-history-diff-content">
+                    <DiffText segments={diff.content} />
+                  </div>
+                  {(diff.addedTags.length > 0 || diff.removedTags.length > 0) && (
+                    <div className="entry-history-diff-tags">
+                      {diff.removedTags.map(tag => (
+                        <del key={`-${tag}`} className="history-diff-removed">{tag}</del>
+                      ))}
+                      {diff.addedTags.map(tag => (
+                        <ins key={`+${tag}`} className="history-diff-added">{tag}</ins>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { JournalEntry, EntryLinkTarget, EntryRelation, ENTRY_RELATIONS } from '../types';
+import { parseISODate, formatDate } from '../utils/dateUtils';
+import { RELATION_LABELS } from '../utils/entryRelations';
+import './EntryLinkPicker.css';
+
+// A link being edited, with the entry it points to for display
+export interface EntryLinkDraft extends EntryLinkTarget {
+  entry: JournalEntry;
+}
+
+interface EntryLinkPickerProps {
+  links: EntryLinkDraft[];
+  currentEntryId?: number;
+  onChange: (links: EntryLinkDraft[]) => void;
+}
+
+const MAX_RESULTS = 8;
+
+const describeEntry = (entry: JournalEntry) =>
+  `${formatDate(parseISODate(entry.date), 'MMM d, yyyy')} · ${entry.timeRange}`;
+
+export default function EntryLinkPicker({ links, currentEntryId, onChange }: EntryLinkPickerProps) {
+  const [query, setQuery] = useState('');
+  const [relation, setRelation] = useState<EntryRelation>('related');
+  const [results, setResults] = useState<JournalEntry[]>([]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed || !window.electronAPI) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const found = await window.electronAPI.searchEntries(trimmed);
+        if (!cancelled) {
+          setResults(found.filter(entry => entry.id !== undefined && entry.id !== currentEntryId).slice(0, MAX_RESULTS));
+        }
+      } catch (error) {
+        console.error('[EntryLinkPicker] Error searching entries:', error);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, currentEntryId]);
+
+  const isLinked = (targetId: number, linkRelation: EntryRelation) =>
+    links.some(link => link.targetId === targetId && link.relation === linkRelation);
+
+  const handleAdd = (entry: JournalEntry) => {
+    if (entry.id === undefined || isLinked(entry.id, relation)) return;
+    onChange([...links, { targetId: entry.id, relation, entry }]);
+    setQuery('');
+  };
+
+  const handleRelationChange = (index: number, newRelation: EntryRelation) => {
+    const link = links[index];
+    if (isLinked(link.targetId, newRelation)) return;
+    onChange(links.map((l, i) => (i === index ? { ...l, relation: newRelation } : l)));
+  };
+
+  return (
+    <div className="entry-link-picker">
+      {links.length > 0 && (
+        <ul className="entry-link-list">
+          {links.map((link, index) => (
+            <li key={`${link.targetId}:${link.relation}`} className="entry-link-item">
+              <select
+                value={link.relation}
+                onChange={(e) => handleRelationChange(index, e.target.value as EntryRelation)}
+              >
+                {ENTRY_RELATIONS.map(r => (
+                  <option key={r} value={r}>{RELATION_LABELS[r]}</option>
+                ))}
+              </select>
+              <span className="entry-link-title">{link.entry.title || 'Untitled'}</span>
+              <span className="entry-link-meta">{describeEntry(link.entry)}</span>
+              <button
+                type="button"
+                className="entry-link-remove"
+                onClick={() => onChange(links.filter((_, i) => i !== index))}
+                aria-label="Remove link"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="entry-link-search">
+        <select value={relation} onChange={(e) => setRelation(e.target.value as EntryRelation)}>
+          {ENTRY_RELATIONS.map(r => (
+            <option key={r} value={r}>{RELATION_LABELS[r]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          className="entry-link-input"
+          placeholder="Link to another entry..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape' && query) {
+              e.stopPropagation();
+              setQuery('');
+            }
+          }}
+        />
+      </div>
+
+      {results.length > 0 && (
+        <ul className="entry-link-results">
+          {results.map(entry => (
+            <li key={entry.id}>
+              <button
+                type="button"
+                className="entry-link-result"
+                onClick={() => handleAdd(entry)}
+                disabled={isLinked(entry.id!, relation)}
+              >
+                <span className="entry-link-title">{entry.title || 'Untitled'}</span>
+                <span className="entry-link-meta">{describeEntry(entry)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
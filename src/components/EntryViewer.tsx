@@ -1,23 +1,32 @@
 import { useState, useEffect, useCallback, Fragment, useMemo, memo } from 'react';
-import { JournalEntry, TimeRange, Preferences } from '../types';
-import { formatDate, getWeekStart, getWeekEnd, getMonthStart, getYearStart, getDecadeStart, parseISODate, formatTime } from '../utils/dateUtils';
+import { JournalEntry, TimeRange, Preferences, EntryLink, EntryLinks } from '../types';
+import { formatDate, getWeekStart, getWeekEnd, getMonthStart, getYearStart, getDecadeStart, parseISODate, formatTime, getISODateYear, isRepresentableYear, isYearTimeRange } from '../utils/dateUtils';
 import { playEditSound, playNewEntrySound } from '../utils/audioUtils';
 import { useCalendar } from '../contexts/CalendarContext';
 import { useEntries } from '../contexts/EntriesContext';
-import { filterEntriesForRange } from '../utils/entryFilterUtils';
+import { filterEntriesForRange, filterEntriesInYearSpan, getDateRangeForView } from '../utils/entryFilterUtils';
 import { getAllEntriesForMonthOptimized, getAllEntriesForYearOptimized, filterEntriesByDateRangeOptimized } from '../utils/entryLookupUtils';
-import { getTimeRangeLabelInCalendar } from '../utils/calendars/timeRangeConverter';
-import { saveJournalEntry, deleteJournalEntry } from '../services/journalService';
+import { getTimeRangeLabelInCalendar, getYearTierLabel } from '../utils/calendars/timeRangeConverter';
+import { bulkUpdateJournalEntries } from '../services/journalService';
+import { RELATION_LABELS, BACKLINK_LABELS } from '../utils/entryRelations';
+import { splitContentReferences } from '../../electron/utils/contentReferences';
+import EntryHistoryPanel from './EntryHistoryPanel';
+import MarkdownContent from './MarkdownContent';
+import AttachmentGallery from './AttachmentGallery';
+import AttachmentImage from './AttachmentImage';
 import './EntryViewer.css';
 
 interface EntryViewerProps {
   entry: JournalEntry | null;
   date: Date;
   viewMode: TimeRange;
+  deepTimeYear?: number | null; // Year shown instead of date beyond the range of Date
   onEdit: () => void;
   onNewEntry: () => void;
   onEntrySelect: (entry: JournalEntry) => void;
   onEditEntry?: (entry: JournalEntry) => void;
+  onDateSelect?: (date: Date) => void;
+  onTagSelect?: (tag: string) => void;
   weekStartsOn?: 0 | 1 | 2 | 3 | 4 | 5 | 6;
 }
 
@@ -25,10 +34,13 @@ function EntryViewer({
   entry,
   date,
   viewMode,
+  deepTimeYear = null,
   onEdit,
   onNewEntry,
   onEntrySelect,
   onEditEntry,
+  onDateSelect,
+  onTagSelect,
   weekStartsOn = 0,
 }: EntryViewerProps) {
   const { calendar } = useCalendar();
@@ -38,11 +50,11 @@ function EntryViewer({
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [sortBy, setSortBy] = useState<'date' | 'title' | 'timeRange'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
-  const [linkedEntries, setLinkedEntries] = useState<JournalEntry[]>([]);
-  const [loadingLinked, setLoadingLinked] = useState(false);
+  const [entryLinks, setEntryLinks] = useState<EntryLinks>({ outgoing: [], incoming: [] });
   const [bulkEditMode, setBulkEditMode] = useState(false);
   const [selectedEntryIds, setSelectedEntryIds] = useState<Set<number>>(new Set());
   const [preferences, setPreferences] = useState<Preferences>({});
+  const [showHistory, setShowHistory] = useState(false);
 
   // Check if there are day entries for the selected date (for day view messaging)
   const dayEntries = useMemo(() => {
@@ -57,58 +69,42 @@ function EntryViewer({
     // Clear bulk selection when changing date/view
     setSelectedEntryIds(new Set());
     setBulkEditMode(false);
-  }, [date, viewMode]);
+  }, [date, viewMode, deepTimeYear]);
 
-  const loadLinkedEntries = useCallback(async () => {
-    if (!entry?.linkedEntries || entry.linkedEntries.length === 0) {
-      setLinkedEntries([]);
+  // Links in both directions come from one call; backlinks exist even when the entry links to nothing
+  const loadEntryLinks = useCallback(async () => {
+    if (!entry?.id || !window.electronAPI) {
+      setEntryLinks({ outgoing: [], incoming: [] });
       return;
     }
 
-    setLoadingLinked(true);
     try {
-      // Batch load all linked entries in parallel instead of sequentially
-      if (window.electronAPI) {
-        const linkedEntriesPromises = entry.linkedEntries.map(id => 
-          window.electronAPI.getEntryById(id)
-        );
-        const loaded = await Promise.all(linkedEntriesPromises);
-        // Filter out null/undefined entries
-        setLinkedEntries(loaded.filter((entry): entry is JournalEntry => entry !== null));
-      } else {
-        setLinkedEntries([]);
-      }
+      setEntryLinks(await window.electronAPI.getEntryLinks(entry.id));
     } catch (error) {
       if (process.env.NODE_ENV === 'development') {
-        console.error('Error loading linked entries:', error);
+        console.error('Error loading entry links:', error);
       }
-      setLinkedEntries([]);
-    } finally {
-      setLoadingLinked(false);
+      setEntryLinks({ outgoing: [], incoming: [] });
     }
-  }, [entry?.linkedEntries]);
+  }, [entry?.id]);
 
   useEffect(() => {
     const handleEntrySaved = () => {
       loadPeriodEntries();
       if (entry?.id) {
-        loadLinkedEntries();
+        loadEntryLinks();
       }
     };
     window.addEventListener('journalEntrySaved', handleEntrySaved);
     return () => {
       window.removeEventListener('journalEntrySaved', handleEntrySaved);
     };
-  }, [date, viewMode, entry?.id, loadLinkedEntries]);
+  }, [date, viewMode, deepTimeYear, entry?.id, loadEntryLinks]);
 
-  // Load linked entries when entry changes
+  // Load links when the entry changes
   useEffect(() => {
-    if (entry?.id && entry.linkedEntries && entry.linkedEntries.length > 0) {
-      loadLinkedEntries();
-    } else {
-      setLinkedEntries([]);
-    }
-  }, [entry?.id, entry?.linkedEntries, loadLinkedEntries]);
+    loadEntryLinks();
+  }, [entry?.id, entry?.updatedAt, loadEntryLinks]);
 
   // OPTIMIZATION: Use context entries and lookup structure instead of database query
   // This eliminates database latency and uses already-loaded, indexed data
@@ -118,7 +114,13 @@ function EntryViewer({
       let filteredEntries: JournalEntry[] = [];
       
       // Use optimized lookup functions for fast filtering
-      if (viewMode === 'month') {
+      if (deepTimeYear !== null && isYearTimeRange(viewMode)) {
+        // The lookups work from a Date; beyond its range filter by the entries' ISO year
+        filteredEntries = filterEntriesInYearSpan(allEntries, viewMode, deepTimeYear, true);
+        if (viewMode === 'century' || viewMode === 'millennium') {
+          filteredEntries = filteredEntries.filter(e => e.timeRange === 'millennium' || e.timeRange === 'century' || e.timeRange === 'decade');
+        }
+      } else if (viewMode === 'month') {
         // Get all entries for the month (includes month, week, year, decade entries)
         filteredEntries = getAllEntriesForMonthOptimized(
           entryLookup,
@@ -146,13 +148,21 @@ function EntryViewer({
         const decadeEnd = new Date(decadeStart.getFullYear() + 9, 11, 31);
         decadeEnd.setHours(23, 59, 59, 999);
         filteredEntries = filterEntriesByDateRangeOptimized(entryLookup, decadeStart, decadeEnd, weekStartsOn, true);
+      } else if (viewMode === 'century' || viewMode === 'millennium') {
+        // Only entries at the decade tier or above are listed for whole centuries/millennia
+        const { startDate, endDate } = getDateRangeForView(date, viewMode);
+        endDate.setHours(23, 59, 59, 999);
+        filteredEntries = filterEntriesByDateRangeOptimized(entryLookup, startDate, endDate, weekStartsOn, true)
+          .filter(e => e.timeRange === 'millennium' || e.timeRange === 'century' || e.timeRange === 'decade');
       } else {
         // Day view - no period entries to show
         filteredEntries = [];
       }
       
-      // Sort by timeRange priority (decade > year > month > week) and then by date
+      // Sort by timeRange priority (millennium > century > decade > year > month > week) and then by date
       const timeRangeOrder: Record<TimeRange, number> = {
+        millennium: -2,
+        century: -1,
         decade: 0,
         year: 1,
         month: 2,
@@ -175,7 +185,7 @@ function EntryViewer({
     } finally {
       setLoading(false);
     }
-  }, [allEntries, entryLookup, viewMode, date, weekStartsOn]);
+  }, [allEntries, entryLookup, viewMode, date, deepTimeYear, weekStartsOn]);
 
   // Memoize filtered and sorted entries to avoid recalculating on every render
   const filteredEntries = useMemo(() => {
@@ -207,6 +217,8 @@ function EntryViewer({
           break;
         case 'timeRange':
           const timeRangeOrder: Record<TimeRange, number> = {
+            millennium: -2,
+            century: -1,
             decade: 0,
             year: 1,
             month: 2,
@@ -229,6 +241,9 @@ function EntryViewer({
   }, [filteredEntries]);
 
   const getDateLabel = () => {
+    if (deepTimeYear !== null && isYearTimeRange(viewMode)) {
+      return getYearTierLabel(deepTimeYear, viewMode, 'gregorian');
+    }
     // Use calendar-aware formatting
     try {
       return getTimeRangeLabelInCalendar(date, viewMode, calendar);
@@ -238,6 +253,12 @@ function EntryViewer({
       }
       // Fallback to Gregorian formatting
       switch (viewMode) {
+        case 'millennium':
+          const millenniumStart = Math.floor(date.getFullYear() / 1000) * 1000;
+          return `${millenniumStart}–${millenniumStart + 999}`;
+        case 'century':
+          const centuryStart = Math.floor(date.getFullYear() / 100) * 100;
+          return `${centuryStart}–${centuryStart + 99}`;
         case 'decade':
           const decadeStart = Math.floor(date.getFullYear() / 10) * 10;
           return `${decadeStart}s`;
@@ -257,6 +278,8 @@ function EntryViewer({
 
   const getTimeRangeLabel = (timeRange: TimeRange): string => {
     switch (timeRange) {
+      case 'millennium': return 'Millennium';
+      case 'century': return 'Century';
       case 'decade': return 'Decade';
       case 'year': return 'Year';
       case 'month': return 'Month';
@@ -268,6 +291,8 @@ function EntryViewer({
 
   const getTimeRangeColor = (timeRange: TimeRange): string => {
     switch (timeRange) {
+      case 'millennium': return '#3f51b5';
+      case 'century': return '#673ab7';
       case 'decade': return '#9c27b0';
       case 'year': return '#2196f3';
       case 'month': return '#ff9800';
@@ -311,6 +336,13 @@ function EntryViewer({
   };
 
   const formatEntryDate = (entry: JournalEntry): string => {
+    // Dates beyond the range of Date are labelled from the ISO year
+    const entryYear = getISODateYear(entry.date);
+    if (!isRepresentableYear(entryYear)) {
+      return isYearTimeRange(entry.timeRange) && !isNaN(entryYear)
+        ? getYearTierLabel(entryYear, entry.timeRange, 'gregorian')
+        : entry.date;
+    }
     const entryDate = parseISODate(entry.date);
     let dateStr: string;
     // Use calendar-aware formatting
@@ -320,6 +352,14 @@ function EntryViewer({
       console.error('Error formatting entry date in calendar:', e);
       // Fallback to Gregorian formatting
       switch (entry.timeRange) {
+        case 'millennium':
+          const millenniumStart = Math.floor(entryDate.getFullYear() / 1000) * 1000;
+          dateStr = `${millenniumStart}–${millenniumStart + 999}`;
+          break;
+        case 'century':
+          const centuryStart = Math.floor(entryDate.getFullYear() / 100) * 100;
+          dateStr = `${centuryStart}–${centuryStart + 99}`;
+          break;
         case 'decade':
           const decadeStart = Math.floor(entryDate.getFullYear() / 10) * 10;
           dateStr = `${decadeStart}s`;
@@ -445,17 +485,13 @@ function EntryViewer({
   const handleBulkDelete = async () => {
     if (selectedEntryIds.size === 0) return;
     
-    const confirmMessage = `Are you sure you want to delete ${selectedEntryIds.size} ${selectedEntryIds.size === 1 ? 'entry' : 'entries'}? This action cannot be undone.`;
+    const confirmMessage = `Are you sure you want to delete ${selectedEntryIds.size} ${selectedEntryIds.size === 1 ? 'entry' : 'entries'}? Deleted entries can be restored from the Trash.`;
     if (!window.confirm(confirmMessage)) {
       return;
     }
 
     try {
-      // Delete all selected entries
-      const deletePromises = Array.from(selectedEntryIds).map(id => 
-        deleteJournalEntry(id)
-      );
-      await Promise.all(deletePromises);
+      await bulkUpdateJournalEntries(Array.from(selectedEntryIds), { type: 'trash', trashed: true });
       
       // Clear selection and exit bulk edit mode
       setSelectedEntryIds(new Set());
@@ -463,9 +499,6 @@ function EntryViewer({
       
       // Reload entries
       loadPeriodEntries();
-      
-      // Trigger refresh event
-      window.dispatchEvent(new CustomEvent('journalEntrySaved'));
     } catch (error) {
       console.error('Error deleting entries:', error);
       alert(`Failed to delete entries: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -482,6 +515,67 @@ function EntryViewer({
     onEntrySelect(periodEntry);
   };
 
+  // [[date]], [[title]] and #tag references become buttons; titles resolve through the entry's 'mentions' links
+  const renderContent = (content: string) => splitContentReferences(content).map((segment, idx) => {
+    switch (segment.type) {
+      case 'date':
+        return (
+          <button key={idx} type="button" className="content-reference content-reference-date" onClick={() => onDateSelect?.(parseISODate(segment.date))}>
+            {segment.date}
+          </button>
+        );
+      case 'entry': {
+        const title = segment.title.toLowerCase();
+        const target = entryLinks.outgoing.find(link => link.relation === 'mentions' && link.entry.title.toLowerCase() === title);
+        if (!target) {
+          return <span key={idx} className="content-reference content-reference-missing" title="No entry with this title">{segment.title}</span>;
+        }
+        return (
+          <button key={idx} type="button" className="content-reference content-reference-entry" onClick={() => onEntrySelect(target.entry)}>
+            {segment.title}
+          </button>
+        );
+      }
+      case 'tag':
+        return (
+          <button key={idx} type="button" className="content-reference content-reference-tag" onClick={() => onTagSelect?.(segment.tag)}>
+            {segment.text}
+          </button>
+        );
+      default:
+        return <Fragment key={idx}>{segment.text}</Fragment>;
+    }
+  });
+
+  // ![alt](attachment:<id>) shows the attachment's large thumbnail
+  const renderAttachmentImage = (attachmentId: string, alt: string) => {
+    const attachment = entry?.attachments?.find(a => a.id === attachmentId);
+    if (!entry?.id || !attachment) {
+      return <span className="markdown-image-placeholder">{alt || 'Missing attachment'}</span>;
+    }
+    return <AttachmentImage entryId={entry.id} attachment={attachment} size="large" alt={alt} />;
+  };
+
+  const renderLinkItem = (link: EntryLink, relationLabel: string) => (
+    <div
+      key={link.id}
+      className="linked-entry-item"
+      onClick={() => onEntrySelect(link.entry)}
+    >
+      <div className="linked-entry-relation">{relationLabel}</div>
+      <div className="linked-entry-title">{link.entry.title}</div>
+      <div className="linked-entry-meta">
+        <span className="linked-entry-date">
+          {formatEntryDate(link.entry)}
+          {formatEntryTime(link.entry) && (
+            <span className="linked-entry-time"> at {formatEntryTime(link.entry)}</span>
+          )}
+        </span>
+        <span className="linked-entry-time-range">{getTimeRangeLabel(link.entry.timeRange)}</span>
+      </div>
+    </div>
+  );
+
   // If a specific entry is selected, show it
   if (entry) {
     return (
@@ -496,6 +590,11 @@ function EntryViewer({
               }}>
                 Edit
               </button>
+              {entry.id !== undefined && (
+                <button className="edit-button history-button" onClick={() => setShowHistory(true)} title="Show earlier versions of this entry">
+                  History
+                </button>
+              )}
               <button className="new-entry-button-header" onClick={() => {
                 playNewEntrySound();
                 onNewEntry();
@@ -533,7 +632,17 @@ function EntryViewer({
         
         <div className="viewer-content">
           <div className="viewer-title">{entry.title}</div>
-          <div className="viewer-text">{entry.content}</div>
+          <MarkdownContent
+            className="viewer-text"
+            content={entry.content}
+            renderText={renderContent}
+            renderAttachmentImage={renderAttachmentImage}
+          />
+          {entry.id !== undefined && entry.attachments && entry.attachments.length > 0 && (
+            <div className="viewer-attachments">
+              <AttachmentGallery entryId={entry.id} attachments={entry.attachments} />
+            </div>
+          )}
           {viewMode === 'day' && entry.timeRange === 'day' && entry.hour !== null && entry.hour !== undefined && entry.minute !== null && entry.minute !== undefined && preferences.showAstromonixToolbarButton === true && (
             <div className="entry-astromonix-button-container">
               <button 
@@ -557,32 +666,34 @@ function EntryViewer({
               ))}
             </div>
           )}
-          {linkedEntries.length > 0 && (
+          {entryLinks.outgoing.length > 0 && (
             <div className="viewer-linked-entries">
               <h4>Linked Entries</h4>
               <div className="linked-entries-list">
-                {linkedEntries.map((linkedEntry) => (
-                  <div
-                    key={linkedEntry.id}
-                    className="linked-entry-item"
-                    onClick={() => onEntrySelect(linkedEntry)}
-                  >
-                    <div className="linked-entry-title">{linkedEntry.title}</div>
-                    <div className="linked-entry-meta">
-                      <span className="linked-entry-date">
-                        {formatEntryDate(linkedEntry)}
-                        {formatEntryTime(linkedEntry) && (
-                          <span className="linked-entry-time"> at {formatEntryTime(linkedEntry)}</span>
-                        )}
-                      </span>
-                      <span className="linked-entry-time-range">{getTimeRangeLabel(linkedEntry.timeRange)}</span>
-                    </div>
-                  </div>
-                ))}
+                {entryLinks.outgoing.map(link => renderLinkItem(link, RELATION_LABELS[link.relation]))}
+              </div>
+            </div>
+          )}
+          {entryLinks.incoming.length > 0 && (
+            <div className="viewer-linked-entries viewer-backlinks">
+              <h4>Backlinks</h4>
+              <div className="linked-entries-list">
+                {entryLinks.incoming.map(link => renderLinkItem(link, BACKLINK_LABELS[link.relation]))}
               </div>
             </div>
           )}
         </div>
+        {showHistory && (
+          <EntryHistoryPanel
+            entry={entry}
+            timeFormat={preferences.timeFormat}
+            onClose={() => setShowHistory(false)}
+            onRestored={(restored) => {
+              setShowHistory(false);
+              onEntrySelect(restored);
+            }}
+          />
+        )}
       </div>
     );
   }
@@ -654,7 +765,7 @@ function EntryViewer({
               </>
             ) : (
               <>
-                <p>No {viewMode === 'month' ? 'month or week' : viewMode === 'year' ? 'year, month, or week' : viewMode === 'decade' ? 'decade, year, month, or week' : viewMode} entries for this period.</p>
+                <p>No {viewMode === 'month' ? 'month or week' : viewMode === 'year' ? 'year, month, or week' : viewMode === 'decade' ? 'decade, year, month, or week' : viewMode === 'century' ? 'century or decade' : viewMode === 'millennium' ? 'millennium, century, or decade' : viewMode} entries for this period.</p>
                 <p className="hint">Click "+ New Entry" to create one.</p>
               </>
             )}
@@ -817,6 +928,7 @@ export default memo(EntryViewer, (prevProps, nextProps) => {
     prevProps.entry?.id === nextProps.entry?.id &&
     prevProps.date.getTime() === nextProps.date.getTime() &&
     prevProps.viewMode === nextProps.viewMode &&
+    prevProps.deepTimeYear === nextProps.deepTimeYear &&
     prevProps.weekStartsOn === nextProps.weekStartsOn &&
     prevProps.onEdit === nextProps.onEdit &&
     prevProps.onNewEntry === nextProps.onNewEntry &&
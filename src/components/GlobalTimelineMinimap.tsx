@@ -1,7 +1,7 @@
 import { useMemo, useState, useEffect, useRef, useCallback, memo } from 'react';
 import { createPortal } from 'react-dom';
 import { TimeRange, JournalEntry } from '../types';
-import { getWeekStart, getWeekEnd, getMonthStart, getMonthEnd, getYearEnd, getDecadeEnd, getZodiacColor, getZodiacColorForDecade, getCanonicalDate, parseISODate, createDate, getYearStart, isToday } from '../utils/dateUtils';
+import { getWeekStart, getWeekEnd, getMonthStart, getMonthEnd, getYearEnd, getDecadeEnd, getCenturyStart, getCenturyEnd, getMillenniumStart, getMillenniumEnd, getZodiacColor, getZodiacColorForDecade, getCanonicalDate, parseISODate, createDate, clampToRepresentableYear, addYearsWithinRange, getYearStart, isToday } from '../utils/dateUtils';
 import { addDays, addWeeks, addMonths, addYears, getYear, getMonth, getDate } from 'date-fns';
 import { playMechanicalClick, playMicroBlip, getAudioContext, createSliderNoise, SliderNoise, createMovementFlowSound, MovementFlowSound, playCrystalClickSound } from '../utils/audioUtils';
 import { calculateEntryColor } from '../utils/entryColorUtils';
@@ -94,7 +94,9 @@ function calculateCrystalSides(entry: JournalEntry): number {
   const timeRangeNumerological = entry.timeRange === 'decade' ? 1 :
                                 entry.timeRange === 'year' ? 2 :
                                 entry.timeRange === 'month' ? 3 :
-                                entry.timeRange === 'week' ? 4 : 5;
+                                entry.timeRange === 'week' ? 4 :
+                                entry.timeRange === 'century' ? 6 :
+                                entry.timeRange === 'millennium' ? 7 : 5;
   
   // ID numerological (if exists)
   const idNumerological = entry.id ? numerologicalReduce(entry.id) : 0;
@@ -328,6 +330,8 @@ function getThemeTimeRangeColor(timeRange: TimeRange, theme: string = 'light'):
   if (typeof document === 'undefined' || !document.body) {
     // Fallback to default colors
     const defaults: Record<TimeRange, string> = {
+      millennium: '#3f51b5',
+      century: '#673ab7',
       decade: '#9c27b0',
       year: '#0277bd',
       month: '#ef6c00',
@@ -349,6 +353,8 @@ function getThemeTimeRangeColor(timeRange: TimeRange, theme: string = 'light'):
   
   // Map time range to CSS class name
   const classMap: Record<TimeRange, string> = {
+    millennium: 'entry-millennium',
+    century: 'entry-century',
     decade: 'entry-decade',
     year: 'entry-year',
     month: 'entry-month',
@@ -358,6 +364,8 @@ function getThemeTimeRangeColor(timeRange: TimeRange, theme: string = 'light'):
   
   const className = classMap[timeRange];
   const defaults: Record<TimeRange, string> = {
+    millennium: '#3f51b5',
+    century: '#673ab7',
     decade: '#9c27b0',
     year: '#0277bd',
     month: '#ef6c00',
@@ -446,6 +454,14 @@ function getThemeTimeRangeColor(timeRange: TimeRange, theme: string = 'light'):
   return color;
 }
 
+// Horizontal bands drawn in the minimap, coarsest first
+const MINIMAP_BANDS: TimeRange[] = ['decade', 'year', 'month', 'week', 'day'];
+
+// Century and millennium entries and views share the decade band
+function getMinimapBand(timeRange: TimeRange): TimeRange {
+  return timeRange === 'millennium' || timeRange === 'century' ? 'decade' : timeRange;
+}
+
 function GlobalTimelineMinimap({
   selectedDate,
   viewMode,
@@ -681,6 +697,18 @@ function GlobalTimelineMinimap({
     let endDate: Date;
 
     switch (mode) {
+      case 'millennium': {
+        const currentMillennium = Math.floor(getYear(date) / 1000) * 1000;
+        startDate = createDate(clampToRepresentableYear(currentMillennium - 5000), 0, 1);
+        endDate = createDate(clampToRepresentableYear(currentMillennium + 6000), 11, 31);
+        break;
+      }
+      case 'century': {
+        const currentCentury = Math.floor(getYear(date) / 100) * 100;
+        startDate = createDate(clampToRepresentableYear(currentCentury - 500), 0, 1);
+        endDate = createDate(clampToRepresentableYear(currentCentury + 600), 11, 31);
+        break;
+      }
       case 'decade': {
         const currentDecade = Math.floor(getYear(date) / 10) * 10;
         startDate = createDate(currentDecade - 50, 0, 1);
@@ -766,6 +794,29 @@ function GlobalTimelineMinimap({
     let currentPosition: number = 0;
 
     switch (viewMode) {
+      case 'millennium':
+      case 'century': {
+        // One segment per millennium or century across the fixed range
+        const span = viewMode === 'millennium' ? 1000 : 100;
+        const startSpan = Math.floor(getYear(startDate) / span) * span;
+        const endSpan = Math.floor(getYear(endDate) / span) * span;
+        
+        for (let year = startSpan; year <= endSpan; year += span) {
+          const spanDate = createDate(year, 0, 1);
+          const isCurrent = Math.floor(getYear(selectedDate) / span) * span === year;
+          const calendarYear = formatDate(spanDate, 'YYYY');
+          segments.push({
+            date: spanDate,
+            label: `${calendarYear}s`,
+            isCurrent,
+            viewMode,
+          });
+          if (isCurrent) {
+            currentPosition = segments.length - 1;
+          }
+        }
+        break;
+      }
       case 'decade': {
         // Use the fixed range, but calculate segments from startDate
         const startDecade = Math.floor(getYear(startDate) / 10) * 10;
@@ -900,6 +951,12 @@ function GlobalTimelineMinimap({
     let periodEndDate: Date;
     
     switch (viewMode) {
+      case 'millennium':
+        periodEndDate = getMillenniumEnd(selectedDate);
+        break;
+      case 'century':
+        periodEndDate = getCenturyEnd(selectedDate);
+        break;
       case 'decade':
         periodEndDate = getDecadeEnd(selectedDate);
         break;
@@ -1078,6 +1135,8 @@ function GlobalTimelineMinimap({
     
     // Fallback to default colors if theme color not found or is white/too light
     const defaults: Record<TimeRange, string> = {
+      millennium: '#3f51b5',
+      century: '#673ab7',
       decade: '#9c27b0',
       year: '#0277bd',
       month: '#ef6c00',
@@ -1109,6 +1168,14 @@ function GlobalTimelineMinimap({
   // Get color for the currently selected segment of time based on zodiac colors
   const getSelectedSegmentColor = useMemo(() => {
     switch (viewMode) {
+      case 'millennium': {
+        const millenniumStart = Math.floor(getYear(selectedDate) / 1000) * 1000;
+        return getZodiacColorForDecade(millenniumStart) || '#3f51b5';
+      }
+      case 'century': {
+        const centuryStart = Math.floor(getYear(selectedDate) / 100) * 100;
+        return getZodiacColorForDecade(centuryStart) || '#673ab7';
+      }
       case 'decade': {
         const decadeStart = Math.floor(getYear(selectedDate) / 10) * 10;
         return getZodiacColorForDecade(decadeStart) || '#9c27b0';
@@ -1169,6 +1236,12 @@ function GlobalTimelineMinimap({
     let periodEndDate: Date;
     
     switch (viewMode) {
+      case 'millennium':
+        periodEndDate = getMillenniumEnd(selectedDate);
+        break;
+      case 'century':
+        periodEndDate = getCenturyEnd(selectedDate);
+        break;
       case 'decade':
         periodEndDate = getDecadeEnd(selectedDate);
         break;
@@ -1195,7 +1268,7 @@ function GlobalTimelineMinimap({
       return [];
     }
 
-    const timeScaleOrder: TimeRange[] = ['decade', 'year', 'month', 'week', 'day'];
+    const timeScaleOrder: TimeRange[] = ['millennium', 'century', 'decade', 'year', 'month', 'week', 'day'];
     const currentScaleIndex = timeScaleOrder.indexOf(viewMode);
     
     // Only show micro indicators for finer scales (those after current in the order)
@@ -1214,6 +1287,9 @@ function GlobalTimelineMinimap({
       let finerPeriodEnd: Date;
       
       switch (scale) {
+        case 'century':
+          finerPeriodEnd = getCenturyEnd(selectedDate);
+          break;
         case 'decade':
           finerPeriodEnd = getDecadeEnd(selectedDate);
           break;
@@ -1334,7 +1410,7 @@ function GlobalTimelineMinimap({
   }, [currentIndicatorMetrics.position]);
 
   // Ordered time scales for branch generation
-  const timeScaleOrder: TimeRange[] = ['decade', 'year', 'month', 'week', 'day'];
+  const timeScaleOrder: TimeRange[] = MINIMAP_BANDS;
 
   // Calculate container height and scale factor based on minimap size
   const minimapDimensions = useMemo(() => {
@@ -1366,7 +1442,7 @@ function GlobalTimelineMinimap({
     const focusedSpacing = baseSpacing + focusedExpansion;
     const compressedSpacing = baseSpacing * compressionFactor;
     
-    const focusedIndex = timeScaleOrder.indexOf(viewMode);
+    const focusedIndex = timeScaleOrder.indexOf(getMinimapBand(viewMode));
     const scaled: Record<TimeRange, number> = {} as Record<TimeRange, number>;
     
     let currentY = baseSpacing / 2; // Start at center of first section
@@ -1413,7 +1489,7 @@ function GlobalTimelineMinimap({
       let sectionTop = 0;
       timeScaleOrder.forEach((r, i) => {
         if (i < idx) {
-          const prevIsFocused = r === viewMode;
+          const prevIsFocused = r === getMinimapBand(viewMode);
           const prevBaseHeight = 40 * minimapDimensions.scaleFactor;
           const prevHeight = prevIsFocused 
             ? prevBaseHeight + focusedExpansion 
@@ -1423,7 +1499,7 @@ function GlobalTimelineMinimap({
       });
       
       // Calculate section height
-      const isFocused = range === viewMode;
+      const isFocused = range === getMinimapBand(viewMode);
       const sectionHeight = isFocused 
         ? baseHeight + focusedExpansion 
         : baseHeight * compressionFactor;
@@ -1817,7 +1893,9 @@ function GlobalTimelineMinimap({
     
     // Calculate stroke width based on distance and time range
     const baseStrokeWidth = 0.8 + (1 - normalizedDistance) * 0.4;
-    const timeRangeWeight = entry.timeRange === 'decade' ? 1.5 : 
+    const timeRangeWeight = entry.timeRange === 'millennium' ? 1.9 :
+                           entry.timeRange === 'century' ? 1.7 :
+                           entry.timeRange === 'decade' ? 1.5 : 
                            entry.timeRange === 'year' ? 1.3 :
                            entry.timeRange === 'month' ? 1.1 :
                            entry.timeRange === 'week' ? 0.9 : 0.7;
@@ -2027,7 +2105,7 @@ function GlobalTimelineMinimap({
     // Determine which scales to calculate based on viewMode
     // Always calculate current scale + one level above/below for context
     const scalesToCalculate = new Set<TimeRange>([viewMode]);
-    const scaleIndex = timeScaleOrder.indexOf(viewMode);
+    const scaleIndex = timeScaleOrder.indexOf(getMinimapBand(viewMode));
     if (scaleIndex > 0) scalesToCalculate.add(timeScaleOrder[scaleIndex - 1]); // Add scale above
     if (scaleIndex < timeScaleOrder.length - 1) scalesToCalculate.add(timeScaleOrder[scaleIndex + 1]); // Add scale below
     
@@ -2080,10 +2158,12 @@ function GlobalTimelineMinimap({
     // DECADE SCALE
     const startYear = getYear(startDate);
     const endYear = getYear(endDate);
-    const startDecade = Math.floor(startYear / 10) * 10;
-    const endDecade = Math.ceil(endYear / 10) * 10;
+    // Millennium view spans thousands of years, so its decade band marks centuries instead
+    const decadeStep = viewMode === 'millennium' ? 100 : 10;
+    const startDecade = Math.floor(startYear / decadeStep) * decadeStep;
+    const endDecade = Math.ceil(endYear / decadeStep) * decadeStep;
 
-    for (let decade = startDecade; decade <= endDecade; decade += 10) {
+    for (let decade = startDecade; decade <= endDecade; decade += decadeStep) {
       const decadeDate = createDate(decade, 0, 1);
       if (decadeDate >= startDate && decadeDate <= endDate) {
         // Format using calendar-aware formatting to get proper year representation
@@ -2096,9 +2176,9 @@ function GlobalTimelineMinimap({
       }
     }
 
-    for (let year = startYear; year <= endYear; year += 5) {
+    for (let year = startDecade + decadeStep / 2; year <= endYear; year += decadeStep) {
       const yearDate = createDate(year, 0, 1);
-      if (yearDate >= startDate && yearDate <= endDate && year % 10 !== 0) {
+      if (yearDate >= startDate && yearDate <= endDate) {
         // Format using calendar-aware formatting to get proper year representation
         const calendarYear = formatDate(yearDate, 'YYYY');
         scales.decade.minor.push({
@@ -2111,7 +2191,8 @@ function GlobalTimelineMinimap({
 
     // YEAR SCALE
     // For decades view, limit year markings to every 5 years to reduce DOM elements
-    const yearStep = viewMode === 'decade' ? 5 : 1;
+    // (every decade or century in the wider views)
+    const yearStep = viewMode === 'millennium' ? 100 : viewMode === 'century' ? 10 : viewMode === 'decade' ? 5 : 1;
     for (let year = startYear; year <= endYear; year += yearStep) {
       const yearDate = createDate(year, 0, 1);
       if (yearDate >= startDate && yearDate <= endDate) {
@@ -2165,7 +2246,8 @@ function GlobalTimelineMinimap({
     // MONTH SCALE - Always calculate month major labels (MMM YYYY) to span full minimap
     // Use adaptive spacing based on viewMode to optimize performance
     // Decade view: every 6 months (bi-annually: Jan, Jul), Year view: every 3 months (quarterly: Jan, Apr, Jul, Oct), Month view: all months
-    const monthSpacing = viewMode === 'decade' ? 6 : viewMode === 'year' ? 3 : 1;
+    // Century and millennium views: one mark per year or per decade
+    const monthSpacing = viewMode === 'millennium' ? 120 : viewMode === 'century' ? 12 : viewMode === 'decade' ? 6 : viewMode === 'year' ? 3 : 1;
     const monthMajorSet = new Set<number>();
     current = new Date(startDate);
     // Reset to the first day of the month for accurate month calculations
@@ -2338,7 +2420,7 @@ function GlobalTimelineMinimap({
     const heights: Record<TimeRange, number> = {} as Record<TimeRange, number>;
     
     timeScaleOrder.forEach((range) => {
-      const isFocused = range === viewMode;
+      const isFocused = range === getMinimapBand(viewMode);
       heights[range] = isFocused 
         ? baseHeight + focusedExpansion 
         : baseHeight * compressionFactor;
@@ -2435,7 +2517,7 @@ function GlobalTimelineMinimap({
     // Calculate adaptive vertical variance based on section height
     // Use 80% of section height to ensure crystals don't overlap boundaries
     const getVerticalVariance = (timeRange: TimeRange): number => {
-      const sectionHeight = sectionHeights[timeRange];
+      const sectionHeight = sectionHeights[getMinimapBand(timeRange)];
       const maxVariance = Math.max(8, (sectionHeight * 0.8) / 2); // At least 8px, but adapt to section
       return maxVariance;
     };
@@ -2453,7 +2535,7 @@ function GlobalTimelineMinimap({
     // OPTIMIZATION: For large time ranges, pre-filter by viewport to reduce processing
     // Calculate approximate viewport range early to skip entries far from viewport
     // Use throttled position to avoid recalculating on every drag movement
-    const viewportMargin = viewMode === 'decade' ? 0.20 : // 20% margin for decade (more generous for early filtering)
+    const viewportMargin = getMinimapBand(viewMode) === 'decade' ? 0.20 : // 20% margin for decade (more generous for early filtering)
                           viewMode === 'year' ? 0.25 :    // 25% margin for year
                           0.35;                           // 35% margin for smaller views
     const approximateViewportStart = throttledIndicatorPositionRef.current - (viewportMargin * 100);
@@ -2479,7 +2561,7 @@ function GlobalTimelineMinimap({
       
       // OPTIMIZATION: For decade/year view, also check if year is near viewport
       // This dramatically reduces entries processed for large time ranges
-      if (viewMode === 'decade' || viewMode === 'year') {
+      if (getMinimapBand(viewMode) === 'decade' || viewMode === 'year') {
         // If year is far from viewport, skip it (with some margin for entries that span years)
         if (yearEnd < viewportStartTime - (365 * 24 * 60 * 60 * 1000) || 
             yearStart > viewportEndTime + (365 * 24 * 60 * 60 * 1000)) {
@@ -2498,7 +2580,7 @@ function GlobalTimelineMinimap({
     
     // OPTIMIZATION: For very large entry sets, limit processing
     // This prevents processing thousands of entries when only a few hundred are visible
-    const maxEntriesToProcess = viewMode === 'decade' ? 500 :
+    const maxEntriesToProcess = getMinimapBand(viewMode) === 'decade' ? 500 :
                                viewMode === 'year' ? 1000 :
                                2000; // month/week/day can handle more
     
@@ -2626,7 +2708,7 @@ function GlobalTimelineMinimap({
     clusterGroups.forEach((group) => {
       // Get the timeRange for this group (all entries in a cluster have the same timeRange)
       const groupTimeRange = group[0].entry.timeRange;
-      const sectionHeight = sectionHeights[groupTimeRange];
+      const sectionHeight = sectionHeights[getMinimapBand(groupTimeRange)];
       const verticalVariance = getVerticalVariance(groupTimeRange);
       
       if (group.length === 1) {
@@ -2842,7 +2924,7 @@ function GlobalTimelineMinimap({
 
     // Calculate viewport range based on current indicator position
     // Use smaller margins for larger time ranges to reduce processing
-    const viewportMargin = viewMode === 'decade' ? 10 : 
+    const viewportMargin = getMinimapBand(viewMode) === 'decade' ? 10 : 
                           viewMode === 'year' ? 15 : 
                           20; // Smaller margin for decade/year view
     const visibleStartPercent = Math.max(0, currentIndicatorMetrics.position - viewportMargin);
@@ -2854,7 +2936,7 @@ function GlobalTimelineMinimap({
     );
     
     // For decade view with many entries, limit the number rendered
-    if (viewMode === 'decade' && filtered.length > 200) {
+    if (getMinimapBand(viewMode) === 'decade' && filtered.length > 200) {
       // Sort by distance from center and take closest entries
       const center = currentIndicatorMetrics.position;
       return filtered
@@ -2896,7 +2978,7 @@ function GlobalTimelineMinimap({
   const focusWebNode = useMemo(() => {
     // Focus node is at the center indicator position, at the current viewMode's Y position
     const focusX = centerX;
-    const focusY = scaleYPositions[viewMode];
+    const focusY = scaleYPositions[getMinimapBand(viewMode)];
     return { x: focusX, y: focusY, scale: viewMode, level: 0, isFocus: true };
   }, [centerX, scaleYPositions, viewMode]);
 
@@ -2911,7 +2993,7 @@ function GlobalTimelineMinimap({
     // Decades view gets more aggressive LOD due to large time range
     let lodLevel: 'high' | 'medium' | 'low' | 'minimal' | 'ultraMinimal';
     const entryCount = entryPositions.length;
-    const isDecadesView = viewMode === 'decade';
+    const isDecadesView = getMinimapBand(viewMode) === 'decade';
     
     if (entryCount <= LOD_THRESHOLDS.high) {
       lodLevel = 'high';
@@ -2935,7 +3017,7 @@ function GlobalTimelineMinimap({
 
     // Viewport culling: only process entries within visible range plus margin
     // Decades view uses smaller margin (10%) since 20% of 110 years = 22 years
-    const viewportMargin = viewMode === 'decade' ? 10 : 20; // percentage margin for pre-rendering
+    const viewportMargin = getMinimapBand(viewMode) === 'decade' ? 10 : 20; // percentage margin for pre-rendering
     const visibleStart = Math.max(0, currentIndicatorMetrics.position - viewportMargin);
     const visibleEnd = Math.min(100, currentIndicatorMetrics.position + viewportMargin);
 
@@ -2960,7 +3042,7 @@ function GlobalTimelineMinimap({
       
       // Convert to SVG coordinates to check viewport bounds
       const entryX = (position / 100) * 1000;
-      const baseYPosition = scaleYPositions[entry.timeRange];
+      const baseYPosition = scaleYPositions[getMinimapBand(entry.timeRange)];
       const entryY = baseYPosition + verticalOffset;
       
       // Validate coordinates before checking viewport
@@ -2998,7 +3080,7 @@ function GlobalTimelineMinimap({
       // entryX = (position / 100) * 1000 (SVG viewBox width)
       // This ensures the connection ends at the exact center of the crystal
       const entryX = (position / 100) * 1000;
-      const baseYPosition = scaleYPositions[entry.timeRange];
+      const baseYPosition = scaleYPositions[getMinimapBand(entry.timeRange)];
       // entryY should match the center of the entry indicator
       // The indicator uses top: ${yPositionPercent}% with transform: translate3d(-50%, -50%, 0)
       // where yPositionPercent = (baseYPosition / minimapDimensions.height) * 100
@@ -3014,7 +3096,7 @@ function GlobalTimelineMinimap({
 
       // Find nearest web nodes with distance calculation
       // Optimize for decades view: only consider nodes within reasonable distance
-      const maxNodeDistance = viewMode === 'decade' ? 500 : Infinity; // Limit search radius for decades
+      const maxNodeDistance = getMinimapBand(viewMode) === 'decade' ? 500 : Infinity; // Limit search radius for decades
       const nodeDistances = webNodes
         .map(node => {
           const distance = Math.sqrt(Math.pow(entryX - node.x, 2) + Math.pow(entryY - node.y, 2));
@@ -3041,7 +3123,7 @@ function GlobalTimelineMinimap({
           return; // Skip if web node has invalid coordinates
         }
         
-        const levelIndex = timeScaleOrder.indexOf(entry.timeRange);
+        const levelIndex = timeScaleOrder.indexOf(getMinimapBand(entry.timeRange));
         
         // Entry position is already validated in visibleEntries filter, but double-check
         // to ensure we're using current positions
@@ -3096,7 +3178,7 @@ function GlobalTimelineMinimap({
           return; // Skip if web node has invalid coordinates
         }
         
-        const levelIndex = timeScaleOrder.indexOf(entry.timeRange);
+        const levelIndex = timeScaleOrder.indexOf(getMinimapBand(entry.timeRange));
         const secondaryStrategy = strategies[(strategyHash + 1) % strategies.length];
         
         // Entry position is already validated, but ensure we're using current positions
@@ -3144,7 +3226,7 @@ function GlobalTimelineMinimap({
           return; // Skip if web node has invalid coordinates
         }
         
-        const levelIndex = timeScaleOrder.indexOf(entry.timeRange);
+        const levelIndex = timeScaleOrder.indexOf(getMinimapBand(entry.timeRange));
         const tertiaryStrategy = strategies[(strategyHash + 2) % strategies.length];
         
         // Entry position is already validated, but ensure we're using current positions
@@ -3182,7 +3264,7 @@ function GlobalTimelineMinimap({
           return; // Skip if focus web node has invalid coordinates
         }
         
-        const levelIndex = timeScaleOrder.indexOf(entry.timeRange);
+        const levelIndex = timeScaleOrder.indexOf(getMinimapBand(entry.timeRange));
         const focusStrategy = strategies[(strategyHash + 3) % strategies.length];
         const connection = buildConnectionPath(
           focusWebNode.x,
@@ -3216,14 +3298,14 @@ function GlobalTimelineMinimap({
     // Entry-to-entry connections - connect memories to each other
     // Only for visible entries and within localized distance
     // Disable for minimal/ultraMinimal LOD and decades view to improve performance
-    if ((lodLevel === 'high' || lodLevel === 'medium') && viewMode !== 'decade') {
+    if ((lodLevel === 'high' || lodLevel === 'medium') && getMinimapBand(viewMode) !== 'decade') {
       const maxEntryConnections = lodLevel === 'high' ? 30 : 15; // Limit entry-to-entry connections
       let entryConnectionCount = 0;
       
       for (let i = 0; i < visibleEntries.length && entryConnectionCount < maxEntryConnections && connections.length < maxConnectionsPerFrame; i++) {
         const sourceEntry = visibleEntries[i];
         const sourceX = (sourceEntry.position / 100) * 1000;
-        const sourceBaseY = scaleYPositions[sourceEntry.entry.timeRange];
+        const sourceBaseY = scaleYPositions[getMinimapBand(sourceEntry.entry.timeRange)];
         const sourceY = sourceBaseY + sourceEntry.verticalOffset;
         
         // Validate source coordinates
@@ -3242,7 +3324,7 @@ function GlobalTimelineMinimap({
         for (let j = i + 1; j < visibleEntries.length; j++) {
           const targetEntry = visibleEntries[j];
           const targetX = (targetEntry.position / 100) * 1000;
-          const targetBaseY = scaleYPositions[targetEntry.entry.timeRange];
+          const targetBaseY = scaleYPositions[getMinimapBand(targetEntry.entry.timeRange)];
           const targetY = targetBaseY + targetEntry.verticalOffset;
           
           // Validate target coordinates
@@ -3279,8 +3361,8 @@ function GlobalTimelineMinimap({
           const strategies: ConnectionStrategy[] = ['direct', 'curved', 'hierarchical', 'web', 'spiral', 'organic'];
           const entryStrategy = strategies[combinedHash % strategies.length];
           const levelIndex = Math.max(
-            timeScaleOrder.indexOf(sourceEntry.entry.timeRange),
-            timeScaleOrder.indexOf(target.entry.timeRange)
+            timeScaleOrder.indexOf(getMinimapBand(sourceEntry.entry.timeRange)),
+            timeScaleOrder.indexOf(getMinimapBand(target.entry.timeRange))
           );
           
           // Create entry-to-entry connection
@@ -3460,6 +3542,16 @@ function GlobalTimelineMinimap({
     let periodEnd: Date;
     
     switch (currentViewMode) {
+      case 'millennium': {
+        periodStart = getMillenniumStart(currentDate);
+        periodEnd = getMillenniumEnd(currentDate);
+        break;
+      }
+      case 'century': {
+        periodStart = getCenturyStart(currentDate);
+        periodEnd = getCenturyEnd(currentDate);
+        break;
+      }
       case 'decade': {
         const decadeStart = Math.floor(getYear(currentDate) / 10) * 10;
         periodStart = createDate(decadeStart, 0, 1);
@@ -3536,6 +3628,21 @@ function GlobalTimelineMinimap({
     // 3. Add time tier boundaries for the target view mode
     // Generate boundaries within the current period
     switch (targetViewMode) {
+      case 'century':
+      case 'decade': {
+        // Add century or decade starts within the current period
+        const span = targetViewMode === 'century' ? 100 : 10;
+        const endYear = getYear(periodEnd);
+        for (let year = Math.ceil(getYear(periodStart) / span) * span; year <= endYear; year += span) {
+          const spanStart = createDate(year, 0, 1);
+          candidates.push({
+            date: spanStart,
+            priority: 1,
+            distance: Math.abs(spanStart.getTime() - currentTime)
+          });
+        }
+        break;
+      }
       case 'year': {
         // Add year starts within the current period
         const startYear = getYear(periodStart);
@@ -3764,6 +3871,12 @@ function GlobalTimelineMinimap({
         let newDate: Date;
 
         switch (currentViewMode) {
+          case 'millennium':
+            newDate = addYearsWithinRange(currentSelectedDate, direction * 1000);
+            break;
+          case 'century':
+            newDate = addYearsWithinRange(currentSelectedDate, direction * 100);
+            break;
           case 'decade':
             newDate = addYears(currentSelectedDate, direction * 10);
             break;
@@ -3791,7 +3904,7 @@ function GlobalTimelineMinimap({
         currentOnTimePeriodSelect(newDate, currentViewMode);
       } else if (isUp || isDown) {
         // Change time scale (zoom in/out)
-        const scaleOrder: TimeRange[] = ['decade', 'year', 'month', 'week', 'day'];
+        const scaleOrder: TimeRange[] = ['millennium', 'century', 'decade', 'year', 'month', 'week', 'day'];
         const currentIndex = scaleOrder.indexOf(currentViewMode);
 
         if (isUp && currentIndex < scaleOrder.length - 1) {
@@ -3927,7 +4040,7 @@ function GlobalTimelineMinimap({
     // Only play sound if view mode actually changed
     if (lastKeyboardViewModeRef.current && lastKeyboardViewModeRef.current !== viewMode) {
       // Determine direction by comparing old and new view modes
-      const scaleOrder: TimeRange[] = ['decade', 'year', 'month', 'week', 'day'];
+      const scaleOrder: TimeRange[] = ['millennium', 'century', 'decade', 'year', 'month', 'week', 'day'];
       const oldIndex = scaleOrder.indexOf(lastKeyboardViewModeRef.current);
       const newIndex = scaleOrder.indexOf(viewMode);
       
@@ -3982,6 +4095,16 @@ function GlobalTimelineMinimap({
       const currentOnTimePeriodSelect = onTimePeriodSelectRef.current;
       
       switch (currentViewMode) {
+        case 'millennium': {
+          // Scroll by about 1 decade per scroll step
+          newDate = addYearsWithinRange(currentSelectedDate, scrollDays > 0 ? 10 : -10);
+          break;
+        }
+        case 'century': {
+          // Scroll by about 2 years per scroll step
+          newDate = addYearsWithinRange(currentSelectedDate, scrollDays > 0 ? 2 : -2);
+          break;
+        }
         case 'decade': {
           // Scroll by about 1 year per scroll step
           const yearsToScroll = Math.max(1, Math.round(Math.abs(scrollDays) / 365));
@@ -4136,7 +4259,7 @@ function GlobalTimelineMinimap({
     verticalMovementAccumulatorRef.current += verticalDelta;
     
     // Check if we're at a limit (can't zoom in/out further) and trying to move beyond it
-    const scaleOrder: TimeRange[] = ['decade', 'year', 'month', 'week', 'day'];
+    const scaleOrder: TimeRange[] = ['millennium', 'century', 'decade', 'year', 'month', 'week', 'day'];
     const currentIndex = scaleOrder.indexOf(currentViewMode);
     const absAccumulator = Math.abs(verticalMovementAccumulatorRef.current);
     
@@ -4552,6 +4675,20 @@ function GlobalTimelineMinimap({
   // Get context-aware labels for radial dial
   const getRadialDialLabels = () => {
     switch (viewMode) {
+      case 'millennium':
+        return {
+          left: 'Earlier Millennia',
+          right: 'Later Millennia',
+          up: 'Zoom In: Century',
+          down: 'Zoom Out: (Max)',
+        };
+      case 'century':
+        return {
+          left: 'Earlier Centuries',
+          right: 'Later Centuries',
+          up: 'Zoom In: Decade',
+          down: 'Zoom Out: Millennium',
+        };
       case 'decade':
         return {
           left: 'Earlier Decades',
@@ -4600,7 +4737,7 @@ function GlobalTimelineMinimap({
   // Performance optimization: Calculate optimized month labels with distance-based prioritization
   const optimizedMonthLabels = useMemo(() => {
     // Don't show month labels in decade view to prevent clustering and resource usage
-    if (viewMode === 'decade') {
+    if (getMinimapBand(viewMode) === 'decade') {
       return [];
     }
     
@@ -4991,7 +5128,7 @@ function GlobalTimelineMinimap({
           
           {/* Background bands for each time section - expand when focused */}
           {timeScaleOrder.map((range, idx) => {
-            const isFocused = range === viewMode;
+            const isFocused = range === getMinimapBand(viewMode);
             const baseHeight = 40 * minimapDimensions.scaleFactor;
             const focusedHeight = baseHeight + (25 * minimapDimensions.scaleFactor);
             const compressedHeight = baseHeight * 0.75;
@@ -5001,7 +5138,7 @@ function GlobalTimelineMinimap({
             let sectionTop = 0;
             timeScaleOrder.forEach((r, i) => {
               if (i < idx) {
-                const prevIsFocused = r === viewMode;
+                const prevIsFocused = r === getMinimapBand(viewMode);
                 const prevBaseHeight = 40 * minimapDimensions.scaleFactor;
                 const prevHeight = prevIsFocused ? prevBaseHeight + (25 * minimapDimensions.scaleFactor) : prevBaseHeight * 0.75;
                 sectionTop += prevHeight;
@@ -5048,8 +5185,7 @@ function GlobalTimelineMinimap({
             // Determine if this separator corresponds to the currently selected time tier
             // Separator idx corresponds to the separator below the tier at that index
             // For 'day' (last tier), use the last separator
-            const timeScaleOrder: TimeRange[] = ['decade', 'year', 'month', 'week', 'day'];
-            const currentScaleIndex = timeScaleOrder.indexOf(viewMode);
+            const currentScaleIndex = MINIMAP_BANDS.indexOf(getMinimapBand(viewMode));
             const isCurrentTierSeparator = idx === Math.min(currentScaleIndex, separatorPositions.length - 1);
             
             // Full opacity for current tier separator, faded for others
@@ -5090,7 +5226,7 @@ function GlobalTimelineMinimap({
           {/* Fractaline crystalline web "infinity tree" branches for each time scale */}
           <g className="infinity-tree">
             {timeScaleOrder.map((scale) => {
-              const isActiveScale = scale === viewMode;
+              const isActiveScale = scale === getMinimapBand(viewMode);
               const levelIndex = timeScaleOrder.indexOf(scale);
               // Make active tier more pronounced but still subtle
               const baseOpacity = isActiveScale ? 0.4 : 0.15; // Much more subtle
@@ -5173,7 +5309,7 @@ function GlobalTimelineMinimap({
                     .map(({ entry, position, verticalOffset }, entryIdx) => {
                       // Calculate entry position in SVG coordinates
                       const entryX = (position / 100) * 1000;
-                      const baseYPosition = scaleYPositions[entry.timeRange];
+                      const baseYPosition = scaleYPositions[getMinimapBand(entry.timeRange)];
                       const entryY = baseYPosition + (verticalOffset || 0);
                       
                       // Determine which side the entry is on
@@ -5406,7 +5542,7 @@ function GlobalTimelineMinimap({
             .filter(mark => Math.abs(mark.position - currentIndicatorMetrics.position) <= LOCALIZATION_RANGE)
             .map((mark, idx) => {
             const x = Math.round((mark.position / 100) * 1000) + 0.5;
-            const isCurrentScale = viewMode === 'decade';
+            const isCurrentScale = getMinimapBand(viewMode) === 'decade';
             const scaleColor = isCurrentScale ? softenColor(getViewModeColor('decade'), 0.5, 0.3) : '#666';
             return (
               <line
@@ -5426,7 +5562,7 @@ function GlobalTimelineMinimap({
             .filter(mark => Math.abs(mark.position - currentIndicatorMetrics.position) <= LOCALIZATION_RANGE)
             .map((mark, idx) => {
             const x = Math.round((mark.position / 100) * 1000) + 0.5;
-            const isCurrentScale = viewMode === 'decade';
+            const isCurrentScale = getMinimapBand(viewMode) === 'decade';
             const scaleColor = isCurrentScale ? softenColor(getViewModeColor('decade'), 0.6, 0.4) : '#888';
             return (
               <line
@@ -5704,7 +5840,7 @@ function GlobalTimelineMinimap({
               return (
                 <div
                   key={decadeUniqueKey}
-                  className={`scale-label decade-label ${viewMode === 'decade' ? 'current-scale' : ''}`}
+                  className={`scale-label decade-label ${getMinimapBand(viewMode) === 'decade' ? 'current-scale' : ''}`}
                   style={decadeLabelStyle}
                   data-position={labelPosition}
                   data-label={mark.label}
@@ -5786,7 +5922,7 @@ function GlobalTimelineMinimap({
           {allScaleMarkings.year.minor
             .filter(mark => {
               // Don't show month labels in decade view to prevent clustering
-              if (viewMode === 'decade') return false;
+              if (getMinimapBand(viewMode) === 'decade') return false;
               // Ensure we have a valid label and a valid numeric position
               if (!mark.label) return false;
               if (!mark.date) return false;
@@ -6143,7 +6279,7 @@ function GlobalTimelineMinimap({
             
             // Position entry based on its timeRange - convert SVG Y coordinate to percentage
             // Position entry based on its timeRange - scaleYPositions are scaled based on minimap size
-            const baseYPosition = scaleYPositions[entry.timeRange];
+            const baseYPosition = scaleYPositions[getMinimapBand(entry.timeRange)];
             const yPositionPercent = (baseYPosition / minimapDimensions.height) * 100;
             
             return (
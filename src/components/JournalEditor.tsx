@@ -1,15 +1,31 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { JournalEntry, TimeRange, Preferences } from '../types';
-import { formatDate, getCanonicalDate, isToday } from '../utils/dateUtils';
-import { getEntryForDate, saveJournalEntry, deleteJournalEntry } from '../services/journalService';
+import { JournalEntry, TimeRange, Preferences, EntryTemplate, EntryAttachment } from '../types';
+import { formatDate, getCanonicalDate, isToday, getYearSpanStart, isYearTimeRange } from '../utils/dateUtils';
+import { getEntryForDate, getEntryForYear, saveJournalEntry, deleteJournalEntry } from '../services/journalService';
 import { playSaveSound, playCancelSound, playDeleteSound, playAddSound, playRemoveSound, playTimeInputSound, playTimeFieldFocusSound, playTimeIncrementSound, playTabSound, playTypingSound } from '../utils/audioUtils';
 import { useCalendar } from '../contexts/CalendarContext';
-import { getTimeRangeLabelInCalendar } from '../utils/calendars/timeRangeConverter';
+import { getTimeRangeLabelInCalendar, getYearTierLabel } from '../utils/calendars/timeRangeConverter';
+import { usesNativePeriods, getCalendarPeriodBounds, NativePeriodRange } from '../utils/calendars/calendarPeriods';
+import { jdnToISODateString, formatISODateParts } from '../utils/calendars/julianDayUtils';
+import { expandTemplatePlaceholders } from '../utils/templatePlaceholders';
+import EntryLinkPicker, { EntryLinkDraft } from './EntryLinkPicker';
+import MarkdownContent from './MarkdownContent';
+import AttachmentGallery from './AttachmentGallery';
+import AttachmentImage from './AttachmentImage';
 import './JournalEditor.css';
 
+type MarkdownMode = NonNullable<Preferences['editorMarkdownMode']>;
+
+const MARKDOWN_MODES: Array<{ mode: MarkdownMode; label: string }> = [
+  { mode: 'write', label: 'Write' },
+  { mode: 'split', label: 'Split' },
+  { mode: 'preview', label: 'Preview' },
+];
+
 interface JournalEditorProps {
   date: Date;
   viewMode: TimeRange;
+  deepTimeYear?: number | null; // Year shown instead of date beyond the range of Date
   selectedEntry?: JournalEntry | null;
   isNewEntry?: boolean;
   onEntrySaved?: () => void;
@@ -20,6 +36,7 @@ interface JournalEditorProps {
 export default function JournalEditor({
   date,
   viewMode,
+  deepTimeYear = null,
   selectedEntry: propSelectedEntry,
   isNewEntry = false,
   onEntrySaved,
@@ -46,16 +63,52 @@ export default function JournalEditor({
   const [originalSecond, setOriginalSecond] = useState<number | undefined>(undefined);
   const [preferences, setPreferences] = useState<Preferences>({});
   const [amPm, setAmPm] = useState<'AM' | 'PM'>('AM');
+  const [templates, setTemplates] = useState<EntryTemplate[]>([]);
+  const [links, setLinks] = useState<EntryLinkDraft[]>([]);
+  const [originalLinks, setOriginalLinks] = useState<EntryLinkDraft[]>([]);
+  const [markdownMode, setMarkdownMode] = useState<MarkdownMode>('write');
   const titleInputRef = useRef<HTMLInputElement>(null);
+  const contentInputRef = useRef<HTMLTextAreaElement>(null);
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isSavingRef = useRef<boolean>(false);
 
+  // Load templates for the new-entry template picker
+  useEffect(() => {
+    if (!isNewEntry || !window.electronAPI) return;
+    window.electronAPI.getAllTemplates()
+      .then(setTemplates)
+      .catch(error => console.error('[JournalEditor] Error loading templates:', error));
+  }, [isNewEntry]);
+
+  // Load the outgoing links of the entry being edited
+  useEffect(() => {
+    const entryId = currentEntry?.id;
+    if (!entryId || !window.electronAPI) {
+      setLinks([]);
+      setOriginalLinks([]);
+      return;
+    }
+    let cancelled = false;
+    window.electronAPI.getEntryLinks(entryId)
+      .then(({ outgoing }) => {
+        if (cancelled) return;
+        const loaded = outgoing.map(link => ({ targetId: link.targetId, relation: link.relation, entry: link.entry }));
+        setLinks(loaded);
+        setOriginalLinks(loaded);
+      })
+      .catch(error => console.error('[JournalEditor] Error loading entry links:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentEntry?.id]);
+
   // Load preferences for time format
   useEffect(() => {
     const loadPreferences = async () => {
       if (window.electronAPI) {
         const prefs = await window.electronAPI.getAllPreferences();
         setPreferences(prefs);
+        setMarkdownMode(prefs.editorMarkdownMode || 'write');
       }
     };
     loadPreferences();
@@ -231,12 +284,14 @@ export default function JournalEditor({
       loadEntry();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [date, viewMode, propSelectedEntry, isNewEntry, preferences.timeFormat]);
+  }, [date, viewMode, deepTimeYear, propSelectedEntry, isNewEntry, preferences.timeFormat]);
 
   const loadEntry = async () => {
     setLoading(true);
     try {
-      const existingEntry = await getEntryForDate(date, viewMode);
+      const existingEntry = deepTimeYear !== null && isYearTimeRange(viewMode)
+        ? await getEntryForYear(deepTimeYear, viewMode)
+        : await getEntryForDate(date, viewMode, calendar);
       setCurrentEntry(existingEntry);
       if (existingEntry) {
         setTitle(existingEntry.title);
@@ -327,6 +382,9 @@ export default function JournalEditor({
   };
 
   const getDefaultTitle = useCallback((): string => {
+    if (deepTimeYear !== null && isYearTimeRange(viewMode)) {
+      return getYearTierLabel(deepTimeYear, viewMode, 'gregorian');
+    }
     // Use calendar-aware formatting
     try {
       return getTimeRangeLabelInCalendar(date, viewMode, calendar);
@@ -334,6 +392,12 @@ export default function JournalEditor({
       console.error('Error formatting date in calendar:', e);
       // Fallback to Gregorian formatting
       switch (viewMode) {
+        case 'millennium':
+          const millenniumStart = Math.floor(date.getFullYear() / 1000) * 1000;
+          return `${millenniumStart}–${millenniumStart + 999}`;
+        case 'century':
+          const centuryStart = Math.floor(date.getFullYear() / 100) * 100;
+          return `${centuryStart}–${centuryStart + 99}`;
         case 'decade':
           const decadeStart = Math.floor(date.getFullYear() / 10) * 10;
           return `${decadeStart}s`;
@@ -349,8 +413,89 @@ export default function JournalEditor({
           return formatDate(date, 'MMMM d, yyyy');
       }
     }
-  }, [date, viewMode, calendar]);
+  }, [date, viewMode, deepTimeYear, calendar]);
+
+
+  // Template placeholders are expanded from a Date, so templates aren't offered beyond its range
+  const availableTemplates = deepTimeYear !== null
+    ? []
+    : templates.filter(template => !template.timeRange || template.timeRange === viewMode);
+
+  const handleApplyTemplate = (templateId: string) => {
+    const template = availableTemplates.find(t => String(t.id) === templateId);
+    if (!template) return;
+    if ((title.trim() || content.trim()) && !confirm(`Replace the current title and text with the "${template.name}" template?`)) {
+      return;
+    }
+    const context = { date: getCanonicalDate(date, viewMode), timeRange: viewMode };
+    setTitle(expandTemplatePlaceholders(template.title || '', context));
+    setContent(expandTemplatePlaceholders(template.content, context));
+    setTags(prev => Array.from(new Set([...prev, ...(template.tags || [])])));
+    playAddSound();
+  };
+
+  // Attachments are stored right away, so they need a saved entry
+  const handleAddAttachment = async () => {
+    if (!currentEntry?.id || !window.electronAPI) return;
+    try {
+      const result = await window.electronAPI.addEntryAttachment(currentEntry.id);
+      if (result.success && result.attachment) {
+        const attachment = result.attachment;
+        setCurrentEntry(prev => prev && { ...prev, attachments: [...(prev.attachments || []), attachment] });
+        playAddSound();
+      } else if (!result.canceled) {
+        alert(result.message || 'Could not attach the file.');
+      }
+    } catch (error) {
+      console.error('[JournalEditor] Error adding attachment:', error);
+      alert('Could not attach the file.');
+    }
+  };
+
+  const handleRemoveAttachment = async (attachment: EntryAttachment) => {
+    if (!currentEntry?.id || !window.electronAPI) return;
+    if (!confirm(`Remove "${attachment.fileName}" from this entry? The file will be deleted unless another entry uses it.`)) return;
+    try {
+      const result = await window.electronAPI.removeEntryAttachment(currentEntry.id, attachment.id);
+      if (!result.success) {
+        alert(result.message || 'Could not remove the attachment.');
+        return;
+      }
+      setCurrentEntry(prev => prev && { ...prev, attachments: (prev.attachments || []).filter(a => a.id !== attachment.id) });
+      playRemoveSound();
+    } catch (error) {
+      console.error('[JournalEditor] Error removing attachment:', error);
+    }
+  };
+
+  // Insert ![name](attachment:<id>) at the cursor (or at the end while previewing)
+  const handleInsertAttachment = (attachment: EntryAttachment) => {
+    const embed = `![${attachment.fileName.replace(/[[\]]/g, '')}](attachment:${attachment.id})`;
+    const textarea = contentInputRef.current;
+    const start = textarea ? textarea.selectionStart : content.length;
+    const end = textarea ? textarea.selectionEnd : content.length;
+    setContent(content.slice(0, start) + embed + content.slice(end));
+    requestAnimationFrame(() => {
+      if (textarea) {
+        textarea.focus();
+        textarea.selectionStart = textarea.selectionEnd = start + embed.length;
+      }
+    });
+  };
+
+  const renderAttachmentImage = (attachmentId: string, alt: string) => {
+    const attachment = currentEntry?.attachments?.find(a => a.id === attachmentId);
+    if (!currentEntry?.id || !attachment) {
+      return <span className="markdown-image-placeholder">{alt || 'Missing attachment'}</span>;
+    }
+    return <AttachmentImage entryId={currentEntry.id} attachment={attachment} size="large" alt={alt} />;
+  };
 
+  // The chosen mode is remembered for the next entry
+  const handleMarkdownModeChange = (mode: MarkdownMode) => {
+    setMarkdownMode(mode);
+    window.electronAPI?.setPreference('editorMarkdownMode', mode).catch(console.error);
+  };
 
   const handleSave = async () => {
     // CRITICAL: Prevent multiple simultaneous saves using ref (synchronous check)
@@ -406,11 +551,26 @@ export default function JournalEditor({
       // Otherwise, calculate canonical date from current date/viewMode for new entries
       let entryDate: string;
       let entryTimeRange: TimeRange;
+      let entryCalendar: string | undefined;
+      let entryPeriodEnd: string | undefined;
       
       if (currentEntry?.id) {
         // Preserve original date and timeRange when editing existing entry
         entryDate = currentEntry.date;
         entryTimeRange = currentEntry.timeRange;
+        entryCalendar = currentEntry.calendar;
+        entryPeriodEnd = currentEntry.periodEnd;
+      } else if (deepTimeYear !== null && isYearTimeRange(viewMode)) {
+        // Beyond the range of Date the entry starts on the first day of its span
+        entryDate = formatISODateParts(getYearSpanStart(deepTimeYear, viewMode), 1, 1);
+        entryTimeRange = viewMode;
+      } else if (usesNativePeriods(calendar, viewMode)) {
+        // Decades/years/months of the active calendar (e.g. a Hebrew month) keep their own bounds
+        const bounds = getCalendarPeriodBounds(date, viewMode as NativePeriodRange, calendar);
+        entryDate = jdnToISODateString(bounds.startJDN);
+        entryTimeRange = viewMode;
+        entryCalendar = calendar;
+        entryPeriodEnd = jdnToISODateString(bounds.endJDN);
       } else {
         // Calculate canonical date for new entries
         const canonicalDate = getCanonicalDate(date, viewMode);
@@ -460,11 +620,14 @@ export default function JournalEditor({
         tags: tags || [],
         createdAt: currentEntry?.createdAt || new Date().toISOString(),
         updatedAt: new Date().toISOString(),
+        linkedEntries: Array.from(new Set(links.map(link => link.targetId))),
+        links: links.map(({ targetId, relation }) => ({ targetId, relation })),
         // Preserve other fields
-        linkedEntries: currentEntry?.linkedEntries || [],
         archived: currentEntry?.archived || false,
         pinned: currentEntry?.pinned || false,
         attachments: currentEntry?.attachments || [],
+        calendar: entryCalendar,
+        periodEnd: entryPeriodEnd,
       };
       
       // VERBOSE LOGGING - Time processing
@@ -497,6 +660,8 @@ export default function JournalEditor({
       });
       
       console.log('[JournalEditor] 🔄 Calling saveJournalEntry IPC...');
+      // #tags written in the content are added to the tags on save
+      let savedTags = tags;
       try {
         const savedEntry = await saveJournalEntry(entry);
         console.log('[JournalEditor] ✅ saveJournalEntry IPC call COMPLETED successfully');
@@ -513,6 +678,7 @@ export default function JournalEditor({
         // CRITICAL: Use the saved entry with ID (for new entries, ID will now be populated)
         console.log('[JournalEditor] 📝 Saved entry ID:', savedEntry.id);
         setCurrentEntry(savedEntry);
+        savedTags = savedEntry.tags || tags;
       } catch (saveError) {
         console.error('[JournalEditor] ❌❌❌ ERROR saving entry:', saveError);
         throw saveError;
@@ -530,6 +696,7 @@ export default function JournalEditor({
         setTitle('');
         setContent('');
         setTags([]);
+        setLinks([]);
         setHour(undefined);
         setMinute(undefined);
         setSecond(undefined);
@@ -545,7 +712,9 @@ export default function JournalEditor({
         // Update original values to match saved entry
         setOriginalTitle(title);
         setOriginalContent(content);
-        setOriginalTags([...tags]);
+        setTags(savedTags);
+        setOriginalTags([...savedTags]);
+        setOriginalLinks(links);
         const currentHour24 = hour !== undefined && hour !== null ? convertTo24Hour(hour, amPm) : undefined;
         setOriginalHour(currentHour24);
         setOriginalMinute(minute);
@@ -649,13 +818,15 @@ export default function JournalEditor({
     const titleChanged = title.trim() !== originalTitle.trim();
     const contentChanged = content.trim() !== originalContent.trim();
     const tagsChanged = JSON.stringify(tags.sort()) !== JSON.stringify(originalTags.sort());
+    const linkKeys = (list: EntryLinkDraft[]) => list.map(link => `${link.targetId}:${link.relation}`).sort().join(',');
+    const linksChanged = linkKeys(links) !== linkKeys(originalLinks);
     // Compare in 24-hour format for change detection
     const currentHour24 = hour !== undefined && hour !== null ? convertTo24Hour(hour, amPm) : undefined;
     const hourChanged = currentHour24 !== originalHour;
     const minuteChanged = minute !== originalMinute;
     const secondChanged = second !== originalSecond;
-    return titleChanged || contentChanged || tagsChanged || hourChanged || minuteChanged || secondChanged;
-  }, [title, content, tags, hour, minute, second, amPm, originalTitle, originalContent, originalTags, originalHour, originalMinute, originalSecond]);
+    return titleChanged || contentChanged || tagsChanged || linksChanged || hourChanged || minuteChanged || secondChanged;
+  }, [title, content, tags, links, hour, minute, second, amPm, originalTitle, originalContent, originalTags, originalLinks, originalHour, originalMinute, originalSecond]);
 
   // Notify parent when unsaved changes status changes
   useEffect(() => {
@@ -663,7 +834,7 @@ export default function JournalEditor({
       const hasChanges = hasUnsavedChanges();
       onUnsavedChangesChange(hasChanges);
     }
-  }, [title, content, tags, hour, minute, second, amPm, originalTitle, originalContent, originalTags, originalHour, originalMinute, originalSecond, onUnsavedChangesChange, hasUnsavedChanges]);
+  }, [title, content, tags, links, hour, minute, second, amPm, originalTitle, originalContent, originalTags, originalLinks, originalHour, originalMinute, originalSecond, onUnsavedChangesChange, hasUnsavedChanges]);
 
   // Handle cancel with confirmation if needed
   const handleCancel = useCallback(() => {
@@ -778,6 +949,9 @@ export default function JournalEditor({
   };
 
   const getDateLabel = () => {
+    if (deepTimeYear !== null && isYearTimeRange(viewMode)) {
+      return getYearTierLabel(deepTimeYear, viewMode, 'gregorian');
+    }
     // Use calendar-aware formatting
     try {
       return getTimeRangeLabelInCalendar(date, viewMode, calendar);
@@ -785,6 +959,12 @@ export default function JournalEditor({
       console.error('Error formatting date in calendar:', e);
       // Fallback to Gregorian formatting
       switch (viewMode) {
+        case 'millennium':
+          const millenniumStart = Math.floor(date.getFullYear() / 1000) * 1000;
+          return `${millenniumStart}–${millenniumStart + 999}`;
+        case 'century':
+          const centuryStart = Math.floor(date.getFullYear() / 100) * 100;
+          return `${centuryStart}–${centuryStart + 99}`;
         case 'decade':
           const decadeStart = Math.floor(date.getFullYear() / 10) * 10;
           return `${decadeStart}s`;
@@ -993,6 +1173,22 @@ export default function JournalEditor({
           </div>
         )}
         
+        {isNewEntry && !currentEntry && availableTemplates.length > 0 && (
+          <div className="template-picker">
+            <label htmlFor="template-picker-select">Start from a template</label>
+            <select
+              id="template-picker-select"
+              value=""
+              onChange={(e) => handleApplyTemplate(e.target.value)}
+            >
+              <option value="">Choose a template…</option>
+              {availableTemplates.map(template => (
+                <option key={template.id} value={String(template.id)}>{template.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <input
           ref={titleInputRef}
           type="text"
@@ -1006,16 +1202,39 @@ export default function JournalEditor({
           onKeyDown={handleKeyPress}
         />
         
-        <textarea
-          className="content-input"
-          placeholder={`Write your ${viewMode} journal entry here...`}
-          value={content}
-          onChange={(e) => {
-            setContent(e.target.value);
-            // Typing sound is handled in onKeyDown for better key context
-          }}
-          onKeyDown={handleKeyPress}
-        />
+        <div className="content-mode-bar">
+          {MARKDOWN_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              type="button"
+              className={`content-mode-button ${markdownMode === mode ? 'active' : ''}`}
+              onClick={() => handleMarkdownModeChange(mode)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className={`content-area content-area-${markdownMode}`}>
+          {markdownMode !== 'preview' && (
+            <textarea
+              ref={contentInputRef}
+              className="content-input"
+              placeholder={`Write your ${viewMode} journal entry here...`}
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value);
+                // Typing sound is handled in onKeyDown for better key context
+              }}
+              onKeyDown={handleKeyPress}
+            />
+          )}
+          {markdownMode !== 'write' && (
+            content.trim()
+              ? <MarkdownContent className="content-preview" content={content} renderAttachmentImage={renderAttachmentImage} />
+              : <div className="content-preview content-preview-empty">Nothing to preview yet</div>
+          )}
+        </div>
         
         <div className="tags-section">
           <div className="tags-input-container">
@@ -1063,6 +1282,26 @@ export default function JournalEditor({
             ))}
           </div>
         </div>
+
+        <div className="links-section">
+          <EntryLinkPicker links={links} currentEntryId={currentEntry?.id} onChange={setLinks} />
+        </div>
+
+        {currentEntry?.id !== undefined && (
+          <div className="attachments-section">
+            {currentEntry.attachments && currentEntry.attachments.length > 0 && (
+              <AttachmentGallery
+                entryId={currentEntry.id}
+                attachments={currentEntry.attachments}
+                onInsert={handleInsertAttachment}
+                onRemove={handleRemoveAttachment}
+              />
+            )}
+            <button type="button" className="attach-file-button" onClick={handleAddAttachment}>
+              Attach File…
+            </button>
+          </div>
+        )}
       </div>
       
       <div className="editor-footer">
@@ -1,12 +1,18 @@
-import { useState, useEffect, useMemo } from 'react';
-import { JournalEntry, TimeRange } from '../types';
-import { deleteJournalEntry } from '../services/journalService';
-import { formatDate, parseISODate } from '../utils/dateUtils';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { JournalEntry, TimeRange, Preferences, SavedSearch, BulkEntryOperation, EntrySearchResult, SearchSortField } from '../types';
+import {
+  getSavedSearches,
+  getSavedSearchCounts,
+  deleteSavedSearch,
+  searchJournalEntriesByQuery,
+} from '../services/journalService';
+import { formatDate, parseISODate, formatTime } from '../utils/dateUtils';
 import { playNewEntrySound } from '../utils/audioUtils';
 import { useCalendar } from '../contexts/CalendarContext';
 import { useEntries } from '../contexts/EntriesContext';
 import { getTimeRangeLabelInCalendar } from '../utils/calendars/timeRangeConverter';
 import { filterEntriesForRange } from '../utils/entryFilterUtils';
+import BulkActionsBar from './BulkActionsBar';
 import './JournalList.css';
 
 interface JournalListProps {
@@ -27,24 +33,93 @@ export default function JournalList({
   const [filteredEntries, setFilteredEntries] = useState<JournalEntry[]>([]);
   const [selectedEntryId, setSelectedEntryId] = useState<number | undefined>();
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [sortBy, setSortBy] = useState<'date' | 'title' | 'timeRange'>('date');
+  const [sortBy, setSortBy] = useState<SearchSortField>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [bulkEditMode, setBulkEditMode] = useState(false);
   const [selectedEntryIds, setSelectedEntryIds] = useState<Set<number>>(new Set());
   const [preferences, setPreferences] = useState<Preferences>({});
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [savedSearchCounts, setSavedSearchCounts] = useState<Record<number, number>>({});
+  const [activeCollection, setActiveCollection] = useState<SavedSearch | null>(null);
+  const [collectionResults, setCollectionResults] = useState<EntrySearchResult[]>([]);
 
   // OPTIMIZATION: Filter entries from global context instead of querying database
-  const entries = useMemo(() => {
-    return filterEntriesForRange(allEntries, viewMode, selectedDate);
-  }, [allEntries, viewMode, selectedDate]);
+  const rangeEntries = useMemo(() => {
+    return filterEntriesForRange(allEntries, viewMode, selectedDate, 0, calendar);
+  }, [allEntries, viewMode, selectedDate, calendar]);
+
+  // A selected smart collection replaces the entries for the selected date
+  const collectionEntries = useMemo(() => collectionResults.map(result => result.entry), [collectionResults]);
+  const entries = activeCollection ? collectionEntries : rangeEntries;
+
+  // Search rank of each collection entry; relevance only applies when the query ranked them
+  const collectionRanks = useMemo(() => {
+    if (!collectionResults.some(result => result.rank !== 0)) {
+      return null;
+    }
+    return new Map(collectionResults.map(result => [result.entry.id, result.rank]));
+  }, [collectionResults]);
 
   useEffect(() => {
     setSelectedEntryId(undefined);
     // Clear bulk selection when changing date/view
     setSelectedEntryIds(new Set());
     setBulkEditMode(false);
+    setActiveCollection(null);
   }, [selectedDate, viewMode]);
 
+  // Load saved searches (smart collections) with their live match counts
+  const loadSavedSearches = useCallback(async () => {
+    if (!window.electronAPI) return;
+    try {
+      const [searches, counts] = await Promise.all([getSavedSearches(), getSavedSearchCounts()]);
+      setSavedSearches(searches);
+      setSavedSearchCounts(counts);
+    } catch (error) {
+      console.error('Error loading saved searches:', error);
+    }
+  }, []);
+
+  // Counts follow the entries: saves, trash, restore, bulk edits and imports all reload them
+  useEffect(() => {
+    loadSavedSearches();
+  }, [loadSavedSearches, allEntries]);
+
+  useEffect(() => {
+    window.addEventListener('journalEntryTrashed', loadSavedSearches);
+    window.addEventListener('savedSearchesChanged', loadSavedSearches);
+    return () => {
+      window.removeEventListener('journalEntryTrashed', loadSavedSearches);
+      window.removeEventListener('savedSearchesChanged', loadSavedSearches);
+    };
+  }, [loadSavedSearches]);
+
+  // Re-run the active smart collection whenever entries change
+  useEffect(() => {
+    if (!activeCollection) {
+      setCollectionResults([]);
+      // Relevance only exists for a collection
+      setSortBy(current => current === 'relevance' ? 'date' : current);
+      return;
+    }
+    let cancelled = false;
+    searchJournalEntriesByQuery(activeCollection.query, activeCollection.filters)
+      .then(response => {
+        if (!cancelled) {
+          setCollectionResults(response.results);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading smart collection:', error);
+        if (!cancelled) {
+          setCollectionResults([]);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeCollection, allEntries]);
+
   // Load preferences for time format
   useEffect(() => {
     const loadPreferences = async () => {
@@ -69,11 +144,18 @@ export default function JournalList({
       );
     }
 
+    // Relevance is only available for a smart collection whose query ranked its entries
+    const effectiveSort = sortBy === 'relevance' && (!activeCollection || !collectionRanks) ? 'date' : sortBy;
+
     // Sort entries
     filtered.sort((a, b) => {
       let comparison = 0;
       
-      switch (sortBy) {
+      switch (effectiveSort) {
+        case 'relevance':
+          // bm25: lower rank is a better match; "desc" shows best matches first
+          comparison = (collectionRanks?.get(b.id) ?? 0) - (collectionRanks?.get(a.id) ?? 0);
+          break;
         case 'date':
           comparison = a.date.localeCompare(b.date);
           // If dates are equal, sort by time if available (especially for day entries)
@@ -114,6 +196,8 @@ export default function JournalList({
           break;
         case 'timeRange':
           const timeRangeOrder: Record<TimeRange, number> = {
+            millennium: -2,
+            century: -1,
             decade: 0,
             year: 1,
             month: 2,
@@ -128,13 +212,15 @@ export default function JournalList({
     });
 
     setFilteredEntries(filtered);
-  }, [entries, selectedTags, sortBy, sortOrder]);
+  }, [entries, selectedTags, sortBy, sortOrder, activeCollection, collectionRanks]);
 
   // Memoize entries with IDs for bulk edit operations
   const filteredEntriesWithIds = useMemo(() => {
     return filteredEntries.filter(entry => entry.id !== undefined);
   }, [filteredEntries]);
 
+  const selectedIdList = useMemo(() => Array.from(selectedEntryIds), [selectedEntryIds]);
+
   const handleEntryClick = (entry: JournalEntry, event?: React.MouseEvent) => {
     // In bulk edit mode, clicking should toggle selection instead of selecting the entry
     if (bulkEditMode) {
@@ -170,38 +256,18 @@ export default function JournalList({
     }
   };
 
-  const handleBulkDelete = async () => {
-    if (selectedEntryIds.size === 0) return;
-    
-    const confirmMessage = `Are you sure you want to delete ${selectedEntryIds.size} ${selectedEntryIds.size === 1 ? 'entry' : 'entries'}? This action cannot be undone.`;
-    if (!window.confirm(confirmMessage)) {
-      return;
-    }
-
-    try {
-      // Delete all selected entries
-      const deletePromises = Array.from(selectedEntryIds).map(id => 
-        deleteJournalEntry(id)
-      );
-      await Promise.all(deletePromises);
-      
-      // Clear selection and exit bulk edit mode
+  // Entries that were deleted, archived or moved usually leave the list, so start a new selection
+  const handleBulkApplied = (operation: BulkEntryOperation) => {
+    if (operation.type === 'trash' || operation.type === 'archive' || operation.type === 'move') {
       setSelectedEntryIds(new Set());
       setBulkEditMode(false);
-      
-      // Reload entries
-      loadEntries();
-      
-      // Trigger refresh event
-      window.dispatchEvent(new CustomEvent('journalEntrySaved'));
-    } catch (error) {
-      console.error('Error deleting entries:', error);
-      alert(`Failed to delete entries: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
   const getTimeRangeLabel = (timeRange: TimeRange): string => {
     switch (timeRange) {
+      case 'millennium': return 'Millennium';
+      case 'century': return 'Century';
       case 'decade': return 'Decade';
       case 'year': return 'Year';
       case 'month': return 'Month';
@@ -226,6 +292,14 @@ export default function JournalList({
       console.error('Error formatting entry date in calendar:', e);
       // Fallback to Gregorian formatting
       switch (entry.timeRange) {
+        case 'millennium':
+          const millenniumStart = Math.floor(entryDate.getFullYear() / 1000) * 1000;
+          dateStr = `${millenniumStart}–${millenniumStart + 999}`;
+          break;
+        case 'century':
+          const centuryStart = Math.floor(entryDate.getFullYear() / 100) * 100;
+          dateStr = `${centuryStart}–${centuryStart + 99}`;
+          break;
         case 'decade':
           const decadeStart = Math.floor(entryDate.getFullYear() / 10) * 10;
           dateStr = `${decadeStart}s`;
@@ -277,13 +351,43 @@ export default function JournalList({
     setSelectedTags([]);
   };
 
+  const handleCollectionToggle = (search: SavedSearch) => {
+    if (activeCollection?.id === search.id) {
+      setActiveCollection(null);
+    } else {
+      // Show the collection in the order it was saved with
+      setActiveCollection(search);
+      setSortBy(search.sortBy);
+      setSortOrder(search.sortOrder);
+    }
+    setSelectedTags([]);
+    setSelectedEntryIds(new Set());
+    setBulkEditMode(false);
+  };
+
+  const handleCollectionDelete = async (search: SavedSearch, event: React.MouseEvent) => {
+    event.stopPropagation();
+    if (search.id === undefined || !window.confirm(`Delete the smart collection "${search.name}"?`)) {
+      return;
+    }
+    try {
+      await deleteSavedSearch(search.id);
+      if (activeCollection?.id === search.id) {
+        setActiveCollection(null);
+      }
+      loadSavedSearches();
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+    }
+  };
+
   // Loading is handled at app level via EntriesContext
   // Entries are preloaded, so no need for component-level loading state
 
   return (
     <div className="journal-list">
       <div className="journal-list-header">
-        <h3>Journal Entries</h3>
+        <h3>{activeCollection ? activeCollection.name : 'Journal Entries'}</h3>
         <div className="journal-list-header-actions">
           {entries.length > 0 && (
             <button 
@@ -307,26 +411,47 @@ export default function JournalList({
           </button>
         </div>
       </div>
+      {savedSearches.length > 0 && (
+        <div className="journal-list-collections">
+          <label>Smart collections:</label>
+          <div className="journal-list-collection-items">
+            {savedSearches.map(search => (
+              <button
+                key={search.id}
+                className={`journal-list-collection ${activeCollection?.id === search.id ? 'active' : ''}`}
+                onClick={() => handleCollectionToggle(search)}
+                title={search.query || 'Filters only'}
+              >
+                <span className="journal-list-collection-name">{search.name}</span>
+                <span className="journal-list-collection-count">{savedSearchCounts[search.id!] ?? 0}</span>
+                <span
+                  className="journal-list-collection-delete"
+                  onClick={(e) => handleCollectionDelete(search, e)}
+                  title="Delete smart collection"
+                >
+                  ×
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
       <div className="journal-list-content">
         {entries.length === 0 ? (
-          <div className="journal-list-empty">
-            <p>No journal entries for this {getTimeRangeLabel(viewMode).toLowerCase()}.</p>
-            <p className="hint">Click "New Entry" to create one.</p>
-          </div>
+          activeCollection ? (
+            <div className="journal-list-empty">
+              <p>No entries match this smart collection.</p>
+            </div>
+          ) : (
+            <div className="journal-list-empty">
+              <p>No journal entries for this {getTimeRangeLabel(viewMode).toLowerCase()}.</p>
+              <p className="hint">Click "New Entry" to create one.</p>
+            </div>
+          )
         ) : (
           <>
-            {bulkEditMode && selectedEntryIds.size > 0 && (
-              <div className="bulk-edit-actions">
-                <span className="bulk-edit-selected-count">
-                  {selectedEntryIds.size} {selectedEntryIds.size === 1 ? 'entry' : 'entries'} selected
-                </span>
-                <button 
-                  className="bulk-delete-button"
-                  onClick={handleBulkDelete}
-                >
-                  Delete Selected
-                </button>
-              </div>
+            {bulkEditMode && (
+              <BulkActionsBar selectedIds={selectedIdList} onApplied={handleBulkApplied} />
             )}
             {(allTags.length > 0 || entries.length > 1) && !bulkEditMode && (
               <div className="journal-list-controls">
@@ -354,7 +479,8 @@ export default function JournalList({
                 {entries.length > 1 && (
                   <div className="journal-list-sort">
                     <label>Sort by:</label>
-                    <select value={sortBy} onChange={(e) => setSortBy(e.target.value as 'date' | 'title' | 'timeRange')}>
+                    <select value={sortBy} onChange={(e) => setSortBy(e.target.value as SearchSortField)}>
+                      {activeCollection && <option value="relevance">Relevance</option>}
                       <option value="date">Date</option>
                       <option value="title">Title</option>
                       <option value="timeRange">Time Range</option>
@@ -426,11 +552,11 @@ export default function JournalList({
                 </div>
               </div>
             ))}
-          </div>
+              </div>
+            )}
+          </>
         )}
       </div>
     </div>
   );
 }
-
-
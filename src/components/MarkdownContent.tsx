@@ -0,0 +1,130 @@
+import { Fragment, ReactNode, useMemo, MouseEvent } from 'react';
+import { parseMarkdown, getAttachmentId, describeImage, MarkdownBlock, MarkdownInline } from '../../electron/utils/markdown';
+import './MarkdownContent.css';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+  // Renders plain text runs, e.g. to turn [[references]] and #tags into buttons
+  renderText?: (text: string) => ReactNode;
+  // Renders ![alt](attachment:<id>) images; without it they show as a placeholder
+  renderAttachmentImage?: (attachmentId: string, alt: string) => ReactNode;
+}
+
+// Elements are built from the parsed tree, never from HTML, so content cannot inject markup
+export default function MarkdownContent({ content, className, renderText, renderAttachmentImage }: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  const openLink = (e: MouseEvent<HTMLAnchorElement>, href: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    window.electronAPI?.openExternalBrowser(href).catch(console.error);
+  };
+
+  const renderInline = (nodes: MarkdownInline[]): ReactNode[] => nodes.map((node, idx) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={idx}>{renderText ? renderText(node.text) : node.text}</Fragment>;
+      case 'code':
+        return <code key={idx}>{node.text}</code>;
+      case 'break':
+        return <br key={idx} />;
+      case 'strong':
+        return <strong key={idx}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={idx}>{renderInline(node.children)}</em>;
+      case 'strikethrough':
+        return <del key={idx}>{renderInline(node.children)}</del>;
+      case 'image': {
+        const attachmentId = getAttachmentId(node.src);
+        if (attachmentId && renderAttachmentImage) {
+          return <Fragment key={idx}>{renderAttachmentImage(attachmentId, node.alt)}</Fragment>;
+        }
+        // Remote images are not loaded, so reading an entry never contacts other servers
+        if (!attachmentId) {
+          return (
+            <a key={idx} href={node.src} title={node.src} onClick={(e) => openLink(e, node.src)}>
+              {describeImage(node.alt)}
+            </a>
+          );
+        }
+        return <span key={idx} className="markdown-image-placeholder">{describeImage(node.alt)}</span>;
+      }
+      case 'link':
+        return (
+          <a key={idx} href={node.href} title={node.href} onClick={(e) => openLink(e, node.href)}>
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+  const renderBlocks = (items: MarkdownBlock[]): ReactNode[] => items.map((block, idx) => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = `h${block.level}` as 'h1';
+        return <Heading key={idx}>{renderInline(block.children)}</Heading>;
+      }
+      case 'paragraph':
+        return <p key={idx}>{renderInline(block.children)}</p>;
+      case 'code':
+        return (
+          <pre key={idx} data-language={block.language}>
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'blockquote':
+        return <blockquote key={idx}>{renderBlocks(block.children)}</blockquote>;
+      case 'rule':
+        return <hr key={idx} />;
+      case 'list': {
+        const isTaskList = block.items.some(item => item.checked !== undefined);
+        const listItems = block.items.map((item, itemIdx) => {
+          // A leading paragraph is shown inline so simple lists stay compact
+          const [first, ...rest] = item.children;
+          const body = first && first.type === 'paragraph'
+            ? [<Fragment key="text">{renderInline(first.children)}</Fragment>, ...renderBlocks(rest)]
+            : renderBlocks(item.children);
+          return (
+            <li key={itemIdx} className={item.checked !== undefined ? 'markdown-task' : undefined}>
+              {item.checked !== undefined && <input type="checkbox" checked={item.checked} disabled readOnly />}
+              {body}
+            </li>
+          );
+        });
+        return block.ordered ? (
+          <ol key={idx} start={block.start !== 1 ? block.start : undefined} className={isTaskList ? 'markdown-task-list' : undefined}>
+            {listItems}
+          </ol>
+        ) : (
+          <ul key={idx} className={isTaskList ? 'markdown-task-list' : undefined}>{listItems}</ul>
+        );
+      }
+      case 'table':
+        return (
+          <div key={idx} className="markdown-table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th key={column} style={{ textAlign: block.align[column] || undefined }}>{renderInline(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIdx) => (
+                  <tr key={rowIdx}>
+                    {row.map((cell, column) => (
+                      <td key={column} style={{ textAlign: block.align[column] || undefined }}>{renderInline(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  });
+
+  return <div className={`markdown-content ${className || ''}`}>{renderBlocks(blocks)}</div>;
+}
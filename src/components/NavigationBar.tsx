@@ -3,10 +3,10 @@ import { TimeRange } from '../types';
 import { format, addMonths, addYears, addWeeks, addDays, differenceInDays, differenceInMonths, differenceInYears } from 'date-fns';
 import { playNavigationSound, playModeSelectionSound, playSettingsSound, playTabSound, playDateSubmitSound, playNavigationJourneySound, playTierNavigationSound, playEraSwitchSound, playNumberTypingSound, playTierSelectionSound } from '../utils/audioUtils';
 import { useCalendar } from '../contexts/CalendarContext';
-import { CalendarSystem, CALENDAR_INFO } from '../utils/calendars/types';
-import { getTimeRangeLabelInCalendar } from '../utils/calendars/timeRangeConverter';
+import { CalendarSystem, CalendarDate, CALENDAR_INFO } from '../utils/calendars/types';
+import { getTimeRangeLabelInCalendar, getYearTierLabel } from '../utils/calendars/timeRangeConverter';
 import { CALENDAR_DESCRIPTIONS } from '../utils/calendars/calendarDescriptions';
-import { createDate } from '../utils/dateUtils';
+import { createDate, addYearsWithinRange, isRepresentableYear, isYearTimeRange, YearTimeRange, YEAR_TIME_RANGE_SPANS } from '../utils/dateUtils';
 import { getDateEntryConfig } from '../utils/calendars/dateEntryConfig';
 import { calendarDateToDate } from '../utils/calendars/calendarConverter';
 import { isWindowTransitioning } from '../utils/windowStateTracker';
@@ -18,8 +18,11 @@ interface NavigationBarProps {
   onViewModeChange: (mode: TimeRange) => void;
   selectedDate: Date;
   onDateChange: (date: Date) => void;
+  deepTimeYear?: number | null;
+  onDeepTimeYearChange?: (year: number, viewMode: YearTimeRange) => void;
   onOpenPreferences?: () => void;
   onOpenSearch?: () => void;
+  onOpenTrash?: () => void;
 }
 
 export default function NavigationBar({
@@ -27,8 +30,11 @@ export default function NavigationBar({
   onViewModeChange,
   selectedDate,
   onDateChange,
+  deepTimeYear = null,
+  onDeepTimeYearChange,
   onOpenPreferences,
   onOpenSearch,
+  onOpenTrash,
 }: NavigationBarProps) {
   const { calendar, setCalendar, dateToCalendar } = useCalendar();
   const [isDefinitionExpanded, setIsDefinitionExpanded] = useState(false);
@@ -190,6 +196,22 @@ export default function NavigationBar({
   // Don't auto-populate fields from selectedDate changes
   // Fields will only be populated during explicit navigation movements
 
+  /**
+   * Step a year-based tier by a number of years. Past the range of Date the bar hands over to
+   * year-number navigation and null is returned; otherwise the Date to show is returned.
+   */
+  const moveByYears = (range: YearTimeRange, years: number): Date | null => {
+    const year = (deepTimeYear ?? selectedDate.getFullYear()) + years;
+    if (!onDeepTimeYearChange || (deepTimeYear === null && isRepresentableYear(year))) {
+      return addYearsWithinRange(selectedDate, years);
+    }
+    if (isRepresentableYear(year)) {
+      return createDate(year, 0, 1);
+    }
+    onDeepTimeYearChange(year, range);
+    return null;
+  };
+
   const navigate = (direction: 'prev' | 'next', shiftPressed: boolean = false) => {
     // Play tier-aware navigation sound with direction and shift distinction
     playTierNavigationSound(viewMode, direction, shiftPressed);
@@ -200,12 +222,17 @@ export default function NavigationBar({
     const shiftMultiplier = shiftPressed ? 3 : 1;
 
     switch (viewMode) {
+      case 'millennium':
+      case 'century':
       case 'decade':
-        newDate = addYears(selectedDate, multiplier * 10 * shiftMultiplier);
-        break;
-      case 'year':
-        newDate = addYears(selectedDate, multiplier * shiftMultiplier);
+      case 'year': {
+        const yearDate = moveByYears(viewMode, multiplier * YEAR_TIME_RANGE_SPANS[viewMode] * shiftMultiplier);
+        if (!yearDate) {
+          return;
+        }
+        newDate = yearDate;
         break;
+      }
       case 'month':
         newDate = addMonths(selectedDate, multiplier * shiftMultiplier);
         break;
@@ -233,6 +260,10 @@ export default function NavigationBar({
   };
 
   const getDateLabel = () => {
+    // Deep-time years are labelled from the year number; calendar conversion needs a Date
+    if (deepTimeYear !== null && isYearTimeRange(viewMode)) {
+      return getYearTierLabel(deepTimeYear, viewMode, 'gregorian');
+    }
     // Use calendar-aware formatting
     try {
       return getTimeRangeLabelInCalendar(selectedDate, viewMode, calendar);
@@ -240,6 +271,12 @@ export default function NavigationBar({
       console.error('Error formatting date in calendar:', e);
       // Fallback to Gregorian formatting if calendar conversion fails
       switch (viewMode) {
+        case 'millennium':
+          const millenniumStart = Math.floor(selectedDate.getFullYear() / 1000) * 1000;
+          return `${millenniumStart}–${millenniumStart + 999}`;
+        case 'century':
+          const centuryStart = Math.floor(selectedDate.getFullYear() / 100) * 100;
+          return `${centuryStart}–${centuryStart + 99}`;
         case 'decade':
           const decadeStart = Math.floor(selectedDate.getFullYear() / 10) * 10;
           return `${decadeStart}s`;
@@ -294,42 +331,49 @@ export default function NavigationBar({
     }
   };
 
-  // Parse date from dynamic fields using calendar-specific parser
-  const parseDateFromFields = (values: string[]): Date | null => {
+  // Parse a calendar date from dynamic fields using calendar-specific parser
+  const parseCalendarDateFromFields = (values: string[]): CalendarDate | null => {
     // Use calendar-specific parser
     const parsed = dateEntryConfig.parseDate(values);
     if (!parsed) {
       return null;
     }
 
-    // Convert calendar date to JavaScript Date
-    try {
-      // Handle BCE/CE era toggle for calendars that use BCE/CE terminology
-      let year = parsed.year;
-      if (usesBCE_CE) {
-        const isYearField = dateEntryConfig.fields[0]?.label.toLowerCase().includes('year') ||
-                           dateEntryConfig.fields[0]?.label.toLowerCase().includes('cycle') ||
-                           dateEntryConfig.fields[0]?.label.toLowerCase().includes('haab') ||
-                           dateEntryConfig.fields[0]?.label.toLowerCase().includes('baktun') ||
-                           dateEntryConfig.fields[0]?.label.toLowerCase().includes('váḥid') ||
-                           dateEntryConfig.fields[0]?.label.toLowerCase().includes('xiuhmolpilli');
+    // Handle BCE/CE era toggle for calendars that use BCE/CE terminology
+    let year = parsed.year;
+    if (usesBCE_CE) {
+      const isYearField = dateEntryConfig.fields[0]?.label.toLowerCase().includes('year') ||
+                         dateEntryConfig.fields[0]?.label.toLowerCase().includes('cycle') ||
+                         dateEntryConfig.fields[0]?.label.toLowerCase().includes('haab') ||
+                         dateEntryConfig.fields[0]?.label.toLowerCase().includes('baktun') ||
+                         dateEntryConfig.fields[0]?.label.toLowerCase().includes('váḥid') ||
+                         dateEntryConfig.fields[0]?.label.toLowerCase().includes('xiuhmolpilli');
         
-        if (isYearField) {
-          // If era mode is BCE and year is positive, make it negative
-          if (eraMode === 'BCE' && year > 0) {
-            year = -year;
-          }
-          // If year is already negative (user typed -), respect that regardless of era mode
-          // This allows users to type negative years directly
+      if (isYearField) {
+        // If era mode is BCE and year is positive, make it negative
+        if (eraMode === 'BCE' && year > 0) {
+          year = -year;
         }
+        // If year is already negative (user typed -), respect that regardless of era mode
+        // This allows users to type negative years directly
       }
+    }
       
-      const calendarDate = {
-        year: year,
-        month: parsed.month,
-        day: parsed.day,
-        calendar: calendar
-      };
+    return {
+      year: year,
+      month: parsed.month,
+      day: parsed.day,
+      calendar: calendar
+    };
+  };
+
+  // Parse date from dynamic fields and convert it to a JavaScript Date
+  const parseDateFromFields = (values: string[]): Date | null => {
+    const calendarDate = parseCalendarDateFromFields(values);
+    if (!calendarDate) {
+      return null;
+    }
+    try {
       return calendarDateToDate(calendarDate);
     } catch (e) {
       return null;
@@ -586,7 +630,7 @@ export default function NavigationBar({
       
       if (totalDays > 365000) { // > 1000 years
         checkpointInterval = 182500; // ~500 years between checkpoints
-        viewModeForCheckpoints = 'decade';
+        viewModeForCheckpoints = 'century';
       } else if (totalDays > 36500) { // > 100 years
         checkpointInterval = 18250; // ~50 years between checkpoints
         viewModeForCheckpoints = 'decade';
@@ -871,6 +915,8 @@ export default function NavigationBar({
         // Calculate dynamic delay based on progress and view mode
         // Faster at start (momentum), slower near end (precision)
         const baseDelays: Record<TimeRange, number> = {
+          millennium: 16,
+          century: 14,
           decade: 12,
           year: 10,
           month: 6,
@@ -924,6 +970,16 @@ export default function NavigationBar({
       return;
     }
 
+    // Gregorian years beyond the range of Date open that year by year number
+    const calendarDate = parseCalendarDateFromFields(dateInputValues);
+    if (calendarDate && calendar === 'gregorian' && !isRepresentableYear(calendarDate.year) && onDeepTimeYearChange) {
+      setDateInputValues(new Array(dateEntryConfig.fields.length).fill(''));
+      setDateInputError(false);
+      inputRefs.current.forEach(ref => ref?.blur());
+      onDeepTimeYearChange(calendarDate.year, 'year');
+      return;
+    }
+
     const parsedDate = parseDateFromFields(dateInputValues);
     if (parsedDate) {
       // Clear inputs and blur
@@ -1379,12 +1435,17 @@ export default function NavigationBar({
         const shiftMultiplier = shiftPressed ? 3 : 1;
 
         switch (currentViewMode) {
+          case 'millennium':
+          case 'century':
           case 'decade':
-            newDate = addYears(currentSelectedDate, multiplier * 10 * shiftMultiplier);
-            break;
-          case 'year':
-            newDate = addYears(currentSelectedDate, multiplier * shiftMultiplier);
+          case 'year': {
+            const yearDate = moveByYears(currentViewMode, multiplier * YEAR_TIME_RANGE_SPANS[currentViewMode] * shiftMultiplier);
+            if (!yearDate) {
+              return;
+            }
+            newDate = yearDate;
             break;
+          }
           case 'month':
             newDate = addMonths(currentSelectedDate, multiplier * shiftMultiplier);
             break;
@@ -1417,7 +1478,7 @@ export default function NavigationBar({
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [viewMode, selectedDate, onDateChange]); // Include dependencies for keyboard navigation
+  }, [viewMode, selectedDate, onDateChange, deepTimeYear, onDeepTimeYearChange]); // Include dependencies for keyboard navigation
 
   return (
     <div className="navigation-bar">
@@ -1580,6 +1641,24 @@ export default function NavigationBar({
         </div>
         <div className="right-controls">
           <div className="view-mode-selector">
+            <button
+              className={`view-mode-button ${viewMode === 'millennium' ? 'active' : ''}`}
+              onClick={() => {
+                playTierSelectionSound('millennium');
+                onViewModeChange('millennium');
+              }}
+            >
+              {getTierName(calendar, 'millennium')}
+            </button>
+            <button
+              className={`view-mode-button ${viewMode === 'century' ? 'active' : ''}`}
+              onClick={() => {
+                playTierSelectionSound('century');
+                onViewModeChange('century');
+              }}
+            >
+              {getTierName(calendar, 'century')}
+            </button>
             <button
               className={`view-mode-button ${viewMode === 'decade' ? 'active' : ''}`}
               onClick={() => {
@@ -1600,6 +1679,7 @@ export default function NavigationBar({
             </button>
             <button
               className={`view-mode-button ${viewMode === 'month' ? 'active' : ''}`}
+              disabled={deepTimeYear !== null}
               onClick={() => {
                 playTierSelectionSound('month');
                 onViewModeChange('month');
@@ -1609,6 +1689,7 @@ export default function NavigationBar({
             </button>
             <button
               className={`view-mode-button ${viewMode === 'week' ? 'active' : ''}`}
+              disabled={deepTimeYear !== null}
               onClick={() => {
                 playTierSelectionSound('week');
                 onViewModeChange('week');
@@ -1618,6 +1699,7 @@ export default function NavigationBar({
             </button>
             <button
               className={`view-mode-button ${viewMode === 'day' ? 'active' : ''}`}
+              disabled={deepTimeYear !== null}
               onClick={() => {
                 playTierSelectionSound('day');
                 onViewModeChange('day');
@@ -1637,6 +1719,18 @@ export default function NavigationBar({
                 🔍
               </button>
             )}
+            {onOpenTrash && (
+              <button
+                className="view-mode-button trash-button"
+                onClick={() => {
+                  playModeSelectionSound();
+                  onOpenTrash();
+                }}
+                title="Trash"
+              >
+                🗑
+              </button>
+            )}
             {onOpenPreferences && (
               <button
                 className="view-mode-button preferences-button"
@@ -1,26 +1,70 @@
 import { useState, useEffect, useRef, useLayoutEffect } from 'react';
-import { Preferences, ExportFormat } from '../types';
+import { Preferences, ExportFormat, ImportFormat, BackupStatus, AttachmentMaintenanceReport } from '../types';
 import { playResetSound, playExportSound } from '../utils/audioUtils';
 import { CALENDAR_INFO } from '../utils/calendars/types';
+import { ISLAMIC_CALENDAR_VARIANTS, ISLAMIC_OBSERVER_REGIONS } from '../utils/calendars/islamic';
 import { getAvailableThemes, loadAllThemes, applyTheme, initializeTheme, applyFontSize } from '../utils/themes';
 import { useCalendar } from '../contexts/CalendarContext';
 import HotkeyDiagram from './HotkeyDiagram';
 import ImportProgressModal from './ImportProgressModal';
+import TemplatesManager from './TemplatesManager';
 import packageJson from '../../package.json';
 import './Preferences.css';
 
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// One line per finding of an attachment check, followed by what a repair changed
+function describeAttachmentReport(report: AttachmentMaintenanceReport): string[] {
+  const lines = [`Checked ${report.checkedAttachments} attachments stored in ${report.storedFiles} files.`];
+  if (report.missing.length > 0) {
+    lines.push(`Missing files: ${report.missing.map(issue => issue.fileName).join(', ')}`);
+  }
+  if (report.corrupted.length > 0) {
+    lines.push(`Damaged files: ${report.corrupted.map(issue => issue.fileName).join(', ')}`);
+  }
+  if (report.orphanedFiles.length > 0) {
+    lines.push(`${report.orphanedFiles.length} files are not used by any entry.`);
+  }
+  if (report.unmigrated > 0) {
+    lines.push(`${report.unmigrated} attachments still use separate copies from an older version.`);
+  }
+  if (report.reclaimableBytes > 0) {
+    lines.push(`${formatBytes(report.reclaimableBytes)} can be freed.`);
+  }
+  if (lines.length === 1) {
+    lines.push('No problems found.');
+  }
+  if (report.repair) {
+    const { relinked, removedRecords, migrated, deletedFiles, freedBytes } = report.repair;
+    lines.push(
+      `Repaired: ${relinked} relinked, ${migrated} moved to shared storage, ${removedRecords} missing attachments removed, ` +
+      `${deletedFiles} files deleted (${formatBytes(freedBytes)} freed).`
+    );
+  }
+  return lines;
+}
+
 export default function PreferencesComponent() {
-  const { calendar, setCalendar } = useCalendar();
+  const { calendar, setCalendar, setIslamicCalendarVariant, setIslamicObserverRegion } = useCalendar();
   const themeCleanupRef = useRef<(() => void) | undefined>(undefined);
   const [preferences, setPreferences] = useState<Preferences>({});
   const [autoLoadProfile, setAutoLoadProfile] = useState(false);
   const [loading, setLoading] = useState(true);
   const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
   const [isExporting, setIsExporting] = useState(false);
-  const [importFormat, setImportFormat] = useState<'json' | 'markdown'>('json');
+  const [importFormat, setImportFormat] = useState<ImportFormat>('json');
   const [isImporting, setIsImporting] = useState(false);
   const [isBackingUp, setIsBackingUp] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
+  const [isRunningBackup, setIsRunningBackup] = useState(false);
+  const [backupStatus, setBackupStatus] = useState<BackupStatus | null>(null);
+  const [backupDirectory, setBackupDirectory] = useState<string | null>(null);
+  const [isCheckingAttachments, setIsCheckingAttachments] = useState(false);
+  const [attachmentReport, setAttachmentReport] = useState<AttachmentMaintenanceReport | null>(null);
   const [backgroundImagePreview, setBackgroundImagePreview] = useState<string | null>(null);
   const [themeListKey, setThemeListKey] = useState(0); // Force re-render when themes update
   const [importProgress, setImportProgress] = useState({
@@ -92,7 +136,7 @@ export default function PreferencesComponent() {
         });
         
         // Close modal when complete or error
-        if (progress.stage === 'complete' || progress.stage === 'error') {
+        if (progress.stage === 'complete' || progress.stage === 'error' || progress.stage === 'canceled') {
           setTimeout(() => {
             setImportProgress(prev => ({ ...prev, isOpen: false }));
           }, 2000);
@@ -200,6 +244,18 @@ export default function PreferencesComponent() {
     });
   }, [loading]);
 
+  // Keep the last backup status current while the window is open
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    window.electronAPI.getBackupStatus()
+      .then(result => {
+        setBackupStatus(result.status);
+        setBackupDirectory(result.directory);
+      })
+      .catch(error => console.error('[Preferences] Error loading backup status:', error));
+    return window.electronAPI.onBackupStatusChanged(status => setBackupStatus(status));
+  }, []);
+
   // Sync CalendarContext changes back to Preferences
   useEffect(() => {
     if (preferences.calendar !== calendar) {
@@ -303,6 +359,12 @@ export default function PreferencesComponent() {
     if (key === 'calendar') {
       setCalendar(value as any);
     }
+    if (key === 'islamicCalendarVariant') {
+      setIslamicCalendarVariant(value as Preferences['islamicCalendarVariant'] || 'tabular');
+    }
+    if (key === 'islamicObserverRegion') {
+      setIslamicObserverRegion(value as Preferences['islamicObserverRegion'] || 'mecca');
+    }
     
     // Note: We don't dispatch window events here because Preferences is in a separate BrowserWindow.
     // The IPC handler in electron/ipc-handlers.ts will send an IPC message to the main window
@@ -432,6 +494,75 @@ export default function PreferencesComponent() {
     }
   };
 
+  const handleRunBackupNow = async () => {
+    if (!window.electronAPI || isRunningBackup) return;
+    playExportSound();
+    try {
+      setIsRunningBackup(true);
+      const result = await window.electronAPI.runBackupNow();
+      if (result.status) {
+        setBackupStatus(result.status);
+      }
+      if (!result.success) {
+        console.error('Backup failed:', result.error, result.message);
+        alert(`Backup failed: ${result.message || result.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error during backup:', error);
+      alert('Backup failed. Please try again.');
+    } finally {
+      setIsRunningBackup(false);
+    }
+  };
+
+  const handleSelectBackupDirectory = async () => {
+    if (!window.electronAPI) return;
+    try {
+      const result = await window.electronAPI.selectBackupDirectory();
+      if (result.success && result.path) {
+        setPreferences(prev => ({ ...prev, autoBackupDirectory: result.path }));
+        setBackupDirectory(result.path);
+      } else if (!result.canceled && result.error) {
+        alert(`Could not set backup folder: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Error selecting backup folder:', error);
+    }
+  };
+
+  const handleResetBackupDirectory = async () => {
+    if (!window.electronAPI) return;
+    try {
+      setPreferences(prev => ({ ...prev, autoBackupDirectory: '' }));
+      await window.electronAPI.setPreference('autoBackupDirectory', '');
+      const result = await window.electronAPI.getBackupStatus();
+      setBackupDirectory(result.directory);
+    } catch (error) {
+      console.error('Error resetting backup folder:', error);
+    }
+  };
+
+  const handleCheckAttachments = async (repair: boolean) => {
+    if (!window.electronAPI || isCheckingAttachments) return;
+    if (repair && !confirm('Repair attachments? Missing attachments are removed from their entries and unused files are deleted. This cannot be undone.')) {
+      return;
+    }
+    try {
+      setIsCheckingAttachments(true);
+      const result = await window.electronAPI.checkAttachments(repair);
+      if (result.success && result.report) {
+        setAttachmentReport(result.report);
+      } else {
+        alert(`Attachment check failed: ${result.message || result.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error checking attachments:', error);
+      alert('Attachment check failed. Please try again.');
+    } finally {
+      setIsCheckingAttachments(false);
+    }
+  };
+
   const handleRestore = async () => {
     if (!window.electronAPI || isRestoring) return;
     playExportSound();
@@ -792,6 +923,8 @@ export default function PreferencesComponent() {
               onChange={(e) => updatePreference('defaultViewMode', e.target.value as Preferences['defaultViewMode'])}
               disabled={preferences.restoreLastView === true}
             >
+              <option value="millennium">Millennium</option>
+              <option value="century">Century</option>
               <option value="decade">Decade</option>
               <option value="year">Year</option>
               <option value="month">Month</option>
@@ -821,6 +954,35 @@ export default function PreferencesComponent() {
             <small>Calendar system for dates</small>
           </div>
 
+          <div className="preference-item">
+            <label htmlFor="islamicCalendarVariant">Islamic Calendar</label>
+            <select
+              id="islamicCalendarVariant"
+              value={preferences.islamicCalendarVariant || 'tabular'}
+              onChange={(e) => updatePreference('islamicCalendarVariant', e.target.value as Preferences['islamicCalendarVariant'])}
+            >
+              {Object.entries(ISLAMIC_CALENDAR_VARIANTS).map(([key, name]) => (
+                <option key={key} value={key}>{name}</option>
+              ))}
+            </select>
+            <small>How Islamic months and holidays are reckoned: arithmetic, the Saudi Umm al-Qura calendar, or the first visible crescent</small>
+          </div>
+
+          <div className="preference-item">
+            <label htmlFor="islamicObserverRegion">Crescent Sighting Region</label>
+            <select
+              id="islamicObserverRegion"
+              value={preferences.islamicObserverRegion || 'mecca'}
+              onChange={(e) => updatePreference('islamicObserverRegion', e.target.value as Preferences['islamicObserverRegion'])}
+              disabled={preferences.islamicCalendarVariant !== 'crescent'}
+            >
+              {Object.entries(ISLAMIC_OBSERVER_REGIONS).map(([key, region]) => (
+                <option key={key} value={key}>{region.name}</option>
+              ))}
+            </select>
+            <small>Where the new crescent is looked for when months follow crescent visibility</small>
+          </div>
+
           <div className="preference-item">
             <label htmlFor="dateFormat">Date Format</label>
             <input
@@ -902,6 +1064,18 @@ export default function PreferencesComponent() {
             <small>Display actual moon phases (new moon, first quarter, full moon, last quarter) in the calendar view</small>
           </div>
 
+          <div className="preference-item">
+            <label>
+              <input
+                type="checkbox"
+                checked={preferences.showHolidays === true}
+                onChange={(e) => updatePreference('showHolidays', e.target.checked)}
+              />
+              Show holidays
+            </label>
+            <small>Display religious and cultural holidays (Easter, Passover, Ramadan, Lunar New Year, Nowruz, Meskel and more) in the calendar and timeline</small>
+          </div>
+
           <div className="preference-item">
             <label>
               <input
@@ -997,6 +1171,64 @@ export default function PreferencesComponent() {
               <small>How often to auto-save (5-300 seconds)</small>
             </div>
           )}
+
+          <div className="preference-item">
+            <label htmlFor="versionHistoryLimit">Version History</label>
+            <select
+              id="versionHistoryLimit"
+              value={preferences.versionHistoryLimit ?? 50}
+              onChange={(e) => updatePreference('versionHistoryLimit', parseInt(e.target.value))}
+            >
+              <option value="10">Keep 10 versions per entry</option>
+              <option value="25">Keep 25 versions per entry</option>
+              <option value="50">Keep 50 versions per entry</option>
+              <option value="100">Keep 100 versions per entry</option>
+              <option value="0">Keep every version</option>
+            </select>
+            <small>Every save keeps the previous text of the entry so it can be compared and restored.</small>
+          </div>
+
+          <div className="preference-item">
+            <label htmlFor="versionHistoryMaxAgeDays">Delete Versions Older Than</label>
+            <select
+              id="versionHistoryMaxAgeDays"
+              value={preferences.versionHistoryMaxAgeDays ?? 0}
+              onChange={(e) => updatePreference('versionHistoryMaxAgeDays', parseInt(e.target.value))}
+            >
+              <option value="30">30 days</option>
+              <option value="90">90 days</option>
+              <option value="365">1 year</option>
+              <option value="0">Never</option>
+            </select>
+          </div>
+
+          <div className="preference-item">
+            <label htmlFor="trashRetentionDays">Empty Trash After</label>
+            <select
+              id="trashRetentionDays"
+              value={preferences.trashRetentionDays ?? 30}
+              onChange={(e) => updatePreference('trashRetentionDays', parseInt(e.target.value))}
+            >
+              <option value="7">7 days</option>
+              <option value="30">30 days</option>
+              <option value="90">90 days</option>
+              <option value="365">1 year</option>
+              <option value="0">Never</option>
+            </select>
+            <small>Deleted entries stay in the Trash until then and can be restored.</small>
+          </div>
+        </div>
+
+        {/* RACK 1 - Left Column: Entry Templates */}
+        <div 
+          className="preferences-section rack-1"
+          ref={(el) => {
+            if (el) sectionRefs.current.set('templates', el);
+            else sectionRefs.current.delete('templates');
+          }}
+        >
+          <h2>Entry Templates</h2>
+          <TemplatesManager />
         </div>
 
         {/* RACK 3 - Right Column: Export & Data Management */}
@@ -1019,6 +1251,8 @@ export default function PreferencesComponent() {
               <option value="text">Plain text (.txt)</option>
               <option value="json">JSON (.json)</option>
               <option value="csv">CSV (.csv)</option>
+              <option value="ics">iCalendar (.ics)</option>
+              <option value="bundle">Bundle with attachments (.zip)</option>
               <option value="rtf">Rich Text (.rtf)</option>
               <option value="pdf">PDF (.pdf)</option>
               <option value="dec">Decades summary (.dec)</option>
@@ -1040,6 +1274,8 @@ export default function PreferencesComponent() {
                 <option value="text">Plain text (.txt)</option>
                 <option value="json">JSON (.json)</option>
                 <option value="csv">CSV (.csv)</option>
+                <option value="ics">iCalendar (.ics)</option>
+                <option value="bundle">Bundle with attachments (.zip)</option>
                 <option value="rtf">Rich Text (.rtf)</option>
                 <option value="pdf">PDF (.pdf)</option>
                 <option value="dec">Decades summary (.dec)</option>
@@ -1073,11 +1309,16 @@ export default function PreferencesComponent() {
             <div className="export-controls">
               <select
                 value={importFormat}
-                onChange={(e) => setImportFormat(e.target.value as 'json' | 'markdown')}
+                onChange={(e) => setImportFormat(e.target.value as ImportFormat)}
                 disabled={isImporting}
               >
                 <option value="json">JSON (.json)</option>
                 <option value="markdown">Markdown (.md)</option>
+                <option value="ics">iCalendar (.ics)</option>
+                <option value="dayone">Day One export (.zip, .json)</option>
+                <option value="journey">Journey export (.zip)</option>
+                <option value="obsidian">Obsidian daily notes (folder)</option>
+                <option value="bundle">CalenRecall bundle (.zip)</option>
               </select>
               <button
                 className="preferences-button save-button"
@@ -1088,7 +1329,7 @@ export default function PreferencesComponent() {
               </button>
             </div>
             <small>
-              Import journal entries from a JSON or Markdown file. Entries with IDs will be skipped to avoid duplicates.
+              Import journal entries from a JSON, Markdown or iCalendar file, a CalenRecall bundle or a Day One or Journey export (attachments and photos are restored), or a folder of Obsidian YYYY-MM-DD.md daily notes. Links between imported entries are kept. You can review the entries and choose what happens to likely duplicates before anything is saved.
               The main window will refresh after a successful import.
             </small>
           </div>
@@ -1118,6 +1359,93 @@ export default function PreferencesComponent() {
               Create a backup of your entire database. This saves all your journal entries and preferences to a file.
             </small>
           </div>
+          <div className="preference-item">
+            <label>
+              <input
+                type="checkbox"
+                checked={preferences.autoBackupEnabled === true}
+                onChange={(e) => updatePreference('autoBackupEnabled', e.target.checked)}
+              />
+              Automatic backups
+            </label>
+            <small>
+              Back up this profile's database on a schedule, even while it is in use. The oldest backups are deleted once the limit is reached.
+            </small>
+          </div>
+
+          {preferences.autoBackupEnabled === true && (
+            <>
+              <div className="preference-item">
+                <label htmlFor="autoBackupIntervalHours">Backup Interval</label>
+                <select
+                  id="autoBackupIntervalHours"
+                  value={preferences.autoBackupIntervalHours || 24}
+                  onChange={(e) => updatePreference('autoBackupIntervalHours', parseInt(e.target.value))}
+                >
+                  <option value="1">Every hour</option>
+                  <option value="6">Every 6 hours</option>
+                  <option value="12">Every 12 hours</option>
+                  <option value="24">Daily</option>
+                  <option value="168">Weekly</option>
+                </select>
+              </div>
+              <div className="preference-item">
+                <label htmlFor="autoBackupKeepCount">Backups to Keep</label>
+                <input
+                  id="autoBackupKeepCount"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={preferences.autoBackupKeepCount || 7}
+                  onChange={(e) => updatePreference('autoBackupKeepCount', Math.min(100, Math.max(1, parseInt(e.target.value) || 1)))}
+                />
+                <small>How many automatic backups to keep (1-100)</small>
+              </div>
+              <div className="preference-item">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={preferences.autoBackupIncludeAttachments === true}
+                    onChange={(e) => updatePreference('autoBackupIncludeAttachments', e.target.checked)}
+                  />
+                  Include attachments
+                </label>
+                <small>Also save the attached files in a ZIP archive next to each backup.</small>
+              </div>
+            </>
+          )}
+
+          <div className="preference-item export-toolbar">
+            <label>Backup Folder</label>
+            <div className="export-controls">
+              <button className="preferences-button" onClick={handleSelectBackupDirectory}>
+                Choose Folder…
+              </button>
+              {preferences.autoBackupDirectory && (
+                <button className="preferences-button" onClick={handleResetBackupDirectory}>
+                  Use Default
+                </button>
+              )}
+              <button
+                className="preferences-button save-button"
+                onClick={handleRunBackupNow}
+                disabled={isRunningBackup}
+              >
+                {isRunningBackup ? 'Backing up…' : 'Back Up Now'}
+              </button>
+            </div>
+            <small>{backupDirectory || 'Default backup folder'}</small>
+            <small>
+              {!backupStatus?.lastAttemptAt
+                ? 'No backup has been made yet.'
+                : backupStatus.lastError
+                  ? `Last backup failed (${new Date(backupStatus.lastAttemptAt).toLocaleString()}): ${backupStatus.lastError}`
+                  : `Last backup: ${new Date(backupStatus.lastSuccessAt || backupStatus.lastAttemptAt).toLocaleString()}${backupStatus.automatic ? ' (automatic)' : ''}`}
+              {backupStatus?.lastError && backupStatus.lastSuccessAt && (
+                <> Last successful backup: {new Date(backupStatus.lastSuccessAt).toLocaleString()}.</>
+              )}
+            </small>
+          </div>
           <div className="preference-item export-toolbar">
             <label>Database Restore</label>
             <div className="export-controls">
@@ -1134,6 +1462,32 @@ export default function PreferencesComponent() {
               Make sure you have a current backup before restoring.
             </small>
           </div>
+          <div className="preference-item export-toolbar">
+            <label>Attachment Check</label>
+            <div className="export-controls">
+              <button
+                className="preferences-button"
+                onClick={() => handleCheckAttachments(false)}
+                disabled={isCheckingAttachments}
+              >
+                {isCheckingAttachments ? 'Checking…' : 'Check Attachments'}
+              </button>
+              <button
+                className="preferences-button save-button"
+                onClick={() => handleCheckAttachments(true)}
+                disabled={isCheckingAttachments}
+              >
+                Repair
+              </button>
+            </div>
+            <small>
+              Find attachment files that are missing, damaged or no longer used by any entry.
+              Repairing also merges duplicate copies of the same file.
+            </small>
+            {attachmentReport && describeAttachmentReport(attachmentReport).map((line, idx) => (
+              <small key={idx}>{line}</small>
+            ))}
+          </div>
         </div>
 
         {/* RACK 1 - Left Column: Extra Links */}
@@ -1,30 +1,61 @@
-import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { JournalEntry, TimeRange, Preferences } from '../types';
-import { searchJournalEntries } from '../services/journalService';
+import { useState, useEffect, useRef, useMemo, useCallback, ReactNode } from 'react';
+import { JournalEntry, TimeRange, Preferences, BulkEntryOperation, EntrySearchResult, SearchFilters, SearchSortField, SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END } from '../types';
+import { searchJournalEntriesByQuery, saveSavedSearch } from '../services/journalService';
 import { formatDate, parseISODate, formatTime } from '../utils/dateUtils';
 import { useCalendar } from '../contexts/CalendarContext';
 import { getTimeRangeLabelInCalendar } from '../utils/calendars/timeRangeConverter';
 import { playNavigationSound, playTypingSound } from '../utils/audioUtils';
+import BulkActionsBar from './BulkActionsBar';
 import './SearchView.css';
 
+type SortField = SearchSortField;
+
+/**
+ * Render a search snippet, turning the highlight markers from the main process into <mark> elements.
+ */
+function renderHighlighted(text: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  const pattern = new RegExp(`${SEARCH_HIGHLIGHT_START}([^${SEARCH_HIGHLIGHT_END}]*)${SEARCH_HIGHLIGHT_END}`, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      nodes.push(text.slice(lastIndex, match.index));
+    }
+    nodes.push(<mark key={match.index} className="search-highlight">{match[1]}</mark>);
+    lastIndex = pattern.lastIndex;
+  }
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex));
+  }
+  return nodes;
+}
+
 interface SearchViewProps {
   onEntrySelect: (entry: JournalEntry) => void;
   onClose?: () => void;
+  initialTags?: string[]; // Open with these tags selected (e.g. after clicking a #tag)
 }
 
-export default function SearchView({ onEntrySelect, onClose }: SearchViewProps) {
+export default function SearchView({ onEntrySelect, onClose, initialTags }: SearchViewProps) {
   const { calendar } = useCalendar();
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<JournalEntry[]>([]);
+  const [results, setResults] = useState<EntrySearchResult[]>([]);
+  const [queryErrors, setQueryErrors] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
-  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>(initialTags || []);
   const [selectedTimeRanges, setSelectedTimeRanges] = useState<TimeRange[]>([]);
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
-  const [sortBy, setSortBy] = useState<'date' | 'title' | 'timeRange'>('date');
+  const [sortBy, setSortBy] = useState<SortField>('relevance');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
-  const [showFilters, setShowFilters] = useState(false);
+  const [showFilters, setShowFilters] = useState(!!initialTags?.length);
+  const [showSaveSearch, setShowSaveSearch] = useState(false);
+  const [saveSearchName, setSaveSearchName] = useState('');
+  const [saveSearchMessage, setSaveSearchMessage] = useState<string | null>(null);
   const [preferences, setPreferences] = useState<Preferences>({});
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedEntryIds, setSelectedEntryIds] = useState<Set<number>>(new Set());
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   // Focus search input on mount
@@ -48,71 +79,48 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
   // OPTIMIZATION: Memoize tag extraction to avoid recalculating on every render
   // Get all unique tags from results
   const allTags = useMemo(() => 
-    Array.from(new Set(results.flatMap(entry => entry.tags || []))),
+    Array.from(new Set(results.flatMap(result => result.entry.tags || []))),
     [results]
   );
 
+  const hasSearchCriteria = !!(query.trim() || selectedTags.length > 0 || selectedTimeRanges.length > 0 || startDate || endDate);
+
+  // Filter panel selections, merged into the query in the main process
+  const buildFilters = (): SearchFilters => ({
+    tags: selectedTags,
+    timeRanges: selectedTimeRanges,
+    startDate: startDate || undefined,
+    endDate: endDate || undefined,
+  });
+
   // Perform search - memoized for performance
   const performSearch = useCallback(async () => {
     if (!query.trim() && selectedTags.length === 0 && selectedTimeRanges.length === 0 && !startDate && !endDate) {
       setResults([]);
+      setQueryErrors([]);
       return;
     }
 
     setLoading(true);
     try {
-      let searchResults: JournalEntry[] = [];
-
-      // If we have a text query, use the search API
-      if (query.trim()) {
-        searchResults = await searchJournalEntries(query);
-      } else {
-        // If no text query but we have filters, get all entries and filter
-        if (window.electronAPI) {
-          const allEntries = await window.electronAPI.getEntries('0000-01-01', '9999-12-31');
-          searchResults = allEntries;
-        }
-      }
-
-      // Apply filters
-      let filtered = searchResults;
-
-      // Filter by tags
-      if (selectedTags.length > 0) {
-        filtered = filtered.filter(entry => 
-          entry.tags && entry.tags.some(tag => selectedTags.includes(tag))
-        );
-      }
-
-      // Filter by time ranges
-      if (selectedTimeRanges.length > 0) {
-        filtered = filtered.filter(entry => 
-          selectedTimeRanges.includes(entry.timeRange)
-        );
-      }
-
-      // Filter by date range
-      if (startDate) {
-        const start = parseISODate(startDate);
-        filtered = filtered.filter(entry => {
-          const entryDate = parseISODate(entry.date);
-          return entryDate >= start;
-        });
-      }
-
-      if (endDate) {
-        const end = parseISODate(endDate);
-        filtered = filtered.filter(entry => {
-          const entryDate = parseISODate(entry.date);
-          return entryDate <= end;
-        });
-      }
-
-      // Sort results
-      filtered.sort((a, b) => {
+      // Text and filters are parsed and applied in the main process
+      const response = await searchJournalEntriesByQuery(query.trim(), buildFilters());
+      const filtered = response.results;
+      setQueryErrors(response.errors);
+
+      // Sort results (relevance only applies to text queries - otherwise sort by date)
+      const hasRankedText = filtered.some(result => result.rank !== 0);
+      const effectiveSort: SortField = sortBy === 'relevance' && !hasRankedText ? 'date' : sortBy;
+      filtered.sort((resultA, resultB) => {
+        const a = resultA.entry;
+        const b = resultB.entry;
         let comparison = 0;
         
-        switch (sortBy) {
+        switch (effectiveSort) {
+          case 'relevance':
+            // bm25: lower rank is a better match; "desc" shows best matches first
+            comparison = resultB.rank - resultA.rank;
+            break;
           case 'date':
             comparison = a.date.localeCompare(b.date);
             break;
@@ -121,6 +129,8 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
             break;
           case 'timeRange':
             const timeRangeOrder: Record<TimeRange, number> = {
+              millennium: -2,
+              century: -1,
               decade: 0,
               year: 1,
               month: 2,
@@ -168,6 +178,33 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
     );
   };
 
+  const handleSaveSearch = async () => {
+    const name = saveSearchName.trim();
+    if (!name || !hasSearchCriteria) {
+      return;
+    }
+    try {
+      const now = new Date().toISOString();
+      await saveSavedSearch({
+        name,
+        query: query.trim(),
+        filters: buildFilters(),
+        sortBy,
+        sortOrder,
+        createdAt: now,
+        updatedAt: now,
+      });
+      setShowSaveSearch(false);
+      setSaveSearchName('');
+      setSaveSearchMessage(`Saved "${name}" as a smart collection`);
+      // Let smart collection lists refresh
+      window.dispatchEvent(new CustomEvent('savedSearchesChanged'));
+    } catch (error) {
+      console.error('Error saving search:', error);
+      setSaveSearchMessage(`Failed to save search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const clearFilters = () => {
     setSelectedTags([]);
     setSelectedTimeRanges([]);
@@ -177,6 +214,8 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
 
   const getTimeRangeLabel = (timeRange: TimeRange): string => {
     switch (timeRange) {
+      case 'millennium': return 'Millennium';
+      case 'century': return 'Century';
       case 'decade': return 'Decade';
       case 'year': return 'Year';
       case 'month': return 'Month';
@@ -188,6 +227,8 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
 
   const getTimeRangeColor = (timeRange: TimeRange): string => {
     switch (timeRange) {
+      case 'millennium': return '#3f51b5';
+      case 'century': return '#673ab7';
       case 'decade': return '#9c27b0';
       case 'year': return '#2196f3';
       case 'month': return '#ff9800';
@@ -210,6 +251,14 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
     } catch (e) {
       console.error('Error formatting entry date in calendar:', e);
       switch (entry.timeRange) {
+        case 'millennium':
+          const millenniumStart = Math.floor(entryDate.getFullYear() / 1000) * 1000;
+          dateStr = `${millenniumStart}–${millenniumStart + 999}`;
+          break;
+        case 'century':
+          const centuryStart = Math.floor(entryDate.getFullYear() / 100) * 100;
+          dateStr = `${centuryStart}–${centuryStart + 99}`;
+          break;
         case 'decade':
           const decadeStart = Math.floor(entryDate.getFullYear() / 10) * 10;
           dateStr = `${decadeStart}s`;
@@ -241,7 +290,53 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
     return dateStr;
   };
 
+  const resultIds = useMemo(
+    () => results.map(result => result.entry.id).filter((id): id is number => id !== undefined),
+    [results]
+  );
+
+  // Keep only selected entries that are still in the results
+  useEffect(() => {
+    setSelectedEntryIds(prev => {
+      const visible = new Set(resultIds);
+      const kept = Array.from(prev).filter(id => visible.has(id));
+      return kept.length === prev.size ? prev : new Set(kept);
+    });
+  }, [resultIds]);
+
+  const selectedIdList = useMemo(() => Array.from(selectedEntryIds), [selectedEntryIds]);
+  const allSelected = resultIds.length > 0 && selectedEntryIds.size === resultIds.length;
+
+  const toggleEntrySelection = (entryId: number | undefined) => {
+    if (entryId === undefined) return;
+    setSelectedEntryIds(prev => {
+      const next = new Set(prev);
+      if (next.has(entryId)) {
+        next.delete(entryId);
+      } else {
+        next.add(entryId);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedEntryIds(allSelected ? new Set() : new Set(resultIds));
+  };
+
+  const handleBulkApplied = (operation: BulkEntryOperation) => {
+    if (operation.type === 'trash' || operation.type === 'archive') {
+      setSelectedEntryIds(new Set());
+    }
+    performSearch();
+  };
+
   const handleEntryClick = (entry: JournalEntry) => {
+    // While selecting, clicking a result toggles it instead of opening it
+    if (selectMode) {
+      toggleEntrySelection(entry.id);
+      return;
+    }
     playNavigationSound();
     onEntrySelect(entry);
     if (onClose) {
@@ -257,7 +352,7 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
             ref={searchInputRef}
             type="text"
             className="search-input"
-            placeholder="Search entries by title or content..."
+            placeholder='Search... e.g. "exact phrase" tag:travel range:week after:1999 before:2005 pinned:yes has:attachment -excluded'
             value={query}
             onChange={(e) => {
               setQuery(e.target.value);
@@ -287,6 +382,28 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
           >
             {showFilters ? '▼' : '▶'} Filters
           </button>
+          <button
+            className="search-save-toggle"
+            onClick={() => {
+              setShowSaveSearch(!showSaveSearch);
+              setSaveSearchMessage(null);
+            }}
+            disabled={!hasSearchCriteria}
+            title="Save this search as a smart collection"
+          >
+            Save Search
+          </button>
+          <button
+            className={`search-select-toggle ${selectMode ? 'active' : ''}`}
+            onClick={() => {
+              setSelectMode(!selectMode);
+              setSelectedEntryIds(new Set());
+            }}
+            disabled={!selectMode && resultIds.length === 0}
+            title={selectMode ? 'Stop selecting entries' : 'Select entries to change them together'}
+          >
+            {selectMode ? 'Done' : 'Select'}
+          </button>
         </div>
         {onClose && (
           <button className="search-close-button" onClick={onClose} title="Close search">
@@ -295,6 +412,45 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
         )}
       </div>
 
+      {showSaveSearch && hasSearchCriteria && (
+        <div className="search-save-form">
+          <input
+            type="text"
+            className="search-save-name"
+            placeholder="Smart collection name"
+            value={saveSearchName}
+            autoFocus
+            onChange={(e) => setSaveSearchName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleSaveSearch();
+              } else if (e.key === 'Escape') {
+                e.stopPropagation();
+                setShowSaveSearch(false);
+              }
+            }}
+          />
+          <button className="search-save-button" onClick={handleSaveSearch} disabled={!saveSearchName.trim()}>
+            Save
+          </button>
+          <button className="search-save-cancel" onClick={() => setShowSaveSearch(false)}>
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {saveSearchMessage && (
+        <div className="search-save-message">{saveSearchMessage}</div>
+      )}
+
+      {queryErrors.length > 0 && (
+        <div className="search-query-errors">
+          {queryErrors.map((error, idx) => (
+            <div key={idx} className="search-query-error">{error}</div>
+          ))}
+        </div>
+      )}
+
       {showFilters && (
         <div className="search-filters">
           <div className="filter-group">
@@ -319,7 +475,7 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
           <div className="filter-group">
             <label>Time Range:</label>
             <div className="filter-time-ranges">
-              {(['decade', 'year', 'month', 'week', 'day'] as TimeRange[]).map(timeRange => (
+              {(['millennium', 'century', 'decade', 'year', 'month', 'week', 'day'] as TimeRange[]).map(timeRange => (
                 <button
                   key={timeRange}
                   className={`filter-time-range ${selectedTimeRanges.includes(timeRange) ? 'active' : ''}`}
@@ -384,7 +540,8 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
           <div className="filter-group">
             <label>Sort by:</label>
             <div className="filter-sort">
-              <select value={sortBy} onChange={(e) => setSortBy(e.target.value as 'date' | 'title' | 'timeRange')}>
+              <select value={sortBy} onChange={(e) => setSortBy(e.target.value as SortField)}>
+                <option value="relevance">Relevance</option>
                 <option value="date">Date</option>
                 <option value="title">Title</option>
                 <option value="timeRange">Time Range</option>
@@ -406,7 +563,7 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
           <div className="search-loading">Searching...</div>
         ) : results.length === 0 ? (
           <div className="search-empty">
-            {query.trim() || selectedTags.length > 0 || selectedTimeRanges.length > 0 || startDate || endDate ? (
+            {hasSearchCriteria ? (
               <p>No entries found matching your search criteria.</p>
             ) : (
               <p>Enter a search query or use filters to find entries.</p>
@@ -415,17 +572,35 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
         ) : (
           <>
             <div className="search-results-count">
+              {selectMode && (
+                <label className="search-select-all">
+                  <input type="checkbox" checked={allSelected} onChange={toggleSelectAll} />
+                  Select all
+                </label>
+              )}
               Found {results.length} {results.length === 1 ? 'entry' : 'entries'}
             </div>
+            {selectMode && (
+              <BulkActionsBar selectedIds={selectedIdList} onApplied={handleBulkApplied} />
+            )}
             <div className="search-results-list">
-              {results.map((entry) => (
+              {results.map(({ entry, titleSnippet, contentSnippet }) => (
                 <div
                   key={entry.id || `${entry.date}-${entry.timeRange}-${entry.createdAt}`}
-                  className="search-result-item"
+                  className={`search-result-item ${selectMode && entry.id !== undefined && selectedEntryIds.has(entry.id) ? 'selected' : ''}`}
                   onClick={() => handleEntryClick(entry)}
                 >
+                  {selectMode && entry.id !== undefined && (
+                    <input
+                      type="checkbox"
+                      className="result-item-checkbox"
+                      checked={selectedEntryIds.has(entry.id)}
+                      onChange={() => toggleEntrySelection(entry.id)}
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                  )}
                   <div className="result-item-header">
-                    <div className="result-item-title">{entry.title}</div>
+                    <div className="result-item-title">{renderHighlighted(titleSnippet || entry.title)}</div>
                     <div className="result-item-meta">
                       <span
                         className="result-time-range-badge"
@@ -437,8 +612,12 @@ export default function SearchView({ onEntrySelect, onClose }: SearchViewProps)
                     </div>
                   </div>
                   <div className="result-item-content">
-                    {entry.content.substring(0, 200)}
-                    {entry.content.length > 200 && '...'}
+                    {contentSnippet ? renderHighlighted(contentSnippet) : (
+                      <>
+                        {entry.content.substring(0, 200)}
+                        {entry.content.length > 200 && '...'}
+                      </>
+                    )}
                   </div>
                   {entry.tags && entry.tags.length > 0 && (
                     <div className="result-item-tags">
@@ -0,0 +1,210 @@
+import { useState, useEffect, useRef } from 'react';
+import { EntryTemplate, TimeRange } from '../types';
+import { TEMPLATE_PLACEHOLDERS } from '../utils/templatePlaceholders';
+import './TemplatesManager.css';
+
+const TIME_RANGES: TimeRange[] = ['millennium', 'century', 'decade', 'year', 'month', 'week', 'day'];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const emptyTemplate = (): EntryTemplate => ({
+  name: '',
+  title: '',
+  content: '',
+  tags: [],
+  createdAt: '',
+  updatedAt: '',
+});
+
+export default function TemplatesManager() {
+  const [templates, setTemplates] = useState<EntryTemplate[]>([]);
+  const [draft, setDraft] = useState<EntryTemplate | null>(null);
+  const [tagsText, setTagsText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+
+  const loadTemplates = async () => {
+    if (!window.electronAPI) return;
+    try {
+      setTemplates(await window.electronAPI.getAllTemplates());
+    } catch (err) {
+      console.error('[TemplatesManager] Error loading templates:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const startEditing = (template: EntryTemplate) => {
+    setDraft({ ...template });
+    setTagsText((template.tags || []).join(', '));
+    setError(null);
+  };
+
+  const insertPlaceholder = (placeholder: string) => {
+    if (!draft) return;
+    const textarea = contentRef.current;
+    const start = textarea ? textarea.selectionStart : draft.content.length;
+    const end = textarea ? textarea.selectionEnd : draft.content.length;
+    const content = draft.content.slice(0, start) + placeholder + draft.content.slice(end);
+    setDraft({ ...draft, content });
+    requestAnimationFrame(() => {
+      if (textarea) {
+        textarea.focus();
+        textarea.selectionStart = textarea.selectionEnd = start + placeholder.length;
+      }
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !window.electronAPI || saving) return;
+    if (!draft.name.trim()) {
+      setError('Give the template a name.');
+      return;
+    }
+    const tags = Array.from(new Set(tagsText.split(',').map(tag => tag.trim()).filter(Boolean)));
+    try {
+      setSaving(true);
+      const result = await window.electronAPI.saveTemplate({ ...draft, tags, timeRange: draft.timeRange || undefined });
+      if (!result.success) {
+        setError(result.error || 'Could not save the template.');
+        return;
+      }
+      setDraft(null);
+      await loadTemplates();
+    } catch (err) {
+      console.error('[TemplatesManager] Error saving template:', err);
+      setError('Could not save the template.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: EntryTemplate) => {
+    if (!template.id || !window.electronAPI) return;
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+    try {
+      await window.electronAPI.deleteTemplate(template.id);
+      if (draft?.id === template.id) {
+        setDraft(null);
+      }
+      await loadTemplates();
+    } catch (err) {
+      console.error('[TemplatesManager] Error deleting template:', err);
+      alert('Could not delete the template.');
+    }
+  };
+
+  return (
+    <div className="templates-manager">
+      {templates.length === 0 && !draft && (
+        <small>No templates yet. Templates appear in the editor when you start a new entry.</small>
+      )}
+
+      {templates.length > 0 && (
+        <ul className="templates-list">
+          {templates.map(template => (
+            <li key={template.id} className={`templates-list-item ${draft?.id === template.id ? 'editing' : ''}`}>
+              <div className="templates-list-info">
+                <span className="templates-list-name">{template.name}</span>
+                <span className="templates-list-range">
+                  {template.timeRange ? capitalize(template.timeRange) : 'Any time range'}
+                </span>
+              </div>
+              <div className="templates-list-actions">
+                <button className="preferences-button" onClick={() => startEditing(template)}>Edit</button>
+                <button className="preferences-button" onClick={() => handleDelete(template)}>Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="templates-editor">
+          <div className="preference-item">
+            <label htmlFor="template-name">Name</label>
+            <input
+              id="template-name"
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Morning pages"
+            />
+          </div>
+          <div className="preference-item">
+            <label htmlFor="template-time-range">Used For</label>
+            <select
+              id="template-time-range"
+              value={draft.timeRange || ''}
+              onChange={(e) => setDraft({ ...draft, timeRange: (e.target.value || undefined) as TimeRange | undefined })}
+            >
+              <option value="">Any time range</option>
+              {TIME_RANGES.map(range => (
+                <option key={range} value={range}>{capitalize(range)} entries</option>
+              ))}
+            </select>
+          </div>
+          <div className="preference-item">
+            <label htmlFor="template-title">Entry Title</label>
+            <input
+              id="template-title"
+              type="text"
+              value={draft.title || ''}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              placeholder="{{weekday}}, {{date:MMMM d}}"
+            />
+          </div>
+          <div className="preference-item">
+            <label htmlFor="template-content">Entry Text</label>
+            <textarea
+              id="template-content"
+              ref={contentRef}
+              rows={8}
+              value={draft.content}
+              onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+            />
+            <div className="templates-placeholders">
+              {TEMPLATE_PLACEHOLDERS.map(({ placeholder, description }) => (
+                <button
+                  key={placeholder}
+                  type="button"
+                  className="templates-placeholder"
+                  title={description}
+                  onClick={() => insertPlaceholder(placeholder)}
+                >
+                  {placeholder}
+                </button>
+              ))}
+            </div>
+            <small>Placeholders are filled in when an entry is created from the template.</small>
+          </div>
+          <div className="preference-item">
+            <label htmlFor="template-tags">Tags</label>
+            <input
+              id="template-tags"
+              type="text"
+              value={tagsText}
+              onChange={(e) => setTagsText(e.target.value)}
+              placeholder="gratitude, morning"
+            />
+            <small>Separate tags with commas</small>
+          </div>
+          {error && <div className="templates-error">{error}</div>}
+          <div className="templates-editor-actions">
+            <button className="preferences-button" onClick={() => setDraft(null)}>Cancel</button>
+            <button className="preferences-button save-button" onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving…' : 'Save Template'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button className="preferences-button save-button" onClick={() => startEditing(emptyTemplate())}>
+          New Template
+        </button>
+      )}
+    </div>
+  );
+}
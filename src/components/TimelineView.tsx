@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo, useCallback, memo } from 'react';
 import { JournalEntry, TimeRange, Preferences } from '../types';
-import { formatDate, getDaysInMonth, getDaysInWeek, isToday, getWeekStart, getZodiacColor, getZodiacGradientColor, getZodiacGradientColorForYear, parseISODate, getWeekdayLabels, formatTime } from '../utils/dateUtils';
+import { formatDate, getDaysInMonth, getDaysInWeek, isToday, getWeekStart, getZodiacColor, getZodiacGradientColor, getZodiacGradientColorForYear, getZodiacColorForDecade, getDecadesInCentury, getCenturiesInMillennium, createDate, parseISODate, getWeekdayLabels, formatTime } from '../utils/dateUtils';
 import { isSameDay, isSameMonth, isSameYear } from 'date-fns';
 import { playCalendarSelectionSound, playEntrySelectionSound, playEditSound } from '../utils/audioUtils';
 import { calculateEntryColor } from '../utils/entryColorUtils';
@@ -8,8 +8,8 @@ import { useCalendar } from '../contexts/CalendarContext';
 import { useEntries } from '../contexts/EntriesContext';
 import { dateToCalendarDate } from '../utils/calendars/calendarConverter';
 import { formatCalendarDate } from '../utils/calendars/calendarConverter';
-import { deleteJournalEntry } from '../services/journalService';
-import { buildEntryLookup, getDayEntriesOptimized, getMonthEntriesOptimized, getAllEntriesForYearOptimized, getAllEntriesForMonthOptimized } from '../utils/entryLookupUtils';
+import { bulkUpdateJournalEntries } from '../services/journalService';
+import { buildEntryLookup, getDayEntriesOptimized, getMonthEntriesOptimized, getAllEntriesForYearOptimized, getAllEntriesForMonthOptimized, filterEntriesByDateRangeOptimized } from '../utils/entryLookupUtils';
 import { getAstronomicalEventsForRange, getAstronomicalEventLabel, type DateAstronomicalEvent } from '../utils/astronomicalEvents';
 import { gregorianToJDN } from '../utils/calendars/julianDayUtils';
 import { getAllMacroCycles, getChineseSexagenaryCycle, getMayanLongCountCycles, getMetonicCycle, getMayanCalendarRound, getHinduYugaCycle, type YugaType } from '../utils/calendars/macroCycleUtils';
@@ -32,7 +32,7 @@ function TimelineView({
   onEditEntry,
   weekStartsOn = 0,
 }: TimelineViewProps) {
-  const { calendar } = useCalendar();
+  const { calendar, islamicCalendarVariant, islamicObserverRegion } = useCalendar();
   const { entries: allEntries, entryLookup: contextEntryLookup, entryColors } = useEntries();
   const [preferences, setPreferences] = useState<Preferences>({});
   const [bulkEditMode, setBulkEditMode] = useState(false);
@@ -52,6 +52,7 @@ function TimelineView({
           ...prefs,
           showSolsticesEquinoxes: prefs.showSolsticesEquinoxes ?? false,
           showMoonPhases: prefs.showMoonPhases ?? false,
+          showHolidays: prefs.showHolidays ?? false,
           showChineseSexagenaryCycle: prefs.showChineseSexagenaryCycle ?? false,
           showMayanLongCountCycles: prefs.showMayanLongCountCycles ?? false,
           showMetonicCycle: prefs.showMetonicCycle ?? false,
@@ -69,6 +70,7 @@ function TimelineView({
         const macroCycleKeys = [
           'showSolsticesEquinoxes',
           'showMoonPhases',
+          'showHolidays',
           'showChineseSexagenaryCycle',
           'showMayanLongCountCycles',
           'showMetonicCycle',
@@ -109,9 +111,15 @@ function TimelineView({
     // Use truthy check instead of strict === true to handle undefined as false
     const showSolsticesEquinoxes = !!(preferences.showSolsticesEquinoxes);
     const showMoonPhases = !!(preferences.showMoonPhases);
+    const showHolidays = !!(preferences.showHolidays);
     
-    // Early return if both are disabled
-    if (!showSolsticesEquinoxes && !showMoonPhases) {
+    // Early return if all are disabled
+    if (!showSolsticesEquinoxes && !showMoonPhases && !showHolidays) {
+      return new Map<string, DateAstronomicalEvent[]>();
+    }
+    
+    // Century and millennium cells are too coarse for individual events
+    if (viewMode === 'century' || viewMode === 'millennium') {
       return new Map<string, DateAstronomicalEvent[]>();
     }
     
@@ -157,11 +165,12 @@ function TimelineView({
       startDate,
       endDate,
       showSolsticesEquinoxes,
-      showMoonPhases
+      showMoonPhases,
+      showHolidays
     );
     
     return events;
-  }, [selectedDate, viewMode, weekStartsOn, preferences.showSolsticesEquinoxes, preferences.showMoonPhases]);
+  }, [selectedDate, viewMode, weekStartsOn, preferences.showSolsticesEquinoxes, preferences.showMoonPhases, preferences.showHolidays, islamicCalendarVariant, islamicObserverRegion]);
 
 
   useEffect(() => {
@@ -188,6 +197,12 @@ function TimelineView({
       case 'decade':
         // For decade view, compare at year level
         return isSameYear(date, selectedDate);
+      case 'century':
+        // For century view, compare at decade level
+        return Math.floor(date.getFullYear() / 10) === Math.floor(selectedDate.getFullYear() / 10);
+      case 'millennium':
+        // For millennium view, compare at century level
+        return Math.floor(date.getFullYear() / 100) === Math.floor(selectedDate.getFullYear() / 100);
       default:
         return false;
     }
@@ -213,6 +228,16 @@ function TimelineView({
       return entryLookup.byYear.get(year) || [];
     }
     
+    // For century view, show decade entries
+    if (effectiveViewMode === 'century') {
+      return entryLookup.byDecade.get(Math.floor(date.getFullYear() / 10) * 10) || [];
+    }
+    
+    // For millennium view, show century entries
+    if (effectiveViewMode === 'millennium') {
+      return entryLookup.byCentury.get(Math.floor(date.getFullYear() / 100) * 100) || [];
+    }
+    
     return [];
   }, [entryLookup, viewMode]);
 
@@ -227,7 +252,7 @@ function TimelineView({
   }, [entryLookup, weekStartsOn]);
 
   // OPTIMIZATION: Get all entries that apply to a specific date
-  // This includes day, week, month, year, and decade entries
+  // This includes day, week, month, year, decade, century, and millennium entries
   // OPTIMIZATION: Early return optimizations to avoid unnecessary work when no entries exist
   const getAllEntriesForDate = useCallback((date: Date): JournalEntry[] => {
     const results: JournalEntry[] = [];
@@ -236,6 +261,8 @@ function TimelineView({
     const month = date.getMonth();
     const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
     const decadeStart = Math.floor(year / 10) * 10;
+    const centuryStart = Math.floor(year / 100) * 100;
+    const millenniumStart = Math.floor(year / 1000) * 1000;
     
     // Calculate week key once (needed for both check and lookup)
     const weekStart = getWeekStart(date, weekStartsOn);
@@ -247,9 +274,11 @@ function TimelineView({
     const hasMonthEntries = entryLookup.hasMonthEntryMonths.has(monthKey);
     const hasYearEntries = entryLookup.hasYearEntryYears.has(year);
     const hasDecadeEntries = entryLookup.hasDecadeEntryDecades.has(decadeStart);
+    const hasCenturyEntries = entryLookup.hasCenturyEntryCenturies.has(centuryStart);
+    const hasMillenniumEntries = entryLookup.hasMillenniumEntryMillennia.has(millenniumStart);
     
     // If no entries exist at any tier, return empty array immediately
-    if (!hasDayEntries && !hasWeekEntries && !hasMonthEntries && !hasYearEntries && !hasDecadeEntries) {
+    if (!hasDayEntries && !hasWeekEntries && !hasMonthEntries && !hasYearEntries && !hasDecadeEntries && !hasCenturyEntries && !hasMillenniumEntries) {
       return results;
     }
     
@@ -293,6 +322,22 @@ function TimelineView({
       }
     }
     
+    // Add century entries
+    if (hasCenturyEntries) {
+      const centuryEntries = entryLookup.byCentury.get(centuryStart);
+      if (centuryEntries) {
+        results.push(...centuryEntries);
+      }
+    }
+    
+    // Add millennium entries
+    if (hasMillenniumEntries) {
+      const millenniumEntries = entryLookup.byMillennium.get(millenniumStart);
+      if (millenniumEntries) {
+        results.push(...millenniumEntries);
+      }
+    }
+    
     return results;
   }, [entryLookup, weekStartsOn]);
 
@@ -904,21 +949,16 @@ function TimelineView({
   const handleBulkDelete = async () => {
     if (selectedEntryIds.size === 0) return;
     
-    const confirmMessage = `Are you sure you want to delete ${selectedEntryIds.size} ${selectedEntryIds.size === 1 ? 'entry' : 'entries'}? This action cannot be undone.`;
+    const confirmMessage = `Are you sure you want to delete ${selectedEntryIds.size} ${selectedEntryIds.size === 1 ? 'entry' : 'entries'}? Deleted entries can be restored from the Trash.`;
     if (!window.confirm(confirmMessage)) {
       return;
     }
 
     try {
-      const deletePromises = Array.from(selectedEntryIds).map(id => 
-        deleteJournalEntry(id)
-      );
-      await Promise.all(deletePromises);
+      await bulkUpdateJournalEntries(Array.from(selectedEntryIds), { type: 'trash', trashed: true });
       
       setSelectedEntryIds(new Set());
       setBulkEditMode(false);
-      // Entries are automatically refreshed via EntriesContext
-      window.dispatchEvent(new CustomEvent('journalEntrySaved'));
     } catch (error) {
       console.error('Error deleting entries:', error);
       alert(`Failed to delete entries: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -951,21 +991,16 @@ function TimelineView({
   const handleBulkDeleteMonthEntries = async () => {
     if (selectedMonthEntryIds.size === 0) return;
     
-    const confirmMessage = `Are you sure you want to delete ${selectedMonthEntryIds.size} ${selectedMonthEntryIds.size === 1 ? 'entry' : 'entries'}? This action cannot be undone.`;
+    const confirmMessage = `Are you sure you want to delete ${selectedMonthEntryIds.size} ${selectedMonthEntryIds.size === 1 ? 'entry' : 'entries'}? Deleted entries can be restored from the Trash.`;
     if (!window.confirm(confirmMessage)) {
       return;
     }
 
     try {
-      const deletePromises = Array.from(selectedMonthEntryIds).map(id => 
-        deleteJournalEntry(id)
-      );
-      await Promise.all(deletePromises);
+      await bulkUpdateJournalEntries(Array.from(selectedMonthEntryIds), { type: 'trash', trashed: true });
       
       setSelectedMonthEntryIds(new Set());
       setMonthEntriesBulkEditMode(false);
-      // Entries are automatically refreshed via EntriesContext
-      window.dispatchEvent(new CustomEvent('journalEntrySaved'));
     } catch (error) {
       console.error('Error deleting month entries:', error);
       alert(`Failed to delete entries: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -1464,10 +1499,85 @@ function TimelineView({
     );
   };
 
+  // Century and millennium views: ten decade or century cards, each opening its own tier
+  const renderSpanView = (cellRange: 'decade' | 'century') => {
+    const cells = cellRange === 'decade' ? getDecadesInCentury(selectedDate) : getCenturiesInMillennium(selectedDate);
+    const cellYears = cellRange === 'decade' ? 10 : 100;
+    
+    return (
+      <div className="timeline-decade-view">
+        <div className="decade-grid">
+          {cells.map((cell, idx) => {
+            const cellStart = cell.getFullYear();
+            const cellGradientColor = getZodiacColorForDecade(cellStart);
+            // Day entries are too fine to list on a span card
+            const cellEntries = prioritizeEntriesByTier(
+              filterEntriesByDateRangeOptimized(entryLookup, cell, createDate(cellStart + cellYears - 1, 11, 31), weekStartsOn, true),
+              cellRange
+            );
+            
+            return (
+              <div
+                key={idx}
+                className={`timeline-cell year-cell ${cellRange}-cell ${isSelected(cell) ? 'selected' : ''} ${cellEntries.length > 0 ? 'has-entries' : ''}`}
+                onClick={() => {
+                  playCalendarSelectionSound();
+                  onTimePeriodSelect(cell, cellRange);
+                }}
+                style={{ '--zodiac-gradient': cellGradientColor } as React.CSSProperties}
+              >
+                <div 
+                  className="cell-year-label"
+                  style={{ color: cellGradientColor }}
+                >
+                  {(() => {
+                    try {
+                      const calDate = dateToCalendarDate(cell, calendar);
+                      return `${calDate.year}s${calDate.era ? ' ' + calDate.era : ''}`;
+                    } catch (e) {
+                      return `${cellStart}s`;
+                    }
+                  })()}
+                </div>
+                <div className="cell-entries">
+                  {cellEntries.slice(0, 2).map((entry, eIdx) => {
+                    const entryColor = calculateEntryColor(entry);
+                    return (
+                      <div
+                        key={eIdx}
+                        className={`entry-badge entry-${entry.timeRange}`}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          playEntrySelectionSound();
+                          onEntrySelect(entry);
+                        }}
+                        title={entry.title}
+                        style={{ backgroundColor: entryColor }}
+                      >
+                        <span className="badge-title">{entry.title}</span>
+                      </div>
+                    );
+                  })}
+                  {cellEntries.length > 2 && (
+                    <div className="entry-badge more-entries">+{cellEntries.length - 2}</div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
   // Loading is handled at app level via EntriesContext
   // Entries are preloaded, so no need for component-level loading state
 
   switch (viewMode) {
+    case 'millennium':
+      return renderSpanView('century');
+    case 'century':
+      return renderSpanView('decade');
     case 'decade':
       return renderDecadeView();
     case 'year':
@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef } from 'react';
+import { bulkUpdateJournalEntries } from '../services/journalService';
+import { playSaveSound } from '../utils/audioUtils';
+import './TrashToast.css';
+
+const TOAST_DURATION_MS = 8000;
+
+interface TrashToastProps {
+  onRestored?: () => void;
+}
+
+/**
+ * Offers to undo the last delete. Deletes made while the toast is showing
+ * are grouped so a single Undo brings them all back.
+ */
+export default function TrashToast({ onRestored }: TrashToastProps) {
+  const [trashedIds, setTrashedIds] = useState<number[]>([]);
+  const hideTimerRef = useRef<number | null>(null);
+
+  const clearHideTimer = () => {
+    if (hideTimerRef.current !== null) {
+      window.clearTimeout(hideTimerRef.current);
+      hideTimerRef.current = null;
+    }
+  };
+
+  useEffect(() => {
+    const handleTrashed = (event: Event) => {
+      const ids = (event as CustomEvent<{ ids: number[] }>).detail?.ids;
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return;
+      }
+      setTrashedIds(prev => Array.from(new Set([...prev, ...ids])));
+      clearHideTimer();
+      hideTimerRef.current = window.setTimeout(() => {
+        hideTimerRef.current = null;
+        setTrashedIds([]);
+      }, TOAST_DURATION_MS);
+    };
+
+    window.addEventListener('journalEntryTrashed', handleTrashed);
+    return () => {
+      window.removeEventListener('journalEntryTrashed', handleTrashed);
+      clearHideTimer();
+    };
+  }, []);
+
+  if (trashedIds.length === 0) {
+    return null;
+  }
+
+  const handleUndo = async () => {
+    const ids = trashedIds;
+    clearHideTimer();
+    setTrashedIds([]);
+    try {
+      await bulkUpdateJournalEntries(ids, { type: 'trash', trashed: false });
+      playSaveSound();
+      onRestored?.();
+    } catch (error) {
+      console.error('[TrashToast] Error restoring entries:', error);
+      alert('Failed to restore the deleted entries. They are still in the Trash.');
+    }
+  };
+
+  const handleDismiss = () => {
+    clearHideTimer();
+    setTrashedIds([]);
+  };
+
+  return (
+    <div className="trash-toast" role="status">
+      <span>
+        {trashedIds.length === 1 ? 'Entry moved to the Trash' : `${trashedIds.length} entries moved to the Trash`}
+      </span>
+      <button className="trash-toast-undo" onClick={handleUndo}>
+        Undo
+      </button>
+      <button className="trash-toast-dismiss" onClick={handleDismiss} title="Dismiss">
+        ✕
+      </button>
+    </div>
+  );
+}
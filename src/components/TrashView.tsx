@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback } from 'react';
+import { JournalEntry } from '../types';
+import { getTrashedEntries, restoreJournalEntry, purgeTrashedEntries, emptyTrash } from '../services/journalService';
+import { parseISODate } from '../utils/dateUtils';
+import { useCalendar } from '../contexts/CalendarContext';
+import { getTimeRangeLabelInCalendar } from '../utils/calendars/timeRangeConverter';
+import { playDeleteSound, playSaveSound } from '../utils/audioUtils';
+import './TrashView.css';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TrashViewProps {
+  onClose: () => void;
+}
+
+export default function TrashView({ onClose }: TrashViewProps) {
+  const { calendar } = useCalendar();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retentionDays, setRetentionDays] = useState(30);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await getTrashedEntries());
+    } catch (error) {
+      console.error('[TrashView] Error loading trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+    window.electronAPI?.getPreference('trashRetentionDays')
+      .then(days => setRetentionDays(days ?? 30))
+      .catch(error => console.error('[TrashView] Error loading trash retention:', error));
+
+    // Entries deleted while the trash is open show up right away
+    window.addEventListener('journalEntryTrashed', loadEntries);
+    window.addEventListener('journalEntrySaved', loadEntries);
+    return () => {
+      window.removeEventListener('journalEntryTrashed', loadEntries);
+      window.removeEventListener('journalEntrySaved', loadEntries);
+    };
+  }, [loadEntries]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const formatEntryDate = (entry: JournalEntry): string => {
+    try {
+      return getTimeRangeLabelInCalendar(parseISODate(entry.date), entry.timeRange, calendar);
+    } catch {
+      return entry.date;
+    }
+  };
+
+  const describeExpiry = (entry: JournalEntry): string => {
+    const deletedAt = new Date(entry.deletedAt!);
+    const deleted = `Deleted ${deletedAt.toLocaleString()}`;
+    if (retentionDays <= 0) {
+      return deleted;
+    }
+    const daysLeft = Math.max(0, Math.ceil((deletedAt.getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+    return `${deleted} · removed permanently in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`;
+  };
+
+  const handleRestore = async (entry: JournalEntry) => {
+    try {
+      await restoreJournalEntry(entry.id!);
+      playSaveSound();
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+      window.dispatchEvent(new CustomEvent('journalEntrySaved'));
+    } catch (error) {
+      console.error('[TrashView] Error restoring entry:', error);
+      alert('Failed to restore the entry. Please try again.');
+    }
+  };
+
+  const handleDeleteForever = async (entry: JournalEntry) => {
+    playDeleteSound();
+    if (!confirm(`Permanently delete "${entry.title || 'Untitled'}"? Its history and unused attachments are deleted too. This cannot be undone.`)) {
+      return;
+    }
+    try {
+      await purgeTrashedEntries([entry.id!]);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (error) {
+      console.error('[TrashView] Error deleting entry:', error);
+      alert('Failed to delete the entry. Please try again.');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    playDeleteSound();
+    if (!confirm(`Permanently delete all ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} in the Trash? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      await emptyTrash();
+      setEntries([]);
+    } catch (error) {
+      console.error('[TrashView] Error emptying trash:', error);
+      alert('Failed to empty the Trash. Please try again.');
+    }
+  };
+
+  return (
+    <div className="trash-view">
+      <div className="trash-header">
+        <h2>Trash</h2>
+        <button
+          className="trash-empty-button"
+          onClick={handleEmptyTrash}
+          disabled={entries.length === 0}
+        >
+          Empty Trash
+        </button>
+        <button className="trash-close-button" onClick={onClose} title="Close trash">
+          ✕
+        </button>
+      </div>
+      <p className="trash-retention">
+        {retentionDays > 0
+          ? `Deleted entries are kept for ${retentionDays} days, then removed permanently.`
+          : 'Deleted entries are kept until the Trash is emptied.'}
+      </p>
+
+      <div className="trash-list">
+        {loading ? (
+          <div className="trash-message">Loading…</div>
+        ) : entries.length === 0 ? (
+          <div className="trash-message">The Trash is empty.</div>
+        ) : (
+          entries.map(entry => (
+            <div key={entry.id} className="trash-item">
+              <div className="trash-item-text">
+                <div className="trash-item-title">{entry.title || 'Untitled'}</div>
+                <div className="trash-item-meta">
+                  {formatEntryDate(entry)} · {describeExpiry(entry)}
+                </div>
+              </div>
+              <div className="trash-item-actions">
+                <button onClick={() => handleRestore(entry)}>Restore</button>
+                <button className="trash-delete-button" onClick={() => handleDeleteForever(entry)}>
+                  Delete Forever
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
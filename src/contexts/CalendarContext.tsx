@@ -9,6 +9,12 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { CalendarSystem, CalendarDate, CALENDAR_INFO } from '../utils/calendars/types';
 import { dateToCalendarDate, calendarDateToDate, formatCalendarDate } from '../utils/calendars/calendarConverter';
+import {
+  IslamicCalendarVariant,
+  IslamicObserverRegion,
+  setIslamicCalendarVariant as applyIslamicCalendarVariant,
+  setIslamicObserverRegion as applyIslamicObserverRegion,
+} from '../utils/calendars/islamic';
 import { parseISODate } from '../utils/dateUtils';
 
 interface CalendarContextType {
@@ -16,6 +22,12 @@ interface CalendarContextType {
   calendar: CalendarSystem;
   setCalendar: (calendar: CalendarSystem) => void;
   
+  // Reckoning of the Islamic calendar (per profile)
+  islamicCalendarVariant: IslamicCalendarVariant;
+  setIslamicCalendarVariant: (variant: IslamicCalendarVariant) => void;
+  islamicObserverRegion: IslamicObserverRegion;
+  setIslamicObserverRegion: (region: IslamicObserverRegion) => void;
+  
   // Convert Date to current calendar
   dateToCalendar: (date: Date) => CalendarDate;
   
@@ -39,8 +51,23 @@ const CalendarContext = createContext<CalendarContextType | undefined>(undefined
 
 export function CalendarProvider({ children }: { children: React.ReactNode }) {
   const [calendar, setCalendarState] = useState<CalendarSystem>('gregorian');
+  const [islamicCalendarVariant, setIslamicCalendarVariantState] = useState<IslamicCalendarVariant>('tabular');
+  const [islamicObserverRegion, setIslamicObserverRegionState] = useState<IslamicObserverRegion>('mecca');
   const [preferencesLoaded, setPreferencesLoaded] = useState(false);
 
+  // The converters read the variant and region synchronously, so apply them before re-rendering
+  const applyIslamicVariant = useCallback((variant: unknown) => {
+    const value = typeof variant === 'string' ? variant as IslamicCalendarVariant : 'tabular';
+    applyIslamicCalendarVariant(value);
+    setIslamicCalendarVariantState(value);
+  }, []);
+
+  const applyIslamicRegion = useCallback((region: unknown) => {
+    const value = typeof region === 'string' ? region as IslamicObserverRegion : 'mecca';
+    applyIslamicObserverRegion(value);
+    setIslamicObserverRegionState(value);
+  }, []);
+
   // Load calendar preference from storage (use 'calendar' key to match profile database)
   useEffect(() => {
     const loadCalendar = async () => {
@@ -50,6 +77,8 @@ export function CalendarProvider({ children }: { children: React.ReactNode }) {
           if (pref && typeof pref === 'string') {
             setCalendarState(pref as CalendarSystem);
           }
+          applyIslamicVariant(await window.electronAPI.getPreference('islamicCalendarVariant'));
+          applyIslamicRegion(await window.electronAPI.getPreference('islamicObserverRegion'));
           setPreferencesLoaded(true);
         } catch {
           setPreferencesLoaded(true);
@@ -71,6 +100,8 @@ export function CalendarProvider({ children }: { children: React.ReactNode }) {
         if (pref && typeof pref === 'string') {
           setCalendarState(pref as CalendarSystem);
         }
+        applyIslamicVariant(await window.electronAPI.getPreference('islamicCalendarVariant'));
+        applyIslamicRegion(await window.electronAPI.getPreference('islamicObserverRegion'));
       };
       
       (window.electronAPI as any).onProfileSwitched(handleProfileSwitch);
@@ -81,7 +112,7 @@ export function CalendarProvider({ children }: { children: React.ReactNode }) {
         }
       };
     }
-  }, []);
+  }, [applyIslamicVariant, applyIslamicRegion]);
 
   // Save calendar preference when it changes (use 'calendar' key to match profile database)
   const setCalendar = useCallback(async (newCalendar: CalendarSystem) => {
@@ -104,27 +135,59 @@ export function CalendarProvider({ children }: { children: React.ReactNode }) {
     }
   }, [preferencesLoaded]);
 
+  // Save Islamic calendar variant preference when it changes
+  const setIslamicCalendarVariant = useCallback(async (variant: IslamicCalendarVariant) => {
+    applyIslamicVariant(variant);
+    if (window.electronAPI && preferencesLoaded) {
+      try {
+        const result = await window.electronAPI.setPreference('islamicCalendarVariant', variant);
+        if (result && !result.success) {
+          console.error('[CalendarContext] Failed to save Islamic calendar variant preference');
+        }
+      } catch (error) {
+        console.error('[CalendarContext] ❌ Error saving Islamic calendar variant preference:', error);
+      }
+    }
+  }, [applyIslamicVariant, preferencesLoaded]);
+
+  // Save the region from which the Islamic crescent is sighted when it changes
+  const setIslamicObserverRegion = useCallback(async (region: IslamicObserverRegion) => {
+    applyIslamicRegion(region);
+    if (window.electronAPI && preferencesLoaded) {
+      try {
+        const result = await window.electronAPI.setPreference('islamicObserverRegion', region);
+        if (result && !result.success) {
+          console.error('[CalendarContext] Failed to save Islamic observer region preference');
+        }
+      } catch (error) {
+        console.error('[CalendarContext] ❌ Error saving Islamic observer region preference:', error);
+      }
+    }
+  }, [applyIslamicRegion, preferencesLoaded]);
+
+  // Conversions depend on the Islamic variant and region too, so they change identity with them
+
   // Convert Date to current calendar
   const dateToCalendar = useCallback((date: Date): CalendarDate => {
     return dateToCalendarDate(date, calendar);
-  }, [calendar]);
+  }, [calendar, islamicCalendarVariant, islamicObserverRegion]);
 
   // Convert calendar date to Date
   const calendarToDate = useCallback((calendarDate: CalendarDate): Date => {
     return calendarDateToDate(calendarDate);
-  }, []);
+  }, [islamicCalendarVariant, islamicObserverRegion]);
 
   // Convert date string (ISO format) to calendar date
   const dateStringToCalendar = useCallback((dateStr: string): CalendarDate => {
     const date = parseISODate(dateStr);
     return dateToCalendarDate(date, calendar);
-  }, [calendar]);
+  }, [calendar, islamicCalendarVariant, islamicObserverRegion]);
 
   // Format date in current calendar
   const formatDate = useCallback((date: Date, format: string = 'YYYY-MM-DD'): string => {
     const calendarDate = dateToCalendarDate(date, calendar);
     return formatCalendarDate(calendarDate, format);
-  }, [calendar]);
+  }, [calendar, islamicCalendarVariant, islamicObserverRegion]);
 
   // Format calendar date
   const formatCalendarDateFunc = useCallback((calendarDate: CalendarDate, format: string = 'YYYY-MM-DD'): string => {
@@ -139,6 +202,10 @@ export function CalendarProvider({ children }: { children: React.ReactNode }) {
   const value: CalendarContextType = {
     calendar,
     setCalendar,
+    islamicCalendarVariant,
+    setIslamicCalendarVariant,
+    islamicObserverRegion,
+    setIslamicObserverRegion,
     dateToCalendar,
     calendarToDate,
     dateStringToCalendar,
@@ -188,6 +188,8 @@ function ExportProfileSelector() {
       rtf: 'Rich Text Format',
       pdf: 'PDF',
       csv: 'CSV',
+      ics: 'iCalendar',
+      bundle: 'Bundle with attachments',
       dec: 'Decades',
     };
     return names[format] || format;
@@ -49,6 +49,8 @@ type ProfileSelectorElectronAPI = {
   createProfile: (name: string) => Promise<Profile>;
   exportProfileDatabase: (profileId: string) => Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; path?: string }>;
   exportProfileArchive: (profileId: string, archiveFormat?: 'zip' | '7z', password?: string) => Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; path?: string }>;
+  selectProfileArchive: () => Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; fileName?: string; encrypted?: boolean; profileName?: string; exportDate?: string }>;
+  importProfileArchive: (password?: string, profileName?: string) => Promise<{ success: boolean; error?: string; message?: string; profile?: Profile; attachmentCount?: number }>;
   deleteProfile: (profileId: string) => Promise<{ success: boolean }>;
   renameProfile: (profileId: string, newName: string) => Promise<Profile>;
   switchProfile: (profileId: string) => Promise<{ success: boolean; profileId: string }>;
@@ -118,6 +120,12 @@ function ProfileSelector() {
   const [exportPasswordInput, setExportPasswordInput] = useState('');
   const [exportPasswordError, setExportPasswordError] = useState<string | null>(null);
   const [pendingExportAction, setPendingExportAction] = useState<((password: string) => Promise<void>) | null>(null);
+  // Import profile from archive
+  const [importArchive, setImportArchive] = useState<{ fileName: string; encrypted: boolean; exportDate?: string } | null>(null);
+  const [importArchiveName, setImportArchiveName] = useState('');
+  const [importArchivePassword, setImportArchivePassword] = useState('');
+  const [importArchiveError, setImportArchiveError] = useState<string | null>(null);
+  const [importingArchive, setImportingArchive] = useState(false);
   const newProfileNameInputRef = React.useRef<HTMLInputElement>(null);
 
   // Load theme from profile selector's own localStorage (independent from profile preferences)
@@ -499,6 +507,70 @@ function ProfileSelector() {
     }
   };
 
+  const closeImportArchiveDialog = () => {
+    setImportArchive(null);
+    setImportArchiveName('');
+    setImportArchivePassword('');
+    setImportArchiveError(null);
+  };
+
+  const handleSelectProfileArchive = async () => {
+    try {
+      setError(null);
+      const api = getProfileSelectorAPI();
+      const result = await api.selectProfileArchive();
+      if (result.canceled) {
+        return;
+      }
+      if (!result.success) {
+        setError(result.message || 'The archive could not be read');
+        return;
+      }
+      playAddSound();
+      setImportArchive({ fileName: result.fileName || '', encrypted: !!result.encrypted, exportDate: result.exportDate });
+      setImportArchiveName(result.profileName || '');
+      setImportArchivePassword('');
+      setImportArchiveError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open archive');
+      console.error('Error selecting profile archive:', err);
+    }
+  };
+
+  const handleImportProfileArchive = async () => {
+    if (!importArchive) return;
+    if (importArchive.encrypted && !importArchivePassword) {
+      setImportArchiveError('Please enter the archive password');
+      return;
+    }
+
+    try {
+      setImportingArchive(true);
+      setImportArchiveError(null);
+      const api = getProfileSelectorAPI();
+      const result = await api.importProfileArchive(
+        importArchive.encrypted ? importArchivePassword : undefined,
+        importArchiveName.trim() || undefined
+      );
+      if (result.success) {
+        playNewEntrySound();
+        closeImportArchiveDialog();
+        await loadProfiles();
+        return;
+      }
+      if (result.error === 'password_required') {
+        // Some archives only reveal that they are encrypted when extracted
+        setImportArchive({ ...importArchive, encrypted: true });
+      }
+      setImportArchiveError(result.message || 'Failed to import profile archive');
+    } catch (err) {
+      setImportArchiveError(err instanceof Error ? err.message : 'Failed to import profile archive');
+      console.error('Error importing profile archive:', err);
+    } finally {
+      setImportingArchive(false);
+    }
+  };
+
   const handleDeleteProfile = async (profile: Profile) => {
     if (profile.isDefault) {
       setError('Cannot delete the default profile');
@@ -1148,8 +1220,89 @@ function ProfileSelector() {
           >
             + Create New Profile
           </button>
+          <button
+            onClick={handleSelectProfileArchive}
+            className="btn-secondary btn-import-archive"
+          >
+            Import Profile from Archive...
+          </button>
         </div>
 
+        {importArchive && (
+          <div className="modal-overlay" onClick={() => {
+            if (importingArchive) return;
+            playCancelSound();
+            closeImportArchiveDialog();
+          }}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+              <h2>Import Profile from Archive</h2>
+              <p>
+                {importArchive.fileName}
+                {importArchive.exportDate ? ` (exported ${new Date(importArchive.exportDate).toLocaleString()})` : ''} will be restored
+                as a new profile with its entries and attachments. Your existing profiles are not changed.
+              </p>
+              <input
+                type="text"
+                value={importArchiveName}
+                onChange={(e) => {
+                  setImportArchiveName(e.target.value);
+                  playTypingSound();
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleImportProfileArchive();
+                  if (e.key === 'Escape' && !importingArchive) {
+                    playCancelSound();
+                    closeImportArchiveDialog();
+                  }
+                }}
+                placeholder="Profile name (defaults to the archived profile's name)"
+                autoFocus
+                className="create-input"
+              />
+              {importArchive.encrypted && (
+                <input
+                  type="password"
+                  value={importArchivePassword}
+                  onChange={(e) => {
+                    setImportArchivePassword(e.target.value);
+                    setImportArchiveError(null);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleImportProfileArchive();
+                  }}
+                  placeholder="Archive password"
+                  className="create-input"
+                  style={{ marginTop: '10px' }}
+                />
+              )}
+              {importArchiveError && (
+                <div className="error-message" style={{ marginTop: '10px', marginBottom: '10px' }}>
+                  {importArchiveError}
+                </div>
+              )}
+              <div className="modal-actions">
+                <button
+                  onClick={handleImportProfileArchive}
+                  className="btn-primary"
+                  disabled={importingArchive || (importArchive.encrypted && !importArchivePassword)}
+                >
+                  {importingArchive ? 'Importing...' : 'Import'}
+                </button>
+                <button
+                  onClick={() => {
+                    playCancelSound();
+                    closeImportArchiveDialog();
+                  }}
+                  className="btn-secondary"
+                  disabled={importingArchive}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {showCreateDialog && (
           <div className="modal-overlay" onClick={() => {
             playCancelSound(); // Play cancel sound when closing dialog via overlay
@@ -1,15 +1,28 @@
-import { JournalEntry, TimeRange } from '../types';
-import { formatDate, getCanonicalDate, createDate } from '../utils/dateUtils';
+import { JournalEntry, TimeRange, BulkEntryOperation, ExportFormat, EntrySearchResult, SearchQueryResponse, SearchFilters, SavedSearch, CalendarPeriod } from '../types';
+import { formatDate, getCanonicalDate, createDate, getYearSpanStart, YearTimeRange } from '../utils/dateUtils';
+import { usesNativePeriods, getCalendarPeriodBounds, NativePeriodRange } from '../utils/calendars/calendarPeriods';
+import { jdnToISODateString, formatISODateParts } from '../utils/calendars/julianDayUtils';
 
-export async function getEntryForDate(date: Date, timeRange: TimeRange): Promise<JournalEntry | null> {
+export async function getEntryForDate(date: Date, timeRange: TimeRange, calendar?: string): Promise<JournalEntry | null> {
   if (!window.electronAPI) {
     throw new Error('Electron API not available');
   }
-  const canonicalDate = getCanonicalDate(date, timeRange);
+  const canonicalDate = getCanonicalDate(date, timeRange, 0, calendar);
   const dateStr = formatDate(canonicalDate);
   return await window.electronAPI.getEntry(dateStr, timeRange);
 }
 
+/**
+ * Get the entry of a millennium/century/decade/year tier from the year number alone,
+ * for years beyond the range of JavaScript Date
+ */
+export async function getEntryForYear(year: number, timeRange: YearTimeRange): Promise<JournalEntry | null> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  return await window.electronAPI.getEntry(formatISODateParts(getYearSpanStart(year, timeRange), 1, 1), timeRange);
+}
+
 export async function saveJournalEntry(entry: JournalEntry): Promise<JournalEntry> {
   if (!window.electronAPI) {
     throw new Error('Electron API not available');
@@ -19,18 +32,111 @@ export async function saveJournalEntry(entry: JournalEntry): Promise<JournalEntr
   return result.entry || entry;
 }
 
+/**
+ * Move an entry to the trash. Fires 'journalEntryTrashed' so the main window can offer to undo it.
+ */
 export async function deleteJournalEntry(id: number): Promise<void> {
   if (!window.electronAPI) {
     throw new Error('Electron API not available');
   }
   await window.electronAPI.deleteEntry(id);
+  window.dispatchEvent(new CustomEvent('journalEntryTrashed', { detail: { ids: [id] } }));
 }
 
-export async function getEntriesForDate(date: Date, timeRange: TimeRange): Promise<JournalEntry[]> {
+/**
+ * Apply one change to many entries in a single transaction. Fires 'journalEntrySaved' so
+ * views reload, and 'journalEntryTrashed' when the entries were moved to the trash.
+ *
+ * @returns Number of entries that changed
+ */
+export async function bulkUpdateJournalEntries(ids: number[], operation: BulkEntryOperation): Promise<number> {
   if (!window.electronAPI) {
     throw new Error('Electron API not available');
   }
+  const result = await window.electronAPI.bulkUpdateEntries(ids, operation);
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to update entries');
+  }
+  window.dispatchEvent(new CustomEvent('journalEntrySaved'));
+  if (operation.type === 'trash' && operation.trashed) {
+    window.dispatchEvent(new CustomEvent('journalEntryTrashed', { detail: { ids } }));
+  }
+  return result.updated || 0;
+}
+
+/**
+ * Move entries to the period of another date and time range
+ */
+export async function moveJournalEntries(ids: number[], date: Date, timeRange: TimeRange): Promise<number> {
   const canonicalDate = getCanonicalDate(date, timeRange);
+  return bulkUpdateJournalEntries(ids, { type: 'move', date: formatDate(canonicalDate), timeRange });
+}
+
+/**
+ * Export the given entries to a file chosen by the user
+ *
+ * @returns Whether a file was written (false when the user canceled)
+ */
+export async function exportJournalEntries(ids: number[], format: ExportFormat): Promise<boolean> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  const result = await window.electronAPI.exportEntries(format, undefined, ids);
+  if (!result.success && !result.canceled) {
+    throw new Error(result.message || result.error || 'Export failed');
+  }
+  return result.success;
+}
+
+export async function getTrashedEntries(): Promise<JournalEntry[]> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  return await window.electronAPI.getTrashedEntries();
+}
+
+export async function restoreJournalEntry(id: number): Promise<void> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  const result = await window.electronAPI.restoreEntry(id);
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to restore entry');
+  }
+}
+
+/**
+ * Permanently delete entries from the trash
+ *
+ * @returns Number of entries deleted
+ */
+export async function purgeTrashedEntries(ids: number[]): Promise<number> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  const result = await window.electronAPI.purgeTrashedEntries(ids);
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to delete entries');
+  }
+  return result.deleted || 0;
+}
+
+export async function emptyTrash(): Promise<number> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  const result = await window.electronAPI.emptyTrash();
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to empty the trash');
+  }
+  return result.deleted || 0;
+}
+
+export async function getEntriesForDate(date: Date, timeRange: TimeRange, calendar?: string): Promise<JournalEntry[]> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  const canonicalDate = getCanonicalDate(date, timeRange, 0, calendar);
   const dateStr = formatDate(canonicalDate);
   return await window.electronAPI.getEntriesByDateRange(dateStr, timeRange);
 }
@@ -42,9 +148,56 @@ export async function searchJournalEntries(query: string): Promise<JournalEntry[
   return await window.electronAPI.searchEntries(query);
 }
 
+export async function searchJournalEntriesRanked(query: string, includeArchived: boolean = false): Promise<EntrySearchResult[]> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  return await window.electronAPI.searchEntriesFullText(query, includeArchived);
+}
+
+export async function searchJournalEntriesByQuery(query: string, filters?: SearchFilters): Promise<SearchQueryResponse> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  return await window.electronAPI.searchEntriesByQuery(query, filters);
+}
+
+export async function getSavedSearches(): Promise<SavedSearch[]> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  return await window.electronAPI.getAllSavedSearches();
+}
+
+export async function saveSavedSearch(search: SavedSearch): Promise<SavedSearch> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  const result = await window.electronAPI.saveSavedSearch(search);
+  if (!result.success || !result.search) {
+    throw new Error(result.error || 'Failed to save search');
+  }
+  return result.search;
+}
+
+export async function deleteSavedSearch(id: number): Promise<void> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  await window.electronAPI.deleteSavedSearch(id);
+}
+
+export async function getSavedSearchCounts(): Promise<Record<number, number>> {
+  if (!window.electronAPI) {
+    throw new Error('Electron API not available');
+  }
+  return await window.electronAPI.getSavedSearchCounts();
+}
+
 export async function getEntriesForRange(
   range: TimeRange,
-  date: Date
+  date: Date,
+  calendar?: string
 ): Promise<JournalEntry[]> {
   if (!window.electronAPI) {
     throw new Error('Electron API not available');
@@ -53,6 +206,12 @@ export async function getEntriesForRange(
   let value: number;
   
   switch (range) {
+    case 'millennium':
+      value = Math.floor(date.getFullYear() / 1000);
+      break;
+    case 'century':
+      value = Math.floor(date.getFullYear() / 100);
+      break;
     case 'decade':
       const year = date.getFullYear();
       value = Math.floor(year / 10);
@@ -83,6 +242,17 @@ export async function getEntriesForRange(
       break;
   }
   
-  return await window.electronAPI.getEntriesByRange(range, value);
+  // Millennia, centuries, decades, years and months of other calendars don't line up with Gregorian ones - send their bounds
+  let period: CalendarPeriod | undefined;
+  if (usesNativePeriods(calendar, range)) {
+    const bounds = getCalendarPeriodBounds(date, range as NativePeriodRange, calendar);
+    period = {
+      calendar,
+      startDate: jdnToISODateString(bounds.startJDN),
+      endDate: jdnToISODateString(bounds.endJDN),
+    };
+  }
+  
+  return await window.electronAPI.getEntriesByRange(range, value, period);
 }
 
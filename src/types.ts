@@ -1,7 +1,7 @@
 export interface JournalEntry {
   id?: number;
   date: string; // ISO date string (YYYY-MM-DD) - canonical date for the time range
-  timeRange: 'decade' | 'year' | 'month' | 'week' | 'day'; // Time scale for this entry
+  timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day'; // Time scale for this entry
   hour?: number | null; // Optional hour (0-23), null when cleared
   minute?: number | null; // Optional minute (0-59), null when cleared
   second?: number | null; // Optional second (0-59), null when cleared
@@ -11,9 +11,13 @@ export interface JournalEntry {
   updatedAt: string; // ISO datetime string
   tags?: string[];
   linkedEntries?: number[]; // Array of entry IDs this entry is linked to
+  links?: EntryLinkTarget[]; // Typed outgoing links; when saved, replaces the links implied by linkedEntries
   archived?: boolean; // Whether this entry is archived
   pinned?: boolean; // Whether this entry is pinned/favorited
   attachments?: EntryAttachment[]; // Array of file attachments
+  calendar?: string; // Calendar system the entry's period is defined in (e.g. 'hebrew'); Gregorian when absent
+  periodEnd?: string; // Last day (YYYY-MM-DD) of a calendar-native decade/year/month period
+  deletedAt?: string; // ISO datetime the entry was moved to the trash; absent for entries not in the trash
 }
 
 export interface EntryAttachment {
@@ -23,11 +27,81 @@ export interface EntryAttachment {
   fileSize: number; // File size in bytes
   mimeType: string; // MIME type of the file
   createdAt: string; // When attachment was added
+  hash?: string; // SHA-256 of the file contents; missing for files stored before deduplication
 }
 
-export type TimeRange = 'decade' | 'year' | 'month' | 'week' | 'day';
+export type ThumbnailSize = 'small' | 'large';
 
-export type ExportFormat = 'markdown' | 'text' | 'json' | 'rtf' | 'pdf' | 'dec' | 'csv';
+export interface AttachmentIssue {
+  entryId: number;
+  attachmentId: string;
+  fileName: string;
+}
+
+export interface AttachmentRepairSummary {
+  relinked: number; // Records pointed at an intact copy of the same contents
+  removedRecords: number; // Records of missing files removed from their entries
+  migrated: number; // Records moved to shared, content-addressed files
+  deletedFiles: number;
+  freedBytes: number;
+}
+
+export interface AttachmentMaintenanceReport {
+  checkedAttachments: number; // Attachment records across all entries
+  storedFiles: number; // Distinct files those records point to
+  missing: AttachmentIssue[];
+  corrupted: AttachmentIssue[]; // Unreadable, or no longer matching their hash
+  orphanedFiles: string[]; // Files in the profile's attachment folder that no entry uses
+  unmigrated: number; // Records still pointing at per-entry copies from before deduplication
+  reclaimableBytes: number; // Held by orphaned files and duplicate copies
+  repair?: AttachmentRepairSummary; // Present when the check also repaired what it found
+}
+
+export type TimeRange = 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day';
+
+/**
+ * A decade/year/month period defined in a non-Gregorian calendar, as Gregorian bounds
+ */
+export interface CalendarPeriod {
+  calendar: string;
+  startDate: string; // First day (YYYY-MM-DD)
+  endDate: string; // Last day (YYYY-MM-DD)
+}
+
+export type ExportFormat = 'markdown' | 'text' | 'json' | 'rtf' | 'pdf' | 'dec' | 'csv' | 'ics' | 'bundle';
+
+// Supported import formats
+export type ImportFormat = 'json' | 'markdown' | 'ics' | 'dayone' | 'journey' | 'obsidian' | 'bundle';
+
+// How a likely duplicate is handled on import
+export type ImportConflictResolution = 'skip' | 'overwrite' | 'keep-both';
+
+// One row of the dry-run preview shown before an import is committed
+export interface ImportPreviewItem {
+  index: number; // Position in the parsed file
+  date: string;
+  timeRange: TimeRange;
+  title: string;
+  snippet: string; // Start of the content, whitespace collapsed
+  tags: string[];
+  attachmentCount: number;
+  duplicateOf?: { id: number; title: string; updatedAt: string }; // Stored entry with the same date, range and text
+  duplicateOfImportIndex?: number; // Earlier entry in the same file with the same date, range and text
+}
+
+// The user's answer to an import preview; null cancels the import
+export interface ImportDecision {
+  resolutions: Record<number, ImportConflictResolution>; // Keyed by ImportPreviewItem.index
+}
+
+// Outcome of the most recent database backup of a profile
+export interface BackupStatus {
+  lastAttemptAt?: string;
+  lastSuccessAt?: string;
+  lastBackupPath?: string;
+  lastError?: string; // Set when the last attempt failed
+  automatic?: boolean; // Whether the last attempt was made by the scheduler
+}
 
 export interface ExportMetadata {
   // Project/Export Identity
@@ -95,6 +169,97 @@ export interface EntryVersion {
   versionCreatedAt: string;
 }
 
+// How an entry relates to the entry it links to; 'related' is a plain link.
+// 'mentions' links come from [[...]] references in the content and are managed on save.
+export type EntryRelation = 'related' | 'follows-up' | 'contradicts' | 'same-event' | 'caused-by' | 'mentions';
+
+// Relations that can be chosen by hand
+export const ENTRY_RELATIONS: EntryRelation[] = ['related', 'follows-up', 'contradicts', 'same-event', 'caused-by'];
+
+export interface EntryLinkTarget {
+  targetId: number;
+  relation: EntryRelation;
+}
+
+// A stored link between two entries, with the entry at the other end
+export interface EntryLink {
+  id: number;
+  sourceId: number;
+  targetId: number;
+  relation: EntryRelation;
+  createdAt: string;
+  entry: JournalEntry;
+}
+
+/**
+ * Links of one entry: the entries it links to and the entries linking to it (backlinks)
+ */
+export interface EntryLinks {
+  outgoing: EntryLink[];
+  incoming: EntryLink[];
+}
+
+/**
+ * A full-text search hit, ranked by bm25 (lower rank = better match).
+ * Snippets mark matched terms with SEARCH_HIGHLIGHT_START / SEARCH_HIGHLIGHT_END.
+ */
+export interface EntrySearchResult {
+  entry: JournalEntry;
+  rank: number;
+  titleSnippet: string; // Full title with matches highlighted
+  contentSnippet: string; // Excerpt of the content around the best match
+}
+
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_END = '\u0003';
+
+/**
+ * Response for a structured search query (tag:, range:, after:, ...)
+ */
+export interface SearchQueryResponse {
+  results: EntrySearchResult[];
+  errors: string[]; // Filters that could not be understood
+}
+
+/**
+ * Filter panel selections from SearchView, applied on top of the query string
+ */
+export interface SearchFilters {
+  tags?: string[];
+  timeRanges?: TimeRange[];
+  startDate?: string; // Inclusive (YYYY-MM-DD)
+  endDate?: string; // Inclusive (YYYY-MM-DD)
+}
+
+export type SearchSortField = 'relevance' | 'date' | 'title' | 'timeRange';
+
+/**
+ * A search saved from SearchView, shown as a smart collection in JournalList
+ */
+export interface SavedSearch {
+  id?: number;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  sortBy: SearchSortField;
+  sortOrder: 'asc' | 'desc';
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A change applied to many selected entries at once, in a single transaction.
+ * 'trash' with trashed: false restores entries from the trash; a 'move' sets the
+ * canonical date of the new period.
+ */
+export type BulkEntryOperation =
+  | { type: 'add-tags'; tags: string[] }
+  | { type: 'remove-tags'; tags: string[] }
+  | { type: 'archive'; archived: boolean }
+  | { type: 'pin'; pinned: boolean }
+  | { type: 'move'; date: string; timeRange: TimeRange }
+  | { type: 'trash'; trashed: boolean };
+
 export interface EntryTemplate {
   id?: number;
   name: string;
@@ -107,7 +272,7 @@ export interface EntryTemplate {
 }
 
 export interface Preferences {
-  defaultViewMode?: 'decade' | 'year' | 'month' | 'week' | 'day';
+  defaultViewMode?: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day';
   windowWidth?: number;
   windowHeight?: number;
   windowX?: number;
@@ -124,7 +289,7 @@ export interface Preferences {
   minimapCrystalUseDefaultColors?: boolean; // Override minimap crystal theming to always use default colors
   restoreLastView?: boolean;
   lastViewedDate?: string;
-  lastViewedMode?: 'decade' | 'year' | 'month' | 'week' | 'day';
+  lastViewedMode?: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day';
   defaultCalendar?: string; // Calendar system (e.g., 'gregorian', 'islamic', 'hebrew') - deprecated, use 'calendar' instead
   calendar?: string; // Calendar system (e.g., 'gregorian', 'islamic', 'hebrew') - syncs with active profile
   showMultipleCalendars?: boolean; // Show date in multiple calendars simultaneously
@@ -137,11 +302,24 @@ export interface Preferences {
   fullScreen?: boolean; // Whether to load the profile in full screen mode
   showSolsticesEquinoxes?: boolean; // Whether to display solstices and equinoxes in the calendar
   showMoonPhases?: boolean; // Whether to display moon phases in the calendar
+  showHolidays?: boolean; // Whether to display religious and cultural holidays in the calendar
+  islamicCalendarVariant?: 'tabular' | 'umm-al-qura' | 'crescent'; // Islamic calendar reckoning: arithmetic, Saudi official, or crescent sighting
+  islamicObserverRegion?: 'mecca' | 'cairo' | 'rabat' | 'istanbul' | 'tehran' | 'karachi' | 'jakarta' | 'london' | 'new-york'; // Where the crescent is sighted for the crescent visibility reckoning
   showChineseSexagenaryCycle?: boolean; // Whether to display Chinese 60-year sexagenary cycle indicators
   showMayanLongCountCycles?: boolean; // Whether to display Mayan Long Count cycle indicators (Baktun/Katun)
   showMetonicCycle?: boolean; // Whether to display Metonic cycle indicators (Hebrew 19-year cycle)
   showMayanCalendarRound?: boolean; // Whether to display Mayan Calendar Round indicators (52-year cycle)
   showHinduYugaCycles?: boolean; // Whether to display Hindu Yuga cycle indicators
+  autoBackupEnabled?: boolean; // Whether the database is backed up on a schedule
+  autoBackupIntervalHours?: number; // Hours between automatic backups
+  autoBackupDirectory?: string; // Folder automatic backups are written to (empty for the default folder)
+  autoBackupKeepCount?: number; // Number of automatic backups kept before the oldest are deleted
+  autoBackupIncludeAttachments?: boolean; // Whether automatic backups also archive attachment files
+  backupStatus?: BackupStatus; // Outcome of the most recent backup (written by the main process)
+  versionHistoryLimit?: number; // Versions kept per entry (0 keeps all)
+  versionHistoryMaxAgeDays?: number; // Versions older than this are deleted (0 keeps all)
+  editorMarkdownMode?: 'write' | 'split' | 'preview'; // Markdown preview shown next to the entry editor
+  trashRetentionDays?: number; // Days deleted entries stay in the trash (0 keeps them until it is emptied)
 }
 
 declare global {
@@ -151,42 +329,66 @@ declare global {
       getEntry: (date: string, timeRange: TimeRange) => Promise<JournalEntry | null>;
       getEntryById: (id: number) => Promise<JournalEntry | null>;
       getEntryVersions: (entryId: number) => Promise<EntryVersion[]>;
+      getEntryLinks: (entryId: number) => Promise<EntryLinks>;
+      restoreEntryVersion: (versionId: number) => Promise<{ success: boolean; entry?: JournalEntry; error?: string }>;
       archiveEntry: (id: number) => Promise<{ success: boolean }>;
       unarchiveEntry: (id: number) => Promise<{ success: boolean }>;
       getArchivedEntries: () => Promise<JournalEntry[]>;
+      getTrashedEntries: () => Promise<JournalEntry[]>;
+      restoreEntry: (id: number) => Promise<{ success: boolean; error?: string }>;
+      purgeTrashedEntries: (ids: number[]) => Promise<{ success: boolean; deleted?: number; error?: string }>;
+      emptyTrash: () => Promise<{ success: boolean; deleted?: number; error?: string }>;
       pinEntry: (id: number) => Promise<{ success: boolean }>;
       unpinEntry: (id: number) => Promise<{ success: boolean }>;
       getPinnedEntries: () => Promise<JournalEntry[]>;
+      bulkUpdateEntries: (ids: number[], operation: BulkEntryOperation) => Promise<{ success: boolean; updated?: number; error?: string }>;
       getAllTemplates: () => Promise<EntryTemplate[]>;
       getTemplate: (id: number) => Promise<EntryTemplate | null>;
-      saveTemplate: (template: EntryTemplate) => Promise<{ success: boolean }>;
-      deleteTemplate: (id: number) => Promise<{ success: boolean }>;
+      saveTemplate: (template: EntryTemplate) => Promise<{ success: boolean; error?: string }>;
+      deleteTemplate: (id: number) => Promise<{ success: boolean; error?: string }>;
+      getAllSavedSearches: () => Promise<SavedSearch[]>;
+      getSavedSearch: (id: number) => Promise<SavedSearch | null>;
+      saveSavedSearch: (search: SavedSearch) => Promise<{ success: boolean; error?: string; search?: SavedSearch }>;
+      deleteSavedSearch: (id: number) => Promise<{ success: boolean; error?: string }>;
+      getSavedSearchCounts: () => Promise<Record<number, number>>;
       addEntryAttachment: (entryId: number) => Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; attachment?: EntryAttachment }>;
       removeEntryAttachment: (entryId: number, attachmentId: string) => Promise<{ success: boolean; error?: string; message?: string }>;
       getAttachmentPath: (entryId: number, attachmentId: string) => Promise<{ success: boolean; error?: string; path?: string }>;
+      openEntryAttachment: (entryId: number, attachmentId: string) => Promise<{ success: boolean; error?: string; message?: string }>;
+      getAttachmentThumbnail: (entryId: number, attachmentId: string, size: ThumbnailSize) => Promise<{ success: boolean; error?: string; dataUrl?: string }>;
+      checkAttachments: (repair: boolean) => Promise<{ success: boolean; report?: AttachmentMaintenanceReport; error?: string; message?: string }>;
       getEntriesByDateRange: (date: string, timeRange: TimeRange) => Promise<JournalEntry[]>;
       saveEntry: (entry: JournalEntry) => Promise<{ success: boolean; entry: JournalEntry }>;
       deleteEntry: (id: number) => Promise<void>;
       deleteEntryByDateRange: (date: string, timeRange: TimeRange) => Promise<void>;
       searchEntries: (query: string) => Promise<JournalEntry[]>;
-      getEntriesByRange: (range: TimeRange, value: number) => Promise<JournalEntry[]>;
+      searchEntriesFullText: (query: string, includeArchived?: boolean) => Promise<EntrySearchResult[]>;
+      searchEntriesByQuery: (query: string, filters?: SearchFilters) => Promise<SearchQueryResponse>;
+      getEntriesByRange: (range: TimeRange, value: number, period?: CalendarPeriod) => Promise<JournalEntry[]>;
       getAllEntries: () => Promise<JournalEntry[]>;
       exportEntries: (
         format: ExportFormat,
-        metadata?: ExportMetadata
-      ) => Promise<{ success: boolean; canceled?: boolean; error?: string; path?: string }>;
+        metadata?: ExportMetadata,
+        entryIds?: number[]
+      ) => Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; path?: string }>;
       importEntries: (
-        format: 'json' | 'markdown'
-      ) => Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; imported?: number; skipped?: number; total?: number }>;
+        format: ImportFormat
+      ) => Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; imported?: number; skipped?: number; overwritten?: number; total?: number }>;
+      getImportPreview: () => Promise<ImportPreviewItem[] | null>;
+      resolveImportPreview: (decision: ImportDecision | null) => Promise<{ success: boolean; error?: string }>;
       backupDatabase: () => Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; path?: string }>;
       restoreDatabase: () => Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string }>;
+      getBackupStatus: () => Promise<{ status: BackupStatus | null; directory: string | null }>;
+      runBackupNow: () => Promise<{ success: boolean; error?: string; message?: string; path?: string; status?: BackupStatus }>;
+      selectBackupDirectory: () => Promise<{ success: boolean; canceled?: boolean; error?: string; path?: string }>;
+      onBackupStatusChanged: (callback: (status: BackupStatus) => void) => () => void;
       getPreference: <K extends keyof Preferences>(key: K) => Promise<Preferences[K]>;
       setPreference: <K extends keyof Preferences>(key: K, value: Preferences[K]) => Promise<{ success: boolean }>;
       getAllPreferences: () => Promise<Preferences>;
       resetPreferences: () => Promise<{ success: boolean }>;
       openPreferences: () => Promise<void>;
       closePreferencesWindow: () => Promise<void>;
-      onImportProgress: (callback: (progress: { stage: string; progress: number; message: string; total?: number; imported?: number; skipped?: number }) => void) => void;
+      onImportProgress: (callback: (progress: { stage: string; progress: number; message: string; total?: number; imported?: number; skipped?: number; overwritten?: number; preview?: ImportPreviewItem[] }) => void) => void;
       removeImportProgressListener: () => void;
       selectBackgroundImage: () => Promise<{ success: boolean; canceled?: boolean; error?: string; message?: string; path?: string; fullPath?: string }>;
       clearBackgroundImage: () => Promise<{ success: boolean; error?: string; message?: string }>;
@@ -196,7 +398,7 @@ declare global {
       onAutoLoadProfileUpdated: (callback: (data: { enabled: boolean; profileId: string }) => void) => void;
       removeAutoLoadProfileUpdatedListener: () => void;
       onMenuNewEntry: (callback: () => void) => void;
-      onMenuImport: (callback: (format: 'json' | 'markdown') => void) => void;
+      onMenuImport: (callback: (format: ImportFormat) => void) => void;
       onMenuExport: (callback: (format: ExportFormat) => void) => void;
       removeMenuListeners: () => void;
       openExternalUrl: (url: string, width: number, height: number) => Promise<{ success: boolean; error?: string }>;
@@ -0,0 +1,73 @@
+/**
+ * Tests for calendar-native period bounds
+ */
+
+import {
+  usesNativePeriods,
+  getCalendarPeriodBounds,
+} from '../calendars/calendarPeriods';
+import { jdnToISODateString, isoDateStringToJDN } from '../calendars/julianDayUtils';
+
+describe('calendarPeriods', () => {
+  describe('usesNativePeriods', () => {
+    it('should only apply to decades, years and months of non-Gregorian calendars', () => {
+      expect(usesNativePeriods('islamic', 'year')).toBe(true);
+      expect(usesNativePeriods('hebrew', 'month')).toBe(true);
+      expect(usesNativePeriods('islamic', 'week')).toBe(false);
+      expect(usesNativePeriods('islamic', 'day')).toBe(false);
+      expect(usesNativePeriods('gregorian', 'month')).toBe(false);
+      expect(usesNativePeriods(undefined, 'month')).toBe(false);
+    });
+
+    it('should not apply to cycle-based calendars', () => {
+      expect(usesNativePeriods('mayan-tzolkin', 'month')).toBe(false);
+    });
+  });
+
+  describe('getCalendarPeriodBounds', () => {
+    it('should find the bounds of an Islamic year', () => {
+      const bounds = getCalendarPeriodBounds(new Date(2024, 9, 15), 'year', 'islamic');
+
+      expect(bounds.start.year).toBe(1446);
+      expect(jdnToISODateString(bounds.startJDN)).toBe('2024-07-07');
+      expect(jdnToISODateString(bounds.endJDN)).toBe('2025-06-26');
+      expect(bounds.endJDN - bounds.startJDN + 1).toBe(355);
+    });
+
+    it('should find the bounds of a Persian month', () => {
+      const bounds = getCalendarPeriodBounds(new Date(2024, 9, 15), 'month', 'persian');
+
+      expect(jdnToISODateString(bounds.startJDN)).toBe('2024-09-21');
+      expect(jdnToISODateString(bounds.endJDN)).toBe('2024-10-20');
+      expect(bounds.start.month).toBe(bounds.end.month);
+    });
+
+    it('should find the bounds of a Julian year', () => {
+      const bounds = getCalendarPeriodBounds(new Date(2024, 9, 15), 'year', 'julian');
+
+      expect(jdnToISODateString(bounds.startJDN)).toBe('2024-01-14');
+      expect(jdnToISODateString(bounds.endJDN)).toBe('2025-01-13');
+    });
+
+    it('should return the same bounds for every day of the period', () => {
+      const first = getCalendarPeriodBounds(new Date(2024, 6, 7), 'year', 'islamic');
+      const last = getCalendarPeriodBounds(new Date(2025, 5, 26), 'year', 'islamic');
+
+      expect(last.startJDN).toBe(first.startJDN);
+      expect(last.endJDN).toBe(first.endJDN);
+    });
+  });
+
+  describe('ISO date strings', () => {
+    it('should round-trip through JDN', () => {
+      for (const date of ['2024-02-29', '0001-01-01', '-0044-03-15']) {
+        expect(jdnToISODateString(isoDateStringToJDN(date)!)).toBe(date);
+      }
+    });
+
+    it('should reject invalid strings', () => {
+      expect(isoDateStringToJDN('soon')).toBeNull();
+      expect(isoDateStringToJDN('2024-02-31')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Tests for the Easter computus
+ */
+
+import { gregorianEasterJDN, julianEasterJDN, getMovableFeastsForYear } from '../calendars/computus';
+import { runComputusVerification } from '../calendars/computusVerification';
+import { jdnToISODateString } from '../calendars/julianDayUtils';
+
+describe('computus', () => {
+  it('should match every date in the verification table', () => {
+    const { allPassed, results } = runComputusVerification();
+
+    expect(results.filter(result => !result.passed)).toEqual([]);
+    expect(allPassed).toBe(true);
+  });
+
+  it('should find Western Easter and Orthodox Pascha on the same day when the computus agrees', () => {
+    expect(gregorianEasterJDN(2025)).toBe(julianEasterJDN(2025));
+    expect(gregorianEasterJDN(2024)).not.toBe(julianEasterJDN(2024));
+  });
+
+  it('should list the movable feasts of a year in date order', () => {
+    const feasts = getMovableFeastsForYear(2024);
+
+    expect(feasts[0].name).toBe('ash-wednesday');
+    expect(jdnToISODateString(feasts.find(feast => feast.name === 'easter')!.jdn)).toBe('2024-03-31');
+    expect(jdnToISODateString(feasts.find(feast => feast.name === 'orthodox-pascha')!.jdn)).toBe('2024-05-05');
+    expect(feasts.map(feast => feast.jdn)).toEqual([...feasts.map(feast => feast.jdn)].sort((a, b) => a - b));
+  });
+});
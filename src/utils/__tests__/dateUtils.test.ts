@@ -0,0 +1,117 @@
+/**
+ * Tests for the string and JDN based date helpers
+ */
+
+import {
+  compareISODates,
+  getWeekStartISODate,
+  addYearsWithinRange,
+  createDate,
+  getCanonicalDate,
+  getCenturyEnd,
+  getCenturiesInMillennium,
+  JS_DATE_MAX_YEAR,
+  getYearSpanStart,
+} from '../dateUtils';
+import { filterEntriesForYearRange, filterEntriesInYearSpan } from '../entryFilterUtils';
+import { getYearTierLabel } from '../calendars/timeRangeConverter';
+import { parseISODateParts } from '../calendars/julianDayUtils';
+import { buildEntryLookup, getAllEntriesForYearOptimized, getAllEntriesForMonthOptimized, getEntriesForDateOptimized } from '../entryLookupUtils';
+import { JournalEntry } from '../../types';
+
+function entry(id: number, date: string, timeRange: JournalEntry['timeRange']): JournalEntry {
+  return { id, date, timeRange, title: `Entry ${id}`, content: '', createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' };
+}
+
+describe('dateUtils', () => {
+  describe('parseISODateParts', () => {
+    it('should parse deep-time years without going through Date', () => {
+      expect(parseISODateParts('-65000000-06-15')).toEqual({ year: -65000000, month: 6, day: 15 });
+      expect(parseISODateParts('0050-01-01')).toEqual({ year: 50, month: 1, day: 1 });
+      expect(parseISODateParts('2023-02-29')).toBeNull();
+    });
+  });
+
+  describe('compareISODates', () => {
+    it('should order negative and long years chronologically', () => {
+      const dates = ['2024-01-01', '-0044-03-15', '-65000000-01-01', '-0100-01-01', '12024-01-01'];
+
+      expect([...dates].sort(compareISODates)).toEqual(['-65000000-01-01', '-0100-01-01', '-0044-03-15', '2024-01-01', '12024-01-01']);
+    });
+  });
+
+  describe('getWeekStartISODate', () => {
+    it('should find the first day of the week', () => {
+      expect(getWeekStartISODate('2024-03-14', 0)).toBe('2024-03-10');
+      expect(getWeekStartISODate('2024-03-14', 1)).toBe('2024-03-11');
+    });
+  });
+
+  describe('addYearsWithinRange', () => {
+    it('should stop at the last year Date can represent', () => {
+      expect(addYearsWithinRange(createDate(275000, 5, 1), 10000).getFullYear()).toBe(JS_DATE_MAX_YEAR);
+      expect(addYearsWithinRange(createDate(2020, 5, 1), 10).getFullYear()).toBe(2030);
+    });
+  });
+
+  describe('century and millennium tiers', () => {
+    it('should snap dates to the start of their century and millennium', () => {
+      expect(getCanonicalDate(createDate(1987, 6, 4), 'century').getFullYear()).toBe(1900);
+      expect(getCanonicalDate(createDate(1987, 6, 4), 'millennium').getFullYear()).toBe(1000);
+      expect(getCanonicalDate(createDate(-150, 0, 1), 'century').getFullYear()).toBe(-200);
+      expect(getCenturyEnd(createDate(1987, 6, 4)).getFullYear()).toBe(1999);
+      expect(getCenturiesInMillennium(createDate(1987, 6, 4)).map(date => date.getFullYear())).toEqual(
+        [1000, 1100, 1200, 1300, 1400, 1500, 1600, 1700, 1800, 1900]
+      );
+    });
+
+    it('should show each view the entries of the tier below it', () => {
+      const lookup = buildEntryLookup([
+        entry(1, '1900-01-01', 'century'),
+        entry(2, '1980-01-01', 'decade'),
+        entry(3, '1000-01-01', 'millennium'),
+      ]);
+
+      expect(getEntriesForDateOptimized(lookup, createDate(1900, 0, 1), 'millennium').map(e => e.id)).toEqual([1]);
+      expect(getEntriesForDateOptimized(lookup, createDate(1980, 0, 1), 'century').map(e => e.id)).toEqual([2]);
+    });
+  });
+
+  describe('entry lookup', () => {
+    it('should index entries by year and month beyond the range of Date', () => {
+      const lookup = buildEntryLookup([
+        entry(1, '-65000000-01-01', 'year'),
+        entry(2, '-65000000-03-02', 'day'),
+        entry(3, '-0044-03-15', 'day'),
+        entry(4, '0044-03-15', 'day'),
+      ]);
+
+      expect(getAllEntriesForYearOptimized(lookup, -65000000).map(e => e.id).sort()).toEqual([1, 2]);
+      expect(getAllEntriesForMonthOptimized(lookup, -44, 2).map(e => e.id)).toEqual([3]);
+    });
+  });
+
+  describe('year tiers beyond the Date range', () => {
+    it('should find spans and labels from the year number', () => {
+      expect(getYearSpanStart(-65000000, 'millennium')).toBe(-65000000);
+      expect(getYearSpanStart(-64999995, 'decade')).toBe(-65000000);
+      expect(getYearSpanStart(1987, 'century')).toBe(1900);
+      expect(getYearTierLabel(-65000000, 'year', 'gregorian')).toBe('65000001 BCE');
+      expect(getYearTierLabel(1987, 'decade', 'gregorian')).toBe('1980s CE');
+    });
+
+    it('should filter entries by the ISO year', () => {
+      const entries = [
+        entry(1, '-65000000-01-01', 'year'),
+        entry(2, '-64999995-01-01', 'decade'),
+        entry(3, '-64999998-06-01', 'day'),
+        entry(4, '1987-01-01', 'year'),
+      ];
+
+      expect(filterEntriesForYearRange(entries, 'year', -65000000).map(e => e.id)).toEqual([1]);
+      expect(filterEntriesForYearRange(entries, 'decade', -65000000).map(e => e.id)).toEqual([2]);
+      expect(filterEntriesInYearSpan(entries, 'decade', -65000000).map(e => e.id)).toEqual([1, 3, 2]);
+      expect(filterEntriesInYearSpan(entries, 'decade', -65000000, true).map(e => e.id)).toEqual([1, 2]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for the holiday engine
+ */
+
+import { getHolidaysInRange } from '../calendars/holidays';
+import { gregorianToJDN, jdnToISODateString } from '../calendars/julianDayUtils';
+
+function holidayDates(year: number): Map<string, string> {
+  const holidays = getHolidaysInRange(gregorianToJDN(year, 1, 1), gregorianToJDN(year, 12, 31));
+  return new Map(holidays.map(holiday => [holiday.id, jdnToISODateString(holiday.jdn)]));
+}
+
+describe('holidays', () => {
+  describe('getHolidaysInRange', () => {
+    const dates2024 = holidayDates(2024);
+    const dates2025 = holidayDates(2025);
+
+    it('should find Western and Orthodox movable feasts', () => {
+      expect(dates2024.get('easter')).toBe('2024-03-31');
+      expect(dates2024.get('orthodox-pascha')).toBe('2024-05-05');
+      expect(dates2024.get('ash-wednesday')).toBe('2024-02-14');
+      expect(dates2025.get('pentecost')).toBe('2025-06-08');
+    });
+
+    it('should find Jewish holidays', () => {
+      expect(dates2024.get('passover')).toBe('2024-04-23');
+      expect(dates2024.get('yom-kippur')).toBe('2024-10-12');
+      expect(dates2025.get('rosh-hashanah')).toBe('2025-09-23');
+      expect(dates2025.get('hanukkah')).toBe('2025-12-15');
+      expect(dates2025.get('purim')).toBe('2025-03-14');
+    });
+
+    it('should find Islamic holidays on the tabular calendar', () => {
+      expect(dates2024.get('ramadan')).toBe('2024-03-11');
+      expect(dates2024.get('eid-al-fitr')).toBe('2024-04-10');
+    });
+
+    it('should find Chinese holidays, including in years with a leap month', () => {
+      expect(dates2024.get('lunar-new-year')).toBe('2024-02-10');
+      expect(dates2024.get('mid-autumn')).toBe('2024-09-17');
+      expect(dates2025.get('lunar-new-year')).toBe('2025-01-29');
+      expect(dates2025.get('mid-autumn')).toBe('2025-10-06');
+    });
+
+    it('should find Nowruz and Naw-Rúz from the vernal equinox', () => {
+      expect(dates2024.get('nowruz')).toBe('2024-03-20');
+      expect(dates2025.get('nowruz')).toBe('2025-03-21');
+      expect(dates2025.get('naw-ruz')).toBe('2025-03-20');
+    });
+
+    it('should find Ethiopian and Coptic holidays', () => {
+      expect(dates2024.get('meskel')).toBe('2024-09-27');
+      expect(dates2025.get('coptic-christmas')).toBe('2025-01-07');
+      expect(dates2025.get('genna')).toBe('2025-01-07');
+    });
+
+    it('should only return holidays inside the range, sorted by date', () => {
+      const startJDN = gregorianToJDN(2024, 4, 1);
+      const endJDN = gregorianToJDN(2024, 4, 30);
+      const holidays = getHolidaysInRange(startJDN, endJDN);
+
+      expect(holidays.map(holiday => holiday.id)).toContain('passover');
+      expect(holidays.every(holiday => holiday.jdn >= startJDN && holiday.jdn <= endJDN)).toBe(true);
+      expect(holidays.map(holiday => holiday.jdn)).toEqual([...holidays.map(holiday => holiday.jdn)].sort((a, b) => a - b));
+    });
+
+    it('should find a holiday twice when it falls twice in the range', () => {
+      // The Islamic year is 11 days shorter, so Eid al-Fitr fell in both January and December of 2000
+      const eids = getHolidaysInRange(gregorianToJDN(2000, 1, 1), gregorianToJDN(2000, 12, 31))
+        .filter(holiday => holiday.id === 'eid-al-fitr');
+
+      expect(eids).toHaveLength(2);
+    });
+  });
+});
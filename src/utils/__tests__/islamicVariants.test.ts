@@ -0,0 +1,87 @@
+/**
+ * Tests for the Islamic calendar variants
+ */
+
+import {
+  islamicToJDN,
+  islamicVariantToJDN,
+  jdnToIslamicVariant,
+  setIslamicCalendarVariant,
+  setIslamicObserverRegion,
+  IslamicCalendarVariant,
+  IslamicObserverRegion,
+} from '../calendars/islamic';
+import { getHolidaysInRange } from '../calendars/holidays';
+import { gregorianToJDN, jdnToISODateString } from '../calendars/julianDayUtils';
+
+function variantDate(year: number, month: number, day: number, variant: IslamicCalendarVariant, region?: IslamicObserverRegion): string {
+  return jdnToISODateString(islamicVariantToJDN(year, month, day, variant, region));
+}
+
+describe('islamic calendar variants', () => {
+  afterEach(() => {
+    setIslamicCalendarVariant('tabular');
+    setIslamicObserverRegion('mecca');
+  });
+
+  it('should keep the tabular variant identical to the arithmetic calendar', () => {
+    expect(islamicVariantToJDN(1445, 9, 1, 'tabular')).toBe(islamicToJDN(1445, 9, 1));
+  });
+
+  it('should follow the published Umm al-Qura calendar', () => {
+    expect(variantDate(1444, 9, 1, 'umm-al-qura')).toBe('2023-03-23');
+    expect(variantDate(1445, 7, 1, 'umm-al-qura')).toBe('2024-01-13');
+    expect(variantDate(1445, 9, 1, 'umm-al-qura')).toBe('2024-03-11');
+    expect(variantDate(1445, 10, 1, 'umm-al-qura')).toBe('2024-04-10');
+    expect(variantDate(1445, 12, 10, 'umm-al-qura')).toBe('2024-06-16');
+    expect(variantDate(1446, 9, 1, 'umm-al-qura')).toBe('2025-03-01');
+    expect(variantDate(1446, 10, 1, 'umm-al-qura')).toBe('2025-03-30');
+  });
+
+  it('should begin months a day later when the crescent is too young to be seen', () => {
+    expect(variantDate(1445, 9, 1, 'crescent')).toBe('2024-03-12');
+    expect(variantDate(1446, 10, 1, 'crescent')).toBe('2025-03-31');
+  });
+
+  it('should sight the crescent from the selected region', () => {
+    expect(variantDate(1446, 9, 1, 'crescent', 'mecca')).toBe('2025-03-02');
+    expect(variantDate(1446, 9, 1, 'crescent', 'new-york')).toBe('2025-03-01');
+
+    // Umm al-Qura is reckoned at Mecca wherever the crescent is sighted
+    expect(variantDate(1446, 9, 1, 'umm-al-qura', 'new-york')).toBe('2025-03-01');
+    expect(variantDate(1445, 9, 1, 'umm-al-qura', 'new-york')).toBe('2024-03-11');
+  });
+
+  it('should convert Julian Day Numbers back to the same variant date', () => {
+    for (const variant of ['umm-al-qura', 'crescent'] as const) {
+      for (let jdn = gregorianToJDN(2024, 1, 1); jdn <= gregorianToJDN(2024, 12, 31); jdn++) {
+        const { year, month, day } = jdnToIslamicVariant(jdn, variant);
+        expect(day).toBeGreaterThanOrEqual(1);
+        expect(day).toBeLessThanOrEqual(30);
+        expect(islamicVariantToJDN(year, month, day, variant)).toBe(jdn);
+      }
+    }
+  });
+
+  it('should resolve Islamic holidays with the selected variant', () => {
+    const ramadanStart = () => getHolidaysInRange(gregorianToJDN(2024, 3, 1), gregorianToJDN(2024, 3, 31))
+      .find(holiday => holiday.id === 'ramadan');
+
+    setIslamicCalendarVariant('crescent');
+    expect(jdnToISODateString(ramadanStart()!.jdn)).toBe('2024-03-12');
+
+    setIslamicCalendarVariant('umm-al-qura');
+    expect(jdnToISODateString(ramadanStart()!.jdn)).toBe('2024-03-11');
+  });
+
+  it('should resolve Islamic holidays from the selected crescent region', () => {
+    const ramadanStart = () => getHolidaysInRange(gregorianToJDN(2025, 2, 25), gregorianToJDN(2025, 3, 10))
+      .find(holiday => holiday.id === 'ramadan');
+
+    setIslamicCalendarVariant('crescent');
+    expect(jdnToISODateString(ramadanStart()!.jdn)).toBe('2025-03-02');
+
+    setIslamicObserverRegion('new-york');
+    expect(jdnToISODateString(ramadanStart()!.jdn)).toBe('2025-03-01');
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Tests for entry template placeholder expansion
+ */
+
+import { expandTemplatePlaceholders } from '../templatePlaceholders';
+
+describe('templatePlaceholders', () => {
+  const context = {
+    date: new Date(2024, 3, 23),
+    timeRange: 'day' as const,
+    now: new Date(2024, 3, 23, 9, 5),
+  };
+
+  it('should expand date placeholders', () => {
+    expect(expandTemplatePlaceholders('{{date}} / {{weekday}} / {{date:MMMM d, yyyy}}', context))
+      .toBe('2024-04-23 / Tuesday / April 23, 2024');
+    expect(expandTemplatePlaceholders('{{day}} {{month}} {{year}} at {{time}}', context))
+      .toBe('23 April 2024 at 09:05');
+  });
+
+  it('should expand the time range, calendar and moon phase placeholders', () => {
+    expect(expandTemplatePlaceholders('{{timeRange}} entry', context)).toBe('Day entry');
+    expect(expandTemplatePlaceholders('{{calendar:islamic}}', context)).toBe('15 Shawwal 1445');
+    expect(expandTemplatePlaceholders('{{moonPhase}}', context)).toBe('Full Moon');
+  });
+
+  it('should leave unknown placeholders untouched', () => {
+    expect(expandTemplatePlaceholders('{{unknown}} {{calendar:nope}} {date}', context))
+      .toBe('{{unknown}} {{calendar:nope}} {date}');
+  });
+});
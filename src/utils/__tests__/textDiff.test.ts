@@ -0,0 +1,33 @@
+/**
+ * Tests for the word-level text diff
+ */
+
+import { diffWords } from '../textDiff';
+
+describe('textDiff', () => {
+  it('should mark replaced, added and removed words', () => {
+    expect(diffWords('The quick brown fox', 'The slow brown fox jumps')).toEqual([
+      { type: 'equal', text: 'The ' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'equal', text: ' brown fox' },
+      { type: 'added', text: ' jumps' },
+    ]);
+  });
+
+  it('should rebuild both texts from the segments', () => {
+    const oldText = 'Walked to the lake.\nSwam twice, then lunch.';
+    const newText = 'Walked to the old lake.\nSwam once, then a long lunch!';
+
+    const segments = diffWords(oldText, newText);
+
+    expect(segments.filter(s => s.type !== 'added').map(s => s.text).join('')).toBe(oldText);
+    expect(segments.filter(s => s.type !== 'removed').map(s => s.text).join('')).toBe(newText);
+  });
+
+  it('should return a single segment for identical or empty texts', () => {
+    expect(diffWords('same text', 'same text')).toEqual([{ type: 'equal', text: 'same text' }]);
+    expect(diffWords('', 'new')).toEqual([{ type: 'added', text: 'new' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
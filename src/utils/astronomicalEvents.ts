@@ -3,6 +3,7 @@
  * 
  * Provides helper functions to get astronomical events for date ranges
  * and check if a specific date has an astronomical event.
+ * Religious and cultural holidays (see calendars/holidays.ts) share this overlay.
  */
 
 import { 
@@ -12,14 +13,26 @@ import {
   SolsticeEquinoxType,
   MoonPhaseType
 } from './calendars/astronomicalUtils';
-import { dateToJDN } from './calendars/julianDayUtils';
+import { dateToJDN, jdnToDate } from './calendars/julianDayUtils';
+import { getHolidaysInRange, Holiday } from './calendars/holidays';
 import { isSameDay } from 'date-fns';
 
 export interface DateAstronomicalEvent {
   date: Date;
-  type: 'solstice-equinox' | 'moon-phase';
-  name: SolsticeEquinoxType | MoonPhaseType;
+  type: 'solstice-equinox' | 'moon-phase' | 'holiday';
+  name: SolsticeEquinoxType | MoonPhaseType | Holiday['id'];
   displayName: string;
+  icon?: string; // Holidays only
+}
+
+function toHolidayEvent(holiday: Holiday, date: Date): DateAstronomicalEvent {
+  return {
+    date,
+    type: 'holiday',
+    name: holiday.id,
+    displayName: holiday.name,
+    icon: holiday.icon
+  };
 }
 
 /**
@@ -28,17 +41,19 @@ export interface DateAstronomicalEvent {
  * @param endDate End date
  * @param showSolsticesEquinoxes Whether to include solstices and equinoxes
  * @param showMoonPhases Whether to include moon phases
+ * @param showHolidays Whether to include religious and cultural holidays
  * @returns Map of dates (as ISO strings) to events
  */
 export function getAstronomicalEventsForRange(
   startDate: Date,
   endDate: Date,
   showSolsticesEquinoxes: boolean = false,
-  showMoonPhases: boolean = false
+  showMoonPhases: boolean = false,
+  showHolidays: boolean = false
 ): Map<string, DateAstronomicalEvent[]> {
   const eventsMap = new Map<string, DateAstronomicalEvent[]>();
   
-  if (!showSolsticesEquinoxes && !showMoonPhases) {
+  if (!showSolsticesEquinoxes && !showMoonPhases && !showHolidays) {
     return eventsMap;
   }
   
@@ -116,6 +131,24 @@ export function getAstronomicalEventsForRange(
     }
   }
   
+  // Get holidays for the range
+  if (showHolidays) {
+    for (const holiday of getHolidaysInRange(startJDN, endJDN)) {
+      const eventDate = jdnToDate(holiday.jdn);
+      // Use local date string to match calendar day keys
+      const year = eventDate.getFullYear();
+      const month = String(eventDate.getMonth() + 1).padStart(2, '0');
+      const day = String(eventDate.getDate()).padStart(2, '0');
+      const dateKey = `${year}-${month}-${day}`;
+      
+      if (!eventsMap.has(dateKey)) {
+        eventsMap.set(dateKey, []);
+      }
+      
+      eventsMap.get(dateKey)!.push(toHolidayEvent(holiday, eventDate));
+    }
+  }
+  
   return eventsMap;
 }
 
@@ -124,16 +157,18 @@ export function getAstronomicalEventsForRange(
  * @param date Date to check
  * @param showSolsticesEquinoxes Whether to include solstices and equinoxes
  * @param showMoonPhases Whether to include moon phases
+ * @param showHolidays Whether to include religious and cultural holidays
  * @returns Array of events for that date
  */
 export function getAstronomicalEventsForDate(
   date: Date,
   showSolsticesEquinoxes: boolean = false,
-  showMoonPhases: boolean = false
+  showMoonPhases: boolean = false,
+  showHolidays: boolean = false
 ): DateAstronomicalEvent[] {
   const events: DateAstronomicalEvent[] = [];
   
-  if (!showSolsticesEquinoxes && !showMoonPhases) {
+  if (!showSolsticesEquinoxes && !showMoonPhases && !showHolidays) {
     return events;
   }
   
@@ -186,6 +221,13 @@ export function getAstronomicalEventsForDate(
     }
   }
   
+  // Check for holidays
+  if (showHolidays) {
+    for (const holiday of getHolidaysInRange(dateJDN, dateJDN)) {
+      events.push(toHolidayEvent(holiday, date));
+    }
+  }
+  
   return events;
 }
 
@@ -203,6 +245,8 @@ export function getAstronomicalEventLabel(event: DateAstronomicalEvent): string
       'winter-solstice': '❄️'
     };
     return labels[event.name as SolsticeEquinoxType] || event.displayName;
+  } else if (event.type === 'holiday') {
+    return event.icon || event.displayName;
   } else {
     const labels: Record<MoonPhaseType, string> = {
       'new': '🌑',
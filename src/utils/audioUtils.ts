@@ -172,7 +172,7 @@ export function playMechanicalClick(direction: 'up' | 'down'): void {
 // Generate micro mechanical blip sound for date changes during dragging
 // Tier-aware version that reflects the time scale and direction of movement
 export function playMicroBlip(
-  tier: 'decade' | 'year' | 'month' | 'week' | 'day' = 'day',
+  tier: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day' = 'day',
   direction: 'next' | 'prev' | null = null
 ): void {
   if (!areSoundEffectsEnabled()) return;
@@ -190,6 +190,8 @@ export function playMicroBlip(
     
     // Base frequencies for each tier (micro versions - higher and shorter than navigation sounds)
     const tierBaseFreqs: Record<typeof tier, number> = {
+      millennium: 600,
+      century: 700,
       decade: 800,  // Micro version of decade sound
       year: 900,
       month: 1000,
@@ -216,7 +218,7 @@ export function playMicroBlip(
     
     // Very short envelope for micro blip - quieter and shorter than main click
     // Slightly quieter for larger tiers to maintain subtlety
-    const volumeMultiplier = tier === 'decade' ? 0.7 : tier === 'year' ? 0.8 : tier === 'month' ? 0.9 : 1.0;
+    const volumeMultiplier = tier === 'millennium' ? 0.5 : tier === 'century' ? 0.6 : tier === 'decade' ? 0.7 : tier === 'year' ? 0.8 : tier === 'month' ? 0.9 : 1.0;
     gainNode.gain.setValueAtTime(0, now);
     gainNode.gain.linearRampToValueAtTime(0.08 * volumeMultiplier, now + 0.0005);
     gainNode.gain.exponentialRampToValueAtTime(0.005 * volumeMultiplier, now + 0.02);
@@ -731,7 +733,7 @@ export function playNavigationSound(): void {
 // Tier navigation sound - for manual keyboard/button navigation
 // Distinguishes by tier level, direction (forward/backward), and shift state (large jumps)
 export function playTierNavigationSound(
-  tier: 'decade' | 'year' | 'month' | 'week' | 'day',
+  tier: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day',
   direction: 'next' | 'prev',
   shiftPressed: boolean = false
 ): void {
@@ -746,6 +748,8 @@ export function playTierNavigationSound(
     
     // Base frequencies for each tier (lower = larger time periods)
     const tierBaseFreqs: Record<typeof tier, number> = {
+      millennium: 80,
+      century: 110,
       decade: 150,
       year: 250,
       month: 400,
@@ -765,6 +769,8 @@ export function playTierNavigationSound(
     
     // Duration varies by tier - larger tiers have longer sounds
     const durations: Record<typeof tier, number> = {
+      millennium: 0.3,
+      century: 0.25,
       decade: 0.2,
       year: 0.15,
       month: 0.12,
@@ -833,7 +839,7 @@ export function playTierNavigationSound(
 
 // Navigation journey sound - procedurally generated based on time tier
 // Creates unique sounds for each tier that reflect the journey through time scales
-export function playNavigationJourneySound(tier: 'decade' | 'year' | 'month' | 'week' | 'day'): void {
+export function playNavigationJourneySound(tier: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day'): void {
   if (!areSoundEffectsEnabled()) return;
   const audioContext = getAudioContext();
   if (!audioContext) return;
@@ -847,6 +853,31 @@ export function playNavigationJourneySound(tier: 'decade' | 'year' | 'month' | '
     // Larger time periods = deeper, more resonant sounds
     // Smaller time periods = brighter, more precise sounds
     switch (tier) {
+      case 'millennium':
+      case 'century': {
+        // Deepest, slowest sweep - whole eras passing by
+        const baseFreq = tier === 'millennium' ? 80 : 110;
+        const oscillator = audioContext.createOscillator();
+        const gainNode = audioContext.createGain();
+        
+        oscillator.type = 'sine';
+        oscillator.frequency.setValueAtTime(baseFreq, now);
+        oscillator.frequency.linearRampToValueAtTime(baseFreq * 1.35, now + 0.14);
+        oscillator.frequency.linearRampToValueAtTime(baseFreq * 1.2, now + 0.28);
+        
+        gainNode.gain.setValueAtTime(0, now);
+        gainNode.gain.linearRampToValueAtTime(0.32, now + 0.015);
+        gainNode.gain.exponentialRampToValueAtTime(0.16, now + 0.2);
+        gainNode.gain.linearRampToValueAtTime(0, now + 0.35);
+        
+        oscillator.connect(gainNode);
+        gainNode.connect(audioContext.destination);
+        
+        oscillator.start(now);
+        oscillator.stop(now + 0.35);
+        break;
+      }
+      
       case 'decade': {
         // Deep, resonant sweep - vast temporal movement
         const oscillator = audioContext.createOscillator();
@@ -1003,7 +1034,7 @@ export function playModeSelectionSound(): void {
 
 // Tier-specific mode selection sound - unique sound for each time tier
 // Creates distinct selection sounds that reflect the temporal scale of each tier
-export function playTierSelectionSound(tier: 'decade' | 'year' | 'month' | 'week' | 'day'): void {
+export function playTierSelectionSound(tier: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day'): void {
   if (!areSoundEffectsEnabled()) return;
   const audioContext = getAudioContext();
   if (!audioContext) return;
@@ -1017,6 +1048,31 @@ export function playTierSelectionSound(tier: 'decade' | 'year' | 'month' | 'week
     // Larger time periods = deeper, more resonant selection sounds
     // Smaller time periods = brighter, more precise selection sounds
     switch (tier) {
+      case 'millennium':
+      case 'century': {
+        // Deepest selection - era-scale activation
+        const baseFreq = tier === 'millennium' ? 80 : 110;
+        const oscillator = audioContext.createOscillator();
+        const gainNode = audioContext.createGain();
+        
+        oscillator.type = 'sine';
+        oscillator.frequency.setValueAtTime(baseFreq, now);
+        oscillator.frequency.linearRampToValueAtTime(baseFreq * 1.45, now + 0.1);
+        oscillator.frequency.linearRampToValueAtTime(baseFreq * 1.2, now + 0.22);
+        
+        gainNode.gain.setValueAtTime(0, now);
+        gainNode.gain.linearRampToValueAtTime(0.36, now + 0.012);
+        gainNode.gain.exponentialRampToValueAtTime(0.12, now + 0.16);
+        gainNode.gain.linearRampToValueAtTime(0, now + 0.28);
+        
+        oscillator.connect(gainNode);
+        gainNode.connect(audioContext.destination);
+        
+        oscillator.start(now);
+        oscillator.stop(now + 0.28);
+        break;
+      }
+      
       case 'decade': {
         // Deep, resonant selection - vast temporal scale activation
         const oscillator = audioContext.createOscillator();
@@ -1555,7 +1611,7 @@ function numerologicalReduce(num: number): number {
 // Uses the same numerological calculations as crystal generation for consistency
 export function playCrystalClickSound(entry: { 
   date: string; 
-  timeRange: 'decade' | 'year' | 'month' | 'week' | 'day';
+  timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day';
   title?: string;
   content?: string;
   id?: number | string;
@@ -1603,7 +1659,9 @@ export function playCrystalClickSound(entry: {
     const textValueNumerological = numerologicalReduce(Math.abs(textValue));
     
     // TimeRange numerological mapping
-    const timeRangeNumerological = entry.timeRange === 'decade' ? 1 :
+    const timeRangeNumerological = entry.timeRange === 'millennium' ? 7 :
+                                  entry.timeRange === 'century' ? 6 :
+                                  entry.timeRange === 'decade' ? 1 :
                                   entry.timeRange === 'year' ? 2 :
                                   entry.timeRange === 'month' ? 3 :
                                   entry.timeRange === 'week' ? 4 : 5;
@@ -1628,6 +1686,8 @@ export function playCrystalClickSound(entry: {
     
     // Base frequency varies by time range (larger ranges = lower frequencies)
     const timeRangeBaseFreqs: Record<typeof entry.timeRange, number> = {
+      millennium: 120,
+      century: 160,
       decade: 200,
       year: 300,
       month: 450,
@@ -1719,8 +1779,8 @@ export function playCrystalClickSound(entry: {
       }, 5);
     }
     
-    // Add subharmonic for decade/year entries (deeper resonance)
-    if (entry.timeRange === 'decade' || entry.timeRange === 'year') {
+    // Add subharmonic for millennium/century/decade/year entries (deeper resonance)
+    if (entry.timeRange === 'millennium' || entry.timeRange === 'century' || entry.timeRange === 'decade' || entry.timeRange === 'year') {
       setTimeout(() => {
         if (!audioContext || audioContext.state === 'closed') return;
         
@@ -1,15 +1,17 @@
 /**
  * Calendar Tier Names
  * 
- * Provides calendar-specific names for time period tiers (decade, year, month, week, day)
- * to ensure accurate representation across different calendar systems.
+ * Provides calendar-specific names for time period tiers (millennium, century, decade, year,
+ * month, week, day) to ensure accurate representation across different calendar systems.
  */
 
 import { CalendarSystem } from './calendars/types';
 
-export type TimeTier = 'decade' | 'year' | 'month' | 'week' | 'day';
+export type TimeTier = 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day';
 
 interface TierNames {
+  millennium: string;
+  century: string;
   decade: string;
   year: string;
   month: string;
@@ -23,6 +25,8 @@ interface TierNames {
 export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
   const tierNames: Record<CalendarSystem, TierNames> = {
     gregorian: {
+      millennium: 'Millennium',
+      century: 'Century',
       decade: 'Decade',
       year: 'Year',
       month: 'Month',
@@ -30,6 +34,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'Day',
     },
     julian: {
+      millennium: 'Millennium',
+      century: 'Century',
       decade: 'Decade',
       year: 'Year',
       month: 'Month',
@@ -37,6 +43,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'Day',
     },
     islamic: {
+      millennium: 'ألفية', // Alfiyya (millennium)
+      century: 'قرن', // Qarn (century)
       decade: 'عقد', // Aqd (decade/period of 10 years)
       year: 'سنة', // Sanah (year)
       month: 'شهر', // Shahr (month)
@@ -44,6 +52,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'يوم', // Yawm (day)
     },
     hebrew: {
+      millennium: 'אלף', // Elef (a thousand years)
+      century: 'מאה', // Me'ah (century)
       decade: 'עשור', // Asor (decade)
       year: 'שנה', // Shanah (year)
       month: 'חודש', // Chodesh (month)
@@ -51,6 +61,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'יום', // Yom (day)
     },
     persian: {
+      millennium: 'هزاره', // Hezāre (millennium)
+      century: 'سده', // Sade (century)
       decade: 'دهه', // Dahe (decade)
       year: 'سال', // Sāl (year)
       month: 'ماه', // Māh (month)
@@ -58,6 +70,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'روز', // Ruz (day)
     },
     chinese: {
+      millennium: '千年', // Qiān nián (thousand years)
+      century: '世纪', // Shìjì (century)
       decade: '十年', // Shí nián (ten years)
       year: '年', // Nián (year)
       month: '月', // Yuè (month)
@@ -65,6 +79,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: '日', // Rì (day)
     },
     ethiopian: {
+      millennium: 'Millennium', // No specific term, using approximate
+      century: 'ክፍለ ዘመን', // Kifle zemen (century)
       decade: 'Decade', // No specific term, using approximate
       year: 'ዓመት', // Amät (year)
       month: 'ወር', // Wer (month)
@@ -72,6 +88,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'ቀን', // Qen (day)
     },
     coptic: {
+      millennium: 'Millennium', // No specific term, using approximate
+      century: 'Century', // No specific term, using approximate
       decade: 'Decade', // No specific term, using approximate
       year: 'ⲣⲟⲙⲡⲉ', // Rompe (year)
       month: 'ⲉⲡⲁⲅⲟⲙⲉⲛⲁ', // Epagomenā (month) - Note: This refers to intercalary days, but used generically for month
@@ -79,6 +97,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'ⲉϩⲟⲟⲩ', // Ehoou (day)
     },
     'indian-saka': {
+      millennium: 'सहस्राब्दी', // Sahasrābdī (millennium)
+      century: 'शताब्दी', // Shatābdī (century)
       decade: 'दशक', // Dashak (decade)
       year: 'वर्ष', // Varsha (year)
       month: 'मास', // Māsa (month)
@@ -86,6 +106,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'दिन', // Din (day)
     },
     bahai: {
+      millennium: 'Millennium', // Using approximate term
+      century: 'Kull-i-Shay\'', // 361-year cycle (closest to century concept)
       decade: 'Váḥid', // 19-year cycle (closest to decade concept)
       year: 'Year', // Váḥid cycle year
       month: 'Month', // 19 months in a year
@@ -93,6 +115,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'Day',
     },
     'thai-buddhist': {
+      millennium: 'สหัสวรรษ', // Sahatsawat (millennium)
+      century: 'ศตวรรษ', // Sattawat (century)
       decade: 'ทศวรรษ', // Totsawat (decade)
       year: 'ปี', // Pī (year)
       month: 'เดือน', // Deuan (month)
@@ -100,6 +124,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'วัน', // Wan (day)
     },
     'mayan-tzolkin': {
+      millennium: 'Piktun', // 20-b'ak'tun period (closest equivalent)
+      century: 'B\'ak\'tun', // 20-k'atun period (closest equivalent)
       decade: 'K\'atun', // 20-year period (closest equivalent)
       year: 'Tun', // 360-day period
       month: 'Uinal', // 20-day period
@@ -107,6 +133,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'Kin', // Day
     },
     'mayan-haab': {
+      millennium: 'Piktun', // 20-b'ak'tun period (closest equivalent)
+      century: 'B\'ak\'tun', // 20-k'atun period (closest equivalent)
       decade: 'K\'atun', // 20-year period (closest equivalent)
       year: 'Haab\'', // 365-day year
       month: 'Uinal', // 20-day period (18 uinals + 5 days)
@@ -114,6 +142,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'Kin', // Day
     },
     'mayan-longcount': {
+      millennium: 'Piktun', // 20-b'ak'tun period (2,880,000 days)
+      century: 'B\'ak\'tun', // 20-k'atun period (144,000 days)
       decade: 'K\'atun', // 20-tun period (7,200 days)
       year: 'Tun', // 360-day period
       month: 'Uinal', // 20-day period
@@ -121,6 +151,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'Kin', // Day
     },
     cherokee: {
+      millennium: 'Millennium', // Using approximate term
+      century: 'Century', // Using approximate term
       decade: 'Decade', // Using approximate term
       year: 'Year', // Adapted system
       month: 'Moon', // Lunar month concept
@@ -128,6 +160,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'Day',
     },
     iroquois: {
+      millennium: 'Millennium', // Using approximate term
+      century: 'Century', // Using approximate term
       decade: 'Decade', // Using approximate term
       year: 'Year', // 13 moons
       month: 'Moon', // 13 moons per year
@@ -135,6 +169,8 @@ export function getCalendarTierNames(calendar: CalendarSystem): TierNames {
       day: 'Day',
     },
     'aztec-xiuhpohualli': {
+      millennium: 'Millennium', // Using approximate term
+      century: 'Huehuetiliztli', // 104-year period of two xiuhmolpilli
       decade: 'Xiuhmolpilli', // 52-year cycle (closest to decade concept)
       year: 'Xiuhpohualli', // 365-day year
       month: 'Veintena', // 20-day period (18 veintenas + 5 nemontemi)
@@ -88,6 +88,18 @@ export function trueSolarLongitude(jdn: number): number {
  * @returns Julian Day Number of the vernal equinox
  */
 export function vernalEquinoxJDN(year: number): number {
+  // The equinox occurs at some time during this day; round to the nearest day
+  return Math.round(vernalEquinoxMoment(year));
+}
+
+/**
+ * Calculate the moment of the vernal equinox for a given year
+ * Same calculation as vernalEquinoxJDN, without rounding to a day
+ * 
+ * @param year Gregorian year
+ * @returns Julian Date (UT, days since noon) of the vernal equinox
+ */
+export function vernalEquinoxMoment(year: number): number {
   // Approximate date of vernal equinox: around March 20-21
   // Start with March 20 at noon (12:00 UTC)
   let jdn = gregorianToJDN(year, 3, 20) + 0.5;
@@ -120,9 +132,7 @@ export function vernalEquinoxJDN(year: number): number {
     }
   }
   
-  // Return the integer JDN (equinox occurs at some time during this day)
-  // In practice, we round to the nearest day
-  return Math.round(jdn);
+  return jdn;
 }
 
 /**
@@ -177,56 +187,68 @@ function lunarEclipticLongitude(jdn: number): number {
  * Calculate the date of a new moon
  * A new moon occurs when the Moon and Sun have the same ecliptic longitude
  * 
- * Uses iterative refinement to find when lunar and solar longitudes are equal
- * 
  * @param jdn Reference Julian Day Number (approximate date)
- * @returns Julian Day Number of the new moon (refined)
+ * @returns Julian Day Number of the new moon nearest that date
  */
 export function newMoonJDN(jdn: number): number {
-  // Start with approximate date
-  let currentJDN = jdn;
+  return Math.round(newMoonMoment(jdn));
+}
+
+/**
+ * Calculate the moment of the new moon nearest a date
+ * 
+ * Algorithm from Meeus, "Astronomical Algorithms", Chapter 49: the mean new moon
+ * corrected by the main periodic terms, accurate to a few minutes.
+ * The result is in Dynamical Time, within about a minute of UT for modern dates.
+ * 
+ * @param jdn Reference Julian Day Number (approximate date)
+ * @returns Julian Date (days since noon) of the new moon
+ */
+export function newMoonMoment(jdn: number): number {
+  const SYNODIC_MONTH = 29.530588861;
+  const k = Math.round((jdn - 2451550.09766) / SYNODIC_MONTH);
+  const T = k / 1236.85;
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
   
-  // Refine using iterative method
-  for (let i = 0; i < 10; i++) {
-    const solarLong = trueSolarLongitude(currentJDN);
-    const lunarLong = lunarEclipticLongitude(currentJDN);
-    
-    // Calculate difference in longitude
-    let diff = lunarLong - solarLong;
-    if (diff > 180) diff -= 360;
-    if (diff < -180) diff += 360;
-    
-    // If very close, we're done
-    if (Math.abs(diff) < 0.01) {
-      break;
-    }
-    
-    // Estimate rate of change (degrees per day)
-    const solarLong1 = trueSolarLongitude(currentJDN + 1);
-    const lunarLong1 = lunarEclipticLongitude(currentJDN + 1);
-    let rateOfChange = (lunarLong1 - lunarLong) - (solarLong1 - solarLong);
-    if (rateOfChange > 180) rateOfChange -= 360;
-    if (rateOfChange < -180) rateOfChange += 360;
-    
-    // Adjust date
-    let adjustment = 0;
-    if (Math.abs(rateOfChange) > 0.01) {
-      adjustment = -diff / rateOfChange;
-      currentJDN += adjustment;
-    } else {
-      // Fallback: use mean synodic month
-      const SYNODIC_MONTH = 29.53058867;
-      adjustment = diff > 0 ? -SYNODIC_MONTH / 2 : SYNODIC_MONTH / 2;
-      currentJDN += adjustment;
-    }
-    
-    // Prevent infinite loops
-    if (Math.abs(adjustment) < 0.0001) {
-      break;
-    }
-  }
+  const meanNewMoon = 2451550.09766 + SYNODIC_MONTH * k +
+                      0.00015437 * T * T - 0.00000015 * T * T * T + 0.00000000073 * T * T * T * T;
   
-  return Math.round(currentJDN);
+  // Eccentricity of Earth's orbit, Sun's and Moon's mean anomalies,
+  // Moon's argument of latitude and longitude of the ascending node
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+  const M = toRadians(2.5534 + 29.1053567 * k - 0.0000014 * T * T - 0.00000011 * T * T * T);
+  const Mp = toRadians(201.5643 + 385.81693528 * k + 0.0107582 * T * T + 0.00001238 * T * T * T);
+  const F = toRadians(160.7108 + 390.67050284 * k - 0.0016118 * T * T - 0.00000227 * T * T * T);
+  const omega = toRadians(124.7746 - 1.56375588 * k + 0.0020672 * T * T + 0.00000215 * T * T * T);
+  
+  const correction =
+    -0.4072 * Math.sin(Mp) +
+    0.17241 * E * Math.sin(M) +
+    0.01608 * Math.sin(2 * Mp) +
+    0.01039 * Math.sin(2 * F) +
+    0.00739 * E * Math.sin(Mp - M) -
+    0.00514 * E * Math.sin(Mp + M) +
+    0.00208 * E * E * Math.sin(2 * M) -
+    0.00111 * Math.sin(Mp - 2 * F) -
+    0.00057 * Math.sin(Mp + 2 * F) +
+    0.00056 * E * Math.sin(2 * Mp + M) -
+    0.00042 * Math.sin(3 * Mp) +
+    0.00042 * E * Math.sin(M + 2 * F) +
+    0.00038 * E * Math.sin(M - 2 * F) -
+    0.00024 * E * Math.sin(2 * Mp - M) -
+    0.00017 * Math.sin(omega) -
+    0.00007 * Math.sin(Mp + 2 * M) +
+    0.00004 * Math.sin(2 * Mp - 2 * F) +
+    0.00004 * Math.sin(3 * M) +
+    0.00003 * Math.sin(Mp + M - 2 * F) +
+    0.00003 * Math.sin(2 * Mp + 2 * F) -
+    0.00003 * Math.sin(Mp + M + 2 * F) +
+    0.00003 * Math.sin(Mp - M + 2 * F) -
+    0.00002 * Math.sin(Mp - M - 2 * F) -
+    0.00002 * Math.sin(3 * Mp + M) +
+    0.00002 * Math.sin(4 * Mp);
+  
+  return meanNewMoon + correction;
 }
 
 /**
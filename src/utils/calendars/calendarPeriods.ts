@@ -0,0 +1,161 @@
+/**
+ * Calendar-Native Periods
+ *
+ * Computes millennium/century/decade/year/month bounds inside a calendar system (e.g. a Hebrew month or an
+ * Islamic year) instead of Gregorian bounds converted to that calendar.
+ * Weeks and days are the same in every calendar and stay Gregorian-based.
+ *
+ * Bounds are found through JDN: a period is the contiguous run of days whose converted
+ * date shares the same period key (year, year+month, decade, century or millennium). This works for every
+ * converter without knowing its month numbering or leap rules.
+ */
+
+import { CalendarSystem, CalendarDate, CALENDAR_INFO } from './types';
+import { getCalendarConverter } from './calendarConverter';
+import { dateToJDN, jdnToDate } from './julianDayUtils';
+
+export type NativePeriodRange = 'millennium' | 'century' | 'decade' | 'year' | 'month';
+
+export interface CalendarPeriodBounds {
+  calendar: CalendarSystem;
+  start: CalendarDate;
+  end: CalendarDate;
+  startJDN: number;
+  endJDN: number; // Inclusive
+  startDate: Date;
+  endDate: Date; // Inclusive (start of the last day)
+}
+
+/**
+ * Upper bound on period length in days, used to limit the search window.
+ * Months allow for merged leap months in lunisolar calendars.
+ */
+const MAX_PERIOD_DAYS: Record<NativePeriodRange, number> = {
+  month: 62,
+  year: 400,
+  decade: 4000,
+  century: 40000,
+  millennium: 400000,
+};
+
+/**
+ * Check whether entries for a time range in this calendar have their own period
+ * (rather than the Gregorian one)
+ */
+export function usesNativePeriods(
+  calendar: CalendarSystem | string | undefined,
+  timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day'
+): calendar is CalendarSystem {
+  if (!calendar || calendar === 'gregorian') {
+    return false;
+  }
+  if (timeRange === 'week' || timeRange === 'day') {
+    return false;
+  }
+  const info = CALENDAR_INFO[calendar as CalendarSystem];
+  // Cycle-based calendars (Tzolk'in, Long Count) have no months or years to anchor a period on
+  return !!info && info.type !== 'other' && getCalendarConverter(calendar as CalendarSystem) !== null;
+}
+
+function periodKey(date: CalendarDate, timeRange: NativePeriodRange): string {
+  switch (timeRange) {
+    case 'millennium':
+      return String(Math.floor(date.year / 1000));
+    case 'century':
+      return String(Math.floor(date.year / 100));
+    case 'decade':
+      return String(Math.floor(date.year / 10));
+    case 'year':
+      return String(date.year);
+    case 'month':
+      return `${date.year}-${date.month}`;
+  }
+}
+
+/**
+ * Find the first (direction -1) or last (direction 1) JDN of the contiguous run of days
+ * sharing the period key of the given JDN
+ */
+function findPeriodEdge(
+  jdn: number,
+  direction: -1 | 1,
+  keyAt: (jdn: number) => string,
+  maxDays: number
+): number {
+  const key = keyAt(jdn);
+  let inside = jdn; // Known to be in the period
+  let outside = jdn + direction * maxDays; // Assumed to be outside the period
+  if (keyAt(outside) === key) {
+    return outside; // Period longer than the search window - clamp
+  }
+  while (Math.abs(outside - inside) > 1) {
+    const middle = inside + direction * Math.floor(Math.abs(outside - inside) / 2);
+    if (keyAt(middle) === key) {
+      inside = middle;
+    } else {
+      outside = middle;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Get the bounds of the millennium/century/decade/year/month containing a JDN in a calendar
+ */
+export function getCalendarPeriodBoundsForJDN(
+  jdn: number,
+  timeRange: NativePeriodRange,
+  calendar: CalendarSystem
+): CalendarPeriodBounds {
+  const converter = getCalendarConverter(calendar);
+  if (!converter) {
+    throw new Error(`Calendar converter not available for ${calendar}`);
+  }
+
+  const cache = new Map<number, CalendarDate>();
+  const dateAt = (day: number): CalendarDate => {
+    let calendarDate = cache.get(day);
+    if (!calendarDate) {
+      calendarDate = converter.fromJDN(day);
+      cache.set(day, calendarDate);
+    }
+    return calendarDate;
+  };
+  const keyAt = (day: number): string => {
+    try {
+      return periodKey(dateAt(day), timeRange);
+    } catch {
+      // Some converters reject days outside their supported range - treat as outside the period
+      return `invalid:${day}`;
+    }
+  };
+
+  const startJDN = findPeriodEdge(jdn, -1, keyAt, MAX_PERIOD_DAYS[timeRange]);
+  const endJDN = findPeriodEdge(jdn, 1, keyAt, MAX_PERIOD_DAYS[timeRange]);
+
+  return {
+    calendar,
+    start: dateAt(startJDN),
+    end: dateAt(endJDN),
+    startJDN,
+    endJDN,
+    startDate: jdnToDate(startJDN),
+    endDate: jdnToDate(endJDN),
+  };
+}
+
+/**
+ * Get the bounds of the millennium/century/decade/year/month containing a date in a calendar
+ *
+ * @param date Gregorian date inside the period
+ * @param timeRange Period type
+ * @param calendar Calendar system the period is defined in
+ * @returns Period bounds (calendar dates, JDNs and Gregorian dates)
+ */
+export function getCalendarPeriodBounds(
+  date: Date,
+  timeRange: NativePeriodRange,
+  calendar: CalendarSystem
+): CalendarPeriodBounds {
+  return getCalendarPeriodBoundsForJDN(dateToJDN(date), timeRange, calendar);
+}
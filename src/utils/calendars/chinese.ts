@@ -19,6 +19,7 @@
  * - Calculates 24 solar terms (jieqi) based on solar longitude
  * - Determines leap months based on solar terms (month with no solar term)
  * - Calculates Chinese New Year as second new moon after winter solstice
+ *   (third when a leap month intervenes), with dates in China Standard Time
  * 
  * Reference: "Calendrical Calculations" by Dershowitz & Reingold, Chapter 19
  *            "Astronomical Algorithms" by Jean Meeus
@@ -28,11 +29,10 @@ import { CalendarConverter, CalendarDate, CalendarInfo } from './types';
 import { CALENDAR_INFO } from './types';
 import { gregorianToJDN, jdnToGregorian } from './julianDayUtils';
 import { 
-  newMoonJDN, 
-  nextNewMoonJDN, 
-  previousNewMoonJDN,
+  newMoonMoment,
   solarTermJDN,
   solarTerm,
+  trueSolarLongitude,
   winterSolsticeJDN
 } from './astronomicalUtils';
 
@@ -71,48 +71,113 @@ interface ChineseMonthData {
 // Cache for calculated Chinese years (to avoid recalculation)
 const chineseYearCache = new Map<number, ChineseYearData>();
 
+// The calendar is reckoned in China Standard Time (UTC+8)
+const BEIJING_OFFSET = 8 / 24;
+const MEAN_SYNODIC_MONTH = 29.530588861;
+
+/**
+ * Find the first new moon that falls on or after a day, in Beijing dates
+ * @param jdn Julian Day Number
+ * @returns Julian Day Number of the Beijing date of the new moon
+ */
+function newMoonOnOrAfter(jdn: number): number {
+  let moment = newMoonMoment(jdn);
+  let day = Math.floor(moment + 0.5 + BEIJING_OFFSET);
+  while (day < jdn) {
+    moment = newMoonMoment(moment + MEAN_SYNODIC_MONTH);
+    day = Math.floor(moment + 0.5 + BEIJING_OFFSET);
+  }
+  return day;
+}
+
+/**
+ * Find the last new moon that falls on or before a day, in Beijing dates
+ */
+function newMoonOnOrBefore(jdn: number): number {
+  // Months are at most 30 days long, so a new moon falls in the 30 days before
+  const earlier = newMoonOnOrAfter(jdn - 30);
+  const later = newMoonOnOrAfter(earlier + 1);
+  return later <= jdn ? later : earlier;
+}
+
+/**
+ * Major solar term (zhongqi, a multiple of 30° solar longitude) in effect at the start of a Beijing day
+ */
+function majorSolarTermIndex(jdn: number): number {
+  return Math.floor(trueSolarLongitude(jdn - 0.5 - BEIJING_OFFSET) / 30);
+}
+
+/**
+ * Beijing date of the winter solstice (270° solar longitude) in a Gregorian year
+ */
+function winterSolsticeDay(year: number): number {
+  let day = winterSolsticeJDN(year) - 1;
+  while (majorSolarTermIndex(day + 1) < 9) {
+    day++;
+  }
+  return day;
+}
+
+/**
+ * Check whether the month starting on a new moon contains no major solar term
+ */
+function hasNoMajorSolarTerm(monthStartJDN: number): boolean {
+  return majorSolarTermIndex(monthStartJDN) === majorSolarTermIndex(newMoonOnOrAfter(monthStartJDN + 1));
+}
+
+/**
+ * Check whether the month starting on a new moon is a leap month: the first month with
+ * no major solar term in a year (sui, from month 11 to month 11) that has 13 months
+ */
+function isChineseLeapMonth(monthStartJDN: number): boolean {
+  if (!hasNoMajorSolarTerm(monthStartJDN)) {
+    return false;
+  }
+
+  // The sui runs from the month containing one winter solstice to the month containing the next
+  const { year } = jdnToGregorian(monthStartJDN);
+  let month11 = newMoonOnOrBefore(winterSolsticeDay(year));
+  if (month11 > monthStartJDN) {
+    month11 = newMoonOnOrBefore(winterSolsticeDay(year - 1));
+  }
+  const nextMonth11 = newMoonOnOrBefore(winterSolsticeDay(jdnToGregorian(month11).year + 1));
+  if (Math.round((nextMonth11 - month11) / MEAN_SYNODIC_MONTH) !== 13) {
+    return false;
+  }
+
+  for (let month = newMoonOnOrAfter(month11 + 1); month < monthStartJDN; month = newMoonOnOrAfter(month + 1)) {
+    if (hasNoMajorSolarTerm(month)) {
+      return false;
+    }
+  }
+  return true;
+}
+
 /**
  * Calculate Chinese New Year JDN for a given Chinese year
- * Chinese New Year = second new moon after winter solstice
+ * Chinese New Year is the second new moon after the winter solstice, or the third
+ * when a leap month falls between the solstice and the New Year
  * 
- * @param chineseYear Chinese year number
+ * Algorithm from "Calendrical Calculations" by Dershowitz & Reingold (chinese-new-year-in-sui)
+ * 
+ * @param chineseYear Chinese year number (the Gregorian year the New Year falls in)
  * @returns Julian Day Number of Chinese New Year
  */
 function chineseNewYearJDN(chineseYear: number): number {
-  // Chinese calendar years are continuous and don't have a fixed Gregorian epoch
-  // We need to find the Gregorian year that contains this Chinese year's New Year
-  // Chinese New Year typically falls in late January to mid-February
-  
-  // For calculation purposes, we'll use the Chinese year number directly
-  // as an approximate Gregorian year, then refine based on actual New Year date
-  // This works because Chinese years roughly align with Gregorian years
-  
-  // Start with Chinese year as approximate Gregorian year
-  // Chinese year 126 would be approximately 126 CE
-  let approximateGregorianYear = chineseYear;
-  
-  // Find winter solstice for the Gregorian year before Chinese New Year
-  // Chinese New Year is in Jan-Feb, so we need previous year's winter solstice
-  const winterSolsticeYear = approximateGregorianYear - 1;
-  const winterSolstice = winterSolsticeJDN(winterSolsticeYear);
-  
-  // Find first new moon after winter solstice
-  const firstNewMoon = nextNewMoonJDN(winterSolstice);
-  
-  // Find second new moon after winter solstice (this is Chinese New Year)
-  const secondNewMoon = nextNewMoonJDN(firstNewMoon);
-  
-  // Verify the New Year falls in the expected Gregorian year
-  // If it falls in the previous Gregorian year, adjust
-  const { year: actualGregorianYear } = jdnToGregorian(secondNewMoon);
-  if (actualGregorianYear < approximateGregorianYear) {
-    // New Year fell in previous Gregorian year, recalculate with that year
-    const adjustedWinterSolstice = winterSolsticeJDN(actualGregorianYear - 1);
-    const adjustedFirstNewMoon = nextNewMoonJDN(adjustedWinterSolstice);
-    return nextNewMoonJDN(adjustedFirstNewMoon);
+  // The solstices that open and close the year (sui) the New Year falls in
+  const winterSolstice = winterSolsticeDay(chineseYear - 1);
+  const nextWinterSolstice = winterSolsticeDay(chineseYear);
+
+  const month12 = newMoonOnOrAfter(winterSolstice + 1);
+  const month13 = newMoonOnOrAfter(month12 + 1);
+  const nextMonth11 = newMoonOnOrBefore(nextWinterSolstice);
+
+  // A sui with 13 months has a leap month; if it is the 11th or 12th, the New Year moves a month later
+  if (Math.round((nextMonth11 - month12) / MEAN_SYNODIC_MONTH) === 12 &&
+      (hasNoMajorSolarTerm(month12) || hasNoMajorSolarTerm(month13))) {
+    return newMoonOnOrAfter(month13 + 1);
   }
-  
-  return secondNewMoon;
+  return month13;
 }
 
 /**
@@ -148,7 +213,7 @@ function calculateChineseYear(chineseYear: number): ChineseYearData {
   
   // Process months until we reach next year
   while (currentNewMoon < nextYearNewYear && monthNumber <= 13) {
-    const nextNewMoon = nextNewMoonJDN(currentNewMoon);
+    const nextNewMoon = newMoonOnOrAfter(currentNewMoon + 1);
     const monthLength = nextNewMoon - currentNewMoon;
     
     // Determine which solar terms fall in this month
@@ -162,9 +227,8 @@ function calculateChineseYear(chineseYear: number): ChineseYearData {
     
     // Check if this month has no major solar term (leap month)
     // Major solar terms (中气) are the odd-numbered ones (1, 3, 5, 7, 9, 11, 13, 15, 17, 19, 21, 23)
-    // A leap month is a month that does NOT contain a major solar term
-    const hasMajorSolarTerm = termsInMonth.some(term => term % 2 === 1);
-    const isLeap = !hasMajorSolarTerm;
+    // A leap month is a month that does NOT contain a major solar term (the first one in a 13-month sui)
+    const isLeap = isChineseLeapMonth(currentNewMoon);
     
     // If this is a leap month, it takes the number of the previous regular month
     // Otherwise, use the current month number
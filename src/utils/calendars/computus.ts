@@ -0,0 +1,123 @@
+/**
+ * Ecclesiastical Computus
+ *
+ * Computes the date of Easter and the movable feasts counted from it:
+ * - Western (Gregorian) Easter, with the 1582 reform of the epacts
+ * - Orthodox Pascha, from the Julian computus used before the reform
+ *
+ * Both are pure arithmetic on the year, repeating every 5,700,000 (Gregorian) or
+ * 532 (Julian) years, so they extend proleptically to every supported year including
+ * BCE ones. Western Easter is always computed with the Gregorian rules, matching the
+ * proleptic Gregorian dates used elsewhere in the app; before 1583 the West kept the
+ * Julian computus too (julianEasterJDN gives those historical dates).
+ *
+ * Algorithms from Meeus, "Astronomical Algorithms", Chapter 8.
+ */
+
+import { gregorianToJDN, julianToJDN } from './julianDayUtils';
+
+export type MovableFeastType =
+  | 'ash-wednesday'
+  | 'palm-sunday'
+  | 'good-friday'
+  | 'easter'
+  | 'ascension'
+  | 'pentecost'
+  | 'clean-monday'
+  | 'orthodox-pascha'
+  | 'orthodox-ascension'
+  | 'orthodox-pentecost';
+
+export interface MovableFeast {
+  name: MovableFeastType;
+  displayName: string;
+  tradition: 'western' | 'orthodox';
+  jdn: number;
+}
+
+/**
+ * Modulo that stays non-negative for negative years
+ */
+function mod(n: number, m: number): number {
+  return ((n % m) + m) % m;
+}
+
+/**
+ * Calculate Western Easter Sunday with the Gregorian computus
+ * (the Anonymous Gregorian algorithm of Meeus/Jones/Butcher)
+ * @param year Astronomical year (0 = 1 BCE)
+ * @returns Julian Day Number of Easter Sunday
+ */
+export function gregorianEasterJDN(year: number): number {
+  const a = mod(year, 19);
+  const b = Math.floor(year / 100);
+  const c = mod(year, 100);
+  const d = Math.floor(b / 4);
+  const e = mod(b, 4);
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = mod(19 * a + b - d - g + 15, 30);
+  const i = Math.floor(c / 4);
+  const k = mod(c, 4);
+  const l = mod(32 + 2 * e + 2 * i - h - k, 7);
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = mod(h + l - 7 * m + 114, 31) + 1;
+  return gregorianToJDN(year, month, day);
+}
+
+/**
+ * Calculate Easter Sunday with the Julian computus
+ * This is Orthodox Pascha, and Western Easter before the Gregorian reform.
+ * @param year Astronomical year (0 = 1 BCE) of the Julian calendar
+ * @returns Julian Day Number of Easter Sunday
+ */
+export function julianEasterJDN(year: number): number {
+  const a = mod(year, 4);
+  const b = mod(year, 7);
+  const c = mod(year, 19);
+  const d = mod(19 * c + 15, 30);
+  const e = mod(2 * a + 4 * b - d + 34, 7);
+  const month = Math.floor((d + e + 114) / 31);
+  const day = mod(d + e + 114, 31) + 1;
+  return julianToJDN(year, month, day);
+}
+
+/**
+ * Movable feasts as days before (negative) or after Easter Sunday
+ */
+export const MOVABLE_FEASTS: ReadonlyArray<Omit<MovableFeast, 'jdn'> & { offset: number }> = [
+  { name: 'ash-wednesday', displayName: 'Ash Wednesday', tradition: 'western', offset: -46 },
+  { name: 'palm-sunday', displayName: 'Palm Sunday', tradition: 'western', offset: -7 },
+  { name: 'good-friday', displayName: 'Good Friday', tradition: 'western', offset: -2 },
+  { name: 'easter', displayName: 'Easter', tradition: 'western', offset: 0 },
+  { name: 'ascension', displayName: 'Ascension Day', tradition: 'western', offset: 39 },
+  { name: 'pentecost', displayName: 'Pentecost', tradition: 'western', offset: 49 },
+  { name: 'clean-monday', displayName: 'Clean Monday', tradition: 'orthodox', offset: -48 },
+  { name: 'orthodox-pascha', displayName: 'Orthodox Pascha', tradition: 'orthodox', offset: 0 },
+  { name: 'orthodox-ascension', displayName: 'Orthodox Ascension', tradition: 'orthodox', offset: 39 },
+  { name: 'orthodox-pentecost', displayName: 'Orthodox Pentecost', tradition: 'orthodox', offset: 49 },
+];
+
+/**
+ * Get the date of one movable feast
+ * @param name Feast
+ * @param year Astronomical year (0 = 1 BCE)
+ * @returns Julian Day Number of the feast
+ */
+export function getMovableFeastJDN(name: MovableFeastType, year: number): number {
+  const feast = MOVABLE_FEASTS.find(f => f.name === name)!;
+  const easter = feast.tradition === 'western' ? gregorianEasterJDN(year) : julianEasterJDN(year);
+  return easter + feast.offset;
+}
+
+/**
+ * Get the movable feasts of a year
+ * @param year Astronomical year (0 = 1 BCE)
+ * @returns Feasts sorted by date
+ */
+export function getMovableFeastsForYear(year: number): MovableFeast[] {
+  return MOVABLE_FEASTS
+    .map(({ offset, ...feast }) => ({ ...feast, jdn: getMovableFeastJDN(feast.name, year) }))
+    .sort((a, b) => a.jdn - b.jdn);
+}
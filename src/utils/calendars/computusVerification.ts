@@ -0,0 +1,207 @@
+/**
+ * Computus Verification Tests
+ *
+ * This file contains verification tests against known reference dates
+ * to ensure accuracy of the Easter and movable feast calculations.
+ *
+ * Reference sources:
+ * - Gregorian Easter: Meeus, "Astronomical Algorithms", Chapter 8, and the published
+ *   tables of the Gregorian computus (earliest possible date March 22, latest April 25)
+ * - Julian Easter: Meeus, Chapter 8 (179, 711 and 1243 all fall on April 12) and the
+ *   Orthodox Pascha dates observed by the Eastern churches
+ */
+
+import { gregorianToJDN, julianToJDN, jdnToGregorian, jdnToJulian } from './julianDayUtils';
+import { gregorianEasterJDN, julianEasterJDN, getMovableFeastJDN, MovableFeastType } from './computus';
+import type { VerificationResult } from './macroCycleVerification';
+
+type ReferenceDate = [year: number, month: number, day: number];
+
+/**
+ * Western Easter Sunday, Gregorian calendar
+ */
+export const GREGORIAN_EASTER_REFERENCE: ReferenceDate[] = [
+  [1583, 4, 10], // First Easter after the reform
+  [1700, 4, 11],
+  [1818, 3, 22], // Earliest possible date
+  [1886, 4, 25], // Latest possible date
+  [1943, 4, 25],
+  [1954, 4, 18],
+  [1961, 4, 2],
+  [1991, 3, 31],
+  [1992, 4, 19],
+  [1993, 4, 11],
+  [2000, 4, 23],
+  [2008, 3, 23],
+  [2019, 4, 21],
+  [2024, 3, 31],
+  [2025, 4, 20],
+  [2038, 4, 25],
+  [2285, 3, 22],
+];
+
+/**
+ * Easter Sunday by the Julian computus, Julian calendar
+ */
+export const JULIAN_EASTER_REFERENCE: ReferenceDate[] = [
+  [179, 4, 12],
+  [711, 4, 12],
+  [1243, 4, 12],
+];
+
+/**
+ * Orthodox Pascha, Gregorian calendar
+ */
+export const ORTHODOX_PASCHA_REFERENCE: ReferenceDate[] = [
+  [2010, 4, 4],
+  [2021, 5, 2],
+  [2022, 4, 24],
+  [2023, 4, 16],
+  [2024, 5, 5],
+  [2025, 4, 20],
+];
+
+/**
+ * Feasts counted from Easter, Gregorian calendar
+ */
+export const MOVABLE_FEAST_REFERENCE: Array<[MovableFeastType, ...ReferenceDate]> = [
+  ['ash-wednesday', 2024, 2, 14],
+  ['good-friday', 2024, 3, 29],
+  ['ascension', 2024, 5, 9],
+  ['pentecost', 2024, 5, 19],
+  ['clean-monday', 2024, 3, 18],
+  ['orthodox-pentecost', 2024, 6, 23],
+];
+
+function formatReference([year, month, day]: ReferenceDate): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function formatGregorian(jdn: number): string {
+  const { year, month, day } = jdnToGregorian(jdn);
+  return formatReference([year, month, day]);
+}
+
+function formatJulian(jdn: number): string {
+  const { year, month, day } = jdnToJulian(jdn);
+  return formatReference([year, month, day]);
+}
+
+function isSunday(jdn: number): boolean {
+  return ((jdn + 1) % 7 + 7) % 7 === 0;
+}
+
+/**
+ * Verify Western Easter against the reference table
+ */
+export function verifyGregorianEaster(): VerificationResult[] {
+  return GREGORIAN_EASTER_REFERENCE.map(date => {
+    const actual = gregorianEasterJDN(date[0]);
+    return {
+      cycle: 'Gregorian Easter',
+      test: `Easter ${date[0]} should be ${formatReference(date)}`,
+      expected: formatReference(date),
+      actual: formatGregorian(actual),
+      passed: actual === gregorianToJDN(...date),
+    };
+  });
+}
+
+/**
+ * Verify the Julian computus against the reference tables
+ */
+export function verifyJulianEaster(): VerificationResult[] {
+  const julianResults = JULIAN_EASTER_REFERENCE.map(date => {
+    const actual = julianEasterJDN(date[0]);
+    return {
+      cycle: 'Julian Easter',
+      test: `Julian Easter ${date[0]} should be ${formatReference(date)} (Julian)`,
+      expected: formatReference(date),
+      actual: formatJulian(actual),
+      passed: actual === julianToJDN(...date),
+    };
+  });
+
+  const paschaResults = ORTHODOX_PASCHA_REFERENCE.map(date => {
+    const actual = julianEasterJDN(date[0]);
+    return {
+      cycle: 'Julian Easter',
+      test: `Orthodox Pascha ${date[0]} should be ${formatReference(date)}`,
+      expected: formatReference(date),
+      actual: formatGregorian(actual),
+      passed: actual === gregorianToJDN(...date),
+    };
+  });
+
+  return [...julianResults, ...paschaResults];
+}
+
+/**
+ * Verify the feasts counted from Easter
+ */
+export function verifyMovableFeasts(): VerificationResult[] {
+  return MOVABLE_FEAST_REFERENCE.map(([name, ...date]) => {
+    const actual = getMovableFeastJDN(name, date[0]);
+    return {
+      cycle: 'Movable Feasts',
+      test: `${name} ${date[0]} should be ${formatReference(date)}`,
+      expected: formatReference(date),
+      actual: formatGregorian(actual),
+      passed: actual === gregorianToJDN(...date),
+    };
+  });
+}
+
+/**
+ * Verify that both computus algorithms stay valid far outside the reference tables:
+ * every Easter is a Sunday between March 22 and April 25 of its own calendar
+ */
+export function verifyComputusRange(): VerificationResult[] {
+  const results: VerificationResult[] = [];
+
+  for (const year of [-9999, -4713, -1, 0, 1, 325, 9999]) {
+    const gregorian = gregorianEasterJDN(year);
+    const gregorianDate = jdnToGregorian(gregorian);
+    const gregorianDayOfYear = gregorian - gregorianToJDN(year, 3, 22);
+    results.push({
+      cycle: 'Computus Range',
+      test: `Gregorian Easter ${year} should be a Sunday from March 22 to April 25`,
+      expected: 'Sunday, March 22 - April 25',
+      actual: formatGregorian(gregorian),
+      passed: isSunday(gregorian) && gregorianDate.year === year && gregorianDayOfYear >= 0 && gregorianDayOfYear <= 34,
+    });
+
+    const julian = julianEasterJDN(year);
+    const julianDate = jdnToJulian(julian);
+    const julianDayOfYear = julian - julianToJDN(year, 3, 22);
+    results.push({
+      cycle: 'Computus Range',
+      test: `Julian Easter ${year} should be a Sunday from March 22 to April 25 (Julian)`,
+      expected: 'Sunday, March 22 - April 25',
+      actual: formatJulian(julian),
+      passed: isSunday(julian) && julianDate.year === year && julianDayOfYear >= 0 && julianDayOfYear <= 34,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Run all computus verification tests
+ */
+export function runComputusVerification(): {
+  allPassed: boolean;
+  results: VerificationResult[];
+} {
+  const results: VerificationResult[] = [
+    ...verifyGregorianEaster(),
+    ...verifyJulianEaster(),
+    ...verifyMovableFeasts(),
+    ...verifyComputusRange()
+  ];
+
+  return {
+    allPassed: results.every(r => r.passed),
+    results
+  };
+}
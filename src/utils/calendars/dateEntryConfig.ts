@@ -499,7 +499,7 @@ export function getDateEntryConfig(calendar: CalendarSystem): CalendarDateEntryC
           {
             label: 'Year',
             placeholder: 'YYYY',
-            maxLength: 6,
+            maxLength: 10, // Room for deep-time years such as -65000000
             formatValue: (v) => v.replace(/[^+\-\d]/g, ''), // Allow +, -, and digits
             validation: (v) => {
               const num = parseInt(v, 10);
@@ -273,6 +273,39 @@ export function getDaysInHebrewMonth(year: number, month: number, precomputedYea
   }
 }
 
+/**
+ * Days from the Hebrew epoch to the molad of Tishrei of a year, moved a day
+ * forward when that day falls on Sunday, Wednesday or Friday
+ */
+function hebrewElapsedDays(year: number): number {
+  const monthsElapsed = Math.floor((235 * year - 234) / 19);
+  const partsElapsed = 12084 + 13753 * monthsElapsed;
+  const day = 29 * monthsElapsed + Math.floor(partsElapsed / 25920);
+  return (3 * (day + 1)) % 7 < 3 ? day + 1 : day;
+}
+
+/**
+ * Calculate the date of Rosh Hashanah (1 Tishrei) for a Hebrew year
+ * Uses the molad and postponement rules of the fixed calendar, so the result
+ * is exact even where the month-by-month conversion above is approximate.
+ * Algorithm from "Calendrical Calculations" by Dershowitz & Reingold.
+ * @param year Hebrew year (AM), counted from Tishrei
+ * @returns Julian Day Number of Rosh Hashanah
+ */
+export function hebrewNewYearJDN(year: number): number {
+  const previous = hebrewElapsedDays(year - 1);
+  const current = hebrewElapsedDays(year);
+  const next = hebrewElapsedDays(year + 1);
+  let delay = 0;
+  if (next - current === 356) {
+    delay = 2;
+  } else if (current - previous === 382) {
+    delay = 1;
+  }
+  // JDN 347998 is 1 Tishrei AM 1 (October 7, 3761 BCE Julian)
+  return 347998 + current + delay;
+}
+
 /**
  * Convert Hebrew date to Julian Day Number
  * @param year Hebrew year (AM)
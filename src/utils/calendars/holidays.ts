@@ -0,0 +1,313 @@
+/**
+ * Religious and Cultural Holidays
+ *
+ * Computes the holidays kept in the calendar systems CalenRecall supports (Passover,
+ * Ramadan, Lunar New Year, Nowruz, Meskel, Easter, ...) for any year, as Julian Day Numbers.
+ *
+ * Each holiday is a rule on a year of its own calendar. To find the holidays in a JDN
+ * range, the range ends are converted to that calendar's years and every rule is
+ * resolved for the years in between.
+ *
+ * Where a converter is not exact enough for observances, the rule uses the calendar's
+ * own reckoning instead: Jewish holidays are counted from Rosh Hashanah (molad
+ * arithmetic), Persian ones from the astronomical Nowruz, and the Ethiopian and Coptic
+ * Christmases from Julian December 25. Easter and the feasts that depend on it come
+ * from the computus (see computus.ts). Islamic dates follow the selected Islamic calendar
+ * variant: tabular by default, or Umm al-Qura or crescent visibility from the chosen region.
+ */
+
+import { CalendarSystem } from './types';
+import { hebrewNewYearJDN } from './hebrew';
+import { getIslamicReckoning, islamicVariantToJDN, jdnToIslamicVariant } from './islamic';
+import { chineseCalendar } from './chinese';
+import { nowruzJDN } from './persian';
+import { bahaiCalendar } from './bahai';
+import { ethiopianToJDN, jdnToEthiopian } from './ethiopian';
+import { copticToJDN, jdnToCoptic } from './coptic';
+import { sakaToJDN, jdnToSaka } from './indianSaka';
+import { jdnToGregorian, julianToJDN } from './julianDayUtils';
+import { getMovableFeastJDN, MOVABLE_FEASTS, MovableFeastType } from './computus';
+
+export type HolidayTradition =
+  | 'christian'
+  | 'orthodox'
+  | 'jewish'
+  | 'islamic'
+  | 'chinese'
+  | 'persian'
+  | 'bahai'
+  | 'ethiopian'
+  | 'coptic'
+  | 'indian';
+
+export interface Holiday {
+  id: string;
+  name: string;
+  tradition: HolidayTradition;
+  calendar: CalendarSystem;
+  icon: string; // Short label for calendar cells
+  jdn: number;
+}
+
+interface HolidayRule {
+  id: string;
+  name: string;
+  icon: string;
+  resolve: (year: number) => number; // JDN of the holiday in a year of the tradition's calendar
+}
+
+interface HolidayCalendar {
+  tradition: HolidayTradition;
+  calendar: CalendarSystem;
+  firstYear: number; // First year the holidays are computed for
+  yearOf: (jdn: number) => number;
+  variant?: () => string; // Reckoning in use, for calendars with selectable variants
+  rules: HolidayRule[];
+}
+
+/**
+ * Hebrew years are counted from Tishrei, so every holiday of a year falls inside it
+ */
+function hebrewYearOf(jdn: number): number {
+  const year = jdnToGregorian(jdn).year + 3761;
+  return jdn < hebrewNewYearJDN(year) ? year - 1 : year;
+}
+
+function persianYearOf(jdn: number): number {
+  const year = jdnToGregorian(jdn).year - 621;
+  return jdn < nowruzJDN(year) ? year - 1 : year;
+}
+
+const MOVABLE_FEAST_ICONS: Record<MovableFeastType, string> = {
+  'ash-wednesday': '✝️',
+  'palm-sunday': '🌿',
+  'good-friday': '✝️',
+  'easter': '🥚',
+  'ascension': '☁️',
+  'pentecost': '🔥',
+  'clean-monday': '🪁',
+  'orthodox-pascha': '🥚',
+  'orthodox-ascension': '☁️',
+  'orthodox-pentecost': '🔥',
+};
+
+function movableFeastRules(tradition: 'western' | 'orthodox'): HolidayRule[] {
+  return MOVABLE_FEASTS
+    .filter(feast => feast.tradition === tradition)
+    .map(feast => ({
+      id: feast.name,
+      name: feast.displayName,
+      icon: MOVABLE_FEAST_ICONS[feast.name],
+      resolve: (year: number) => getMovableFeastJDN(feast.name, year),
+    }));
+}
+
+const HOLIDAY_CALENDARS: HolidayCalendar[] = [
+  {
+    tradition: 'christian',
+    calendar: 'gregorian',
+    firstYear: -Infinity,
+    yearOf: jdn => jdnToGregorian(jdn).year,
+    rules: movableFeastRules('western'),
+  },
+  {
+    // Julian and Gregorian years share their number, and Pascha is always in spring
+    tradition: 'orthodox',
+    calendar: 'julian',
+    firstYear: -Infinity,
+    yearOf: jdn => jdnToGregorian(jdn).year,
+    rules: movableFeastRules('orthodox'),
+  },
+  {
+    tradition: 'jewish',
+    calendar: 'hebrew',
+    firstYear: 1,
+    yearOf: hebrewYearOf,
+    rules: [
+      { id: 'rosh-hashanah', name: 'Rosh Hashanah', icon: '🍎', resolve: year => hebrewNewYearJDN(year) },
+      { id: 'yom-kippur', name: 'Yom Kippur', icon: '🕊️', resolve: year => hebrewNewYearJDN(year) + 9 },
+      { id: 'sukkot', name: 'Sukkot', icon: '🌿', resolve: year => hebrewNewYearJDN(year) + 14 },
+      {
+        id: 'hanukkah',
+        name: 'Hanukkah',
+        icon: '🕎',
+        resolve: year => {
+          // 25 Kislev: Tishrei has 30 days, Cheshvan 30 only in complete (355/385 day) years
+          const newYear = hebrewNewYearJDN(year);
+          const yearLength = hebrewNewYearJDN(year + 1) - newYear;
+          return newYear + 30 + (yearLength % 10 === 5 ? 30 : 29) + 24;
+        }
+      },
+      // Nisan to Elul have fixed lengths, so spring holidays count back from the next Rosh Hashanah
+      { id: 'purim', name: 'Purim', icon: '🎭', resolve: year => hebrewNewYearJDN(year + 1) - 193 },
+      { id: 'passover', name: 'Passover', icon: '🍷', resolve: year => hebrewNewYearJDN(year + 1) - 163 },
+      { id: 'shavuot', name: 'Shavuot', icon: '🌾', resolve: year => hebrewNewYearJDN(year + 1) - 113 },
+    ],
+  },
+  {
+    tradition: 'islamic',
+    calendar: 'islamic',
+    firstYear: 1,
+    yearOf: jdn => jdnToIslamicVariant(jdn).year,
+    variant: getIslamicReckoning,
+    rules: [
+      { id: 'islamic-new-year', name: 'Islamic New Year', icon: '🌙', resolve: year => islamicVariantToJDN(year, 1, 1) },
+      { id: 'ashura', name: 'Ashura', icon: '💧', resolve: year => islamicVariantToJDN(year, 1, 10) },
+      { id: 'mawlid', name: 'Mawlid an-Nabi', icon: '🕌', resolve: year => islamicVariantToJDN(year, 3, 12) },
+      { id: 'ramadan', name: 'Ramadan Begins', icon: '🌙', resolve: year => islamicVariantToJDN(year, 9, 1) },
+      { id: 'laylat-al-qadr', name: 'Laylat al-Qadr', icon: '✨', resolve: year => islamicVariantToJDN(year, 9, 27) },
+      { id: 'eid-al-fitr', name: 'Eid al-Fitr', icon: '🎉', resolve: year => islamicVariantToJDN(year, 10, 1) },
+      { id: 'day-of-arafah', name: 'Day of Arafah', icon: '⛰️', resolve: year => islamicVariantToJDN(year, 12, 9) },
+      { id: 'eid-al-adha', name: 'Eid al-Adha', icon: '🐑', resolve: year => islamicVariantToJDN(year, 12, 10) },
+    ],
+  },
+  {
+    tradition: 'chinese',
+    calendar: 'chinese',
+    firstYear: 1,
+    yearOf: jdn => chineseCalendar.fromJDN(jdn).year,
+    rules: [
+      { id: 'lunar-new-year', name: 'Lunar New Year', icon: '🧧', resolve: year => chineseCalendar.toJDN(year, 1, 1) },
+      { id: 'lantern-festival', name: 'Lantern Festival', icon: '🏮', resolve: year => chineseCalendar.toJDN(year, 1, 15) },
+      { id: 'dragon-boat', name: 'Dragon Boat Festival', icon: '🐉', resolve: year => chineseCalendar.toJDN(year, 5, 5) },
+      { id: 'qixi', name: 'Qixi Festival', icon: '🌌', resolve: year => chineseCalendar.toJDN(year, 7, 7) },
+      { id: 'mid-autumn', name: 'Mid-Autumn Festival', icon: '🥮', resolve: year => chineseCalendar.toJDN(year, 8, 15) },
+      { id: 'double-ninth', name: 'Double Ninth Festival', icon: '🌼', resolve: year => chineseCalendar.toJDN(year, 9, 9) },
+    ],
+  },
+  {
+    tradition: 'persian',
+    calendar: 'persian',
+    firstYear: 1,
+    yearOf: persianYearOf,
+    // The first six months have 31 days and the next five 30
+    rules: [
+      { id: 'nowruz', name: 'Nowruz', icon: '🌷', resolve: year => nowruzJDN(year) },
+      { id: 'sizdah-bedar', name: 'Sizdah Bedar', icon: '🌳', resolve: year => nowruzJDN(year) + 12 },
+      { id: 'mehregan', name: 'Mehregan', icon: '🍇', resolve: year => nowruzJDN(year) + 6 * 31 + 15 },
+      { id: 'yalda', name: 'Yalda Night', icon: '🍉', resolve: year => nowruzJDN(year) + 6 * 31 + 2 * 30 + 29 },
+    ],
+  },
+  {
+    tradition: 'bahai',
+    calendar: 'bahai',
+    firstYear: 1,
+    yearOf: jdn => bahaiCalendar.fromJDN(jdn).year,
+    rules: [
+      { id: 'naw-ruz', name: 'Naw-Rúz', icon: '🌟', resolve: year => bahaiCalendar.toJDN(year, 1, 1) },
+      { id: 'ridvan', name: 'First Day of Ridván', icon: '🌹', resolve: year => bahaiCalendar.toJDN(year, 2, 13) },
+      { id: 'ridvan-ninth', name: 'Ninth Day of Ridván', icon: '🌹', resolve: year => bahaiCalendar.toJDN(year, 3, 2) },
+      { id: 'ridvan-twelfth', name: 'Twelfth Day of Ridván', icon: '🌹', resolve: year => bahaiCalendar.toJDN(year, 3, 5) },
+      { id: 'declaration-of-the-bab', name: 'Declaration of the Báb', icon: '⭐', resolve: year => bahaiCalendar.toJDN(year, 4, 8) },
+      { id: 'ascension-of-bahaullah', name: 'Ascension of Baháʼu\'lláh', icon: '⭐', resolve: year => bahaiCalendar.toJDN(year, 4, 13) },
+      { id: 'martyrdom-of-the-bab', name: 'Martyrdom of the Báb', icon: '⭐', resolve: year => bahaiCalendar.toJDN(year, 6, 17) },
+      // 'Alá, the month of fasting, is the last 19 days before the next Naw-Rúz
+      { id: 'bahai-fast', name: 'Nineteen-Day Fast Begins', icon: '🌅', resolve: year => bahaiCalendar.toJDN(year + 1, 1, 1) - 19 },
+    ],
+  },
+  {
+    tradition: 'ethiopian',
+    calendar: 'ethiopian',
+    firstYear: 1,
+    yearOf: jdn => jdnToEthiopian(jdn).year,
+    rules: [
+      { id: 'enkutatash', name: 'Enkutatash', icon: '🌼', resolve: year => ethiopianToJDN(year, 1, 1) },
+      { id: 'meskel', name: 'Meskel', icon: '🔥', resolve: year => ethiopianToJDN(year, 1, 17) },
+      { id: 'genna', name: 'Genna (Ethiopian Christmas)', icon: '✝️', resolve: year => julianToJDN(year + 7, 12, 25) },
+      { id: 'timkat', name: 'Timkat', icon: '💧', resolve: year => ethiopianToJDN(year, 5, 11) },
+    ],
+  },
+  {
+    tradition: 'coptic',
+    calendar: 'coptic',
+    firstYear: 1,
+    yearOf: jdn => jdnToCoptic(jdn).year,
+    rules: [
+      { id: 'nayrouz', name: 'Nayrouz', icon: '🌴', resolve: year => copticToJDN(year, 1, 1) },
+      { id: 'coptic-feast-of-the-cross', name: 'Feast of the Cross', icon: '✝️', resolve: year => copticToJDN(year, 1, 17) },
+      { id: 'coptic-christmas', name: 'Coptic Christmas', icon: '✝️', resolve: year => julianToJDN(year + 283, 12, 25) },
+      { id: 'coptic-epiphany', name: 'Epiphany (Ghitas)', icon: '💧', resolve: year => copticToJDN(year, 5, 11) },
+    ],
+  },
+  {
+    tradition: 'indian',
+    calendar: 'indian-saka',
+    firstYear: 1,
+    yearOf: jdn => jdnToSaka(jdn).year,
+    rules: [
+      { id: 'saka-new-year', name: 'Indian National New Year', icon: '🪔', resolve: year => sakaToJDN(year, 1, 1) },
+    ],
+  },
+];
+
+// Resolving a year is cheap except for the Chinese calendar, which needs new moon searches.
+// Least recently used years are evicted first (Map keeps insertion order), so scrolling
+// across deep time does not grow the cache without bound
+const YEAR_HOLIDAY_CACHE_SIZE = 512;
+const yearHolidayCache = new Map<string, Holiday[]>();
+
+function getHolidaysForYear(holidayCalendar: HolidayCalendar, year: number): Holiday[] {
+  const variant = holidayCalendar.variant ? `:${holidayCalendar.variant()}` : '';
+  const cacheKey = `${holidayCalendar.tradition}${variant}:${year}`;
+  const cached = yearHolidayCache.get(cacheKey);
+  if (cached) {
+    yearHolidayCache.delete(cacheKey);
+    yearHolidayCache.set(cacheKey, cached);
+    return cached;
+  }
+
+  const holidays: Holiday[] = [];
+  for (const rule of holidayCalendar.rules) {
+    try {
+      holidays.push({
+        id: rule.id,
+        name: rule.name,
+        tradition: holidayCalendar.tradition,
+        calendar: holidayCalendar.calendar,
+        icon: rule.icon,
+        jdn: rule.resolve(year),
+      });
+    } catch (error) {
+      // A converter can refuse years outside its supported range
+      console.warn(`[holidays] Could not resolve ${rule.id} for ${holidayCalendar.calendar} year ${year}:`, error);
+    }
+  }
+  if (yearHolidayCache.size >= YEAR_HOLIDAY_CACHE_SIZE) {
+    yearHolidayCache.delete(yearHolidayCache.keys().next().value as string);
+  }
+  yearHolidayCache.set(cacheKey, holidays);
+  return holidays;
+}
+
+/**
+ * Get the holidays of every tradition in a JDN range
+ * @param startJDN First day of the range
+ * @param endJDN Last day of the range (inclusive)
+ * @returns Holidays sorted by date
+ */
+export function getHolidaysInRange(startJDN: number, endJDN: number): Holiday[] {
+  const holidays: Holiday[] = [];
+
+  for (const holidayCalendar of HOLIDAY_CALENDARS) {
+    let startYear: number;
+    let endYear: number;
+    try {
+      // One year of margin on each side covers converters whose year does not start on the holiday
+      startYear = Math.max(holidayCalendar.firstYear, holidayCalendar.yearOf(startJDN) - 1);
+      endYear = holidayCalendar.yearOf(endJDN) + 1;
+    } catch (error) {
+      console.warn(`[holidays] Could not convert range to ${holidayCalendar.calendar}:`, error);
+      continue;
+    }
+
+    for (let year = startYear; year <= endYear; year++) {
+      for (const holiday of getHolidaysForYear(holidayCalendar, year)) {
+        if (holiday.jdn >= startJDN && holiday.jdn <= endJDN) {
+          holidays.push(holiday);
+        }
+      }
+    }
+  }
+
+  return holidays.sort((a, b) => a.jdn - b.jdn);
+}
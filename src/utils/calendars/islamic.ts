@@ -8,10 +8,52 @@
  * Era designation: AH (Anno Hegirae)
  * 
  * Algorithm based on "Calendrical Calculations" by Dershowitz & Reingold
+ *
+ * Variants: the arithmetic (tabular) calendar can be a day or two off the dates that are
+ * actually observed, so the converter can also follow an observational reckoning:
+ * - 'tabular': 30-year cycle of leap years (the default)
+ * - 'umm-al-qura': the official calendar of Saudi Arabia
+ * - 'crescent': months begin after the new crescent can be seen (Yallop's criterion)
+ * The observational months are found from the new moon nearest the tabular month start
+ * (see lunarVisibility.ts). Umm al-Qura is always reckoned at Mecca; crescent sighting is
+ * reckoned from the observer region chosen in the profile.
  */
 
 import { CalendarConverter, CalendarDate, CalendarInfo } from './types';
 import { CALENDAR_INFO } from './types';
+import { lunarMonthStartJDN, MECCA, ObserverLocation } from './lunarVisibility';
+
+export type IslamicCalendarVariant = 'tabular' | 'umm-al-qura' | 'crescent';
+
+export const ISLAMIC_CALENDAR_VARIANTS: Record<IslamicCalendarVariant, string> = {
+  'tabular': 'Tabular (arithmetic)',
+  'umm-al-qura': 'Umm al-Qura (Saudi Arabia)',
+  'crescent': 'Crescent visibility',
+};
+
+export type IslamicObserverRegion = 'mecca' | 'cairo' | 'rabat' | 'istanbul' | 'tehran' | 'karachi' | 'jakarta' | 'london' | 'new-york';
+
+export const ISLAMIC_OBSERVER_REGIONS: Record<IslamicObserverRegion, { name: string; location: ObserverLocation }> = {
+  'mecca': { name: 'Mecca', location: MECCA },
+  'cairo': { name: 'Cairo', location: { latitude: 30.0444, longitude: 31.2357 } },
+  'rabat': { name: 'Rabat', location: { latitude: 34.0209, longitude: -6.8416 } },
+  'istanbul': { name: 'Istanbul', location: { latitude: 41.0082, longitude: 28.9784 } },
+  'tehran': { name: 'Tehran', location: { latitude: 35.6892, longitude: 51.3890 } },
+  'karachi': { name: 'Karachi', location: { latitude: 24.8607, longitude: 67.0011 } },
+  'jakarta': { name: 'Jakarta', location: { latitude: -6.2088, longitude: 106.8456 } },
+  'london': { name: 'London', location: { latitude: 51.5074, longitude: -0.1278 } },
+  'new-york': { name: 'New York', location: { latitude: 40.7128, longitude: -74.0060 } },
+};
+
+// Variant and crescent observer used by the converter (set from the profile's preferences)
+let activeVariant: IslamicCalendarVariant = 'tabular';
+let activeObserverRegion: IslamicObserverRegion = 'mecca';
+
+// First day of each observational month, keyed by reckoning and month index.
+// Least recently used months are evicted first (Map keeps insertion order), so scrolling
+// across deep time does not grow the cache without bound
+const MONTH_START_CACHE_SIZE = 4096;
+const monthStartCache = new Map<string, number>();
 
 const ISLAMIC_MONTH_NAMES = [
   'Muharram',
@@ -172,8 +214,8 @@ export function jdnToIslamic(jdn: number): { year: number; month: number; day: n
       }
     }
     
-    // Should not reach here, but return year -1, month 1, day 1 as fallback
-    return { year: -1, month: 1, day: 1 };
+    // The loop consumed whole years only: the date is the first day of the last year consumed
+    return { year: year + 1, month: 1, day: 1 };
   }
   
   // Normal case: days >= 0 (year >= 1)
@@ -264,16 +306,159 @@ export function getDaysInIslamicMonth(year: number, month: number): number {
   return (month % 2 === 1) ? 30 : 29;
 }
 
+/**
+ * Set the variant the Islamic converter and holidays follow
+ * @param variant Islamic calendar variant (unknown values fall back to tabular)
+ */
+export function setIslamicCalendarVariant(variant: IslamicCalendarVariant): void {
+  activeVariant = variant in ISLAMIC_CALENDAR_VARIANTS ? variant : 'tabular';
+}
+
+/**
+ * Get the variant the Islamic converter and holidays follow
+ */
+export function getIslamicCalendarVariant(): IslamicCalendarVariant {
+  return activeVariant;
+}
+
+/**
+ * Set the region from which the crescent is sighted
+ * @param region Observer region (unknown values fall back to Mecca)
+ */
+export function setIslamicObserverRegion(region: IslamicObserverRegion): void {
+  activeObserverRegion = region in ISLAMIC_OBSERVER_REGIONS ? region : 'mecca';
+}
+
+/**
+ * Get the region from which the crescent is sighted
+ */
+export function getIslamicObserverRegion(): IslamicObserverRegion {
+  return activeObserverRegion;
+}
+
+/**
+ * Identify the reckoning in use: the variant, and for crescent sighting the observer region
+ */
+export function getIslamicReckoning(
+  variant: IslamicCalendarVariant = activeVariant,
+  region: IslamicObserverRegion = activeObserverRegion
+): string {
+  return variant === 'crescent' ? `${variant}@${region}` : variant;
+}
+
+/**
+ * Count months from the start of year 1 (there is no year 0)
+ */
+function toMonthIndex(year: number, month: number): number {
+  return (year < 1 ? year : year - 1) * 12 + (month - 1);
+}
+
+function fromMonthIndex(index: number): { year: number; month: number } {
+  const year = Math.floor(index / 12);
+  return { year: year < 0 ? year : year + 1, month: index - year * 12 + 1 };
+}
+
+/**
+ * Get the first day of an Islamic month
+ * @param year Islamic year (AH)
+ * @param month Month (1-12)
+ * @param variant Islamic calendar variant
+ * @param region Region from which the crescent is sighted (crescent variant only)
+ * @returns Julian Day Number of the first day of the month
+ */
+export function islamicMonthStartJDN(
+  year: number,
+  month: number,
+  variant: IslamicCalendarVariant = activeVariant,
+  region: IslamicObserverRegion = activeObserverRegion
+): number {
+  const tabularStart = islamicToJDN(year, month, 1);
+  if (variant === 'tabular') {
+    return tabularStart;
+  }
+
+  const cacheKey = `${getIslamicReckoning(variant, region)}:${toMonthIndex(year, month)}`;
+  const cached = monthStartCache.get(cacheKey);
+  if (cached !== undefined) {
+    monthStartCache.delete(cacheKey);
+    monthStartCache.set(cacheKey, cached);
+    return cached;
+  }
+
+  // Tabular months start a day or two after the new moon
+  const location = variant === 'crescent' ? ISLAMIC_OBSERVER_REGIONS[region].location : MECCA;
+  const start = lunarMonthStartJDN(tabularStart - 1, variant, location);
+  if (monthStartCache.size >= MONTH_START_CACHE_SIZE) {
+    monthStartCache.delete(monthStartCache.keys().next().value as string);
+  }
+  monthStartCache.set(cacheKey, start);
+  return start;
+}
+
+/**
+ * Convert an Islamic date to Julian Day Number in a variant
+ * @param year Islamic year (AH)
+ * @param month Month (1-12)
+ * @param day Day (1-30)
+ * @param variant Islamic calendar variant
+ * @param region Region from which the crescent is sighted (crescent variant only)
+ * @returns Julian Day Number
+ */
+export function islamicVariantToJDN(
+  year: number,
+  month: number,
+  day: number,
+  variant: IslamicCalendarVariant = activeVariant,
+  region: IslamicObserverRegion = activeObserverRegion
+): number {
+  if (variant === 'tabular') {
+    return islamicToJDN(year, month, day);
+  }
+  return islamicMonthStartJDN(year, month, variant, region) + day - 1;
+}
+
+/**
+ * Convert Julian Day Number to an Islamic date in a variant
+ * @param jdn Julian Day Number
+ * @param variant Islamic calendar variant
+ * @param region Region from which the crescent is sighted (crescent variant only)
+ * @returns Object with year, month (1-12), and day
+ */
+export function jdnToIslamicVariant(
+  jdn: number,
+  variant: IslamicCalendarVariant = activeVariant,
+  region: IslamicObserverRegion = activeObserverRegion
+): { year: number; month: number; day: number } {
+  const tabular = jdnToIslamic(jdn);
+  if (variant === 'tabular') {
+    return tabular;
+  }
+
+  // The observed month is the tabular one or a neighbour
+  let index = toMonthIndex(tabular.year, tabular.month);
+  const startOf = (i: number) => {
+    const { year, month } = fromMonthIndex(i);
+    return islamicMonthStartJDN(year, month, variant, region);
+  };
+  if (jdn < startOf(index)) {
+    index--;
+  } else if (jdn >= startOf(index + 1)) {
+    index++;
+  }
+
+  return { ...fromMonthIndex(index), day: jdn - startOf(index) + 1 };
+}
+
 /**
  * Islamic Calendar Converter Implementation
  */
 export const islamicCalendar: CalendarConverter = {
   toJDN(year: number, month: number, day: number): number {
-    return islamicToJDN(year, month, day);
+    return islamicVariantToJDN(year, month, day);
   },
   
   fromJDN(jdn: number): CalendarDate {
-    const { year, month, day } = jdnToIslamic(jdn);
+    const { year, month, day } = jdnToIslamicVariant(jdn);
     return {
       year,
       month,
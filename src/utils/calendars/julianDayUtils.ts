@@ -9,57 +9,21 @@
  * - "Astronomical Algorithms" by Jean Meeus
  */
 
-/**
- * Convert a Gregorian date to Julian Day Number
- * @param year Year (can be negative for BC dates, where -1 = 2 BCE, 0 = 1 BCE)
- * @param month Month (1-12)
- * @param day Day (1-31)
- * @returns Julian Day Number
- */
-export function gregorianToJDN(year: number, month: number, day: number): number {
-  // Convert from historical year numbering to astronomical year numbering
-  // Historical: 1 = 1 CE, 0 = 1 BCE, -1 = 2 BCE, -100 = 101 BCE (no year 0 in historical)
-  // Astronomical: 1 = 1 CE, 0 = 1 BCE, -1 = 2 BCE, -100 = 101 BCE (has year 0)
-  // The numbering is the same, so we use the year as-is
-  
-  const a = Math.floor((14 - month) / 12);
-  const y = year + 4800 - a;
-  const m = month + 12 * a - 3;
-  
-  // Gregorian calendar formula (uses astronomical year numbering)
-  // Formula from "Calendrical Calculations" by Dershowitz & Reingold
-  return day + Math.floor((153 * m + 2) / 5) + 365 * y + 
-         Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
-}
+import { gregorianToJDN, jdnToGregorian } from '../../../electron/utils/isoDate';
 
-/**
- * Convert Julian Day Number to Gregorian date
- * @param jdn Julian Day Number
- * @returns Object with year, month (1-12), and day
- */
-export function jdnToGregorian(jdn: number): { year: number; month: number; day: number } {
-  const j = jdn + 32044;
-  const g = Math.floor(j / 146097);
-  const dg = j % 146097;
-  const c = Math.floor((Math.floor(dg / 36524) + 1) * 3 / 4);
-  const dc = dg - c * 36524;
-  const b = Math.floor(dc / 1461);
-  const db = dc % 1461;
-  const a = Math.floor((Math.floor(db / 365) + 1) * 3 / 4);
-  const da = db - a * 365;
-  const y = g * 400 + c * 100 + b * 4 + a;
-  const m = Math.floor((da * 5 + 308) / 153) - 2;
-  const d = da - Math.floor((m + 4) * 153 / 5) + 122;
-  
-  // Result is in astronomical year numbering (year 0 = 1 BCE)
-  // Convert to historical year numbering (year 0 = 1 BCE, same mapping)
-  // So no conversion needed - the numbering is the same
-  const year = y - 4800 + Math.floor((m + 2) / 12);
-  const month = (m + 2) % 12 + 1;
-  const day = d + 1;
-  
-  return { year, month, day };
-}
+// Gregorian dates, ISO date strings and JDNs are converted by the module the main process
+// uses for stored entry dates, so both sides agree on every date (years 0 and below included)
+export {
+  gregorianToJDN,
+  jdnToGregorian,
+  parseISODateParts,
+  formatISODateParts,
+  isoDateStringToJDN,
+  jdnToISODateString,
+  MIN_DATE_YEAR,
+  MAX_DATE_YEAR,
+} from '../../../electron/utils/isoDate';
+export type { DateParts } from '../../../electron/utils/isoDate';
 
 /**
  * Convert a JavaScript Date object to Julian Day Number
@@ -0,0 +1,333 @@
+/**
+ * Lunar Crescent Visibility
+ *
+ * Positions of the Sun and Moon seen from a place on Earth, and the criteria the
+ * observational Islamic calendar variants use to decide when a month begins:
+ * - Umm al-Qura (Saudi Arabia, since 1423 AH): the month begins the next day if, at Mecca,
+ *   the conjunction happens before sunset and the Moon sets after the Sun
+ * - Crescent visibility: Yallop's q-test (NAO Technical Note 69, 1997), the month begins
+ *   the day after the young crescent can first be seen with the naked eye
+ *
+ * Lunar position from Meeus, "Astronomical Algorithms", Chapter 47 (main periodic terms
+ * only, good to about 0.01°); sidereal time and setting times from Chapters 12 and 15.
+ * All times are UT, ignoring ΔT (about a minute for modern dates).
+ */
+
+import { newMoonMoment, trueSolarLongitude } from './astronomicalUtils';
+
+export interface ObserverLocation {
+  latitude: number;  // Degrees, north positive
+  longitude: number; // Degrees, east positive
+}
+
+export type MonthStartCriterion = 'umm-al-qura' | 'crescent';
+
+/**
+ * Mecca, the reference location of the Umm al-Qura calendar
+ */
+export const MECCA: ObserverLocation = { latitude: 21.4225, longitude: 39.8262 };
+
+/**
+ * Lowest q value for which Yallop expects the crescent to be seen with the naked eye
+ * (his categories A and B)
+ */
+const NAKED_EYE_Q = -0.014;
+
+interface SkyPosition {
+  rightAscension: number; // Degrees
+  declination: number;    // Degrees
+  parallax: number;       // Equatorial horizontal parallax, degrees
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+function julianCenturies(jd: number): number {
+  return (jd - 2451545.0) / 36525.0;
+}
+
+/**
+ * Convert ecliptic coordinates to right ascension and declination (Meeus, Chapter 13)
+ */
+function eclipticToEquatorial(longitude: number, latitude: number, T: number): { rightAscension: number; declination: number } {
+  const obliquity = toRadians(23.439291 - 0.0130042 * T);
+  const λ = toRadians(longitude);
+  const β = toRadians(latitude);
+  const rightAscension = Math.atan2(
+    Math.sin(λ) * Math.cos(obliquity) - Math.tan(β) * Math.sin(obliquity),
+    Math.cos(λ)
+  );
+  const declination = Math.asin(
+    Math.sin(β) * Math.cos(obliquity) + Math.cos(β) * Math.sin(obliquity) * Math.sin(λ)
+  );
+  return { rightAscension: normalizeDegrees(toDegrees(rightAscension)), declination: toDegrees(declination) };
+}
+
+function sunPosition(jd: number): SkyPosition {
+  return { ...eclipticToEquatorial(trueSolarLongitude(jd), 0, julianCenturies(jd)), parallax: 0.0024 };
+}
+
+// Periodic terms for the Moon's longitude (1e-6 degrees) and distance (1e-3 km):
+// multiples of D, M, M', F, then the Σl and Σr coefficients (Meeus, Table 47.A)
+const MOON_LONGITUDE_DISTANCE_TERMS: ReadonlyArray<readonly [number, number, number, number, number, number]> = [
+  [0, 0, 1, 0, 6288774, -20905355],
+  [2, 0, -1, 0, 1274027, -3699111],
+  [2, 0, 0, 0, 658314, -2955968],
+  [0, 0, 2, 0, 213618, -569925],
+  [0, 1, 0, 0, -185116, 48888],
+  [0, 0, 0, 2, -114332, -3149],
+  [2, 0, -2, 0, 58793, 246158],
+  [2, -1, -1, 0, 57066, -152138],
+  [2, 0, 1, 0, 53322, -170733],
+  [2, -1, 0, 0, 45758, -204586],
+  [0, 1, -1, 0, -40923, -129620],
+  [1, 0, 0, 0, -34720, 108743],
+  [0, 1, 1, 0, -30383, 104755],
+  [2, 0, 0, -2, 15327, 10321],
+  [0, 0, 1, 2, -12528, 0],
+  [0, 0, 1, -2, 10980, 79661],
+  [4, 0, -1, 0, 10675, -34782],
+  [0, 0, 3, 0, 10034, -23210],
+  [4, 0, -2, 0, 8548, -21636],
+  [2, 1, -1, 0, -7888, 24208],
+  [2, 1, 0, 0, -6766, 30824],
+  [1, 0, -1, 0, -5163, -8379],
+  [1, 1, 0, 0, 4987, -16675],
+  [2, -1, 1, 0, 4036, -12831],
+  [2, 0, 2, 0, 3994, -10445],
+  [4, 0, 0, 0, 3861, -11650],
+  [2, 0, -3, 0, 3665, 14403],
+];
+
+// Periodic terms for the Moon's latitude (1e-6 degrees): multiples of D, M, M', F,
+// then the Σb coefficient (Meeus, Table 47.B)
+const MOON_LATITUDE_TERMS: ReadonlyArray<readonly [number, number, number, number, number]> = [
+  [0, 0, 0, 1, 5128122],
+  [0, 0, 1, 1, 280602],
+  [0, 0, 1, -1, 277693],
+  [2, 0, 0, -1, 173237],
+  [2, 0, -1, 1, 55413],
+  [2, 0, -1, -1, 46271],
+  [2, 0, 0, 1, 32573],
+  [0, 0, 2, 1, 17198],
+  [2, 0, 1, -1, 9266],
+  [0, 0, 2, -1, 8822],
+  [2, -1, 0, -1, 8216],
+  [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200],
+];
+
+function moonPosition(jd: number): SkyPosition {
+  const T = julianCenturies(jd);
+  const Lp = normalizeDegrees(218.3164477 + 481267.88123421 * T - 0.0015786 * T * T);
+  const D = normalizeDegrees(297.8501921 + 445267.1114034 * T - 0.0018819 * T * T);
+  const M = normalizeDegrees(357.5291092 + 35999.0502909 * T - 0.0001536 * T * T);
+  const Mp = normalizeDegrees(134.9633964 + 477198.8675055 * T + 0.0087414 * T * T);
+  const F = normalizeDegrees(93.2720950 + 483202.0175233 * T - 0.0036539 * T * T);
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+  const A1 = 119.75 + 131.849 * T;
+  const A2 = 53.09 + 479264.290 * T;
+  const A3 = 313.45 + 481266.484 * T;
+
+  // Terms with the Sun's anomaly shrink as the Earth's orbit becomes less eccentric
+  const eccentricityFactor = (m: number) => (m === 0 ? 1 : Math.pow(E, Math.abs(m)));
+
+  let sumL = 0;
+  let sumR = 0;
+  for (const [d, m, mp, f, l, r] of MOON_LONGITUDE_DISTANCE_TERMS) {
+    const argument = toRadians(d * D + m * M + mp * Mp + f * F);
+    sumL += l * eccentricityFactor(m) * Math.sin(argument);
+    sumR += r * eccentricityFactor(m) * Math.cos(argument);
+  }
+
+  let sumB = 0;
+  for (const [d, m, mp, f, b] of MOON_LATITUDE_TERMS) {
+    sumB += b * eccentricityFactor(m) * Math.sin(toRadians(d * D + m * M + mp * Mp + f * F));
+  }
+
+  // Venus, Jupiter and the Earth's flattening
+  sumL += 3958 * Math.sin(toRadians(A1)) + 1962 * Math.sin(toRadians(Lp - F)) + 318 * Math.sin(toRadians(A2));
+  sumB += -2235 * Math.sin(toRadians(Lp)) + 382 * Math.sin(toRadians(A3)) +
+          175 * Math.sin(toRadians(A1 - F)) + 175 * Math.sin(toRadians(A1 + F)) +
+          127 * Math.sin(toRadians(Lp - Mp)) - 115 * Math.sin(toRadians(Lp + Mp));
+
+  const distance = 385000.56 + sumR / 1000;
+  return {
+    ...eclipticToEquatorial(Lp + sumL / 1000000, sumB / 1000000, T),
+    parallax: toDegrees(Math.asin(6378.14 / distance)),
+  };
+}
+
+/**
+ * Greenwich mean sidereal time in degrees (Meeus, Chapter 12)
+ */
+function siderealTime(jd: number): number {
+  const T = julianCenturies(jd);
+  return normalizeDegrees(280.46061837 + 360.98564736629 * (jd - 2451545.0) + 0.000387933 * T * T - (T * T * T) / 38710000);
+}
+
+/**
+ * Geocentric altitude of a body above the horizon, without refraction
+ */
+function altitude(position: SkyPosition, jd: number, location: ObserverLocation): number {
+  const hourAngle = toRadians(siderealTime(jd) + location.longitude - position.rightAscension);
+  const latitude = toRadians(location.latitude);
+  const declination = toRadians(position.declination);
+  return toDegrees(Math.asin(
+    Math.sin(latitude) * Math.sin(declination) + Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle)
+  ));
+}
+
+/**
+ * Elongation of the Moon from the Sun in degrees
+ */
+function elongation(sun: SkyPosition, moon: SkyPosition): number {
+  const sunDeclination = toRadians(sun.declination);
+  const moonDeclination = toRadians(moon.declination);
+  return toDegrees(Math.acos(
+    Math.sin(sunDeclination) * Math.sin(moonDeclination) +
+    Math.cos(sunDeclination) * Math.cos(moonDeclination) * Math.cos(toRadians(sun.rightAscension - moon.rightAscension))
+  ));
+}
+
+/**
+ * Find when a body sets on a day, refining the hour angle from local noon (Meeus, Chapter 15)
+ * @param positionAt Position of the body at a moment
+ * @param jdn Day (Julian Day Number)
+ * @param location Observer
+ * @param standardAltitude Altitude of the body's centre when it sets, given its position
+ * @returns Julian Date (UT) of the setting, or null if the body does not set that day
+ */
+function settingMoment(
+  positionAt: (jd: number) => SkyPosition,
+  jdn: number,
+  location: ObserverLocation,
+  standardAltitude: (position: SkyPosition) => number
+): number | null {
+  const latitude = toRadians(location.latitude);
+  let moment = jdn - location.longitude / 360;
+
+  for (let i = 0; i < 6; i++) {
+    const position = positionAt(moment);
+    const declination = toRadians(position.declination);
+    const cosHourAngle = (Math.sin(toRadians(standardAltitude(position))) - Math.sin(latitude) * Math.sin(declination)) /
+                         (Math.cos(latitude) * Math.cos(declination));
+    if (cosHourAngle < -1 || cosHourAngle > 1) {
+      return null;
+    }
+
+    const hourAngle = siderealTime(moment) + location.longitude - position.rightAscension;
+    const correction = ((toDegrees(Math.acos(cosHourAngle)) - hourAngle) % 360 + 540) % 360 - 180;
+    moment += correction / 360.98564736629;
+    if (Math.abs(correction) < 0.01) {
+      break;
+    }
+  }
+
+  return moment;
+}
+
+/**
+ * Sunset on a day, for the Sun's upper limb with standard refraction
+ * @param jdn Day (Julian Day Number)
+ * @param location Observer
+ * @returns Julian Date (UT) of sunset, or null during polar day or night
+ */
+export function sunsetMoment(jdn: number, location: ObserverLocation): number | null {
+  return settingMoment(sunPosition, jdn, location, () => -0.8333);
+}
+
+/**
+ * Moonset on the evening of a day, for the Moon's upper limb with standard refraction
+ * @param jdn Day (Julian Day Number)
+ * @param location Observer
+ * @returns Julian Date (UT) of moonset, or null if the Moon does not set
+ */
+export function moonsetMoment(jdn: number, location: ObserverLocation): number | null {
+  return settingMoment(moonPosition, jdn, location, moon => 0.7275 * moon.parallax - 0.5667);
+}
+
+/**
+ * Umm al-Qura rule: the conjunction is before sunset and the Moon sets after the Sun
+ * @param jdn Day (Julian Day Number) whose evening is tested
+ * @param conjunction Julian Date of the conjunction
+ * @param location Observer (Mecca for the official calendar)
+ * @returns true if the next day begins a month
+ */
+export function ummAlQuraMonthBegins(jdn: number, conjunction: number, location: ObserverLocation = MECCA): boolean {
+  const sunset = sunsetMoment(jdn, location);
+  const moonset = moonsetMoment(jdn, location);
+  return sunset !== null && moonset !== null && conjunction < sunset && moonset > sunset;
+}
+
+/**
+ * Yallop's q value for the crescent on the evening of a day
+ * The Moon is observed at the "best time", 4/9 of the way from sunset to moonset.
+ * @param jdn Day (Julian Day Number)
+ * @param location Observer
+ * @returns q (above -0.014 the crescent is visible to the naked eye), or null if the
+ *   Moon sets before the Sun
+ */
+export function crescentVisibilityQ(jdn: number, location: ObserverLocation): number | null {
+  const sunset = sunsetMoment(jdn, location);
+  const moonset = moonsetMoment(jdn, location);
+  if (sunset === null || moonset === null || moonset <= sunset) {
+    return null;
+  }
+
+  const bestTime = sunset + (4 / 9) * (moonset - sunset);
+  const sun = sunPosition(bestTime);
+  const moon = moonPosition(bestTime);
+  const moonAltitude = altitude(moon, bestTime, location);
+
+  // Arc of vision, and the width of the crescent in arcminutes from the topocentric semi-diameter
+  const arcOfVision = moonAltitude - altitude(sun, bestTime, location);
+  const semiDiameter = 0.27245 * moon.parallax * 60 *
+                       (1 + Math.sin(toRadians(moonAltitude)) * Math.sin(toRadians(moon.parallax)));
+  const width = semiDiameter * (1 - Math.cos(toRadians(elongation(sun, moon))));
+
+  return (arcOfVision - (11.8371 - 6.3226 * width + 0.7319 * width * width - 0.1018 * width * width * width)) / 10;
+}
+
+/**
+ * Whether the new crescent can be seen with the naked eye on the evening of a day
+ * @param jdn Day (Julian Day Number)
+ * @param conjunction Julian Date of the conjunction
+ * @param location Observer
+ * @returns true if the next day begins a month
+ */
+export function isCrescentVisible(jdn: number, conjunction: number, location: ObserverLocation = MECCA): boolean {
+  const sunset = sunsetMoment(jdn, location);
+  if (sunset === null || conjunction >= sunset) {
+    return false;
+  }
+  const q = crescentVisibilityQ(jdn, location);
+  return q !== null && q > NAKED_EYE_Q;
+}
+
+/**
+ * Find the first day of the lunar month that follows a new moon
+ * @param jdn Julian Day Number near the new moon
+ * @param criterion Rule deciding on which evening the month begins
+ * @param location Observer
+ * @returns Julian Day Number of the first day of the month
+ */
+export function lunarMonthStartJDN(jdn: number, criterion: MonthStartCriterion, location: ObserverLocation = MECCA): number {
+  const conjunction = newMoonMoment(jdn);
+  const monthBegins = criterion === 'umm-al-qura' ? ummAlQuraMonthBegins : isCrescentVisible;
+
+  // Local date of the conjunction, in mean solar time
+  const conjunctionDay = Math.floor(conjunction + 0.5 + location.longitude / 360);
+
+  // A month never runs past its 30th day, so the crescent is due within three evenings
+  for (let day = conjunctionDay; day < conjunctionDay + 3; day++) {
+    if (monthBegins(day, conjunction, location)) {
+      return day + 1;
+    }
+  }
+  return conjunctionDay + 3;
+}
@@ -18,6 +18,7 @@
 import { CalendarConverter, CalendarDate, CalendarInfo } from './types';
 import { CALENDAR_INFO } from './types';
 import { gregorianToJDN, jdnToGregorian } from './julianDayUtils';
+import { vernalEquinoxMoment } from './astronomicalUtils';
 
 // Persian epoch: March 19, 622 CE (Gregorian) = Farvardin 1, 1 SH
 // JDN of March 19, 622 CE = 1948318 (calculated using gregorianToJDN)
@@ -74,6 +75,21 @@ export function getDaysInPersianMonth(year: number, month: number): number {
   }
 }
 
+/**
+ * Calculate the date of Nowruz from the vernal equinox
+ * Nowruz is the day of the equinox if it occurs before noon in Tehran (UTC+3:30),
+ * otherwise the day after. Unlike persianToJDN, this follows the astronomical rule
+ * rather than the 33-year cycle.
+ * @param persianYear Persian year (SH)
+ * @returns Julian Day Number of Farvardin 1
+ */
+export function nowruzJDN(persianYear: number): number {
+  // Shift from Julian Date (days since noon) to Tehran days since midnight
+  const tehranTime = vernalEquinoxMoment(persianYear + 621) + 3.5 / 24 + 0.5;
+  const equinoxDay = Math.floor(tehranTime);
+  return tehranTime - equinoxDay < 0.5 ? equinoxDay : equinoxDay + 1;
+}
+
 /**
  * Convert Persian (Jalali) date to Julian Day Number
  * @param year Persian year (SH - Solar Hijri)
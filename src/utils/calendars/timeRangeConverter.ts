@@ -1,14 +1,15 @@
 /**
  * Time Range Converter
  * 
- * Converts time ranges (decade, year, month, week, day) between different calendar systems.
+ * Converts time ranges (millennium, century, decade, year, month, week, day) between different calendar systems.
  * Handles the fact that different calendars have different structures.
  */
 
 import { CalendarSystem, CalendarDate, CALENDAR_INFO } from './types';
 import { convertDate, dateToCalendarDate, calendarDateToDate, formatCalendarDate } from './calendarConverter';
 import { dateToJDN, jdnToDate } from './julianDayUtils';
-import { getWeekStart, getWeekEnd, getMonthStart, getMonthEnd, getYearStart, getYearEnd, getDecadeStart, getDecadeEnd } from '../dateUtils';
+import { usesNativePeriods, getCalendarPeriodBounds, NativePeriodRange } from './calendarPeriods';
+import { getWeekStart, getWeekEnd, getMonthStart, getMonthEnd, getYearStart, getYearEnd, getDecadeStart, getDecadeEnd, getCenturyStart, getCenturyEnd, getMillenniumStart, getMillenniumEnd, YearTimeRange } from '../dateUtils';
 import { addDays, addWeeks, addMonths, addYears, getYear } from 'date-fns';
 
 export interface TimeRangeBounds {
@@ -19,7 +20,9 @@ export interface TimeRangeBounds {
 }
 
 /**
- * Get the equivalent time range bounds in a target calendar
+ * Get the time range bounds in a target calendar.
+ * Millennia, centuries, decades, years and months are the target calendar's own periods (e.g. a Hebrew month);
+ * weeks and days are the same in every calendar.
  * @param date Date in source calendar
  * @param timeRange Time range type
  * @param targetCalendar Target calendar system
@@ -27,14 +30,34 @@ export interface TimeRangeBounds {
  */
 export function getTimeRangeBoundsInCalendar(
   date: Date,
-  timeRange: 'decade' | 'year' | 'month' | 'week' | 'day',
+  timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day',
   targetCalendar: CalendarSystem
 ): TimeRangeBounds {
-  // First, get the bounds in Gregorian (our reference)
+  if (usesNativePeriods(targetCalendar, timeRange)) {
+    const bounds = getCalendarPeriodBounds(date, timeRange as NativePeriodRange, targetCalendar);
+    const endDate = new Date(bounds.endDate);
+    endDate.setHours(23, 59, 59, 999);
+    return {
+      start: bounds.start,
+      end: bounds.end,
+      startDate: bounds.startDate,
+      endDate,
+    };
+  }
+
+  // Otherwise the bounds are Gregorian (our reference)
   let startDate: Date;
   let endDate: Date;
 
   switch (timeRange) {
+    case 'millennium':
+      startDate = getMillenniumStart(date);
+      endDate = getMillenniumEnd(date);
+      break;
+    case 'century':
+      startDate = getCenturyStart(date);
+      endDate = getCenturyEnd(date);
+      break;
     case 'decade':
       startDate = getDecadeStart(date);
       endDate = getDecadeEnd(date);
@@ -79,13 +102,23 @@ export function getTimeRangeBoundsInCalendar(
  */
 export function getCanonicalDateInCalendar(
   date: Date,
-  timeRange: 'decade' | 'year' | 'month' | 'week' | 'day',
+  timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day',
   targetCalendar: CalendarSystem
 ): CalendarDate {
+  if (usesNativePeriods(targetCalendar, timeRange)) {
+    return getCalendarPeriodBounds(date, timeRange as NativePeriodRange, targetCalendar).start;
+  }
+
   // Get the canonical date in Gregorian first
   let canonicalDate: Date;
 
   switch (timeRange) {
+    case 'millennium':
+      canonicalDate = getMillenniumStart(date);
+      break;
+    case 'century':
+      canonicalDate = getCenturyStart(date);
+      break;
     case 'decade':
       canonicalDate = getDecadeStart(date);
       break;
@@ -117,14 +150,26 @@ export function getCanonicalDateInCalendar(
  */
 export function navigateInCalendar(
   date: Date,
-  timeRange: 'decade' | 'year' | 'month' | 'week' | 'day',
+  timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day',
   direction: 'next' | 'prev',
   calendar: CalendarSystem
 ): Date {
   const multiplier = direction === 'next' ? 1 : -1;
   let newDate: Date;
 
+  if (usesNativePeriods(calendar, timeRange)) {
+    // Calendar periods vary in length - step just past the current period's edge
+    const bounds = getCalendarPeriodBounds(date, timeRange as NativePeriodRange, calendar);
+    return jdnToDate(direction === 'next' ? bounds.endJDN + 1 : bounds.startJDN - 1);
+  }
+
   switch (timeRange) {
+    case 'millennium':
+      newDate = addYears(date, multiplier * 1000);
+      break;
+    case 'century':
+      newDate = addYears(date, multiplier * 100);
+      break;
     case 'decade':
       newDate = addYears(date, multiplier * 10);
       break;
@@ -145,6 +190,55 @@ export function navigateInCalendar(
   return newDate;
 }
 
+/**
+ * Label for a century or millennium as its first and last year (e.g. "1600–1699 CE").
+ * BCE spans are grouped by BCE year the same way decades are.
+ */
+function formatYearSpanLabel(year: number, span: number, calendar: CalendarSystem): string {
+  if (year <= 0) {
+    // Convert to BCE: year 0 → 1 BCE, year -1 → 2 BCE, etc.
+    const bceYear = Math.abs(year) + 1;
+    const spanStart = Math.floor(bceYear / span) * span;
+    return `${spanStart + span - 1}–${Math.max(spanStart, 1)} BCE`;
+  }
+  const spanStart = Math.floor(year / span) * span;
+  const era = CALENDAR_INFO[calendar]?.eraName || '';
+  return `${spanStart}–${spanStart + span - 1}${era ? ' ' + era : ''}`;
+}
+
+/**
+ * Label for the millennium, century, decade or year containing a year number.
+ * Works from the year alone so years outside the JavaScript Date range get labels too.
+ * @param year Astronomical year (0 = 1 BCE)
+ * @param timeRange Year-based time range
+ * @param calendar Calendar whose era name is shown for CE years
+ * @returns Formatted label
+ */
+export function getYearTierLabel(year: number, timeRange: YearTimeRange, calendar: CalendarSystem): string {
+  switch (timeRange) {
+    case 'millennium':
+      return formatYearSpanLabel(year, 1000, calendar);
+    case 'century':
+      return formatYearSpanLabel(year, 100, calendar);
+    case 'decade': {
+      // Handle negative years correctly: year 0 = 1 BCE, year -1 = 2 BCE, etc.
+      if (year <= 0) {
+        const bceYear = Math.abs(year) + 1;
+        return `${Math.floor(bceYear / 10) * 10}s BCE`;
+      }
+      const era = CALENDAR_INFO[calendar]?.eraName || '';
+      return `${Math.floor(year / 10) * 10}s${era ? ' ' + era : ''}`;
+    }
+    case 'year': {
+      if (year <= 0) {
+        return `${Math.abs(year) + 1} BCE`;
+      }
+      const era = CALENDAR_INFO[calendar]?.eraName || '';
+      return `${year}${era ? ' ' + era : ''}`;
+    }
+  }
+}
+
 /**
  * Get equivalent time range label in target calendar
  * @param date Date
@@ -154,50 +248,17 @@ export function navigateInCalendar(
  */
 export function getTimeRangeLabelInCalendar(
   date: Date,
-  timeRange: 'decade' | 'year' | 'month' | 'week' | 'day',
+  timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day',
   calendar: CalendarSystem
 ): string {
   const calendarDate = dateToCalendarDate(date, calendar);
 
   switch (timeRange) {
-    case 'decade': {
-      // For decade, show the decade range
-      // Handle negative years correctly: year 0 = 1 BCE, year -1 = 2 BCE, etc.
-      let decadeStart: number;
-      let era: string;
-      
-      if (calendarDate.year <= 0) {
-        // Convert to BCE: year 0 → 1 BCE, year -1 → 2 BCE, etc.
-        const bceYear = Math.abs(calendarDate.year) + 1;
-        decadeStart = Math.floor(bceYear / 10) * 10;
-        era = 'BCE';
-      } else {
-        decadeStart = Math.floor(calendarDate.year / 10) * 10;
-        // Get era from calendar info
-        const calendarInfo = CALENDAR_INFO[calendar];
-        era = calendarInfo?.eraName || '';
-      }
-      
-      return `${decadeStart}s${era ? ' ' + era : ''}`;
-    }
-    case 'year': {
-      // Handle negative years correctly
-      let displayYear: number;
-      let era: string;
-      
-      if (calendarDate.year <= 0) {
-        // Convert to BCE: year 0 → 1 BCE, year -1 = 2 BCE, etc.
-        displayYear = Math.abs(calendarDate.year) + 1;
-        era = 'BCE';
-      } else {
-        displayYear = calendarDate.year;
-        // Get era from calendar info
-        const calendarInfo = CALENDAR_INFO[calendar];
-        era = calendarInfo?.eraName || '';
-      }
-      
-      return `${displayYear}${era ? ' ' + era : ''}`;
-    }
+    case 'millennium':
+    case 'century':
+    case 'decade':
+    case 'year':
+      return getYearTierLabel(calendarDate.year, timeRange, calendar);
     case 'month':
       // Include era in format string for negative years
       return formatCalendarDate(calendarDate, 'MMMM YYYY ERA');
@@ -221,7 +282,7 @@ export function getTimeRangeLabelInCalendar(
  */
 export function calendarSupportsTimeRange(
   calendar: CalendarSystem,
-  timeRange: 'decade' | 'year' | 'month' | 'week' | 'day'
+  timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day'
 ): boolean {
   // All calendars support day, month, year
   if (timeRange === 'day' || timeRange === 'month' || timeRange === 'year') {
@@ -235,8 +296,8 @@ export function calendarSupportsTimeRange(
     return true; // We'll support it for all calendars
   }
 
-  // Decade support - all calendars can support this conceptually
-  if (timeRange === 'decade') {
+  // Decade, century and millennium support - all calendars can support this conceptually
+  if (timeRange === 'decade' || timeRange === 'century' || timeRange === 'millennium') {
     return true;
   }
 
@@ -1,7 +1,9 @@
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, 
   startOfYear, endOfYear, addDays, addWeeks, addMonths, addYears,
   getWeek, getYear, getMonth, differenceInDays, isSameDay } from 'date-fns';
-import { gregorianToJDN, jdnToDate } from './calendars/julianDayUtils';
+import { gregorianToJDN, jdnToDate, parseISODateParts, isoDateStringToJDN, jdnToISODateString } from './calendars/julianDayUtils';
+import { usesNativePeriods, getCalendarPeriodBounds, NativePeriodRange } from './calendars/calendarPeriods';
+import type { TimeRange } from '../types';
 
 /**
  * Safely formats a date to ISO date string (YYYY-MM-DD) that works with negative years.
@@ -76,6 +78,91 @@ export function parseISODate(dateStr: string): Date {
   return createDate(year, month, day);
 }
 
+/**
+ * Years JavaScript Date can represent (about ±271,821 years around 1970).
+ * Entry dates may lie far outside this range (e.g. -65000000-01-01), so the ISO date helpers
+ * below work on the string and its Julian Day Number (electron/utils/isoDate) and never go
+ * through Date.
+ */
+export const JS_DATE_MIN_YEAR = -271820;
+export const JS_DATE_MAX_YEAR = 275759;
+
+/**
+ * Year of an ISO date string, or NaN if it is not a valid date
+ */
+export function getISODateYear(dateStr: string): number {
+  return parseISODateParts(dateStr)?.year ?? NaN;
+}
+
+/**
+ * Compares two ISO date strings chronologically (plain string comparison breaks for
+ * negative years and years with more than four digits)
+ */
+export function compareISODates(a: string, b: string): number {
+  return (isoDateStringToJDN(a) ?? 0) - (isoDateStringToJDN(b) ?? 0);
+}
+
+/**
+ * ISO date string of the first day of the week containing a date
+ */
+export function getWeekStartISODate(dateStr: string, weekStartsOn: number = 0): string | null {
+  const jdn = isoDateStringToJDN(dateStr);
+  if (jdn === null) {
+    return null;
+  }
+  const dayOfWeek = ((jdn + 1) % 7 + 7) % 7; // 0 = Sunday
+  return jdnToISODateString(jdn - ((dayOfWeek - weekStartsOn + 7) % 7));
+}
+
+/**
+ * Whether a year can be shown in the Date-based views
+ */
+export function isRepresentableYear(year: number): boolean {
+  return year >= JS_DATE_MIN_YEAR && year <= JS_DATE_MAX_YEAR;
+}
+
+/**
+ * Clamps a year to the range the Date-based views can show
+ */
+export function clampToRepresentableYear(year: number): number {
+  return Math.min(JS_DATE_MAX_YEAR, Math.max(JS_DATE_MIN_YEAR, year));
+}
+
+/**
+ * Adds years to a date, stopping at the first or last year the Date-based views can show
+ * instead of producing an Invalid Date
+ */
+export function addYearsWithinRange(date: Date, years: number): Date {
+  const year = date.getFullYear();
+  return addYears(date, clampToRepresentableYear(year + years) - year);
+}
+
+/**
+ * Time ranges measured in whole years. Only these tiers can be shown for years beyond the
+ * Date range, where the views work from the year number instead of a Date.
+ */
+export type YearTimeRange = 'millennium' | 'century' | 'decade' | 'year';
+
+export const YEAR_TIME_RANGE_SPANS: Record<YearTimeRange, number> = {
+  millennium: 1000,
+  century: 100,
+  decade: 10,
+  year: 1,
+};
+
+export function isYearTimeRange(range: TimeRange): range is YearTimeRange {
+  return range in YEAR_TIME_RANGE_SPANS;
+}
+
+/**
+ * First year of the millennium/century/decade/year containing a year
+ * (astronomical numbering: year 0 is 1 BCE)
+ */
+export function getYearSpanStart(year: number, range: YearTimeRange): number {
+  const span = YEAR_TIME_RANGE_SPANS[range];
+  return Math.floor(year / span) * span;
+}
+
 export function formatDate(date: Date, formatStr: string = 'yyyy-MM-dd'): string {
   // For ISO date format (yyyy-MM-dd), use formatDateToISO to handle negative years correctly
   if (formatStr === 'yyyy-MM-dd') {
@@ -108,6 +195,30 @@ export function getYearEnd(date: Date): Date {
   return endOfYear(date);
 }
 
+export function getMillenniumStart(date: Date): Date {
+  const year = getYear(date);
+  const millenniumStart = Math.floor(year / 1000) * 1000;
+  return createDate(millenniumStart, 0, 1);
+}
+
+export function getMillenniumEnd(date: Date): Date {
+  const year = getYear(date);
+  const millenniumEnd = Math.floor(year / 1000) * 1000 + 999;
+  return createDate(millenniumEnd, 11, 31);
+}
+
+export function getCenturyStart(date: Date): Date {
+  const year = getYear(date);
+  const centuryStart = Math.floor(year / 100) * 100;
+  return createDate(centuryStart, 0, 1);
+}
+
+export function getCenturyEnd(date: Date): Date {
+  const year = getYear(date);
+  const centuryEnd = Math.floor(year / 100) * 100 + 99;
+  return createDate(centuryEnd, 11, 31);
+}
+
 export function getDecadeStart(date: Date): Date {
   const year = getYear(date);
   const decadeStart = Math.floor(year / 10) * 10;
@@ -200,13 +311,44 @@ export function getYearsInDecade(date: Date): Date[] {
   return years;
 }
 
+export function getDecadesInCentury(date: Date): Date[] {
+  const centuryStart = Math.floor(getYear(date) / 100) * 100;
+  const decades: Date[] = [];
+  
+  for (let i = 0; i < 10; i++) {
+    decades.push(createDate(centuryStart + i * 10, 0, 1));
+  }
+  
+  return decades;
+}
+
+export function getCenturiesInMillennium(date: Date): Date[] {
+  const millenniumStart = Math.floor(getYear(date) / 1000) * 1000;
+  const centuries: Date[] = [];
+  
+  for (let i = 0; i < 10; i++) {
+    centuries.push(createDate(millenniumStart + i * 100, 0, 1));
+  }
+  
+  return centuries;
+}
+
 export function isToday(date: Date): boolean {
   return isSameDay(date, new Date());
 }
 
 // Get canonical date for a time range (the date used to store entries)
-export function getCanonicalDate(date: Date, timeRange: 'decade' | 'year' | 'month' | 'week' | 'day', weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6 = 0): Date {
+// With a non-Gregorian calendar, millennia/centuries/decades/years/months start where that
+// calendar's period starts
+export function getCanonicalDate(date: Date, timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day', weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6 = 0, calendar?: string): Date {
+  if (usesNativePeriods(calendar, timeRange)) {
+    return getCalendarPeriodBounds(date, timeRange as NativePeriodRange, calendar).startDate;
+  }
   switch (timeRange) {
+    case 'millennium':
+      return getMillenniumStart(date);
+    case 'century':
+      return getCenturyStart(date);
     case 'decade':
       return getDecadeStart(date);
     case 'year':
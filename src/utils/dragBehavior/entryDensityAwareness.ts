@@ -19,7 +19,7 @@ export interface EntryDensityInfo {
 export function getEntryDensity(
   entries: JournalEntry[],
   centerDate: Date,
-  viewMode: 'decade' | 'year' | 'month' | 'week' | 'day',
+  viewMode: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day',
   rangePercent: number = 0.1 // 10% of timeline range
 ): EntryDensityInfo {
   if (entries.length === 0) {
@@ -70,6 +70,10 @@ function getTimeRangeForViewMode(centerDate: Date, viewMode: string): number {
   const year = centerDate.getFullYear();
   
   switch (viewMode) {
+    case 'millennium':
+      return 1000 * 365.25 * 24 * 60 * 60 * 1000; // ~1000 years
+    case 'century':
+      return 100 * 365.25 * 24 * 60 * 60 * 1000; // ~100 years
     case 'decade':
       return 10 * 365.25 * 24 * 60 * 60 * 1000; // ~10 years
     case 'year':
@@ -92,6 +96,8 @@ function getMaxExpectedEntriesForViewMode(viewMode: string, rangePercent: number
   // Estimated maximum entries based on view mode
   // These are rough estimates for normalization
   const baseMaxEntries = {
+    'millennium': 400,
+    'century': 200,
     'decade': 100,
     'year': 50,
     'month': 30,
@@ -111,7 +117,7 @@ export function getEntryDensityAtPosition(
   timelinePosition: number, // 0-1
   startDate: Date,
   endDate: Date,
-  viewMode: 'decade' | 'year' | 'month' | 'week' | 'day',
+  viewMode: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day',
   rangePercent: number = 0.05 // 5% of timeline range
 ): EntryDensityInfo {
   // Calculate center date from position
@@ -1,6 +1,7 @@
 import { JournalEntry } from '../types';
 import { parseISODate, formatDate, getWeekStart } from './dateUtils';
 import type { EntryLookup } from './entryLookupUtils';
+import { parseISODateParts } from './calendars/julianDayUtils';
 
 // Cache for entry colors to avoid recalculating
 const entryColorCache = new Map<number, string>();
@@ -27,14 +28,14 @@ export function calculateEntryColor(entry: JournalEntry): string {
     textValue += charCode * (i % 3 + 1);
   }
   
-  // Calculate time-based numerological value
-  const entryDate = parseISODate(entry.date);
-  const timeValue = entryDate.getFullYear() * 10000 + 
-                    (entryDate.getMonth() + 1) * 100 + 
-                    entryDate.getDate();
+  // Calculate time-based numerological value (from the ISO parts, so deep-time years work too)
+  const parts = parseISODateParts(entry.date);
+  const timeValue = parts ? parts.year * 10000 + parts.month * 100 + parts.day : 0;
   
   // Add timeRange to the calculation for additional variation
-  const timeRangeValue = entry.timeRange === 'decade' ? 1000 :
+  const timeRangeValue = entry.timeRange === 'millennium' ? 6000 :
+                        entry.timeRange === 'century' ? 7000 :
+                        entry.timeRange === 'decade' ? 1000 :
                         entry.timeRange === 'year' ? 2000 :
                         entry.timeRange === 'month' ? 3000 :
                         entry.timeRange === 'week' ? 4000 : 5000;
@@ -81,7 +82,7 @@ export function clearEntryColorCacheForEntry(entryId: number) {
 export function getEntryColorForDate(
   entries: JournalEntry[],
   date: Date,
-  timeRange: 'decade' | 'year' | 'month' | 'week' | 'day'
+  timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day'
 ): string | null {
   // If entries array is already filtered, just use the first one
   // Otherwise, find entries that match this date and timeRange
@@ -113,6 +114,10 @@ export function getEntryColorForDate(
           const entryDecade = Math.floor(entryDate.getFullYear() / 10) * 10;
           const dateDecade = Math.floor(date.getFullYear() / 10) * 10;
           return entryDecade === dateDecade;
+        case 'century':
+          return Math.floor(entryDate.getFullYear() / 100) === Math.floor(date.getFullYear() / 100);
+        case 'millennium':
+          return Math.floor(entryDate.getFullYear() / 1000) === Math.floor(date.getFullYear() / 1000);
         default:
           return false;
       }
@@ -142,6 +147,10 @@ export function getEntryColorForDate(
           const entryDecade = Math.floor(entryDate.getFullYear() / 10) * 10;
           const dateDecade = Math.floor(date.getFullYear() / 10) * 10;
           return entryDecade === dateDecade;
+        case 'century':
+          return Math.floor(entryDate.getFullYear() / 100) === Math.floor(date.getFullYear() / 100);
+        case 'millennium':
+          return Math.floor(entryDate.getFullYear() / 1000) === Math.floor(date.getFullYear() / 1000);
         default:
           return false;
       }
@@ -161,7 +170,7 @@ export function getEntryColorForDate(
 export function getEntryColorForDateOptimized(
   lookup: EntryLookup,
   date: Date,
-  timeRange: 'decade' | 'year' | 'month' | 'week' | 'day',
+  timeRange: 'millennium' | 'century' | 'decade' | 'year' | 'month' | 'week' | 'day',
   weekStartsOn: number = 0,
   entryColors?: Map<number, string>
 ): string | null {
@@ -170,6 +179,8 @@ export function getEntryColorForDateOptimized(
   const month = date.getMonth();
   const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
   const decadeStart = Math.floor(year / 10) * 10;
+  const centuryStart = Math.floor(year / 100) * 100;
+  const millenniumStart = Math.floor(year / 1000) * 1000;
   const weekStart = getWeekStart(date, weekStartsOn);
   const weekKey = formatDate(weekStart);
 
@@ -201,6 +212,16 @@ export function getEntryColorForDateOptimized(
       matchingEntry = entries?.[0] || null;
       break;
     }
+    case 'century': {
+      const entries = lookup.byCentury.get(centuryStart);
+      matchingEntry = entries?.[0] || null;
+      break;
+    }
+    case 'millennium': {
+      const entries = lookup.byMillennium.get(millenniumStart);
+      matchingEntry = entries?.[0] || null;
+      break;
+    }
   }
 
   if (!matchingEntry) return null;
@@ -1,5 +1,7 @@
 import { JournalEntry, TimeRange } from '../types';
-import { parseISODate, formatDate, getWeekStart, getWeekEnd, createDate, getMonthStart, getMonthEnd } from './dateUtils';
+import { parseISODate, formatDate, getWeekStart, getWeekEnd, createDate, getMonthStart, getMonthEnd, getISODateYear, compareISODates, getYearSpanStart, isYearTimeRange, YearTimeRange, YEAR_TIME_RANGE_SPANS } from './dateUtils';
+import { usesNativePeriods, getCalendarPeriodBounds, NativePeriodRange } from './calendars/calendarPeriods';
+import { isoDateStringToJDN } from './calendars/julianDayUtils';
 import { isSameDay } from 'date-fns';
 
 /**
@@ -11,6 +13,18 @@ export function getDateRangeForView(selectedDate: Date, viewMode: TimeRange, wee
   let endDate: Date;
 
   switch (viewMode) {
+    case 'millennium': {
+      const millenniumStart = Math.floor(selectedDate.getFullYear() / 1000) * 1000;
+      startDate = createDate(millenniumStart, 0, 1);
+      endDate = createDate(millenniumStart + 999, 11, 31);
+      break;
+    }
+    case 'century': {
+      const centuryStart = Math.floor(selectedDate.getFullYear() / 100) * 100;
+      startDate = createDate(centuryStart, 0, 1);
+      endDate = createDate(centuryStart + 99, 11, 31);
+      break;
+    }
     case 'decade': {
       const decadeStart = Math.floor(selectedDate.getFullYear() / 10) * 10;
       startDate = createDate(decadeStart, 0, 1);
@@ -91,6 +105,28 @@ export function filterEntriesForDate(
     const entryMonth = entryDate.getMonth();
     const entryDay = entryDate.getDate();
 
+    // For millennium view, show century entries in their century cells
+    if (viewMode === 'millennium') {
+      if (entry.timeRange === 'century') {
+        return Math.floor(entryYear / 100) === Math.floor(checkYear / 100);
+      }
+      if (entry.timeRange === 'millennium') {
+        return Math.floor(entryYear / 1000) === Math.floor(checkYear / 1000);
+      }
+      return false;
+    }
+
+    // For century view, show decade entries in their decade cells
+    if (viewMode === 'century') {
+      if (entry.timeRange === 'decade') {
+        return Math.floor(entryYear / 10) === Math.floor(checkYear / 10);
+      }
+      if (entry.timeRange === 'century') {
+        return Math.floor(entryYear / 100) === Math.floor(checkYear / 100);
+      }
+      return false;
+    }
+
     // For decade view, show year entries in their year cells
     if (viewMode === 'decade') {
       if (entry.timeRange === 'year') {
@@ -171,29 +207,35 @@ export function filterEntriesForDate(
 /**
  * Filter entries for a timeRange and date (used by JournalList).
  * This matches the logic of getEntriesForRange but works with cached entries.
+ * With a non-Gregorian calendar, millennium/century/decade/year/month entries are matched against that
+ * calendar's period containing the date.
  */
 export function filterEntriesForRange(
   entries: JournalEntry[],
   range: TimeRange,
   date: Date,
-  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6 = 0
+  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6 = 0,
+  calendar?: string
 ): JournalEntry[] {
+  if (usesNativePeriods(calendar, range)) {
+    const bounds = getCalendarPeriodBounds(date, range as NativePeriodRange, calendar);
+    return entries.filter(entry =>
+      entry.timeRange === range &&
+      entry.calendar === calendar &&
+      isoDateStringToJDN(entry.date) === bounds.startJDN
+    );
+  }
+
+  if (isYearTimeRange(range)) {
+    return filterEntriesForYearRange(entries, range, date.getFullYear());
+  }
+
   let targetValue: number;
   let targetYear: number;
   let targetMonth: number;
   let targetWeekStart: Date;
 
   switch (range) {
-    case 'decade': {
-      targetYear = date.getFullYear();
-      targetValue = Math.floor(targetYear / 10);
-      break;
-    }
-    case 'year': {
-      targetYear = date.getFullYear();
-      targetValue = targetYear;
-      break;
-    }
     case 'month': {
       targetYear = date.getFullYear();
       targetMonth = date.getMonth();
@@ -215,10 +257,23 @@ export function filterEntriesForRange(
   }
 
   return entries.filter(entry => {
+    // Calendar-native periods only belong to their own calendar's periods
+    if (entry.periodEnd) {
+      return false;
+    }
+
     const entryDate = parseISODate(entry.date);
     let entryValue: number;
 
     switch (entry.timeRange) {
+      case 'millennium': {
+        entryValue = Math.floor(entryDate.getFullYear() / 1000);
+        break;
+      }
+      case 'century': {
+        entryValue = Math.floor(entryDate.getFullYear() / 100);
+        break;
+      }
       case 'decade': {
         const entryYear = entryDate.getFullYear();
         entryValue = Math.floor(entryYear / 10);
@@ -251,6 +306,51 @@ export function filterEntriesForRange(
   });
 }
 
+/**
+ * Filter the entries of a millennium/century/decade/year tier for the span containing a year.
+ * Works from the ISO date's year, so it also covers years beyond the JavaScript Date range.
+ */
+export function filterEntriesForYearRange(
+  entries: JournalEntry[],
+  range: YearTimeRange,
+  year: number
+): JournalEntry[] {
+  const spanStart = getYearSpanStart(year, range);
+
+  return entries.filter(entry => {
+    // Calendar-native periods only belong to their own calendar's periods
+    if (entry.timeRange !== range || entry.periodEnd) {
+      return false;
+    }
+    const entryYear = getISODateYear(entry.date);
+    return !isNaN(entryYear) && getYearSpanStart(entryYear, range) === spanStart;
+  });
+}
+
+/**
+ * Filter entries dated anywhere inside the millennium/century/decade/year containing a year,
+ * in date order. Works from the ISO date's year like filterEntriesForYearRange.
+ */
+export function filterEntriesInYearSpan(
+  entries: JournalEntry[],
+  range: YearTimeRange,
+  year: number,
+  excludeDayEntries: boolean = false
+): JournalEntry[] {
+  const spanStart = getYearSpanStart(year, range);
+  const spanEnd = spanStart + YEAR_TIME_RANGE_SPANS[range] - 1;
+
+  return entries
+    .filter(entry => {
+      if (excludeDayEntries && entry.timeRange === 'day') {
+        return false;
+      }
+      const entryYear = getISODateYear(entry.date);
+      return entryYear >= spanStart && entryYear <= spanEnd;
+    })
+    .sort((a, b) => compareISODates(a.date, b.date));
+}
+
 /**
  * Check if a date has any entries (used by CalendarView).
  * This efficiently checks if any entry applies to a given date.
@@ -285,6 +385,10 @@ export function hasEntryForDate(
       const entryDecade = Math.floor(entryYear / 10) * 10;
       const checkDecade = Math.floor(checkYear / 10) * 10;
       return entryDecade === checkDecade;
+    } else if (entry.timeRange === 'century') {
+      return Math.floor(entryYear / 100) === Math.floor(checkYear / 100);
+    } else if (entry.timeRange === 'millennium') {
+      return Math.floor(entryYear / 1000) === Math.floor(checkYear / 1000);
     }
     return false;
   });
@@ -1,5 +1,6 @@
 import { JournalEntry, TimeRange } from '../types';
-import { parseISODate, formatDate, getWeekStart } from './dateUtils';
+import { formatDate, getWeekStart, getISODateYear, getWeekStartISODate } from './dateUtils';
+import { dateToJDN, jdnToGregorian, gregorianToJDN, parseISODateParts, isoDateStringToJDN, jdnToISODateString } from './calendars/julianDayUtils';
 import { isSameDay } from 'date-fns';
 
 /**
@@ -17,6 +18,10 @@ export interface EntryLookup {
   byWeekStart: Map<string, JournalEntry[]>;
   // Decade entries indexed by decade start year
   byDecade: Map<number, JournalEntry[]>;
+  // Century entries indexed by century start year
+  byCentury: Map<number, JournalEntry[]>;
+  // Millennium entries indexed by millennium start year
+  byMillennium: Map<number, JournalEntry[]>;
   // All entries with time information, indexed by date string
   byDateWithTime: Map<string, JournalEntry[]>;
   // Set of date strings that have any entry
@@ -29,6 +34,138 @@ export interface EntryLookup {
   hasWeekEntryWeeks: Set<string>;
   // Set of decades that have decade entries
   hasDecadeEntryDecades: Set<number>;
+  // Set of centuries that have century entries
+  hasCenturyEntryCenturies: Set<number>;
+  // Set of millennia that have millennium entries
+  hasMillenniumEntryMillennia: Set<number>;
+  // Calendar-native decade/year/month entries (e.g. a Hebrew month), indexed by every
+  // Gregorian "YYYY-MM" month their period overlaps
+  byCalendarPeriod: Map<string, CalendarPeriodLookupEntry[]>;
+}
+
+/**
+ * A calendar-native entry with its period as JDNs (both inclusive)
+ */
+export interface CalendarPeriodLookupEntry {
+  entry: JournalEntry;
+  startJDN: number;
+  endJDN: number;
+}
+
+/**
+ * Check whether an entry's period is defined in a non-Gregorian calendar.
+ * Those periods don't line up with Gregorian months/years/centuries and are indexed separately.
+ */
+function isCalendarPeriodEntry(entry: JournalEntry): boolean {
+  return !!entry.calendar && !!entry.periodEnd && entry.timeRange !== 'week' && entry.timeRange !== 'day';
+}
+
+/**
+ * Gregorian month keys ("YYYY-MM", same format as byMonth) overlapping a JDN span
+ */
+function getMonthKeysForSpan(startJDN: number, endJDN: number): string[] {
+  const start = jdnToGregorian(startJDN);
+  const end = jdnToGregorian(endJDN);
+  const keys: string[] = [];
+  let year = start.year;
+  let month = start.month;
+  while (year < end.year || (year === end.year && month <= end.month)) {
+    keys.push(`${year}-${String(month).padStart(2, '0')}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return keys;
+}
+
+/**
+ * Last day of a Gregorian month as a JDN (month is 0-indexed)
+ */
+function getMonthEndJDN(year: number, month: number): number {
+  return month === 11 ? gregorianToJDN(year + 1, 1, 1) - 1 : gregorianToJDN(year, month + 2, 1) - 1;
+}
+
+function getCalendarPeriodSpan(entry: JournalEntry): CalendarPeriodLookupEntry | null {
+  const startJDN = isoDateStringToJDN(entry.date);
+  const endJDN = entry.periodEnd ? isoDateStringToJDN(entry.periodEnd) : null;
+  if (startJDN === null || endJDN === null || endJDN < startJDN) {
+    return null;
+  }
+  return { entry, startJDN, endJDN };
+}
+
+function indexCalendarPeriodEntry(lookup: EntryLookup, entry: JournalEntry): void {
+  const item = getCalendarPeriodSpan(entry);
+  if (!item) {
+    return;
+  }
+  for (const key of getMonthKeysForSpan(item.startJDN, item.endJDN)) {
+    let items = lookup.byCalendarPeriod.get(key);
+    if (!items) {
+      items = [];
+      lookup.byCalendarPeriod.set(key, items);
+    }
+    items.push(item);
+  }
+}
+
+function unindexCalendarPeriodEntry(lookup: EntryLookup, entry: JournalEntry): void {
+  const item = getCalendarPeriodSpan(entry);
+  if (!item) {
+    return;
+  }
+  for (const key of getMonthKeysForSpan(item.startJDN, item.endJDN)) {
+    const items = lookup.byCalendarPeriod.get(key);
+    if (items) {
+      const index = items.findIndex(i => i.entry.id === entry.id);
+      if (index !== -1) {
+        items.splice(index, 1);
+        if (items.length === 0) {
+          lookup.byCalendarPeriod.delete(key);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Get calendar-native entries whose period overlaps a JDN span (each entry once)
+ */
+export function getCalendarPeriodEntriesOptimized(
+  lookup: EntryLookup,
+  startJDN: number,
+  endJDN: number
+): CalendarPeriodLookupEntry[] {
+  if (lookup.byCalendarPeriod.size === 0) {
+    return [];
+  }
+
+  const seen = new Set<JournalEntry>();
+  const results: CalendarPeriodLookupEntry[] = [];
+  const collect = (items: CalendarPeriodLookupEntry[]) => {
+    for (const item of items) {
+      if (!seen.has(item.entry) && item.startJDN <= endJDN && item.endJDN >= startJDN) {
+        seen.add(item.entry);
+        results.push(item);
+      }
+    }
+  };
+
+  // Wide spans: scanning the index is cheaper than walking every month
+  const monthCount = (endJDN - startJDN) / 28;
+  if (monthCount > lookup.byCalendarPeriod.size) {
+    for (const items of lookup.byCalendarPeriod.values()) {
+      collect(items);
+    }
+  } else {
+    for (const key of getMonthKeysForSpan(startJDN, endJDN)) {
+      collect(lookup.byCalendarPeriod.get(key) || []);
+    }
+  }
+
+  return results;
 }
 
 /**
@@ -47,40 +184,41 @@ export function buildEntryLookup(entries: JournalEntry[], weekStartsOn: number =
     byYear: new Map(),
     byWeekStart: new Map(),
     byDecade: new Map(),
+    byCentury: new Map(),
+    byMillennium: new Map(),
     byDateWithTime: new Map(),
     hasEntryDates: new Set(),
     hasMonthEntryMonths: new Set(),
     hasYearEntryYears: new Set(),
     hasWeekEntryWeeks: new Set(),
     hasDecadeEntryDecades: new Set(),
-  };
-
-  // Cache for parsed dates to avoid re-parsing the same date string
-  const dateCache = new Map<string, Date>();
-  
-  // Helper to get or parse date (with caching)
-  const getCachedDate = (dateStr: string): Date => {
-    if (!dateCache.has(dateStr)) {
-      dateCache.set(dateStr, parseISODate(dateStr));
-    }
-    return dateCache.get(dateStr)!;
+    hasCenturyEntryCenturies: new Set(),
+    hasMillenniumEntryMillennia: new Set(),
+    byCalendarPeriod: new Map(),
   };
 
   // Pre-allocate arrays for common date strings to reduce allocations
   // Process entries in batches to optimize memory usage
   for (const entry of entries) {
+    if (isCalendarPeriodEntry(entry)) {
+      indexCalendarPeriodEntry(lookup, entry);
+      continue;
+    }
+
     // Use entry.date directly (it's already in ISO format YYYY-MM-DD)
     const dateStr = entry.date;
     
-    // Extract year and month from date string for faster processing
-    // Format: YYYY-MM-DD or -YYYY-MM-DD
-    const isNegative = dateStr.startsWith('-');
-    const cleanDateStr = isNegative ? dateStr.substring(1) : dateStr;
-    const [yearStr, monthStr] = cleanDateStr.split('-');
-    const entryYear = isNegative ? -parseInt(yearStr, 10) : parseInt(yearStr, 10);
-    const entryMonth = parseInt(monthStr, 10) - 1; // Convert to 0-indexed
-    const monthKey = `${entryYear}-${monthStr}`;
+    // Extract year and month from the string (Date can't hold deep-time years)
+    // Format: YYYY-MM-DD or -YYYY-MM-DD, with more year digits as needed
+    const parts = parseISODateParts(dateStr);
+    if (!parts) {
+      continue;
+    }
+    const entryYear = parts.year;
+    const monthKey = `${entryYear}-${String(parts.month).padStart(2, '0')}`;
     const decadeStart = Math.floor(entryYear / 10) * 10;
+    const centuryStart = Math.floor(entryYear / 100) * 100;
+    const millenniumStart = Math.floor(entryYear / 1000) * 1000;
 
     switch (entry.timeRange) {
       case 'day': {
@@ -105,10 +243,7 @@ export function buildEntryLookup(entries: JournalEntry[], weekStartsOn: number =
         break;
       }
       case 'week': {
-        // Only parse date for week calculations (needed for week start calculation)
-        const entryDate = getCachedDate(dateStr);
-        const weekStart = getWeekStart(entryDate, weekStartsOn);
-        const weekKey = formatDate(weekStart);
+        const weekKey = getWeekStartISODate(dateStr, weekStartsOn)!;
         let weekEntries = lookup.byWeekStart.get(weekKey);
         if (!weekEntries) {
           weekEntries = [];
@@ -148,6 +283,26 @@ export function buildEntryLookup(entries: JournalEntry[], weekStartsOn: number =
         lookup.hasDecadeEntryDecades.add(decadeStart);
         break;
       }
+      case 'century': {
+        let centuryEntries = lookup.byCentury.get(centuryStart);
+        if (!centuryEntries) {
+          centuryEntries = [];
+          lookup.byCentury.set(centuryStart, centuryEntries);
+        }
+        centuryEntries.push(entry);
+        lookup.hasCenturyEntryCenturies.add(centuryStart);
+        break;
+      }
+      case 'millennium': {
+        let millenniumEntries = lookup.byMillennium.get(millenniumStart);
+        if (!millenniumEntries) {
+          millenniumEntries = [];
+          lookup.byMillennium.set(millenniumStart, millenniumEntries);
+        }
+        millenniumEntries.push(entry);
+        lookup.hasMillenniumEntryMillennia.add(millenniumStart);
+        break;
+      }
     }
   }
 
@@ -167,6 +322,8 @@ export function hasEntryForDateOptimized(
   const month = date.getMonth();
   const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
   const decadeStart = Math.floor(year / 10) * 10;
+  const centuryStart = Math.floor(year / 100) * 100;
+  const millenniumStart = Math.floor(year / 1000) * 1000;
   const weekStart = getWeekStart(date, weekStartsOn);
   const weekKey = formatDate(weekStart);
 
@@ -195,6 +352,17 @@ export function hasEntryForDateOptimized(
     return true;
   }
 
+  // Check century and millennium entries
+  if (lookup.hasCenturyEntryCenturies.has(centuryStart) || lookup.hasMillenniumEntryMillennia.has(millenniumStart)) {
+    return true;
+  }
+
+  // Check calendar-native decade/year/month entries
+  const jdn = dateToJDN(date);
+  if (getCalendarPeriodEntriesOptimized(lookup, jdn, jdn).length > 0) {
+    return true;
+  }
+
   return false;
 }
 
@@ -218,16 +386,61 @@ export function getEntriesForDateOptimized(
   const results: JournalEntry[] = [];
 
   switch (viewMode) {
+    case 'millennium': {
+      // Show century entries
+      const centuryStart = Math.floor(year / 100) * 100;
+      const centuryEntries = lookup.byCentury.get(centuryStart) || [];
+      results.push(...centuryEntries);
+      // Calendar-native centuries are shown in the century they start in
+      const centuryStartJDN = gregorianToJDN(centuryStart, 1, 1);
+      const centuryEndJDN = gregorianToJDN(centuryStart + 99, 12, 31);
+      for (const item of getCalendarPeriodEntriesOptimized(lookup, centuryStartJDN, centuryEndJDN)) {
+        if (item.entry.timeRange === 'century' && item.startJDN >= centuryStartJDN) {
+          results.push(item.entry);
+        }
+      }
+      break;
+    }
+    case 'century': {
+      // Show decade entries
+      const decadeEntries = lookup.byDecade.get(decadeStart) || [];
+      results.push(...decadeEntries);
+      // Calendar-native decades are shown in the decade they start in
+      const decadeStartJDN = gregorianToJDN(decadeStart, 1, 1);
+      const decadeEndJDN = gregorianToJDN(decadeStart + 9, 12, 31);
+      for (const item of getCalendarPeriodEntriesOptimized(lookup, decadeStartJDN, decadeEndJDN)) {
+        if (item.entry.timeRange === 'decade' && item.startJDN >= decadeStartJDN) {
+          results.push(item.entry);
+        }
+      }
+      break;
+    }
     case 'decade': {
       // Show year entries
       const yearEntries = lookup.byYear.get(year) || [];
       results.push(...yearEntries);
+      // Calendar-native years are shown in the year they start in
+      const yearStartJDN = gregorianToJDN(year, 1, 1);
+      const yearEndJDN = gregorianToJDN(year, 12, 31);
+      for (const item of getCalendarPeriodEntriesOptimized(lookup, yearStartJDN, yearEndJDN)) {
+        if (item.entry.timeRange === 'year' && item.startJDN >= yearStartJDN) {
+          results.push(item.entry);
+        }
+      }
       break;
     }
     case 'year': {
       // Show month entries
       const monthEntries = lookup.byMonth.get(monthKey) || [];
       results.push(...monthEntries);
+      // Calendar-native months are shown in the month they start in
+      const monthStartJDN = gregorianToJDN(year, month + 1, 1);
+      const monthEndJDN = getMonthEndJDN(year, month);
+      for (const item of getCalendarPeriodEntriesOptimized(lookup, monthStartJDN, monthEndJDN)) {
+        if (item.entry.timeRange === 'month' && item.startJDN >= monthStartJDN) {
+          results.push(item.entry);
+        }
+      }
       break;
     }
     case 'month':
@@ -301,7 +514,18 @@ export function getYearEntriesOptimized(
 }
 
 /**
- * Get all entries for a year (including day, week, month, year, and decade entries)
+ * Century and millennium entries covering a year
+ */
+function getCenturyAndMillenniumEntries(lookup: EntryLookup, year: number): JournalEntry[] {
+  return [
+    ...(lookup.byCentury.get(Math.floor(year / 100) * 100) || []),
+    ...(lookup.byMillennium.get(Math.floor(year / 1000) * 1000) || []),
+  ];
+}
+
+/**
+ * Get all entries for a year (including day, week, month, year, decade, century and
+ * millennium entries)
  * OPTIMIZED: Uses lookup structure instead of O(n) filtering
  * 
  * @param excludeDayEntries - If true, skip loading day entries (useful for decade/year views)
@@ -321,11 +545,12 @@ export function getAllEntriesForYearOptimized(
     results.push(...yearEntries);
   }
 
-  // Add decade entries
+  // Add decade, century and millennium entries
   const decadeEntries = lookup.byDecade.get(decadeStart);
   if (decadeEntries) {
     results.push(...decadeEntries);
   }
+  results.push(...getCenturyAndMillenniumEntries(lookup, year));
 
   // Add month entries for this year
   for (let month = 0; month < 12; month++) {
@@ -342,13 +567,8 @@ export function getAllEntriesForYearOptimized(
   // and filter by year prefix
   if (!excludeDayEntries) {
     for (const [dateStr, dayEntries] of lookup.byDateString.entries()) {
-      // Extract year from date string (handles negative years)
-      const isNegative = dateStr.startsWith('-');
-      const cleanDateStr = isNegative ? dateStr.substring(1) : dateStr;
-      const yearStr = cleanDateStr.split('-')[0];
-      const entryYear = isNegative ? -parseInt(yearStr, 10) : parseInt(yearStr, 10);
-      
-      if (entryYear === year) {
+      // Extract year from date string (handles negative and deep-time years)
+      if (getISODateYear(dateStr) === year) {
         results.push(...dayEntries);
       }
     }
@@ -356,18 +576,22 @@ export function getAllEntriesForYearOptimized(
 
   // Add week entries that overlap with this year
   for (const [weekKey, weekEntries] of lookup.byWeekStart.entries()) {
-    const weekDate = parseISODate(weekKey);
-    const weekYear = weekDate.getFullYear();
-    if (weekYear === year) {
+    if (getISODateYear(weekKey) === year) {
       results.push(...weekEntries);
     }
   }
 
+  // Add calendar-native entries that overlap with this year
+  for (const item of getCalendarPeriodEntriesOptimized(lookup, gregorianToJDN(year, 1, 1), gregorianToJDN(year, 12, 31))) {
+    results.push(item.entry);
+  }
+
   return results;
 }
 
 /**
- * Get all entries for a month (including day, week, month, year, and decade entries)
+ * Get all entries for a month (including day, week, month, year, decade, century and
+ * millennium entries)
  * OPTIMIZED: Uses lookup structure instead of O(n) filtering
  */
 export function getAllEntriesForMonthOptimized(
@@ -397,44 +621,34 @@ export function getAllEntriesForMonthOptimized(
   if (decadeEntries) {
     results.push(...decadeEntries);
   }
+  results.push(...getCenturyAndMillenniumEntries(lookup, year));
 
   // Add day entries for this month
-  // OPTIMIZATION: Use prefix matching more efficiently
-  const yearMonthPrefix = `${year}-${String(month + 1).padStart(2, '0')}`;
-  const negativeYearMonthPrefix = `-${Math.abs(year)}-${String(month + 1).padStart(2, '0')}`;
-  
+  // Day keys are canonical ISO strings, so the month prefix ("2024-03-", "-0044-03-")
+  // identifies them exactly
+  const monthStartJDN = gregorianToJDN(year, month + 1, 1);
+  const monthEndJDN = getMonthEndJDN(year, month);
+  const yearMonthPrefix = jdnToISODateString(monthStartJDN).slice(0, -2);
+
   for (const [dateStr, dayEntries] of lookup.byDateString.entries()) {
-    // OPTIMIZATION: Fast prefix check first, then detailed parsing only if needed
-    if (dateStr.startsWith('-')) {
-      // Negative year - check prefix match first
-      if (dateStr.startsWith(negativeYearMonthPrefix)) {
-        results.push(...dayEntries);
-      }
-    } else {
-      // Positive year - simple prefix match
-      if (dateStr.startsWith(yearMonthPrefix)) {
-        results.push(...dayEntries);
-      }
+    if (dateStr.startsWith(yearMonthPrefix)) {
+      results.push(...dayEntries);
     }
   }
 
   // Add week entries that overlap with this month
-  const monthStart = new Date(year, month, 1);
-  const monthEnd = new Date(year, month + 1, 0);
-  monthEnd.setHours(23, 59, 59, 999);
-
   for (const [weekKey, weekEntries] of lookup.byWeekStart.entries()) {
-    const weekStart = parseISODate(weekKey);
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
-    weekEnd.setHours(23, 59, 59, 999);
-
-    // Check if week overlaps with month
-    if (weekStart <= monthEnd && weekEnd >= monthStart) {
+    const weekStartJDN = isoDateStringToJDN(weekKey)!;
+    if (weekStartJDN <= monthEndJDN && weekStartJDN + 6 >= monthStartJDN) {
       results.push(...weekEntries);
     }
   }
 
+  // Add calendar-native entries that overlap with this month
+  for (const item of getCalendarPeriodEntriesOptimized(lookup, monthStartJDN, monthEndJDN)) {
+    results.push(item.entry);
+  }
+
   return results;
 }
 
@@ -455,16 +669,18 @@ export function filterEntriesByDateRangeOptimized(
   excludeDayEntries: boolean = false
 ): JournalEntry[] {
   const results: JournalEntry[] = [];
-  const startDateStr = formatDate(startDate);
-  const endDateStr = formatDate(endDate);
+  const startJDN = dateToJDN(startDate);
+  const endJDN = dateToJDN(endDate);
   const startYear = startDate.getFullYear();
   const endYear = endDate.getFullYear();
   const startMonth = startDate.getMonth();
   const endMonth = endDate.getMonth();
 
-  // Helper to check if a date string is in range
+  // Helper to check if a date string is in range (compared by JDN, since string order
+  // breaks for negative years)
   const isInRange = (dateStr: string): boolean => {
-    return dateStr >= startDateStr && dateStr <= endDateStr;
+    const jdn = isoDateStringToJDN(dateStr);
+    return jdn !== null && jdn >= startJDN && jdn <= endJDN;
   };
 
   // Add day entries in range (skip if excludeDayEntries is true)
@@ -478,12 +694,8 @@ export function filterEntriesByDateRangeOptimized(
 
   // Add week entries that overlap with range
   for (const [weekKey, entries] of lookup.byWeekStart.entries()) {
-    const weekStart = parseISODate(weekKey);
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
-    weekEnd.setHours(23, 59, 59, 999);
-
-    if (weekStart <= endDate && weekEnd >= startDate) {
+    const weekStartJDN = isoDateStringToJDN(weekKey)!;
+    if (weekStartJDN <= endJDN && weekStartJDN + 6 >= startJDN) {
       results.push(...entries);
     }
   }
@@ -520,6 +732,31 @@ export function filterEntriesByDateRangeOptimized(
     }
   }
 
+  // Add century entries that overlap with range
+  const startCentury = Math.floor(startYear / 100) * 100;
+  const endCentury = Math.floor(endYear / 100) * 100;
+  for (let century = startCentury; century <= endCentury; century += 100) {
+    const centuryEntries = lookup.byCentury.get(century);
+    if (centuryEntries) {
+      results.push(...centuryEntries);
+    }
+  }
+
+  // Add millennium entries that overlap with range
+  const startMillennium = Math.floor(startYear / 1000) * 1000;
+  const endMillennium = Math.floor(endYear / 1000) * 1000;
+  for (let millennium = startMillennium; millennium <= endMillennium; millennium += 1000) {
+    const millenniumEntries = lookup.byMillennium.get(millennium);
+    if (millenniumEntries) {
+      results.push(...millenniumEntries);
+    }
+  }
+
+  // Add calendar-native entries that overlap with range
+  for (const item of getCalendarPeriodEntriesOptimized(lookup, startJDN, endJDN)) {
+    results.push(item.entry);
+  }
+
   return results;
 }
 
@@ -532,16 +769,23 @@ export function addEntryToLookup(
   entry: JournalEntry,
   weekStartsOn: number = 0
 ): void {
+  if (isCalendarPeriodEntry(entry)) {
+    indexCalendarPeriodEntry(lookup, entry);
+    return;
+  }
+
   const dateStr = entry.date;
   
   // Extract year and month from date string
-  const isNegative = dateStr.startsWith('-');
-  const cleanDateStr = isNegative ? dateStr.substring(1) : dateStr;
-  const [yearStr, monthStr] = cleanDateStr.split('-');
-  const entryYear = isNegative ? -parseInt(yearStr, 10) : parseInt(yearStr, 10);
-  const entryMonth = parseInt(monthStr, 10) - 1;
-  const monthKey = `${entryYear}-${monthStr}`;
+  const parts = parseISODateParts(dateStr);
+  if (!parts) {
+    return;
+  }
+  const entryYear = parts.year;
+  const monthKey = `${entryYear}-${String(parts.month).padStart(2, '0')}`;
   const decadeStart = Math.floor(entryYear / 10) * 10;
+  const centuryStart = Math.floor(entryYear / 100) * 100;
+  const millenniumStart = Math.floor(entryYear / 1000) * 1000;
 
   switch (entry.timeRange) {
     case 'day': {
@@ -564,9 +808,7 @@ export function addEntryToLookup(
       break;
     }
     case 'week': {
-      const entryDate = parseISODate(dateStr);
-      const weekStart = getWeekStart(entryDate, weekStartsOn);
-      const weekKey = formatDate(weekStart);
+      const weekKey = getWeekStartISODate(dateStr, weekStartsOn)!;
       let weekEntries = lookup.byWeekStart.get(weekKey);
       if (!weekEntries) {
         weekEntries = [];
@@ -606,6 +848,26 @@ export function addEntryToLookup(
       lookup.hasDecadeEntryDecades.add(decadeStart);
       break;
     }
+    case 'century': {
+      let centuryEntries = lookup.byCentury.get(centuryStart);
+      if (!centuryEntries) {
+        centuryEntries = [];
+        lookup.byCentury.set(centuryStart, centuryEntries);
+      }
+      centuryEntries.push(entry);
+      lookup.hasCenturyEntryCenturies.add(centuryStart);
+      break;
+    }
+    case 'millennium': {
+      let millenniumEntries = lookup.byMillennium.get(millenniumStart);
+      if (!millenniumEntries) {
+        millenniumEntries = [];
+        lookup.byMillennium.set(millenniumStart, millenniumEntries);
+      }
+      millenniumEntries.push(entry);
+      lookup.hasMillenniumEntryMillennia.add(millenniumStart);
+      break;
+    }
   }
 }
 
@@ -618,16 +880,23 @@ export function removeEntryFromLookup(
   entry: JournalEntry,
   weekStartsOn: number = 0
 ): void {
+  if (isCalendarPeriodEntry(entry)) {
+    unindexCalendarPeriodEntry(lookup, entry);
+    return;
+  }
+
   const dateStr = entry.date;
   
   // Extract year and month from date string
-  const isNegative = dateStr.startsWith('-');
-  const cleanDateStr = isNegative ? dateStr.substring(1) : dateStr;
-  const [yearStr, monthStr] = cleanDateStr.split('-');
-  const entryYear = isNegative ? -parseInt(yearStr, 10) : parseInt(yearStr, 10);
-  const entryMonth = parseInt(monthStr, 10) - 1;
-  const monthKey = `${entryYear}-${monthStr}`;
+  const parts = parseISODateParts(dateStr);
+  if (!parts) {
+    return;
+  }
+  const entryYear = parts.year;
+  const monthKey = `${entryYear}-${String(parts.month).padStart(2, '0')}`;
   const decadeStart = Math.floor(entryYear / 10) * 10;
+  const centuryStart = Math.floor(entryYear / 100) * 100;
+  const millenniumStart = Math.floor(entryYear / 1000) * 1000;
 
   switch (entry.timeRange) {
     case 'day': {
@@ -658,9 +927,7 @@ export function removeEntryFromLookup(
       break;
     }
     case 'week': {
-      const entryDate = parseISODate(dateStr);
-      const weekStart = getWeekStart(entryDate, weekStartsOn);
-      const weekKey = formatDate(weekStart);
+      const weekKey = getWeekStartISODate(dateStr, weekStartsOn)!;
       const weekEntries = lookup.byWeekStart.get(weekKey);
       if (weekEntries) {
         const index = weekEntries.findIndex(e => e.id === entry.id);
@@ -716,5 +983,33 @@ export function removeEntryFromLookup(
       }
       break;
     }
+    case 'century': {
+      const centuryEntries = lookup.byCentury.get(centuryStart);
+      if (centuryEntries) {
+        const index = centuryEntries.findIndex(e => e.id === entry.id);
+        if (index !== -1) {
+          centuryEntries.splice(index, 1);
+          if (centuryEntries.length === 0) {
+            lookup.byCentury.delete(centuryStart);
+            lookup.hasCenturyEntryCenturies.delete(centuryStart);
+          }
+        }
+      }
+      break;
+    }
+    case 'millennium': {
+      const millenniumEntries = lookup.byMillennium.get(millenniumStart);
+      if (millenniumEntries) {
+        const index = millenniumEntries.findIndex(e => e.id === entry.id);
+        if (index !== -1) {
+          millenniumEntries.splice(index, 1);
+          if (millenniumEntries.length === 0) {
+            lookup.byMillennium.delete(millenniumStart);
+            lookup.hasMillenniumEntryMillennia.delete(millenniumStart);
+          }
+        }
+      }
+      break;
+    }
   }
 }
@@ -0,0 +1,25 @@
+/**
+ * Display labels for the typed links between entries
+ */
+
+import { EntryRelation } from '../types';
+
+// A link as seen from the entry that made it
+export const RELATION_LABELS: Record<EntryRelation, string> = {
+  'related': 'Related to',
+  'follows-up': 'Follows up on',
+  'contradicts': 'Contradicts',
+  'same-event': 'Same event as',
+  'caused-by': 'Caused by',
+  'mentions': 'Mentions',
+};
+
+// The same link as seen from the entry it points to (a backlink)
+export const BACKLINK_LABELS: Record<EntryRelation, string> = {
+  'related': 'Linked from',
+  'follows-up': 'Followed up by',
+  'contradicts': 'Contradicted by',
+  'same-event': 'Same event as',
+  'caused-by': 'Led to',
+  'mentions': 'Mentioned in',
+};
@@ -0,0 +1,101 @@
+/**
+ * Placeholder expansion for entry templates.
+ * Templates may contain {{name}} or {{name:argument}} placeholders that are replaced
+ * when an entry is created from them:
+ *
+ *   {{date}}             Entry date as YYYY-MM-DD ({{date:MMMM d, yyyy}} takes a date-fns pattern)
+ *   {{weekday}}          Day of the week of the entry date
+ *   {{year}} {{month}} {{day}}
+ *   {{time}}             Current time (HH:mm)
+ *   {{timeRange}}        Entry time range (Day, Week, ...)
+ *   {{calendar:hebrew}}  Entry date in another calendar system
+ *   {{moonPhase}}        Moon phase on the entry date
+ *
+ * Unknown placeholders are left as they are.
+ */
+
+import { TimeRange } from '../types';
+import { formatDate } from './dateUtils';
+import { dateToJDN } from './calendars/julianDayUtils';
+import { getMoonPhase } from './calendars/astronomicalUtils';
+import { dateToCalendarDate, formatCalendarDate, getCalendarConverter } from './calendars/calendarConverter';
+import { CalendarSystem } from './calendars/types';
+
+export interface TemplateContext {
+  date: Date;
+  timeRange: TimeRange;
+  now?: Date; // Defaults to the current time
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z]+)(?::([^}]*))?\s*\}\}/g;
+
+const MOON_PHASE_NAMES: Record<ReturnType<typeof getMoonPhase>, string> = {
+  'new': 'New Moon',
+  'waxing-crescent': 'Waxing Crescent',
+  'first-quarter': 'First Quarter',
+  'waxing-gibbous': 'Waxing Gibbous',
+  'full': 'Full Moon',
+  'waning-gibbous': 'Waning Gibbous',
+  'last-quarter': 'Last Quarter',
+  'waning-crescent': 'Waning Crescent',
+};
+
+// Shown in the template editor as a quick reference
+export const TEMPLATE_PLACEHOLDERS: Array<{ placeholder: string; description: string }> = [
+  { placeholder: '{{date}}', description: 'Entry date (YYYY-MM-DD)' },
+  { placeholder: '{{date:MMMM d, yyyy}}', description: 'Entry date in a custom format' },
+  { placeholder: '{{weekday}}', description: 'Day of the week' },
+  { placeholder: '{{time}}', description: 'Current time' },
+  { placeholder: '{{timeRange}}', description: 'Entry time range' },
+  { placeholder: '{{calendar:hebrew}}', description: 'Date in another calendar' },
+  { placeholder: '{{moonPhase}}', description: 'Moon phase on the entry date' },
+];
+
+function expandPlaceholder(name: string, argument: string | undefined, context: TemplateContext): string | null {
+  const { date, timeRange } = context;
+  switch (name) {
+    case 'date':
+      return argument ? formatDate(date, argument) : formatDate(date);
+    case 'weekday':
+      return formatDate(date, 'EEEE');
+    case 'year':
+      return String(date.getFullYear());
+    case 'month':
+      return formatDate(date, 'MMMM');
+    case 'day':
+      return String(date.getDate());
+    case 'time':
+      return formatDate(context.now || new Date(), argument || 'HH:mm');
+    case 'timeRange':
+      return timeRange.charAt(0).toUpperCase() + timeRange.slice(1);
+    case 'calendar': {
+      const calendar = (argument || '').trim() as CalendarSystem;
+      if (!getCalendarConverter(calendar)) {
+        return null;
+      }
+      return formatCalendarDate(dateToCalendarDate(date, calendar), 'D MMMM YYYY');
+    }
+    case 'moonPhase':
+      return MOON_PHASE_NAMES[getMoonPhase(dateToJDN(date))];
+    default:
+      return null;
+  }
+}
+
+/**
+ * Replace the placeholders in a template's text
+ *
+ * @param text - Template title or content
+ * @param context - Date and time range of the entry being created
+ * @returns The text with every known placeholder expanded
+ */
+export function expandTemplatePlaceholders(text: string, context: TemplateContext): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string, argument: string | undefined) => {
+    try {
+      return expandPlaceholder(name, argument, context) ?? match;
+    } catch (error) {
+      console.warn(`[Templates] Could not expand ${match}:`, error);
+      return match;
+    }
+  });
+}
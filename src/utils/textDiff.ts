@@ -0,0 +1,93 @@
+/**
+ * Word-level text diff used by the entry version history.
+ * Text is split into words and the whitespace between them; the diff is the longest
+ * common subsequence of those tokens, with runs of the same kind merged together.
+ */
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+// Above this many token pairs the changed middle is shown as one replacement
+const MAX_DIFF_CELLS = 4000000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegmentType, text: string): void {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Compare two texts word by word
+ *
+ * @param oldText - The earlier text
+ * @param newText - The later text
+ * @returns Segments in reading order: unchanged text, text only in newText and text only in oldText
+ */
+export function diffWords(oldText: string, newText: string): DiffSegment[] {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  // Unchanged text at either end needs no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    pushSegment(segments, 'removed', midA.join(''));
+    pushSegment(segments, 'added', midB.join(''));
+  } else {
+    // lengths[i * width + j] = LCS length of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        pushSegment(segments, 'removed', midA[i++]);
+      } else {
+        pushSegment(segments, 'added', midB[j++]);
+      }
+    }
+    pushSegment(segments, 'removed', midA.slice(i).join(''));
+    pushSegment(segments, 'added', midB.slice(j).join(''));
+  }
+
+  pushSegment(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+}